@@ -0,0 +1,29 @@
+// Runs the report template, duplicate-property and PM reply fixtures and exits non-zero on any
+// mismatch. Vite loads the TypeScript modules, so no separate TS runner is needed.
+import { createServer } from 'vite';
+
+const server = await createServer({
+  server: { middlewareMode: true },
+  appType: 'custom',
+  logLevel: 'error'
+});
+
+try {
+  const { checkReportTemplateFixtures } = await server.ssrLoadModule('/src/lib/reportTemplateFixtures.ts');
+  const { checkPropertyMatchingFixtures } = await server.ssrLoadModule('/src/lib/propertyMatchingFixtures.ts');
+  const { checkPMReplyParserFixtures } = await server.ssrLoadModule('/src/lib/pmReplyParserFixtures.ts');
+
+  const failures = [...checkReportTemplateFixtures(), ...checkPropertyMatchingFixtures(), ...checkPMReplyParserFixtures()];
+  failures.forEach(({ fixture, problems }) => {
+    console.error(`✗ ${fixture}`);
+    problems.forEach(problem => console.error(`    ${problem}`));
+  });
+
+  if (failures.length > 0) {
+    process.exitCode = 1;
+  } else {
+    console.log('All fixtures pass');
+  }
+} finally {
+  await server.close();
+}
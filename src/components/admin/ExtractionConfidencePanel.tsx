@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { ExtractedPDFData } from "@/lib/realPdfParser";
+import {
+  EXTRACTION_FIELD_LABELS,
+  GENERIC_TEMPLATE_ID,
+  LOW_CONFIDENCE_THRESHOLD,
+  type ExtractionField
+} from "@/lib/reportTemplates";
+
+// Fields worth calling out when the parser couldn't find them
+const KEY_FIELDS: ExtractionField[] = ['propertyName', 'reportDate', 'inspector', 'roofArea', 'deficiencies'];
+
+interface ExtractionConfidencePanelProps {
+  extractedData: ExtractedPDFData;
+}
+
+function displayValue(extractedData: ExtractedPDFData, field: ExtractionField): string {
+  switch (field) {
+    case 'inspectionType':
+      return extractedData.inspectionTypeClassification.primaryType.replace('_', ' ');
+    case 'roofArea':
+      return `${extractedData.roofArea.toLocaleString()} sq ft`;
+    case 'roofSections':
+      return extractedData.roofSections.map(section => section.name).join(', ');
+    case 'deficiencies': {
+      const total = extractedData.deficiencies.reduce((sum, deficiency) => sum + (deficiency.estimatedCost || 0), 0);
+      return `${extractedData.deficiencies.length} found${total > 0 ? `, $${total.toLocaleString()}` : ''}`;
+    }
+    case 'photoCaptions':
+      return `${extractedData.photoCaptions.length} captions`;
+    default:
+      return String(extractedData[field] ?? '');
+  }
+}
+
+function confidenceClass(confidence: number): string {
+  if (confidence >= 0.8) return 'text-green-700 border-green-300';
+  if (confidence >= LOW_CONFIDENCE_THRESHOLD) return 'text-yellow-700 border-yellow-300';
+  return 'text-red-700 border-red-300';
+}
+
+export function ExtractionConfidencePanel({ extractedData }: ExtractionConfidencePanelProps) {
+  const [open, setOpen] = useState(false);
+  const fieldConfidence = extractedData.fieldConfidence;
+
+  const found = (Object.keys(EXTRACTION_FIELD_LABELS) as ExtractionField[])
+    .filter(field => fieldConfidence[field] !== undefined);
+  const lowCount = found.filter(field => (fieldConfidence[field] ?? 0) < LOW_CONFIDENCE_THRESHOLD).length;
+  const missing = KEY_FIELDS.filter(field => fieldConfidence[field] === undefined);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={extractedData.template.id === GENERIC_TEMPLATE_ID ? 'secondary' : 'outline'} className="text-xs">
+          {extractedData.template.name}
+        </Badge>
+        {lowCount > 0 && (
+          <Badge variant="destructive" className="text-xs">
+            {lowCount} low-confidence {lowCount === 1 ? 'field' : 'fields'}
+          </Badge>
+        )}
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+            {open ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+            Field confidence
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+
+      <CollapsibleContent>
+        <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+          {found.map(field => {
+            const confidence = fieldConfidence[field] ?? 0;
+            return (
+              <div key={field} className="flex items-center justify-between gap-2 min-w-0">
+                <span className="text-gray-500 shrink-0">{EXTRACTION_FIELD_LABELS[field]}</span>
+                <span className="truncate flex-1 text-right" title={displayValue(extractedData, field)}>
+                  {displayValue(extractedData, field)}
+                </span>
+                <Badge variant="outline" className={`text-xs shrink-0 ${confidenceClass(confidence)}`}>
+                  {Math.round(confidence * 100)}%
+                </Badge>
+              </div>
+            );
+          })}
+        </div>
+        {missing.length > 0 && (
+          <p className="mt-2 text-xs text-gray-500">
+            Not found: {missing.map(field => EXTRACTION_FIELD_LABELS[field]).join(', ')}
+          </p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
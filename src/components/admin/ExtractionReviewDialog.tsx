@@ -0,0 +1,348 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardCheck, ExternalLink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { HistoricalInspectionService, type RoofUpdateField } from "@/lib/historicalInspectionService";
+import { ExtractionReviewService, REVIEW_REASON_LABELS, reviewExtraction, type ExtractionReview, type ReviewReason } from "@/lib/extractionReviews";
+import { PropertyMatcher, type PropertyMatch } from "@/lib/propertyMatcher";
+import { getStagedFileUrl } from "@/lib/fileStorage";
+import { splitPages } from "@/lib/pdfTextExtractor";
+import { ExtractedPDFData } from "@/lib/realPdfParser";
+import { EXTRACTION_FIELD_LABELS, LOW_CONFIDENCE_THRESHOLD, type ExtractionField, type InspectionTypeCode } from "@/lib/reportTemplates";
+
+export interface ReviewProperty {
+  id: string;
+  property_name: string;
+  address: string;
+}
+
+interface ExtractionReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  review: ExtractionReview | null;
+  properties: ReviewProperty[];
+  onReviewed: () => void;
+}
+
+type TextField = Exclude<ExtractionField, 'inspectionType' | 'roofArea' | 'roofSections' | 'deficiencies' | 'photoCaptions'>;
+
+const TEXT_FIELDS = (Object.keys(EXTRACTION_FIELD_LABELS) as ExtractionField[])
+  .filter((field): field is TextField => !['inspectionType', 'roofArea', 'roofSections', 'deficiencies', 'photoCaptions'].includes(field));
+
+const INSPECTION_TYPES: Array<{ value: InspectionTypeCode; label: string }> = [
+  { value: 'annual', label: 'Annual' },
+  { value: 'storm', label: 'Storm damage' },
+  { value: 'due_diligence', label: 'Due diligence' },
+  { value: 'survey', label: 'Survey' },
+  { value: 'unknown', label: 'Unknown' }
+];
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString();
+  return String(value);
+};
+
+export function ExtractionReviewDialog({ open, onOpenChange, review, properties, onReviewed }: ExtractionReviewDialogProps) {
+  const [draft, setDraft] = useState<ExtractedPDFData | null>(null);
+  const [edited, setEdited] = useState<ExtractionField[]>([]);
+  const [roofId, setRoofId] = useState('');
+  const [candidates, setCandidates] = useState<PropertyMatch[]>([]);
+  const [roofValues, setRoofValues] = useState<Record<string, string | number | null> | null>(null);
+  const [approved, setApproved] = useState<Record<string, boolean>>({});
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!review) return;
+    const extraction = reviewExtraction(review);
+    setDraft(extraction);
+    setEdited([]);
+    setRoofId(review.suggested_roof_id || '');
+    setApproved({});
+    setRejectionReason('');
+    PropertyMatcher.getPotentialMatches(extraction.propertyName, extraction.address, 5).then(setCandidates);
+  }, [review]);
+
+  useEffect(() => {
+    setRoofValues(null);
+    if (!roofId) return;
+    HistoricalInspectionService.loadRoofFields(roofId)
+      .then(setRoofValues)
+      .catch(error => console.error('Error loading property fields:', error));
+  }, [roofId]);
+
+  const roofChanges = useMemo(
+    () => (draft && roofValues ? HistoricalInspectionService.diffRoofFields(roofValues, draft) : []),
+    [draft, roofValues]
+  );
+
+  if (!review || !draft) return null;
+
+  const lowFields = new Set(review.low_confidence_fields);
+  const confidenceOf = (field: ExtractionField) => edited.includes(field) ? 1 : draft.fieldConfidence?.[field];
+  // Filling an empty field is approved unless unticked; overwrites have to be ticked
+  const isApproved = (field: RoofUpdateField, overwrite: boolean) => approved[field] ?? !overwrite;
+
+  const updateField = <K extends keyof ExtractedPDFData>(field: K & ExtractionField, value: ExtractedPDFData[K]) => {
+    setDraft({ ...draft, [field]: value });
+    if (!edited.includes(field)) setEdited([...edited, field]);
+  };
+
+  const updateInspectionType = (value: InspectionTypeCode) => {
+    setDraft({ ...draft, inspectionTypeClassification: { primaryType: value, confidence: 1, indicators: ['Set in review'] } });
+    if (!edited.includes('inspectionType')) setEdited([...edited, 'inspectionType']);
+  };
+
+  const handleCommit = async () => {
+    if (!roofId) return;
+
+    // Fields a reviewer changed are as certain as they get
+    const corrected: ExtractedPDFData = {
+      ...draft,
+      fieldConfidence: { ...draft.fieldConfidence, ...Object.fromEntries(edited.map(field => [field, 1])) }
+    };
+    const approvedFields = roofChanges.filter(change => isApproved(change.field, change.overwrite)).map(change => change.field);
+
+    setSaving(true);
+    try {
+      await HistoricalInspectionService.commitReview(review, roofId, corrected, approvedFields);
+      toast({
+        title: "Inspection committed",
+        description: `${review.file_name} was stored${approvedFields.length > 0 ? ` and ${approvedFields.length} property fields updated` : ''}.`,
+      });
+      onOpenChange(false);
+      onReviewed();
+    } catch (error) {
+      console.error('Review commit error:', error);
+      toast({
+        title: "Commit failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!window.confirm(`Reject ${review.file_name}? Nothing from it will be stored.`)) return;
+
+    setSaving(true);
+    try {
+      await ExtractionReviewService.reject(review, rejectionReason.trim());
+      toast({ title: "Extraction rejected", description: review.file_name });
+      onOpenChange(false);
+      onReviewed();
+    } catch (error) {
+      console.error('Review reject error:', error);
+      toast({
+        title: "Reject failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confidenceBadge = (field: ExtractionField) => {
+    const confidence = confidenceOf(field);
+    if (confidence === undefined) {
+      return <Badge variant="outline" className="text-xs text-gray-500">not found</Badge>;
+    }
+    return (
+      <Badge variant={confidence < LOW_CONFIDENCE_THRESHOLD ? 'destructive' : 'outline'} className="text-xs">
+        {edited.includes(field) ? 'edited' : `${Math.round(confidence * 100)}%`}
+      </Badge>
+    );
+  };
+
+  const fieldClass = (field: ExtractionField) =>
+    lowFields.has(field) && !edited.includes(field) ? 'border-red-300 bg-red-50' : '';
+
+  const otherProperties = properties.filter(property => !candidates.some(candidate => candidate.id === property.id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Review Extraction: {review.file_name}
+          </DialogTitle>
+          <DialogDescription className="flex flex-wrap items-center gap-2">
+            {(review.review_reasons as ReviewReason[]).map(reason => (
+              <Badge key={reason} variant="secondary">{REVIEW_REASON_LABELS[reason] || reason}</Badge>
+            ))}
+            <span>Parsed by {draft.template?.name || 'the generic parser'}.</span>
+            <a href={getStagedFileUrl(review.staged_path)} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 text-primary underline">
+              Open PDF <ExternalLink className="h-3 w-3" />
+            </a>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {/* Report text */}
+          <ScrollArea className="h-[60vh] border rounded-lg bg-gray-50">
+            <div className="p-3 font-mono text-xs whitespace-pre-wrap">
+              {splitPages(review.raw_text).map((text, index) => (
+                <div key={index}>
+                  <div className="text-gray-400 my-2">— Page {index + 1} —</div>
+                  {text}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {/* Extracted fields */}
+          <ScrollArea className="h-[60vh] pr-3">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Property</Label>
+                <Select value={roofId} onValueChange={setRoofId}>
+                  <SelectTrigger className={roofId ? '' : 'border-red-300 bg-red-50'}>
+                    <SelectValue placeholder="Confirm the property..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Closest matches</SelectLabel>
+                        {candidates.map(candidate => (
+                          <SelectItem key={candidate.id} value={candidate.id}>
+                            {candidate.property_name} — {candidate.address} ({Math.round(candidate.confidence * 100)}%)
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    <SelectGroup>
+                      <SelectLabel>All properties</SelectLabel>
+                      {otherProperties.map(property => (
+                        <SelectItem key={property.id} value={property.id}>
+                          {property.property_name} — {property.address}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-xs">{EXTRACTION_FIELD_LABELS.inspectionType}</Label>
+                    {confidenceBadge('inspectionType')}
+                  </div>
+                  <Select value={draft.inspectionTypeClassification.primaryType} onValueChange={(value) => updateInspectionType(value as InspectionTypeCode)}>
+                    <SelectTrigger className={fieldClass('inspectionType')}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INSPECTION_TYPES.map(type => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-xs">{EXTRACTION_FIELD_LABELS.roofArea} (sq ft)</Label>
+                    {confidenceBadge('roofArea')}
+                  </div>
+                  <Input
+                    type="number"
+                    className={fieldClass('roofArea')}
+                    value={draft.roofArea || ''}
+                    onChange={(e) => updateField('roofArea', parseInt(e.target.value, 10) || 0)}
+                  />
+                </div>
+                {TEXT_FIELDS.map(field => (
+                  <div key={field} className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs">{EXTRACTION_FIELD_LABELS[field]}</Label>
+                      {confidenceBadge(field)}
+                    </div>
+                    <Input
+                      className={fieldClass(field)}
+                      value={draft[field] || ''}
+                      onChange={(e) => updateField(field, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {draft.deficiencies?.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Deficiencies ({draft.deficiencies.length})</Label>
+                  <ul className="text-xs space-y-1">
+                    {draft.deficiencies.map((deficiency, index) => (
+                      <li key={index} className="flex justify-between gap-2">
+                        <span>
+                          <Badge variant="outline" className="text-xs mr-1">{deficiency.severity}</Badge>
+                          {deficiency.section ? `${deficiency.section}: ` : ''}{deficiency.description}
+                        </span>
+                        <span className="shrink-0">{formatValue(deficiency.estimatedCost)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {roofId && (
+                <div className="space-y-2">
+                  <Label>Property updates</Label>
+                  {!roofValues ? (
+                    <p className="text-xs text-gray-500">Loading property...</p>
+                  ) : roofChanges.length === 0 ? (
+                    <p className="text-xs text-gray-500">This report doesn't change anything on the property.</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {roofChanges.map(change => (
+                        <div key={change.field} className="flex items-start gap-2 text-xs">
+                          <Checkbox
+                            id={`roof-${change.field}`}
+                            checked={isApproved(change.field, change.overwrite)}
+                            onCheckedChange={(checked) => setApproved({ ...approved, [change.field]: checked === true })}
+                          />
+                          <label htmlFor={`roof-${change.field}`} className="flex-1">
+                            <span className="font-medium">{change.label}:</span>{' '}
+                            <span className="text-gray-500 line-through">{formatValue(change.current)}</span>{' '}
+                            → {formatValue(change.proposed)}
+                            {change.overwrite && <Badge variant="destructive" className="ml-2 text-xs">overwrite</Badge>}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label className="text-xs">Rejection reason (if rejecting)</Label>
+                <Textarea rows={2} value={rejectionReason} onChange={(e) => setRejectionReason(e.target.value)} />
+              </div>
+            </div>
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleReject} disabled={saving}>
+            Reject
+          </Button>
+          <Button onClick={handleCommit} disabled={saving || !roofId || !roofValues}>
+            {saving ? 'Saving...' : 'Commit Inspection'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardCheck, FileText, Building2 } from "lucide-react";
+import {
+  ExtractionReviewService,
+  REVIEW_REASON_LABELS,
+  type ExtractionReview,
+  type ExtractionReviewStatus,
+  type ReviewReason
+} from "@/lib/extractionReviews";
+import { ExtractionReviewDialog, type ReviewProperty } from "./ExtractionReviewDialog";
+
+interface ExtractionReviewQueueProps {
+  properties: ReviewProperty[];
+  onQueueChange?: () => void;
+}
+
+export function ExtractionReviewQueue({ properties, onQueueChange }: ExtractionReviewQueueProps) {
+  const [status, setStatus] = useState<ExtractionReviewStatus>('pending');
+  const [reviews, setReviews] = useState<ExtractionReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedReview, setSelectedReview] = useState<ExtractionReview | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    setLoading(true);
+    setReviews(await ExtractionReviewService.getReviews(status));
+    setLoading(false);
+  }, [status]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const propertyName = (roofId: string | null) =>
+    properties.find(property => property.id === roofId)?.property_name;
+
+  const handleReviewed = () => {
+    loadReviews();
+    onQueueChange?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Extraction Review Queue
+            </CardTitle>
+            <CardDescription>
+              Reports held back because fields were read with low confidence, the property match
+              wasn't certain, or they would overwrite existing property data.
+            </CardDescription>
+          </div>
+          <Select value={status} onValueChange={(value) => setStatus(value as ExtractionReviewStatus)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="committed">Committed</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Loading reviews...</div>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No {status} reviews</div>
+        ) : (
+          <ScrollArea className="h-96 border rounded-lg">
+            <div className="p-4 space-y-3">
+              {reviews.map(review => {
+                const roofName = propertyName(review.roof_id || review.suggested_roof_id);
+                return (
+                  <Card key={review.id} className="p-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="flex items-start gap-3 flex-1 min-w-0">
+                        <FileText className="h-4 w-4 text-gray-500 mt-1" />
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium truncate">{review.file_name}</p>
+                            <span className="text-xs text-gray-500 shrink-0">
+                              {new Date(review.created_at).toLocaleDateString()}
+                            </span>
+                          </div>
+                          <div className="flex flex-wrap gap-1">
+                            {(review.review_reasons as ReviewReason[]).map(reason => (
+                              <Badge key={reason} variant="secondary" className="text-xs">
+                                {REVIEW_REASON_LABELS[reason] || reason}
+                              </Badge>
+                            ))}
+                            {review.low_confidence_fields.length > 0 && (
+                              <Badge variant="outline" className="text-xs">
+                                {review.low_confidence_fields.length} fields to check
+                              </Badge>
+                            )}
+                          </div>
+                          {roofName && (
+                            <div className="flex items-center gap-1 text-sm text-gray-600">
+                              <Building2 className="h-3 w-3" />
+                              <span>{roofName}</span>
+                              {status === 'pending' && review.suggested_match_confidence !== null && (
+                                <span className="text-xs text-gray-500">
+                                  ({Math.round(review.suggested_match_confidence * 100)}% match)
+                                </span>
+                              )}
+                            </div>
+                          )}
+                          {review.rejection_reason && (
+                            <p className="text-xs text-gray-500">Rejected: {review.rejection_reason}</p>
+                          )}
+                        </div>
+                      </div>
+                      {status === 'pending' && (
+                        <Button size="sm" variant="outline" onClick={() => setSelectedReview(review)}>
+                          Review
+                        </Button>
+                      )}
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+
+      <ExtractionReviewDialog
+        open={!!selectedReview}
+        onOpenChange={(open) => !open && setSelectedReview(null)}
+        review={selectedReview}
+        properties={properties}
+        onReviewed={handleReviewed}
+      />
+    </Card>
+  );
+}
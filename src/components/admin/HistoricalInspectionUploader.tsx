@@ -5,8 +5,7 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   Upload, 
   FileText, 
@@ -14,7 +13,8 @@ import {
   AlertTriangle, 
   Building2,
   Calendar,
-  DollarSign,
+  ClipboardCheck,
+  RefreshCw,
   X
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
@@ -22,12 +22,17 @@ import { supabase } from "@/integrations/supabase/client";
 import { HistoricalInspectionService, ProcessedPDFResult } from "@/lib/historicalInspectionService";
 import { PropertyMatch } from "@/lib/propertyMatcher";
 import { ExtractedPDFData } from "@/lib/realPdfParser";
+import { ExtractionReviewService, REVIEW_REASON_LABELS, type ReviewReason } from "@/lib/extractionReviews";
+import { ExtractionConfidencePanel } from "./ExtractionConfidencePanel";
+import { ExtractionReviewQueue } from "./ExtractionReviewQueue";
+import { InspectionIngestionDashboard } from "./InspectionIngestionDashboard";
 
 interface UploadedFile {
   file: File;
   id: string;
-  status: 'pending' | 'processing' | 'matched' | 'failed';
+  status: 'pending' | 'processing' | 'matched' | 'review' | 'failed';
   matchedProperty?: PropertyMatch;
+  reviewReasons?: ReviewReason[];
   extractedData?: ExtractedPDFData;
   processedResult?: ProcessedPDFResult;
   error?: string;
@@ -49,9 +54,17 @@ export function HistoricalInspectionUploader() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [isDragOver, setIsDragOver] = useState(false);
-  const [showManualMatchDialog, setShowManualMatchDialog] = useState(false);
-  const [selectedFileForManualMatch, setSelectedFileForManualMatch] = useState<UploadedFile | null>(null);
-  const [manualSelectedPropertyId, setManualSelectedPropertyId] = useState<string>('');
+  const [pendingReviews, setPendingReviews] = useState(0);
+  const [outdatedReports, setOutdatedReports] = useState(0);
+  const [isReparsing, setIsReparsing] = useState(false);
+
+  const refreshPendingReviews = async () => {
+    setPendingReviews(await ExtractionReviewService.getPendingCount());
+  };
+
+  const refreshOutdatedReports = async () => {
+    setOutdatedReports(await HistoricalInspectionService.getOutdatedReportCount());
+  };
 
   // Load properties on component mount
   useEffect(() => {
@@ -76,8 +89,33 @@ export function HistoricalInspectionUploader() {
     };
 
     fetchProperties();
+    refreshPendingReviews();
+    refreshOutdatedReports();
   }, [toast]);
 
+  // Stored report text is parsed again with the current rules, no re-upload needed
+  const handleReparseOutdated = async () => {
+    setIsReparsing(true);
+    try {
+      const { reparsed, failed } = await HistoricalInspectionService.reparseOutdatedInspections();
+      toast({
+        title: "Reports Re-parsed",
+        description: `${reparsed} inspections updated${failed > 0 ? `, ${failed} failed` : ''}`,
+        variant: failed > 0 && reparsed === 0 ? "destructive" : undefined
+      });
+    } catch (error) {
+      console.error('Error re-parsing reports:', error);
+      toast({
+        title: "Re-parse Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsReparsing(false);
+      refreshOutdatedReports();
+    }
+  };
+
   const handleFileSelect = (files: FileList | null) => {
     if (!files) return;
     
@@ -120,102 +158,6 @@ export function HistoricalInspectionUploader() {
     setUploadedFiles(prev => prev.filter(f => f.id !== fileId));
   };
 
-  // Removed - now using PropertyMatcher from real PDF parser
-
-  // Removed - now using RealPDFParser through HistoricalInspectionService
-
-  const handleManualPropertyMatch = async () => {
-    if (!selectedFileForManualMatch || !manualSelectedPropertyId) return;
-
-    try {
-      // Find the selected property
-      const selectedProperty = properties.find(p => p.id === manualSelectedPropertyId);
-      if (!selectedProperty) {
-        toast({
-          title: "Error",
-          description: "Selected property not found",
-          variant: "destructive"
-        });
-        return;
-      }
-
-      // Update the file to processing status
-      setUploadedFiles(prev => prev.map(f => 
-        f.id === selectedFileForManualMatch.id ? { ...f, status: 'processing' as const } : f
-      ));
-
-      // Store the inspection with the manually selected property
-      const storedResult = await HistoricalInspectionService.storeHistoricalInspection(
-        selectedProperty.id,
-        selectedFileForManualMatch.extractedData || {} as ExtractedPDFData,
-        selectedFileForManualMatch.file
-      );
-
-      if (storedResult.success) {
-        // Update file status to matched
-        setUploadedFiles(prev => prev.map(f => 
-          f.id === selectedFileForManualMatch.id ? { 
-            ...f, 
-            status: 'matched' as const,
-            matchedProperty: {
-              id: selectedProperty.id,
-              property_name: selectedProperty.property_name,
-              address: selectedProperty.address,
-              city: selectedProperty.city,
-              state: selectedProperty.state,
-              confidence: 1.0, // Manual selection is 100% confidence
-              matchType: 'manual' as const
-            },
-            error: undefined
-          } : f
-        ));
-
-        toast({
-          title: "Success",
-          description: `Successfully processed ${selectedFileForManualMatch.file.name} with ${selectedProperty.property_name}`,
-        });
-      } else {
-        // Update file status back to failed with new error
-        setUploadedFiles(prev => prev.map(f => 
-          f.id === selectedFileForManualMatch.id ? { 
-            ...f, 
-            status: 'failed' as const,
-            error: storedResult.error || 'Failed to store inspection data'
-          } : f
-        ));
-
-        toast({
-          title: "Error",
-          description: storedResult.error || 'Failed to process file',
-          variant: "destructive"
-        });
-      }
-
-    } catch (error) {
-      console.error('Error in manual property matching:', error);
-      
-      // Update file status back to failed
-      setUploadedFiles(prev => prev.map(f => 
-        f.id === selectedFileForManualMatch.id ? { 
-          ...f, 
-          status: 'failed' as const,
-          error: error instanceof Error ? error.message : 'Processing failed'
-        } : f
-      ));
-
-      toast({
-        title: "Error",
-        description: "Failed to process file with selected property",
-        variant: "destructive"
-      });
-    } finally {
-      // Close dialog and reset state
-      setShowManualMatchDialog(false);
-      setSelectedFileForManualMatch(null);
-      setManualSelectedPropertyId('');
-    }
-  };
-
   const processFiles = async () => {
     if (uploadedFiles.length === 0) return;
 
@@ -245,9 +187,29 @@ export function HistoricalInspectionUploader() {
               processedResult
             } : f
           ));
+        } else if (processedResult.reviewId) {
+          // Held for a person to check in the review queue
+          setUploadedFiles(prev => prev.map(f => 
+            f.id === file.id ? { 
+              ...f, 
+              status: 'review',
+              matchedProperty: processedResult.propertyMatch || undefined,
+              extractedData: processedResult.extractedData,
+              reviewReasons: processedResult.reviewReasons,
+              processedResult
+            } : f
+          ));
         } else {
-          // Processing failed or no property match
-          throw new Error(processedResult.error || 'Processing failed');
+          // Processing failed; keep what was read from the report so its confidence shows
+          setUploadedFiles(prev => prev.map(f => 
+            f.id === file.id ? { 
+              ...f, 
+              status: 'failed',
+              extractedData: processedResult.extractedData.fieldConfidence ? processedResult.extractedData : undefined,
+              processedResult,
+              error: processedResult.error || 'Processing failed'
+            } : f
+          ));
         }
 
       } catch (error) {
@@ -267,6 +229,7 @@ export function HistoricalInspectionUploader() {
     }
 
     setIsProcessing(false);
+    refreshPendingReviews();
     
     const successCount = uploadedFiles.filter(f => f.status === 'matched').length;
     const failedCount = uploadedFiles.filter(f => f.status === 'failed').length;
@@ -283,6 +246,7 @@ export function HistoricalInspectionUploader() {
       case 'pending': return <FileText className="h-4 w-4 text-gray-500" />;
       case 'processing': return <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-500 border-t-transparent" />;
       case 'matched': return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case 'review': return <ClipboardCheck className="h-4 w-4 text-yellow-600" />;
       case 'failed': return <AlertTriangle className="h-4 w-4 text-red-500" />;
     }
   };
@@ -292,284 +256,267 @@ export function HistoricalInspectionUploader() {
       case 'pending': return 'secondary';
       case 'processing': return 'default';
       case 'matched': return 'default';
+      case 'review': return 'outline';
       case 'failed': return 'destructive';
     }
   };
 
   return (
-    <div className="space-y-6">
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Upload className="h-5 w-5" />
-            Historical Inspection Report Upload
-          </CardTitle>
-          <CardDescription>
-            Upload PDF inspection reports from last year to populate Inspector Intelligence insights.
-            Files will be automatically matched to properties and data will be extracted.
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          {/* Upload Area */}
-          <div
-            className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
-              isDragOver 
-                ? 'border-primary bg-primary/10' 
-                : 'border-gray-300 hover:border-primary'
-            }`}
-            onDragOver={handleDragOver}
-            onDragLeave={handleDragLeave}
-            onDrop={handleDrop}
-          >
-            <Upload className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-            <p className="text-lg font-medium mb-2">Drop PDF files here or click to browse</p>
-            <p className="text-sm text-gray-500 mb-4">
-              Upload up to 280 inspection report PDFs. Files will be automatically matched to properties.
-            </p>
-            <input
-              type="file"
-              multiple
-              accept=".pdf"
-              onChange={(e) => handleFileSelect(e.target.files)}
-              className="hidden"
-              id="file-upload"
-            />
-            <Button asChild>
-              <label htmlFor="file-upload" className="cursor-pointer">
-                Select PDF Files
-              </label>
-            </Button>
-          </div>
-
-          {/* File List */}
-          {uploadedFiles.length > 0 && (
-            <div className="space-y-4">
-              <div className="flex justify-between items-center">
-                <h3 className="text-lg font-semibold">
-                  Uploaded Files ({uploadedFiles.length})
-                </h3>
-                <div className="flex gap-2">
-                  <Button 
-                    variant="outline" 
-                    onClick={() => setUploadedFiles([])}
-                    disabled={isProcessing}
-                  >
-                    Clear All
-                  </Button>
-                  <Button 
-                    onClick={processFiles}
-                    disabled={isProcessing || uploadedFiles.length === 0}
-                  >
-                    {isProcessing ? 'Processing...' : 'Process Files'}
-                  </Button>
-                </div>
-              </div>
+    <Tabs defaultValue="upload" className="space-y-6">
+      <TabsList>
+        <TabsTrigger value="upload">Upload</TabsTrigger>
+        <TabsTrigger value="review">
+          Review Queue{pendingReviews > 0 ? ` (${pendingReviews})` : ''}
+        </TabsTrigger>
+        <TabsTrigger value="bulk">Bulk Ingestion</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="upload" className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="h-5 w-5" />
+              Historical Inspection Report Upload
+            </CardTitle>
+            <CardDescription>
+              Upload PDF inspection reports from last year to populate Inspector Intelligence insights.
+              Files will be automatically matched to properties and data will be extracted.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Upload Area */}
+            <div
+              className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+                isDragOver 
+                  ? 'border-primary bg-primary/10' 
+                  : 'border-gray-300 hover:border-primary'
+              }`}
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+            >
+              <Upload className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+              <p className="text-lg font-medium mb-2">Drop PDF files here or click to browse</p>
+              <p className="text-sm text-gray-500 mb-4">
+                Upload up to 280 inspection report PDFs. Files will be automatically matched to properties.
+              </p>
+              <input
+                type="file"
+                multiple
+                accept=".pdf"
+                onChange={(e) => handleFileSelect(e.target.files)}
+                className="hidden"
+                id="file-upload"
+              />
+              <Button asChild>
+                <label htmlFor="file-upload" className="cursor-pointer">
+                  Select PDF Files
+                </label>
+              </Button>
+            </div>
 
-              {isProcessing && (
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>Processing files...</span>
-                    <span>{Math.round(progress)}%</span>
+            {/* File List */}
+            {uploadedFiles.length > 0 && (
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-lg font-semibold">
+                    Uploaded Files ({uploadedFiles.length})
+                  </h3>
+                  <div className="flex gap-2">
+                    <Button 
+                      variant="outline" 
+                      onClick={() => setUploadedFiles([])}
+                      disabled={isProcessing}
+                    >
+                      Clear All
+                    </Button>
+                    <Button 
+                      onClick={processFiles}
+                      disabled={isProcessing || uploadedFiles.length === 0}
+                    >
+                      {isProcessing ? 'Processing...' : 'Process Files'}
+                    </Button>
                   </div>
-                  <Progress value={progress} />
                 </div>
-              )}
-
-              <ScrollArea className="h-96 border rounded-lg">
-                <div className="p-4 space-y-3">
-                  {uploadedFiles.map((file) => (
-                    <Card key={file.id} className="p-3">
-                      <div className="flex items-start justify-between">
-                        <div className="flex items-start gap-3 flex-1">
-                          {getStatusIcon(file.status)}
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center gap-2 mb-1">
-                              <p className="font-medium truncate">{file.file.name}</p>
-                              <Badge variant={getStatusColor(file.status)}>
-                                {file.status}
-                              </Badge>
-                            </div>
-                            
-                            {file.matchedProperty && (
-                              <div className="flex items-center gap-1 text-sm text-green-600 mb-2">
-                                <Building2 className="h-3 w-3" />
-                                <span>{file.matchedProperty.property_name}</span>
-                                <Badge variant="outline" className="ml-2 text-xs">
-                                  {Math.round(file.matchedProperty.confidence * 100)}% match
+
+                {isProcessing && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span>Processing files...</span>
+                      <span>{Math.round(progress)}%</span>
+                    </div>
+                    <Progress value={progress} />
+                  </div>
+                )}
+
+                <ScrollArea className="h-96 border rounded-lg">
+                  <div className="p-4 space-y-3">
+                    {uploadedFiles.map((file) => (
+                      <Card key={file.id} className="p-3">
+                        <div className="flex items-start justify-between">
+                          <div className="flex items-start gap-3 flex-1">
+                            {getStatusIcon(file.status)}
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2 mb-1">
+                                <p className="font-medium truncate">{file.file.name}</p>
+                                <Badge variant={getStatusColor(file.status)}>
+                                  {file.status}
                                 </Badge>
                               </div>
-                            )}
-
-                            {file.extractedData && (
-                              <div className="space-y-2 text-sm">
-                                <div className="flex items-center gap-4">
-                                  <div className="flex items-center gap-1">
-                                    <Calendar className="h-3 w-3" />
-                                    <span>{file.extractedData.reportDate || 'Date not found'}</span>
-                                  </div>
-                                  {file.extractedData.roofArea > 0 && (
+                          
+                              {file.matchedProperty && (
+                                <div className="flex items-center gap-1 text-sm text-green-600 mb-2">
+                                  <Building2 className="h-3 w-3" />
+                                  <span>{file.matchedProperty.property_name}</span>
+                                  <Badge variant="outline" className="ml-2 text-xs">
+                                    {Math.round(file.matchedProperty.confidence * 100)}% match
+                                  </Badge>
+                                </div>
+                              )}
+
+                              {file.extractedData && (
+                                <div className="space-y-2 text-sm">
+                                  <div className="flex items-center gap-4">
                                     <div className="flex items-center gap-1">
-                                      <Building2 className="h-3 w-3" />
-                                      <span>{file.extractedData.roofArea.toLocaleString()} sq ft</span>
+                                      <Calendar className="h-3 w-3" />
+                                      <span>{file.extractedData.reportDate || 'Date not found'}</span>
                                     </div>
-                                  )}
-                                </div>
-                                <div className="text-xs text-gray-600">
-                                  {file.extractedData.reportType} • {file.extractedData.inspectionCompany}
-                                  {file.extractedData.roofSystem && ` • ${file.extractedData.roofSystem}`}
-                                </div>
-                                {file.extractedData.inspectionTypeClassification && file.extractedData.inspectionTypeClassification.primaryType !== 'unknown' && (
-                                  <div className="flex items-center gap-2 mt-1">
-                                    <Badge variant="secondary" className="text-xs">
-                                      Type: {file.extractedData.inspectionTypeClassification.primaryType.replace('_', ' ')}
-                                    </Badge>
-                                    <span className="text-xs text-gray-500">
-                                      {Math.round(file.extractedData.inspectionTypeClassification.confidence * 100)}% confidence
-                                    </span>
+                                    {file.extractedData.roofArea > 0 && (
+                                      <div className="flex items-center gap-1">
+                                        <Building2 className="h-3 w-3" />
+                                        <span>{file.extractedData.roofArea.toLocaleString()} sq ft</span>
+                                      </div>
+                                    )}
                                   </div>
-                                )}
-                              </div>
-                            )}
-
-                            {file.error && (
-                              <Alert className="mt-2">
-                                <AlertTriangle className="h-4 w-4" />
-                                <AlertTitle>Error</AlertTitle>
-                                <AlertDescription>{file.error}</AlertDescription>
-                                {file.status === 'failed' && file.error.includes('Could not match property') && (
-                                  <div className="mt-2">
-                                    <Button 
-                                      size="sm" 
-                                      variant="outline"
-                                      onClick={() => {
-                                        setSelectedFileForManualMatch(file);
-                                        setShowManualMatchDialog(true);
-                                      }}
-                                    >
-                                      Select Property Manually
-                                    </Button>
+                                  <div className="text-xs text-gray-600">
+                                    {file.extractedData.reportType} • {file.extractedData.inspectionCompany}
+                                    {file.extractedData.roofSystem && ` • ${file.extractedData.roofSystem}`}
                                   </div>
-                                )}
-                              </Alert>
-                            )}
+                                  {file.extractedData.inspectionTypeClassification && file.extractedData.inspectionTypeClassification.primaryType !== 'unknown' && (
+                                    <div className="flex items-center gap-2 mt-1">
+                                      <Badge variant="secondary" className="text-xs">
+                                        Type: {file.extractedData.inspectionTypeClassification.primaryType.replace('_', ' ')}
+                                      </Badge>
+                                      <span className="text-xs text-gray-500">
+                                        {Math.round(file.extractedData.inspectionTypeClassification.confidence * 100)}% confidence
+                                      </span>
+                                    </div>
+                                  )}
+                                  {file.extractedData.fieldConfidence && (
+                                    <ExtractionConfidencePanel extractedData={file.extractedData} />
+                                  )}
+                                </div>
+                              )}
+
+                              {file.status === 'review' && file.reviewReasons && (
+                                <Alert className="mt-2">
+                                  <ClipboardCheck className="h-4 w-4" />
+                                  <AlertTitle>Held for review</AlertTitle>
+                                  <AlertDescription>
+                                    {file.reviewReasons.map(reason => REVIEW_REASON_LABELS[reason]).join(', ')}.
+                                    Confirm it in the Review Queue to store it.
+                                  </AlertDescription>
+                                </Alert>
+                              )}
+
+                              {file.error && (
+                                <Alert className="mt-2">
+                                  <AlertTriangle className="h-4 w-4" />
+                                  <AlertTitle>Error</AlertTitle>
+                                  <AlertDescription>{file.error}</AlertDescription>
+                                </Alert>
+                              )}
+                            </div>
                           </div>
+                      
+                          {!isProcessing && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeFile(file.id)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
-                        
-                        {!isProcessing && (
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => removeFile(file.id)}
-                          >
-                            <X className="h-4 w-4" />
-                          </Button>
-                        )}
-                      </div>
-                    </Card>
-                  ))}
-                </div>
-              </ScrollArea>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+                      </Card>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+          </CardContent>
+        </Card>
 
-      {/* Summary Stats */}
-      {uploadedFiles.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Upload Summary</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-4 gap-4">
-              <div className="text-center">
-                <div className="text-2xl font-bold text-gray-600">
-                  {uploadedFiles.filter(f => f.status === 'pending').length}
-                </div>
-                <div className="text-sm text-gray-500">Pending</div>
+        {outdatedReports > 0 && (
+          <Alert>
+            <RefreshCw className="h-4 w-4" />
+            <AlertTitle>Parser updated</AlertTitle>
+            <AlertDescription>
+              <div className="flex items-center justify-between gap-4">
+                <span>
+                  {outdatedReports} stored {outdatedReports === 1 ? 'report was' : 'reports were'} read by an older
+                  version of the parser. Re-parse them to update their inspections and findings.
+                </span>
+                <Button size="sm" variant="outline" onClick={handleReparseOutdated} disabled={isReparsing}>
+                  {isReparsing ? 'Re-parsing...' : 'Re-parse Reports'}
+                </Button>
               </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-blue-600">
-                  {uploadedFiles.filter(f => f.status === 'processing').length}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Summary Stats */}
+        {uploadedFiles.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Upload Summary</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-5 gap-4">
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-gray-600">
+                    {uploadedFiles.filter(f => f.status === 'pending').length}
+                  </div>
+                  <div className="text-sm text-gray-500">Pending</div>
                 </div>
-                <div className="text-sm text-gray-500">Processing</div>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-green-600">
-                  {uploadedFiles.filter(f => f.status === 'matched').length}
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-blue-600">
+                    {uploadedFiles.filter(f => f.status === 'processing').length}
+                  </div>
+                  <div className="text-sm text-gray-500">Processing</div>
                 </div>
-                <div className="text-sm text-gray-500">Successful</div>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-red-600">
-                  {uploadedFiles.filter(f => f.status === 'failed').length}
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-green-600">
+                    {uploadedFiles.filter(f => f.status === 'matched').length}
+                  </div>
+                  <div className="text-sm text-gray-500">Successful</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-yellow-600">
+                    {uploadedFiles.filter(f => f.status === 'review').length}
+                  </div>
+                  <div className="text-sm text-gray-500">In Review</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-red-600">
+                    {uploadedFiles.filter(f => f.status === 'failed').length}
+                  </div>
+                  <div className="text-sm text-gray-500">Failed</div>
                 </div>
-                <div className="text-sm text-gray-500">Failed</div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Manual Property Selection Dialog */}
-      <Dialog open={showManualMatchDialog} onOpenChange={setShowManualMatchDialog}>
-        <DialogContent className="max-w-2xl">
-          <DialogHeader>
-            <DialogTitle>Manual Property Selection</DialogTitle>
-          </DialogHeader>
-          
-          {selectedFileForManualMatch && (
-            <div className="space-y-4">
-              <div className="p-4 bg-gray-50 rounded-lg">
-                <h4 className="font-medium mb-2">Failed File:</h4>
-                <p className="text-sm">{selectedFileForManualMatch.file.name}</p>
-                {selectedFileForManualMatch.extractedData && (
-                  <p className="text-sm text-gray-600 mt-1">
-                    Extracted Property: "{selectedFileForManualMatch.extractedData.propertyName}"
-                  </p>
-                )}
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium mb-2">
-                  Select Correct Property:
-                </label>
-                <Select value={manualSelectedPropertyId} onValueChange={setManualSelectedPropertyId}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Choose a property..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {properties.map((property) => (
-                      <SelectItem key={property.id} value={property.id}>
-                        {property.property_name} - {property.address}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
               </div>
-            </div>
-          )}
-          
-          <DialogFooter>
-            <Button 
-              variant="outline" 
-              onClick={() => {
-                setShowManualMatchDialog(false);
-                setSelectedFileForManualMatch(null);
-                setManualSelectedPropertyId('');
-              }}
-            >
-              Cancel
-            </Button>
-            <Button 
-              onClick={() => handleManualPropertyMatch()}
-              disabled={!manualSelectedPropertyId}
-            >
-              Process with Selected Property
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-    </div>
+            </CardContent>
+          </Card>
+        )}
+      </TabsContent>
+
+      <TabsContent value="review">
+        <ExtractionReviewQueue properties={properties} onQueueChange={refreshPendingReviews} />
+      </TabsContent>
+
+      <TabsContent value="bulk">
+        <InspectionIngestionDashboard />
+      </TabsContent>
+    </Tabs>
   );
 }
\ No newline at end of file
@@ -0,0 +1,400 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Archive, FolderOpen, Pause, Play, RotateCcw, XCircle, AlertTriangle, FileText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  InspectionIngestionService,
+  ACTIVE_JOB_STATUSES,
+  isJobStalled,
+  jobProgress,
+  type IngestionJob,
+  type IngestionJobStatus,
+  type IngestionItem,
+  type IngestionItemStatus
+} from "@/lib/inspectionIngestion";
+
+type ItemFilter = IngestionItemStatus | 'unmatched';
+
+const POLL_INTERVAL_MS = 5000;
+
+const ITEM_FILTERS: { value: ItemFilter; label: string }[] = [
+  { value: 'failed', label: 'Failed' },
+  { value: 'unmatched', label: 'Unmatched' },
+  { value: 'duplicate', label: 'Duplicates' },
+  { value: 'review', label: 'Sent to review' },
+  { value: 'stored', label: 'Stored' },
+  { value: 'pending', label: 'Waiting' }
+];
+
+const statusVariant = (status: string): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case 'completed': return 'default';
+    case 'failed':
+    case 'cancelled': return 'destructive';
+    case 'paused': return 'outline';
+    default: return 'secondary';
+  }
+};
+
+export function InspectionIngestionDashboard() {
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<IngestionJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [jobName, setJobName] = useState('');
+  const [archive, setArchive] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{ uploaded: number; total: number } | null>(null);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [itemFilter, setItemFilter] = useState<ItemFilter>('failed');
+  const [items, setItems] = useState<IngestionItem[]>([]);
+  const [itemTotal, setItemTotal] = useState(0);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // webkitdirectory isn't in React's input attributes
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const loadJobs = useCallback(async () => {
+    setJobs(await InspectionIngestionService.getJobs());
+    setLoading(false);
+  }, []);
+
+  const loadItems = useCallback(async () => {
+    if (!selectedJobId) return;
+    const { items, total } = await InspectionIngestionService.getItems(selectedJobId, itemFilter);
+    setItems(items);
+    setItemTotal(total);
+  }, [selectedJobId, itemFilter]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  // Jobs run on the server, so progress is polled while any of them is still going
+  const hasActiveJobs = jobs.some(job => ACTIVE_JOB_STATUSES.includes(job.status as IngestionJobStatus));
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = setInterval(() => {
+      loadJobs();
+      loadItems();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs, loadJobs, loadItems]);
+
+  const handleSubmit = async () => {
+    if (!archive && files.length === 0) return;
+
+    setSubmitting(true);
+    try {
+      const name = jobName.trim() || archive?.name || `${files.length} files`;
+      const job = await InspectionIngestionService.createJob(name, archive ? 'archive' : 'files');
+      setSelectedJobId(job.id);
+      await loadJobs();
+
+      if (archive) {
+        await InspectionIngestionService.submitArchive(job, archive);
+      } else {
+        setUploadProgress({ uploaded: 0, total: files.length });
+        await InspectionIngestionService.submitFiles(job, files, (uploaded, total) =>
+          setUploadProgress({ uploaded, total })
+        );
+      }
+
+      toast({
+        title: "Ingestion started",
+        description: "Processing continues on the server; you can leave this page and come back."
+      });
+      setJobName('');
+      setArchive(null);
+      setFiles([]);
+    } catch (error) {
+      toast({
+        title: "Ingestion failed to start",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+      setUploadProgress(null);
+      loadJobs();
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+    loadJobs();
+    loadItems();
+  };
+
+  const handleCancel = (job: IngestionJob) => {
+    if (!window.confirm(`Cancel "${job.name}"? Files already stored are kept.`)) return;
+    runAction(() => InspectionIngestionService.setStatus(job.id, 'cancelled'), "Couldn't cancel the job");
+  };
+
+  const selectedJob = jobs.find(job => job.id === selectedJobId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5" />
+            Bulk Ingestion
+          </CardTitle>
+          <CardDescription>
+            Upload a ZIP archive or a folder of inspection reports. Files are processed on the
+            server; folder names are used as property hints and files already on record are
+            skipped as duplicates.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ingestion-name">Job name</Label>
+            <Input
+              id="ingestion-name"
+              value={jobName}
+              onChange={(e) => setJobName(e.target.value)}
+              placeholder="e.g. 2019 inspection archive"
+            />
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="ingestion-archive">ZIP archive</Label>
+              <Input
+                id="ingestion-archive"
+                type="file"
+                accept=".zip,application/zip"
+                disabled={submitting}
+                onChange={(e) => {
+                  setArchive(e.target.files?.[0] || null);
+                  setFiles([]);
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ingestion-folder">Folder of PDFs</Label>
+              <Input
+                id="ingestion-folder"
+                ref={folderInputRef}
+                type="file"
+                multiple
+                disabled={submitting}
+                onChange={(e) => {
+                  setFiles(Array.from(e.target.files || []));
+                  setArchive(null);
+                }}
+              />
+            </div>
+          </div>
+          {uploadProgress && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm text-gray-600">
+                <span>Uploading files</span>
+                <span>{uploadProgress.uploaded} / {uploadProgress.total}</span>
+              </div>
+              <Progress value={uploadProgress.total ? (uploadProgress.uploaded / uploadProgress.total) * 100 : 0} />
+            </div>
+          )}
+          <Button onClick={handleSubmit} disabled={submitting || (!archive && files.length === 0)}>
+            {submitting ? 'Uploading...' : archive ? 'Ingest Archive' : `Ingest ${files.length || ''} Files`}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ingestion Jobs</CardTitle>
+          <CardDescription>Progress of current and recent jobs</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading jobs...</div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No ingestion jobs yet</div>
+          ) : (
+            <div className="space-y-3">
+              {jobs.map(job => {
+                const stalled = isJobStalled(job);
+                const canResume = job.status === 'paused' || job.status === 'failed' || stalled;
+                return (
+                  <Card
+                    key={job.id}
+                    className={`p-3 cursor-pointer ${job.id === selectedJobId ? 'border-blue-500' : ''}`}
+                    onClick={() => setSelectedJobId(job.id)}
+                  >
+                    <div className="space-y-2">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            {job.source_type === 'archive'
+                              ? <Archive className="h-4 w-4 text-gray-500" />
+                              : <FolderOpen className="h-4 w-4 text-gray-500" />}
+                            <p className="font-medium truncate">{job.name}</p>
+                            <Badge variant={statusVariant(job.status)}>{job.status}</Badge>
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            Started {new Date(job.created_at).toLocaleString()}
+                            {job.completed_at && ` · finished ${new Date(job.completed_at).toLocaleString()}`}
+                          </p>
+                        </div>
+                        <div className="flex gap-1 shrink-0" onClick={(e) => e.stopPropagation()}>
+                          {job.status === 'processing' && !stalled && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => runAction(() => InspectionIngestionService.setStatus(job.id, 'paused'), "Couldn't pause the job")}
+                            >
+                              <Pause className="h-3 w-3 mr-1" />
+                              Pause
+                            </Button>
+                          )}
+                          {canResume && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => runAction(() => InspectionIngestionService.start(job.id), "Couldn't resume the job")}
+                            >
+                              <Play className="h-3 w-3 mr-1" />
+                              Resume
+                            </Button>
+                          )}
+                          {job.failed_count > 0 && !ACTIVE_JOB_STATUSES.includes(job.status as IngestionJobStatus) && job.status !== 'cancelled' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => runAction(() => InspectionIngestionService.start(job.id, { retryFailed: true }), "Couldn't retry failed files")}
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Retry Failed
+                            </Button>
+                          )}
+                          {job.status !== 'completed' && job.status !== 'cancelled' && (
+                            <Button size="sm" variant="ghost" onClick={() => handleCancel(job)}>
+                              <XCircle className="h-3 w-3 mr-1" />
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+
+                      {job.status === 'expanding' ? (
+                        <p className="text-sm text-gray-600">Unpacking archive... {job.total_files} reports found so far</p>
+                      ) : (
+                        <div className="space-y-1">
+                          <Progress value={jobProgress(job)} />
+                          <div className="flex flex-wrap gap-1 text-xs">
+                            <Badge variant="outline">{job.total_files} files</Badge>
+                            <Badge variant="outline" className="text-green-700">{job.stored_count} stored</Badge>
+                            <Badge variant="outline" className="text-blue-700">{job.review_count} in review</Badge>
+                            <Badge variant="outline" className="text-yellow-700">{job.duplicate_count} duplicates</Badge>
+                            <Badge variant="outline" className="text-red-700">{job.failed_count} failed</Badge>
+                            {job.skipped_count > 0 && (
+                              <Badge variant="outline">{job.skipped_count} non-PDF skipped</Badge>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      {stalled && (
+                        <Alert>
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertDescription>
+                            No progress for several minutes. Resume to restart its workers.
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                      {job.error && (
+                        <p className="text-xs text-red-600">{job.error}</p>
+                      )}
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedJob && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>{selectedJob.name}</CardTitle>
+                <CardDescription>
+                  Unmatched files are in the review queue waiting for a property to be chosen.
+                </CardDescription>
+              </div>
+              <Select value={itemFilter} onValueChange={(value) => setItemFilter(value as ItemFilter)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ITEM_FILTERS.map(filter => (
+                    <SelectItem key={filter.value} value={filter.value}>{filter.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {items.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">No files</div>
+            ) : (
+              <ScrollArea className="h-80 border rounded-lg">
+                <div className="p-4 space-y-2">
+                  {items.map(item => (
+                    <div key={item.id} className="flex items-start gap-3 text-sm">
+                      <FileText className="h-4 w-4 text-gray-500 mt-0.5 shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium truncate">{item.source_path}</p>
+                        {item.property_hint && (
+                          <p className="text-xs text-gray-500">Folder: {item.property_hint}</p>
+                        )}
+                        {item.message && (
+                          <p className="text-xs text-gray-600">{item.message}</p>
+                        )}
+                      </div>
+                      {item.match_confidence !== null && (
+                        <span className="text-xs text-gray-500 shrink-0">
+                          {Math.round(item.match_confidence * 100)}% match
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                  {itemTotal > items.length && (
+                    <p className="text-xs text-gray-500 text-center">
+                      Showing {items.length} of {itemTotal}
+                    </p>
+                  )}
+                </div>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -21,6 +21,10 @@ import {
 import { format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { CampaignSchedulingService, type CampaignScheduleEvent } from "@/lib/campaignSchedulingService";
+import { CampaignPropertySchedule } from "./CampaignPropertySchedule";
+import { IntelligentGrouping } from "@/components/inspections/IntelligentGrouping";
+import type { Property } from "@/lib/intelligentGrouping";
 
 interface CampaignProperty {
   id: string;
@@ -29,6 +33,13 @@ interface CampaignProperty {
   status: string;
   scheduled_date?: string;
   completed_date?: string;
+  confirmation_status?: string;
+  proposed_start?: string | null;
+  proposed_end?: string | null;
+  confirmed_start?: string | null;
+  confirmed_end?: string | null;
+  confirmed_by?: string | null;
+  reschedule_count?: number;
   inspector_id?: string;
   error_message?: string;
   automation_data?: any;
@@ -39,7 +50,13 @@ interface CampaignProperty {
     city: string;
     state: string;
     property_manager_name?: string;
+    property_manager_email?: string;
     roof_area?: number;
+    latitude?: number | null;
+    longitude?: number | null;
+    market?: string;
+    region?: string;
+    client_id?: string;
   };
   profiles?: {
     first_name?: string;
@@ -82,6 +99,7 @@ export function CampaignDetailModal({ campaignId, open, onOpenChange }: Campaign
   const { toast } = useToast();
   const [campaign, setCampaign] = useState<Campaign | null>(null);
   const [properties, setProperties] = useState<CampaignProperty[]>([]);
+  const [scheduleEvents, setScheduleEvents] = useState<Record<string, CampaignScheduleEvent[]>>({});
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -169,7 +187,13 @@ export function CampaignDetailModal({ campaignId, open, onOpenChange }: Campaign
             city,
             state,
             property_manager_name,
-            roof_area
+            property_manager_email,
+            roof_area,
+            latitude,
+            longitude,
+            market,
+            region,
+            client_id
           )
         `)
         .eq('campaign_id', campaignId)
@@ -194,6 +218,7 @@ export function CampaignDetailModal({ campaignId, open, onOpenChange }: Campaign
       );
 
       setProperties(propertiesWithInspectors);
+      setScheduleEvents(await CampaignSchedulingService.getScheduleEvents(propertiesWithInspectors.map(p => p.id)));
     } catch (error) {
       console.error('Error fetching campaign properties:', error);
     }
@@ -210,6 +235,9 @@ export function CampaignDetailModal({ campaignId, open, onOpenChange }: Campaign
       'Status',
       'Inspector',
       'Scheduled Date',
+      'Confirmation',
+      'Confirmed Window',
+      'Reschedules',
       'Completed Date',
       'Property Manager',
       'Roof Area',
@@ -224,6 +252,9 @@ export function CampaignDetailModal({ campaignId, open, onOpenChange }: Campaign
       property.status,
       `"${property.profiles ? `${property.profiles.first_name} ${property.profiles.last_name}` : ''}"`,
       property.scheduled_date || '',
+      property.confirmation_status || '',
+      property.confirmed_start ? `"${property.confirmed_start}${property.confirmed_end ? ` - ${property.confirmed_end}` : ''}"` : '',
+      property.reschedule_count ?? 0,
       property.completed_date || '',
       `"${property.roofs?.property_manager_name || ''}"`,
       property.roofs?.roof_area || '',
@@ -281,6 +312,25 @@ export function CampaignDetailModal({ campaignId, open, onOpenChange }: Campaign
     }
   };
 
+  // The campaign's roofs in the shape the grouping and route planner work with
+  const routeProperties: Property[] = properties
+    .filter(property => property.roofs)
+    .map(property => ({
+      id: property.roof_id,
+      property_name: property.roofs!.property_name,
+      address: property.roofs!.address,
+      city: property.roofs!.city,
+      state: property.roofs!.state,
+      latitude: property.roofs!.latitude ?? undefined,
+      longitude: property.roofs!.longitude ?? undefined,
+      property_manager_name: property.roofs!.property_manager_name,
+      property_manager_email: property.roofs!.property_manager_email,
+      roof_area: property.roofs!.roof_area,
+      market: property.roofs!.market,
+      region: property.roofs!.region,
+      client_id: property.roofs!.client_id
+    }));
+
   if (!campaign) {
     return null;
   }
@@ -317,6 +367,7 @@ export function CampaignDetailModal({ campaignId, open, onOpenChange }: Campaign
             <TabsList>
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="properties">Properties</TabsTrigger>
+              <TabsTrigger value="routes">Routes</TabsTrigger>
               <TabsTrigger value="settings">Settings</TabsTrigger>
             </TabsList>
 
@@ -490,6 +541,12 @@ export function CampaignDetailModal({ campaignId, open, onOpenChange }: Campaign
                                   <p className="text-xs text-red-700">{property.error_message}</p>
                                 </div>
                               )}
+
+                              <CampaignPropertySchedule
+                                property={property}
+                                events={scheduleEvents[property.id] || []}
+                                onChanged={fetchCampaignProperties}
+                              />
                             </div>
                           </div>
                         </div>
@@ -500,6 +557,16 @@ export function CampaignDetailModal({ campaignId, open, onOpenChange }: Campaign
               </Card>
             </TabsContent>
 
+            <TabsContent value="routes" className="flex-1 min-h-0">
+              <ScrollArea className="h-full">
+                <IntelligentGrouping
+                  properties={routeProperties}
+                  selectedProperties={routeProperties}
+                  campaignId={campaign.id}
+                />
+              </ScrollArea>
+            </TabsContent>
+
             <TabsContent value="settings" className="flex-1 min-h-0">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Automation Settings */}
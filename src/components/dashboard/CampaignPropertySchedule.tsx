@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { CalendarCheck, CalendarClock, CalendarX, History, SkipForward } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CampaignSchedulingService,
+  type CampaignScheduleEvent,
+  type ConfirmationStatus,
+  type ScheduleEventInput
+} from "@/lib/campaignSchedulingService";
+
+export interface CampaignPropertyAppointment {
+  id: string;
+  status: string;
+  confirmation_status?: string;
+  proposed_start?: string | null;
+  proposed_end?: string | null;
+  confirmed_start?: string | null;
+  confirmed_end?: string | null;
+  confirmed_by?: string | null;
+  reschedule_count?: number;
+}
+
+interface CampaignPropertyScheduleProps {
+  property: CampaignPropertyAppointment;
+  events: CampaignScheduleEvent[];
+  onChanged: () => void;
+}
+
+const confirmationLabels: Record<ConfirmationStatus, { label: string; className: string }> = {
+  unscheduled: { label: 'No slot proposed', className: 'bg-gray-100 text-gray-800 border-gray-200' },
+  proposed: { label: 'Awaiting PM confirmation', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  confirmed: { label: 'Confirmed', className: 'bg-green-100 text-green-800 border-green-200' },
+  declined: { label: 'Declined by PM', className: 'bg-red-100 text-red-800 border-red-200' },
+  reschedule_requested: { label: 'Reschedule requested', className: 'bg-orange-100 text-orange-800 border-orange-200' }
+};
+
+const eventLabels: Record<string, string> = {
+  proposed: 'Slot proposed',
+  confirmed: 'Confirmed',
+  declined: 'Declined',
+  reschedule_requested: 'Reschedule requested',
+  skipped: 'Skipped'
+};
+
+const formatWindow = (start?: string | null, end?: string | null) => {
+  if (!start) return null;
+  const startText = format(new Date(start), 'MMM dd, yyyy h:mm a');
+  return end ? `${startText} – ${format(new Date(end), 'h:mm a')}` : startText;
+};
+
+// datetime-local inputs have no timezone; interpret them in the browser's zone
+const toIso = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+export function CampaignPropertySchedule({ property, events, onChanged }: CampaignPropertyScheduleProps) {
+  const { toast } = useToast();
+  const [slotStart, setSlotStart] = useState('');
+  const [slotEnd, setSlotEnd] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const confirmation = (property.confirmation_status || 'unscheduled') as ConfirmationStatus;
+  const isClosed = property.status === 'completed' || property.status === 'skipped';
+  const proposedWindow = formatWindow(property.proposed_start, property.proposed_end);
+  const confirmedWindow = formatWindow(property.confirmed_start, property.confirmed_end);
+
+  const applyEvent = async (event: ScheduleEventInput) => {
+    setSaving(true);
+    try {
+      await CampaignSchedulingService.applyEvent(property.id, event);
+      setSlotStart('');
+      setSlotEnd('');
+      onChanged();
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      toast({
+        title: "Schedule Update Failed",
+        description: error instanceof Error ? error.message : "Failed to update the appointment",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 border-t pt-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge className={confirmationLabels[confirmation].className}>
+          {confirmationLabels[confirmation].label}
+        </Badge>
+        {confirmedWindow && (
+          <span className="flex items-center gap-1 text-green-700">
+            <CalendarCheck className="h-3 w-3" />
+            {confirmedWindow}
+            {property.confirmed_by && <span className="text-gray-500">by {property.confirmed_by}</span>}
+          </span>
+        )}
+        {!confirmedWindow && proposedWindow && (
+          <span className="flex items-center gap-1 text-gray-700">
+            <CalendarClock className="h-3 w-3" />
+            Proposed: {proposedWindow}
+          </span>
+        )}
+        {(property.reschedule_count ?? 0) > 0 && (
+          <span className="text-xs text-orange-700">Rescheduled {property.reschedule_count}×</span>
+        )}
+      </div>
+
+      {!isClosed && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="datetime-local"
+            value={slotStart}
+            onChange={(e) => setSlotStart(e.target.value)}
+            className="h-8 w-52"
+          />
+          <Input
+            type="datetime-local"
+            value={slotEnd}
+            onChange={(e) => setSlotEnd(e.target.value)}
+            className="h-8 w-52"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={saving || !slotStart}
+            onClick={() => applyEvent({ type: 'proposed', slotStart: toIso(slotStart), slotEnd: toIso(slotEnd) })}
+          >
+            <CalendarClock className="h-4 w-4 mr-1" />
+            Propose
+          </Button>
+          <Button
+            size="sm"
+            disabled={saving || (!slotStart && !property.proposed_start) || confirmation === 'confirmed'}
+            onClick={() => applyEvent({ type: 'confirmed', slotStart: toIso(slotStart), slotEnd: toIso(slotEnd) })}
+          >
+            <CalendarCheck className="h-4 w-4 mr-1" />
+            {slotStart ? 'Confirm slot' : 'PM confirmed'}
+          </Button>
+          {confirmation === 'proposed' && (
+            <Button size="sm" variant="outline" disabled={saving} onClick={() => applyEvent({ type: 'declined' })}>
+              <CalendarX className="h-4 w-4 mr-1" />
+              Declined
+            </Button>
+          )}
+          {confirmation === 'confirmed' && (
+            <Button size="sm" variant="outline" disabled={saving} onClick={() => applyEvent({ type: 'reschedule_requested' })}>
+              <CalendarX className="h-4 w-4 mr-1" />
+              Reschedule
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" disabled={saving} onClick={() => applyEvent({ type: 'skipped' })}>
+            <SkipForward className="h-4 w-4 mr-1" />
+            Skip
+          </Button>
+        </div>
+      )}
+
+      {events.length > 0 && (
+        <div>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setShowHistory(!showHistory)}>
+            <History className="h-3 w-3 mr-1" />
+            {showHistory ? 'Hide' : 'Show'} timeline ({events.length})
+          </Button>
+          {showHistory && (
+            <ol className="mt-2 ml-2 border-l pl-4 space-y-2">
+              {events.map(event => (
+                <li key={event.id} className="text-xs relative">
+                  <span className="absolute -left-[21px] top-1 h-2 w-2 rounded-full bg-blue-500" />
+                  <p className="font-medium">
+                    {eventLabels[event.event_type] || event.event_type}
+                    <span className="font-normal text-gray-500"> · {format(new Date(event.created_at), 'MMM dd, yyyy h:mm a')}</span>
+                  </p>
+                  {formatWindow(event.slot_start, event.slot_end) && (
+                    <p className="text-gray-700">{formatWindow(event.slot_start, event.slot_end)}</p>
+                  )}
+                  {event.previous_start && event.event_type !== 'confirmed' && (
+                    <p className="text-gray-500">Previously: {formatWindow(event.previous_start, event.previous_end)}</p>
+                  )}
+                  {event.actor && <p className="text-gray-500">By {event.actor}</p>}
+                  {event.notes && <p className="text-gray-600">{event.notes}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { WorkOrderService } from '@/lib/workOrders';
+
+interface Client {
+  id: string;
+  company_name: string;
+}
+
+interface ClientWorkOrderApprovalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  client: Client | null;
+}
+
+export function ClientWorkOrderApprovalDialog({ open, onOpenChange, client }: ClientWorkOrderApprovalDialogProps) {
+  const [threshold, setThreshold] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!client || !open) return;
+    WorkOrderService.getApprovalThreshold(client.id).then(value => setThreshold(value?.toString() || ''));
+  }, [client, open]);
+
+  const handleSave = async () => {
+    if (!client) return;
+
+    setSaving(true);
+    try {
+      await WorkOrderService.setApprovalThreshold(client.id, threshold.trim() === '' ? null : Number(threshold));
+      toast({
+        title: "Success",
+        description: `Approval threshold saved for ${client.company_name}`
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to save approval threshold',
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!client) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            {client.company_name} - Work Order Approvals
+          </DialogTitle>
+          <DialogDescription>
+            Managers can approve vendor bids up to this amount. Larger bids need a super admin.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Label htmlFor="approval_threshold">Approval threshold ($)</Label>
+          <Input
+            id="approval_threshold"
+            type="number"
+            min="0"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            placeholder="No limit"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Workflow } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { WorkflowEngine } from '@/hooks/useN8nWorkflow';
+
+interface Client {
+  id: string;
+  company_name: string;
+}
+
+interface WorkflowEngineConfig {
+  webhook_url?: string;
+  from_email?: string;
+  reply_to?: string;
+}
+
+interface ClientWorkflowEngineDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  client: Client | null;
+}
+
+const engineOptions: Array<{ value: WorkflowEngine; label: string; description: string }> = [
+  { value: 'n8n', label: 'n8n workflow', description: 'Drafts outreach in Gmail through the shared n8n workflow.' },
+  { value: 'signed_webhook', label: 'Signed webhook', description: 'POSTs the campaign to your endpoint with an HMAC signature header.' },
+  { value: 'smtp', label: 'Send directly (SMTP)', description: 'Emails property managers from our mail server without an external workflow.' },
+  { value: 'stub', label: 'Test stub', description: 'Sends nothing and records the payload. Use for testing campaign flows.' }
+];
+
+export function ClientWorkflowEngineDialog({ open, onOpenChange, client }: ClientWorkflowEngineDialogProps) {
+  const [engine, setEngine] = useState<WorkflowEngine>('n8n');
+  const [config, setConfig] = useState<WorkflowEngineConfig>({});
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSettings = useCallback(async () => {
+    if (!client) return;
+
+    const { data, error } = await supabase
+      .from('clients')
+      .select('workflow_engine, workflow_engine_config')
+      .eq('id', client.id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching workflow settings:', error);
+      return;
+    }
+
+    setEngine(data.workflow_engine as WorkflowEngine);
+    setConfig((data.workflow_engine_config as WorkflowEngineConfig) || {});
+  }, [client]);
+
+  useEffect(() => {
+    if (open) {
+      fetchSettings();
+    }
+  }, [open, fetchSettings]);
+
+  const handleSave = async () => {
+    if (!client) return;
+
+    if (engine === 'signed_webhook' && !config.webhook_url) {
+      toast({
+        title: "Webhook URL required",
+        description: "Enter the endpoint that should receive signed campaign payloads.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (config.webhook_url && !config.webhook_url.startsWith('https://')) {
+      toast({
+        title: "HTTPS required",
+        description: "Webhook URLs must start with https://.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('clients')
+        .update({ workflow_engine: engine, workflow_engine_config: { ...config } })
+        .eq('id', client.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${client.company_name} outreach will use ${engineOptions.find(o => o.value === engine)?.label}`
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving workflow settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save outreach settings",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!client) return null;
+
+  const selected = engineOptions.find(o => o.value === engine);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Workflow className="h-5 w-5" />
+            {client.company_name} - Campaign Outreach
+          </DialogTitle>
+          <DialogDescription>
+            Choose how inspection campaign emails are sent to this client's property managers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Workflow engine</Label>
+            <Select value={engine} onValueChange={(value) => setEngine(value as WorkflowEngine)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {engineOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected && <p className="text-sm text-muted-foreground mt-1">{selected.description}</p>}
+          </div>
+
+          {(engine === 'n8n' || engine === 'signed_webhook') && (
+            <div>
+              <Label htmlFor="webhook_url">
+                Webhook URL{engine === 'n8n' ? ' (optional, defaults to the shared workflow)' : ''}
+              </Label>
+              <Input
+                id="webhook_url"
+                value={config.webhook_url || ''}
+                onChange={(e) => setConfig(prev => ({ ...prev, webhook_url: e.target.value }))}
+                placeholder="https://"
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                The host must be on the approved webhook host list, or dispatches to it are refused.
+              </p>
+              {engine === 'n8n' && config.webhook_url && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  A client's own n8n URL is called without the shared webhook secret. Use a signed webhook if the receiver needs to verify requests.
+                </p>
+              )}
+            </div>
+          )}
+
+          {engine === 'smtp' && (
+            <>
+              <div>
+                <Label htmlFor="from_email">From address (optional)</Label>
+                <Input
+                  id="from_email"
+                  type="email"
+                  value={config.from_email || ''}
+                  onChange={(e) => setConfig(prev => ({ ...prev, from_email: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="reply_to">Reply-to address (optional)</Label>
+                <Input
+                  id="reply_to"
+                  type="email"
+                  value={config.reply_to || ''}
+                  onChange={(e) => setConfig(prev => ({ ...prev, reply_to: e.target.value }))}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,9 +4,11 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, Plus, FileDown, Phone, Mail, MapPin, Building, Loader2, Users, Eye } from "lucide-react";
+import { Search, Plus, FileDown, Phone, Mail, MapPin, Building, Loader2, Users, Eye, Workflow, ShieldCheck } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { ClientContactsDialog } from './ClientContactsDialog';
+import { ClientWorkflowEngineDialog } from './ClientWorkflowEngineDialog';
+import { ClientWorkOrderApprovalDialog } from './ClientWorkOrderApprovalDialog';
 
 interface Client {
   id: string;
@@ -33,6 +35,8 @@ export function ClientsTab() {
   const [loading, setLoading] = useState(true);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [contactsDialogOpen, setContactsDialogOpen] = useState(false);
+  const [workflowDialogOpen, setWorkflowDialogOpen] = useState(false);
+  const [approvalDialogOpen, setApprovalDialogOpen] = useState(false);
 
   useEffect(() => {
     fetchClients();
@@ -164,6 +168,16 @@ export function ClientsTab() {
     setContactsDialogOpen(true);
   };
 
+  const handleEditOutreach = (client: Client) => {
+    setSelectedClient(client);
+    setWorkflowDialogOpen(true);
+  };
+
+  const handleEditApprovals = (client: Client) => {
+    setSelectedClient(client);
+    setApprovalDialogOpen(true);
+  };
+
   if (loading) {
     return (
       <div className="p-6">
@@ -311,6 +325,24 @@ export function ClientsTab() {
                         <Eye className="h-4 w-4" />
                         Contacts
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEditOutreach(client)}
+                        className="flex items-center gap-1"
+                      >
+                        <Workflow className="h-4 w-4" />
+                        Outreach
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEditApprovals(client)}
+                        className="flex items-center gap-1"
+                      >
+                        <ShieldCheck className="h-4 w-4" />
+                        Approvals
+                      </Button>
                     </div>
                   </TableCell>
                 </TableRow>
@@ -336,6 +368,20 @@ export function ClientsTab() {
         onOpenChange={setContactsDialogOpen}
         client={selectedClient}
       />
+
+      {/* Campaign Outreach Settings */}
+      <ClientWorkflowEngineDialog
+        open={workflowDialogOpen}
+        onOpenChange={setWorkflowDialogOpen}
+        client={selectedClient}
+      />
+
+      {/* Work Order Approval Threshold */}
+      <ClientWorkOrderApprovalDialog
+        open={approvalDialogOpen}
+        onOpenChange={setApprovalDialogOpen}
+        client={selectedClient}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -3,22 +3,27 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { 
   CheckCircle, 
-  AlertTriangle, 
-  XCircle, 
   Database, 
   TrendingUp, 
   Users, 
   Building,
   BarChart3,
   Zap,
-  RefreshCw
+  RefreshCw,
+  GitMerge
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
-import { assessDataQuality, PropertyValidationSchema, type DataQualityScore, type DataQualityIssue } from '@/lib/validation';
+import { assessDataQuality, PropertyValidationSchema, type DataQualityScore } from '@/lib/validation';
+import { DataQualityService, buildClientDomains, resolveRules, type ResolvedRule } from '@/lib/dataQualityRules';
+import { PropertyMatchingService, MATCH_REASON_LABELS, type DuplicateRoofGroup } from '@/lib/propertyMatching';
+import { MergePropertiesDialog } from './MergePropertiesDialog';
+import { DataQualityIssuesTable } from './DataQualityIssuesTable';
+import { DataQualityRulesCard } from './DataQualityRulesCard';
+import { GeocodingCard } from './GeocodingCard';
+import { summarizeCoverage, type CoordinateCoverage } from '@/lib/geocoding';
 
 interface DashboardMetrics {
   totalProperties: number;
@@ -30,12 +35,17 @@ interface DashboardMetrics {
   contactsPerClient: number;
   propertyManagerWorkload: number;
   dataQuality: DataQualityScore;
+  rules: ResolvedRule[];
+  roofNames: Map<string, string>;
+  coordinates: CoordinateCoverage;
+  duplicateGroups: DuplicateRoofGroup[];
   recentActivity: Array<{ type: string; description: string; timestamp: string }>;
 }
 
 export function DataQualityDashboard() {
   const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
   const [loading, setLoading] = useState(true);
+  const [mergeGroup, setMergeGroup] = useState<DuplicateRoofGroup | null>(null);
 
   useEffect(() => {
     fetchDashboardMetrics();
@@ -45,10 +55,11 @@ export function DataQualityDashboard() {
     setLoading(true);
     try {
       // Fetch all data needed for dashboard
-      const [roofsData, clientsData, contactsData] = await Promise.all([
+      const [roofsData, clientsData, contactsData, ruleSettings] = await Promise.all([
         supabase.from('roofs').select('*').eq('is_deleted', false),
         supabase.from('clients').select('*'),
-        supabase.from('client_contacts').select('*').eq('is_active', true)
+        supabase.from('client_contacts').select('*').eq('is_active', true),
+        DataQualityService.getRuleSettings()
       ]);
 
       if (roofsData.error || clientsData.error || contactsData.error) {
@@ -94,7 +105,14 @@ export function DataQualityDashboard() {
         : 0;
 
       // Data quality assessment
-      const dataQuality = assessDataQuality(roofs, PropertyValidationSchema);
+      const rules = resolveRules(ruleSettings);
+      const dataQuality = assessDataQuality(roofs, PropertyValidationSchema, {
+        rules,
+        clientDomains: buildClientDomains(clients, contacts)
+      });
+      const roofNames = new Map(roofs.map(roof => [roof.id, roof.property_name]));
+      const coordinates = summarizeCoverage(roofs);
+      const duplicateGroups = PropertyMatchingService.findDuplicateRoofs(roofs);
 
       // Recent activity (mock for now)
       const recentActivity = [
@@ -113,6 +131,10 @@ export function DataQualityDashboard() {
         contactsPerClient,
         propertyManagerWorkload,
         dataQuality,
+        rules,
+        roofNames,
+        coordinates,
+        duplicateGroups,
         recentActivity
       });
     } catch (error) {
@@ -128,15 +150,6 @@ export function DataQualityDashboard() {
     return 'text-red-600 bg-red-100';
   };
 
-  const getIssueIcon = (type: DataQualityIssue['type']) => {
-    switch (type) {
-      case 'invalid': return <XCircle className="h-4 w-4 text-red-500" />;
-      case 'missing': return <AlertTriangle className="h-4 w-4 text-yellow-500" />;
-      case 'duplicate': return <RefreshCw className="h-4 w-4 text-blue-500" />;
-      default: return <AlertTriangle className="h-4 w-4 text-gray-500" />;
-    }
-  };
-
   if (loading) {
     return (
       <div className="p-6">
@@ -259,30 +272,80 @@ export function DataQualityDashboard() {
 
           {metrics.dataQuality.issues.length > 0 && (
             <div>
-              <h4 className="font-semibold mb-3">Top Data Quality Issues</h4>
-              <div className="space-y-2">
-                {metrics.dataQuality.issues.slice(0, 5).map((issue, index) => (
-                  <Alert key={index}>
-                    <div className="flex items-center gap-2">
-                      {getIssueIcon(issue.type)}
-                      <AlertDescription className="flex-1">
-                        <span className="font-medium">{issue.field}:</span> {issue.message}
-                        {issue.suggested_fix && (
-                          <span className="text-blue-600 ml-2">• {issue.suggested_fix}</span>
-                        )}
-                      </AlertDescription>
-                      <Badge variant={issue.severity === 'high' ? 'destructive' : issue.severity === 'medium' ? 'default' : 'secondary'}>
-                        {issue.severity}
-                      </Badge>
-                    </div>
-                  </Alert>
-                ))}
-              </div>
+              <h4 className="font-semibold mb-3">Data Quality Issues</h4>
+              <DataQualityIssuesTable
+                issues={metrics.dataQuality.issues}
+                roofNames={metrics.roofNames}
+                onFixesApplied={fetchDashboardMetrics}
+              />
             </div>
           )}
         </CardContent>
       </Card>
 
+      {/* Possible Duplicates */}
+      {metrics.duplicateGroups.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitMerge className="h-5 w-5" />
+              Possible Duplicate Properties
+              <Badge variant="secondary">{metrics.duplicateGroups.length}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Properties</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Matched On</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {metrics.duplicateGroups.slice(0, 20).map((group) => (
+                  <TableRow key={group.ids.join('-')}>
+                    <TableCell>
+                      {group.roofs.map(roof => (
+                        <div key={roof.id} className="text-sm">
+                          <span className="font-medium">{roof.property_name}</span>
+                          <span className="text-muted-foreground"> · {roof.address}, {roof.city}</span>
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={group.score >= 0.8 ? 'destructive' : 'default'}>
+                        {Math.round(group.score * 100)}%
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {[...new Set(group.pairs.flatMap(pair => pair.match.reasons))].map(reason => MATCH_REASON_LABELS[reason]).join(', ') || 'combined'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setMergeGroup(group)}>
+                        Merge
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <MergePropertiesDialog
+        open={!!mergeGroup}
+        onOpenChange={(open) => !open && setMergeGroup(null)}
+        group={mergeGroup}
+        onMerged={fetchDashboardMetrics}
+      />
+
+      <GeocodingCard coverage={metrics.coordinates} onComplete={fetchDashboardMetrics} />
+
+      <DataQualityRulesCard rules={metrics.rules} onChange={fetchDashboardMetrics} />
+
       {/* Regional Breakdown */}
       <Card>
         <CardHeader>
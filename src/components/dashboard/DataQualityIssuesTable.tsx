@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Wand2, History } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { DataQualityIssue } from '@/lib/validation';
+import { DataQualityService, DATA_QUALITY_RULES, type DataQualityFixRecord } from '@/lib/dataQualityRules';
+
+interface DataQualityIssuesTableProps {
+  issues: DataQualityIssue[];
+  roofNames: Map<string, string>;
+  onFixesApplied: () => void;
+}
+
+type SeverityFilter = 'all' | DataQualityIssue['severity'];
+
+const PAGE_SIZE = 25;
+
+const RULE_NAMES: Record<string, string> = {
+  schema: 'Required fields',
+  duplicate: 'Possible duplicate',
+  ...Object.fromEntries(DATA_QUALITY_RULES.map(rule => [rule.id, rule.name]))
+};
+
+const severityVariant = (severity: DataQualityIssue['severity']) =>
+  severity === 'high' ? 'destructive' : severity === 'medium' ? 'default' : 'secondary';
+
+const displayValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+// Fixable issues are keyed by the write they make, so selections survive a refresh
+const fixKey = (issue: DataQualityIssue) => issue.fix ? `${issue.fix.roof_id}:${issue.fix.field}:${issue.rule_id}` : '';
+
+export function DataQualityIssuesTable({ issues, roofNames, onFixesApplied }: DataQualityIssuesTableProps) {
+  const [severity, setSeverity] = useState<SeverityFilter>('all');
+  const [ruleFilter, setRuleFilter] = useState('all');
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [applying, setApplying] = useState(false);
+  const [recentFixes, setRecentFixes] = useState<DataQualityFixRecord[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (showHistory) {
+      DataQualityService.getRecentFixes().then(setRecentFixes);
+    }
+  }, [showHistory, issues]);
+
+  const counts = useMemo(() => ({
+    high: issues.filter(i => i.severity === 'high').length,
+    medium: issues.filter(i => i.severity === 'medium').length,
+    low: issues.filter(i => i.severity === 'low').length
+  }), [issues]);
+
+  const ruleIds = useMemo(() => Array.from(new Set(issues.map(i => i.rule_id || 'schema'))), [issues]);
+
+  const filtered = useMemo(
+    () => issues.filter(issue =>
+      (severity === 'all' || issue.severity === severity) &&
+      (ruleFilter === 'all' || (issue.rule_id || 'schema') === ruleFilter)
+    ),
+    [issues, severity, ruleFilter]
+  );
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const visible = filtered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const fixable = filtered.filter(issue => issue.fix);
+  const selectedFixes = issues.filter(issue => issue.fix && selected.has(fixKey(issue))).map(issue => issue.fix!);
+
+  const toggle = (issue: DataQualityIssue) => {
+    const key = fixKey(issue);
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const setAll = (included: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      fixable.forEach(issue => included ? next.add(fixKey(issue)) : next.delete(fixKey(issue)));
+      return next;
+    });
+  };
+
+  const applyFixes = async () => {
+    if (selectedFixes.length === 0) return;
+    if (!window.confirm(`Apply ${selectedFixes.length} suggested fixes? Each change is logged and can be reviewed in the fix history.`)) return;
+
+    setApplying(true);
+    try {
+      const result = await DataQualityService.applyFixes(selectedFixes);
+      toast({
+        title: "Fixes applied",
+        description: result.skipped.length > 0
+          ? `${result.applied} applied; ${result.skipped.length} skipped because the value changed since the check ran.`
+          : `${result.applied} records updated.`,
+      });
+      setSelected(new Set());
+      onFixesApplied();
+    } catch (error) {
+      console.error('Error applying fixes:', error);
+      toast({
+        title: "Could not apply fixes",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Tabs value={severity} onValueChange={(value) => { setSeverity(value as SeverityFilter); setPage(0); }}>
+          <TabsList>
+            <TabsTrigger value="all">All ({issues.length})</TabsTrigger>
+            <TabsTrigger value="high">High ({counts.high})</TabsTrigger>
+            <TabsTrigger value="medium">Medium ({counts.medium})</TabsTrigger>
+            <TabsTrigger value="low">Low ({counts.low})</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Select value={ruleFilter} onValueChange={(value) => { setRuleFilter(value); setPage(0); }}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All rules</SelectItem>
+            {ruleIds.map(id => (
+              <SelectItem key={id} value={id}>{RULE_NAMES[id] || id}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setAll(true)} disabled={fixable.length === 0}>
+            Select all fixable ({fixable.length})
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setAll(false)} disabled={fixable.length === 0}>
+            Deselect all
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setShowHistory(!showHistory)}>
+            <History className="h-4 w-4 mr-2" />
+            {showHistory ? 'Hide' : 'Fix'} history
+          </Button>
+          <Button size="sm" onClick={applyFixes} disabled={applying || selectedFixes.length === 0}>
+            <Wand2 className="h-4 w-4 mr-2" />
+            {applying ? 'Applying...' : `Apply ${selectedFixes.length} suggested fixes`}
+          </Button>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8"></TableHead>
+            <TableHead>Property</TableHead>
+            <TableHead>Issue</TableHead>
+            <TableHead>Suggested Fix</TableHead>
+            <TableHead>Severity</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visible.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">No issues in this view</TableCell>
+            </TableRow>
+          )}
+          {visible.map((issue, index) => (
+            <TableRow key={`${issue.rule_id}-${issue.record_ids?.join('-')}-${issue.field}-${index}`}>
+              <TableCell>
+                <Checkbox
+                  checked={!!issue.fix && selected.has(fixKey(issue))}
+                  disabled={!issue.fix}
+                  onCheckedChange={() => toggle(issue)}
+                />
+              </TableCell>
+              <TableCell className="text-sm">
+                {(issue.record_ids || []).map(id => roofNames.get(id) || id).join(' / ') || '—'}
+              </TableCell>
+              <TableCell className="text-sm">
+                <span className="font-medium">{issue.field}:</span> {issue.message}
+                <div className="text-xs text-muted-foreground">{RULE_NAMES[issue.rule_id || 'schema'] || issue.rule_id}</div>
+              </TableCell>
+              <TableCell className="text-sm text-blue-600">{issue.suggested_fix}</TableCell>
+              <TableCell>
+                <Badge variant={severityVariant(issue.severity)}>{issue.severity}</Badge>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <Button size="sm" variant="outline" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span>Page {page + 1} of {pageCount}</span>
+          <Button size="sm" variant="outline" disabled={page >= pageCount - 1} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="border rounded-md p-3 space-y-2">
+          <h4 className="text-sm font-semibold">Recently Applied Fixes</h4>
+          {recentFixes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No fixes applied yet</p>
+          ) : (
+            recentFixes.map(fix => (
+              <div key={fix.id} className="flex items-center justify-between text-sm">
+                <span>
+                  <span className="font-medium">{roofNames.get(fix.roof_id) || fix.roof_id}</span>
+                  {' · '}{fix.field_name}: {displayValue(fix.old_value)} → {displayValue(fix.new_value)}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {RULE_NAMES[fix.rule_id] || fix.rule_id} · {new Date(fix.applied_at).toLocaleString()}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
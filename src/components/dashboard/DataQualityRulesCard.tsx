@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Settings2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { DataQualityService, type ResolvedRule, type RuleParams, type RuleSeverity } from '@/lib/dataQualityRules';
+
+interface DataQualityRulesCardProps {
+  rules: ResolvedRule[];
+  onChange: () => void;
+}
+
+const PARAM_LABELS: Record<string, string> = {
+  min_area: 'Min area (sq ft)',
+  max_area: 'Max area (sq ft)',
+  max_steep_slope_area: 'Max steep-slope area (sq ft)'
+};
+
+export function DataQualityRulesCard({ rules, onChange }: DataQualityRulesCardProps) {
+  const [saving, setSaving] = useState<string | null>(null);
+  const [draftParams, setDraftParams] = useState<Record<string, Record<string, string>>>({});
+  const { toast } = useToast();
+
+  const save = async (resolved: ResolvedRule, changes: { enabled?: boolean; severity?: RuleSeverity; params?: RuleParams }) => {
+    setSaving(resolved.rule.id);
+    try {
+      await DataQualityService.saveRuleSetting(resolved.rule.id, {
+        enabled: changes.enabled ?? resolved.enabled,
+        severity: changes.severity ?? resolved.severity,
+        params: changes.params ?? resolved.params
+      });
+      onChange();
+    } catch (error) {
+      console.error('Error saving rule setting:', error);
+      toast({
+        title: "Could not save rule",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const saveParam = (resolved: ResolvedRule, key: string) => {
+    const draft = draftParams[resolved.rule.id]?.[key];
+    const value = draft === undefined ? NaN : parseFloat(draft);
+    if (isNaN(value) || value === resolved.params[key]) return;
+    save(resolved, { params: { ...resolved.params, [key]: value } });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Settings2 className="h-5 w-5" />
+          Data Quality Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rules.map(resolved => (
+          <div key={resolved.rule.id} className="border rounded-md p-3 space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={resolved.enabled}
+                  disabled={saving === resolved.rule.id}
+                  onCheckedChange={(enabled) => save(resolved, { enabled })}
+                />
+                <div>
+                  <p className="text-sm font-medium">{resolved.rule.name}</p>
+                  <p className="text-xs text-muted-foreground">{resolved.rule.description}</p>
+                </div>
+              </div>
+              <Select
+                value={resolved.severity}
+                disabled={saving === resolved.rule.id}
+                onValueChange={(severity) => save(resolved, { severity: severity as RuleSeverity })}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {Object.keys(resolved.params).length > 0 && (
+              <div className="flex flex-wrap gap-4 pl-12">
+                {Object.entries(resolved.params).map(([key, value]) => (
+                  <div key={key} className="space-y-1">
+                    <Label className="text-xs">{PARAM_LABELS[key] || key}</Label>
+                    <Input
+                      type="number"
+                      className="h-8 w-40"
+                      value={draftParams[resolved.rule.id]?.[key] ?? value}
+                      onChange={(e) => setDraftParams(prev => ({
+                        ...prev,
+                        [resolved.rule.id]: { ...prev[resolved.rule.id], [key]: e.target.value }
+                      }))}
+                      onBlur={() => saveParam(resolved, key)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
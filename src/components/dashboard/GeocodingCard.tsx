@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { MapPin, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  GeocodingService,
+  GEOCODE_PRECISION_LABELS,
+  type CoordinateCoverage,
+  type GeocodeBatchResult,
+  type GeocodingProviderName
+} from '@/lib/geocoding';
+
+interface GeocodingCardProps {
+  coverage: CoordinateCoverage;
+  onComplete: () => void;
+}
+
+export function GeocodingCard({ coverage, onComplete }: GeocodingCardProps) {
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<GeocodeBatchResult | null>(null);
+  const [useCensus, setUseCensus] = useState(false);
+  const { toast } = useToast();
+
+  const pendingCount = coverage.missing - coverage.unresolved;
+  const locatedPercent = coverage.total > 0 ? Math.round((coverage.located / coverage.total) * 100) : 0;
+
+  const runBackfill = async (retryUnresolved: boolean) => {
+    const providers: GeocodingProviderName[] = useCensus ? ['local', 'census'] : ['local'];
+
+    setRunning(true);
+    setProgress(null);
+    try {
+      const totals = await GeocodingService.backfill({ providers, retryUnresolved, onProgress: setProgress });
+      toast({
+        title: "Coordinates backfilled",
+        description: `${totals.geocoded} of ${totals.processed} properties located${totals.flagged > 0 ? `, ${totals.flagged} flagged for a city/state mismatch` : ''}${totals.failed > 0 ? `, ${totals.failed} couldn't be saved` : ''}.`,
+      });
+      onComplete();
+    } catch (error) {
+      console.error('Geocoding error:', error);
+      toast({
+        title: "Backfill stopped",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5" />
+          Property Coordinates
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span>{coverage.located.toLocaleString()} of {coverage.total.toLocaleString()} properties located</span>
+            <span className="font-medium">{locatedPercent}%</span>
+          </div>
+          <Progress value={locatedPercent} />
+          <p className="text-xs text-muted-foreground">
+            Properties without coordinates are left out of grouping, proximity and route planning.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(coverage.byPrecision).filter(([, count]) => count > 0).map(([precision, count]) => (
+            <Badge key={precision} variant="outline">
+              {GEOCODE_PRECISION_LABELS[precision as keyof typeof GEOCODE_PRECISION_LABELS]}: {count}
+            </Badge>
+          ))}
+          {coverage.unresolved > 0 && <Badge variant="secondary">Not found: {coverage.unresolved}</Badge>}
+          {coverage.flagged > 0 && <Badge variant="destructive">City/state mismatch: {coverage.flagged}</Badge>}
+        </div>
+
+        {running && progress && (
+          <p className="text-sm text-muted-foreground">
+            {progress.processed} processed, {progress.geocoded} located, {progress.remaining} remaining...
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Checkbox id="use-census" checked={useCensus} onCheckedChange={(checked) => setUseCensus(checked === true)} disabled={running} />
+            <Label htmlFor="use-census" className="text-sm font-normal">
+              Use the US Census geocoder when offline data can't place an address (needs network)
+            </Label>
+          </div>
+          <div className="flex gap-2">
+            {coverage.unresolved > 0 && (
+              <Button size="sm" variant="outline" onClick={() => runBackfill(true)} disabled={running}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retry not found
+              </Button>
+            )}
+            <Button size="sm" onClick={() => runBackfill(false)} disabled={running || pendingCount === 0}>
+              <MapPin className="h-4 w-4 mr-2" />
+              {running ? 'Geocoding...' : `Backfill ${pendingCount} properties`}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
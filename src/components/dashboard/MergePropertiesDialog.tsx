@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitMerge } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { PropertyMatchingService, MERGE_FIELDS, MATCH_REASON_LABELS, type DuplicateRoofGroup } from "@/lib/propertyMatching";
+
+type Roof = DuplicateRoofGroup['roofs'][number];
+type FieldChoice = 'keep' | 'merge';
+
+interface MergePropertiesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group: DuplicateRoofGroup | null;
+  onMerged: () => void;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString();
+  return String(value);
+};
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+// The record with more filled-in fields is the better one to keep
+const completeness = (roof: Roof) => Object.values(roof).filter(value => !isBlank(value)).length;
+
+export function MergePropertiesDialog({ open, onOpenChange, group, onMerged }: MergePropertiesDialogProps) {
+  const [keepId, setKeepId] = useState('');
+  const [mergeId, setMergeId] = useState('');
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+  const [merging, setMerging] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!group || group.roofs.length < 2) return;
+    const ranked = [...group.roofs].sort((a, b) => completeness(b) - completeness(a));
+    setKeepId(ranked[0].id);
+    setMergeId(ranked[1].id);
+    setChoices({});
+  }, [group]);
+
+  if (!group) return null;
+
+  const keep = group.roofs.find(roof => roof.id === keepId);
+  const merge = group.roofs.find(roof => roof.id === mergeId);
+  const pair = group.pairs.find(p => (p.a === keepId && p.b === mergeId) || (p.a === mergeId && p.b === keepId));
+
+  // Blank fields on the kept roof are filled from the merged one automatically
+  const differing = keep && merge
+    ? MERGE_FIELDS.filter(({ field }) => !isBlank(keep[field]) && !isBlank(merge[field]) && keep[field] !== merge[field])
+    : [];
+
+  const handleMerge = async () => {
+    if (!keep || !merge) return;
+
+    const fieldValues = Object.fromEntries(
+      differing.filter(({ field }) => choices[field] === 'merge').map(({ field }) => [field, merge[field]])
+    );
+
+    setMerging(true);
+    try {
+      const result = await PropertyMatchingService.mergeRoofs(keep.id, merge.id, fieldValues, pair?.match.score);
+      const moved = Object.values((result.moved_counts as Record<string, number>) || {}).reduce((sum, count) => sum + count, 0);
+
+      toast({
+        title: "Properties merged",
+        description: `${merge.property_name} was merged into ${keep.property_name}; ${moved} related records moved.`,
+      });
+      onOpenChange(false);
+      onMerged();
+    } catch (error) {
+      console.error('Merge error:', error);
+      toast({
+        title: "Merge failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const roofLabel = (roof: Roof) => `${roof.property_name} — ${roof.address}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Merge Duplicate Properties
+          </DialogTitle>
+          <DialogDescription>
+            Inspections, files, work orders and campaign entries move to the property you keep.
+            The other property is removed from the portfolio.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Keep</Label>
+              <Select value={keepId} onValueChange={(value) => { setKeepId(value); if (value === mergeId) setMergeId(keepId); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {group.roofs.map(roof => (
+                    <SelectItem key={roof.id} value={roof.id}>{roofLabel(roof)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Merge into it</Label>
+              <Select value={mergeId} onValueChange={(value) => { setMergeId(value); if (value === keepId) setKeepId(mergeId); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {group.roofs.map(roof => (
+                    <SelectItem key={roof.id} value={roof.id}>{roofLabel(roof)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {pair && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">{Math.round(pair.match.score * 100)}% match</Badge>
+              {pair.match.reasons.map(reason => (
+                <Badge key={reason} variant="secondary">{MATCH_REASON_LABELS[reason]}</Badge>
+              ))}
+              {pair.match.distanceMeters !== null && (
+                <span className="text-muted-foreground">{Math.round(pair.match.distanceMeters)} m apart</span>
+              )}
+            </div>
+          )}
+
+          {differing.length > 0 ? (
+            <div className="space-y-3 max-h-[45vh] overflow-y-auto">
+              <p className="text-sm font-medium">Choose the value to keep where the two differ</p>
+              {differing.map(({ field, label }) => (
+                <RadioGroup
+                  key={field}
+                  value={choices[field] || 'keep'}
+                  onValueChange={(value) => setChoices(prev => ({ ...prev, [field]: value as FieldChoice }))}
+                  className="grid grid-cols-[140px_1fr_1fr] items-center gap-2 border rounded-md p-2"
+                >
+                  <span className="text-sm text-muted-foreground">{label}</span>
+                  <Label className="flex items-center gap-2 font-normal">
+                    <RadioGroupItem value="keep" />
+                    {formatValue(keep?.[field])}
+                  </Label>
+                  <Label className="flex items-center gap-2 font-normal">
+                    <RadioGroupItem value="merge" />
+                    {formatValue(merge?.[field])}
+                  </Label>
+                </RadioGroup>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No conflicting values; blank fields are filled from the merged property.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={merging}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={merging || !keep || !merge || keepId === mergeId}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            {merging ? 'Merging...' : 'Merge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Search, Plus, FileDown, Phone, Mail, MapPin, Wrench, Star, TrendingUp, AlertTriangle, CheckCircle, Loader2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { COMPLETED_WORK_ORDER_STATUSES, type WorkOrderStatus } from "@/lib/workOrders";
 
 interface Contractor {
   id: string;
@@ -69,7 +70,7 @@ export function ContractorsTab() {
       // Process contractors with performance metrics
       const processedContractors = (vendorsData || []).map(vendor => {
         const vendorWorkOrders = (workOrders || []).filter(wo => wo.vendor_id === vendor.id);
-        const completedOrders = vendorWorkOrders.filter(wo => wo.status === 'completed');
+        const completedOrders = vendorWorkOrders.filter(wo => COMPLETED_WORK_ORDER_STATUSES.includes(wo.status as WorkOrderStatus));
         const onTimeOrders = completedOrders.filter(wo => 
           wo.completed_date && wo.scheduled_end && 
           new Date(wo.completed_date) <= new Date(wo.scheduled_end)
@@ -78,7 +79,7 @@ export function ContractorsTab() {
         return {
           ...vendor,
           totalProjects: vendorWorkOrders.length,
-          activeProjects: vendorWorkOrders.filter(wo => wo.status === 'in-progress').length,
+          activeProjects: vendorWorkOrders.filter(wo => ['approved', 'scheduled', 'in_progress'].includes(wo.status)).length,
           avgRating: 4.2 + Math.random() * 0.8, // Mock rating for now
           onTimeCompletion: completedOrders.length > 0 ? (onTimeOrders.length / completedOrders.length) * 100 : 0,
           totalRevenue: vendorWorkOrders.reduce((sum, wo) => sum + (wo.actual_cost || 0), 0),
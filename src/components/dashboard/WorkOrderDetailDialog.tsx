@@ -0,0 +1,372 @@
+import { useState, useEffect, useCallback } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { WorkOrderStatusBadge } from "./WorkOrderStatusBadge";
+import { WorkOrderInvoiceForm } from "./WorkOrderInvoiceForm";
+import {
+  WorkOrderService,
+  BID_STATUS_LABELS,
+  INVOICE_LINE_CATEGORY_LABELS,
+  INVOICE_VARIANCE_TOLERANCE,
+  WORK_ORDER_STATUS_LABELS,
+  invoiceTotalsByCategory,
+  reconcileWorkOrder,
+  type BidStatus,
+  type InvoiceLineCategory,
+  type WorkOrder,
+  type WorkOrderBid,
+  type WorkOrderEvent,
+  type WorkOrderInvoice,
+  type WorkOrderStatus
+} from "@/lib/workOrders";
+
+interface WorkOrderDetailDialogProps {
+  order: WorkOrder | null;
+  propertyName?: string;
+  vendors: { id: string; company_name: string }[];
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+const BIDDING_STATUSES: WorkOrderStatus[] = ['draft', 'bid_requested', 'bids_received'];
+
+const formatMoney = (amount: number | null) => (amount === null ? '—' : `$${amount.toLocaleString()}`);
+
+export function WorkOrderDetailDialog({ order, propertyName, vendors, onOpenChange, onChanged }: WorkOrderDetailDialogProps) {
+  const { toast } = useToast();
+  const [bids, setBids] = useState<WorkOrderBid[]>([]);
+  const [invoices, setInvoices] = useState<WorkOrderInvoice[]>([]);
+  const [events, setEvents] = useState<WorkOrderEvent[]>([]);
+  const [invitees, setInvitees] = useState<string[]>([]);
+  const [bidDueDate, setBidDueDate] = useState('');
+  const [quoteAmounts, setQuoteAmounts] = useState<Record<string, string>>({});
+  const [scheduledStart, setScheduledStart] = useState('');
+  const [scheduledEnd, setScheduledEnd] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!order) return;
+    const [bidData, invoiceData, eventData] = await Promise.all([
+      WorkOrderService.getBids(order.id),
+      WorkOrderService.getInvoices(order.id),
+      WorkOrderService.getEvents(order.id)
+    ]);
+    setBids(bidData);
+    setInvoices(invoiceData);
+    setEvents(eventData);
+  }, [order]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    setInvitees([]);
+    setQuoteAmounts({});
+    setBidDueDate(order?.bid_due_date || '');
+    setScheduledStart(order?.scheduled_start || '');
+    setScheduledEnd(order?.scheduled_end || '');
+  }, [order]);
+
+  if (!order) return null;
+
+  const status = order.status as WorkOrderStatus;
+  const bidding = BIDDING_STATUSES.includes(status);
+  const reconciliation = reconcileWorkOrder(order);
+  const categoryTotals = invoiceTotalsByCategory(invoices);
+  const invitedVendorIds = new Set(bids.map(bid => bid.vendor_id));
+  const uninvitedVendors = vendors.filter(vendor => !invitedVendorIds.has(vendor.id));
+
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: success });
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update work order',
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRequestBids = () =>
+    runAction(
+      () => WorkOrderService.requestBids(order.id, invitees, bidDueDate ? parseISO(bidDueDate) : null),
+      "Bids requested"
+    );
+
+  const handleRecordQuote = (bid: WorkOrderBid, declined: boolean) => {
+    const amount = quoteAmounts[bid.id];
+    if (!declined && (amount === undefined || amount.trim() === '')) return;
+    runAction(
+      () => WorkOrderService.recordBid(order.id, bid.vendor_id, { amount: declined ? null : Number(amount) }),
+      declined ? "Vendor declined" : "Quote recorded"
+    );
+  };
+
+  const handleApprove = (bid: WorkOrderBid) => {
+    if (!window.confirm(`Award this work to ${bid.vendor?.company_name} for ${formatMoney(bid.amount)}?`)) return;
+    runAction(() => WorkOrderService.approveBid(bid.id), "Bid approved");
+  };
+
+  const handleSchedule = () =>
+    runAction(async () => {
+      await WorkOrderService.setSchedule(
+        order.id,
+        scheduledStart ? parseISO(scheduledStart) : null,
+        scheduledEnd ? parseISO(scheduledEnd) : null
+      );
+      await WorkOrderService.advance(order.id, 'scheduled');
+    }, "Work order scheduled");
+
+  const handleAdvance = (next: WorkOrderStatus) =>
+    runAction(() => WorkOrderService.advance(order.id, next), `Work order ${WORK_ORDER_STATUS_LABELS[next].toLowerCase()}`);
+
+  const handleCancel = () => {
+    if (!window.confirm('Cancel this work order?')) return;
+    handleAdvance('cancelled');
+  };
+
+  const canCancel = !['invoiced', 'paid', 'cancelled'].includes(status);
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {order.title}
+            <WorkOrderStatusBadge status={order.status} />
+          </DialogTitle>
+          <p className="text-sm text-muted-foreground">{propertyName || 'Unknown Property'}</p>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {order.description && <p className="text-sm">{order.description}</p>}
+
+          {/* Bids */}
+          {(bidding || bids.length > 0) && (
+            <div className="space-y-3">
+              <h4 className="font-semibold">Vendor Bids</h4>
+              {order.bid_due_date && (
+                <p className="text-sm text-muted-foreground">
+                  Due {format(parseISO(order.bid_due_date), 'MMM dd, yyyy')}
+                </p>
+              )}
+              {bids.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {bids.map(bid => (
+                      <TableRow key={bid.id}>
+                        <TableCell>
+                          <div className="font-medium">{bid.vendor?.company_name}</div>
+                          {bid.scope_notes && <div className="text-xs text-muted-foreground">{bid.scope_notes}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={bid.status === 'accepted' ? 'default' : 'outline'}>
+                            {BID_STATUS_LABELS[bid.status as BidStatus]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{formatMoney(bid.amount)}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center justify-end gap-2">
+                            {bidding && (
+                              <>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  className="w-28"
+                                  placeholder="Quote"
+                                  value={quoteAmounts[bid.id] ?? ''}
+                                  onChange={(e) => setQuoteAmounts(current => ({ ...current, [bid.id]: e.target.value }))}
+                                />
+                                <Button size="sm" variant="outline" onClick={() => handleRecordQuote(bid, false)} disabled={busy}>
+                                  Record
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={() => handleRecordQuote(bid, true)} disabled={busy}>
+                                  Declined
+                                </Button>
+                              </>
+                            )}
+                            {status === 'bids_received' && bid.status === 'received' && (
+                              <Button size="sm" onClick={() => handleApprove(bid)} disabled={busy}>
+                                Approve
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {bidding && uninvitedVendors.length > 0 && (
+                <div className="border rounded-lg p-4 space-y-3">
+                  <Label>Request bids from</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {uninvitedVendors.map(vendor => (
+                      <label key={vendor.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={invitees.includes(vendor.id)}
+                          onCheckedChange={(checked) =>
+                            setInvitees(current => (checked ? [...current, vendor.id] : current.filter(id => id !== vendor.id)))
+                          }
+                        />
+                        {vendor.company_name}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <div>
+                      <Label>Bids Due</Label>
+                      <Input type="date" value={bidDueDate} onChange={(e) => setBidDueDate(e.target.value)} />
+                    </div>
+                    <Button onClick={handleRequestBids} disabled={busy || invitees.length === 0}>
+                      Request Bids
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Lifecycle */}
+          {status === 'approved' && (
+            <div className="flex items-end gap-2">
+              <div>
+                <Label>Start</Label>
+                <Input type="date" value={scheduledStart} onChange={(e) => setScheduledStart(e.target.value)} />
+              </div>
+              <div>
+                <Label>End</Label>
+                <Input type="date" value={scheduledEnd} onChange={(e) => setScheduledEnd(e.target.value)} />
+              </div>
+              <Button onClick={handleSchedule} disabled={busy || !scheduledStart}>
+                Schedule
+              </Button>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {status === 'scheduled' && (
+              <Button onClick={() => handleAdvance('in_progress')} disabled={busy}>Start Work</Button>
+            )}
+            {status === 'in_progress' && (
+              <Button onClick={() => handleAdvance('completed')} disabled={busy}>Mark Completed</Button>
+            )}
+            {status === 'invoiced' && (
+              <Button onClick={() => handleAdvance('paid')} disabled={busy}>Mark Paid</Button>
+            )}
+            {canCancel && (
+              <Button variant="outline" onClick={handleCancel} disabled={busy}>Cancel Work Order</Button>
+            )}
+          </div>
+
+          {/* Invoices and reconciliation */}
+          {(status === 'completed' || invoices.length > 0) && (
+            <div className="space-y-3">
+              <h4 className="font-semibold">Invoices</h4>
+
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Approved</p>
+                  <p className="text-lg font-semibold">{formatMoney(reconciliation.approved)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Invoiced</p>
+                  <p className="text-lg font-semibold">{formatMoney(reconciliation.invoiced)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Variance</p>
+                  <p className={`text-lg font-semibold ${reconciliation.flagged ? 'text-red-600' : ''}`}>
+                    {reconciliation.variance === null
+                      ? '—'
+                      : `${reconciliation.variance >= 0 ? '+' : ''}${formatMoney(reconciliation.variance)}`}
+                    {reconciliation.variancePct !== null && ` (${(reconciliation.variancePct * 100).toFixed(1)}%)`}
+                  </p>
+                </div>
+              </div>
+
+              {reconciliation.invoiced > 0 && (
+                <div className={`flex items-center gap-2 text-sm ${reconciliation.flagged ? 'text-red-600' : 'text-green-600'}`}>
+                  {reconciliation.flagged ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                  {reconciliation.flagged
+                    ? reconciliation.approved === null
+                      ? 'Invoiced without an approved amount'
+                      : `Invoiced amount is more than ${INVOICE_VARIANCE_TOLERANCE * 100}% off the approved bid`
+                    : 'Invoices reconcile with the approved bid'}
+                  {categoryTotals.change_order > 0 && ` · ${formatMoney(categoryTotals.change_order)} in change orders`}
+                </div>
+              )}
+
+              {invoices.map(invoice => (
+                <div key={invoice.id} className="border rounded-lg p-3 text-sm space-y-1">
+                  <div className="flex justify-between font-medium">
+                    <span>
+                      Invoice {invoice.invoice_number} · {format(parseISO(invoice.invoice_date), 'MMM dd, yyyy')}
+                    </span>
+                    <span>{formatMoney(invoice.total)}</span>
+                  </div>
+                  {invoice.lines.map(line => (
+                    <div key={line.id} className="flex justify-between text-muted-foreground">
+                      <span>
+                        {line.description} · {INVOICE_LINE_CATEGORY_LABELS[line.category as InvoiceLineCategory]}
+                        {line.quantity !== 1 && ` · ${line.quantity} × ${formatMoney(line.unit_price)}`}
+                      </span>
+                      <span>{formatMoney(line.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+
+              {(status === 'completed' || status === 'invoiced') && (
+                <WorkOrderInvoiceForm workOrderId={order.id} onRecorded={onChanged} />
+              )}
+            </div>
+          )}
+
+          {/* History */}
+          {events.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-semibold">History</h4>
+              {events.map(event => (
+                <div key={event.id} className="flex justify-between text-sm">
+                  <span>
+                    {event.from_status
+                      ? `${WORK_ORDER_STATUS_LABELS[event.from_status as WorkOrderStatus] || event.from_status} → `
+                      : ''}
+                    {WORK_ORDER_STATUS_LABELS[event.to_status as WorkOrderStatus] || event.to_status}
+                    {event.amount !== null && ` · ${formatMoney(event.amount)}`}
+                    {event.notes && <span className="text-muted-foreground"> · {event.notes}</span>}
+                  </span>
+                  <span className="text-muted-foreground">{format(new Date(event.created_at), 'MMM dd, yyyy h:mm a')}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
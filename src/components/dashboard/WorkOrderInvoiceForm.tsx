@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import {
+  WorkOrderService,
+  INVOICE_LINE_CATEGORY_LABELS,
+  type InvoiceLineCategory
+} from "@/lib/workOrders";
+
+interface WorkOrderInvoiceFormProps {
+  workOrderId: string;
+  onRecorded: () => void;
+}
+
+interface LineDraft {
+  description: string;
+  category: InvoiceLineCategory;
+  quantity: string;
+  unitPrice: string;
+}
+
+const emptyLine = (): LineDraft => ({ description: '', category: 'labor', quantity: '1', unitPrice: '' });
+
+export function WorkOrderInvoiceForm({ workOrderId, onRecorded }: WorkOrderInvoiceFormProps) {
+  const { toast } = useToast();
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [invoiceDate, setInvoiceDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [lines, setLines] = useState<LineDraft[]>([emptyLine()]);
+  const [saving, setSaving] = useState(false);
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setLines(current => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const validLines = lines.filter(line => line.description.trim() && line.unitPrice.trim() !== '' && Number(line.quantity) > 0);
+  const total = validLines.reduce((sum, line) => sum + Number(line.quantity) * Number(line.unitPrice), 0);
+  const canSave = !!invoiceNumber.trim() && !!invoiceDate && validLines.length > 0;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setSaving(true);
+    try {
+      await WorkOrderService.recordInvoice(workOrderId, {
+        invoiceNumber: invoiceNumber.trim(),
+        invoiceDate: parseISO(invoiceDate),
+        lines: validLines.map(line => ({
+          description: line.description.trim(),
+          category: line.category,
+          quantity: Number(line.quantity),
+          unit_price: Number(line.unitPrice)
+        }))
+      });
+      toast({ title: "Invoice recorded" });
+      setInvoiceNumber('');
+      setLines([emptyLine()]);
+      onRecorded();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to record invoice',
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border rounded-lg p-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>Invoice Number</Label>
+          <Input value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} />
+        </div>
+        <div>
+          <Label>Invoice Date</Label>
+          <Input type="date" value={invoiceDate} onChange={(e) => setInvoiceDate(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {lines.map((line, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <Input
+              className="col-span-5"
+              placeholder="Description"
+              value={line.description}
+              onChange={(e) => updateLine(index, { description: e.target.value })}
+            />
+            <Select value={line.category} onValueChange={(value) => updateLine(index, { category: value as InvoiceLineCategory })}>
+              <SelectTrigger className="col-span-3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(INVOICE_LINE_CATEGORY_LABELS) as InvoiceLineCategory[]).map(category => (
+                  <SelectItem key={category} value={category}>{INVOICE_LINE_CATEGORY_LABELS[category]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="col-span-1"
+              type="number"
+              min="0"
+              value={line.quantity}
+              onChange={(e) => updateLine(index, { quantity: e.target.value })}
+            />
+            <Input
+              className="col-span-2"
+              type="number"
+              placeholder="Unit price"
+              value={line.unitPrice}
+              onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setLines(current => current.filter((_, i) => i !== index))}
+              disabled={lines.length === 1}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button size="sm" variant="outline" onClick={() => setLines(current => [...current, emptyLine()])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Line
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Total: ${total.toLocaleString()}</p>
+        <Button size="sm" onClick={handleSave} disabled={saving || !canSave}>
+          {saving ? 'Saving...' : 'Record Invoice'}
+        </Button>
+      </div>
+    </div>
+  );
+}
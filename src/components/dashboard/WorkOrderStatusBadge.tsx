@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import { WORK_ORDER_STATUS_LABELS, type WorkOrderStatus } from "@/lib/workOrders";
+
+const STATUS_CLASSES: Record<WorkOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  bid_requested: 'bg-yellow-100 text-yellow-800',
+  bids_received: 'bg-orange-100 text-orange-800',
+  approved: 'bg-blue-100 text-blue-800',
+  scheduled: 'bg-indigo-100 text-indigo-800',
+  in_progress: 'bg-purple-100 text-purple-800',
+  completed: 'bg-green-100 text-green-800',
+  invoiced: 'bg-teal-100 text-teal-800',
+  paid: 'bg-emerald-100 text-emerald-800',
+  cancelled: 'bg-red-100 text-red-800'
+};
+
+export function WorkOrderStatusBadge({ status }: { status: string }) {
+  const known = status as WorkOrderStatus;
+  return (
+    <Badge className={STATUS_CLASSES[known] || STATUS_CLASSES.draft}>
+      {WORK_ORDER_STATUS_LABELS[known] || status}
+    </Badge>
+  );
+}
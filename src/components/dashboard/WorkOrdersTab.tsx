@@ -8,27 +8,23 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { Calendar, DollarSign, Plus, Search, Filter, FileText, Download, Wrench, Building } from "lucide-react";
+import { AlertTriangle, DollarSign, Eye, Plus, Search, Filter, FileText, Download, Wrench, Building } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { format } from "date-fns";
-
-interface WorkOrder {
-  id: string;
-  title: string;
-  description: string | null;
-  status: string | null;
-  priority: string | null;
-  estimated_cost: number | null;
-  actual_cost: number | null;
-  scheduled_start: string | null;
-  scheduled_end: string | null;
-  completed_date: string | null;
-  assigned_to: string | null;
-  created_by: string | null;
-  vendor_id: string | null;
-  roof_id: string | null;
-  inspection_report_id: string | null;
-  created_at: string;
+import { format, parseISO } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { WorkOrderStatusBadge } from "./WorkOrderStatusBadge";
+import { WorkOrderDetailDialog } from "./WorkOrderDetailDialog";
+import {
+  WorkOrderService,
+  COMMITTED_WORK_ORDER_STATUSES,
+  OPEN_WORK_ORDER_STATUSES,
+  WORK_ORDER_STATUS_LABELS,
+  reconcileWorkOrder,
+  type WorkOrder,
+  type WorkOrderStatus
+} from "@/lib/workOrders";
+
+interface WorkOrderListItem extends WorkOrder {
   // Joined data
   roof_property_name?: string;
   roof_address?: string;
@@ -46,25 +42,29 @@ interface WorkOrder {
 
 interface WorkOrderSummary {
   totalOrders: number;
-  pendingOrders: number;
-  inProgressOrders: number;
-  completedOrders: number;
-  totalEstimatedCost: number;
-  totalActualCost: number;
-  budgetVariance: number;
+  openOrders: number;
+  awaitingApprovalOrders: number;
+  totalCommitted: number;
+  totalInvoiced: number;
+  // Invoiced minus approved, over orders that have both
+  invoiceVariance: number;
+  flaggedOrders: number;
 }
 
+const emptyNewOrder = { title: '', priority: 'medium', roofId: '', estimatedCost: '', scheduledStart: '', description: '' };
+
 export function WorkOrdersTab() {
-  const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
-  const [filteredOrders, setFilteredOrders] = useState<WorkOrder[]>([]);
+  const { toast } = useToast();
+  const [workOrders, setWorkOrders] = useState<WorkOrderListItem[]>([]);
+  const [filteredOrders, setFilteredOrders] = useState<WorkOrderListItem[]>([]);
   const [summary, setSummary] = useState<WorkOrderSummary>({
     totalOrders: 0,
-    pendingOrders: 0,
-    inProgressOrders: 0,
-    completedOrders: 0,
-    totalEstimatedCost: 0,
-    totalActualCost: 0,
-    budgetVariance: 0
+    openOrders: 0,
+    awaitingApprovalOrders: 0,
+    totalCommitted: 0,
+    totalInvoiced: 0,
+    invoiceVariance: 0,
+    flaggedOrders: 0
   });
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
@@ -72,6 +72,9 @@ export function WorkOrdersTab() {
   const [priorityFilter, setPriorityFilter] = useState("all");
   const [vendorFilter, setVendorFilter] = useState("all");
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [newOrder, setNewOrder] = useState(emptyNewOrder);
+  const [creating, setCreating] = useState(false);
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
 
   const [vendors, setVendors] = useState<{ id: string; company_name: string }[]>([]);
   const [buildings, setBuildings] = useState<{ id: string; property_name: string; address: string }[]>([]);
@@ -176,19 +179,48 @@ export function WorkOrdersTab() {
     }
   };
 
-  const calculateSummary = (orders: WorkOrder[]) => {
-    const summary = {
+  const calculateSummary = (orders: WorkOrderListItem[]) => {
+    const reconciliations = orders.map(o => reconcileWorkOrder(o));
+
+    setSummary({
       totalOrders: orders.length,
-      pendingOrders: orders.filter(o => o.status === 'pending').length,
-      inProgressOrders: orders.filter(o => o.status === 'in-progress').length,
-      completedOrders: orders.filter(o => o.status === 'completed').length,
-      totalEstimatedCost: orders.reduce((sum, o) => sum + (o.estimated_cost || 0), 0),
-      totalActualCost: orders.reduce((sum, o) => sum + (o.actual_cost || 0), 0),
-      budgetVariance: 0
-    };
-
-    summary.budgetVariance = summary.totalActualCost - summary.totalEstimatedCost;
-    setSummary(summary);
+      openOrders: orders.filter(o => OPEN_WORK_ORDER_STATUSES.includes(o.status as WorkOrderStatus)).length,
+      awaitingApprovalOrders: orders.filter(o => o.status === 'bids_received').length,
+      totalCommitted: orders
+        .filter(o => COMMITTED_WORK_ORDER_STATUSES.includes(o.status as WorkOrderStatus))
+        .reduce((sum, o) => sum + (o.approved_amount || 0), 0),
+      totalInvoiced: reconciliations.reduce((sum, r) => sum + r.invoiced, 0),
+      invoiceVariance: reconciliations.reduce((sum, r) => sum + (r.variance || 0), 0),
+      flaggedOrders: reconciliations.filter(r => r.flagged).length
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!newOrder.title.trim() || !newOrder.roofId) return;
+
+    setCreating(true);
+    try {
+      await WorkOrderService.createWorkOrder({
+        roofId: newOrder.roofId,
+        title: newOrder.title.trim(),
+        description: newOrder.description.trim(),
+        priority: newOrder.priority,
+        estimatedCost: newOrder.estimatedCost.trim() === '' ? null : Number(newOrder.estimatedCost),
+        scheduledStart: newOrder.scheduledStart ? parseISO(newOrder.scheduledStart) : null
+      });
+      toast({ title: "Work order created", description: "Request bids to get it approved" });
+      setNewOrder(emptyNewOrder);
+      setCreateDialogOpen(false);
+      fetchWorkOrders();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to create work order',
+        variant: "destructive"
+      });
+    } finally {
+      setCreating(false);
+    }
   };
 
   const filterOrders = () => {
@@ -217,21 +249,6 @@ export function WorkOrdersTab() {
     setFilteredOrders(filtered);
   };
 
-  const getStatusBadge = (status: string | null) => {
-    switch (status) {
-      case 'pending':
-        return <Badge variant="secondary">Pending</Badge>;
-      case 'in-progress':
-        return <Badge variant="default">In Progress</Badge>;
-      case 'completed':
-        return <Badge variant="outline" className="border-green-500 text-green-700">Completed</Badge>;
-      case 'cancelled':
-        return <Badge variant="destructive">Cancelled</Badge>;
-      default:
-        return <Badge variant="secondary">Unknown</Badge>;
-    }
-  };
-
   const getPriorityBadge = (priority: string | null) => {
     switch (priority) {
       case 'low':
@@ -247,31 +264,36 @@ export function WorkOrdersTab() {
     }
   };
 
-  const getBudgetImpactBadge = (estimated: number | null, actual: number | null) => {
-    if (!estimated && !actual) return <Badge variant="secondary">No Budget</Badge>;
-    
-    const est = estimated || 0;
-    const act = actual || 0;
-    
-    if (act === 0) return <Badge variant="outline">Estimated Only</Badge>;
-    
-    const variance = ((act - est) / est) * 100;
-    
-    if (variance <= -10) return <Badge variant="outline" className="border-green-500 text-green-700">Under Budget</Badge>;
-    if (variance <= 10) return <Badge variant="outline">On Budget</Badge>;
-    return <Badge variant="destructive">Over Budget</Badge>;
+  const getReconciliationBadge = (order: WorkOrderListItem) => {
+    const reconciliation = reconcileWorkOrder(order);
+
+    if (reconciliation.invoiced === 0) {
+      return reconciliation.approved === null
+        ? <Badge variant="secondary">Not Approved</Badge>
+        : <Badge variant="outline">Awaiting Invoice</Badge>;
+    }
+    if (reconciliation.flagged) {
+      return (
+        <Badge variant="destructive" className="flex items-center gap-1 w-fit">
+          <AlertTriangle className="h-3 w-3" />
+          {reconciliation.approved === null ? 'No Approval' : (reconciliation.variance || 0) > 0 ? 'Over Bid' : 'Under Bid'}
+        </Badge>
+      );
+    }
+    return <Badge variant="outline" className="border-green-500 text-green-700">Reconciled</Badge>;
   };
 
   const exportData = () => {
     const csvData = filteredOrders.map(order => ({
       'Work Order': order.title,
       'Property': order.roof_property_name || '',
-      'Status': order.status || '',
+      'Status': WORK_ORDER_STATUS_LABELS[order.status as WorkOrderStatus] || order.status,
       'Priority': order.priority || '',
       'Vendor': order.vendor_name || '',
       'Assigned To': order.assigned_user_name || '',
       'Estimated Cost': order.estimated_cost || '',
-      'Actual Cost': order.actual_cost || '',
+      'Approved Amount': order.approved_amount || '',
+      'Invoiced': order.actual_cost || '',
       'Scheduled Start': order.scheduled_start || '',
       'Scheduled End': order.scheduled_end || '',
       'Completed Date': order.completed_date || '',
@@ -293,6 +315,8 @@ export function WorkOrdersTab() {
     window.URL.revokeObjectURL(url);
   };
 
+  const selectedOrder = workOrders.find(order => order.id === selectedOrderId) || null;
+
   if (loading) {
     return (
       <div className="p-6">
@@ -320,7 +344,7 @@ export function WorkOrdersTab() {
           <CardContent>
             <div className="text-2xl font-bold">{summary.totalOrders}</div>
             <div className="text-xs text-gray-600">
-              {summary.pendingOrders} pending, {summary.inProgressOrders} in progress
+              {summary.openOrders} open, {summary.awaitingApprovalOrders} awaiting bid approval
             </div>
           </CardContent>
         </Card>
@@ -329,12 +353,12 @@ export function WorkOrdersTab() {
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center">
               <DollarSign className="h-4 w-4 text-green-500 mr-2" />
-              Estimated Cost
+              Approved Commitments
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${summary.totalEstimatedCost.toLocaleString()}</div>
-            <p className="text-xs text-gray-600">Total budgeted amount</p>
+            <div className="text-2xl font-bold">${summary.totalCommitted.toLocaleString()}</div>
+            <p className="text-xs text-gray-600">Approved bid amounts</p>
           </CardContent>
         </Card>
 
@@ -342,28 +366,28 @@ export function WorkOrdersTab() {
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center">
               <DollarSign className="h-4 w-4 text-orange-500 mr-2" />
-              Actual Cost
+              Invoiced
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${summary.totalActualCost.toLocaleString()}</div>
-            <p className="text-xs text-gray-600">Total spent amount</p>
+            <div className="text-2xl font-bold">${summary.totalInvoiced.toLocaleString()}</div>
+            <p className="text-xs text-gray-600">Total invoiced by vendors</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center">
-              <Calendar className="h-4 w-4 text-purple-500 mr-2" />
-              Budget Variance
+              <AlertTriangle className="h-4 w-4 text-purple-500 mr-2" />
+              Invoice Variance
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className={`text-2xl font-bold ${summary.budgetVariance >= 0 ? 'text-red-600' : 'text-green-600'}`}>
-              {summary.budgetVariance >= 0 ? '+' : ''}${summary.budgetVariance.toLocaleString()}
+            <div className={`text-2xl font-bold ${summary.invoiceVariance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {summary.invoiceVariance >= 0 ? '+' : '-'}${Math.abs(summary.invoiceVariance).toLocaleString()}
             </div>
             <p className="text-xs text-gray-600">
-              {summary.budgetVariance >= 0 ? 'Over budget' : 'Under budget'}
+              Invoiced vs. approved, {summary.flaggedOrders} flagged
             </p>
           </CardContent>
         </Card>
@@ -393,11 +417,16 @@ export function WorkOrdersTab() {
                   <div className="grid grid-cols-2 gap-4 py-4">
                     <div className="space-y-2">
                       <Label htmlFor="title">Title</Label>
-                      <Input id="title" placeholder="Work order title..." />
+                      <Input
+                        id="title"
+                        placeholder="Work order title..."
+                        value={newOrder.title}
+                        onChange={(e) => setNewOrder(prev => ({ ...prev, title: e.target.value }))}
+                      />
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="priority">Priority</Label>
-                      <Select>
+                      <Select value={newOrder.priority} onValueChange={(value) => setNewOrder(prev => ({ ...prev, priority: value }))}>
                         <SelectTrigger>
                           <SelectValue placeholder="Select priority" />
                         </SelectTrigger>
@@ -411,7 +440,7 @@ export function WorkOrdersTab() {
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="building">Building</Label>
-                      <Select>
+                      <Select value={newOrder.roofId} onValueChange={(value) => setNewOrder(prev => ({ ...prev, roofId: value }))}>
                         <SelectTrigger>
                           <SelectValue placeholder="Select building" />
                         </SelectTrigger>
@@ -424,40 +453,41 @@ export function WorkOrdersTab() {
                         </SelectContent>
                       </Select>
                     </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="vendor">Contractor</Label>
-                      <Select>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select contractor" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {vendors.map(vendor => (
-                            <SelectItem key={vendor.id} value={vendor.id}>
-                              {vendor.company_name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="estimated">Estimated Cost</Label>
-                      <Input id="estimated" type="number" placeholder="0.00" />
+                      <Input
+                        id="estimated"
+                        type="number"
+                        placeholder="0.00"
+                        value={newOrder.estimatedCost}
+                        onChange={(e) => setNewOrder(prev => ({ ...prev, estimatedCost: e.target.value }))}
+                      />
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="scheduled">Scheduled Start</Label>
-                      <Input id="scheduled" type="date" />
+                      <Input
+                        id="scheduled"
+                        type="date"
+                        value={newOrder.scheduledStart}
+                        onChange={(e) => setNewOrder(prev => ({ ...prev, scheduledStart: e.target.value }))}
+                      />
                     </div>
                     <div className="col-span-2 space-y-2">
                       <Label htmlFor="description">Description</Label>
-                      <Textarea id="description" placeholder="Work order description..." />
+                      <Textarea
+                        id="description"
+                        placeholder="Work order description..."
+                        value={newOrder.description}
+                        onChange={(e) => setNewOrder(prev => ({ ...prev, description: e.target.value }))}
+                      />
                     </div>
                   </div>
                   <div className="flex justify-end space-x-2">
                     <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
                       Cancel
                     </Button>
-                    <Button onClick={() => setCreateDialogOpen(false)}>
-                      Create Work Order
+                    <Button onClick={handleCreate} disabled={creating || !newOrder.title.trim() || !newOrder.roofId}>
+                      {creating ? 'Creating...' : 'Create Work Order'}
                     </Button>
                   </div>
                 </DialogContent>
@@ -483,10 +513,9 @@ export function WorkOrdersTab() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="in-progress">In Progress</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="cancelled">Cancelled</SelectItem>
+                {(Object.keys(WORK_ORDER_STATUS_LABELS) as WorkOrderStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{WORK_ORDER_STATUS_LABELS[status]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
@@ -548,9 +577,10 @@ export function WorkOrdersTab() {
                   <TableHead>Priority</TableHead>
                   <TableHead>Contractor</TableHead>
                   <TableHead>Costs</TableHead>
-                  <TableHead>Budget Impact</TableHead>
+                  <TableHead>Reconciliation</TableHead>
                   <TableHead>Schedule</TableHead>
                   <TableHead>Assigned To</TableHead>
+                  <TableHead></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -576,7 +606,7 @@ export function WorkOrdersTab() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      {getStatusBadge(order.status)}
+                      <WorkOrderStatusBadge status={order.status} />
                     </TableCell>
                     <TableCell>
                       {getPriorityBadge(order.priority)}
@@ -590,12 +620,15 @@ export function WorkOrdersTab() {
                       <div className="text-sm">
                         <div>Est: ${(order.estimated_cost || 0).toLocaleString()}</div>
                         <div className="text-gray-500">
-                          Act: ${(order.actual_cost || 0).toLocaleString()}
+                          Approved: {order.approved_amount === null ? '—' : `$${order.approved_amount.toLocaleString()}`}
+                        </div>
+                        <div className="text-gray-500">
+                          Invoiced: ${(order.actual_cost || 0).toLocaleString()}
                         </div>
                       </div>
                     </TableCell>
                     <TableCell>
-                      {getBudgetImpactBadge(order.estimated_cost, order.actual_cost)}
+                      {getReconciliationBadge(order)}
                     </TableCell>
                     <TableCell>
                       <div className="text-sm">
@@ -615,6 +648,12 @@ export function WorkOrdersTab() {
                         {order.assigned_user_name || 'Unassigned'}
                       </div>
                     </TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => setSelectedOrderId(order.id)}>
+                        <Eye className="h-4 w-4 mr-1" />
+                        View
+                      </Button>
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -629,6 +668,14 @@ export function WorkOrdersTab() {
           </div>
         </CardContent>
       </Card>
+
+      <WorkOrderDetailDialog
+        order={selectedOrder}
+        propertyName={selectedOrder?.roof_property_name}
+        vendors={vendors}
+        onOpenChange={(open) => !open && setSelectedOrderId(null)}
+        onChanged={fetchWorkOrders}
+      />
     </div>
   );
 }
\ No newline at end of file
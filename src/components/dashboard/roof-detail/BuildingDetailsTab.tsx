@@ -1,14 +1,60 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Edit, Plus } from "lucide-react";
+import { Edit, Plus, FileSpreadsheet } from "lucide-react";
+import { RollbackBatchButton } from "@/components/excel/ImportHistory";
+import { ImportBatchService, type FieldProvenance } from "@/lib/importBatches";
+import { ROOF_IMPORT_FIELDS } from "@/lib/roofImportMapping";
 
 interface BuildingDetailsTabProps {
   roof: any;
   isEditing?: boolean;
 }
 
+const fieldLabels: Record<string, string> = Object.fromEntries(ROOF_IMPORT_FIELDS.map(f => [f.field, f.label]));
+
+const describeSource = (source: FieldProvenance) =>
+  `Last set by import of ${source.fileName} on ${format(new Date(source.importedAt), 'MMM d, yyyy')}`;
+
+function FieldLabel({ source, children }: { source?: FieldProvenance; children: ReactNode }) {
+  return (
+    <label className="text-sm text-muted-foreground flex items-center gap-1">
+      {children}
+      {source && (
+        <span title={describeSource(source)}>
+          <FileSpreadsheet className="h-3 w-3 text-blue-600" />
+        </span>
+      )}
+    </label>
+  );
+}
+
 export function BuildingDetailsTab({ roof, isEditing = false }: BuildingDetailsTabProps) {
+  const [provenance, setProvenance] = useState<Record<string, FieldProvenance>>({});
+
+  const loadProvenance = useCallback(() => {
+    if (!roof?.id) return;
+    ImportBatchService.getRoofProvenance(roof.id).then(setProvenance);
+  }, [roof?.id]);
+
+  useEffect(() => {
+    loadProvenance();
+  }, [loadProvenance]);
+
+  // One entry per import, each with the fields it last wrote
+  const sources = useMemo(() => {
+    const byBatch = new Map<string, { batchId: string; fileName: string; importedAt: string; fields: FieldProvenance[] }>();
+    Object.values(provenance).forEach(source => {
+      const entry = byBatch.get(source.batchId) ||
+        { batchId: source.batchId, fileName: source.fileName, importedAt: source.importedAt, fields: [] };
+      entry.fields.push(source);
+      byBatch.set(source.batchId, entry);
+    });
+    return [...byBatch.values()].sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+  }, [provenance]);
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-4 gap-6">
       {/* Building Address */}
@@ -23,27 +69,27 @@ export function BuildingDetailsTab({ roof, isEditing = false }: BuildingDetailsT
         </CardHeader>
         <CardContent className="space-y-3">
           <div>
-            <label className="text-sm text-muted-foreground">Address</label>
+            <FieldLabel source={provenance.address}>Address</FieldLabel>
             <p className="font-medium">{roof.address}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">City</label>
+            <FieldLabel source={provenance.city}>City</FieldLabel>
             <p className="font-medium">{roof.city}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">State</label>
+            <FieldLabel source={provenance.state}>State</FieldLabel>
             <p className="font-medium">{roof.state}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">ZIP Code</label>
+            <FieldLabel source={provenance.zip}>ZIP Code</FieldLabel>
             <p className="font-medium">{roof.zip}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Latitude & Longitude</label>
+            <FieldLabel source={provenance.latitude}>Latitude & Longitude</FieldLabel>
             <p className="font-medium">{roof.latitude || '32.6373574'}, {roof.longitude || '-96.8080434'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Time Zone</label>
+            <FieldLabel source={provenance.time_zone}>Time Zone</FieldLabel>
             <p className="font-medium">{roof.time_zone || 'UTC'}</p>
           </div>
         </CardContent>
@@ -61,15 +107,15 @@ export function BuildingDetailsTab({ roof, isEditing = false }: BuildingDetailsT
         </CardHeader>
         <CardContent className="space-y-3">
           <div>
-            <label className="text-sm text-muted-foreground">Roof Name</label>
+            <FieldLabel source={provenance.property_name}>Roof Name</FieldLabel>
             <p className="font-medium">{roof.property_name}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Construction Year</label>
+            <FieldLabel source={provenance.install_year}>Construction Year</FieldLabel>
             <p className="font-medium">{roof.install_year || '---'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Code</label>
+            <FieldLabel source={provenance.property_code}>Code</FieldLabel>
             <p className="font-medium">{roof.property_code || 'dal06001'}</p>
           </div>
           <div>
@@ -90,23 +136,23 @@ export function BuildingDetailsTab({ roof, isEditing = false }: BuildingDetailsT
             <p className="font-medium">---</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Region</label>
+            <FieldLabel source={provenance.region}>Region</FieldLabel>
             <p className="font-medium">{roof.region || 'Central'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Market</label>
+            <FieldLabel source={provenance.market}>Market</FieldLabel>
             <p className="font-medium">{roof.market || 'Dallas'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Property Manager</label>
+            <FieldLabel source={provenance.property_manager_name}>Property Manager</FieldLabel>
             <p className="font-medium text-primary">{roof.property_manager_name || 'Marci Sherburn'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Asset Manager</label>
+            <FieldLabel source={provenance.asset_manager_name}>Asset Manager</FieldLabel>
             <p className="font-medium">{roof.asset_manager_name || '---'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Roof Group</label>
+            <FieldLabel source={provenance.roof_group}>Roof Group</FieldLabel>
             <p className="font-medium">{roof.roof_group || 'LPT'}</p>
           </div>
         </CardContent>
@@ -124,19 +170,19 @@ export function BuildingDetailsTab({ roof, isEditing = false }: BuildingDetailsT
         </CardHeader>
         <CardContent className="space-y-3">
           <div>
-            <label className="text-sm text-muted-foreground">Name</label>
+            <FieldLabel source={provenance.property_manager_name}>Name</FieldLabel>
             <p className="font-medium text-primary">{roof.property_manager_name || 'Marci Sherburn'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Office Phone</label>
+            <FieldLabel source={provenance.property_manager_phone}>Office Phone</FieldLabel>
             <p className="font-medium">{roof.property_manager_phone || '---'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Mobile Phone</label>
+            <FieldLabel source={provenance.property_manager_mobile}>Mobile Phone</FieldLabel>
             <p className="font-medium">{roof.property_manager_mobile || '---'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Email</label>
+            <FieldLabel source={provenance.property_manager_email}>Email</FieldLabel>
             <p className="font-medium text-primary">{roof.property_manager_email || 'msherbur@prologis.com'}</p>
           </div>
         </CardContent>
@@ -154,19 +200,19 @@ export function BuildingDetailsTab({ roof, isEditing = false }: BuildingDetailsT
         </CardHeader>
         <CardContent className="space-y-3">
           <div>
-            <label className="text-sm text-muted-foreground">Name</label>
+            <FieldLabel source={provenance.site_contact}>Name</FieldLabel>
             <p className="font-medium">{roof.site_contact || 'Marci Sherburn'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Office Phone</label>
+            <FieldLabel source={provenance.site_contact_office_phone}>Office Phone</FieldLabel>
             <p className="font-medium">{roof.site_contact_office_phone || '972-884-9213'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Mobile Phone</label>
+            <FieldLabel source={provenance.site_contact_mobile_phone}>Mobile Phone</FieldLabel>
             <p className="font-medium">{roof.site_contact_mobile_phone || '---'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Email</label>
+            <FieldLabel source={provenance.site_contact_email}>Email</FieldLabel>
             <p className="font-medium text-primary">{roof.site_contact_email || 'msherbur@prologis.com'}</p>
           </div>
         </CardContent>
@@ -184,11 +230,11 @@ export function BuildingDetailsTab({ roof, isEditing = false }: BuildingDetailsT
         </CardHeader>
         <CardContent className="space-y-3">
           <div>
-            <label className="text-sm text-muted-foreground">Name</label>
+            <FieldLabel source={provenance.asset_manager_name}>Name</FieldLabel>
             <p className="font-medium">{roof.asset_manager_name || '---'}</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Office Phone</label>
+            <FieldLabel source={provenance.asset_manager_phone}>Office Phone</FieldLabel>
             <p className="font-medium">{roof.asset_manager_phone || '---'}</p>
           </div>
           <div>
@@ -196,7 +242,7 @@ export function BuildingDetailsTab({ roof, isEditing = false }: BuildingDetailsT
             <p className="font-medium">---</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Email</label>
+            <FieldLabel source={provenance.asset_manager_email}>Email</FieldLabel>
             <p className="font-medium">{roof.asset_manager_email || '---'}</p>
           </div>
         </CardContent>
@@ -214,7 +260,7 @@ export function BuildingDetailsTab({ roof, isEditing = false }: BuildingDetailsT
         </CardHeader>
         <CardContent className="space-y-3">
           <div>
-            <label className="text-sm text-muted-foreground">Name</label>
+            <FieldLabel source={provenance.maintenance_contact_name}>Name</FieldLabel>
             <p className="font-medium">{roof.maintenance_contact_name || 'Barry'}</p>
           </div>
           <div>
@@ -222,7 +268,7 @@ export function BuildingDetailsTab({ roof, isEditing = false }: BuildingDetailsT
             <p className="font-medium">---</p>
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Mobile Phone</label>
+            <FieldLabel source={provenance.maintenance_contact_phone}>Mobile Phone</FieldLabel>
             <p className="font-medium">{roof.maintenance_contact_phone || '214-783-3119'}</p>
           </div>
           <div>
@@ -268,6 +314,44 @@ export function BuildingDetailsTab({ roof, isEditing = false }: BuildingDetailsT
         </CardContent>
       </Card>
 
+      {/* Data Sources */}
+      {sources.length > 0 && (
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">Data Sources</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {sources.map(source => (
+              <div key={source.batchId} className="p-4 bg-muted/50 rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium flex items-center gap-2 truncate">
+                      <FileSpreadsheet className="h-4 w-4 shrink-0" />
+                      {source.fileName}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Imported {format(new Date(source.importedAt), 'MMM d, yyyy h:mm a')}
+                    </p>
+                  </div>
+                  <RollbackBatchButton batchId={source.batchId} fileName={source.fileName} onRolledBack={loadProvenance} />
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {source.fields.map(field => (
+                    <Badge
+                      key={field.field}
+                      variant="outline"
+                      title={field.changeType === 'update' ? `Was: ${field.previousValue ?? 'blank'}` : 'Set when the property was created'}
+                    >
+                      {fieldLabels[field.field] || field.field}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Building Work Orders */}
       <Card className="lg:col-span-2">
         <CardHeader>
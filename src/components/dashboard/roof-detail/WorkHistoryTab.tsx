@@ -4,6 +4,8 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { Plus, Eye, Edit, FileText } from "lucide-react";
+import { WorkOrderStatusBadge } from "../WorkOrderStatusBadge";
+import { COMPLETED_WORK_ORDER_STATUSES, OPEN_WORK_ORDER_STATUSES } from "@/lib/workOrders";
 
 export function WorkHistoryTab({ roof }: { roof: any }) {
   const [workOrders, setWorkOrders] = useState<any[]>([]);
@@ -73,16 +75,7 @@ export function WorkHistoryTab({ roof }: { roof: any }) {
                     </p>
                   </div>
                   <div className="flex items-center space-x-2">
-                    <Badge 
-                      variant={
-                        workOrder.status === 'completed' ? 'default' :
-                        workOrder.status === 'in_progress' ? 'secondary' :
-                        workOrder.status === 'assigned' ? 'outline' :
-                        'destructive'
-                      }
-                    >
-                      {workOrder.status.replace('_', ' ').toUpperCase()}
-                    </Badge>
+                    <WorkOrderStatusBadge status={workOrder.status} />
                     <Badge 
                       variant={
                         workOrder.priority === 'emergency' ? 'destructive' :
@@ -189,9 +182,9 @@ export function WorkHistoryTab({ roof }: { roof: any }) {
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="text-center">
               <div className="text-2xl font-bold text-primary">
-                {workOrders.filter(wo => wo.status === 'pending').length}
+                {workOrders.filter(wo => OPEN_WORK_ORDER_STATUSES.includes(wo.status)).length}
               </div>
-              <p className="text-sm text-muted-foreground">Pending</p>
+              <p className="text-sm text-muted-foreground">Open</p>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-secondary">
@@ -201,7 +194,7 @@ export function WorkHistoryTab({ roof }: { roof: any }) {
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-accent">
-                {workOrders.filter(wo => wo.status === 'completed').length}
+                {workOrders.filter(wo => COMPLETED_WORK_ORDER_STATUSES.includes(wo.status)).length}
               </div>
               <p className="text-sm text-muted-foreground">Completed</p>
             </div>
@@ -0,0 +1,203 @@
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle } from "lucide-react";
+import {
+  ROOF_IMPORT_FIELDS,
+  IMPORT_TRANSFORM_LABELS,
+  type ColumnMapping,
+  type ImportTransform,
+  type TransformOptions
+} from "@/lib/roofImportMapping";
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  sampleRows: unknown[][];
+  mappings: ColumnMapping[];
+  onChange: (mappings: ColumnMapping[]) => void;
+}
+
+const SKIP = '__skip';
+
+const FIELD_GROUPS = ['Property', 'Location', 'Contacts', 'Roof', 'Warranty', 'Budget'] as const;
+
+const formatLookup = (lookup?: Record<string, string>) =>
+  Object.entries(lookup || {}).map(([from, to]) => `${from} = ${to}`).join('\n');
+
+const parseLookup = (text: string): Record<string, string> =>
+  text.split('\n').reduce((lookup, line) => {
+    const [from, ...rest] = line.split('=');
+    if (from?.trim() && rest.length > 0) lookup[from.trim()] = rest.join('=').trim();
+    return lookup;
+  }, {} as Record<string, string>);
+
+const formatSample = (value: unknown) => (value instanceof Date ? value.toLocaleDateString() : String(value));
+
+export function ColumnMappingStep({ headers, sampleRows, mappings, onChange }: ColumnMappingStepProps) {
+  const mappingFor = (header: string) => mappings.find(m => m.source === header);
+  const mappedTargets = new Set(mappings.map(m => m.target));
+  const missingRequired = ROOF_IMPORT_FIELDS.filter(f => f.required && !mappedTargets.has(f.field));
+
+  const updateMapping = (header: string, update: Partial<ColumnMapping> | null) => {
+    const others = mappings.filter(m => m.source !== header);
+    if (update === null) {
+      onChange(others);
+      return;
+    }
+
+    const current = mappingFor(header) || { source: header, target: '', transform: 'auto' as ImportTransform };
+    const next = { ...current, ...update };
+    // Keep mappings in column order so the list reads like the sheet
+    onChange([...others, next].sort((a, b) => headers.indexOf(a.source) - headers.indexOf(b.source)));
+  };
+
+  const updateOptions = (header: string, options: Partial<TransformOptions>) => {
+    updateMapping(header, { options: { ...mappingFor(header)?.options, ...options } });
+  };
+
+  const samplesFor = (index: number) =>
+    sampleRows
+      .map(row => row[index])
+      .filter(value => value !== null && value !== undefined && String(value).trim() !== '')
+      .slice(0, 2)
+      .map(formatSample);
+
+  return (
+    <div className="space-y-3">
+      {missingRequired.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Map a column to {missingRequired.map(f => f.label).join(' and ')} to import.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-1/4">Spreadsheet column</TableHead>
+            <TableHead className="w-1/4">Sample values</TableHead>
+            <TableHead className="w-1/4">Roof field</TableHead>
+            <TableHead className="w-1/4">Transform</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {headers.map((header, index) => {
+            if (!header) return null;
+            const mapping = mappingFor(header);
+            const transform = mapping?.transform || 'auto';
+
+            return (
+              <TableRow key={`${header}-${index}`} className={mapping ? '' : 'text-muted-foreground'}>
+                <TableCell className="font-medium">{header}</TableCell>
+                <TableCell className="text-xs">
+                  {samplesFor(index).map((sample, i) => (
+                    <div key={i} className="truncate max-w-[180px]">{sample}</div>
+                  ))}
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={mapping?.target || SKIP}
+                    onValueChange={(value) => updateMapping(header, value === SKIP ? null : { target: value })}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP}>Don't import</SelectItem>
+                      {FIELD_GROUPS.map(group => (
+                        <SelectGroup key={group}>
+                          <SelectLabel>{group}</SelectLabel>
+                          {ROOF_IMPORT_FIELDS.filter(f => f.group === group).map(field => (
+                            <SelectItem key={field.field} value={field.field}>
+                              {field.label}{field.required ? ' *' : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="space-y-2">
+                  {mapping && (
+                    <>
+                      <Select
+                        value={transform}
+                        onValueChange={(value) => updateMapping(header, { transform: value as ImportTransform })}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(IMPORT_TRANSFORM_LABELS) as ImportTransform[]).map(key => (
+                            <SelectItem key={key} value={key}>{IMPORT_TRANSFORM_LABELS[key]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+
+                      {(transform === 'date' || transform === 'year') && (
+                        <Select
+                          value={mapping.options?.date_format || 'MDY'}
+                          onValueChange={(value) => updateOptions(header, { date_format: value as TransformOptions['date_format'] })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="MDY">MM/DD/YYYY</SelectItem>
+                            <SelectItem value="DMY">DD/MM/YYYY</SelectItem>
+                            <SelectItem value="YMD">YYYY/MM/DD</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      )}
+
+                      {transform === 'convert_area' && (
+                        <Select
+                          value={mapping.options?.from_unit || 'sq_ft'}
+                          onValueChange={(value) => updateOptions(header, { from_unit: value as TransformOptions['from_unit'] })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="sq_ft">From square feet</SelectItem>
+                            <SelectItem value="sq_m">From square meters</SelectItem>
+                            <SelectItem value="squares">From roofing squares (100 sq ft)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      )}
+
+                      {transform === 'lookup' && (
+                        <div className="space-y-2">
+                          <Textarea
+                            rows={3}
+                            className="text-xs"
+                            placeholder={"TPO = Thermoplastic\nBUR = Built-Up"}
+                            defaultValue={formatLookup(mapping.options?.lookup)}
+                            onBlur={(e) => updateOptions(header, { lookup: parseLookup(e.target.value) })}
+                          />
+                          <div className="flex items-center space-x-2">
+                            <Switch
+                              id={`passthrough-${index}`}
+                              checked={mapping.options?.lookup_passthrough ?? false}
+                              onCheckedChange={(checked) => updateOptions(header, { lookup_passthrough: checked })}
+                            />
+                            <Label htmlFor={`passthrough-${index}`} className="text-xs">Keep unmatched values</Label>
+                          </div>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
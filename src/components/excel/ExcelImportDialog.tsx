@@ -1,13 +1,32 @@
 
-import { useState, useRef } from "react";
-import { Upload, FileSpreadsheet, AlertCircle, CheckCircle } from "lucide-react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, Bookmark } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import * as XLSX from 'xlsx';
+import { format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
+import { ColumnMappingStep } from "./ColumnMappingStep";
+import { ImportPreviewStep } from "./ImportPreviewStep";
+import { ImportHistory, RollbackBatchButton } from "./ImportHistory";
+import {
+  RoofImportMappingService,
+  ROOF_IMPORT_FIELDS,
+  suggestMappings,
+  headerSignature,
+  buildReviewedPlan,
+  type ColumnMapping,
+  type ImportMappingTemplate,
+  type ImportPlanPreview
+} from "@/lib/roofImportMapping";
 
 interface ExcelImportDialogProps {
   open: boolean;
@@ -18,18 +37,149 @@ interface ExcelImportDialogProps {
 interface ImportResult {
   success: number;
   updated: number;
+  unchanged: number;
   errors: Array<{ row: number; error: string }>;
+  warnings: Array<{ row: number; column: string; error: string }>;
+  unmappedColumns: string[];
   clientsCreated: number;
   propertyManagerAssignments: number;
+  batchId?: string;
+}
+
+interface ClientOption {
+  id: string;
+  company_name: string;
+}
+
+const NO_CLIENT = '__none';
+
+const isBlankCell = (cell: unknown) => cell === null || cell === undefined || String(cell).trim() === '';
+
+// Dates go to the server as plain calendar dates so time zones can't shift them
+const serializeCell = (cell: unknown) => (cell instanceof Date ? format(cell, 'yyyy-MM-dd') : cell);
+
+function readSheet(workbook: XLSX.WorkBook, sheetName: string, headerRow: number) {
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) return { headers: [] as string[], rows: [] as unknown[][] };
+
+  const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: null }) as unknown[][];
+  const headers = (jsonData[headerRow - 1] || []).map(cell => (isBlankCell(cell) ? '' : String(cell).trim()));
+  const rows = jsonData.slice(headerRow).filter(row => row.some(cell => !isBlankCell(cell)));
+
+  return { headers, rows };
 }
 
 export function ExcelImportDialog({ open, onOpenChange, onImportComplete }: ExcelImportDialogProps) {
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [sheetName, setSheetName] = useState('');
+  const [headerRow, setHeaderRow] = useState(1);
+  const [clients, setClients] = useState<ClientOption[]>([]);
+  const [clientId, setClientId] = useState(NO_CLIENT);
+  const [templates, setTemplates] = useState<ImportMappingTemplate[]>([]);
+  const [appliedTemplate, setAppliedTemplate] = useState<ImportMappingTemplate | null>(null);
+  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+  const [saveTemplate, setSaveTemplate] = useState(true);
+  const [templateName, setTemplateName] = useState('');
+  const [preview, setPreview] = useState<ImportPlanPreview | null>(null);
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [excludedFields, setExcludedFields] = useState<Record<number, string[]>>({});
+  const [usedTemplateId, setUsedTemplateId] = useState<string | undefined>();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const mappedSignature = useRef('');
   const { toast } = useToast();
 
+  const selectedClientId = clientId === NO_CLIENT ? undefined : clientId;
+
+  const { headers, rows } = useMemo(
+    () => (workbook && sheetName ? readSheet(workbook, sheetName, headerRow) : { headers: [] as string[], rows: [] as unknown[][] }),
+    [workbook, sheetName, headerRow]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+
+    RoofImportMappingService.getTemplates().then(setTemplates);
+    supabase
+      .from('clients')
+      .select('id, company_name')
+      .order('company_name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching clients:', error);
+          return;
+        }
+        setClients(data || []);
+      });
+  }, [open]);
+
+  // Map a new header row once: a saved template first, otherwise best guesses. Later
+  // client or template changes leave the user's mapping edits alone.
+  useEffect(() => {
+    const signature = headerSignature(headers);
+    if (headers.length === 0 || signature === mappedSignature.current) return;
+    mappedSignature.current = signature;
+
+    const template = RoofImportMappingService.findMatchingTemplate(templates, headers, selectedClientId);
+    setAppliedTemplate(template);
+    setMappings(template ? RoofImportMappingService.applyTemplate(template, headers) : suggestMappings(headers));
+    if (template?.client_id && !selectedClientId) {
+      setClientId(template.client_id);
+    }
+  }, [headers, templates, selectedClientId]);
+
+  useEffect(() => {
+    const clientName = clients.find(c => c.id === selectedClientId)?.company_name;
+    setTemplateName(appliedTemplate?.name || (clientName ? `${clientName} roof list` : sheetName));
+  }, [appliedTemplate, selectedClientId, clients, sheetName]);
+
+  const resetImport = () => {
+    setWorkbook(null);
+    setFileName('');
+    setSheetName('');
+    setHeaderRow(1);
+    setMappings([]);
+    setAppliedTemplate(null);
+    mappedSignature.current = '';
+    setImportResult(null);
+    clearPreview();
+    setProgress(0);
+  };
+
+  const clearPreview = () => {
+    setPreview(null);
+    setExcludedRows(new Set());
+    setExcludedFields({});
+  };
+
+  const toggleRow = (row: number) => {
+    setExcludedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(row)) next.delete(row);
+      else next.add(row);
+      return next;
+    });
+  };
+
+  const setRowsIncluded = (rowNumbers: number[], included: boolean) => {
+    setExcludedRows(prev => {
+      const next = new Set(prev);
+      rowNumbers.forEach(row => (included ? next.delete(row) : next.add(row)));
+      return next;
+    });
+  };
+
+  const toggleField = (row: number, field: string) => {
+    setExcludedFields(prev => {
+      const current = prev[row] || [];
+      const next = current.includes(field) ? current.filter(f => f !== field) : [...current, field];
+      return { ...prev, [row]: next };
+    });
+  };
+
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -43,31 +193,143 @@ export function ExcelImportDialog({ open, onOpenChange, onImportComplete }: Exce
       return;
     }
 
+    try {
+      const data = await file.arrayBuffer();
+      const book = XLSX.read(data, { cellDates: true });
+
+      if (book.SheetNames.length === 0) {
+        throw new Error("The Excel file has no sheets");
+      }
+
+      // Start on the sheet a saved template was built from, if this workbook has it
+      const remembered = templates.find(t => t.sheet_name && book.SheetNames.includes(t.sheet_name) &&
+        (!selectedClientId || t.client_id === selectedClientId));
+
+      setImportResult(null);
+      setWorkbook(book);
+      setFileName(file.name);
+      setSheetName(remembered?.sheet_name || book.SheetNames[0]);
+      setHeaderRow(remembered?.header_row || 1);
+    } catch (error) {
+      console.error('Error reading Excel file:', error);
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const runPreview = async () => {
+    if (rows.length === 0) {
+      toast({
+        title: "Nothing to import",
+        description: "No valid data found below the header row of this sheet",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const missingRequired = ROOF_IMPORT_FIELDS.filter(f => f.required && !mappings.some(m => m.target === f.field));
+    if (missingRequired.length > 0) {
+      toast({
+        title: "Mapping incomplete",
+        description: `Map a column to ${missingRequired.map(f => f.label).join(' and ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setUploading(true);
     setProgress(0);
-    setImportResult(null);
 
     try {
-      const data = await file.arrayBuffer();
-      const workbook = XLSX.read(data);
-      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
+      if (saveTemplate && templateName.trim()) {
+        // Update the applied template only if it belongs to the same client
+        const reuse = appliedTemplate && (appliedTemplate.client_id || undefined) === selectedClientId;
+        const saved = await RoofImportMappingService.saveTemplate({
+          id: reuse ? appliedTemplate.id : undefined,
+          name: templateName.trim(),
+          clientId: selectedClientId,
+          sheetName,
+          headerRow,
+          headers,
+          mappings
+        });
+        setTemplates(prev => [saved, ...prev.filter(t => t.id !== saved.id)]);
+        setUsedTemplateId(saved.id);
+      } else if (appliedTemplate) {
+        await RoofImportMappingService.markUsed(appliedTemplate.id);
+        setUsedTemplateId(appliedTemplate.id);
+      } else {
+        setUsedTemplateId(undefined);
+      }
+
+      setProgress(25);
 
-      // Remove header row and filter empty rows
-      const [headers, ...rows] = jsonData as string[][];
-      const validRows = rows.filter(row => row.some(cell => cell && String(cell).trim()));
+      // Dry run: the edge function matches and diffs every row without writing anything
+      const { data: plan, error } = await supabase.functions.invoke('import-roofs', {
+        body: {
+          mode: 'preview',
+          headers,
+          rows: rows.map(row => headers.map((_, index) => serializeCell(row[index] ?? null))),
+          mapping: mappings,
+          clientId: selectedClientId,
+          headerRow
+        }
+      });
 
-      if (validRows.length === 0) {
-        throw new Error("No valid data found in the Excel file");
+      if (error) {
+        throw error;
       }
 
-      setProgress(25);
+      setProgress(100);
+      setExcludedRows(new Set());
+      setExcludedFields({});
+      setPreview(plan);
+    } catch (error) {
+      console.error('Import preview error:', error);
+      toast({
+        title: "Preview failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const commitImport = async () => {
+    if (!preview) return;
+
+    const reviewedRows = buildReviewedPlan(preview, excludedRows, excludedFields);
+    if (reviewedRows.length === 0) {
+      toast({
+        title: "Nothing to import",
+        description: "No rows with changes are selected",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    setProgress(25);
 
-      // Call the edge function to process the data
+    try {
       const { data: result, error } = await supabase.functions.invoke('import-roofs', {
         body: {
-          headers,
-          rows: validRows
+          mode: 'commit',
+          plan: { rows: reviewedRows },
+          mapping: mappings,
+          clientId: selectedClientId,
+          headerRow,
+          fileName,
+          sheetName,
+          templateId: usedTemplateId
         }
       });
 
@@ -76,9 +338,18 @@ export function ExcelImportDialog({ open, onOpenChange, onImportComplete }: Exce
       }
 
       setProgress(100);
-      setImportResult(result);
+      setImportResult({
+        ...result,
+        unchanged: result.unchanged + preview.summary.unchanged,
+        errors: [
+          ...preview.rows.filter(row => row.action === 'error').map(row => ({ row: row.row, error: row.error || 'Invalid row' })),
+          ...result.errors
+        ],
+        unmappedColumns: preview.unmappedColumns
+      });
+      setWorkbook(null);
+      clearPreview();
       
-      const totalProcessed = (result.success || 0) + (result.updated || 0);
       const toastMessage = [];
       
       if (result.success > 0) {
@@ -109,12 +380,14 @@ export function ExcelImportDialog({ open, onOpenChange, onImportComplete }: Exce
       });
     } finally {
       setUploading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
     }
   };
 
+  const reviewedCount = useMemo(
+    () => (preview ? buildReviewedPlan(preview, excludedRows, excludedFields).length : 0),
+    [preview, excludedRows, excludedFields]
+  );
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
   };
@@ -131,7 +404,7 @@ export function ExcelImportDialog({ open, onOpenChange, onImportComplete }: Exce
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className={workbook && !uploading ? "max-w-5xl" : "max-w-md"}>
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <FileSpreadsheet className="h-5 w-5" />
@@ -140,7 +413,7 @@ export function ExcelImportDialog({ open, onOpenChange, onImportComplete }: Exce
         </DialogHeader>
 
         <div className="space-y-4">
-          {!uploading && !importResult && (
+          {!uploading && !importResult && !workbook && (
             <div
               className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center cursor-pointer hover:border-muted-foreground/50 transition-colors"
               onDragOver={handleDragOver}
@@ -167,10 +440,134 @@ export function ExcelImportDialog({ open, onOpenChange, onImportComplete }: Exce
             </div>
           )}
 
+          {!uploading && !importResult && !workbook && (
+            <ImportHistory onRolledBack={onImportComplete} />
+          )}
+
+          {workbook && !uploading && !preview && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Sheet</Label>
+                  <Select value={sheetName} onValueChange={setSheetName}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workbook.SheetNames.map(name => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="header-row">Header row</Label>
+                  <Input
+                    id="header-row"
+                    type="number"
+                    min={1}
+                    value={headerRow}
+                    onChange={(e) => setHeaderRow(Math.max(1, parseInt(e.target.value) || 1))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Client</Label>
+                  <Select value={clientId} onValueChange={setClientId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CLIENT}>From the Customer column</SelectItem>
+                      {clients.map(client => (
+                        <SelectItem key={client.id} value={client.id}>{client.company_name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <FileSpreadsheet className="h-4 w-4" />
+                <span>{fileName} · {rows.length} data rows · {mappings.length} of {headers.filter(Boolean).length} columns mapped</span>
+                {appliedTemplate && (
+                  <span className="flex items-center gap-1 text-blue-600">
+                    <Bookmark className="h-3 w-3" />
+                    Using saved template "{appliedTemplate.name}"
+                  </span>
+                )}
+              </div>
+
+              <ScrollArea className="h-[45vh] border rounded-md">
+                <ColumnMappingStep
+                  headers={headers}
+                  sampleRows={rows.slice(0, 5)}
+                  mappings={mappings}
+                  onChange={setMappings}
+                />
+              </ScrollArea>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="save-template"
+                    checked={saveTemplate}
+                    onCheckedChange={(checked) => setSaveTemplate(checked === true)}
+                  />
+                  <Label htmlFor="save-template">
+                    {appliedTemplate ? 'Update saved template' : 'Save mapping as template'}
+                  </Label>
+                </div>
+                {saveTemplate && (
+                  <Input
+                    className="w-64"
+                    value={templateName}
+                    onChange={(e) => setTemplateName(e.target.value)}
+                    placeholder="Template name"
+                  />
+                )}
+              </div>
+
+              <div className="flex gap-2 justify-end">
+                <Button variant="outline" onClick={resetImport}>
+                  Choose Another File
+                </Button>
+                <Button onClick={runPreview} disabled={mappings.length === 0}>
+                  Preview {rows.length} Rows
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {workbook && !uploading && preview && (
+            <div className="space-y-4">
+              <ScrollArea className="h-[55vh] pr-3">
+                <ImportPreviewStep
+                  preview={preview}
+                  excludedRows={excludedRows}
+                  excludedFields={excludedFields}
+                  onToggleRow={toggleRow}
+                  onToggleField={toggleField}
+                  onSetRows={setRowsIncluded}
+                />
+              </ScrollArea>
+
+              <div className="flex gap-2 justify-end">
+                <Button variant="outline" onClick={clearPreview}>
+                  Back to Mapping
+                </Button>
+                <Button onClick={commitImport}>
+                  Import {reviewedCount} Rows
+                </Button>
+              </div>
+            </div>
+          )}
+
           {uploading && (
             <div className="space-y-4">
               <div className="text-center">
-                <p className="text-sm text-muted-foreground mb-2">Processing Excel file...</p>
+                <p className="text-sm text-muted-foreground mb-2">
+                  {preview ? 'Importing reviewed rows...' : 'Checking rows against existing properties...'}
+                </p>
                 <Progress value={progress} className="w-full" />
               </div>
             </div>
@@ -186,6 +583,7 @@ export function ExcelImportDialog({ open, onOpenChange, onImportComplete }: Exce
                     <div className="text-sm space-y-1">
                       {importResult.success > 0 && <div>• {importResult.success} new properties created</div>}
                       {importResult.updated > 0 && <div>• {importResult.updated} existing properties updated</div>}
+                      {importResult.unchanged > 0 && <div>• {importResult.unchanged} properties already up to date</div>}
                       {importResult.clientsCreated > 0 && <div>• {importResult.clientsCreated} new clients created</div>}
                       {importResult.propertyManagerAssignments > 0 && <div>• {importResult.propertyManagerAssignments} property manager assignments made</div>}
                     </div>
@@ -210,12 +608,46 @@ export function ExcelImportDialog({ open, onOpenChange, onImportComplete }: Exce
                 </Alert>
               )}
 
+              {importResult.warnings?.length > 0 && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {importResult.warnings.length} values could not be converted and were left blank:
+                    <ul className="mt-2 text-xs">
+                      {importResult.warnings.slice(0, 5).map((warning, index) => (
+                        <li key={index}>Row {warning.row}, {warning.column}: {warning.error}</li>
+                      ))}
+                      {importResult.warnings.length > 5 && (
+                        <li>... and {importResult.warnings.length - 5} more</li>
+                      )}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {importResult.unmappedColumns?.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Not imported: {importResult.unmappedColumns.join(', ')}
+                </p>
+              )}
+
+              {importResult.batchId && (
+                <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                  <span>Imported the wrong file?</span>
+                  <RollbackBatchButton
+                    batchId={importResult.batchId}
+                    fileName={fileName}
+                    onRolledBack={() => {
+                      resetImport();
+                      onImportComplete();
+                    }}
+                  />
+                </div>
+              )}
+
               <div className="flex gap-2">
                 <Button
-                  onClick={() => {
-                    setImportResult(null);
-                    setProgress(0);
-                  }}
+                  onClick={resetImport}
                   variant="outline"
                   className="flex-1"
                 >
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Undo2, FileSpreadsheet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ImportBatchService, batchStatusLabel, type ImportBatch } from "@/lib/importBatches";
+
+interface RollbackBatchButtonProps {
+  batchId: string;
+  fileName: string;
+  onRolledBack?: (batch: ImportBatch) => void;
+}
+
+export function RollbackBatchButton({ batchId, fileName, onRolledBack }: RollbackBatchButtonProps) {
+  const [rollingBack, setRollingBack] = useState(false);
+  const { toast } = useToast();
+
+  const handleRollback = async () => {
+    const confirmed = window.confirm(
+      `Roll back the import of ${fileName}? Imported properties are removed and updated fields get their previous values.`
+    );
+    if (!confirmed) return;
+
+    setRollingBack(true);
+    try {
+      const batch = await ImportBatchService.rollbackBatch(batchId);
+      const summary = ImportBatchService.rollbackSummary(batch);
+
+      toast({
+        title: "Import rolled back",
+        description: summary
+          ? `${summary.fields_restored} fields restored, ${summary.roofs_deleted} properties removed` +
+            (summary.conflicts.length > 0 ? `, ${summary.conflicts.length} kept because they changed since` : '')
+          : undefined,
+      });
+      onRolledBack?.(batch);
+    } catch (error) {
+      console.error('Rollback error:', error);
+      toast({
+        title: "Rollback failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleRollback} disabled={rollingBack}>
+      <Undo2 className="h-4 w-4 mr-1" />
+      {rollingBack ? 'Rolling back...' : 'Roll back'}
+    </Button>
+  );
+}
+
+interface ImportHistoryProps {
+  limit?: number;
+  onRolledBack?: () => void;
+}
+
+export function ImportHistory({ limit = 5, onRolledBack }: ImportHistoryProps) {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+
+  useEffect(() => {
+    ImportBatchService.getRecentBatches(limit).then(setBatches);
+  }, [limit]);
+
+  if (batches.length === 0) return null;
+
+  const handleRolledBack = (updated: ImportBatch) => {
+    setBatches(prev => prev.map(batch => (batch.id === updated.id ? updated : batch)));
+    onRolledBack?.();
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Recent imports</p>
+      <div className="border rounded-md divide-y">
+        {batches.map(batch => (
+          <div key={batch.id} className="flex items-center gap-2 p-2 text-sm">
+            <FileSpreadsheet className="h-4 w-4 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="truncate font-medium">{batch.file_name}</p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(batch.created_at), 'MMM d, yyyy h:mm a')} · {batch.inserted_count} new, {batch.updated_count} updated
+              </p>
+            </div>
+            {batch.status === 'completed' || batch.status === 'failed' ? (
+              <RollbackBatchButton batchId={batch.id} fileName={batch.file_name} onRolledBack={handleRolledBack} />
+            ) : (
+              <Badge variant="outline">{batchStatusLabel(batch.status)}</Badge>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronDown, ChevronRight, AlertTriangle, Building2, UserCheck } from "lucide-react";
+import {
+  ROOF_IMPORT_FIELDS,
+  CLIENT_ASSIGNMENT_FIELD,
+  PM_ASSIGNMENT_FIELD,
+  type ImportPlanPreview,
+  type PlannedImportAction,
+  type PlannedImportRow
+} from "@/lib/roofImportMapping";
+import { MATCH_REASON_LABELS } from "@/lib/propertyMatching";
+
+interface ImportPreviewStepProps {
+  preview: ImportPlanPreview;
+  excludedRows: Set<number>;
+  excludedFields: Record<number, string[]>;
+  onToggleRow: (row: number) => void;
+  onToggleField: (row: number, field: string) => void;
+  onSetRows: (rows: number[], included: boolean) => void;
+}
+
+type Filter = 'all' | PlannedImportAction;
+
+const PAGE_SIZE = 50;
+
+// Inserts can't drop the fields a roof needs
+const REQUIRED_INSERT_FIELDS = ['property_name', 'address'];
+
+const actionStyles: Record<PlannedImportAction, { label: string; className: string }> = {
+  insert: { label: 'New', className: 'bg-green-100 text-green-800 border-green-200' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  unchanged: { label: 'No changes', className: 'bg-gray-100 text-gray-800 border-gray-200' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-800 border-red-200' }
+};
+
+const fieldLabels: Record<string, string> = Object.fromEntries(ROOF_IMPORT_FIELDS.map(f => [f.field, f.label]));
+
+const displayValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+
+const describeMatch = (match: PlannedImportRow['match']) => {
+  if (!match) return 'matched';
+  if (match.reasons.includes('property_code')) return 'matched by property code';
+  const reasons = match.reasons.map(reason => MATCH_REASON_LABELS[reason]).join(', ');
+  return `${Math.round(match.score * 100)}% match${reasons ? ` on ${reasons}` : ''}`;
+};
+
+const isSelectable = (row: PlannedImportRow) => row.action === 'insert' || row.action === 'update';
+
+export function ImportPreviewStep({
+  preview,
+  excludedRows,
+  excludedFields,
+  onToggleRow,
+  onToggleField,
+  onSetRows
+}: ImportPreviewStepProps) {
+  const [filter, setFilter] = useState<Filter>('all');
+  const [page, setPage] = useState(0);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const filtered = useMemo(
+    () => preview.rows.filter(row => filter === 'all' || row.action === filter),
+    [preview.rows, filter]
+  );
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const visible = filtered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const selectableVisible = filtered.filter(isSelectable).map(row => row.row);
+
+  const toggleExpanded = (row: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(row)) next.delete(row);
+      else next.add(row);
+      return next;
+    });
+  };
+
+  const fieldIncluded = (row: number, field: string) => !(excludedFields[row] || []).includes(field);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge className={actionStyles.insert.className}>{preview.summary.insert} new</Badge>
+        <Badge className={actionStyles.update.className}>{preview.summary.update} updates</Badge>
+        <Badge className={actionStyles.unchanged.className}>{preview.summary.unchanged} unchanged</Badge>
+        <Badge className={actionStyles.error.className}>{preview.summary.error} errors</Badge>
+        <Badge variant="outline">{preview.summary.propertyManagerAssignments} PM assignments</Badge>
+        {preview.clientsToCreate.length > 0 && (
+          <Badge variant="outline" title={preview.clientsToCreate.join(', ')}>
+            {preview.clientsToCreate.length} new clients
+          </Badge>
+        )}
+      </div>
+
+      {preview.rejectedMappings.length > 0 && (
+        <p className="text-xs text-red-700">Mappings ignored: {preview.rejectedMappings.join('; ')}</p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Tabs value={filter} onValueChange={(value) => { setFilter(value as Filter); setPage(0); }}>
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            <TabsTrigger value="insert">New</TabsTrigger>
+            <TabsTrigger value="update">Updates</TabsTrigger>
+            <TabsTrigger value="unchanged">Unchanged</TabsTrigger>
+            <TabsTrigger value="error">Errors</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => onSetRows(selectableVisible, true)} disabled={selectableVisible.length === 0}>
+            Select all
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onSetRows(selectableVisible, false)} disabled={selectableVisible.length === 0}>
+            Deselect all
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-md divide-y">
+        {visible.length === 0 && (
+          <p className="p-4 text-sm text-muted-foreground text-center">No rows in this view</p>
+        )}
+        {visible.map(row => {
+          const rowIncluded = isSelectable(row) && !excludedRows.has(row.row);
+          const isOpen = expanded.has(row.row);
+          const name = displayValue(row.values.property_name ?? row.changes.find(c => c.field === 'property_name')?.after);
+
+          return (
+            <div key={row.row} className={rowIncluded || !isSelectable(row) ? '' : 'opacity-60'}>
+              <div className="flex items-center gap-2 p-2 text-sm">
+                <Checkbox
+                  checked={rowIncluded}
+                  disabled={!isSelectable(row)}
+                  onCheckedChange={() => onToggleRow(row.row)}
+                />
+                <button type="button" className="flex items-center gap-1 flex-1 text-left" onClick={() => toggleExpanded(row.row)}>
+                  {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  <span className="font-mono text-xs text-muted-foreground w-12">#{row.row}</span>
+                  <Badge className={actionStyles[row.action].className}>{actionStyles[row.action].label}</Badge>
+                  <span className="truncate">{row.action === 'error' ? row.error : name}</span>
+                  {row.action === 'update' && (
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      {row.changes.length} field{row.changes.length === 1 ? '' : 's'} · {describeMatch(row.match)}
+                    </span>
+                  )}
+                  {row.warnings.length > 0 && <AlertTriangle className="h-4 w-4 text-yellow-600 ml-1" />}
+                </button>
+              </div>
+
+              {isOpen && (
+                <div className="px-10 pb-3 space-y-2 text-xs">
+                  {row.warnings.map((warning, index) => (
+                    <p key={index} className="text-yellow-700">{warning.column}: {warning.error}</p>
+                  ))}
+
+                  {row.client && (
+                    <label className="flex items-center gap-2">
+                      <Checkbox
+                        checked={fieldIncluded(row.row, CLIENT_ASSIGNMENT_FIELD)}
+                        disabled={!rowIncluded}
+                        onCheckedChange={() => onToggleField(row.row, CLIENT_ASSIGNMENT_FIELD)}
+                      />
+                      <Building2 className="h-3 w-3" />
+                      {row.client.create ? 'Create client' : 'Assign client'} <strong>{row.client.name}</strong>
+                      {row.client.before && <span className="text-muted-foreground">(currently {row.client.before})</span>}
+                    </label>
+                  )}
+
+                  {row.propertyManager && (
+                    <label className="flex items-center gap-2">
+                      <Checkbox
+                        checked={fieldIncluded(row.row, PM_ASSIGNMENT_FIELD)}
+                        disabled={!rowIncluded}
+                        onCheckedChange={() => onToggleField(row.row, PM_ASSIGNMENT_FIELD)}
+                      />
+                      <UserCheck className="h-3 w-3" />
+                      Assign property manager <strong>{row.propertyManager.name}</strong>
+                    </label>
+                  )}
+
+                  {row.changes.length > 0 && (
+                    <table className="w-full">
+                      <thead>
+                        <tr className="text-left text-muted-foreground">
+                          <th className="w-6"></th>
+                          <th className="py-1">Field</th>
+                          {row.action === 'update' && <th className="py-1">Current</th>}
+                          <th className="py-1">{row.action === 'update' ? 'New' : 'Value'}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {row.changes.map(change => (
+                          <tr key={change.field}>
+                            <td>
+                              <Checkbox
+                                checked={fieldIncluded(row.row, change.field)}
+                                disabled={!rowIncluded || (row.action === 'insert' && REQUIRED_INSERT_FIELDS.includes(change.field))}
+                                onCheckedChange={() => onToggleField(row.row, change.field)}
+                              />
+                            </td>
+                            <td className="py-1 pr-2">{fieldLabels[change.field] || change.field}</td>
+                            {row.action === 'update' && (
+                              <td className="py-1 pr-2 text-red-700 line-through">{displayValue(change.before)}</td>
+                            )}
+                            <td className="py-1 text-green-700">{displayValue(change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <Button size="sm" variant="outline" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span>Page {page + 1} of {pageCount}</span>
+          <Button size="sm" variant="outline" disabled={page >= pageCount - 1} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
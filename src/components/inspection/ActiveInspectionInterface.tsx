@@ -25,6 +25,11 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { InspectionPersistenceService } from "@/lib/inspectionPersistenceService";
+import { DeficiencyService, TrackedDeficiency, DeficiencyFollowUp } from "@/lib/deficiencyService";
+import { DeficiencyHistoryDialog } from "./DeficiencyHistoryDialog";
+import { offlineManager } from "@/lib/offlineManager";
+import { OfflineSyncService } from "@/lib/offlineSync";
 
 interface Photo {
   id: string;
@@ -44,6 +49,8 @@ interface Deficiency {
   photos: Photo[];
   severity: 'low' | 'medium' | 'high';
   status: 'identified' | 'documented' | 'resolved';
+  trackedDeficiencyId?: string;
+  observationType?: 'new' | 'reobserved' | 'escalated' | 'resolved';
 }
 
 interface CapitalExpense {
@@ -90,11 +97,20 @@ export function ActiveInspectionInterface({
   const [currentTab, setCurrentTab] = useState('deficiencies');
   const [inspectionStarted, setInspectionStarted] = useState(false);
   const [startTime, setStartTime] = useState<Date | null>(null);
+  const [saving, setSaving] = useState(false);
+  // One key for every save attempt and any queued replay, so photos and the
+  // inspection row written by a half-finished save are reused, not duplicated
+  const [syncKey] = useState(() => offlineManager.createItemId());
   
   // Deficiencies
   const [deficiencies, setDeficiencies] = useState<Deficiency[]>([]);
   const [showDeficiencyModal, setShowDeficiencyModal] = useState(false);
   const [editingDeficiency, setEditingDeficiency] = useState<Deficiency | null>(null);
+
+  // Deficiencies tracked from earlier inspections of this roof
+  const [previousDeficiencies, setPreviousDeficiencies] = useState<TrackedDeficiency[]>([]);
+  const [followUps, setFollowUps] = useState<Record<string, DeficiencyFollowUp>>({});
+  const [historyDeficiency, setHistoryDeficiency] = useState<TrackedDeficiency | null>(null);
   
   // Overview photos
   const [overviewPhotos, setOverviewPhotos] = useState<Photo[]>([]);
@@ -102,6 +118,10 @@ export function ActiveInspectionInterface({
   // Notes and findings
   const [inspectionNotes, setInspectionNotes] = useState('');
   const [roofSquareFootageConfirmed, setRoofSquareFootageConfirmed] = useState<boolean | null>(null);
+  const [measuredRoofArea, setMeasuredRoofArea] = useState<number>(0);
+
+  // Server copy of the roof this inspection may edit, including its version stamp
+  const [roofSnapshot, setRoofSnapshot] = useState<{ id: string; roof_area: number | null; version: number } | null>(null);
   
   // Capital expenses
   const [capitalExpenses, setCapitalExpenses] = useState<CapitalExpense[]>([]);
@@ -132,6 +152,74 @@ export function ActiveInspectionInterface({
     }
   }, [inspectionStarted]);
 
+  useEffect(() => {
+    // Resolved ones too, so a deficiency that has come back can be re-observed
+    DeficiencyService.getDeficienciesForRoof(propertyId, true).then(tracked => setPreviousDeficiencies(
+      [...tracked].sort((a, b) => Number(a.status === 'resolved') - Number(b.status === 'resolved'))
+    ));
+
+    supabase
+      .from('roofs')
+      .select('id, roof_area, version')
+      .eq('id', propertyId)
+      .single()
+      .then(({ data }) => setRoofSnapshot(data));
+  }, [propertyId]);
+
+  /**
+   * Roof field edits go through the offline queue so they are version-checked
+   * against office changes before being written.
+   */
+  const queueRoofEdits = async () => {
+    if (roofSquareFootageConfirmed !== false || measuredRoofArea <= 0) return;
+
+    const edit = OfflineSyncService.createRecordEdit(
+      'roofs',
+      roofSnapshot ?? { id: propertyId, version: null },
+      { roof_area: measuredRoofArea },
+      `${propertyName} roof area`
+    );
+    await offlineManager.storeOfflineData('record_edit', edit);
+  };
+
+  const handleFollowUp = (deficiencyId: string, action: DeficiencyFollowUp) => {
+    setFollowUps(prev => {
+      const next = { ...prev };
+      if (next[deficiencyId] === action) {
+        delete next[deficiencyId];
+      } else {
+        next[deficiencyId] = action;
+      }
+      return next;
+    });
+  };
+
+  const buildFollowUpDeficiencies = (): Deficiency[] => {
+    return previousDeficiencies
+      .filter(previous => followUps[previous.id])
+      .map(previous => {
+        const action = followUps[previous.id];
+        const severity = action === 'escalated'
+          ? DeficiencyService.escalateSeverity(previous.severity)
+          : previous.severity as Deficiency['severity'];
+
+        return {
+          id: `followup-${previous.id}`,
+          category: previous.category,
+          location: previous.location,
+          description: previous.description || '',
+          budgetAmount: Number(previous.estimated_cost) || 0,
+          photos: [],
+          severity,
+          status: action === 'resolved' ? 'resolved' : 'documented',
+          trackedDeficiencyId: previous.id,
+          // The server applies the follow-up only if nobody changed the deficiency since
+          trackedVersion: previous.version,
+          observationType: action
+        };
+      });
+  };
+
   const handleCameraCapture = (type: 'overview' | 'deficiency') => {
     const fileInput = type === 'overview' ? overviewFileInputRef : fileInputRef;
     fileInput.current?.click();
@@ -237,7 +325,9 @@ export function ActiveInspectionInterface({
   };
 
   const handleCompleteInspection = async () => {
-    if (deficiencies.length === 0 && overviewPhotos.length === 0) {
+    const followUpDeficiencies = buildFollowUpDeficiencies();
+
+    if (deficiencies.length === 0 && followUpDeficiencies.length === 0 && overviewPhotos.length === 0) {
       toast({
         title: "Incomplete Inspection",
         description: "Please add at least some photos or deficiencies",
@@ -251,7 +341,7 @@ export function ActiveInspectionInterface({
       propertyName,
       startTime,
       endTime: new Date(),
-      deficiencies,
+      deficiencies: [...deficiencies, ...followUpDeficiencies],
       overviewPhotos,
       capitalExpenses,
       inspectionNotes,
@@ -264,15 +354,66 @@ export function ActiveInspectionInterface({
       }
     };
 
-    // Here you would save to database
-    console.log('Completing inspection:', inspectionData);
+    await queueRoofEdits();
+
+    const queueForSync = async (description: string) => {
+      try {
+        const queuedId = await offlineManager.storeOfflineData('inspection', { inspection: inspectionData }, syncKey);
+        toast({ title: "Saved Offline", description });
+        onComplete({ ...inspectionData, queuedId });
+      } catch (error) {
+        console.error('Error queueing inspection offline:', error);
+        toast({
+          title: "Failed to Save Inspection",
+          description: "Your inspection data is still here. Please try again.",
+          variant: "destructive"
+        });
+      }
+    };
+
+    // No signal on the roof: queue the inspection and let the offline manager sync it later
+    if (!offlineManager.getConnectivityStatus().isOnline) {
+      await queueForSync("No connection. The inspection will sync automatically when you're back online.");
+      return;
+    }
+
+    setSaving(true);
+    const result = await InspectionPersistenceService.saveCompletedInspection(inspectionData, { syncKey });
+    setSaving(false);
+
+    // Connection dropped or the server hiccuped: queue it and let the sync retry.
+    // Anything else would fail the same way again, so show it and keep the data here.
+    if (!result.success) {
+      if (result.transient) {
+        await queueForSync(
+          `${result.error || 'The inspection could not be saved'}. It has been queued and will sync automatically.`
+        );
+      } else {
+        toast({
+          title: "Failed to Save Inspection",
+          description: `${result.error || 'The inspection could not be saved'}. Your inspection data is still here.`,
+          variant: "destructive"
+        });
+      }
+      return;
+    }
     
     toast({
       title: "Inspection Complete",
       description: `${deficiencies.length} deficiencies and ${overviewPhotos.length} overview photos documented`,
     });
 
-    onComplete(inspectionData);
+    if (result.staleFollowUpCount) {
+      toast({
+        title: "Some Follow-ups Not Applied",
+        description: `${result.staleFollowUpCount} earlier deficiencies were changed by someone else while you inspected. Your observations were recorded, but their status was left as it is.`
+      });
+    }
+
+    // Push any queued roof edits now that we know we're online
+    offlineManager.syncOfflineData();
+
+    onComplete({ ...inspectionData, inspectionId: result.inspectionId });
   };
 
   const getSeverityColor = (severity: string) => {
@@ -317,6 +458,7 @@ export function ActiveInspectionInterface({
             <Button 
               variant="outline" 
               onClick={onCancel} 
+              disabled={saving}
               size="sm"
               className="text-blue-600 border-white hover:bg-blue-50 text-xs md:text-sm"
             >
@@ -325,10 +467,11 @@ export function ActiveInspectionInterface({
             <Button 
               onClick={handleCompleteInspection} 
               size="sm"
+              disabled={saving}
               className="bg-green-600 hover:bg-green-700 text-xs md:text-sm"
             >
               <CheckCircle className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
-              Complete
+              {saving ? 'Saving...' : 'Complete'}
             </Button>
           </div>
         </div>
@@ -385,6 +528,74 @@ export function ActiveInspectionInterface({
                     </Button>
                   </div>
 
+                  {previousDeficiencies.length > 0 && (
+                    <Card className="p-4 border-orange-200 bg-orange-50">
+                      <h3 className="font-semibold mb-1">Previously Identified</h3>
+                      <p className="text-sm text-gray-600 mb-3">
+                        Deficiencies from earlier inspections. Mark each one you check, including
+                        resolved ones that have come back.
+                      </p>
+                      <div className="space-y-3">
+                        {previousDeficiencies.map((previous) => (
+                          <div key={previous.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 bg-white rounded-md p-3">
+                            <div className="flex-1">
+                              <div className="flex items-center gap-2 mb-1">
+                                <Badge className={getSeverityColor(previous.severity)}>
+                                  {previous.severity.toUpperCase()}
+                                </Badge>
+                                <Badge variant="outline">{previous.category}</Badge>
+                                {previous.observation_count > 1 && (
+                                  <Badge variant="secondary">
+                                    Flagged {previous.observation_count} times
+                                  </Badge>
+                                )}
+                                {previous.status === 'resolved' && (
+                                  <Badge variant="outline" className="text-green-700 border-green-300">
+                                    Resolved {previous.resolved_date || ''}
+                                  </Badge>
+                                )}
+                              </div>
+                              <p className="font-medium">{previous.location}</p>
+                              {previous.first_observed_date && (
+                                <p className="text-xs text-gray-500">First observed {previous.first_observed_date}</p>
+                              )}
+                            </div>
+                            <div className="flex gap-2">
+                              <Button size="sm" variant="ghost" onClick={() => setHistoryDeficiency(previous)}>
+                                <Clock className="h-4 w-4 mr-1" />
+                                History
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant={followUps[previous.id] === 'reobserved' ? 'default' : 'outline'}
+                                onClick={() => handleFollowUp(previous.id, 'reobserved')}
+                              >
+                                {previous.status === 'resolved' ? 'Came Back' : 'Still Present'}
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant={followUps[previous.id] === 'escalated' ? 'destructive' : 'outline'}
+                                onClick={() => handleFollowUp(previous.id, 'escalated')}
+                              >
+                                Worse
+                              </Button>
+                              {previous.status !== 'resolved' && (
+                                <Button
+                                  size="sm"
+                                  variant={followUps[previous.id] === 'resolved' ? 'default' : 'outline'}
+                                  onClick={() => handleFollowUp(previous.id, 'resolved')}
+                                >
+                                  <CheckCircle className="h-4 w-4 mr-1" />
+                                  Resolved
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </Card>
+                  )}
+
                   {deficiencies.length === 0 ? (
                     <Card className="p-8 text-center">
                       <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -516,6 +727,20 @@ export function ActiveInspectionInterface({
                           No
                         </label>
                       </div>
+                      {roofSquareFootageConfirmed === false && (
+                        <div className="mt-3">
+                          <label className="block text-sm font-medium mb-2">
+                            Measured roof area (sq ft)
+                            {roofSnapshot?.roof_area ? ` — on file: ${roofSnapshot.roof_area.toLocaleString()}` : ''}
+                          </label>
+                          <Input
+                            type="number"
+                            value={measuredRoofArea || ''}
+                            onChange={(e) => setMeasuredRoofArea(parseFloat(e.target.value) || 0)}
+                            placeholder="Enter measured square footage"
+                          />
+                        </div>
+                      )}
                     </div>
 
                     <div>
@@ -764,6 +989,12 @@ export function ActiveInspectionInterface({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <DeficiencyHistoryDialog
+        open={!!historyDeficiency}
+        onOpenChange={(open) => !open && setHistoryDeficiency(null)}
+        deficiency={historyDeficiency}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { format, parseISO } from "date-fns";
+import { DeficiencyService, DeficiencyHistory, TrackedDeficiency } from "@/lib/deficiencyService";
+
+interface DeficiencyHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  deficiency: TrackedDeficiency | null;
+}
+
+const OBSERVATION_LABELS: Record<string, string> = {
+  new: 'First observed',
+  reobserved: 'Still present',
+  escalated: 'Worse',
+  resolved: 'Resolved'
+};
+
+export function DeficiencyHistoryDialog({ open, onOpenChange, deficiency }: DeficiencyHistoryDialogProps) {
+  const [history, setHistory] = useState<DeficiencyHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !deficiency) return;
+    setLoading(true);
+    DeficiencyService.getDeficiencyHistory(deficiency.id)
+      .then(setHistory)
+      .finally(() => setLoading(false));
+  }, [open, deficiency]);
+
+  if (!deficiency) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{deficiency.category} at {deficiency.location}</DialogTitle>
+          <DialogDescription>Every inspection that recorded this deficiency</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : !history || history.observations.length === 0 ? (
+          <p className="text-sm text-gray-500">No observations recorded</p>
+        ) : (
+          <div className="space-y-2">
+            {history.observations.map((observation) => (
+              <div key={observation.id} className="border rounded-md p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">
+                    {OBSERVATION_LABELS[observation.observation_type] || observation.observation_type}
+                  </span>
+                  <span className="text-gray-500">
+                    {format(parseISO(observation.inspection?.completed_date || observation.created_at), 'MMM dd, yyyy')}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 mt-1">
+                  <Badge variant="outline">{observation.severity}</Badge>
+                  {!observation.follow_up_applied && (
+                    <Badge variant="secondary">Not applied: changed before this synced</Badge>
+                  )}
+                </div>
+                {observation.description && <p className="text-gray-600 mt-1">{observation.description}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
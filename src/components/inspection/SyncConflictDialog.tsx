@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle } from "lucide-react";
+import type { OfflineData } from "@/lib/offlineManager";
+
+type FieldChoice = 'local' | 'server' | 'custom';
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: OfflineData | null;
+  onResolve: (itemId: string, resolvedValues: Record<string, unknown>) => Promise<void>;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatFieldName = (field: string) =>
+  field.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+export function SyncConflictDialog({ open, onOpenChange, item, onResolve }: SyncConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+  const [customValues, setCustomValues] = useState<Record<string, string>>({});
+  const [resolving, setResolving] = useState(false);
+
+  const conflict = item?.conflict;
+
+  useEffect(() => {
+    if (!conflict) return;
+    // Default to the field edit: it is what the inspector saw on the roof
+    setChoices(Object.fromEntries(conflict.fields.map(f => [f.field, 'local' as FieldChoice])));
+    setCustomValues(Object.fromEntries(conflict.fields.map(f => [f.field, formatValue(f.localValue)])));
+  }, [conflict]);
+
+  if (!item || !conflict) return null;
+
+  const handleResolve = async () => {
+    const resolvedValues: Record<string, unknown> = {};
+
+    for (const field of conflict.fields) {
+      const choice = choices[field.field] || 'local';
+      if (choice === 'server') {
+        resolvedValues[field.field] = field.serverValue;
+      } else if (choice === 'custom') {
+        const raw = customValues[field.field] ?? '';
+        // Keep numeric columns numeric
+        resolvedValues[field.field] = typeof field.localValue === 'number' || typeof field.serverValue === 'number'
+          ? Number(raw)
+          : raw;
+      } else {
+        resolvedValues[field.field] = field.localValue;
+      }
+    }
+
+    setResolving(true);
+    try {
+      await onResolve(item.id, resolvedValues);
+      onOpenChange(false);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Resolve Sync Conflict
+          </DialogTitle>
+          <DialogDescription>
+            {conflict.label} was changed in the office after you started editing it offline.
+            Choose which value to keep for each field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {conflict.fields.map((field) => (
+            <div key={field.field} className="border rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-semibold">{formatFieldName(field.field)}</h4>
+                <Badge variant="outline">Originally: {formatValue(field.baseValue)}</Badge>
+              </div>
+
+              <RadioGroup
+                value={choices[field.field] || 'local'}
+                onValueChange={(value) => setChoices(prev => ({ ...prev, [field.field]: value as FieldChoice }))}
+                className="grid gap-2 md:grid-cols-3"
+              >
+                <Label className="flex items-start gap-2 border rounded-md p-3 cursor-pointer">
+                  <RadioGroupItem value="local" className="mt-1" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Your field edit</p>
+                    <p className="font-medium">{formatValue(field.localValue)}</p>
+                  </div>
+                </Label>
+                <Label className="flex items-start gap-2 border rounded-md p-3 cursor-pointer">
+                  <RadioGroupItem value="server" className="mt-1" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">Office version</p>
+                    <p className="font-medium">{formatValue(field.serverValue)}</p>
+                  </div>
+                </Label>
+                <Label className="flex items-start gap-2 border rounded-md p-3 cursor-pointer">
+                  <RadioGroupItem value="custom" className="mt-1" />
+                  <div className="flex-1">
+                    <p className="text-xs text-muted-foreground">Merged value</p>
+                    <Input
+                      value={customValues[field.field] ?? ''}
+                      onChange={(e) => {
+                        setCustomValues(prev => ({ ...prev, [field.field]: e.target.value }));
+                        setChoices(prev => ({ ...prev, [field.field]: 'custom' }));
+                      }}
+                      className="h-8 mt-1"
+                    />
+                  </div>
+                </Label>
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={resolving}>
+            Decide Later
+          </Button>
+          <Button onClick={handleResolve} disabled={resolving}>
+            {resolving ? 'Saving...' : 'Apply and Sync'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,7 +10,7 @@ import { Progress } from '@/components/ui/progress';
 
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { Search, Calendar, CheckCircle, X, FileDown, Filter, MapPin, AlertCircle, User } from 'lucide-react';
+import { Search, Calendar, CheckCircle, X, FileDown, Filter, MapPin, AlertCircle, User, Clock } from 'lucide-react';
 
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
@@ -439,6 +439,7 @@ export function InspectionSchedulingModal({ open, onOpenChange }: InspectionSche
       const campaignData: CampaignWorkflowData = {
         campaign_id: campaignId,
         campaign_name: `${campaignName} - ${properties[0].property_manager_name}`,
+        client_id: properties[0]?.client_id,
         client_name: properties[0]?.clients?.company_name || 'Unknown Client',
         property_manager_email: pmEmail,
         region: filters.region === 'all' ? properties[0].region : filters.region,
@@ -490,11 +491,16 @@ export function InspectionSchedulingModal({ open, onOpenChange }: InspectionSche
         ...prev,
         isProcessing: false,
         processedCount: 1,
-        results: [...results.successful, ...results.failed]
+        results: [...results.successful, ...results.queued, ...results.failed]
       }));
 
       // Show detailed results toast
-      if (results.failed.length === 0) {
+      if (results.failed.length === 0 && results.queued.length > 0) {
+        toast({
+          title: "Campaigns Queued for Retry",
+          description: `${results.successful.length} campaigns created, ${results.queued.length} queued and will be sent automatically when the workflow engine responds.`,
+        });
+      } else if (results.failed.length === 0) {
         toast({
           title: "Batch Campaign Created Successfully!",
           description: `Successfully created campaigns for ${results.successful.length} property managers with inspector ${selectedInspector.full_name} assigned.`,
@@ -502,7 +508,7 @@ export function InspectionSchedulingModal({ open, onOpenChange }: InspectionSche
       } else if (results.successful.length > 0) {
         toast({
           title: "Partial Success",
-          description: `${results.successful.length} campaigns succeeded, ${results.failed.length} failed. Check details below.`,
+          description: `${results.successful.length} campaigns succeeded, ${results.failed.length} failed${results.queued.length > 0 ? `, ${results.queued.length} queued for retry` : ''}. Check details below.`,
           variant: "default",
         });
       } else {
@@ -1006,10 +1012,12 @@ export function InspectionSchedulingModal({ open, onOpenChange }: InspectionSche
                   <div className="max-h-32 overflow-y-auto space-y-2">
                     {workflowProgress.results.map((result, index) => (
                       <div key={index} className={`text-sm p-2 rounded flex items-center space-x-2 ${
-                        result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                        result.success ? 'bg-green-50 text-green-800' : result.queued ? 'bg-amber-50 text-amber-800' : 'bg-red-50 text-red-800'
                       }`}>
                         {result.success ? (
                           <CheckCircle className="h-4 w-4 text-green-600" />
+                        ) : result.queued ? (
+                          <Clock className="h-4 w-4 text-amber-600" />
                         ) : (
                           <AlertCircle className="h-4 w-4 text-red-600" />
                         )}
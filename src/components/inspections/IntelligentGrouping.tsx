@@ -24,23 +24,52 @@ import {
 import { IntelligentGroupingService, Property, PropertyGroup, GroupingConfiguration } from "@/lib/intelligentGrouping";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { RoutePlanner } from "./RoutePlanner";
+
+type GroupRoute = Awaited<ReturnType<typeof IntelligentGroupingService.optimizeInspectorRoute>>;
+
+const formatDuration = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  return `${Math.floor(rounded / 60)}h ${String(rounded % 60).padStart(2, '0')}m`;
+};
+
+// Visit order for each group, starting from its centre: the geographic centre when the
+// grouping set one, otherwise the average of the properties that have coordinates
+const planGroupRoutes = async (groups: PropertyGroup[]): Promise<Record<string, GroupRoute>> => {
+  const routes: Record<string, GroupRoute> = {};
+
+  for (const group of groups) {
+    const located = group.properties.filter(p => p.latitude != null && p.longitude != null);
+    const startLat = group.metadata.center_lat ??
+      (located.length > 0 ? located.reduce((sum, p) => sum + p.latitude!, 0) / located.length : 0);
+    const startLng = group.metadata.center_lng ??
+      (located.length > 0 ? located.reduce((sum, p) => sum + p.longitude!, 0) / located.length : 0);
+
+    routes[group.id] = await IntelligentGroupingService.optimizeInspectorRoute(group.properties, startLat, startLng);
+  }
+
+  return routes;
+};
 
 interface IntelligentGroupingProps {
   properties: Property[];
   selectedProperties: Property[];
-  onGroupsGenerated: (groups: PropertyGroup[]) => void;
-  onPropertiesSelected: (properties: Property[]) => void;
+  onGroupsGenerated?: (groups: PropertyGroup[]) => void;
+  onPropertiesSelected?: (properties: Property[]) => void;
+  campaignId?: string;
 }
 
 export function IntelligentGrouping({ 
   properties, 
   selectedProperties,
   onGroupsGenerated,
-  onPropertiesSelected
+  onPropertiesSelected,
+  campaignId
 }: IntelligentGroupingProps) {
   const { toast } = useToast();
   const [groupingType, setGroupingType] = useState<'geographic' | 'property_manager' | 'risk_based' | 'seasonal'>('geographic');
   const [generatedGroups, setGeneratedGroups] = useState<PropertyGroup[]>([]);
+  const [groupRoutes, setGroupRoutes] = useState<Record<string, GroupRoute>>({});
   const [configurations, setConfigurations] = useState<GroupingConfiguration[]>([]);
   const [currentConfig, setCurrentConfig] = useState<Partial<GroupingConfiguration>>({
     name: 'Default Configuration',
@@ -121,8 +150,9 @@ export function IntelligentGrouping({
           );
       }
 
+      setGroupRoutes(await planGroupRoutes(groups));
       setGeneratedGroups(groups);
-      onGroupsGenerated(groups);
+      onGroupsGenerated?.(groups);
 
       toast({
         title: "Groups Generated",
@@ -201,8 +231,19 @@ export function IntelligentGrouping({
     }
   };
 
+  const routeTotals = Object.values(groupRoutes).reduce(
+    (totals, route) => ({
+      naiveDistance: totals.naiveDistance + route.metrics.naive_distance,
+      optimizedDistance: totals.optimizedDistance + route.totalDistance,
+      naiveEstimatedTime: totals.naiveEstimatedTime + route.naiveEstimatedTime,
+      estimatedTime: totals.estimatedTime + route.estimatedTime,
+      missingCoordinates: totals.missingCoordinates + route.missingCoordinates.length
+    }),
+    { naiveDistance: 0, optimizedDistance: 0, naiveEstimatedTime: 0, estimatedTime: 0, missingCoordinates: 0 }
+  );
+
   const selectGroupProperties = (group: PropertyGroup) => {
-    onPropertiesSelected(group.properties);
+    onPropertiesSelected?.(group.properties);
     setSelectedGroup(group);
   };
 
@@ -502,12 +543,25 @@ export function IntelligentGrouping({
                             {group.metadata.property_manager}
                           </div>
                         )}
-                        <div>
-                          <span className="font-medium">Optimization:</span><br />
-                          {group.metadata.optimization_score?.toFixed(0) || 0}%
-                        </div>
+                        {groupRoutes[group.id]?.optimizedOrder.length > 0 && (
+                          <div title={`Nearest-neighbour order: ${groupRoutes[group.id].metrics.naive_distance} mi, ${formatDuration(groupRoutes[group.id].naiveEstimatedTime)}`}>
+                            <span className="font-medium">Route:</span><br />
+                            {groupRoutes[group.id].metrics.naive_distance} → {groupRoutes[group.id].totalDistance} mi ·{' '}
+                            {formatDuration(groupRoutes[group.id].estimatedTime)}
+                          </div>
+                        )}
                       </div>
 
+                      {groupRoutes[group.id]?.missingCoordinates.length > 0 && (
+                        <div className="flex items-start space-x-1 mt-2 text-xs text-yellow-800">
+                          <AlertTriangle className="h-3 w-3 mt-0.5" />
+                          <span>
+                            Not routed, no coordinates:{' '}
+                            {groupRoutes[group.id].missingCoordinates.map(p => p.property_name).join(', ')}
+                          </span>
+                        </div>
+                      )}
+
                       <div className="mt-2">
                         <div className="flex flex-wrap gap-1">
                           {group.properties.slice(0, 3).map(property => (
@@ -530,7 +584,7 @@ export function IntelligentGrouping({
 
             {viewMode === 'analytics' && (
               <div className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <Card>
                     <CardContent className="p-4">
                       <div className="text-2xl font-bold">
@@ -542,9 +596,21 @@ export function IntelligentGrouping({
                   <Card>
                     <CardContent className="p-4">
                       <div className="text-2xl font-bold">
-                        {(generatedGroups.reduce((sum, g) => sum + (g.metadata.optimization_score || 0), 0) / generatedGroups.length).toFixed(0)}%
+                        {routeTotals.optimizedDistance.toFixed(1)} mi
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        Route distance, {routeTotals.naiveDistance.toFixed(1)} mi before optimization
+                      </div>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="p-4">
+                      <div className="text-2xl font-bold">
+                        {formatDuration(routeTotals.estimatedTime)}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        Driving and on site, {formatDuration(routeTotals.naiveEstimatedTime)} before optimization
                       </div>
-                      <div className="text-sm text-muted-foreground">Avg Optimization</div>
                     </CardContent>
                   </Card>
                   <Card>
@@ -557,6 +623,15 @@ export function IntelligentGrouping({
                   </Card>
                 </div>
 
+                {routeTotals.missingCoordinates > 0 && (
+                  <div className="flex items-start space-x-2 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2">
+                    <AlertTriangle className="h-4 w-4 mt-0.5" />
+                    <span>
+                      {routeTotals.missingCoordinates} properties have no coordinates and are not in the route figures.
+                    </span>
+                  </div>
+                )}
+
                 <div>
                   <h4 className="font-medium mb-2">Group Distribution</h4>
                   <div className="space-y-2">
@@ -565,7 +640,11 @@ export function IntelligentGrouping({
                         <div className="w-4 h-4 rounded" style={{ backgroundColor: `hsl(${index * 137.5 % 360}, 70%, 50%)` }}></div>
                         <span className="flex-1">{group.name}</span>
                         <span className="text-sm text-muted-foreground">{group.properties.length} properties</span>
-                        <Badge variant="outline">{group.metadata.optimization_score?.toFixed(0) || 0}%</Badge>
+                        {groupRoutes[group.id]?.optimizedOrder.length > 0 && (
+                          <Badge variant="outline">
+                            {groupRoutes[group.id].totalDistance} mi · −{groupRoutes[group.id].metrics.improvement_percent.toFixed(1)}%
+                          </Badge>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -575,6 +654,12 @@ export function IntelligentGrouping({
           </CardContent>
         </Card>
       )}
+
+      {/* Multi-day route planning for the selected group, or the whole selection */}
+      <RoutePlanner
+        properties={selectedGroup?.properties ?? selectedProperties}
+        campaignId={campaignId}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Route, Hotel, Home, Save, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { IntelligentGroupingService, Property, MultiDayRoutePlan } from "@/lib/intelligentGrouping";
+import { useInspectors } from "@/hooks/useInspectors";
+import { useToast } from "@/hooks/use-toast";
+
+interface RoutePlannerProps {
+  properties: Property[];
+  campaignId?: string;
+}
+
+const formatDuration = (minutes: number) => `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+
+export function RoutePlanner({ properties, campaignId }: RoutePlannerProps) {
+  const { toast } = useToast();
+  const { inspectors } = useInspectors();
+  const [inspectorId, setInspectorId] = useState('');
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [homeLat, setHomeLat] = useState('');
+  const [homeLng, setHomeLng] = useState('');
+  const [homeLabel, setHomeLabel] = useState('Home base');
+  const [shiftStart, setShiftStart] = useState('07:30');
+  const [shiftHours, setShiftHours] = useState('10');
+  const [averageSpeed, setAverageSpeed] = useState('45');
+  const [allowOvernight, setAllowOvernight] = useState(true);
+  const [overnightThreshold, setOvernightThreshold] = useState('75');
+  const [plan, setPlan] = useState<MultiDayRoutePlan | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const planRoutes = () => {
+    const lat = parseFloat(homeLat);
+    const lng = parseFloat(homeLng);
+
+    if (isNaN(lat) || isNaN(lng)) {
+      toast({
+        title: "Home Base Required",
+        description: "Enter the inspector's home base latitude and longitude.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (properties.length === 0) {
+      toast({
+        title: "No Properties Selected",
+        description: "Please select properties to plan routes for.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPlan(IntelligentGroupingService.planMultiDayRoutes(properties, {
+      startDate,
+      homeBase: { lat, lng, label: homeLabel || 'Home base' },
+      shiftStart,
+      shiftMinutes: Math.round((parseFloat(shiftHours) || 10) * 60),
+      averageSpeedMph: parseFloat(averageSpeed) || 45,
+      allowOvernight,
+      overnightThresholdMiles: parseFloat(overnightThreshold) || 75
+    }));
+  };
+
+  const savePlan = async () => {
+    if (!plan || !inspectorId) {
+      toast({
+        title: "Inspector Required",
+        description: "Select the inspector these routes are for.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await IntelligentGroupingService.saveRoutePlan(plan, inspectorId, campaignId);
+      toast({
+        title: "Routes Saved",
+        description: `Saved ${plan.days.length} daily routes.`,
+      });
+    } catch (error) {
+      console.error('Error saving route plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save inspector routes.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Route className="h-5 w-5" />
+          <span>Multi-Day Route Planning ({properties.length} properties)</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Inspector</Label>
+            <Select value={inspectorId} onValueChange={setInspectorId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select inspector" />
+              </SelectTrigger>
+              <SelectContent>
+                {inspectors.map(inspector => (
+                  <SelectItem key={inspector.id} value={inspector.id}>
+                    {inspector.full_name || inspector.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="route-start-date">First Day</Label>
+            <Input id="route-start-date" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="route-home-label">Home Base</Label>
+            <Input id="route-home-label" value={homeLabel} onChange={(e) => setHomeLabel(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="route-home-lat">Home Latitude</Label>
+            <Input id="route-home-lat" value={homeLat} onChange={(e) => setHomeLat(e.target.value)} placeholder="30.2672" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="route-home-lng">Home Longitude</Label>
+            <Input id="route-home-lng" value={homeLng} onChange={(e) => setHomeLng(e.target.value)} placeholder="-97.7431" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="route-shift-start">Shift Start</Label>
+            <Input id="route-shift-start" type="time" value={shiftStart} onChange={(e) => setShiftStart(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="route-shift-hours">Shift Length (hours)</Label>
+            <Input id="route-shift-hours" type="number" min="1" max="16" value={shiftHours} onChange={(e) => setShiftHours(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="route-speed">Average Speed (mph)</Label>
+            <Input id="route-speed" type="number" min="10" max="80" value={averageSpeed} onChange={(e) => setAverageSpeed(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="route-overnight-threshold">Hotel Beyond (miles from home)</Label>
+            <Input
+              id="route-overnight-threshold"
+              type="number"
+              min="0"
+              value={overnightThreshold}
+              disabled={!allowOvernight}
+              onChange={(e) => setOvernightThreshold(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Switch id="route-allow-overnight" checked={allowOvernight} onCheckedChange={setAllowOvernight} />
+          <Label htmlFor="route-allow-overnight">Allow overnight hotel stays</Label>
+        </div>
+
+        <div className="flex space-x-2">
+          <Button onClick={planRoutes}>
+            <Route className="h-4 w-4 mr-2" />
+            Plan Routes
+          </Button>
+          <Button variant="outline" onClick={savePlan} disabled={!plan || plan.days.length === 0 || saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Routes'}
+          </Button>
+        </div>
+
+        {plan && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{plan.days.length} days</Badge>
+              <Badge variant="outline">{plan.total_distance.toLocaleString()} miles</Badge>
+              <Badge variant="outline">{plan.overnight_stays} hotel nights</Badge>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-2xl font-bold">{plan.naive_distance.toLocaleString()} mi</div>
+                  <div className="text-sm text-muted-foreground">Nearest-neighbour distance</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-2xl font-bold">{plan.total_distance.toLocaleString()} mi</div>
+                  <div className="text-sm text-muted-foreground">After 2-opt / Or-opt</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-2xl font-bold">{plan.improvement_percent.toFixed(1)}%</div>
+                  <div className="text-sm text-muted-foreground">Distance saved</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {plan.unplanned.length > 0 && (
+              <div className="flex items-start space-x-2 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5" />
+                <span>
+                  {plan.unplanned.length} properties have no coordinates and were not planned:{' '}
+                  {plan.unplanned.map(p => p.property_name).join(', ')}
+                </span>
+              </div>
+            )}
+
+            <ScrollArea className="h-96">
+              <div className="space-y-3">
+                {plan.days.map(day => (
+                  <div key={day.day_number} className="border rounded-lg p-3">
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="font-medium">
+                        Day {day.day_number} · {format(new Date(`${day.route_date}T12:00:00`), 'EEE, MMM dd')}
+                      </h4>
+                      <div className="flex items-center gap-2 text-xs">
+                        <Badge variant="outline">{day.total_distance} mi</Badge>
+                        <Badge variant="outline">{formatDuration(day.shift_minutes)}</Badge>
+                        <Badge
+                          variant="outline"
+                          title={`${day.metrics.naive_distance} mi before optimization · ${day.metrics.two_opt_moves} 2-opt / ${day.metrics.or_opt_moves} Or-opt moves${day.metrics.budget_exhausted ? ' · time budget reached' : ''}`}
+                        >
+                          −{day.optimization_score.toFixed(1)}%
+                        </Badge>
+                        {day.exceeds_shift && <Badge variant="destructive">Over shift</Badge>}
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground mb-2">
+                      From {day.start_location.label} · {formatDuration(day.estimated_travel_time)} driving ·{' '}
+                      {formatDuration(day.inspection_minutes)} on site
+                    </p>
+                    <ol className="space-y-1 text-sm">
+                      {day.stops.map(stop => (
+                        <li key={stop.property.id} className="flex justify-between">
+                          <span>
+                            <span className="font-mono text-xs mr-2">{stop.arrival}</span>
+                            {stop.property.property_name}
+                            <span className="text-muted-foreground"> · {stop.property.city}, {stop.property.state}</span>
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {stop.distance_miles} mi · {stop.inspection_minutes} min
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                    <p className="flex items-center gap-1 text-xs mt-2">
+                      {day.overnight_stay ? <Hotel className="h-3 w-3" /> : <Home className="h-3 w-3" />}
+                      {day.overnight_stay ? day.end_location.label : `Return to ${day.end_location.label}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,322 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MaintenanceTaskService,
+  MAINTENANCE_PRIORITIES,
+  MAINTENANCE_TYPES,
+  MONTH_NAMES,
+  describeRecurrence,
+  type MaintenancePlan,
+  type MaintenancePriority
+} from '@/lib/maintenanceTasks';
+
+interface MaintenancePlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Null to add a new plan
+  plan: MaintenancePlan | null;
+  roofs: { id: string; property_name: string; roof_group: string | null }[];
+  vendors: { id: string; company_name: string }[];
+  onSaved: () => void;
+}
+
+type TargetType = 'roof' | 'group';
+type RecurrenceType = 'months' | 'interval';
+
+const numberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export function MaintenancePlanDialog({ open, onOpenChange, plan, roofs, vendors, onSaved }: MaintenancePlanDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [maintenanceType, setMaintenanceType] = useState('Preventative');
+  const [targetType, setTargetType] = useState<TargetType>('roof');
+  const [roofId, setRoofId] = useState('');
+  const [roofGroup, setRoofGroup] = useState('');
+  const [recurrenceType, setRecurrenceType] = useState<RecurrenceType>('months');
+  const [recurrenceMonths, setRecurrenceMonths] = useState<number[]>([]);
+  const [intervalMonths, setIntervalMonths] = useState('6');
+  const [dayOfMonth, setDayOfMonth] = useState('1');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [horizonDays, setHorizonDays] = useState('90');
+  const [vendorId, setVendorId] = useState('none');
+  const [estimatedCost, setEstimatedCost] = useState('');
+  const [priority, setPriority] = useState<MaintenancePriority>('medium');
+  const [saving, setSaving] = useState(false);
+
+  const roofGroups = [...new Set(roofs.map(roof => roof.roof_group).filter((group): group is string => !!group))].sort();
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(plan?.title || '');
+    setDescription(plan?.description || '');
+    setMaintenanceType(plan?.maintenance_type || 'Preventative');
+    setTargetType(plan?.roof_group ? 'group' : 'roof');
+    setRoofId(plan?.roof_id || '');
+    setRoofGroup(plan?.roof_group || '');
+    setRecurrenceType(plan && plan.recurrence_months.length === 0 ? 'interval' : 'months');
+    setRecurrenceMonths(plan?.recurrence_months || []);
+    setIntervalMonths(plan?.interval_months?.toString() || '6');
+    setDayOfMonth(plan?.day_of_month.toString() || '1');
+    setStartDate(plan?.start_date || format(new Date(), 'yyyy-MM-dd'));
+    setEndDate(plan?.end_date || '');
+    setHorizonDays(plan?.horizon_days.toString() || '90');
+    setVendorId(plan?.vendor_id || 'none');
+    setEstimatedCost(plan?.estimated_cost?.toString() || '');
+    setPriority((plan?.priority as MaintenancePriority) || 'medium');
+  }, [open, plan]);
+
+  const toggleMonth = (month: number, checked: boolean) => {
+    setRecurrenceMonths(current =>
+      checked ? [...current, month].sort((a, b) => a - b) : current.filter(item => item !== month)
+    );
+  };
+
+  const hasTarget = targetType === 'roof' ? !!roofId : !!roofGroup;
+  const hasRecurrence = recurrenceType === 'months' ? recurrenceMonths.length > 0 : Number(intervalMonths) > 0;
+  const canSave = !!title.trim() && hasTarget && hasRecurrence && !!startDate;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setSaving(true);
+    try {
+      await MaintenanceTaskService.savePlan({
+        id: plan?.id,
+        title: title.trim(),
+        description: description.trim() || null,
+        maintenance_type: maintenanceType,
+        roof_id: targetType === 'roof' ? roofId : null,
+        roof_group: targetType === 'group' ? roofGroup : null,
+        recurrence_months: recurrenceType === 'months' ? recurrenceMonths : [],
+        interval_months: recurrenceType === 'interval' ? Number(intervalMonths) : null,
+        day_of_month: Number(dayOfMonth) || 1,
+        start_date: startDate,
+        end_date: endDate || null,
+        horizon_days: Number(horizonDays) || 90,
+        vendor_id: vendorId === 'none' ? null : vendorId,
+        estimated_cost: numberOrNull(estimatedCost),
+        priority
+      });
+      await MaintenanceTaskService.generateOccurrences();
+      toast({ title: plan ? "Plan updated" : "Plan created" });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to save plan',
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{plan ? 'Edit Maintenance Plan' : 'New Maintenance Plan'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label>Title</Label>
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Semi-annual drain cleaning" />
+            </div>
+            <div>
+              <Label>Maintenance Type</Label>
+              <Select value={maintenanceType} onValueChange={setMaintenanceType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MAINTENANCE_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(value) => setPriority(value as MaintenancePriority)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MAINTENANCE_PRIORITIES.map(item => (
+                    <SelectItem key={item} value={item} className="capitalize">{item}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Applies To</Label>
+              <Select value={targetType} onValueChange={(value) => setTargetType(value as TargetType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="roof">A single roof</SelectItem>
+                  <SelectItem value="group" disabled={roofGroups.length === 0}>Every roof in a group</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{targetType === 'roof' ? 'Property' : 'Roof Group'}</Label>
+              {targetType === 'roof' ? (
+                <Select value={roofId} onValueChange={setRoofId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select property" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roofs.map(roof => (
+                      <SelectItem key={roof.id} value={roof.id}>{roof.property_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Select value={roofGroup} onValueChange={setRoofGroup}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select group" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roofGroups.map(group => (
+                      <SelectItem key={group} value={group}>
+                        {group} ({roofs.filter(roof => roof.roof_group === group).length} roofs)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Recurrence</Label>
+              <Select value={recurrenceType} onValueChange={(value) => setRecurrenceType(value as RecurrenceType)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="months">In set months</SelectItem>
+                  <SelectItem value="interval">Every N months</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {recurrenceType === 'months' ? (
+              <div className="grid grid-cols-4 gap-2">
+                {MONTH_NAMES.map((name, index) => (
+                  <label key={name} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={recurrenceMonths.includes(index + 1)}
+                      onCheckedChange={(checked) => toggleMonth(index + 1, !!checked)}
+                    />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm">
+                Every
+                <Input
+                  type="number"
+                  min="1"
+                  className="w-20"
+                  value={intervalMonths}
+                  onChange={(e) => setIntervalMonths(e.target.value)}
+                />
+                months from the start date
+              </div>
+            )}
+            {hasRecurrence && (
+              <p className="text-xs text-muted-foreground">
+                {describeRecurrence({
+                  recurrence_months: recurrenceType === 'months' ? recurrenceMonths : [],
+                  interval_months: Number(intervalMonths),
+                  day_of_month: Number(dayOfMonth) || 1
+                })}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <Label>Day of Month</Label>
+              <Input
+                type="number"
+                min="1"
+                max="28"
+                value={dayOfMonth}
+                onChange={(e) => setDayOfMonth(e.target.value)}
+                disabled={recurrenceType === 'interval'}
+              />
+            </div>
+            <div>
+              <Label>Start Date</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>End Date</Label>
+              <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>Schedule Ahead (days)</Label>
+              <Input type="number" min="1" value={horizonDays} onChange={(e) => setHorizonDays(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Contractor</Label>
+              <Select value={vendorId} onValueChange={setVendorId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unassigned</SelectItem>
+                  {vendors.map(vendor => (
+                    <SelectItem key={vendor.id} value={vendor.id}>{vendor.company_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Estimated Cost</Label>
+              <Input type="number" min="0" value={estimatedCost} onChange={(e) => setEstimatedCost(e.target.value)} />
+            </div>
+          </div>
+
+          <div>
+            <Label>Description</Label>
+            <Textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+          </div>
+
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={handleSave} disabled={saving || !canSave}>
+              {saving ? 'Saving...' : 'Save Plan'}
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
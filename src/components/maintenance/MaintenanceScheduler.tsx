@@ -8,10 +8,20 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Calendar as CalendarIcon, Clock, MapPin, User, AlertTriangle, CheckCircle, TrendingUp } from 'lucide-react';
+import { Calendar as CalendarIcon, Clock, MapPin, User, AlertTriangle, CheckCircle, TrendingUp, Plus, Repeat, Wrench } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { format, addDays, addMonths, parseISO, isBefore, isAfter } from 'date-fns';
+import {
+  MaintenanceTaskService,
+  MAINTENANCE_TASK_STATUS_LABELS,
+  describeRecurrence,
+  type MaintenancePlan,
+  type MaintenanceTask,
+  type MaintenanceTaskStatus
+} from '@/lib/maintenanceTasks';
+import { MaintenancePlanDialog } from './MaintenancePlanDialog';
+import { MaintenanceTaskCompletionDialog } from './MaintenanceTaskCompletionDialog';
 
 interface MaintenanceRecommendation {
   id: string;
@@ -27,33 +37,32 @@ interface MaintenanceRecommendation {
   riskScore: number;
 }
 
-interface MaintenanceTask {
+interface SchedulerRoof {
   id: string;
-  propertyId: string;
-  title: string;
-  description: string;
-  scheduledDate: Date;
-  completedDate?: Date;
-  assignedContractor?: string;
-  estimatedCost: number;
-  actualCost?: number;
-  status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
-  priority: 'high' | 'medium' | 'low';
-  maintenanceType: string;
+  property_name: string;
+  roof_group: string | null;
 }
 
 export function MaintenanceScheduler() {
   const [recommendations, setRecommendations] = useState<MaintenanceRecommendation[]>([]);
   const [tasks, setTasks] = useState<MaintenanceTask[]>([]);
+  const [plans, setPlans] = useState<MaintenancePlan[]>([]);
+  const [roofs, setRoofs] = useState<SchedulerRoof[]>([]);
+  const [vendors, setVendors] = useState<{ id: string; company_name: string }[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [isScheduleDialogOpen, setIsScheduleDialogOpen] = useState(false);
   const [selectedRecommendation, setSelectedRecommendation] = useState<MaintenanceRecommendation | null>(null);
+  const [scheduleVendorId, setScheduleVendorId] = useState('none');
+  const [isPlanDialogOpen, setIsPlanDialogOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<MaintenancePlan | null>(null);
+  const [completingTask, setCompletingTask] = useState<MaintenanceTask | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
   useEffect(() => {
     generateMaintenanceRecommendations();
     fetchScheduledTasks();
+    fetchVendors();
   }, []);
 
   const generateMaintenanceRecommendations = async () => {
@@ -66,6 +75,8 @@ export function MaintenanceScheduler() {
 
       if (error) throw error;
 
+      setRoofs(roofs || []);
+
       const recommendations: MaintenanceRecommendation[] = [];
       const currentDate = new Date();
 
@@ -169,36 +180,33 @@ export function MaintenanceScheduler() {
   };
 
   const fetchScheduledTasks = async () => {
-    // This would fetch from a maintenance_tasks table in a real implementation
-    // For now, we'll use mock data
-    const mockTasks: MaintenanceTask[] = [
-      {
-        id: '1',
-        propertyId: 'prop1',
-        title: 'Roof Inspection - Central Office',
-        description: 'Annual roof inspection and assessment',
-        scheduledDate: addDays(new Date(), 3),
-        estimatedCost: 500,
-        status: 'scheduled',
-        priority: 'high',
-        maintenanceType: 'Inspection',
-        assignedContractor: 'ABC Roofing'
-      },
-      {
-        id: '2',
-        propertyId: 'prop2',
-        title: 'Gutter Cleaning - Warehouse A',
-        description: 'Seasonal gutter cleaning and debris removal',
-        scheduledDate: addDays(new Date(), 7),
-        estimatedCost: 200,
-        status: 'scheduled',
-        priority: 'medium',
-        maintenanceType: 'Preventative',
-        assignedContractor: 'Gutter Pros'
-      }
-    ];
-    
-    setTasks(mockTasks);
+    try {
+      await MaintenanceTaskService.generateOccurrences();
+    } catch (error) {
+      console.error('Error generating maintenance occurrences:', error);
+    }
+
+    const [openTasks, maintenancePlans] = await Promise.all([
+      MaintenanceTaskService.getTasks({ statuses: ['scheduled', 'in_progress'] }),
+      MaintenanceTaskService.getPlans()
+    ]);
+    setTasks(openTasks);
+    setPlans(maintenancePlans);
+  };
+
+  const fetchVendors = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('vendors')
+        .select('id, company_name')
+        .eq('status', 'active')
+        .order('company_name');
+
+      if (error) throw error;
+      setVendors(data || []);
+    } catch (error) {
+      console.error('Error fetching vendors:', error);
+    }
   };
 
   const getSeason = (date: Date): 'spring' | 'summer' | 'fall' | 'winter' => {
@@ -211,6 +219,7 @@ export function MaintenanceScheduler() {
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
+      case 'urgent':
       case 'high': return 'destructive';
       case 'medium': return 'default';
       case 'low': return 'secondary';
@@ -224,16 +233,68 @@ export function MaintenanceScheduler() {
     return 'text-green-600';
   };
 
-  const scheduleMaintenanceTask = async (recommendation: MaintenanceRecommendation, scheduledDate: Date, contractor?: string) => {
-    // In a real implementation, this would create a work order and update the database
-    toast({
-      title: "Maintenance Scheduled",
-      description: `${recommendation.maintenanceType} scheduled for ${format(scheduledDate, 'MMM dd, yyyy')}`,
-    });
-    setIsScheduleDialogOpen(false);
-    setSelectedRecommendation(null);
+  const scheduleMaintenanceTask = async (recommendation: MaintenanceRecommendation, scheduledDate: Date) => {
+    try {
+      await MaintenanceTaskService.createTask({
+        roofId: recommendation.propertyId,
+        title: `${recommendation.maintenanceType} - ${recommendation.propertyName}`,
+        description: recommendation.reason,
+        maintenanceType: recommendation.maintenanceType,
+        scheduledDate,
+        priority: recommendation.priority,
+        vendorId: scheduleVendorId === 'none' ? null : scheduleVendorId,
+        estimatedCost: recommendation.estimatedCost
+      });
+      toast({
+        title: "Maintenance Scheduled",
+        description: `${recommendation.maintenanceType} scheduled for ${format(scheduledDate, 'MMM dd, yyyy')}`,
+      });
+      setIsScheduleDialogOpen(false);
+      setSelectedRecommendation(null);
+      setScheduleVendorId('none');
+      fetchScheduledTasks();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to schedule maintenance',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const runTaskAction = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast({ title: success });
+      fetchScheduledTasks();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update task',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDispatch = (task: MaintenanceTask) => {
+    if (!task.vendor_id && !window.confirm('No contractor is assigned. Create the work order anyway?')) return;
+    runTaskAction(() => MaintenanceTaskService.convertToWorkOrder(task.id), 'Work order created');
+  };
+
+  const handleCancelTask = (task: MaintenanceTask) => {
+    if (!window.confirm(`Cancel "${task.title}" on ${format(parseISO(task.scheduled_date), 'MMM dd, yyyy')}?`)) return;
+    runTaskAction(() => MaintenanceTaskService.cancelTask(task.id), 'Task cancelled');
+  };
+
+  const planTarget = (plan: MaintenancePlan) => {
+    if (plan.roof_group) {
+      return `${plan.roof_group} (${roofs.filter(roof => roof.roof_group === plan.roof_group).length} roofs)`;
+    }
+    return roofs.find(roof => roof.id === plan.roof_id)?.property_name || 'Unknown property';
   };
 
+  const taskDates = tasks.map(task => parseISO(task.scheduled_date));
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -331,14 +392,15 @@ export function MaintenanceScheduler() {
                         </div>
                         <div>
                           <Label>Assigned Contractor</Label>
-                          <Select>
+                          <Select value={scheduleVendorId} onValueChange={setScheduleVendorId}>
                             <SelectTrigger>
                               <SelectValue placeholder="Select contractor" />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="abc-roofing">ABC Roofing</SelectItem>
-                              <SelectItem value="roof-masters">Roof Masters</SelectItem>
-                              <SelectItem value="commercial-maintenance">Commercial Maintenance Inc</SelectItem>
+                              <SelectItem value="none">Unassigned</SelectItem>
+                              {vendors.map(vendor => (
+                                <SelectItem key={vendor.id} value={vendor.id}>{vendor.company_name}</SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </div>
@@ -378,6 +440,9 @@ export function MaintenanceScheduler() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
+              {tasks.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">No upcoming maintenance</p>
+              )}
               {tasks.map((task) => (
                 <div key={task.id} className="p-3 border rounded-lg">
                   <div className="flex items-center gap-2 mb-1">
@@ -386,17 +451,123 @@ export function MaintenanceScheduler() {
                       {task.priority}
                     </Badge>
                   </div>
-                  <p className="text-xs text-muted-foreground mb-2">{task.description}</p>
+                  <p className="text-xs text-muted-foreground mb-2">{task.roof?.property_name}</p>
                   <div className="flex items-center gap-2 text-xs text-muted-foreground">
                     <CalendarIcon className="h-3 w-3" />
-                    {format(task.scheduledDate, 'MMM dd')}
+                    {format(parseISO(task.scheduled_date), 'MMM dd')}
+                    {task.plan_id && <Repeat className="h-3 w-3" />}
+                    {task.estimated_cost !== null && <span>${task.estimated_cost}</span>}
+                    <Badge variant="outline" className="ml-auto">
+                      {MAINTENANCE_TASK_STATUS_LABELS[task.status as MaintenanceTaskStatus]}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground mt-2">
+                    <User className="h-3 w-3" />
+                    <Select
+                      value={task.vendor_id || 'none'}
+                      onValueChange={(value) => runTaskAction(
+                        () => MaintenanceTaskService.assignVendor(task.id, value === 'none' ? null : value),
+                        'Contractor assigned'
+                      )}
+                      disabled={!!task.work_order_id}
+                    >
+                      <SelectTrigger className="h-7 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Unassigned</SelectItem>
+                        {vendors.map(vendor => (
+                          <SelectItem key={vendor.id} value={vendor.id}>{vendor.company_name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex gap-1 mt-2">
+                    {task.work_order_id ? (
+                      <Badge variant="secondary" className="flex items-center gap-1">
+                        <Wrench className="h-3 w-3" />
+                        Work order open
+                      </Badge>
+                    ) : (
+                      <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => handleDispatch(task)}>
+                        <Wrench className="h-3 w-3 mr-1" />
+                        Dispatch
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setCompletingTask(task)}>
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Complete
+                    </Button>
+                    {!task.work_order_id && (
+                      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => handleCancelTask(task)}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Repeat className="h-5 w-5" />
+                  Recurring Plans
+                </CardTitle>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setEditingPlan(null);
+                    setIsPlanDialogOpen(true);
+                  }}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  New Plan
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {plans.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">No recurring maintenance plans</p>
+              )}
+              {plans.map((plan) => (
+                <div key={plan.id} className={`p-3 border rounded-lg ${plan.is_active ? '' : 'opacity-60'}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <h5 className="font-medium text-sm">{plan.title}</h5>
+                    {!plan.is_active && <Badge variant="secondary">Paused</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{describeRecurrence(plan)}</p>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
+                    <MapPin className="h-3 w-3" />
+                    {planTarget(plan)}
+                  </div>
+                  <div className="flex gap-1 mt-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-xs"
+                      onClick={() => {
+                        setEditingPlan(plan);
+                        setIsPlanDialogOpen(true);
+                      }}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-xs"
+                      onClick={() => runTaskAction(
+                        () => MaintenanceTaskService.setPlanActive(plan.id, !plan.is_active),
+                        plan.is_active ? 'Plan paused' : 'Plan resumed'
+                      )}
+                    >
+                      {plan.is_active ? 'Pause' : 'Resume'}
+                    </Button>
                   </div>
-                  {task.assignedContractor && (
-                    <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
-                      <User className="h-3 w-3" />
-                      {task.assignedContractor}
-                    </div>
-                  )}
                 </div>
               ))}
             </CardContent>
@@ -411,12 +582,29 @@ export function MaintenanceScheduler() {
                 mode="single"
                 selected={selectedDate}
                 onSelect={(date) => date && setSelectedDate(date)}
+                modifiers={{ scheduled: taskDates }}
+                modifiersClassNames={{ scheduled: 'font-bold text-primary underline' }}
                 className="rounded-md border"
               />
             </CardContent>
           </Card>
         </div>
       </div>
+
+      <MaintenancePlanDialog
+        open={isPlanDialogOpen}
+        onOpenChange={setIsPlanDialogOpen}
+        plan={editingPlan}
+        roofs={roofs}
+        vendors={vendors}
+        onSaved={fetchScheduledTasks}
+      />
+
+      <MaintenanceTaskCompletionDialog
+        task={completingTask}
+        onOpenChange={(open) => !open && setCompletingTask(null)}
+        onCompleted={fetchScheduledTasks}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { format, parseISO } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { MaintenanceTaskService, type MaintenanceTask } from '@/lib/maintenanceTasks';
+
+interface MaintenanceTaskCompletionDialogProps {
+  task: MaintenanceTask | null;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: () => void;
+}
+
+export function MaintenanceTaskCompletionDialog({ task, onOpenChange, onCompleted }: MaintenanceTaskCompletionDialogProps) {
+  const { toast } = useToast();
+  const [completedDate, setCompletedDate] = useState('');
+  const [actualCost, setActualCost] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setCompletedDate(format(new Date(), 'yyyy-MM-dd'));
+    setActualCost(task?.estimated_cost?.toString() || '');
+    setNotes('');
+  }, [task]);
+
+  if (!task) return null;
+
+  const handleComplete = async () => {
+    if (!completedDate) return;
+
+    setSaving(true);
+    try {
+      await MaintenanceTaskService.completeTask(task.id, {
+        completedDate: parseISO(completedDate),
+        actualCost: actualCost.trim() === '' ? null : Number(actualCost),
+        notes
+      });
+      toast({ title: "Task completed" });
+      onCompleted();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to complete task',
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Complete Maintenance Task</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="text-sm">
+            <p className="font-medium">{task.title}</p>
+            <p className="text-muted-foreground">{task.roof?.property_name}</p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Completed On</Label>
+              <Input type="date" value={completedDate} onChange={(e) => setCompletedDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>Actual Cost</Label>
+              <Input type="number" min="0" value={actualCost} onChange={(e) => setActualCost(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} placeholder="Work performed, findings..." />
+          </div>
+
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={handleComplete} disabled={saving || !completedDate}>
+              {saving ? 'Saving...' : 'Mark Completed'}
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
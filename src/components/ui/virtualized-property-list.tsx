@@ -13,6 +13,7 @@ interface Property {
   squareFootage: number;
   lastInspectionDate?: string;
   criticalIssues: number;
+  recurringIssues?: number;
   status: 'critical' | 'overdue' | 'attention' | 'good' | 'excellent';
   priority?: 'critical' | 'high' | 'medium' | 'low' | 'info';
   urgencyScore?: number;
@@ -54,7 +55,7 @@ export const VirtualizedPropertyList: React.FC<VirtualizedPropertyListProps> = (
         lastInspectionDays: property.lastInspectionDate ?
           Math.floor((Date.now() - new Date(property.lastInspectionDate).getTime()) / (1000 * 60 * 60 * 24)) :
           365,
-        recurrenceCount: property.criticalIssues,
+        recurrenceCount: property.recurringIssues ?? property.criticalIssues,
         criticalLocation: property.criticalIssues > 2,
         weatherExposure: 5, // Default value
         accessibilityDifficulty: 4 // Default value
@@ -0,0 +1,346 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, FileText, Image, Trash2, Upload } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+import type { TrackedDeficiency } from '@/lib/deficiencyService';
+import {
+  WarrantyClaimService,
+  CLAIM_STATUS_TRANSITIONS,
+  CLAIM_DOCUMENT_TYPE_LABELS,
+  claimStatusLabel,
+  type ClaimDocumentType,
+  type WarrantyClaim,
+  type WarrantyClaimDocument,
+  type WarrantyClaimEvent,
+  type WarrantyClaimStatus
+} from '@/lib/warrantyClaims';
+import { WarrantyRegistryService } from '@/lib/warrantyRegistry';
+import { WarrantyComplianceService } from '@/lib/warrantyCompliance';
+
+type RoofFile = Database['public']['Tables']['roof_files']['Row'];
+
+interface WarrantyClaimDetailDialogProps {
+  claim: WarrantyClaim | null;
+  propertyName?: string;
+  onOpenChange: (open: boolean) => void;
+  onUpdated: () => void;
+}
+
+const STATUS_ACTION_LABELS: Record<WarrantyClaimStatus, string> = {
+  submitted: 'Submit',
+  under_review: 'Start Review',
+  approved: 'Approve',
+  denied: 'Deny',
+  completed: 'Mark Completed'
+};
+
+export function WarrantyClaimDetailDialog({ claim, propertyName, onOpenChange, onUpdated }: WarrantyClaimDetailDialogProps) {
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<WarrantyClaimDocument[]>([]);
+  const [events, setEvents] = useState<WarrantyClaimEvent[]>([]);
+  const [deficiencies, setDeficiencies] = useState<TrackedDeficiency[]>([]);
+  const [photos, setPhotos] = useState<RoofFile[]>([]);
+  const [nextStatus, setNextStatus] = useState<WarrantyClaimStatus | null>(null);
+  const [approvedAmount, setApprovedAmount] = useState('');
+  const [notes, setNotes] = useState('');
+  const [warrantorReference, setWarrantorReference] = useState('');
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [documentType, setDocumentType] = useState<ClaimDocumentType>('correspondence');
+  const [saving, setSaving] = useState(false);
+
+  const loadDetails = useCallback(async () => {
+    if (!claim) return;
+    const [claimDocuments, claimEvents, evidence] = await Promise.all([
+      WarrantyClaimService.getDocuments(claim.id),
+      WarrantyClaimService.getEvents(claim.id),
+      WarrantyClaimService.getEvidenceOptions(claim.roof_id)
+    ]);
+    setDocuments(claimDocuments);
+    setEvents(claimEvents);
+    setDeficiencies(evidence.deficiencies.filter(deficiency => claim.deficiency_ids.includes(deficiency.id)));
+    setPhotos(evidence.photos.filter(photo => claim.photo_file_ids.includes(photo.id)));
+  }, [claim]);
+
+  useEffect(() => {
+    setNextStatus(null);
+    setApprovedAmount(claim ? String(claim.claim_amount) : '');
+    setNotes('');
+    setWarrantorReference(claim?.warrantor_reference || '');
+    loadDetails();
+  }, [claim, loadDetails]);
+
+  if (!claim) return null;
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setSaving(true);
+    try {
+      await action();
+      toast({ title: success });
+      onUpdated();
+      loadDetails();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update claim',
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdvance = () => {
+    if (!nextStatus) return;
+    run(
+      () => WarrantyClaimService.advance(claim.id, nextStatus, {
+        approvedAmount: nextStatus === 'approved' ? parseFloat(approvedAmount) : undefined,
+        notes: notes || undefined
+      }),
+      `Claim ${claimStatusLabel(nextStatus).toLowerCase()}`
+    );
+    setNextStatus(null);
+    setNotes('');
+  };
+
+  const handleUpload = () => {
+    if (!documentFile) return;
+    run(() => WarrantyClaimService.attachDocument(claim, documentFile, documentType), 'Document attached');
+    setDocumentFile(null);
+  };
+
+  const handleCompliancePacket = async () => {
+    if (!claim.warranty_id) return;
+    const warranty = await WarrantyRegistryService.getWarranty(claim.warranty_id);
+    if (!warranty) {
+      toast({ title: "Error", description: 'Warranty not found', variant: "destructive" });
+      return;
+    }
+    await WarrantyComplianceService.downloadPacket(warranty, propertyName || 'Property');
+  };
+
+  const handleDetach = (document: WarrantyClaimDocument) => {
+    if (!window.confirm(`Remove ${document.file?.file_name || 'this document'} from the claim?`)) return;
+    run(() => WarrantyClaimService.detachDocument(document.id), 'Document removed');
+  };
+
+  return (
+    <Dialog open={!!claim} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            {claim.claim_number}
+            <Badge variant="outline">{claimStatusLabel(claim.status)}</Badge>
+            {claim.warranty_id && (
+              <Button size="sm" variant="outline" className="ml-auto mr-6" onClick={handleCompliancePacket}>
+                <Download className="h-4 w-4 mr-1" />
+                Compliance Packet
+              </Button>
+            )}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <span className="text-muted-foreground">Property</span>
+              <p className="font-medium">{propertyName || 'Unknown property'}</p>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Warranty</span>
+              <p className="font-medium">
+                {claim.warranty_type === 'manufacturer' ? 'Manufacturer' : 'Installer'}: {claim.warrantor || 'Unknown'}
+              </p>
+              {claim.warranty_number && (
+                <p className="font-mono text-xs">{claim.warranty_number}</p>
+              )}
+            </div>
+            <div>
+              <span className="text-muted-foreground">Issue Type</span>
+              <p className="font-medium">{claim.issue_type}</p>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Claim Amount</span>
+              <p className="font-medium">${claim.claim_amount.toLocaleString()}</p>
+              {claim.approved_amount !== null && claim.decision === 'approved' && (
+                <p className="text-green-600">Approved: ${claim.approved_amount.toLocaleString()}</p>
+              )}
+            </div>
+          </div>
+
+          {claim.description && <p className="text-sm">{claim.description}</p>}
+          {claim.denial_reason && (
+            <p className="text-sm text-red-600">Denied: {claim.denial_reason}</p>
+          )}
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label>Warrantor Reference</Label>
+              <Input
+                value={warrantorReference}
+                onChange={(e) => setWarrantorReference(e.target.value)}
+                placeholder="Claim number assigned by the warrantor"
+              />
+            </div>
+            <Button
+              variant="outline"
+              disabled={saving || warrantorReference === (claim.warrantor_reference || '')}
+              onClick={() => run(
+                () => WarrantyClaimService.updateClaim(claim.id, { warrantor_reference: warrantorReference || null }),
+                'Reference saved'
+              )}
+            >
+              Save
+            </Button>
+          </div>
+
+          {CLAIM_STATUS_TRANSITIONS[claim.status as WarrantyClaimStatus].length > 0 && (
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="flex gap-2">
+                {CLAIM_STATUS_TRANSITIONS[claim.status as WarrantyClaimStatus].map(status => (
+                  <Button
+                    key={status}
+                    size="sm"
+                    variant={nextStatus === status ? 'default' : 'outline'}
+                    onClick={() => setNextStatus(status)}
+                  >
+                    {STATUS_ACTION_LABELS[status]}
+                  </Button>
+                ))}
+              </div>
+              {nextStatus && (
+                <div className="space-y-2">
+                  {nextStatus === 'approved' && (
+                    <div>
+                      <Label>Approved Amount</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={approvedAmount}
+                        onChange={(e) => setApprovedAmount(e.target.value)}
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <Label>{nextStatus === 'denied' ? 'Denial Reason' : 'Notes'}</Label>
+                    <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} />
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={handleAdvance}
+                    disabled={saving || (nextStatus === 'approved' && approvedAmount === '')}
+                  >
+                    Confirm {STATUS_ACTION_LABELS[nextStatus]}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          <Separator />
+
+          <div className="space-y-2">
+            <h4 className="font-medium">Evidence</h4>
+            {deficiencies.length === 0 && photos.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No deficiencies or photos cited</p>
+            ) : (
+              <div className="space-y-1 text-sm">
+                {deficiencies.map(deficiency => (
+                  <p key={deficiency.id}>
+                    {deficiency.category} – {deficiency.location}
+                    <span className="text-muted-foreground"> ({deficiency.severity}, {deficiency.status})</span>
+                  </p>
+                ))}
+                {photos.map(photo => (
+                  <a
+                    key={photo.id}
+                    href={photo.file_url || undefined}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex items-center gap-1 text-blue-600 hover:underline"
+                  >
+                    <Image className="h-3 w-3" />
+                    {photo.file_name}
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <h4 className="font-medium">Documents</h4>
+            {documents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No documents attached</p>
+            ) : (
+              <div className="space-y-1">
+                {documents.map(document => (
+                  <div key={document.id} className="flex items-center justify-between text-sm">
+                    <a
+                      href={document.file?.file_url || undefined}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center gap-2 text-blue-600 hover:underline"
+                    >
+                      <FileText className="h-3 w-3" />
+                      {document.file?.file_name}
+                    </a>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">
+                        {CLAIM_DOCUMENT_TYPE_LABELS[document.document_type as ClaimDocumentType] || document.document_type}
+                      </Badge>
+                      <Button size="sm" variant="ghost" onClick={() => handleDetach(document)} disabled={saving}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Input type="file" onChange={(e) => setDocumentFile(e.target.files?.[0] || null)} />
+              <Select value={documentType} onValueChange={(value) => setDocumentType(value as ClaimDocumentType)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CLAIM_DOCUMENT_TYPE_LABELS).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" onClick={handleUpload} disabled={saving || !documentFile}>
+                <Upload className="h-3 w-3 mr-1" />
+                Attach
+              </Button>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <h4 className="font-medium">History</h4>
+            {events.map(event => (
+              <div key={event.id} className="text-sm">
+                <span className="text-muted-foreground">{format(parseISO(event.created_at), 'MMM dd, yyyy')}</span>
+                {' '}
+                <span className="font-medium">{claimStatusLabel(event.to_status)}</span>
+                {event.amount !== null && event.to_status === 'approved' && ` – $${event.amount.toLocaleString()}`}
+                {event.notes && <p className="text-muted-foreground">{event.notes}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { Database } from '@/integrations/supabase/types';
+import type { TrackedDeficiency } from '@/lib/deficiencyService';
+import { WarrantyClaimService, CLAIM_ISSUE_TYPES } from '@/lib/warrantyClaims';
+import { isWarrantyInForce, warrantyLabel, type Warranty } from '@/lib/warrantyRegistry';
+
+type RoofFile = Database['public']['Tables']['roof_files']['Row'];
+
+interface WarrantyClaimDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roofs: { id: string; property_name: string }[];
+  warranties: Warranty[];
+  onSubmitted: () => void;
+}
+
+export function WarrantyClaimDialog({ open, onOpenChange, roofs, warranties, onSubmitted }: WarrantyClaimDialogProps) {
+  const { toast } = useToast();
+  const [roofId, setRoofId] = useState('');
+  const [warrantyId, setWarrantyId] = useState('');
+  const [issueType, setIssueType] = useState('');
+  const [claimAmount, setClaimAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [deficiencies, setDeficiencies] = useState<TrackedDeficiency[]>([]);
+  const [photos, setPhotos] = useState<RoofFile[]>([]);
+  const [deficiencyIds, setDeficiencyIds] = useState<string[]>([]);
+  const [photoFileIds, setPhotoFileIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const claimable = warranties.filter(w => isWarrantyInForce(w));
+  const warrantedRoofs = roofs.filter(roof => claimable.some(w => w.roof_id === roof.id));
+  const roofWarranties = claimable.filter(w => w.roof_id === roofId);
+  const warranty = roofWarranties.find(w => w.id === warrantyId);
+
+  useEffect(() => {
+    setDeficiencyIds([]);
+    setPhotoFileIds([]);
+    if (!roofId) {
+      setDeficiencies([]);
+      setPhotos([]);
+      return;
+    }
+
+    WarrantyClaimService.getEvidenceOptions(roofId).then(evidence => {
+      setDeficiencies(evidence.deficiencies);
+      setPhotos(evidence.photos);
+    });
+  }, [roofId]);
+
+  const handleRoofChange = (id: string) => {
+    const onRoof = claimable.filter(w => w.roof_id === id);
+    setRoofId(id);
+    setWarrantyId(onRoof.length === 1 ? onRoof[0].id : '');
+  };
+
+  const reset = () => {
+    setRoofId('');
+    setWarrantyId('');
+    setIssueType('');
+    setClaimAmount('');
+    setDescription('');
+  };
+
+  const toggle = (ids: string[], id: string, checked: boolean) =>
+    checked ? [...ids, id] : ids.filter(existing => existing !== id);
+
+  const handleSubmit = async () => {
+    if (!warranty || !issueType) return;
+
+    setSubmitting(true);
+    try {
+      const claim = await WarrantyClaimService.createClaim(warranty, {
+        issueType,
+        description,
+        claimAmount: parseFloat(claimAmount) || 0,
+        deficiencyIds,
+        photoFileIds
+      });
+
+      toast({
+        title: "Claim submitted",
+        description: `${claim.claim_number} filed with ${claim.warrantor || 'the warrantor'}`
+      });
+      reset();
+      onSubmitted();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to submit claim',
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Submit Warranty Claim</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Property</Label>
+            <Select value={roofId} onValueChange={handleRoofChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select property" />
+              </SelectTrigger>
+              <SelectContent>
+                {warrantedRoofs.map(r => (
+                  <SelectItem key={r.id} value={r.id}>{r.property_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Warranty</Label>
+            <Select value={warrantyId} onValueChange={setWarrantyId} disabled={!roofId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select warranty" />
+              </SelectTrigger>
+              <SelectContent>
+                {roofWarranties.map(w => (
+                  <SelectItem key={w.id} value={w.id}>{warrantyLabel(w)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {warranty?.warranty_number && (
+              <p className="text-xs text-muted-foreground mt-1">Warranty # {warranty.warranty_number}</p>
+            )}
+          </div>
+          <div>
+            <Label>Issue Type</Label>
+            <Select value={issueType} onValueChange={setIssueType}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select issue type" />
+              </SelectTrigger>
+              <SelectContent>
+                {CLAIM_ISSUE_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Estimated Claim Amount</Label>
+            <Input
+              type="number"
+              min="0"
+              placeholder="Enter amount"
+              value={claimAmount}
+              onChange={(e) => setClaimAmount(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Description</Label>
+            <Textarea
+              placeholder="Describe the issue and damage..."
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          {roofId && (deficiencies.length > 0 || photos.length > 0) && (
+            <div>
+              <Label>Evidence</Label>
+              <ScrollArea className="h-40 border rounded-md mt-1">
+                <div className="p-3 space-y-2">
+                  {deficiencies.map(deficiency => (
+                    <label key={deficiency.id} className="flex items-start gap-2 text-sm">
+                      <Checkbox
+                        checked={deficiencyIds.includes(deficiency.id)}
+                        onCheckedChange={(checked) => setDeficiencyIds(ids => toggle(ids, deficiency.id, !!checked))}
+                      />
+                      <span>
+                        {deficiency.category} – {deficiency.location}
+                        <span className="text-muted-foreground"> ({deficiency.severity})</span>
+                      </span>
+                    </label>
+                  ))}
+                  {photos.map(photo => (
+                    <label key={photo.id} className="flex items-start gap-2 text-sm">
+                      <Checkbox
+                        checked={photoFileIds.includes(photo.id)}
+                        onCheckedChange={(checked) => setPhotoFileIds(ids => toggle(ids, photo.id, !!checked))}
+                      />
+                      <span>Photo: {photo.file_name}</span>
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={handleSubmit} disabled={submitting || !warranty || !issueType}>
+              {submitting ? 'Submitting...' : 'Submit Claim'}
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, ShieldAlert, ShieldCheck, ShieldX } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { REQUIREMENT_EVIDENCE_LABELS, warrantyLabel, type Warranty } from '@/lib/warrantyRegistry';
+import {
+  WarrantyComplianceService,
+  COMPLIANCE_STATUS_LABELS,
+  REQUIREMENT_STATUS_LABELS,
+  type ComplianceStatus,
+  type RequirementStatus,
+  type WarrantyCompliance
+} from '@/lib/warrantyCompliance';
+
+interface WarrantyCompliancePanelProps {
+  roofs: { id: string; property_name: string }[];
+  warranties: Warranty[];
+}
+
+const COMPLIANCE_BADGE_CLASSES: Record<ComplianceStatus, string> = {
+  compliant: 'bg-green-100 text-green-800',
+  at_risk: 'bg-yellow-100 text-yellow-800',
+  non_compliant: 'bg-red-100 text-red-800',
+  not_tracked: 'bg-gray-100 text-gray-800'
+};
+
+const REQUIREMENT_TEXT_CLASSES: Record<RequirementStatus, string> = {
+  met: 'text-green-600',
+  due_soon: 'text-yellow-600',
+  overdue: 'text-orange-600',
+  missed: 'text-red-600'
+};
+
+export function WarrantyCompliancePanel({ roofs, warranties }: WarrantyCompliancePanelProps) {
+  const { toast } = useToast();
+  const [results, setResults] = useState<WarrantyCompliance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<'all' | ComplianceStatus>('all');
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const evaluate = useCallback(async () => {
+    setLoading(true);
+    const propertyNames = new Map(roofs.map(roof => [roof.id, roof.property_name]));
+    setResults(await WarrantyComplianceService.evaluate(warranties, propertyNames));
+    setLoading(false);
+  }, [roofs, warranties]);
+
+  useEffect(() => {
+    evaluate();
+  }, [evaluate]);
+
+  const handleDownload = async (result: WarrantyCompliance) => {
+    setDownloading(result.warranty.id);
+    try {
+      await WarrantyComplianceService.downloadPacket(result.warranty, result.propertyName);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to build compliance packet',
+        variant: "destructive"
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const count = (status: ComplianceStatus) => results.filter(result => result.status === status).length;
+  const visible = results.filter(result => statusFilter === 'all' || result.status === statusFilter);
+
+  if (loading) {
+    return <div className="text-center py-8 text-muted-foreground">Checking warranty compliance...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4 flex items-center gap-3">
+            <ShieldX className="h-8 w-8 text-red-600" />
+            <div>
+              <p className="text-2xl font-bold">{count('non_compliant')}</p>
+              <p className="text-sm text-muted-foreground">Requirements missed</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 flex items-center gap-3">
+            <ShieldAlert className="h-8 w-8 text-yellow-600" />
+            <div>
+              <p className="text-2xl font-bold">{count('at_risk')}</p>
+              <p className="text-sm text-muted-foreground">Due soon or overdue</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 flex items-center gap-3">
+            <ShieldCheck className="h-8 w-8 text-green-600" />
+            <div>
+              <p className="text-2xl font-bold">{count('compliant')}</p>
+              <p className="text-sm text-muted-foreground">Compliant</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>Warranty Compliance</CardTitle>
+              <CardDescription>
+                Required inspections and maintenance checked against completed inspections, maintenance and documents
+              </CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | ComplianceStatus)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All warranties</SelectItem>
+                {(Object.keys(COMPLIANCE_STATUS_LABELS) as ComplianceStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{COMPLIANCE_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {visible.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No in-force warranties to check</p>
+          ) : (
+            <div className="space-y-4">
+              {visible.map(result => (
+                <div key={result.warranty.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h4 className="font-semibold">{result.propertyName}</h4>
+                      <p className="text-sm text-muted-foreground">{warrantyLabel(result.warranty)}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge className={COMPLIANCE_BADGE_CLASSES[result.status]}>
+                        {COMPLIANCE_STATUS_LABELS[result.status]}
+                      </Badge>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDownload(result)}
+                        disabled={downloading === result.warranty.id}
+                      >
+                        <Download className="h-4 w-4 mr-1" />
+                        Evidence Packet
+                      </Button>
+                    </div>
+                  </div>
+
+                  {result.requirements.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No maintenance requirements recorded. Add them in the registry to track compliance.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {result.requirements.map((item, index) => (
+                        <div key={index} className="flex items-start justify-between text-sm gap-4">
+                          <div>
+                            <p>{item.requirement.requirement}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {REQUIREMENT_EVIDENCE_LABELS[item.requirement.evidence]}
+                              {item.requirement.record_type && ` (${item.requirement.record_type})`} every {item.requirement.interval_months} months
+                              {' · '}Last: {item.lastEvidenceDate ? format(item.lastEvidenceDate, 'MMM dd, yyyy') : 'none on file'}
+                              {item.missedPeriods.length > 0 && ` · ${item.missedPeriods.length} missed`}
+                            </p>
+                          </div>
+                          <div className={`text-right whitespace-nowrap ${REQUIREMENT_TEXT_CLASSES[item.status]}`}>
+                            <p className="font-medium">{REQUIREMENT_STATUS_LABELS[item.status]}</p>
+                            <p className="text-xs">Due {format(item.nextDueDate, 'MMM dd, yyyy')}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  WarrantyRegistryService,
+  WARRANTY_ISSUER_LABELS,
+  COVERAGE_TYPE_LABELS,
+  DEFAULT_RECORD_TYPES,
+  REQUIREMENT_EVIDENCE_LABELS,
+  REQUIREMENT_RECORD_TYPES,
+  parseMaintenanceRequirements,
+  warrantyLabel,
+  type CoverageType,
+  type MaintenanceRequirement,
+  type RequirementEvidence,
+  type Warranty,
+  type WarrantyIssuer,
+  type WarrantyStatus
+} from '@/lib/warrantyRegistry';
+
+interface WarrantyFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Null to add a new warranty
+  warranty: Warranty | null;
+  roofs: { id: string; property_name: string }[];
+  warranties: Warranty[];
+  defaultRoofId?: string;
+  onSaved: () => void;
+}
+
+const emptyRequirement = (): MaintenanceRequirement => ({ requirement: '', interval_months: 12, evidence: 'inspection' });
+
+const numberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export function WarrantyFormDialog({ open, onOpenChange, warranty, roofs, warranties, defaultRoofId, onSaved }: WarrantyFormDialogProps) {
+  const { toast } = useToast();
+  const [roofId, setRoofId] = useState('');
+  const [warrantyType, setWarrantyType] = useState<WarrantyIssuer>('manufacturer');
+  const [coverageType, setCoverageType] = useState<CoverageType>('unspecified');
+  const [provider, setProvider] = useState('');
+  const [warrantyNumber, setWarrantyNumber] = useState('');
+  const [termYears, setTermYears] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [expirationDate, setExpirationDate] = useState('');
+  const [sectionScope, setSectionScope] = useState('');
+  const [coveredArea, setCoveredArea] = useState('');
+  const [exclusions, setExclusions] = useState('');
+  const [requirements, setRequirements] = useState<MaintenanceRequirement[]>([]);
+  const [renewable, setRenewable] = useState(false);
+  const [renewalCost, setRenewalCost] = useState('');
+  const [alertLeadDays, setAlertLeadDays] = useState('90');
+  const [status, setStatus] = useState<WarrantyStatus>('active');
+  const [supersedesId, setSupersedesId] = useState('none');
+  const [currentHolder, setCurrentHolder] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setRoofId(warranty?.roof_id || defaultRoofId || '');
+    setWarrantyType((warranty?.warranty_type as WarrantyIssuer) || 'manufacturer');
+    setCoverageType((warranty?.coverage_type as CoverageType) || 'unspecified');
+    setProvider(warranty?.provider || '');
+    setWarrantyNumber(warranty?.warranty_number || '');
+    setTermYears(warranty?.term_years?.toString() || '');
+    setStartDate(warranty?.start_date || '');
+    setExpirationDate(warranty?.expiration_date || '');
+    setSectionScope(warranty?.section_scope || '');
+    setCoveredArea(warranty?.covered_area_sqft?.toString() || '');
+    setExclusions(warranty?.exclusions.join('\n') || '');
+    setRequirements(warranty ? parseMaintenanceRequirements(warranty.maintenance_requirements) : []);
+    setRenewable(warranty?.renewable || false);
+    setRenewalCost(warranty?.renewal_cost?.toString() || '');
+    setAlertLeadDays(warranty?.alert_lead_days.toString() || '90');
+    setStatus((warranty?.status as WarrantyStatus) || 'active');
+    setSupersedesId(warranty?.supersedes_warranty_id || 'none');
+    setCurrentHolder(warranty?.current_holder || '');
+    setNotes(warranty?.notes || '');
+  }, [open, warranty, defaultRoofId]);
+
+  const supersedable = warranties.filter(w => w.roof_id === roofId && w.id !== warranty?.id);
+
+  const updateRequirement = (index: number, changes: Partial<MaintenanceRequirement>) =>
+    setRequirements(current => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  const handleSave = async () => {
+    if (!roofId) return;
+
+    setSaving(true);
+    try {
+      await WarrantyRegistryService.saveWarranty({
+        id: warranty?.id,
+        roof_id: roofId,
+        warranty_type: warrantyType,
+        coverage_type: coverageType,
+        provider: provider || null,
+        warranty_number: warrantyNumber || null,
+        term_years: numberOrNull(termYears),
+        start_date: startDate || null,
+        expiration_date: expirationDate || null,
+        section_scope: sectionScope || null,
+        covered_area_sqft: numberOrNull(coveredArea),
+        exclusions: exclusions.split('\n').map(line => line.trim()).filter(Boolean),
+        maintenance_requirements: requirements
+          .filter(item => item.requirement.trim())
+          .map(item => ({ ...item })),
+        renewable,
+        renewal_cost: numberOrNull(renewalCost),
+        alert_lead_days: numberOrNull(alertLeadDays) ?? 90,
+        status,
+        supersedes_warranty_id: supersedesId === 'none' ? null : supersedesId,
+        current_holder: currentHolder || null,
+        notes: notes || null
+      });
+
+      toast({ title: warranty ? "Warranty updated" : "Warranty added" });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to save warranty',
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{warranty ? 'Edit Warranty' : 'Add Warranty'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label>Property</Label>
+              <Select value={roofId} onValueChange={setRoofId} disabled={!!warranty}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select property" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roofs.map(roof => (
+                    <SelectItem key={roof.id} value={roof.id}>{roof.property_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Issued By</Label>
+              <Select value={warrantyType} onValueChange={(value) => setWarrantyType(value as WarrantyIssuer)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(WARRANTY_ISSUER_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Coverage</Label>
+              <Select value={coverageType} onValueChange={(value) => setCoverageType(value as CoverageType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(COVERAGE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Provider</Label>
+              <Input value={provider} onChange={(e) => setProvider(e.target.value)} placeholder="e.g. GAF" />
+            </div>
+            <div>
+              <Label>Warranty Number</Label>
+              <Input value={warrantyNumber} onChange={(e) => setWarrantyNumber(e.target.value)} />
+            </div>
+            <div>
+              <Label>Term (years)</Label>
+              <Input type="number" min="1" value={termYears} onChange={(e) => setTermYears(e.target.value)} />
+            </div>
+            <div>
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as WarrantyStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="void">Void</SelectItem>
+                  <SelectItem value="superseded">Superseded</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Start Date</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>Expiration Date</Label>
+              <Input type="date" value={expirationDate} onChange={(e) => setExpirationDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>Section Scope</Label>
+              <Input
+                value={sectionScope}
+                onChange={(e) => setSectionScope(e.target.value)}
+                placeholder="Leave blank for the whole section"
+              />
+            </div>
+            <div>
+              <Label>Covered Area (sq ft)</Label>
+              <Input type="number" min="0" value={coveredArea} onChange={(e) => setCoveredArea(e.target.value)} />
+            </div>
+            <div>
+              <Label>Supersedes</Label>
+              <Select value={supersedesId} onValueChange={setSupersedesId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Nothing</SelectItem>
+                  {supersedable.map(w => (
+                    <SelectItem key={w.id} value={w.id}>{warrantyLabel(w)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Current Holder</Label>
+              <Input value={currentHolder} onChange={(e) => setCurrentHolder(e.target.value)} placeholder="Building owner" />
+            </div>
+          </div>
+
+          <div>
+            <Label>Exclusions (one per line)</Label>
+            <Textarea value={exclusions} onChange={(e) => setExclusions(e.target.value)} rows={3} />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Maintenance Requirements</Label>
+              <Button size="sm" variant="outline" onClick={() => setRequirements(current => [...current, emptyRequirement()])}>
+                <Plus className="h-3 w-3 mr-1" />
+                Add
+              </Button>
+            </div>
+            {requirements.length === 0 && (
+              <p className="text-sm text-muted-foreground">No upkeep required to keep this warranty valid</p>
+            )}
+            {requirements.map((item, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  className="flex-1"
+                  value={item.requirement}
+                  onChange={(e) => updateRequirement(index, { requirement: e.target.value })}
+                  placeholder="e.g. Inspection by a certified contractor"
+                />
+                <Input
+                  className="w-20"
+                  type="number"
+                  min="1"
+                  value={item.interval_months}
+                  onChange={(e) => updateRequirement(index, { interval_months: Number(e.target.value) || 1 })}
+                />
+                <span className="text-sm text-muted-foreground">months</span>
+                <Select
+                  value={item.evidence}
+                  onValueChange={(value) => updateRequirement(index, {
+                    evidence: value as RequirementEvidence,
+                    record_type: DEFAULT_RECORD_TYPES[value as RequirementEvidence]
+                  })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REQUIREMENT_EVIDENCE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {REQUIREMENT_RECORD_TYPES[item.evidence] && (
+                  <Select
+                    value={item.record_type}
+                    onValueChange={(value) => updateRequirement(index, { record_type: value })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REQUIREMENT_RECORD_TYPES[item.evidence]?.map(type => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setRequirements(current => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 items-end">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={renewable} onCheckedChange={(checked) => setRenewable(!!checked)} />
+              Renewable
+            </label>
+            <div>
+              <Label>Renewal Cost</Label>
+              <Input
+                type="number"
+                min="0"
+                value={renewalCost}
+                onChange={(e) => setRenewalCost(e.target.value)}
+                disabled={!renewable}
+              />
+            </div>
+            <div>
+              <Label>Alert Days Before Expiry</Label>
+              <Input type="number" min="0" value={alertLeadDays} onChange={(e) => setAlertLeadDays(e.target.value)} />
+            </div>
+          </div>
+
+          <div>
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={handleSave} disabled={saving || !roofId}>
+              {saving ? 'Saving...' : 'Save Warranty'}
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
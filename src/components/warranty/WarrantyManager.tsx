@@ -4,64 +4,42 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Shield, AlertTriangle, Clock, TrendingUp, FileText, DollarSign, Calendar, Star } from 'lucide-react';
+import { Shield, AlertTriangle, Clock, TrendingUp, FileText, DollarSign, Star } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { format, parseISO, differenceInDays, addDays } from 'date-fns';
-
-interface WarrantyAlert {
-  id: string;
-  propertyId: string;
-  propertyName: string;
-  warrantyType: 'manufacturer' | 'installer';
-  expirationDate: Date;
-  daysRemaining: number;
-  warrantyNumber?: string;
-  manufacturer?: string;
-  installer?: string;
-  renewalRecommended: boolean;
-  estimatedRenewalCost: number;
-  riskScore: number;
-}
-
-interface WarrantyClaim {
-  id: string;
-  propertyId: string;
-  propertyName: string;
-  claimNumber: string;
-  warrantyType: 'manufacturer' | 'installer';
-  issueType: string;
-  submitDate: Date;
-  status: 'submitted' | 'under_review' | 'approved' | 'denied' | 'completed';
-  claimAmount: number;
-  approvedAmount?: number;
-  completionDate?: Date;
-  manufacturer?: string;
-  notes: string;
-}
-
-interface ManufacturerPerformance {
-  manufacturer: string;
-  totalWarranties: number;
-  totalClaims: number;
-  claimApprovalRate: number;
-  avgClaimTime: number; // days
-  totalClaimValue: number;
-  approvedClaimValue: number;
-  performanceScore: number;
-}
+import { format, parseISO } from 'date-fns';
+import {
+  WarrantyClaimService,
+  claimStatusLabel,
+  computeManufacturerPerformance,
+  summarizeClaims,
+  type ManufacturerPerformance,
+  type WarrantyClaim
+} from '@/lib/warrantyClaims';
+import {
+  WarrantyRegistryService,
+  WARRANTY_ISSUER_LABELS,
+  COVERAGE_TYPE_LABELS,
+  buildWarrantyAlerts,
+  type CoverageType,
+  type Warranty,
+  type WarrantyAlert,
+  type WarrantyIssuer
+} from '@/lib/warrantyRegistry';
+import { WarrantyClaimDialog } from './WarrantyClaimDialog';
+import { WarrantyClaimDetailDialog } from './WarrantyClaimDetailDialog';
+import { WarrantyRegistry } from './WarrantyRegistry';
+import { WarrantyCompliancePanel } from './WarrantyCompliancePanel';
 
 export function WarrantyManager() {
   const [warrantyAlerts, setWarrantyAlerts] = useState<WarrantyAlert[]>([]);
+  const [roofs, setRoofs] = useState<{ id: string; property_name: string }[]>([]);
+  const [warranties, setWarranties] = useState<Warranty[]>([]);
   const [warrantyClaims, setWarrantyClaims] = useState<WarrantyClaim[]>([]);
   const [manufacturerPerformance, setManufacturerPerformance] = useState<ManufacturerPerformance[]>([]);
   const [loading, setLoading] = useState(true);
   const [isNewClaimDialogOpen, setIsNewClaimDialogOpen] = useState(false);
+  const [selectedClaim, setSelectedClaim] = useState<WarrantyClaim | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -72,70 +50,25 @@ export function WarrantyManager() {
     try {
       setLoading(true);
       
-      const { data: roofs, error } = await supabase
-        .from('roofs')
-        .select('*')
-        .eq('is_deleted', false);
+      const [{ data: roofs, error }, warranties, claims] = await Promise.all([
+        supabase
+          .from('roofs')
+          .select('id, property_name')
+          .eq('is_deleted', false)
+          .order('property_name'),
+        WarrantyRegistryService.getWarranties(),
+        WarrantyClaimService.getClaims()
+      ]);
 
       if (error) throw error;
 
-      // Generate warranty alerts
-      const alerts: WarrantyAlert[] = [];
-      const currentDate = new Date();
-
-      roofs?.forEach(roof => {
-        // Manufacturer warranty alerts
-        if (roof.manufacturer_warranty_expiration) {
-          const expirationDate = parseISO(roof.manufacturer_warranty_expiration);
-          const daysRemaining = differenceInDays(expirationDate, currentDate);
-          
-          if (daysRemaining <= 90 && daysRemaining >= 0) {
-            alerts.push({
-              id: `mfg-${roof.id}`,
-              propertyId: roof.id,
-              propertyName: roof.property_name,
-              warrantyType: 'manufacturer',
-              expirationDate,
-              daysRemaining,
-              warrantyNumber: roof.manufacturer_warranty_number,
-              manufacturer: roof.manufacturer,
-              renewalRecommended: daysRemaining <= 30,
-              estimatedRenewalCost: 2500,
-              riskScore: Math.max(0, 100 - daysRemaining)
-            });
-          }
-        }
+      const propertyNames = new Map((roofs || []).map(roof => [roof.id, roof.property_name]));
+      setWarrantyAlerts(buildWarrantyAlerts(warranties.filter(w => propertyNames.has(w.roof_id)), propertyNames));
 
-        // Installer warranty alerts
-        if (roof.installer_warranty_expiration) {
-          const expirationDate = parseISO(roof.installer_warranty_expiration);
-          const daysRemaining = differenceInDays(expirationDate, currentDate);
-          
-          if (daysRemaining <= 90 && daysRemaining >= 0) {
-            alerts.push({
-              id: `inst-${roof.id}`,
-              propertyId: roof.id,
-              propertyName: roof.property_name,
-              warrantyType: 'installer',
-              expirationDate,
-              daysRemaining,
-              warrantyNumber: roof.installer_warranty_number,
-              installer: roof.installing_contractor,
-              renewalRecommended: daysRemaining <= 30,
-              estimatedRenewalCost: 1500,
-              riskScore: Math.max(0, 100 - daysRemaining)
-            });
-          }
-        }
-      });
-
-      // Sort alerts by urgency
-      alerts.sort((a, b) => a.daysRemaining - b.daysRemaining);
-      setWarrantyAlerts(alerts);
-
-      // Generate mock warranty claims and manufacturer performance data
-      generateMockClaimsData();
-      generateManufacturerPerformance(roofs || []);
+      setRoofs(roofs || []);
+      setWarranties(warranties);
+      setWarrantyClaims(claims);
+      setManufacturerPerformance(computeManufacturerPerformance(warranties, claims));
       
     } catch (error) {
       console.error('Error fetching warranty data:', error);
@@ -149,96 +82,17 @@ export function WarrantyManager() {
     }
   };
 
-  const generateMockClaimsData = () => {
-    const mockClaims: WarrantyClaim[] = [
-      {
-        id: '1',
-        propertyId: 'prop1',
-        propertyName: 'Central Distribution Center',
-        claimNumber: 'WC-2024-001',
-        warrantyType: 'manufacturer',
-        issueType: 'Membrane Defect',
-        submitDate: new Date('2024-01-15'),
-        status: 'approved',
-        claimAmount: 15000,
-        approvedAmount: 12000,
-        completionDate: new Date('2024-02-20'),
-        manufacturer: 'GAF',
-        notes: 'Membrane delamination in section 3'
-      },
-      {
-        id: '2',
-        propertyId: 'prop2',
-        propertyName: 'Warehouse Complex A',
-        claimNumber: 'WC-2024-002',
-        warrantyType: 'installer',
-        issueType: 'Installation Defect',
-        submitDate: new Date('2024-02-01'),
-        status: 'under_review',
-        claimAmount: 8000,
-        manufacturer: 'Firestone',
-        notes: 'Improper seaming causing leaks'
-      }
-    ];
-    
-    setWarrantyClaims(mockClaims);
+  const refreshClaims = async () => {
+    const claims = await WarrantyClaimService.getClaims();
+    setWarrantyClaims(claims);
+    setManufacturerPerformance(computeManufacturerPerformance(warranties, claims));
+    setSelectedClaim(current => current && (claims.find(claim => claim.id === current.id) || null));
   };
 
-  const generateManufacturerPerformance = (roofs: any[]) => {
-    const manufacturerStats = new Map<string, any>();
-    
-    roofs.forEach(roof => {
-      if (roof.manufacturer) {
-        if (!manufacturerStats.has(roof.manufacturer)) {
-          manufacturerStats.set(roof.manufacturer, {
-            manufacturer: roof.manufacturer,
-            totalWarranties: 0,
-            totalClaims: 0,
-            approvedClaims: 0,
-            totalClaimValue: 0,
-            approvedClaimValue: 0,
-            claimTimes: []
-          });
-        }
-        
-        const stats = manufacturerStats.get(roof.manufacturer);
-        stats.totalWarranties++;
-      }
-    });
-
-    // Add mock claim data to calculate performance metrics
-    const mockClaimData = [
-      { manufacturer: 'GAF', claims: 5, approved: 4, totalValue: 45000, approvedValue: 38000, avgTime: 28 },
-      { manufacturer: 'Firestone', claims: 3, approved: 2, totalValue: 25000, approvedValue: 18000, avgTime: 35 },
-      { manufacturer: 'Carlisle', claims: 2, approved: 2, totalValue: 15000, approvedValue: 15000, avgTime: 21 }
-    ];
+  const propertyName = (roofId: string) =>
+    roofs.find(roof => roof.id === roofId)?.property_name || 'Unknown property';
 
-    const performance: ManufacturerPerformance[] = [];
-    
-    manufacturerStats.forEach((stats, manufacturer) => {
-      const claimData = mockClaimData.find(m => m.manufacturer === manufacturer);
-      if (claimData) {
-        const claimApprovalRate = (claimData.approved / claimData.claims) * 100;
-        const payoutRate = (claimData.approvedValue / claimData.totalValue) * 100;
-        const timeScore = Math.max(0, 100 - claimData.avgTime);
-        const performanceScore = (claimApprovalRate * 0.4) + (payoutRate * 0.3) + (timeScore * 0.3);
-        
-        performance.push({
-          manufacturer,
-          totalWarranties: stats.totalWarranties,
-          totalClaims: claimData.claims,
-          claimApprovalRate,
-          avgClaimTime: claimData.avgTime,
-          totalClaimValue: claimData.totalValue,
-          approvedClaimValue: claimData.approvedValue,
-          performanceScore: Math.round(performanceScore)
-        });
-      }
-    });
-
-    performance.sort((a, b) => b.performanceScore - a.performanceScore);
-    setManufacturerPerformance(performance);
-  };
+  const claimSummary = summarizeClaims(warrantyClaims);
 
   const getUrgencyColor = (daysRemaining: number) => {
     if (daysRemaining <= 7) return 'destructive';
@@ -285,76 +139,15 @@ export function WarrantyManager() {
             <AlertTriangle className="h-3 w-3" />
             {warrantyAlerts.length} Expiring Soon
           </Badge>
-          <Dialog open={isNewClaimDialogOpen} onOpenChange={setIsNewClaimDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>Submit Claim</Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-md">
-              <DialogHeader>
-                <DialogTitle>Submit Warranty Claim</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <Label>Property</Label>
-                  <Select>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select property" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="prop1">Central Distribution Center</SelectItem>
-                      <SelectItem value="prop2">Warehouse Complex A</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div>
-                  <Label>Warranty Type</Label>
-                  <Select>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select warranty type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="manufacturer">Manufacturer</SelectItem>
-                      <SelectItem value="installer">Installer</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div>
-                  <Label>Issue Type</Label>
-                  <Select>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select issue type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="material-defect">Material Defect</SelectItem>
-                      <SelectItem value="installation-defect">Installation Defect</SelectItem>
-                      <SelectItem value="premature-failure">Premature Failure</SelectItem>
-                      <SelectItem value="weather-damage">Weather Damage</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div>
-                  <Label>Estimated Claim Amount</Label>
-                  <Input type="number" placeholder="Enter amount" />
-                </div>
-                <div>
-                  <Label>Description</Label>
-                  <Textarea placeholder="Describe the issue and damage..." />
-                </div>
-                <div className="flex gap-2">
-                  <Button className="flex-1">Submit Claim</Button>
-                  <Button variant="outline" onClick={() => setIsNewClaimDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+          <Button onClick={() => setIsNewClaimDialogOpen(true)}>Submit Claim</Button>
         </div>
       </div>
 
       <Tabs defaultValue="alerts" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="alerts">Warranty Alerts</TabsTrigger>
+          <TabsTrigger value="registry">Registry</TabsTrigger>
+          <TabsTrigger value="compliance">Compliance</TabsTrigger>
           <TabsTrigger value="claims">Claims Tracking</TabsTrigger>
           <TabsTrigger value="performance">Manufacturer Performance</TabsTrigger>
           <TabsTrigger value="analytics">Warranty Analytics</TabsTrigger>
@@ -368,7 +161,7 @@ export function WarrantyManager() {
                   <div className="flex items-center justify-between">
                     <CardTitle className="text-lg flex items-center gap-2">
                       <Shield className="h-5 w-5" />
-                      {alert.warrantyType === 'manufacturer' ? 'Manufacturer' : 'Installer'}
+                      {WARRANTY_ISSUER_LABELS[alert.warranty.warranty_type as WarrantyIssuer]}
                     </CardTitle>
                     <Badge variant={getUrgencyColor(alert.daysRemaining) as any}>
                       {alert.daysRemaining} days
@@ -379,8 +172,13 @@ export function WarrantyManager() {
                   <div>
                     <h4 className="font-medium">{alert.propertyName}</h4>
                     <p className="text-sm text-muted-foreground">
-                      {alert.manufacturer || alert.installer}
+                      {alert.warranty.provider}
+                      {alert.warranty.coverage_type !== 'unspecified' &&
+                        ` · ${COVERAGE_TYPE_LABELS[alert.warranty.coverage_type as CoverageType]}`}
                     </p>
+                    {alert.warranty.section_scope && (
+                      <p className="text-xs text-muted-foreground">{alert.warranty.section_scope}</p>
+                    )}
                   </div>
                   
                   <div className="space-y-2">
@@ -388,10 +186,10 @@ export function WarrantyManager() {
                       <span>Expiration Date</span>
                       <span>{format(alert.expirationDate, 'MMM dd, yyyy')}</span>
                     </div>
-                    {alert.warrantyNumber && (
+                    {alert.warranty.warranty_number && (
                       <div className="flex justify-between text-sm">
                         <span>Warranty #</span>
-                        <span className="font-mono text-xs">{alert.warrantyNumber}</span>
+                        <span className="font-mono text-xs">{alert.warranty.warranty_number}</span>
                       </div>
                     )}
                     <div className="flex justify-between text-sm">
@@ -409,7 +207,9 @@ export function WarrantyManager() {
                         <span className="text-sm font-medium text-green-600">Renewal Recommended</span>
                       </div>
                       <p className="text-sm text-muted-foreground">
-                        Est. renewal cost: ${alert.estimatedRenewalCost.toLocaleString()}
+                        {alert.estimatedRenewalCost === null
+                          ? 'No renewal cost on file'
+                          : `Est. renewal cost: $${alert.estimatedRenewalCost.toLocaleString()}`}
                       </p>
                       <Button size="sm" className="w-full mt-2">
                         Initiate Renewal
@@ -422,8 +222,19 @@ export function WarrantyManager() {
           </div>
         </TabsContent>
 
+        <TabsContent value="registry" className="space-y-4">
+          <WarrantyRegistry roofs={roofs} warranties={warranties} onChange={fetchWarrantyData} />
+        </TabsContent>
+
+        <TabsContent value="compliance" className="space-y-4">
+          <WarrantyCompliancePanel roofs={roofs} warranties={warranties} />
+        </TabsContent>
+
         <TabsContent value="claims" className="space-y-4">
           <div className="space-y-4">
+            {warrantyClaims.length === 0 && (
+              <p className="text-center py-8 text-muted-foreground">No warranty claims have been filed</p>
+            )}
             {warrantyClaims.map((claim) => (
               <Card key={claim.id}>
                 <CardContent className="p-6">
@@ -431,56 +242,57 @@ export function WarrantyManager() {
                     <div className="flex items-center gap-3">
                       <FileText className="h-5 w-5" />
                       <div>
-                        <h4 className="font-medium">{claim.claimNumber}</h4>
-                        <p className="text-sm text-muted-foreground">{claim.propertyName}</p>
+                        <h4 className="font-medium">{claim.claim_number}</h4>
+                        <p className="text-sm text-muted-foreground">{propertyName(claim.roof_id)}</p>
                       </div>
                     </div>
                     <Badge className={getStatusColor(claim.status)}>
-                      {claim.status.replace('_', ' ').toUpperCase()}
+                      {claimStatusLabel(claim.status)}
                     </Badge>
                   </div>
                   
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
                     <div>
                       <span className="text-sm text-muted-foreground">Issue Type</span>
-                      <p className="font-medium">{claim.issueType}</p>
+                      <p className="font-medium">{claim.issue_type}</p>
                     </div>
                     <div>
                       <span className="text-sm text-muted-foreground">Submit Date</span>
-                      <p className="font-medium">{format(claim.submitDate, 'MMM dd, yyyy')}</p>
+                      <p className="font-medium">{format(parseISO(claim.submitted_at), 'MMM dd, yyyy')}</p>
                     </div>
                     <div>
                       <span className="text-sm text-muted-foreground">Claim Amount</span>
-                      <p className="font-medium">${claim.claimAmount.toLocaleString()}</p>
+                      <p className="font-medium">${claim.claim_amount.toLocaleString()}</p>
                     </div>
                     <div>
-                      <span className="text-sm text-muted-foreground">Manufacturer</span>
-                      <p className="font-medium">{claim.manufacturer}</p>
+                      <span className="text-sm text-muted-foreground">
+                        {claim.warranty_type === 'manufacturer' ? 'Manufacturer' : 'Installer'}
+                      </span>
+                      <p className="font-medium">{claim.warrantor}</p>
                     </div>
                   </div>
                   
-                  {claim.approvedAmount && (
+                  {claim.decision === 'approved' && claim.approved_amount !== null && (
                     <div className="flex items-center gap-4 mb-4">
                       <div>
                         <span className="text-sm text-muted-foreground">Approved Amount</span>
-                        <p className="font-medium text-green-600">${claim.approvedAmount.toLocaleString()}</p>
-                      </div>
-                      <div>
-                        <span className="text-sm text-muted-foreground">Approval Rate</span>
-                        <p className="font-medium">
-                          {Math.round((claim.approvedAmount / claim.claimAmount) * 100)}%
-                        </p>
+                        <p className="font-medium text-green-600">${claim.approved_amount.toLocaleString()}</p>
                       </div>
+                      {claim.claim_amount > 0 && (
+                        <div>
+                          <span className="text-sm text-muted-foreground">Approval Rate</span>
+                          <p className="font-medium">
+                            {Math.round((claim.approved_amount / claim.claim_amount) * 100)}%
+                          </p>
+                        </div>
+                      )}
                     </div>
                   )}
                   
-                  <p className="text-sm">{claim.notes}</p>
+                  {claim.description && <p className="text-sm">{claim.description}</p>}
                   
                   <div className="flex gap-2 mt-4">
-                    <Button size="sm" variant="outline">View Details</Button>
-                    {claim.status === 'under_review' && (
-                      <Button size="sm" variant="outline">Follow Up</Button>
-                    )}
+                    <Button size="sm" variant="outline" onClick={() => setSelectedClaim(claim)}>View Details</Button>
                   </div>
                 </CardContent>
               </Card>
@@ -490,6 +302,9 @@ export function WarrantyManager() {
 
         <TabsContent value="performance" className="space-y-4">
           <div className="space-y-4">
+            {manufacturerPerformance.length === 0 && (
+              <p className="text-center py-8 text-muted-foreground">No manufacturer warranties on file</p>
+            )}
             {manufacturerPerformance.map((perf) => (
               <Card key={perf.manufacturer}>
                 <CardContent className="p-6">
@@ -500,13 +315,18 @@ export function WarrantyManager() {
                         <h4 className="font-medium">{perf.manufacturer}</h4>
                         <p className="text-sm text-muted-foreground">
                           {perf.totalWarranties} warranties, {perf.totalClaims} claims
+                          {perf.openClaims > 0 && ` (${perf.openClaims} open)`}
                         </p>
                       </div>
                     </div>
                     <div className="text-right">
-                      <div className={`text-2xl font-bold ${getPerformanceColor(perf.performanceScore)}`}>
-                        {perf.performanceScore}
-                      </div>
+                      {perf.performanceScore === null ? (
+                        <div className="text-2xl font-bold text-muted-foreground">–</div>
+                      ) : (
+                        <div className={`text-2xl font-bold ${getPerformanceColor(perf.performanceScore)}`}>
+                          {perf.performanceScore}
+                        </div>
+                      )}
                       <p className="text-sm text-muted-foreground">Performance Score</p>
                     </div>
                   </div>
@@ -519,7 +339,7 @@ export function WarrantyManager() {
                     </div>
                     <div>
                       <span className="text-sm text-muted-foreground">Avg. Claim Time</span>
-                      <p className="font-medium">{perf.avgClaimTime} days</p>
+                      <p className="font-medium">{perf.avgClaimTime === null ? '–' : `${perf.avgClaimTime} days`}</p>
                     </div>
                     <div>
                       <span className="text-sm text-muted-foreground">Total Claim Value</span>
@@ -544,13 +364,13 @@ export function WarrantyManager() {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <DollarSign className="h-5 w-5" />
-                  Warranty ROI
+                  Recovered
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-green-600">342%</div>
+                <div className="text-2xl font-bold text-green-600">${claimSummary.recoveredAmount.toLocaleString()}</div>
                 <p className="text-sm text-muted-foreground">
-                  Claims recovered vs warranty costs
+                  Approved across {warrantyClaims.length} claims, {claimSummary.openClaims} still open
                 </p>
               </CardContent>
             </Card>
@@ -563,9 +383,11 @@ export function WarrantyManager() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">28 days</div>
+                <div className="text-2xl font-bold">
+                  {claimSummary.avgClaimTime === null ? '–' : `${claimSummary.avgClaimTime} days`}
+                </div>
                 <p className="text-sm text-muted-foreground">
-                  Average claim processing time
+                  Average time from submission to decision
                 </p>
               </CardContent>
             </Card>
@@ -578,15 +400,32 @@ export function WarrantyManager() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">87%</div>
+                <div className="text-2xl font-bold">
+                  {claimSummary.approvalRate === null ? '–' : `${Math.round(claimSummary.approvalRate)}%`}
+                </div>
                 <p className="text-sm text-muted-foreground">
-                  Claims approval rate
+                  Share of decided claims approved
                 </p>
               </CardContent>
             </Card>
           </div>
         </TabsContent>
       </Tabs>
+
+      <WarrantyClaimDialog
+        open={isNewClaimDialogOpen}
+        onOpenChange={setIsNewClaimDialogOpen}
+        roofs={roofs}
+        warranties={warranties}
+        onSubmitted={fetchWarrantyData}
+      />
+
+      <WarrantyClaimDetailDialog
+        claim={selectedClaim}
+        propertyName={selectedClaim ? propertyName(selectedClaim.roof_id) : undefined}
+        onOpenChange={(open) => !open && setSelectedClaim(null)}
+        onUpdated={refreshClaims}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  WARRANTY_ISSUER_LABELS,
+  COVERAGE_TYPE_LABELS,
+  isWarrantyInForce,
+  parseMaintenanceRequirements,
+  type CoverageType,
+  type Warranty,
+  type WarrantyIssuer
+} from '@/lib/warrantyRegistry';
+import { WarrantyFormDialog } from './WarrantyFormDialog';
+import { WarrantyTransferDialog } from './WarrantyTransferDialog';
+
+interface WarrantyRegistryProps {
+  roofs: { id: string; property_name: string }[];
+  warranties: Warranty[];
+  onChange: () => void;
+}
+
+const statusBadge = (warranty: Warranty) => {
+  if (warranty.status === 'void') return <Badge variant="destructive">Void</Badge>;
+  if (warranty.status === 'superseded') return <Badge variant="outline">Superseded</Badge>;
+  if (!isWarrantyInForce(warranty)) return <Badge variant="secondary">Expired</Badge>;
+  return <Badge className="bg-green-100 text-green-800">Active</Badge>;
+};
+
+export function WarrantyRegistry({ roofs, warranties, onChange }: WarrantyRegistryProps) {
+  const [roofFilter, setRoofFilter] = useState('all');
+  const [editing, setEditing] = useState<Warranty | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [transferring, setTransferring] = useState<Warranty | null>(null);
+
+  const propertyNames = new Map(roofs.map(roof => [roof.id, roof.property_name]));
+  const visible = warranties
+    .filter(warranty => propertyNames.has(warranty.roof_id))
+    .filter(warranty => roofFilter === 'all' || warranty.roof_id === roofFilter);
+
+  const openForm = (warranty: Warranty | null) => {
+    setEditing(warranty);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Warranty Registry</CardTitle>
+            <CardDescription>
+              Every warranty on each roof section, including partial-area and re-cover warranties
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={roofFilter} onValueChange={setRoofFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All properties</SelectItem>
+                {roofs.map(roof => (
+                  <SelectItem key={roof.id} value={roof.id}>{roof.property_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => openForm(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Warranty
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {visible.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No warranties on file</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Property</TableHead>
+                <TableHead>Warranty</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Term</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Requirements</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map(warranty => {
+                const requirements = parseMaintenanceRequirements(warranty.maintenance_requirements);
+                return (
+                  <TableRow key={warranty.id}>
+                    <TableCell className="font-medium">{propertyNames.get(warranty.roof_id)}</TableCell>
+                    <TableCell>
+                      <div>{warranty.provider || WARRANTY_ISSUER_LABELS[warranty.warranty_type as WarrantyIssuer]}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {WARRANTY_ISSUER_LABELS[warranty.warranty_type as WarrantyIssuer]}
+                        {warranty.coverage_type !== 'unspecified' && ` · ${COVERAGE_TYPE_LABELS[warranty.coverage_type as CoverageType]}`}
+                        {warranty.warranty_number && ` · #${warranty.warranty_number}`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {warranty.section_scope || 'Whole section'}
+                      {warranty.covered_area_sqft !== null && (
+                        <div className="text-xs text-muted-foreground">{warranty.covered_area_sqft.toLocaleString()} sq ft</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{warranty.term_years ? `${warranty.term_years} yr` : warranty.term_description || '—'}</TableCell>
+                    <TableCell>
+                      {warranty.expiration_date ? format(parseISO(warranty.expiration_date), 'MMM dd, yyyy') : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {requirements.length === 0 ? '—' : (
+                        <span title={requirements.map(item => item.requirement).join('\n')}>
+                          {requirements.length} required
+                        </span>
+                      )}
+                      {warranty.exclusions.length > 0 && (
+                        <div className="text-xs text-muted-foreground">{warranty.exclusions.length} exclusions</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{statusBadge(warranty)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button size="sm" variant="ghost" onClick={() => openForm(warranty)}>Edit</Button>
+                      <Button size="sm" variant="ghost" onClick={() => setTransferring(warranty)}>Transfer</Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <WarrantyFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        warranty={editing}
+        roofs={roofs}
+        warranties={warranties}
+        defaultRoofId={roofFilter === 'all' ? undefined : roofFilter}
+        onSaved={onChange}
+      />
+
+      <WarrantyTransferDialog
+        warranty={transferring}
+        onOpenChange={(open) => !open && setTransferring(null)}
+        onTransferred={onChange}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { format, parseISO } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import {
+  WarrantyRegistryService,
+  warrantyLabel,
+  type Warranty,
+  type WarrantyTransfer
+} from '@/lib/warrantyRegistry';
+
+interface WarrantyTransferDialogProps {
+  warranty: Warranty | null;
+  onOpenChange: (open: boolean) => void;
+  onTransferred: () => void;
+}
+
+export function WarrantyTransferDialog({ warranty, onOpenChange, onTransferred }: WarrantyTransferDialogProps) {
+  const { toast } = useToast();
+  const [transfers, setTransfers] = useState<WarrantyTransfer[]>([]);
+  const [transferredOn, setTransferredOn] = useState('');
+  const [toHolder, setToHolder] = useState('');
+  const [transferFee, setTransferFee] = useState('');
+  const [approvedByIssuer, setApprovedByIssuer] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadTransfers = useCallback(async () => {
+    if (!warranty) return;
+    setTransfers(await WarrantyRegistryService.getTransfers(warranty.id));
+  }, [warranty]);
+
+  useEffect(() => {
+    setTransferredOn(format(new Date(), 'yyyy-MM-dd'));
+    setToHolder('');
+    setTransferFee('');
+    setApprovedByIssuer(false);
+    setNotes('');
+    loadTransfers();
+  }, [loadTransfers]);
+
+  if (!warranty) return null;
+
+  const handleTransfer = async () => {
+    if (!toHolder.trim() || !transferredOn) return;
+
+    setSaving(true);
+    try {
+      await WarrantyRegistryService.recordTransfer(warranty, {
+        transferredOn,
+        toHolder: toHolder.trim(),
+        transferFee: transferFee ? Number(transferFee) : undefined,
+        approvedByIssuer,
+        notes
+      });
+      toast({ title: "Transfer recorded" });
+      onTransferred();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to record transfer',
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!warranty} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Transfer Warranty</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="text-sm">
+            <p className="font-medium">{warrantyLabel(warranty)}</p>
+            <p className="text-muted-foreground">Current holder: {warranty.current_holder || 'Not recorded'}</p>
+          </div>
+
+          {transfers.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-sm font-medium">Transfer History</h4>
+              {transfers.map(transfer => (
+                <div key={transfer.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    {format(parseISO(transfer.transferred_on), 'MMM dd, yyyy')}: {transfer.from_holder || 'Unknown'} → {transfer.to_holder}
+                  </span>
+                  {transfer.approved_by_issuer
+                    ? <Badge variant="secondary">Issuer approved</Badge>
+                    : <Badge variant="outline">Not acknowledged</Badge>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Transfer Date</Label>
+              <Input type="date" value={transferredOn} onChange={(e) => setTransferredOn(e.target.value)} />
+            </div>
+            <div>
+              <Label>Transfer Fee</Label>
+              <Input type="number" min="0" value={transferFee} onChange={(e) => setTransferFee(e.target.value)} />
+            </div>
+            <div className="col-span-2">
+              <Label>New Holder</Label>
+              <Input value={toHolder} onChange={(e) => setToHolder(e.target.value)} placeholder="New building owner" />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={approvedByIssuer} onCheckedChange={(checked) => setApprovedByIssuer(!!checked)} />
+            Issuer has approved the transfer
+          </label>
+          <div>
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={handleTransfer} disabled={saving || !toHolder.trim() || !transferredOn}>
+              {saving ? 'Saving...' : 'Record Transfer'}
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -84,11 +84,19 @@ export type Database = {
           automation_data: Json | null
           campaign_id: string | null
           completed_date: string | null
+          confirmation_status: string
+          confirmed_at: string | null
+          confirmed_by: string | null
+          confirmed_end: string | null
+          confirmed_start: string | null
           created_at: string | null
           error_message: string | null
           id: string
           inspector_id: string | null
           n8n_property_id: string | null
+          proposed_end: string | null
+          proposed_start: string | null
+          reschedule_count: number
           risk_assessment: Json | null
           roof_id: string | null
           scheduled_date: string | null
@@ -99,11 +107,19 @@ export type Database = {
           automation_data?: Json | null
           campaign_id?: string | null
           completed_date?: string | null
+          confirmation_status?: string
+          confirmed_at?: string | null
+          confirmed_by?: string | null
+          confirmed_end?: string | null
+          confirmed_start?: string | null
           created_at?: string | null
           error_message?: string | null
           id?: string
           inspector_id?: string | null
           n8n_property_id?: string | null
+          proposed_end?: string | null
+          proposed_start?: string | null
+          reschedule_count?: number
           risk_assessment?: Json | null
           roof_id?: string | null
           scheduled_date?: string | null
@@ -114,11 +130,19 @@ export type Database = {
           automation_data?: Json | null
           campaign_id?: string | null
           completed_date?: string | null
+          confirmation_status?: string
+          confirmed_at?: string | null
+          confirmed_by?: string | null
+          confirmed_end?: string | null
+          confirmed_start?: string | null
           created_at?: string | null
           error_message?: string | null
           id?: string
           inspector_id?: string | null
           n8n_property_id?: string | null
+          proposed_end?: string | null
+          proposed_start?: string | null
+          reschedule_count?: number
           risk_assessment?: Json | null
           roof_id?: string | null
           scheduled_date?: string | null
@@ -149,6 +173,56 @@ export type Database = {
           },
         ]
       }
+      campaign_property_schedule_events: {
+        Row: {
+          actor: string | null
+          campaign_property_id: string
+          created_at: string
+          created_by: string | null
+          event_type: string
+          id: string
+          notes: string | null
+          previous_end: string | null
+          previous_start: string | null
+          slot_end: string | null
+          slot_start: string | null
+        }
+        Insert: {
+          actor?: string | null
+          campaign_property_id: string
+          created_at?: string
+          created_by?: string | null
+          event_type: string
+          id?: string
+          notes?: string | null
+          previous_end?: string | null
+          previous_start?: string | null
+          slot_end?: string | null
+          slot_start?: string | null
+        }
+        Update: {
+          actor?: string | null
+          campaign_property_id?: string
+          created_at?: string
+          created_by?: string | null
+          event_type?: string
+          id?: string
+          notes?: string | null
+          previous_end?: string | null
+          previous_start?: string | null
+          slot_end?: string | null
+          slot_start?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_property_schedule_events_campaign_property_id_fkey"
+            columns: ["campaign_property_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       client_contacts: {
         Row: {
           client_id: string | null
@@ -224,6 +298,9 @@ export type Database = {
           state: string | null
           status: string | null
           updated_at: string
+          work_order_approval_threshold: number | null
+          workflow_engine: string
+          workflow_engine_config: Json
           zip: string | null
         }
         Insert: {
@@ -238,6 +315,9 @@ export type Database = {
           state?: string | null
           status?: string | null
           updated_at?: string
+          work_order_approval_threshold?: number | null
+          workflow_engine?: string
+          workflow_engine_config?: Json
           zip?: string | null
         }
         Update: {
@@ -252,10 +332,176 @@ export type Database = {
           state?: string | null
           status?: string | null
           updated_at?: string
+          work_order_approval_threshold?: number | null
+          workflow_engine?: string
+          workflow_engine_config?: Json
           zip?: string | null
         }
         Relationships: []
       }
+      data_quality_fixes: {
+        Row: {
+          applied_at: string
+          applied_by: string | null
+          field_name: string
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+          roof_id: string
+          rule_id: string
+        }
+        Insert: {
+          applied_at?: string
+          applied_by?: string | null
+          field_name: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          roof_id: string
+          rule_id: string
+        }
+        Update: {
+          applied_at?: string
+          applied_by?: string | null
+          field_name?: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          roof_id?: string
+          rule_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_quality_fixes_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      data_quality_rule_settings: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          params: Json
+          rule_id: string
+          severity: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          params?: Json
+          rule_id: string
+          severity: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          params?: Json
+          rule_id?: string
+          severity?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      deficiencies: {
+        Row: {
+          category: string
+          created_at: string
+          description: string | null
+          estimated_cost: number
+          first_observed_date: string | null
+          first_observed_inspection_id: string | null
+          id: string
+          last_observed_date: string | null
+          last_observed_inspection_id: string | null
+          location: string
+          observation_count: number
+          resolved_date: string | null
+          resolved_inspection_id: string | null
+          roof_id: string
+          severity: string
+          status: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          description?: string | null
+          estimated_cost?: number
+          first_observed_date?: string | null
+          first_observed_inspection_id?: string | null
+          id?: string
+          last_observed_date?: string | null
+          last_observed_inspection_id?: string | null
+          location: string
+          observation_count?: number
+          resolved_date?: string | null
+          resolved_inspection_id?: string | null
+          roof_id: string
+          severity?: string
+          status?: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          description?: string | null
+          estimated_cost?: number
+          first_observed_date?: string | null
+          first_observed_inspection_id?: string | null
+          id?: string
+          last_observed_date?: string | null
+          last_observed_inspection_id?: string | null
+          location?: string
+          observation_count?: number
+          resolved_date?: string | null
+          resolved_inspection_id?: string | null
+          roof_id?: string
+          severity?: string
+          status?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deficiencies_first_observed_inspection_id_fkey"
+            columns: ["first_observed_inspection_id"]
+            isOneToOne: false
+            referencedRelation: "inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deficiencies_last_observed_inspection_id_fkey"
+            columns: ["last_observed_inspection_id"]
+            isOneToOne: false
+            referencedRelation: "inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deficiencies_resolved_inspection_id_fkey"
+            columns: ["resolved_inspection_id"]
+            isOneToOne: false
+            referencedRelation: "inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deficiencies_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       file_categories: {
         Row: {
           color: string | null
@@ -283,6 +529,36 @@ export type Database = {
         }
         Relationships: []
       }
+      geo_zip_centroids: {
+        Row: {
+          city: string | null
+          created_at: string
+          latitude: number
+          longitude: number
+          source: string
+          state: string | null
+          zip: string
+        }
+        Insert: {
+          city?: string | null
+          created_at?: string
+          latitude: number
+          longitude: number
+          source?: string
+          state?: string | null
+          zip: string
+        }
+        Update: {
+          city?: string | null
+          created_at?: string
+          latitude?: number
+          longitude?: number
+          source?: string
+          state?: string | null
+          zip?: string
+        }
+        Relationships: []
+      }
       grouping_configurations: {
         Row: {
           client_id: string | null
@@ -327,6 +603,203 @@ export type Database = {
           },
         ]
       }
+      import_batch_changes: {
+        Row: {
+          batch_id: string
+          change_type: string
+          created_at: string
+          entity_id: string
+          entity_type: string
+          field_name: string | null
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+          rolled_back: boolean
+          roof_id: string | null
+          row_number: number | null
+        }
+        Insert: {
+          batch_id: string
+          change_type: string
+          created_at?: string
+          entity_id: string
+          entity_type: string
+          field_name?: string | null
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          rolled_back?: boolean
+          roof_id?: string | null
+          row_number?: number | null
+        }
+        Update: {
+          batch_id?: string
+          change_type?: string
+          created_at?: string
+          entity_id?: string
+          entity_type?: string
+          field_name?: string | null
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          rolled_back?: boolean
+          roof_id?: string | null
+          row_number?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batch_changes_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_batch_changes_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_batches: {
+        Row: {
+          client_id: string | null
+          clients_created: number
+          completed_at: string | null
+          created_at: string
+          error_count: number
+          file_name: string
+          header_row: number
+          id: string
+          inserted_count: number
+          mapping_template_id: string | null
+          mappings: Json
+          rollback_summary: Json | null
+          rolled_back_at: string | null
+          rolled_back_by: string | null
+          row_count: number
+          sheet_name: string | null
+          status: string
+          unchanged_count: number
+          updated_at: string
+          updated_count: number
+          uploaded_by: string | null
+        }
+        Insert: {
+          client_id?: string | null
+          clients_created?: number
+          completed_at?: string | null
+          created_at?: string
+          error_count?: number
+          file_name: string
+          header_row?: number
+          id?: string
+          inserted_count?: number
+          mapping_template_id?: string | null
+          mappings?: Json
+          rollback_summary?: Json | null
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          row_count?: number
+          sheet_name?: string | null
+          status?: string
+          unchanged_count?: number
+          updated_at?: string
+          updated_count?: number
+          uploaded_by?: string | null
+        }
+        Update: {
+          client_id?: string | null
+          clients_created?: number
+          completed_at?: string | null
+          created_at?: string
+          error_count?: number
+          file_name?: string
+          header_row?: number
+          id?: string
+          inserted_count?: number
+          mapping_template_id?: string | null
+          mappings?: Json
+          rollback_summary?: Json | null
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          row_count?: number
+          sheet_name?: string | null
+          status?: string
+          unchanged_count?: number
+          updated_at?: string
+          updated_count?: number
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batches_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_batches_mapping_template_id_fkey"
+            columns: ["mapping_template_id"]
+            isOneToOne: false
+            referencedRelation: "import_mapping_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_mapping_templates: {
+        Row: {
+          client_id: string | null
+          created_at: string
+          created_by: string | null
+          header_row: number
+          id: string
+          last_used_at: string | null
+          mappings: Json
+          name: string
+          sheet_name: string | null
+          source_headers: string[]
+          updated_at: string
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          header_row?: number
+          id?: string
+          last_used_at?: string | null
+          mappings?: Json
+          name: string
+          sheet_name?: string | null
+          source_headers?: string[]
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          header_row?: number
+          id?: string
+          last_used_at?: string | null
+          mappings?: Json
+          name?: string
+          sheet_name?: string | null
+          source_headers?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_mapping_templates_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       inspection_campaigns: {
         Row: {
           actual_completion: string | null
@@ -416,580 +889,1394 @@ export type Database = {
           },
         ]
       }
-      inspection_reports: {
+      inspection_capital_expenses: {
         Row: {
+          completed: boolean
           created_at: string
-          estimated_cost: number | null
-          findings: string | null
+          description: string
+          estimated_cost: number
+          expense_year: number
           id: string
-          inspection_id: string | null
-          photos_urls: string[] | null
-          priority_level: string | null
-          recommendations: string | null
-          report_url: string | null
-          reviewed_at: string | null
-          reviewed_by: string | null
-          status: string | null
+          inspection_id: string
+          roof_id: string
+          scope_of_work: string | null
           updated_at: string
         }
         Insert: {
+          completed?: boolean
           created_at?: string
-          estimated_cost?: number | null
-          findings?: string | null
+          description: string
+          estimated_cost?: number
+          expense_year: number
           id?: string
-          inspection_id?: string | null
-          photos_urls?: string[] | null
-          priority_level?: string | null
-          recommendations?: string | null
-          report_url?: string | null
-          reviewed_at?: string | null
-          reviewed_by?: string | null
-          status?: string | null
+          inspection_id: string
+          roof_id: string
+          scope_of_work?: string | null
           updated_at?: string
         }
         Update: {
+          completed?: boolean
           created_at?: string
-          estimated_cost?: number | null
-          findings?: string | null
+          description?: string
+          estimated_cost?: number
+          expense_year?: number
           id?: string
-          inspection_id?: string | null
-          photos_urls?: string[] | null
-          priority_level?: string | null
-          recommendations?: string | null
-          report_url?: string | null
-          reviewed_at?: string | null
-          reviewed_by?: string | null
-          status?: string | null
+          inspection_id?: string
+          roof_id?: string
+          scope_of_work?: string | null
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "inspection_reports_inspection_id_fkey"
+            foreignKeyName: "inspection_capital_expenses_inspection_id_fkey"
             columns: ["inspection_id"]
             isOneToOne: false
             referencedRelation: "inspections"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "inspection_reports_reviewed_by_fkey"
-            columns: ["reviewed_by"]
+            foreignKeyName: "inspection_capital_expenses_roof_id_fkey"
+            columns: ["roof_id"]
             isOneToOne: false
-            referencedRelation: "users"
+            referencedRelation: "roofs"
             referencedColumns: ["id"]
           },
         ]
       }
-      inspections: {
+      inspection_deficiencies: {
         Row: {
-          completed_date: string | null
+          based_on_version: number | null
+          budget_amount: number
+          category: string
           created_at: string
+          deficiency_id: string | null
+          description: string | null
+          follow_up_applied: boolean
           id: string
-          inspection_type: string | null
-          inspector_id: string | null
-          notes: string | null
-          roof_id: string | null
-          scheduled_date: string | null
-          status: string | null
+          inspection_id: string
+          location: string
+          observation_type: string
+          photo_file_ids: string[]
+          roof_id: string
+          severity: string
+          status: string
+          sync_key: string | null
           updated_at: string
-          weather_conditions: string | null
         }
         Insert: {
-          completed_date?: string | null
+          based_on_version?: number | null
+          budget_amount?: number
+          category: string
           created_at?: string
+          deficiency_id?: string | null
+          description?: string | null
+          follow_up_applied?: boolean
           id?: string
-          inspection_type?: string | null
-          inspector_id?: string | null
-          notes?: string | null
-          roof_id?: string | null
-          scheduled_date?: string | null
-          status?: string | null
+          inspection_id: string
+          location: string
+          observation_type?: string
+          photo_file_ids?: string[]
+          roof_id: string
+          severity?: string
+          status?: string
+          sync_key?: string | null
           updated_at?: string
-          weather_conditions?: string | null
         }
         Update: {
-          completed_date?: string | null
+          based_on_version?: number | null
+          budget_amount?: number
+          category?: string
           created_at?: string
+          deficiency_id?: string | null
+          description?: string | null
+          follow_up_applied?: boolean
           id?: string
-          inspection_type?: string | null
-          inspector_id?: string | null
-          notes?: string | null
-          roof_id?: string | null
-          scheduled_date?: string | null
-          status?: string | null
+          inspection_id?: string
+          location?: string
+          observation_type?: string
+          photo_file_ids?: string[]
+          roof_id?: string
+          severity?: string
+          status?: string
+          sync_key?: string | null
           updated_at?: string
-          weather_conditions?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "inspections_inspector_id_fkey"
-            columns: ["inspector_id"]
+            foreignKeyName: "inspection_deficiencies_inspection_id_fkey"
+            columns: ["inspection_id"]
             isOneToOne: false
-            referencedRelation: "users"
+            referencedRelation: "inspections"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "inspections_roof_id_fkey"
+            foreignKeyName: "inspection_deficiencies_roof_id_fkey"
             columns: ["roof_id"]
             isOneToOne: false
             referencedRelation: "roofs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "inspection_deficiencies_deficiency_id_fkey"
+            columns: ["deficiency_id"]
+            isOneToOne: false
+            referencedRelation: "deficiencies"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      inspector_routes: {
-        Row: {
-          created_at: string | null
-          estimated_travel_time: number | null
-          id: string
-          inspector_id: string
-          optimization_score: number | null
-          property_sequence: Json
-          route_date: string
-          total_distance: number | null
-          updated_at: string | null
-        }
-        Insert: {
-          created_at?: string | null
-          estimated_travel_time?: number | null
-          id?: string
-          inspector_id: string
-          optimization_score?: number | null
-          property_sequence?: Json
-          route_date: string
-          total_distance?: number | null
-          updated_at?: string | null
-        }
-        Update: {
-          created_at?: string | null
-          estimated_travel_time?: number | null
-          id?: string
-          inspector_id?: string
-          optimization_score?: number | null
-          property_sequence?: Json
-          route_date?: string
-          total_distance?: number | null
-          updated_at?: string | null
-        }
-        Relationships: []
-      }
-      profiles: {
+      inspection_extraction_reviews: {
         Row: {
-          auth_user_id: string
+          approved_roof_fields: string[]
+          corrected_data: Json | null
           created_at: string
-          email: string
-          first_name: string | null
+          extracted_data: Json
+          field_confidence: Json
+          file_name: string
+          file_size: number | null
           id: string
-          is_active: boolean | null
-          last_name: string | null
-          phone: string | null
+          inspection_id: string | null
+          low_confidence_fields: string[]
+          page_count: number
+          parser_version: string
+          raw_text: string
+          rejection_reason: string | null
+          review_reasons: string[]
+          reviewed_at: string | null
+          reviewed_by: string | null
+          roof_id: string | null
+          staged_path: string
+          status: string
+          suggested_match_confidence: number | null
+          suggested_roof_id: string | null
+          template_id: string
           updated_at: string
+          uploaded_by: string | null
         }
         Insert: {
-          auth_user_id: string
+          approved_roof_fields?: string[]
+          corrected_data?: Json | null
           created_at?: string
-          email: string
-          first_name?: string | null
+          extracted_data: Json
+          field_confidence?: Json
+          file_name: string
+          file_size?: number | null
           id?: string
-          is_active?: boolean | null
-          last_name?: string | null
-          phone?: string | null
+          inspection_id?: string | null
+          low_confidence_fields?: string[]
+          page_count: number
+          parser_version: string
+          raw_text: string
+          rejection_reason?: string | null
+          review_reasons?: string[]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          roof_id?: string | null
+          staged_path: string
+          status?: string
+          suggested_match_confidence?: number | null
+          suggested_roof_id?: string | null
+          template_id?: string
           updated_at?: string
+          uploaded_by?: string | null
         }
         Update: {
-          auth_user_id?: string
+          approved_roof_fields?: string[]
+          corrected_data?: Json | null
           created_at?: string
-          email?: string
-          first_name?: string | null
-          id?: string
-          is_active?: boolean | null
-          last_name?: string | null
-          phone?: string | null
-          updated_at?: string
-        }
-        Relationships: []
-      }
-      property_contact_assignments: {
-        Row: {
-          assigned_date: string | null
-          assignment_type: string
-          contact_id: string | null
-          created_at: string | null
-          id: string
-          is_active: boolean | null
-          notes: string | null
-          roof_id: string | null
-          updated_at: string | null
-        }
-        Insert: {
-          assigned_date?: string | null
-          assignment_type?: string
-          contact_id?: string | null
-          created_at?: string | null
-          id?: string
-          is_active?: boolean | null
-          notes?: string | null
-          roof_id?: string | null
-          updated_at?: string | null
-        }
-        Update: {
-          assigned_date?: string | null
-          assignment_type?: string
-          contact_id?: string | null
-          created_at?: string | null
+          extracted_data?: Json
+          field_confidence?: Json
+          file_name?: string
+          file_size?: number | null
           id?: string
-          is_active?: boolean | null
-          notes?: string | null
+          inspection_id?: string | null
+          low_confidence_fields?: string[]
+          page_count?: number
+          parser_version?: string
+          raw_text?: string
+          rejection_reason?: string | null
+          review_reasons?: string[]
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           roof_id?: string | null
-          updated_at?: string | null
+          staged_path?: string
+          status?: string
+          suggested_match_confidence?: number | null
+          suggested_roof_id?: string | null
+          template_id?: string
+          updated_at?: string
+          uploaded_by?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "property_contact_assignments_contact_id_fkey"
-            columns: ["contact_id"]
+            foreignKeyName: "inspection_extraction_reviews_inspection_id_fkey"
+            columns: ["inspection_id"]
             isOneToOne: false
-            referencedRelation: "client_contacts"
+            referencedRelation: "inspections"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "property_contact_assignments_roof_id_fkey"
+            foreignKeyName: "inspection_extraction_reviews_roof_id_fkey"
             columns: ["roof_id"]
             isOneToOne: false
             referencedRelation: "roofs"
             referencedColumns: ["id"]
           },
-        ]
-      }
-      property_groups: {
-        Row: {
-          client_id: string | null
-          created_at: string | null
-          created_by: string | null
-          group_type: string
-          id: string
-          metadata: Json | null
-          name: string
-          properties: Json
-          updated_at: string | null
-        }
-        Insert: {
-          client_id?: string | null
-          created_at?: string | null
-          created_by?: string | null
-          group_type: string
-          id?: string
-          metadata?: Json | null
-          name: string
-          properties?: Json
-          updated_at?: string | null
-        }
-        Update: {
-          client_id?: string | null
-          created_at?: string | null
-          created_by?: string | null
-          group_type?: string
-          id?: string
-          metadata?: Json | null
-          name?: string
-          properties?: Json
-          updated_at?: string | null
-        }
-        Relationships: [
           {
-            foreignKeyName: "property_groups_client_id_fkey"
-            columns: ["client_id"]
+            foreignKeyName: "inspection_extraction_reviews_suggested_roof_id_fkey"
+            columns: ["suggested_roof_id"]
             isOneToOne: false
-            referencedRelation: "clients"
+            referencedRelation: "roofs"
             referencedColumns: ["id"]
           },
         ]
       }
-      roof_files: {
+      inspection_ingestion_items: {
         Row: {
-          created_at: string | null
+          attempts: number
+          created_at: string
+          file_hash: string | null
           file_name: string
           file_size: number | null
-          file_type: string | null
-          file_url: string | null
+          finished_at: string | null
           id: string
-          is_public: boolean | null
-          mime_type: string | null
+          inspection_id: string | null
+          job_id: string
+          match_confidence: number | null
+          message: string | null
+          property_hint: string | null
+          review_id: string | null
           roof_id: string | null
-          storage_path: string | null
-          updated_at: string | null
-          uploaded_by: string | null
+          source_path: string
+          started_at: string | null
+          status: string
+          storage_path: string
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
+          attempts?: number
+          created_at?: string
+          file_hash?: string | null
           file_name: string
           file_size?: number | null
-          file_type?: string | null
-          file_url?: string | null
+          finished_at?: string | null
           id?: string
-          is_public?: boolean | null
-          mime_type?: string | null
+          inspection_id?: string | null
+          job_id: string
+          match_confidence?: number | null
+          message?: string | null
+          property_hint?: string | null
+          review_id?: string | null
           roof_id?: string | null
-          storage_path?: string | null
-          updated_at?: string | null
-          uploaded_by?: string | null
+          source_path: string
+          started_at?: string | null
+          status?: string
+          storage_path: string
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
+          attempts?: number
+          created_at?: string
+          file_hash?: string | null
           file_name?: string
           file_size?: number | null
-          file_type?: string | null
-          file_url?: string | null
+          finished_at?: string | null
           id?: string
-          is_public?: boolean | null
-          mime_type?: string | null
+          inspection_id?: string | null
+          job_id?: string
+          match_confidence?: number | null
+          message?: string | null
+          property_hint?: string | null
+          review_id?: string | null
           roof_id?: string | null
-          storage_path?: string | null
-          updated_at?: string | null
-          uploaded_by?: string | null
+          source_path?: string
+          started_at?: string | null
+          status?: string
+          storage_path?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "roof_files_roof_id_fkey"
-            columns: ["roof_id"]
+            foreignKeyName: "inspection_ingestion_items_inspection_id_fkey"
+            columns: ["inspection_id"]
             isOneToOne: false
-            referencedRelation: "roofs"
+            referencedRelation: "inspections"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "roof_files_uploaded_by_fkey"
-            columns: ["uploaded_by"]
+            foreignKeyName: "inspection_ingestion_items_job_id_fkey"
+            columns: ["job_id"]
             isOneToOne: false
-            referencedRelation: "users"
+            referencedRelation: "inspection_ingestion_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspection_ingestion_items_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_extraction_reviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspection_ingestion_items_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
             referencedColumns: ["id"]
           },
         ]
       }
-      roofs: {
+      inspection_ingestion_jobs: {
         Row: {
-          access_location: string | null
-          access_requirements: string | null
-          address: string
-          asset_manager_email: string | null
-          asset_manager_name: string | null
-          asset_manager_phone: string | null
-          capital_budget_actual: string | null
-          capital_budget_category: string | null
-          capital_budget_completed: string | null
-          capital_budget_estimated: number | null
-          capital_budget_scope_of_work: string | null
-          capital_budget_year: number | null
-          city: string
-          client_id: string | null
+          archive_path: string | null
+          completed_at: string | null
           created_at: string
-          customer: string | null
-          customer_sensitivity: string | null
-          drainage_system: string | null
-          estimated_lttr_value: number | null
-          flashing_detail: string | null
-          has_daylighting: boolean | null
-          has_solar: boolean | null
+          created_by: string | null
+          duplicate_count: number
+          error: string | null
+          failed_count: number
           id: string
-          install_date: string | null
-          install_year: number | null
-          installer_has_warranty: boolean | null
-          installer_warranty_expiration: string | null
-          installer_warranty_number: string | null
-          installer_warranty_term: string | null
-          installing_contractor: string | null
-          is_deleted: boolean | null
-          last_inspection_date: string | null
-          latitude: number | null
-          longitude: number | null
-          maintenance_contact_name: string | null
-          maintenance_contact_phone: string | null
-          manufacturer: string | null
-          manufacturer_has_warranty: boolean | null
-          manufacturer_warranty_expiration: string | null
-          manufacturer_warranty_number: string | null
-          manufacturer_warranty_term: string | null
-          market: string | null
-          next_inspection_due: string | null
-          notes: string | null
-          occupant_concern: string | null
-          perimeter_detail: string | null
-          preventative_budget_actual: string | null
-          preventative_budget_category: string | null
-          preventative_budget_completed: string | null
-          preventative_budget_estimated: number | null
-          preventative_budget_scope_of_work: string | null
-          preventative_budget_year: number | null
-          property_code: string | null
-          property_manager_email: string | null
-          property_manager_mobile: string | null
-          property_manager_name: string | null
-          property_manager_phone: string | null
-          property_name: string
-          region: string | null
-          repair_contractor: string | null
-          roof_access: string | null
-          roof_access_location: string | null
-          roof_access_requirements: string | null
-          roof_access_safety_concern: string | null
-          roof_area: number | null
-          roof_area_unit: string | null
-          roof_category: string | null
-          roof_group: string | null
-          roof_rating: number | null
-          roof_section: string | null
-          roof_system: string | null
-          roof_system_description: string | null
-          roof_type: string | null
-          safety_concerns: boolean | null
-          site_contact: string | null
-          site_contact_email: string | null
-          site_contact_mobile_phone: string | null
-          site_contact_name: string | null
-          site_contact_office_phone: string | null
-          site_contact_phone: string | null
-          state: string
+          last_activity_at: string | null
+          name: string
+          review_count: number
+          skipped_count: number
+          source_type: string
+          status: string
+          stored_count: number
+          total_files: number
+          updated_at: string
+          worker_run_id: string | null
+        }
+        Insert: {
+          archive_path?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          duplicate_count?: number
+          error?: string | null
+          failed_count?: number
+          id?: string
+          last_activity_at?: string | null
+          name: string
+          review_count?: number
+          skipped_count?: number
+          source_type: string
+          status?: string
+          stored_count?: number
+          total_files?: number
+          updated_at?: string
+          worker_run_id?: string | null
+        }
+        Update: {
+          archive_path?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          duplicate_count?: number
+          error?: string | null
+          failed_count?: number
+          id?: string
+          last_activity_at?: string | null
+          name?: string
+          review_count?: number
+          skipped_count?: number
+          source_type?: string
+          status?: string
+          stored_count?: number
+          total_files?: number
+          updated_at?: string
+          worker_run_id?: string | null
+        }
+        Relationships: []
+      }
+      inspection_reports: {
+        Row: {
+          created_at: string
+          estimated_cost: number | null
+          findings: string | null
+          id: string
+          inspection_id: string | null
+          photos_urls: string[] | null
+          priority_level: string | null
+          recommendations: string | null
+          report_url: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           status: string | null
-          time_zone: string | null
-          total_leak_expense_12mo: string | null
-          total_leaks_12mo: string | null
           updated_at: string
-          warranty_expiration: string | null
-          zip: string
         }
         Insert: {
-          access_location?: string | null
-          access_requirements?: string | null
-          address: string
-          asset_manager_email?: string | null
-          asset_manager_name?: string | null
-          asset_manager_phone?: string | null
-          capital_budget_actual?: string | null
-          capital_budget_category?: string | null
-          capital_budget_completed?: string | null
-          capital_budget_estimated?: number | null
-          capital_budget_scope_of_work?: string | null
-          capital_budget_year?: number | null
-          city: string
-          client_id?: string | null
           created_at?: string
-          customer?: string | null
-          customer_sensitivity?: string | null
-          drainage_system?: string | null
-          estimated_lttr_value?: number | null
-          flashing_detail?: string | null
-          has_daylighting?: boolean | null
-          has_solar?: boolean | null
+          estimated_cost?: number | null
+          findings?: string | null
           id?: string
-          install_date?: string | null
-          install_year?: number | null
-          installer_has_warranty?: boolean | null
-          installer_warranty_expiration?: string | null
-          installer_warranty_number?: string | null
-          installer_warranty_term?: string | null
-          installing_contractor?: string | null
-          is_deleted?: boolean | null
-          last_inspection_date?: string | null
-          latitude?: number | null
-          longitude?: number | null
-          maintenance_contact_name?: string | null
-          maintenance_contact_phone?: string | null
-          manufacturer?: string | null
-          manufacturer_has_warranty?: boolean | null
-          manufacturer_warranty_expiration?: string | null
-          manufacturer_warranty_number?: string | null
-          manufacturer_warranty_term?: string | null
-          market?: string | null
-          next_inspection_due?: string | null
-          notes?: string | null
-          occupant_concern?: string | null
-          perimeter_detail?: string | null
-          preventative_budget_actual?: string | null
-          preventative_budget_category?: string | null
-          preventative_budget_completed?: string | null
-          preventative_budget_estimated?: number | null
-          preventative_budget_scope_of_work?: string | null
-          preventative_budget_year?: number | null
-          property_code?: string | null
-          property_manager_email?: string | null
-          property_manager_mobile?: string | null
-          property_manager_name?: string | null
-          property_manager_phone?: string | null
-          property_name: string
-          region?: string | null
-          repair_contractor?: string | null
-          roof_access?: string | null
-          roof_access_location?: string | null
-          roof_access_requirements?: string | null
-          roof_access_safety_concern?: string | null
-          roof_area?: number | null
-          roof_area_unit?: string | null
-          roof_category?: string | null
-          roof_group?: string | null
-          roof_rating?: number | null
-          roof_section?: string | null
-          roof_system?: string | null
-          roof_system_description?: string | null
-          roof_type?: string | null
-          safety_concerns?: boolean | null
-          site_contact?: string | null
-          site_contact_email?: string | null
-          site_contact_mobile_phone?: string | null
-          site_contact_name?: string | null
-          site_contact_office_phone?: string | null
-          site_contact_phone?: string | null
-          state: string
+          inspection_id?: string | null
+          photos_urls?: string[] | null
+          priority_level?: string | null
+          recommendations?: string | null
+          report_url?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           status?: string | null
-          time_zone?: string | null
-          total_leak_expense_12mo?: string | null
-          total_leaks_12mo?: string | null
           updated_at?: string
-          warranty_expiration?: string | null
-          zip: string
         }
         Update: {
-          access_location?: string | null
-          access_requirements?: string | null
-          address?: string
-          asset_manager_email?: string | null
-          asset_manager_name?: string | null
-          asset_manager_phone?: string | null
-          capital_budget_actual?: string | null
-          capital_budget_category?: string | null
-          capital_budget_completed?: string | null
-          capital_budget_estimated?: number | null
-          capital_budget_scope_of_work?: string | null
-          capital_budget_year?: number | null
-          city?: string
-          client_id?: string | null
           created_at?: string
-          customer?: string | null
-          customer_sensitivity?: string | null
-          drainage_system?: string | null
-          estimated_lttr_value?: number | null
-          flashing_detail?: string | null
-          has_daylighting?: boolean | null
-          has_solar?: boolean | null
+          estimated_cost?: number | null
+          findings?: string | null
           id?: string
-          install_date?: string | null
-          install_year?: number | null
-          installer_has_warranty?: boolean | null
-          installer_warranty_expiration?: string | null
-          installer_warranty_number?: string | null
-          installer_warranty_term?: string | null
-          installing_contractor?: string | null
-          is_deleted?: boolean | null
-          last_inspection_date?: string | null
-          latitude?: number | null
-          longitude?: number | null
-          maintenance_contact_name?: string | null
-          maintenance_contact_phone?: string | null
-          manufacturer?: string | null
-          manufacturer_has_warranty?: boolean | null
-          manufacturer_warranty_expiration?: string | null
-          manufacturer_warranty_number?: string | null
-          manufacturer_warranty_term?: string | null
-          market?: string | null
-          next_inspection_due?: string | null
-          notes?: string | null
-          occupant_concern?: string | null
+          inspection_id?: string | null
+          photos_urls?: string[] | null
+          priority_level?: string | null
+          recommendations?: string | null
+          report_url?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_reports_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: false
+            referencedRelation: "inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspection_reports_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspection_source_documents: {
+        Row: {
+          created_at: string
+          extracted_data: Json
+          field_confidence: Json
+          file_name: string
+          file_size: number | null
+          id: string
+          inspection_id: string
+          page_count: number
+          parsed_at: string
+          parser_version: string
+          raw_text: string
+          template_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          extracted_data?: Json
+          field_confidence?: Json
+          file_name: string
+          file_size?: number | null
+          id?: string
+          inspection_id: string
+          page_count: number
+          parsed_at?: string
+          parser_version: string
+          raw_text: string
+          template_id?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          extracted_data?: Json
+          field_confidence?: Json
+          file_name?: string
+          file_size?: number | null
+          id?: string
+          inspection_id?: string
+          page_count?: number
+          parsed_at?: string
+          parser_version?: string
+          raw_text?: string
+          template_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_source_documents_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: true
+            referencedRelation: "inspections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspection_voice_notes: {
+        Row: {
+          audio_file_id: string | null
+          created_at: string
+          id: string
+          inspection_id: string | null
+          recorded_at: string
+          roof_id: string
+          sync_key: string | null
+          transcript: string | null
+          updated_at: string
+        }
+        Insert: {
+          audio_file_id?: string | null
+          created_at?: string
+          id?: string
+          inspection_id?: string | null
+          recorded_at?: string
+          roof_id: string
+          sync_key?: string | null
+          transcript?: string | null
+          updated_at?: string
+        }
+        Update: {
+          audio_file_id?: string | null
+          created_at?: string
+          id?: string
+          inspection_id?: string | null
+          recorded_at?: string
+          roof_id?: string
+          sync_key?: string | null
+          transcript?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspection_voice_notes_audio_file_id_fkey"
+            columns: ["audio_file_id"]
+            isOneToOne: false
+            referencedRelation: "roof_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspection_voice_notes_inspection_id_fkey"
+            columns: ["inspection_id"]
+            isOneToOne: false
+            referencedRelation: "inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspection_voice_notes_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspections: {
+        Row: {
+          completed_date: string | null
+          created_at: string
+          ended_at: string | null
+          id: string
+          inspection_type: string | null
+          inspector_id: string | null
+          notes: string | null
+          overview_photo_file_ids: string[]
+          roof_id: string | null
+          roof_square_footage_confirmed: boolean | null
+          scheduled_date: string | null
+          started_at: string | null
+          status: string | null
+          summary: Json
+          sync_key: string | null
+          updated_at: string
+          weather_conditions: string | null
+        }
+        Insert: {
+          completed_date?: string | null
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          inspection_type?: string | null
+          inspector_id?: string | null
+          notes?: string | null
+          overview_photo_file_ids?: string[]
+          roof_id?: string | null
+          roof_square_footage_confirmed?: boolean | null
+          scheduled_date?: string | null
+          started_at?: string | null
+          status?: string | null
+          summary?: Json
+          sync_key?: string | null
+          updated_at?: string
+          weather_conditions?: string | null
+        }
+        Update: {
+          completed_date?: string | null
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          inspection_type?: string | null
+          inspector_id?: string | null
+          notes?: string | null
+          overview_photo_file_ids?: string[]
+          roof_id?: string | null
+          roof_square_footage_confirmed?: boolean | null
+          scheduled_date?: string | null
+          started_at?: string | null
+          status?: string | null
+          summary?: Json
+          sync_key?: string | null
+          updated_at?: string
+          weather_conditions?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspections_inspector_id_fkey"
+            columns: ["inspector_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inspections_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inspector_routes: {
+        Row: {
+          campaign_id: string | null
+          created_at: string | null
+          day_number: number | null
+          end_location: Json | null
+          estimated_travel_time: number | null
+          id: string
+          inspection_minutes: number | null
+          inspector_id: string
+          optimization_score: number | null
+          overnight_stay: boolean
+          plan_id: string | null
+          property_sequence: Json
+          route_date: string
+          shift_minutes: number | null
+          start_location: Json | null
+          stop_schedule: Json
+          total_distance: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          campaign_id?: string | null
+          created_at?: string | null
+          day_number?: number | null
+          end_location?: Json | null
+          estimated_travel_time?: number | null
+          id?: string
+          inspection_minutes?: number | null
+          inspector_id: string
+          optimization_score?: number | null
+          overnight_stay?: boolean
+          plan_id?: string | null
+          property_sequence?: Json
+          route_date: string
+          shift_minutes?: number | null
+          start_location?: Json | null
+          stop_schedule?: Json
+          total_distance?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          campaign_id?: string | null
+          created_at?: string | null
+          day_number?: number | null
+          end_location?: Json | null
+          estimated_travel_time?: number | null
+          id?: string
+          inspection_minutes?: number | null
+          inspector_id?: string
+          optimization_score?: number | null
+          overnight_stay?: boolean
+          plan_id?: string | null
+          property_sequence?: Json
+          route_date?: string
+          shift_minutes?: number | null
+          start_location?: Json | null
+          stop_schedule?: Json
+          total_distance?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inspector_routes_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maintenance_plans: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          day_of_month: number
+          description: string | null
+          end_date: string | null
+          estimated_cost: number | null
+          horizon_days: number
+          id: string
+          interval_months: number | null
+          is_active: boolean
+          maintenance_type: string
+          priority: string
+          recurrence_months: number[]
+          roof_group: string | null
+          roof_id: string | null
+          start_date: string
+          title: string
+          updated_at: string
+          vendor_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          day_of_month?: number
+          description?: string | null
+          end_date?: string | null
+          estimated_cost?: number | null
+          horizon_days?: number
+          id?: string
+          interval_months?: number | null
+          is_active?: boolean
+          maintenance_type?: string
+          priority?: string
+          recurrence_months?: number[]
+          roof_group?: string | null
+          roof_id?: string | null
+          start_date?: string
+          title: string
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          day_of_month?: number
+          description?: string | null
+          end_date?: string | null
+          estimated_cost?: number | null
+          horizon_days?: number
+          id?: string
+          interval_months?: number | null
+          is_active?: boolean
+          maintenance_type?: string
+          priority?: string
+          recurrence_months?: number[]
+          roof_group?: string | null
+          roof_id?: string | null
+          start_date?: string
+          title?: string
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_plans_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_plans_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maintenance_tasks: {
+        Row: {
+          actual_cost: number | null
+          completed_by: string | null
+          completed_date: string | null
+          completion_notes: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          estimated_cost: number | null
+          id: string
+          maintenance_type: string
+          plan_id: string | null
+          priority: string
+          roof_id: string
+          scheduled_date: string
+          status: string
+          title: string
+          updated_at: string
+          vendor_id: string | null
+          work_order_id: string | null
+        }
+        Insert: {
+          actual_cost?: number | null
+          completed_by?: string | null
+          completed_date?: string | null
+          completion_notes?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          estimated_cost?: number | null
+          id?: string
+          maintenance_type?: string
+          plan_id?: string | null
+          priority?: string
+          roof_id: string
+          scheduled_date: string
+          status?: string
+          title: string
+          updated_at?: string
+          vendor_id?: string | null
+          work_order_id?: string | null
+        }
+        Update: {
+          actual_cost?: number | null
+          completed_by?: string | null
+          completed_date?: string | null
+          completion_notes?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          estimated_cost?: number | null
+          id?: string
+          maintenance_type?: string
+          plan_id?: string | null
+          priority?: string
+          roof_id?: string
+          scheduled_date?: string
+          status?: string
+          title?: string
+          updated_at?: string
+          vendor_id?: string | null
+          work_order_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_tasks_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "maintenance_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_tasks_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_tasks_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_tasks_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          auth_user_id: string
+          created_at: string
+          email: string
+          first_name: string | null
+          id: string
+          is_active: boolean | null
+          last_name: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          auth_user_id: string
+          created_at?: string
+          email: string
+          first_name?: string | null
+          id?: string
+          is_active?: boolean | null
+          last_name?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          auth_user_id?: string
+          created_at?: string
+          email?: string
+          first_name?: string | null
+          id?: string
+          is_active?: boolean | null
+          last_name?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      property_contact_assignments: {
+        Row: {
+          assigned_date: string | null
+          assignment_type: string
+          contact_id: string | null
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          notes: string | null
+          roof_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          assigned_date?: string | null
+          assignment_type?: string
+          contact_id?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          notes?: string | null
+          roof_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          assigned_date?: string | null
+          assignment_type?: string
+          contact_id?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          notes?: string | null
+          roof_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_contact_assignments_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "client_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "property_contact_assignments_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      property_groups: {
+        Row: {
+          client_id: string | null
+          created_at: string | null
+          created_by: string | null
+          group_type: string
+          id: string
+          metadata: Json | null
+          name: string
+          properties: Json
+          updated_at: string | null
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          group_type: string
+          id?: string
+          metadata?: Json | null
+          name: string
+          properties?: Json
+          updated_at?: string | null
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          group_type?: string
+          id?: string
+          metadata?: Json | null
+          name?: string
+          properties?: Json
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_groups_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roof_files: {
+        Row: {
+          created_at: string | null
+          file_name: string
+          file_size: number | null
+          file_type: string | null
+          file_url: string | null
+          id: string
+          is_public: boolean | null
+          metadata: Json
+          mime_type: string | null
+          roof_id: string | null
+          storage_path: string | null
+          sync_key: string | null
+          updated_at: string | null
+          uploaded_by: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          file_name: string
+          file_size?: number | null
+          file_type?: string | null
+          file_url?: string | null
+          id?: string
+          is_public?: boolean | null
+          metadata?: Json
+          mime_type?: string | null
+          roof_id?: string | null
+          storage_path?: string | null
+          sync_key?: string | null
+          updated_at?: string | null
+          uploaded_by?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          file_name?: string
+          file_size?: number | null
+          file_type?: string | null
+          file_url?: string | null
+          id?: string
+          is_public?: boolean | null
+          metadata?: Json
+          mime_type?: string | null
+          roof_id?: string | null
+          storage_path?: string | null
+          sync_key?: string | null
+          updated_at?: string | null
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roof_files_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roof_files_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roof_merges: {
+        Row: {
+          created_at: string
+          id: string
+          kept_roof_id: string
+          match_score: number | null
+          merged_by: string | null
+          merged_roof_id: string
+          merged_snapshot: Json
+          moved_counts: Json
+          overwritten_values: Json
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kept_roof_id: string
+          match_score?: number | null
+          merged_by?: string | null
+          merged_roof_id: string
+          merged_snapshot: Json
+          moved_counts?: Json
+          overwritten_values?: Json
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kept_roof_id?: string
+          match_score?: number | null
+          merged_by?: string | null
+          merged_roof_id?: string
+          merged_snapshot?: Json
+          moved_counts?: Json
+          overwritten_values?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roof_merges_kept_roof_id_fkey"
+            columns: ["kept_roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roof_merges_merged_roof_id_fkey"
+            columns: ["merged_roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roofs: {
+        Row: {
+          access_location: string | null
+          access_requirements: string | null
+          address: string
+          asset_manager_email: string | null
+          asset_manager_name: string | null
+          asset_manager_phone: string | null
+          capital_budget_actual: string | null
+          capital_budget_category: string | null
+          capital_budget_completed: string | null
+          capital_budget_estimated: number | null
+          capital_budget_scope_of_work: string | null
+          capital_budget_year: number | null
+          city: string
+          client_id: string | null
+          created_at: string
+          customer: string | null
+          customer_sensitivity: string | null
+          drainage_system: string | null
+          estimated_lttr_value: number | null
+          flashing_detail: string | null
+          geocode_mismatch: string | null
+          geocode_precision: string | null
+          geocode_source: string | null
+          geocoded_at: string | null
+          has_daylighting: boolean | null
+          has_solar: boolean | null
+          id: string
+          install_date: string | null
+          install_year: number | null
+          installer_has_warranty: boolean | null
+          installer_warranty_expiration: string | null
+          installer_warranty_number: string | null
+          installer_warranty_term: string | null
+          installing_contractor: string | null
+          is_deleted: boolean | null
+          last_inspection_date: string | null
+          latitude: number | null
+          longitude: number | null
+          maintenance_contact_name: string | null
+          maintenance_contact_phone: string | null
+          manufacturer: string | null
+          manufacturer_has_warranty: boolean | null
+          manufacturer_warranty_expiration: string | null
+          manufacturer_warranty_number: string | null
+          manufacturer_warranty_term: string | null
+          market: string | null
+          next_inspection_due: string | null
+          notes: string | null
+          occupant_concern: string | null
+          perimeter_detail: string | null
+          preventative_budget_actual: string | null
+          preventative_budget_category: string | null
+          preventative_budget_completed: string | null
+          preventative_budget_estimated: number | null
+          preventative_budget_scope_of_work: string | null
+          preventative_budget_year: number | null
+          property_code: string | null
+          property_manager_email: string | null
+          property_manager_mobile: string | null
+          property_manager_name: string | null
+          property_manager_phone: string | null
+          property_name: string
+          region: string | null
+          repair_contractor: string | null
+          roof_access: string | null
+          roof_access_location: string | null
+          roof_access_requirements: string | null
+          roof_access_safety_concern: string | null
+          roof_area: number | null
+          roof_area_unit: string | null
+          roof_category: string | null
+          roof_group: string | null
+          roof_rating: number | null
+          roof_section: string | null
+          roof_system: string | null
+          roof_system_description: string | null
+          roof_type: string | null
+          safety_concerns: boolean | null
+          site_contact: string | null
+          site_contact_email: string | null
+          site_contact_mobile_phone: string | null
+          site_contact_name: string | null
+          site_contact_office_phone: string | null
+          site_contact_phone: string | null
+          state: string
+          status: string | null
+          time_zone: string | null
+          total_leak_expense_12mo: string | null
+          total_leaks_12mo: string | null
+          updated_at: string
+          version: number
+          warranty_expiration: string | null
+          zip: string
+        }
+        Insert: {
+          access_location?: string | null
+          access_requirements?: string | null
+          address: string
+          asset_manager_email?: string | null
+          asset_manager_name?: string | null
+          asset_manager_phone?: string | null
+          capital_budget_actual?: string | null
+          capital_budget_category?: string | null
+          capital_budget_completed?: string | null
+          capital_budget_estimated?: number | null
+          capital_budget_scope_of_work?: string | null
+          capital_budget_year?: number | null
+          city: string
+          client_id?: string | null
+          created_at?: string
+          customer?: string | null
+          customer_sensitivity?: string | null
+          drainage_system?: string | null
+          estimated_lttr_value?: number | null
+          flashing_detail?: string | null
+          geocode_mismatch?: string | null
+          geocode_precision?: string | null
+          geocode_source?: string | null
+          geocoded_at?: string | null
+          has_daylighting?: boolean | null
+          has_solar?: boolean | null
+          id?: string
+          install_date?: string | null
+          install_year?: number | null
+          installer_has_warranty?: boolean | null
+          installer_warranty_expiration?: string | null
+          installer_warranty_number?: string | null
+          installer_warranty_term?: string | null
+          installing_contractor?: string | null
+          is_deleted?: boolean | null
+          last_inspection_date?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          maintenance_contact_name?: string | null
+          maintenance_contact_phone?: string | null
+          manufacturer?: string | null
+          manufacturer_has_warranty?: boolean | null
+          manufacturer_warranty_expiration?: string | null
+          manufacturer_warranty_number?: string | null
+          manufacturer_warranty_term?: string | null
+          market?: string | null
+          next_inspection_due?: string | null
+          notes?: string | null
+          occupant_concern?: string | null
+          perimeter_detail?: string | null
+          preventative_budget_actual?: string | null
+          preventative_budget_category?: string | null
+          preventative_budget_completed?: string | null
+          preventative_budget_estimated?: number | null
+          preventative_budget_scope_of_work?: string | null
+          preventative_budget_year?: number | null
+          property_code?: string | null
+          property_manager_email?: string | null
+          property_manager_mobile?: string | null
+          property_manager_name?: string | null
+          property_manager_phone?: string | null
+          property_name: string
+          region?: string | null
+          repair_contractor?: string | null
+          roof_access?: string | null
+          roof_access_location?: string | null
+          roof_access_requirements?: string | null
+          roof_access_safety_concern?: string | null
+          roof_area?: number | null
+          roof_area_unit?: string | null
+          roof_category?: string | null
+          roof_group?: string | null
+          roof_rating?: number | null
+          roof_section?: string | null
+          roof_system?: string | null
+          roof_system_description?: string | null
+          roof_type?: string | null
+          safety_concerns?: boolean | null
+          site_contact?: string | null
+          site_contact_email?: string | null
+          site_contact_mobile_phone?: string | null
+          site_contact_name?: string | null
+          site_contact_office_phone?: string | null
+          site_contact_phone?: string | null
+          state: string
+          status?: string | null
+          time_zone?: string | null
+          total_leak_expense_12mo?: string | null
+          total_leaks_12mo?: string | null
+          updated_at?: string
+          version?: number
+          warranty_expiration?: string | null
+          zip: string
+        }
+        Update: {
+          access_location?: string | null
+          access_requirements?: string | null
+          address?: string
+          asset_manager_email?: string | null
+          asset_manager_name?: string | null
+          asset_manager_phone?: string | null
+          capital_budget_actual?: string | null
+          capital_budget_category?: string | null
+          capital_budget_completed?: string | null
+          capital_budget_estimated?: number | null
+          capital_budget_scope_of_work?: string | null
+          capital_budget_year?: number | null
+          city?: string
+          client_id?: string | null
+          created_at?: string
+          customer?: string | null
+          customer_sensitivity?: string | null
+          drainage_system?: string | null
+          estimated_lttr_value?: number | null
+          flashing_detail?: string | null
+          geocode_mismatch?: string | null
+          geocode_precision?: string | null
+          geocode_source?: string | null
+          geocoded_at?: string | null
+          has_daylighting?: boolean | null
+          has_solar?: boolean | null
+          id?: string
+          install_date?: string | null
+          install_year?: number | null
+          installer_has_warranty?: boolean | null
+          installer_warranty_expiration?: string | null
+          installer_warranty_number?: string | null
+          installer_warranty_term?: string | null
+          installing_contractor?: string | null
+          is_deleted?: boolean | null
+          last_inspection_date?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          maintenance_contact_name?: string | null
+          maintenance_contact_phone?: string | null
+          manufacturer?: string | null
+          manufacturer_has_warranty?: boolean | null
+          manufacturer_warranty_expiration?: string | null
+          manufacturer_warranty_number?: string | null
+          manufacturer_warranty_term?: string | null
+          market?: string | null
+          next_inspection_due?: string | null
+          notes?: string | null
+          occupant_concern?: string | null
           perimeter_detail?: string | null
           preventative_budget_actual?: string | null
           preventative_budget_category?: string | null
@@ -1027,187 +2314,1103 @@ export type Database = {
           site_contact_phone?: string | null
           state?: string
           status?: string | null
-          time_zone?: string | null
-          total_leak_expense_12mo?: string | null
-          total_leaks_12mo?: string | null
+          time_zone?: string | null
+          total_leak_expense_12mo?: string | null
+          total_leaks_12mo?: string | null
+          updated_at?: string
+          version?: number
+          warranty_expiration?: string | null
+          zip?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roofs_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seasonal_preferences: {
+        Row: {
+          avoid_conditions: string[] | null
+          client_id: string | null
+          created_at: string | null
+          id: string
+          optimal_temperature_range: Json | null
+          preferred_months: number[] | null
+          region: string | null
+          season: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          avoid_conditions?: string[] | null
+          client_id?: string | null
+          created_at?: string | null
+          id?: string
+          optimal_temperature_range?: Json | null
+          preferred_months?: number[] | null
+          region?: string | null
+          season?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          avoid_conditions?: string[] | null
+          client_id?: string | null
+          created_at?: string | null
+          id?: string
+          optimal_temperature_range?: Json | null
+          preferred_months?: number[] | null
+          region?: string | null
+          season?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seasonal_preferences_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["auth_user_id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          auth_user_id: string | null
+          created_at: string
+          email: string
+          first_name: string | null
+          id: string
+          is_active: boolean | null
+          last_name: string | null
+          phone: string | null
+          role: string | null
+          updated_at: string
+        }
+        Insert: {
+          auth_user_id?: string | null
+          created_at?: string
+          email: string
+          first_name?: string | null
+          id?: string
+          is_active?: boolean | null
+          last_name?: string | null
+          phone?: string | null
+          role?: string | null
+          updated_at?: string
+        }
+        Update: {
+          auth_user_id?: string | null
+          created_at?: string
+          email?: string
+          first_name?: string | null
+          id?: string
+          is_active?: boolean | null
+          last_name?: string | null
+          phone?: string | null
+          role?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      vendors: {
+        Row: {
+          address: string | null
+          city: string | null
+          company_name: string
+          contact_name: string | null
+          created_at: string
+          email: string | null
+          id: string
+          phone: string | null
+          state: string | null
+          status: string | null
+          updated_at: string
+          vendor_type: string | null
+          zip: string | null
+        }
+        Insert: {
+          address?: string | null
+          city?: string | null
+          company_name: string
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          phone?: string | null
+          state?: string | null
+          status?: string | null
+          updated_at?: string
+          vendor_type?: string | null
+          zip?: string | null
+        }
+        Update: {
+          address?: string | null
+          city?: string | null
+          company_name?: string
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          phone?: string | null
+          state?: string | null
+          status?: string | null
+          updated_at?: string
+          vendor_type?: string | null
+          zip?: string | null
+        }
+        Relationships: []
+      }
+      warranties: {
+        Row: {
+          alert_lead_days: number
+          coverage_type: string
+          covered_area_sqft: number | null
+          created_at: string
+          created_by: string | null
+          current_holder: string | null
+          exclusions: string[]
+          expiration_date: string | null
+          id: string
+          maintenance_requirements: Json
+          notes: string | null
+          provider: string | null
+          renewable: boolean
+          renewal_cost: number | null
+          roof_id: string
+          section_scope: string | null
+          source_column: string | null
+          start_date: string | null
+          status: string
+          supersedes_warranty_id: string | null
+          term_description: string | null
+          term_years: number | null
+          updated_at: string
+          warranty_number: string | null
+          warranty_type: string
+        }
+        Insert: {
+          alert_lead_days?: number
+          coverage_type?: string
+          covered_area_sqft?: number | null
+          created_at?: string
+          created_by?: string | null
+          current_holder?: string | null
+          exclusions?: string[]
+          expiration_date?: string | null
+          id?: string
+          maintenance_requirements?: Json
+          notes?: string | null
+          provider?: string | null
+          renewable?: boolean
+          renewal_cost?: number | null
+          roof_id: string
+          section_scope?: string | null
+          source_column?: string | null
+          start_date?: string | null
+          status?: string
+          supersedes_warranty_id?: string | null
+          term_description?: string | null
+          term_years?: number | null
+          updated_at?: string
+          warranty_number?: string | null
+          warranty_type: string
+        }
+        Update: {
+          alert_lead_days?: number
+          coverage_type?: string
+          covered_area_sqft?: number | null
+          created_at?: string
+          created_by?: string | null
+          current_holder?: string | null
+          exclusions?: string[]
+          expiration_date?: string | null
+          id?: string
+          maintenance_requirements?: Json
+          notes?: string | null
+          provider?: string | null
+          renewable?: boolean
+          renewal_cost?: number | null
+          roof_id?: string
+          section_scope?: string | null
+          source_column?: string | null
+          start_date?: string | null
+          status?: string
+          supersedes_warranty_id?: string | null
+          term_description?: string | null
+          term_years?: number | null
+          updated_at?: string
+          warranty_number?: string | null
+          warranty_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "warranties_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "warranties_supersedes_warranty_id_fkey"
+            columns: ["supersedes_warranty_id"]
+            isOneToOne: false
+            referencedRelation: "warranties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      warranty_claim_documents: {
+        Row: {
+          claim_id: string
+          created_at: string
+          document_type: string
+          file_id: string
+          id: string
+          notes: string | null
+          updated_at: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          claim_id: string
+          created_at?: string
+          document_type?: string
+          file_id: string
+          id?: string
+          notes?: string | null
+          updated_at?: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          claim_id?: string
+          created_at?: string
+          document_type?: string
+          file_id?: string
+          id?: string
+          notes?: string | null
+          updated_at?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "warranty_claim_documents_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "warranty_claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "warranty_claim_documents_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "roof_files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      warranty_claim_events: {
+        Row: {
+          actor: string | null
+          amount: number | null
+          claim_id: string
+          created_at: string
+          from_status: string | null
+          id: string
+          notes: string | null
+          to_status: string
+        }
+        Insert: {
+          actor?: string | null
+          amount?: number | null
+          claim_id: string
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          notes?: string | null
+          to_status: string
+        }
+        Update: {
+          actor?: string | null
+          amount?: number | null
+          claim_id?: string
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          notes?: string | null
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "warranty_claim_events_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "warranty_claims"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      warranty_claims: {
+        Row: {
+          approved_amount: number | null
+          claim_amount: number
+          claim_number: string
+          completed_at: string | null
+          created_at: string
+          decided_at: string | null
+          decision: string | null
+          deficiency_ids: string[]
+          denial_reason: string | null
+          description: string | null
+          id: string
+          issue_type: string
+          photo_file_ids: string[]
+          review_started_at: string | null
+          roof_id: string
+          status: string
+          submitted_at: string
+          submitted_by: string | null
+          updated_at: string
+          warrantor: string | null
+          warrantor_reference: string | null
+          warranty_id: string | null
+          warranty_number: string | null
+          warranty_type: string
+        }
+        Insert: {
+          approved_amount?: number | null
+          claim_amount?: number
+          claim_number?: string
+          completed_at?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decision?: string | null
+          deficiency_ids?: string[]
+          denial_reason?: string | null
+          description?: string | null
+          id?: string
+          issue_type: string
+          photo_file_ids?: string[]
+          review_started_at?: string | null
+          roof_id: string
+          status?: string
+          submitted_at?: string
+          submitted_by?: string | null
+          updated_at?: string
+          warrantor?: string | null
+          warrantor_reference?: string | null
+          warranty_id?: string | null
+          warranty_number?: string | null
+          warranty_type: string
+        }
+        Update: {
+          approved_amount?: number | null
+          claim_amount?: number
+          claim_number?: string
+          completed_at?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decision?: string | null
+          deficiency_ids?: string[]
+          denial_reason?: string | null
+          description?: string | null
+          id?: string
+          issue_type?: string
+          photo_file_ids?: string[]
+          review_started_at?: string | null
+          roof_id?: string
+          status?: string
+          submitted_at?: string
+          submitted_by?: string | null
+          updated_at?: string
+          warrantor?: string | null
+          warrantor_reference?: string | null
+          warranty_id?: string | null
+          warranty_number?: string | null
+          warranty_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "warranty_claims_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "warranty_claims_warranty_id_fkey"
+            columns: ["warranty_id"]
+            isOneToOne: false
+            referencedRelation: "warranties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      warranty_transfers: {
+        Row: {
+          approved_by_issuer: boolean
+          created_at: string
+          from_holder: string | null
+          id: string
+          notes: string | null
+          recorded_by: string | null
+          to_holder: string
+          transfer_fee: number | null
+          transferred_on: string
+          updated_at: string
+          warranty_id: string
+        }
+        Insert: {
+          approved_by_issuer?: boolean
+          created_at?: string
+          from_holder?: string | null
+          id?: string
+          notes?: string | null
+          recorded_by?: string | null
+          to_holder: string
+          transfer_fee?: number | null
+          transferred_on: string
+          updated_at?: string
+          warranty_id: string
+        }
+        Update: {
+          approved_by_issuer?: boolean
+          created_at?: string
+          from_holder?: string | null
+          id?: string
+          notes?: string | null
+          recorded_by?: string | null
+          to_holder?: string
+          transfer_fee?: number | null
+          transferred_on?: string
+          updated_at?: string
+          warranty_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "warranty_transfers_warranty_id_fkey"
+            columns: ["warranty_id"]
+            isOneToOne: false
+            referencedRelation: "warranties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_order_bids: {
+        Row: {
+          amount: number | null
+          created_at: string
+          created_by: string | null
+          file_id: string | null
+          id: string
+          received_at: string | null
+          requested_at: string
+          scope_notes: string | null
+          status: string
+          updated_at: string
+          valid_until: string | null
+          vendor_id: string
+          work_order_id: string
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          file_id?: string | null
+          id?: string
+          received_at?: string | null
+          requested_at?: string
+          scope_notes?: string | null
+          status?: string
+          updated_at?: string
+          valid_until?: string | null
+          vendor_id: string
+          work_order_id: string
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          file_id?: string | null
+          id?: string
+          received_at?: string | null
+          requested_at?: string
+          scope_notes?: string | null
+          status?: string
+          updated_at?: string
+          valid_until?: string | null
+          vendor_id?: string
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_order_bids_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "roof_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_order_bids_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_order_bids_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_order_events: {
+        Row: {
+          actor: string | null
+          amount: number | null
+          created_at: string
+          from_status: string | null
+          id: string
+          notes: string | null
+          to_status: string
+          work_order_id: string
+        }
+        Insert: {
+          actor?: string | null
+          amount?: number | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          notes?: string | null
+          to_status: string
+          work_order_id: string
+        }
+        Update: {
+          actor?: string | null
+          amount?: number | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          notes?: string | null
+          to_status?: string
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_order_events_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_order_invoice_lines: {
+        Row: {
+          amount: number | null
+          category: string
+          created_at: string
+          description: string
+          id: string
+          invoice_id: string
+          quantity: number
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          amount?: number | null
+          category?: string
+          created_at?: string
+          description: string
+          id?: string
+          invoice_id: string
+          quantity?: number
+          unit_price: number
+          updated_at?: string
+        }
+        Update: {
+          amount?: number | null
+          category?: string
+          created_at?: string
+          description?: string
+          id?: string
+          invoice_id?: string
+          quantity?: number
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_order_invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "work_order_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_order_invoices: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          file_id: string | null
+          id: string
+          invoice_date: string
+          invoice_number: string
+          notes: string | null
+          paid_at: string | null
+          total: number
+          updated_at: string
+          vendor_id: string | null
+          work_order_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          file_id?: string | null
+          id?: string
+          invoice_date: string
+          invoice_number: string
+          notes?: string | null
+          paid_at?: string | null
+          total?: number
           updated_at?: string
-          warranty_expiration?: string | null
-          zip?: string
+          vendor_id?: string | null
+          work_order_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          file_id?: string | null
+          id?: string
+          invoice_date?: string
+          invoice_number?: string
+          notes?: string | null
+          paid_at?: string | null
+          total?: number
+          updated_at?: string
+          vendor_id?: string | null
+          work_order_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "roofs_client_id_fkey"
-            columns: ["client_id"]
+            foreignKeyName: "work_order_invoices_file_id_fkey"
+            columns: ["file_id"]
             isOneToOne: false
-            referencedRelation: "clients"
+            referencedRelation: "roof_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_order_invoices_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_order_invoices_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
             referencedColumns: ["id"]
           },
         ]
       }
-      seasonal_preferences: {
+      work_orders: {
         Row: {
-          avoid_conditions: string[] | null
-          client_id: string | null
-          created_at: string | null
+          actual_cost: number | null
+          approved_amount: number | null
+          approved_at: string | null
+          approved_bid_id: string | null
+          approved_by: string | null
+          assigned_to: string | null
+          bid_due_date: string | null
+          completed_date: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          estimated_cost: number | null
           id: string
-          optimal_temperature_range: Json | null
-          preferred_months: number[] | null
-          region: string | null
-          season: string | null
-          updated_at: string | null
+          inspection_report_id: string | null
+          invoiced_at: string | null
+          paid_at: string | null
+          priority: string | null
+          roof_id: string | null
+          scheduled_end: string | null
+          scheduled_start: string | null
+          status: string
+          title: string
+          updated_at: string
+          vendor_id: string | null
         }
         Insert: {
-          avoid_conditions?: string[] | null
-          client_id?: string | null
-          created_at?: string | null
+          actual_cost?: number | null
+          approved_amount?: number | null
+          approved_at?: string | null
+          approved_bid_id?: string | null
+          approved_by?: string | null
+          assigned_to?: string | null
+          bid_due_date?: string | null
+          completed_date?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          estimated_cost?: number | null
           id?: string
-          optimal_temperature_range?: Json | null
-          preferred_months?: number[] | null
-          region?: string | null
-          season?: string | null
-          updated_at?: string | null
+          inspection_report_id?: string | null
+          invoiced_at?: string | null
+          paid_at?: string | null
+          priority?: string | null
+          roof_id?: string | null
+          scheduled_end?: string | null
+          scheduled_start?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+          vendor_id?: string | null
         }
         Update: {
-          avoid_conditions?: string[] | null
-          client_id?: string | null
-          created_at?: string | null
+          actual_cost?: number | null
+          approved_amount?: number | null
+          approved_at?: string | null
+          approved_bid_id?: string | null
+          approved_by?: string | null
+          assigned_to?: string | null
+          bid_due_date?: string | null
+          completed_date?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          estimated_cost?: number | null
           id?: string
-          optimal_temperature_range?: Json | null
-          preferred_months?: number[] | null
-          region?: string | null
-          season?: string | null
-          updated_at?: string | null
+          inspection_report_id?: string | null
+          invoiced_at?: string | null
+          paid_at?: string | null
+          priority?: string | null
+          roof_id?: string | null
+          scheduled_end?: string | null
+          scheduled_start?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+          vendor_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "seasonal_preferences_client_id_fkey"
-            columns: ["client_id"]
+            foreignKeyName: "work_orders_assigned_to_fkey"
+            columns: ["assigned_to"]
             isOneToOne: false
-            referencedRelation: "clients"
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_inspection_report_id_fkey"
+            columns: ["inspection_report_id"]
+            isOneToOne: false
+            referencedRelation: "inspection_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_roof_id_fkey"
+            columns: ["roof_id"]
+            isOneToOne: false
+            referencedRelation: "roofs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_approved_bid_id_fkey"
+            columns: ["approved_bid_id"]
+            isOneToOne: false
+            referencedRelation: "work_order_bids"
             referencedColumns: ["id"]
           },
         ]
       }
-      user_roles: {
+      workflow_dispatch_attempts: {
         Row: {
+          attempt_number: number
+          batch_id: string
+          campaign_ids: string[]
+          client_id: string | null
           created_at: string
+          duration_ms: number | null
+          engine: string
+          error_message: string | null
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          request_payload: Json | null
+          requested_by: string | null
+          response_body: Json | null
+          response_status: number | null
+          status: string
         }
         Insert: {
+          attempt_number?: number
+          batch_id: string
+          campaign_ids?: string[]
+          client_id?: string | null
           created_at?: string
+          duration_ms?: number | null
+          engine?: string
+          error_message?: string | null
           id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          request_payload?: Json | null
+          requested_by?: string | null
+          response_body?: Json | null
+          response_status?: number | null
+          status: string
         }
         Update: {
+          attempt_number?: number
+          batch_id?: string
+          campaign_ids?: string[]
+          client_id?: string | null
           created_at?: string
+          duration_ms?: number | null
+          engine?: string
+          error_message?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id?: string
+          request_payload?: Json | null
+          requested_by?: string | null
+          response_body?: Json | null
+          response_status?: number | null
+          status?: string
         }
         Relationships: [
           {
-            foreignKeyName: "user_roles_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "workflow_dispatch_attempts_client_id_fkey"
+            columns: ["client_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["auth_user_id"]
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
           },
         ]
       }
-      users: {
+      workflow_dispatch_retries: {
         Row: {
-          auth_user_id: string | null
+          attempts: number
+          batch_id: string
+          batch_mode: boolean
+          campaigns: Json
+          claimed_at: string | null
+          client_id: string | null
           created_at: string
-          email: string
-          first_name: string | null
           id: string
-          is_active: boolean | null
-          last_name: string | null
-          phone: string | null
-          role: string | null
+          last_error: string | null
+          next_attempt_at: string
+          requested_by: string | null
+          status: string
           updated_at: string
         }
         Insert: {
-          auth_user_id?: string | null
+          attempts?: number
+          batch_id: string
+          batch_mode?: boolean
+          campaigns: Json
+          claimed_at?: string | null
+          client_id?: string | null
           created_at?: string
-          email: string
-          first_name?: string | null
           id?: string
-          is_active?: boolean | null
-          last_name?: string | null
-          phone?: string | null
-          role?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          requested_by?: string | null
+          status?: string
           updated_at?: string
         }
         Update: {
-          auth_user_id?: string | null
+          attempts?: number
+          batch_id?: string
+          batch_mode?: boolean
+          campaigns?: Json
+          claimed_at?: string | null
+          client_id?: string | null
           created_at?: string
-          email?: string
-          first_name?: string | null
           id?: string
-          is_active?: boolean | null
-          last_name?: string | null
-          phone?: string | null
-          role?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          requested_by?: string | null
+          status?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "workflow_dispatch_retries_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      vendors: {
-        Row: {
-          address: string | null
-          city: string | null
-          company_name: string
-          contact_name: string | null
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      advance_warranty_claim: {
+        Args: {
+          p_claim_id: string
+          p_status: string
+          p_approved_amount?: number
+          p_notes?: string
+        }
+        Returns: {
+          approved_amount: number | null
+          claim_amount: number
+          claim_number: string
+          completed_at: string | null
           created_at: string
-          email: string | null
+          decided_at: string | null
+          decision: string | null
+          deficiency_ids: string[]
+          denial_reason: string | null
+          description: string | null
           id: string
-          phone: string | null
-          state: string | null
-          status: string | null
+          issue_type: string
+          photo_file_ids: string[]
+          review_started_at: string | null
+          roof_id: string
+          status: string
+          submitted_at: string
+          submitted_by: string | null
           updated_at: string
-          vendor_type: string | null
-          zip: string | null
+          warrantor: string | null
+          warrantor_reference: string | null
+          warranty_id: string | null
+          warranty_number: string | null
+          warranty_type: string
         }
-        Insert: {
-          address?: string | null
-          city?: string | null
-          company_name: string
-          contact_name?: string | null
-          created_at?: string
-          email?: string | null
-          id?: string
-          phone?: string | null
-          state?: string | null
-          status?: string | null
-          updated_at?: string
-          vendor_type?: string | null
-          zip?: string | null
+      }
+      advance_work_order: {
+        Args: {
+          p_work_order_id: string
+          p_status: string
+          p_notes?: string
+        }
+        Returns: {
+          actual_cost: number | null
+          approved_amount: number | null
+          approved_at: string | null
+          approved_bid_id: string | null
+          approved_by: string | null
+          assigned_to: string | null
+          bid_due_date: string | null
+          completed_date: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          estimated_cost: number | null
+          id: string
+          inspection_report_id: string | null
+          invoiced_at: string | null
+          paid_at: string | null
+          priority: string | null
+          roof_id: string | null
+          scheduled_end: string | null
+          scheduled_start: string | null
+          status: string
+          title: string
+          updated_at: string
+          vendor_id: string | null
+        }
+      }
+      apply_campaign_schedule_event: {
+        Args: {
+          p_campaign_property_id: string
+          p_event_type: string
+          p_slot_start?: string
+          p_slot_end?: string
+          p_actor?: string
+          p_notes?: string
+        }
+        Returns: {
+          automation_data: Json | null
+          campaign_id: string | null
+          completed_date: string | null
+          confirmation_status: string
+          confirmed_at: string | null
+          confirmed_by: string | null
+          confirmed_end: string | null
+          confirmed_start: string | null
+          created_at: string | null
+          error_message: string | null
+          id: string
+          inspector_id: string | null
+          n8n_property_id: string | null
+          proposed_end: string | null
+          proposed_start: string | null
+          reschedule_count: number
+          risk_assessment: Json | null
+          roof_id: string | null
+          scheduled_date: string | null
+          status: string | null
+          updated_at: string | null
         }
-        Update: {
-          address?: string | null
-          city?: string | null
-          company_name?: string
-          contact_name?: string | null
-          created_at?: string
-          email?: string | null
-          id?: string
-          phone?: string | null
-          state?: string | null
-          status?: string | null
-          updated_at?: string
-          vendor_type?: string | null
-          zip?: string | null
+      }
+      apply_data_quality_fixes: {
+        Args: {
+          p_fixes: Json
         }
-        Relationships: []
+        Returns: Json
       }
-      work_orders: {
-        Row: {
+      approve_work_order_bid: {
+        Args: {
+          p_bid_id: string
+          p_notes?: string
+        }
+        Returns: {
           actual_cost: number | null
+          approved_amount: number | null
+          approved_at: string | null
+          approved_bid_id: string | null
+          approved_by: string | null
           assigned_to: string | null
+          bid_due_date: string | null
           completed_date: string | null
           created_at: string
           created_by: string | null
@@ -1215,96 +3418,18 @@ export type Database = {
           estimated_cost: number | null
           id: string
           inspection_report_id: string | null
+          invoiced_at: string | null
+          paid_at: string | null
           priority: string | null
           roof_id: string | null
           scheduled_end: string | null
           scheduled_start: string | null
-          status: string | null
+          status: string
           title: string
           updated_at: string
           vendor_id: string | null
         }
-        Insert: {
-          actual_cost?: number | null
-          assigned_to?: string | null
-          completed_date?: string | null
-          created_at?: string
-          created_by?: string | null
-          description?: string | null
-          estimated_cost?: number | null
-          id?: string
-          inspection_report_id?: string | null
-          priority?: string | null
-          roof_id?: string | null
-          scheduled_end?: string | null
-          scheduled_start?: string | null
-          status?: string | null
-          title: string
-          updated_at?: string
-          vendor_id?: string | null
-        }
-        Update: {
-          actual_cost?: number | null
-          assigned_to?: string | null
-          completed_date?: string | null
-          created_at?: string
-          created_by?: string | null
-          description?: string | null
-          estimated_cost?: number | null
-          id?: string
-          inspection_report_id?: string | null
-          priority?: string | null
-          roof_id?: string | null
-          scheduled_end?: string | null
-          scheduled_start?: string | null
-          status?: string | null
-          title?: string
-          updated_at?: string
-          vendor_id?: string | null
-        }
-        Relationships: [
-          {
-            foreignKeyName: "work_orders_assigned_to_fkey"
-            columns: ["assigned_to"]
-            isOneToOne: false
-            referencedRelation: "users"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "work_orders_created_by_fkey"
-            columns: ["created_by"]
-            isOneToOne: false
-            referencedRelation: "users"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "work_orders_inspection_report_id_fkey"
-            columns: ["inspection_report_id"]
-            isOneToOne: false
-            referencedRelation: "inspection_reports"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "work_orders_roof_id_fkey"
-            columns: ["roof_id"]
-            isOneToOne: false
-            referencedRelation: "roofs"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "work_orders_vendor_id_fkey"
-            columns: ["vendor_id"]
-            isOneToOne: false
-            referencedRelation: "vendors"
-            referencedColumns: ["id"]
-          },
-        ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
       calculate_property_proximity: {
         Args: {
           property1_lat: number
@@ -1314,6 +3439,111 @@ export type Database = {
         }
         Returns: number
       }
+      claim_ingestion_items: {
+        Args: {
+          p_job_id: string
+          p_limit?: number
+          p_timeout_seconds?: number
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          file_hash: string | null
+          file_name: string
+          file_size: number | null
+          finished_at: string | null
+          id: string
+          inspection_id: string | null
+          job_id: string
+          match_confidence: number | null
+          message: string | null
+          property_hint: string | null
+          review_id: string | null
+          roof_id: string | null
+          source_path: string
+          started_at: string | null
+          status: string
+          storage_path: string
+          updated_at: string
+        }[]
+      }
+      claim_workflow_dispatch_retry: {
+        Args: {
+          p_timeout_seconds?: number
+        }
+        Returns: {
+          attempts: number
+          batch_id: string
+          batch_mode: boolean
+          campaigns: Json
+          claimed_at: string | null
+          client_id: string | null
+          created_at: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          requested_by: string | null
+          status: string
+          updated_at: string
+        }[]
+      }
+      commit_extraction_review: {
+        Args: {
+          p_review_id: string
+          p_roof_id: string
+          p_inspection: Json
+          p_report: Json
+          p_source_document: Json
+          p_roof_updates: Json
+          p_corrected_data: Json
+          p_approved_roof_fields: string[]
+        }
+        Returns: Json
+      }
+      complete_field_inspection: {
+        Args: {
+          p_roof_id: string
+          p_inspection: Json
+        }
+        Returns: string
+      }
+      convert_maintenance_task_to_work_order: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: {
+          actual_cost: number | null
+          approved_amount: number | null
+          approved_at: string | null
+          approved_bid_id: string | null
+          approved_by: string | null
+          assigned_to: string | null
+          bid_due_date: string | null
+          completed_date: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          estimated_cost: number | null
+          id: string
+          inspection_report_id: string | null
+          invoiced_at: string | null
+          paid_at: string | null
+          priority: string | null
+          roof_id: string | null
+          scheduled_end: string | null
+          scheduled_start: string | null
+          status: string
+          title: string
+          updated_at: string
+          vendor_id: string | null
+        }
+      }
+      deficiency_severity_rank: {
+        Args: {
+          p_severity: string
+        }
+        Returns: number
+      }
       generate_campaign_name: {
         Args: {
           p_market: string
@@ -1338,6 +3568,12 @@ export type Database = {
           optimization_score: number
         }[]
       }
+      generate_maintenance_tasks: {
+        Args: {
+          p_through?: string
+        }
+        Returns: number
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: Database["public"]["Enums"]["app_role"]
@@ -1349,6 +3585,187 @@ export type Database = {
         }
         Returns: boolean
       }
+      maintenance_plan_dates: {
+        Args: {
+          p_plan: Database["public"]["Tables"]["maintenance_plans"]["Row"]
+          p_from: string
+          p_through: string
+        }
+        Returns: string
+      }
+      merge_roofs: {
+        Args: {
+          p_keep_id: string
+          p_merge_id: string
+          p_field_values?: Json
+          p_match_score?: number
+        }
+        Returns: {
+          created_at: string
+          id: string
+          kept_roof_id: string
+          match_score: number | null
+          merged_by: string | null
+          merged_roof_id: string
+          merged_snapshot: Json
+          moved_counts: Json
+          overwritten_values: Json
+        }
+      }
+      record_work_order_bid: {
+        Args: {
+          p_work_order_id: string
+          p_vendor_id: string
+          p_amount?: number
+          p_scope_notes?: string
+          p_valid_until?: string
+          p_file_id?: string
+        }
+        Returns: {
+          amount: number | null
+          created_at: string
+          created_by: string | null
+          file_id: string | null
+          id: string
+          received_at: string | null
+          requested_at: string
+          scope_notes: string | null
+          status: string
+          updated_at: string
+          valid_until: string | null
+          vendor_id: string
+          work_order_id: string
+        }
+      }
+      record_work_order_invoice: {
+        Args: {
+          p_work_order_id: string
+          p_invoice_number: string
+          p_invoice_date: string
+          p_lines: Json
+          p_notes?: string
+          p_file_id?: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          file_id: string | null
+          id: string
+          invoice_date: string
+          invoice_number: string
+          notes: string | null
+          paid_at: string | null
+          total: number
+          updated_at: string
+          vendor_id: string | null
+          work_order_id: string
+        }
+      }
+      refresh_ingestion_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: {
+          archive_path: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          duplicate_count: number
+          error: string | null
+          failed_count: number
+          id: string
+          last_activity_at: string | null
+          name: string
+          review_count: number
+          skipped_count: number
+          source_type: string
+          status: string
+          stored_count: number
+          total_files: number
+          updated_at: string
+        }
+      }
+      request_work_order_bids: {
+        Args: {
+          p_work_order_id: string
+          p_vendor_ids: string[]
+          p_bid_due_date?: string
+        }
+        Returns: {
+          actual_cost: number | null
+          approved_amount: number | null
+          approved_at: string | null
+          approved_bid_id: string | null
+          approved_by: string | null
+          assigned_to: string | null
+          bid_due_date: string | null
+          completed_date: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          estimated_cost: number | null
+          id: string
+          inspection_report_id: string | null
+          invoiced_at: string | null
+          paid_at: string | null
+          priority: string | null
+          roof_id: string | null
+          scheduled_end: string | null
+          scheduled_start: string | null
+          status: string
+          title: string
+          updated_at: string
+          vendor_id: string | null
+        }
+      }
+      rollback_import_batch: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: {
+          client_id: string | null
+          clients_created: number
+          completed_at: string | null
+          created_at: string
+          error_count: number
+          file_name: string
+          header_row: number
+          id: string
+          inserted_count: number
+          mapping_template_id: string | null
+          mappings: Json
+          rollback_summary: Json | null
+          rolled_back_at: string | null
+          rolled_back_by: string | null
+          row_count: number
+          sheet_name: string | null
+          status: string
+          unchanged_count: number
+          updated_at: string
+          updated_count: number
+          uploaded_by: string | null
+        }
+      }
+      save_inspector_route_plan: {
+        Args: {
+          p_inspector_id: string
+          p_days: Json
+          p_campaign_id?: string
+        }
+        Returns: string
+      }
+      sync_roof_column_warranties: {
+        Args: {
+          p_roof: Database["public"]["Tables"]["roofs"]["Row"]
+        }
+        Returns: undefined
+      }
+      warranty_term_years: {
+        Args: {
+          p_term: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "super_admin" | "manager" | "inspector"
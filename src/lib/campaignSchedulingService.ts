@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type CampaignScheduleEvent = Database['public']['Tables']['campaign_property_schedule_events']['Row'];
+export type ScheduledCampaignProperty = Database['public']['Functions']['apply_campaign_schedule_event']['Returns'];
+
+export type ScheduleEventType = 'proposed' | 'confirmed' | 'declined' | 'reschedule_requested' | 'skipped';
+export type ConfirmationStatus = 'unscheduled' | 'proposed' | 'confirmed' | 'declined' | 'reschedule_requested';
+
+export interface ScheduleEventInput {
+  type: ScheduleEventType;
+  slotStart?: string;
+  slotEnd?: string;
+  // Who made the change, e.g. the PM's email for a confirmation
+  actor?: string;
+  notes?: string;
+}
+
+export class CampaignSchedulingService {
+  /**
+   * Scheduling history for a set of campaign properties, oldest first, keyed by campaign property id
+   */
+  static async getScheduleEvents(campaignPropertyIds: string[]): Promise<Record<string, CampaignScheduleEvent[]>> {
+    if (campaignPropertyIds.length === 0) return {};
+
+    try {
+      const { data, error } = await supabase
+        .from('campaign_property_schedule_events')
+        .select('*')
+        .in('campaign_property_id', campaignPropertyIds)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []).reduce((grouped, event) => {
+        (grouped[event.campaign_property_id] ||= []).push(event);
+        return grouped;
+      }, {} as Record<string, CampaignScheduleEvent[]>);
+    } catch (error) {
+      console.error('Error fetching schedule events:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Apply a scheduling step. The database validates the transition, updates the
+   * property's appointment fields and advances the campaign status.
+   */
+  static async applyEvent(campaignPropertyId: string, event: ScheduleEventInput): Promise<ScheduledCampaignProperty> {
+    const { data, error } = await supabase.rpc('apply_campaign_schedule_event', {
+      p_campaign_property_id: campaignPropertyId,
+      p_event_type: event.type,
+      p_slot_start: event.slotStart,
+      p_slot_end: event.slotEnd,
+      p_actor: event.actor,
+      p_notes: event.notes
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+}
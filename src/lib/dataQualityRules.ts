@@ -0,0 +1,423 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import type { DataQualityIssue } from "./validation";
+import { normalizeStateCode, stateForZip } from "./usStates";
+
+type Roof = Database['public']['Tables']['roofs']['Row'];
+
+export type DataQualityRuleSetting = Database['public']['Tables']['data_quality_rule_settings']['Row'];
+export type DataQualityFixRecord = Database['public']['Tables']['data_quality_fixes']['Row'];
+
+export type RuleSeverity = DataQualityIssue['severity'];
+export type RuleParams = Record<string, number>;
+
+/**
+ * A write that resolves an issue. `old_value` is what the rule saw, so the fix is
+ * skipped if the field has been edited since.
+ */
+export interface DataQualityFix {
+  roof_id: string;
+  rule_id: string;
+  field: keyof Roof & string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+export interface RuleContext {
+  params: RuleParams;
+  // Email domains known for each client, from the client record and its contacts
+  clientDomains: Map<string, Set<string>>;
+}
+
+interface RuleFinding {
+  field: string;
+  message: string;
+  suggested_fix?: string;
+  fix?: { field: keyof Roof & string; value: unknown };
+}
+
+export interface DataQualityRule {
+  id: string;
+  name: string;
+  description: string;
+  type: DataQualityIssue['type'];
+  defaultSeverity: RuleSeverity;
+  defaultParams?: RuleParams;
+  check: (roof: Partial<Roof>, context: RuleContext) => RuleFinding[];
+}
+
+export interface ResolvedRule {
+  rule: DataQualityRule;
+  enabled: boolean;
+  severity: RuleSeverity;
+  params: RuleParams;
+}
+
+export interface ApplyFixesResult {
+  applied: number;
+  skipped: Array<{ roof_id: string; field: string; reason: string }>;
+}
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+const parseDate = (value: unknown): Date | null => {
+  if (isBlank(value)) return null;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const emailDomain = (email: unknown) => {
+  const match = String(email || '').trim().toLowerCase().match(/@([a-z0-9.-]+\.[a-z]{2,})$/);
+  return match ? match[1] : null;
+};
+
+// The install date, or the start of the install year when only the year is known
+const installReference = (roof: Partial<Roof>) =>
+  parseDate(roof.install_date) || (roof.install_year ? new Date(Date.UTC(roof.install_year, 0, 1)) : null);
+
+const WARRANTY_EXPIRATION_FIELDS: Array<{ field: keyof Roof & string; label: string }> = [
+  { field: 'manufacturer_warranty_expiration', label: 'Manufacturer warranty' },
+  { field: 'installer_warranty_expiration', label: 'Installer warranty' },
+  { field: 'warranty_expiration', label: 'Warranty' }
+];
+
+const TRIMMED_TEXT_FIELDS: Array<keyof Roof & string> = ['property_name', 'address', 'city', 'property_code'];
+
+// Steep-slope systems are rarely found on large commercial footprints
+const STEEP_SLOPE_PATTERN = /shingle|tile|slate|shake/i;
+
+export const DATA_QUALITY_RULES: DataQualityRule[] = [
+  {
+    id: 'warranty_before_install',
+    name: 'Warranty expires before install',
+    description: 'A warranty expiration date falls before the roof was installed.',
+    type: 'inconsistent',
+    defaultSeverity: 'high',
+    check: (roof) => {
+      const installed = installReference(roof);
+      if (!installed) return [];
+      return WARRANTY_EXPIRATION_FIELDS.flatMap(({ field, label }) => {
+        const expires = parseDate(roof[field]);
+        if (!expires || expires >= installed) return [];
+        return [{
+          field,
+          message: `${label} expires ${formatDate(expires)}, before the ${formatDate(installed)} install`,
+          suggested_fix: 'Check the warranty term and install date'
+        }];
+      });
+    }
+  },
+  {
+    id: 'install_year_mismatch',
+    name: 'Install year does not match install date',
+    description: 'The install year differs from the year of the install date.',
+    type: 'inconsistent',
+    defaultSeverity: 'medium',
+    check: (roof) => {
+      const installed = parseDate(roof.install_date);
+      if (!installed || !roof.install_year) return [];
+      const year = installed.getUTCFullYear();
+      if (year === roof.install_year) return [];
+      return [{
+        field: 'install_year',
+        message: `Install year ${roof.install_year} but install date ${formatDate(installed)}`,
+        suggested_fix: `Set install year to ${year}`,
+        fix: { field: 'install_year', value: year }
+      }];
+    }
+  },
+  {
+    id: 'roof_area_implausible',
+    name: 'Implausible roof area',
+    description: 'The roof area is outside the range expected for its roof type.',
+    type: 'inconsistent',
+    defaultSeverity: 'medium',
+    defaultParams: { min_area: 1000, max_area: 2500000, max_steep_slope_area: 150000 },
+    check: (roof, { params }) => {
+      if (roof.roof_area === null || roof.roof_area === undefined) return [];
+      const steepSlope = STEEP_SLOPE_PATTERN.test(roof.roof_type || '');
+      const max = steepSlope ? params.max_steep_slope_area : params.max_area;
+      if (roof.roof_area >= params.min_area && roof.roof_area <= max) return [];
+      const bound = roof.roof_area < params.min_area
+        ? `below the ${params.min_area.toLocaleString()} sq ft minimum`
+        : `above the ${max.toLocaleString()} sq ft expected${steepSlope ? ` for ${roof.roof_type}` : ''}`;
+      return [{
+        field: 'roof_area',
+        message: `Roof area ${roof.roof_area.toLocaleString()} is ${bound}`,
+        suggested_fix: 'Confirm the area and its unit'
+      }];
+    }
+  },
+  {
+    id: 'state_zip_mismatch',
+    name: 'ZIP code is in another state',
+    description: 'The ZIP code prefix belongs to a different state than the one recorded.',
+    type: 'inconsistent',
+    defaultSeverity: 'high',
+    check: (roof) => {
+      const state = normalizeStateCode(roof.state);
+      const zipState = stateForZip(roof.zip);
+      if (!state || !zipState || state === zipState) return [];
+      return [{
+        field: 'zip',
+        message: `ZIP ${roof.zip} is in ${zipState}, not ${state}`,
+        suggested_fix: 'Correct the state or the ZIP code'
+      }];
+    }
+  },
+  {
+    id: 'geocode_mismatch',
+    name: 'Geocoded location disagrees with address',
+    description: 'Geocoding placed the property in a different city or state than the one recorded.',
+    type: 'inconsistent',
+    defaultSeverity: 'medium',
+    check: (roof) => roof.geocode_mismatch ? [{
+      field: 'city',
+      message: roof.geocode_mismatch,
+      suggested_fix: 'Check the address, city, state and ZIP'
+    }] : []
+  },
+  {
+    id: 'pm_email_domain',
+    name: "Property manager email outside client's domain",
+    description: "The property manager's email domain isn't used by the client or any of its contacts.",
+    type: 'inconsistent',
+    defaultSeverity: 'low',
+    check: (roof, { clientDomains }) => {
+      const domain = emailDomain(roof.property_manager_email);
+      const known = roof.client_id ? clientDomains.get(roof.client_id) : undefined;
+      if (!domain || !known || known.size === 0 || known.has(domain)) return [];
+      return [{
+        field: 'property_manager_email',
+        message: `${roof.property_manager_email} is not on the client's domain (${Array.from(known).join(', ')})`,
+        suggested_fix: 'Confirm the property manager belongs to this client'
+      }];
+    }
+  },
+  {
+    id: 'state_format',
+    name: 'State not a two-letter code',
+    description: 'The state is a full name or not upper case.',
+    type: 'invalid',
+    defaultSeverity: 'medium',
+    check: (roof) => {
+      if (isBlank(roof.state) || /^[A-Z]{2}$/.test(roof.state!)) return [];
+      const code = normalizeStateCode(roof.state);
+      return [{
+        field: 'state',
+        message: `State "${roof.state}" is not a two-letter code`,
+        suggested_fix: code ? `Set state to ${code}` : 'Enter the two-letter state code',
+        fix: code ? { field: 'state', value: code } : undefined
+      }];
+    }
+  },
+  {
+    id: 'zip_format',
+    name: 'Malformed ZIP code',
+    description: 'The ZIP code is not five digits; spreadsheets often drop leading zeros.',
+    type: 'invalid',
+    defaultSeverity: 'medium',
+    check: (roof) => {
+      const zip = String(roof.zip ?? '').trim();
+      if (!zip || /^\d{5}(-\d{4})?$/.test(zip)) return [];
+      const padded = /^\d{3,4}$/.test(zip) ? zip.padStart(5, '0') : null;
+      return [{
+        field: 'zip',
+        message: `ZIP "${zip}" is not a five-digit code`,
+        suggested_fix: padded ? `Restore leading zeros: ${padded}` : 'Enter a five-digit ZIP code',
+        fix: padded ? { field: 'zip', value: padded } : undefined
+      }];
+    }
+  },
+  {
+    id: 'untrimmed_text',
+    name: 'Stray whitespace',
+    description: 'Names and addresses with leading, trailing or doubled spaces break matching.',
+    type: 'invalid',
+    defaultSeverity: 'low',
+    check: (roof) => TRIMMED_TEXT_FIELDS.flatMap(field => {
+      const value = roof[field];
+      if (typeof value !== 'string') return [];
+      const cleaned = value.trim().replace(/\s{2,}/g, ' ');
+      if (cleaned === value || !cleaned) return [];
+      return [{
+        field,
+        message: `"${value}" has extra whitespace`,
+        suggested_fix: `Set to "${cleaned}"`,
+        fix: { field, value: cleaned }
+      }];
+    })
+  },
+  {
+    id: 'inspection_dates',
+    name: 'Next inspection before last',
+    description: 'The next inspection due date is earlier than the last inspection.',
+    type: 'inconsistent',
+    defaultSeverity: 'low',
+    check: (roof) => {
+      const last = parseDate(roof.last_inspection_date);
+      const next = parseDate(roof.next_inspection_due);
+      if (!last || !next || next >= last) return [];
+      return [{
+        field: 'next_inspection_due',
+        message: `Next inspection due ${formatDate(next)} is before the last inspection on ${formatDate(last)}`,
+        suggested_fix: 'Reschedule the next inspection'
+      }];
+    }
+  }
+];
+
+/**
+ * Rules with stored settings applied over their defaults
+ */
+export function resolveRules(settings: DataQualityRuleSetting[] = []): ResolvedRule[] {
+  const byId = new Map(settings.map(setting => [setting.rule_id, setting]));
+  return DATA_QUALITY_RULES.map(rule => {
+    const setting = byId.get(rule.id);
+    return {
+      rule,
+      enabled: setting?.enabled ?? true,
+      severity: (setting?.severity as RuleSeverity) || rule.defaultSeverity,
+      params: { ...rule.defaultParams, ...(setting?.params as RuleParams | null) }
+    };
+  });
+}
+
+/**
+ * Email domains per client from the client's own address and its contacts'
+ */
+export function buildClientDomains(
+  clients: Array<{ id: string; email?: string | null }>,
+  contacts: Array<{ client_id?: string | null; email?: string | null }> = []
+): Map<string, Set<string>> {
+  const domains = new Map<string, Set<string>>();
+  const add = (clientId: string | null | undefined, email: unknown) => {
+    const domain = emailDomain(email);
+    if (!clientId || !domain) return;
+    if (!domains.has(clientId)) domains.set(clientId, new Set());
+    domains.get(clientId)!.add(domain);
+  };
+  clients.forEach(client => add(client.id, client.email));
+  contacts.forEach(contact => add(contact.client_id, contact.email));
+  return domains;
+}
+
+/**
+ * Run the enabled rules over every roof. Each finding becomes one issue tied to its roof.
+ */
+export function runDataQualityRules(
+  roofs: Array<Partial<Roof>>,
+  rules: ResolvedRule[],
+  clientDomains: Map<string, Set<string>> = new Map()
+): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+
+  for (const { rule, enabled, severity, params } of rules) {
+    if (!enabled) continue;
+    const context: RuleContext = { params, clientDomains };
+
+    roofs.forEach(roof => {
+      for (const finding of rule.check(roof, context)) {
+        issues.push({
+          field: finding.field,
+          type: rule.type,
+          severity,
+          message: finding.message,
+          suggested_fix: finding.suggested_fix,
+          record_ids: roof.id ? [roof.id] : undefined,
+          rule_id: rule.id,
+          fix: roof.id && finding.fix ? {
+            roof_id: roof.id,
+            rule_id: rule.id,
+            field: finding.fix.field,
+            old_value: roof[finding.fix.field] ?? null,
+            new_value: finding.fix.value
+          } : undefined
+        });
+      }
+    });
+  }
+
+  return issues;
+}
+
+export class DataQualityService {
+  static async getRuleSettings(): Promise<DataQualityRuleSetting[]> {
+    try {
+      const { data, error } = await supabase
+        .from('data_quality_rule_settings')
+        .select('*');
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching data quality rule settings:', error);
+      return [];
+    }
+  }
+
+  static async saveRuleSetting(
+    ruleId: string,
+    setting: { enabled: boolean; severity: RuleSeverity; params?: RuleParams }
+  ): Promise<DataQualityRuleSetting> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('data_quality_rule_settings')
+      .upsert({
+        rule_id: ruleId,
+        enabled: setting.enabled,
+        severity: setting.severity,
+        params: setting.params || {},
+        updated_by: user?.id
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Write suggested fixes through to the roofs. Every applied fix is logged in
+   * data_quality_fixes; fixes whose field changed since the check ran are skipped.
+   */
+  static async applyFixes(fixes: DataQualityFix[]): Promise<ApplyFixesResult> {
+    const { data, error } = await supabase.rpc('apply_data_quality_fixes', {
+      p_fixes: fixes as unknown as Json
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as unknown as ApplyFixesResult;
+  }
+
+  static async getRecentFixes(limit = 20): Promise<DataQualityFixRecord[]> {
+    try {
+      const { data, error } = await supabase
+        .from('data_quality_fixes')
+        .select('*')
+        .order('applied_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching data quality fixes:', error);
+      return [];
+    }
+  }
+}
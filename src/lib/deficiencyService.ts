@@ -0,0 +1,84 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type TrackedDeficiency = Database['public']['Tables']['deficiencies']['Row'];
+export type DeficiencyObservation = Database['public']['Tables']['inspection_deficiencies']['Row'] & {
+  inspection: { completed_date: string | null } | null;
+};
+
+export type DeficiencyFollowUp = 'reobserved' | 'escalated' | 'resolved';
+
+export interface DeficiencyHistory {
+  deficiency: TrackedDeficiency;
+  observations: DeficiencyObservation[];
+}
+
+export class DeficiencyService {
+  /**
+   * Get tracked deficiencies for a roof, most recently observed first
+   */
+  static async getDeficienciesForRoof(roofId: string, includeResolved = false): Promise<TrackedDeficiency[]> {
+    try {
+      let query = supabase
+        .from('deficiencies')
+        .select('*')
+        .eq('roof_id', roofId)
+        .order('last_observed_date', { ascending: false });
+
+      if (!includeResolved) {
+        query = query.neq('status', 'resolved');
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching deficiencies:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a deficiency together with every inspection that observed it
+   */
+  static async getDeficiencyHistory(deficiencyId: string): Promise<DeficiencyHistory | null> {
+    try {
+      const { data: deficiency, error } = await supabase
+        .from('deficiencies')
+        .select('*')
+        .eq('id', deficiencyId)
+        .single();
+
+      if (error || !deficiency) {
+        throw error || new Error('Deficiency not found');
+      }
+
+      const { data: observations, error: observationsError } = await supabase
+        .from('inspection_deficiencies')
+        .select('*, inspection:inspections(completed_date)')
+        .eq('deficiency_id', deficiencyId)
+        .order('created_at', { ascending: true });
+
+      if (observationsError) {
+        throw observationsError;
+      }
+
+      return { deficiency, observations: observations || [] };
+    } catch (error) {
+      console.error('Error fetching deficiency history:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Next severity up, used when an inspector escalates a recurring deficiency
+   */
+  static escalateSeverity(severity: string): 'low' | 'medium' | 'high' {
+    if (severity === 'low') return 'medium';
+    return 'high';
+  }
+}
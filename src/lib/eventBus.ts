@@ -231,6 +231,8 @@ export const INSPECTOR_EVENTS = {
   DATA_SYNC_STARTED: 'data.sync_started',
   DATA_SYNC_COMPLETED: 'data.sync_completed',
   DATA_SYNC_FAILED: 'data.sync_failed',
+  DATA_SYNC_CONFLICT: 'data.sync_conflict',
+  DATA_SYNC_CONFLICT_RESOLVED: 'data.sync_conflict_resolved',
   
   // Offline events
   OFFLINE_MODE_ENABLED: 'offline.enabled',
@@ -0,0 +1,140 @@
+import { supabase } from '@/integrations/supabase/client';
+import { stageFile, removeStagedFile } from '@/lib/fileStorage';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { PDF_PARSER_VERSION, type ExtractedPDFData } from './realPdfParser';
+import type { PropertyMatch } from './propertyMatcher';
+import { lowConfidenceFields, type ReviewReason } from '../../supabase/functions/_shared/extractionReview.ts';
+
+// Review rules are shared with the ingest-inspection-archive edge function
+export * from '../../supabase/functions/_shared/extractionReview.ts';
+
+export type ExtractionReview = Database['public']['Tables']['inspection_extraction_reviews']['Row'];
+export type ExtractionReviewStatus = 'pending' | 'committed' | 'rejected';
+
+/**
+ * Parsed fields as stored for review; the raw text has its own column
+ */
+export function toStoredExtraction(extractedData: ExtractedPDFData): Json {
+  const { extractedText: _extractedText, ...fields } = extractedData;
+  return fields as unknown as Json;
+}
+
+/**
+ * A stored extraction with its text put back, as the parser returned it
+ */
+export function reviewExtraction(review: ExtractionReview, source: 'extracted' | 'corrected' = 'extracted'): ExtractedPDFData {
+  const data = source === 'corrected' && review.corrected_data ? review.corrected_data : review.extracted_data;
+  return {
+    ...(data as unknown as ExtractedPDFData),
+    extractedText: review.raw_text,
+    pageCount: review.page_count
+  };
+}
+
+export class ExtractionReviewService {
+  /**
+   * Hold an extraction for review, staging its PDF until the review is committed
+   */
+  static async queue(
+    pdfFile: File,
+    extractedData: ExtractedPDFData,
+    propertyMatch: PropertyMatch | null,
+    reasons: ReviewReason[]
+  ): Promise<ExtractionReview> {
+    const { data: staged, error: stageError } = await stageFile(pdfFile);
+    if (stageError || !staged) {
+      throw new Error('Failed to stage PDF file for review');
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('inspection_extraction_reviews')
+      .insert({
+        file_name: pdfFile.name,
+        file_size: pdfFile.size,
+        staged_path: staged.storage_path,
+        raw_text: extractedData.extractedText,
+        page_count: extractedData.pageCount,
+        parser_version: PDF_PARSER_VERSION,
+        template_id: extractedData.template.id,
+        extracted_data: toStoredExtraction(extractedData),
+        field_confidence: extractedData.fieldConfidence as Json,
+        review_reasons: reasons,
+        low_confidence_fields: lowConfidenceFields(extractedData),
+        suggested_roof_id: propertyMatch?.id ?? null,
+        suggested_match_confidence: propertyMatch?.confidence ?? null,
+        uploaded_by: user?.id
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      await removeStagedFile(staged.storage_path);
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async getReviews(status: ExtractionReviewStatus = 'pending', limit = 100): Promise<ExtractionReview[]> {
+    try {
+      const { data, error } = await supabase
+        .from('inspection_extraction_reviews')
+        .select('*')
+        .eq('status', status)
+        .order('created_at', { ascending: status === 'pending' })
+        .limit(limit);
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching extraction reviews:', error);
+      return [];
+    }
+  }
+
+  static async getPendingCount(): Promise<number> {
+    const { count, error } = await supabase
+      .from('inspection_extraction_reviews')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('Error counting extraction reviews:', error);
+      return 0;
+    }
+
+    return count || 0;
+  }
+
+  static async reject(review: ExtractionReview, reason: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('inspection_extraction_reviews')
+      .update({
+        status: 'rejected',
+        rejection_reason: reason || null,
+        reviewed_by: user?.id,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', review.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    // Someone else committed it first; the staged PDF is now the property's report
+    if ((data || []).length === 0) {
+      throw new Error('This review was already committed or rejected');
+    }
+
+    await removeStagedFile(review.staged_path);
+  }
+}
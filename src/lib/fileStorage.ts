@@ -1,4 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+
+type RoofFile = Database['public']['Tables']['roof_files']['Row'];
 
 export const uploadRoofFile = async (
   roofId: string, 
@@ -6,17 +9,22 @@ export const uploadRoofFile = async (
   metadata: {
     file_type: string;
     is_public: boolean;
+    // Idempotency key: re-uploading with the same key overwrites instead of duplicating
+    sync_key?: string;
+    metadata?: Json;
   }
 ): Promise<{ data: any; error: any }> => {
   try {
-    // Generate unique file path
+    // Generate unique file path (stable when a sync key is given)
     const fileExt = file.name.split('.').pop();
-    const fileName = `${roofId}/${Date.now()}.${fileExt}`;
+    const fileName = metadata.sync_key
+      ? `${roofId}/sync/${metadata.sync_key.replace(/[^a-zA-Z0-9_-]/g, '_')}.${fileExt}`
+      : `${roofId}/${Date.now()}.${fileExt}`;
     
     // Upload to Supabase Storage
     const { data: uploadData, error: uploadError } = await supabase.storage
       .from('roof-files')
-      .upload(fileName, file);
+      .upload(fileName, file, { upsert: !!metadata.sync_key });
     
     if (uploadError) throw uploadError;
     
@@ -25,21 +33,31 @@ export const uploadRoofFile = async (
       .from('roof-files')
       .getPublicUrl(fileName);
     
+    const fileRecord = {
+      roof_id: roofId,
+      file_name: file.name,
+      file_type: metadata.file_type,
+      file_size: file.size,
+      file_url: publicUrl,
+      storage_path: fileName,
+      mime_type: file.type,
+      is_public: metadata.is_public,
+      sync_key: metadata.sync_key ?? null,
+      metadata: metadata.metadata ?? {}
+    };
+
     // Save file metadata to database
-    const { data, error } = await supabase
-      .from('roof_files')
-      .insert({
-        roof_id: roofId,
-        file_name: file.name,
-        file_type: metadata.file_type,
-        file_size: file.size,
-        file_url: publicUrl,
-        storage_path: fileName,
-        mime_type: file.type,
-        is_public: metadata.is_public
-      })
-      .select()
-      .single();
+    const { data, error } = metadata.sync_key
+      ? await supabase
+          .from('roof_files')
+          .upsert(fileRecord, { onConflict: 'sync_key' })
+          .select()
+          .single()
+      : await supabase
+          .from('roof_files')
+          .insert(fileRecord)
+          .select()
+          .single();
     
     return { data, error };
   } catch (error) {
@@ -66,4 +84,113 @@ export const deleteRoofFile = async (fileId: string, storagePath: string) => {
   } catch (error) {
     return { error };
   }
-};
\ No newline at end of file
+};
+
+// Files held for review live here until they're attached to a roof
+const STAGING_FOLDER = 'pending-review';
+
+export const stageFile = async (file: File): Promise<{ data: { storage_path: string; file_url: string } | null; error: unknown }> => {
+  try {
+    const fileExt = file.name.split('.').pop();
+    const storagePath = `${STAGING_FOLDER}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('roof-files')
+      .upload(storagePath, file);
+
+    if (uploadError) throw uploadError;
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('roof-files')
+      .getPublicUrl(storagePath);
+
+    return { data: { storage_path: storagePath, file_url: publicUrl }, error: null };
+  } catch (error) {
+    return { data: null, error };
+  }
+};
+
+export const getStagedFileUrl = (storagePath: string): string => {
+  return supabase.storage.from('roof-files').getPublicUrl(storagePath).data.publicUrl;
+};
+
+/**
+ * Move a staged file under a roof and record it as one of the roof's files
+ */
+export const attachStagedRoofFile = async (
+  roofId: string,
+  storagePath: string,
+  file: { name: string; size: number | null; mime_type: string },
+  metadata: {
+    file_type: string;
+    is_public: boolean;
+    metadata?: Json;
+  }
+): Promise<{ data: RoofFile | null; error: unknown }> => {
+  try {
+    const fileExt = file.name.split('.').pop();
+    const roofPath = `${roofId}/${Date.now()}.${fileExt}`;
+
+    const { error: moveError } = await supabase.storage
+      .from('roof-files')
+      .move(storagePath, roofPath);
+
+    if (moveError) throw moveError;
+
+    const { data, error } = await supabase
+      .from('roof_files')
+      .insert({
+        roof_id: roofId,
+        file_name: file.name,
+        file_type: metadata.file_type,
+        file_size: file.size,
+        file_url: supabase.storage.from('roof-files').getPublicUrl(roofPath).data.publicUrl,
+        storage_path: roofPath,
+        mime_type: file.mime_type,
+        is_public: metadata.is_public,
+        metadata: metadata.metadata ?? {}
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Leave the file staged so the review can be committed again
+      await supabase.storage.from('roof-files').move(roofPath, storagePath);
+    }
+
+    return { data, error };
+  } catch (error) {
+    return { data: null, error };
+  }
+};
+
+/**
+ * Undo attachStagedRoofFile when a later step fails: drop the roof's file record and
+ * move the file back to its staged path
+ */
+export const returnRoofFileToStaging = async (file: Pick<RoofFile, 'id' | 'storage_path'>, stagedPath: string) => {
+  try {
+    const { error: deleteError } = await supabase
+      .from('roof_files')
+      .delete()
+      .eq('id', file.id);
+
+    if (deleteError) throw deleteError;
+
+    const { error } = await supabase.storage
+      .from('roof-files')
+      .move(file.storage_path, stagedPath);
+
+    return { error };
+  } catch (error) {
+    return { error };
+  }
+};
+
+export const removeStagedFile = async (storagePath: string) => {
+  const { error } = await supabase.storage
+    .from('roof-files')
+    .remove([storagePath]);
+
+  return { error };
+};
@@ -0,0 +1,126 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { GEOCODE_PRECISIONS, type GeocodePrecision } from "../../supabase/functions/_shared/geocoding.ts";
+
+// Providers and the offline geocoder are shared with the geocode-roofs edge function
+export * from "../../supabase/functions/_shared/geocoding.ts";
+
+type Roof = Database['public']['Tables']['roofs']['Row'];
+
+export type GeocodingProviderName = 'local' | 'census';
+
+export interface GeocodeBatchResult {
+  processed: number;
+  geocoded: number;
+  unresolved: number;
+  flagged: number;
+  // Placed or tried, but the roof couldn't be saved
+  failed: number;
+  remaining: number;
+  byPrecision: Partial<Record<GeocodePrecision, number>>;
+}
+
+export interface CoordinateCoverage {
+  total: number;
+  located: number;
+  missing: number;
+  // Tried by a backfill and not placed
+  unresolved: number;
+  flagged: number;
+  byPrecision: Record<GeocodePrecision | 'surveyed', number>;
+}
+
+export const GEOCODE_PRECISION_LABELS: Record<GeocodePrecision | 'surveyed', string> = {
+  surveyed: 'Entered',
+  rooftop: 'Rooftop',
+  street: 'Street',
+  zip_centroid: 'ZIP centroid',
+  city: 'City'
+};
+
+/**
+ * How many roofs have coordinates, and how precise they are
+ */
+export function summarizeCoverage(
+  roofs: Array<Pick<Roof, 'latitude' | 'longitude' | 'geocode_precision' | 'geocode_mismatch' | 'geocoded_at'>>
+): CoordinateCoverage {
+  const byPrecision = Object.fromEntries(
+    ['surveyed', ...GEOCODE_PRECISIONS].map(precision => [precision, 0])
+  ) as CoordinateCoverage['byPrecision'];
+  let located = 0;
+  let unresolved = 0;
+  let flagged = 0;
+
+  for (const roof of roofs) {
+    if (roof.latitude == null || roof.longitude == null) {
+      if (roof.geocoded_at) unresolved++;
+      continue;
+    }
+    located++;
+    const precision = (roof.geocode_precision as GeocodePrecision | null) || 'surveyed';
+    byPrecision[precision] = (byPrecision[precision] || 0) + 1;
+    if (roof.geocode_mismatch) flagged++;
+  }
+
+  return { total: roofs.length, located, missing: roofs.length - located, unresolved, flagged, byPrecision };
+}
+
+export class GeocodingService {
+  /**
+   * Geocode roofs without coordinates, one batch per edge function call, until none
+   * are left or a call makes no progress. With `retryUnresolved`, roofs earlier backfills
+   * couldn't place are tried again.
+   */
+  static async backfill(
+    options: {
+      providers?: GeocodingProviderName[];
+      retryUnresolved?: boolean;
+      batchSize?: number;
+      onProgress?: (totals: GeocodeBatchResult) => void;
+    } = {}
+  ): Promise<GeocodeBatchResult> {
+    const totals: GeocodeBatchResult = { processed: 0, geocoded: 0, unresolved: 0, flagged: 0, failed: 0, remaining: 0, byPrecision: {} };
+    // Set by the first call from the server clock, so every batch retries the same roofs
+    let retryBefore: string | undefined;
+    let previousRemaining = Infinity;
+
+    for (;;) {
+      const { data, error } = await supabase.functions.invoke('geocode-roofs', {
+        body: {
+          batchSize: options.batchSize ?? 100,
+          providers: options.providers ?? ['local'],
+          retryUnresolved: options.retryUnresolved,
+          retryBefore
+        }
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+      if (data?.error) {
+        throw new Error(data.error);
+      }
+
+      const batch = data as GeocodeBatchResult & { retryBefore?: string };
+      retryBefore = batch.retryBefore;
+      totals.processed += batch.processed;
+      totals.geocoded += batch.geocoded;
+      totals.unresolved += batch.unresolved;
+      totals.flagged += batch.flagged;
+      totals.failed += batch.failed;
+      totals.remaining = batch.remaining;
+      for (const [precision, count] of Object.entries(batch.byPrecision)) {
+        const key = precision as GeocodePrecision;
+        totals.byPrecision[key] = (totals.byPrecision[key] || 0) + (count || 0);
+      }
+      options.onProgress?.({ ...totals });
+
+      // Nothing saved, or nothing left the queue: another call would fetch the same roofs
+      if (batch.processed === 0 || batch.remaining === 0 ||
+        batch.failed === batch.processed || batch.remaining >= previousRemaining) {
+        return totals;
+      }
+      previousRemaining = batch.remaining;
+    }
+  }
+}
@@ -1,11 +1,31 @@
 import { supabase } from '@/integrations/supabase/client';
-import { uploadRoofFile } from '@/lib/fileStorage';
-import { RealPDFParser, ExtractedPDFData } from './realPdfParser';
+import { uploadRoofFile, attachStagedRoofFile, returnRoofFileToStaging } from '@/lib/fileStorage';
+import { RealPDFParser, ExtractedPDFData, PDF_PARSER_VERSION } from './realPdfParser';
 import { PropertyMatcher, PropertyMatch } from './propertyMatcher';
-import type { Database } from '@/integrations/supabase/types';
+import {
+  ExtractionReviewService,
+  getReviewReasons,
+  toStoredExtraction,
+  type ExtractionReview,
+  type ReviewReason
+} from './extractionReviews';
+import { DeficiencyService, TrackedDeficiency } from './deficiencyService';
+import {
+  HistoricalInspectionRecords,
+  ROOF_FIELD_SOURCES,
+  type RoofFieldChange,
+  type RoofUpdateField
+} from '../../supabase/functions/_shared/historicalInspectionRecords.ts';
+import type { Database, Json } from '@/integrations/supabase/types';
+
+// Record building is shared with the ingest-inspection-archive edge function
+export type { RoofFieldChange, RoofUpdateField };
 
 type InspectionInsert = Database['public']['Tables']['inspections']['Insert'];
 type InspectionReportInsert = Database['public']['Tables']['inspection_reports']['Insert'];
+type SourceDocumentInsert = Database['public']['Tables']['inspection_source_documents']['Insert'];
+type RoofUpdate = Database['public']['Tables']['roofs']['Update'];
+type RoofFile = Database['public']['Tables']['roof_files']['Row'];
 
 export interface StoredInspectionResult {
   inspectionId: string;
@@ -22,11 +42,14 @@ export interface ProcessedPDFResult {
   propertyMatch: PropertyMatch | null;
   extractedData: ExtractedPDFData;
   storedResult?: StoredInspectionResult;
+  // Set when the extraction was held in the review queue instead of being stored
+  reviewId?: string;
+  reviewReasons?: ReviewReason[];
   error?: string;
   fileName: string;
 }
 
-export class HistoricalInspectionService {
+export class HistoricalInspectionService extends HistoricalInspectionRecords {
   /**
    * Check if a PDF file has already been uploaded for a property
    */
@@ -95,7 +118,8 @@ export class HistoricalInspectionService {
   }
 
   /**
-   * Process PDF file: extract data, match property, and store if match found
+   * Process PDF file: extract data, match property, and store it, or hold it in the
+   * review queue when a person should check it first
    */
   static async processPDFFile(pdfFile: File): Promise<ProcessedPDFResult> {
     try {
@@ -117,71 +141,72 @@ export class HistoricalInspectionService {
         extractedData.address
       );
       
-      if (!propertyMatch) {
+      if (propertyMatch) {
+        console.log(`✅ Found property match: ${propertyMatch.property_name} (confidence: ${propertyMatch.confidence})`);
+        
+        // 2.5. Check for duplicate uploads before processing
+        const inspectionDate = this.parseInspectionDate(extractedData.reportDate);
+        const inspectionType = this.normalizeInspectionType(
+          extractedData.reportType, 
+          extractedData.inspectionTypeClassification
+        );
+        
+        const duplicateCheck = await this.checkForDuplicateUpload(
+          propertyMatch.id,
+          pdfFile.name,
+          pdfFile.size,
+          inspectionDate,
+          inspectionType
+        );
+
+        if (duplicateCheck.isDuplicate) {
+          console.log('⚠️ Duplicate upload detected:', {
+            filename: pdfFile.name,
+            property: propertyMatch.property_name,
+            existingFile: duplicateCheck.existingFile
+          });
+          
+          return {
+            success: false,
+            propertyMatch,
+            extractedData,
+            fileName: pdfFile.name,
+            error: `⚠️ Duplicate Upload: This inspection report for "${propertyMatch.property_name}" has already been uploaded. Original file uploaded on ${duplicateCheck.existingFile?.created_at ? new Date(duplicateCheck.existingFile.created_at).toLocaleDateString() : 'unknown date'}.`
+          };
+        }
+      } else {
         console.log('❌ No property match found for:', {
           extractedName: extractedData.propertyName,
           extractedAddress: extractedData.address,
           filename: pdfFile.name
         });
-        
-        // Get potential matches for better error message
-        const potentialMatches = await PropertyMatcher.getPotentialMatches(
-          extractedData.propertyName,
-          extractedData.address,
-          3
-        );
-        
-        const errorMsg = potentialMatches.length > 0 
-          ? `Could not match property "${extractedData.propertyName}" to database. Closest matches: ${potentialMatches.map(m => `${m.property_name} (${Math.round(m.confidence * 100)}%)`).join(', ')}`
-          : `Could not match property "${extractedData.propertyName}" to any existing property in database. Extracted from: ${pdfFile.name}`;
-          
-        return {
-          success: false,
-          propertyMatch: null,
-          extractedData,
-          fileName: pdfFile.name,
-          error: errorMsg
-        };
       }
       
-      console.log(`✅ Found property match: ${propertyMatch.property_name} (confidence: ${propertyMatch.confidence})`);
-      
-      // 2.5. Check for duplicate uploads before processing
-      const inspectionDate = this.parseInspectionDate(extractedData.reportDate);
-      const inspectionType = this.normalizeInspectionType(
-        extractedData.reportType, 
-        extractedData.inspectionTypeClassification
-      );
+      // 3. Hold anything a person should check: low-confidence fields, an unsure
+      // property match, or values that would replace what the roof already has
+      const roofChanges = propertyMatch ? await this.proposeRoofUpdates(propertyMatch.id, extractedData) : [];
+      const reviewReasons = getReviewReasons(extractedData, propertyMatch, roofChanges.some(change => change.overwrite));
       
-      const duplicateCheck = await this.checkForDuplicateUpload(
-        propertyMatch.id,
-        pdfFile.name,
-        pdfFile.size,
-        inspectionDate,
-        inspectionType
-      );
-
-      if (duplicateCheck.isDuplicate) {
-        console.log('⚠️ Duplicate upload detected:', {
-          filename: pdfFile.name,
-          property: propertyMatch.property_name,
-          existingFile: duplicateCheck.existingFile
-        });
+      if (reviewReasons.length > 0) {
+        const review = await ExtractionReviewService.queue(pdfFile, extractedData, propertyMatch, reviewReasons);
+        console.log('📋 Extraction queued for review:', pdfFile.name, reviewReasons);
         
         return {
           success: false,
           propertyMatch,
           extractedData,
           fileName: pdfFile.name,
-          error: `⚠️ Duplicate Upload: This inspection report for "${propertyMatch.property_name}" has already been uploaded. Original file uploaded on ${duplicateCheck.existingFile?.created_at ? new Date(duplicateCheck.existingFile.created_at).toLocaleDateString() : 'unknown date'}.`
+          reviewId: review.id,
+          reviewReasons
         };
       }
       
-      // 3. Store the inspection data
+      // 4. Store the inspection data, filling in only roof fields that are empty
       const storedResult = await this.storeHistoricalInspection(
-        propertyMatch.id,
+        propertyMatch!.id,
         extractedData,
-        pdfFile
+        pdfFile,
+        roofChanges.map(change => change.field)
       );
       
       return {
@@ -206,16 +231,22 @@ export class HistoricalInspectionService {
   }
   
   /**
-   * Store historical inspection data extracted from PDF
+   * Store historical inspection data extracted from PDF. Roof fields are only changed
+   * where listed in approvedRoofFields; without a list, only empty fields are filled in.
    */
   static async storeHistoricalInspection(
     roofId: string,
     extractedData: ExtractedPDFData,
-    pdfFile: File
+    pdfFile: File,
+    approvedRoofFields?: RoofUpdateField[]
   ): Promise<StoredInspectionResult> {
     try {
       console.log('Storing historical inspection for roof:', roofId);
       
+      const approved = approvedRoofFields ?? (await this.proposeRoofUpdates(roofId, extractedData))
+        .filter(change => !change.overwrite)
+        .map(change => change.field);
+      
       // 1. Upload PDF file to storage
       const fileUploadResult = await uploadRoofFile(roofId, pdfFile, {
         file_type: 'inspection_report',
@@ -225,66 +256,7 @@ export class HistoricalInspectionService {
         throw new Error('Failed to upload PDF file');
       }
       
-      // 2. Parse inspection date
-      const inspectionDate = this.parseInspectionDate(extractedData.reportDate);
-      
-      // 3. Create inspection record
-      const inspectionData: InspectionInsert = {
-        roof_id: roofId,
-        inspection_type: this.normalizeInspectionType(extractedData.reportType, extractedData.inspectionTypeClassification),
-        completed_date: inspectionDate,
-        status: 'completed',
-        notes: `Historical inspection imported from PDF: ${pdfFile.name}\nInspection Company: ${extractedData.inspectionCompany}\nInspection Type: ${extractedData.inspectionTypeClassification.primaryType} (${Math.round(extractedData.inspectionTypeClassification.confidence * 100)}% confidence)`,
-        weather_conditions: null
-      };
-
-      const { data: inspection, error: inspectionError } = await supabase
-        .from('inspections')
-        .insert(inspectionData)
-        .select()
-        .single();
-      
-      if (inspectionError || !inspection) {
-        throw new Error(`Failed to create inspection record: ${inspectionError?.message}`);
-      }
-      
-      // 4. Create inspection report with extracted findings
-      const findings = this.generateFindings(extractedData);
-      const recommendations = this.generateRecommendations(extractedData);
-      
-      const reportData: InspectionReportInsert = {
-        inspection_id: inspection.id,
-        findings,
-        recommendations,
-        estimated_cost: 0, // Will be updated if cost estimates are found in PDF
-        priority_level: this.determinePriorityLevel(extractedData),
-        status: 'completed',
-        report_url: fileUploadResult.data.file_url
-      };
-
-      const { data: report, error: reportError } = await supabase
-        .from('inspection_reports')
-        .insert(reportData)
-        .select()
-        .single();
-      
-      if (reportError || !report) {
-        throw new Error(`Failed to create inspection report: ${reportError?.message}`);
-      }
-      
-      // 5. Update roof information with extracted data
-      await this.updateRoofInformation(roofId, extractedData, inspectionDate);
-      
-      console.log('Successfully stored historical inspection:', inspection.id);
-      
-      return {
-        inspectionId: inspection.id,
-        reportId: report.id,
-        fileUrl: fileUploadResult.data.file_url,
-        propertyMatch: null,
-        extractedData,
-        success: true
-      };
+      return await this.recordInspection(roofId, extractedData, { name: pdfFile.name, size: pdfFile.size, url: fileUploadResult.data.file_url }, approved);
       
     } catch (error) {
       console.error('Error storing historical inspection:', error);
@@ -301,306 +273,327 @@ export class HistoricalInspectionService {
   }
   
   /**
-   * Update roof information with extracted data from PDF
+   * Commit a reviewed extraction: the reviewer's corrections, their confirmed property and
+   * only the roof fields they approved
    */
-  private static async updateRoofInformation(
+  static async commitReview(
+    review: ExtractionReview,
     roofId: string,
-    extractedData: ExtractedPDFData,
-    inspectionDate: string
-  ): Promise<void> {
-    const updateData: any = {
-      last_inspection_date: inspectionDate,
-      updated_at: new Date().toISOString()
+    correctedData: ExtractedPDFData,
+    approvedRoofFields: RoofUpdateField[]
+  ): Promise<StoredInspectionResult> {
+    const inspectionDate = this.parseInspectionDate(correctedData.reportDate);
+    const duplicateCheck = await this.checkForDuplicateUpload(
+      roofId,
+      review.file_name,
+      review.file_size ?? -1,
+      inspectionDate,
+      this.normalizeInspectionType(correctedData.reportType, correctedData.inspectionTypeClassification)
+    );
+    if (duplicateCheck.isDuplicate) {
+      throw new Error('This report has already been uploaded for the selected property');
+    }
+
+    const fileResult = await attachStagedRoofFile(
+      roofId,
+      review.staged_path,
+      { name: review.file_name, size: review.file_size, mime_type: 'application/pdf' },
+      { file_type: 'inspection_report', is_public: true }
+    );
+    if (fileResult.error || !fileResult.data) {
+      throw new Error('Failed to attach PDF file to the property');
+    }
+    const attachedFile: RoofFile = fileResult.data;
+    // The report is linked to the new inspection inside the function
+    const { inspection_id: _inspectionId, ...report } = this.inspectionReportRecord('', correctedData, attachedFile.file_url);
+
+    // The review is claimed and every record written in one transaction
+    const { data, error } = await supabase.rpc('commit_extraction_review', {
+      p_review_id: review.id,
+      p_roof_id: roofId,
+      p_inspection: this.inspectionRecord(roofId, correctedData, review.file_name) as Json,
+      p_report: report as Json,
+      p_source_document: this.sourceDocumentRecord(correctedData, { name: review.file_name, size: review.file_size }) as Json,
+      p_roof_updates: this.roofFieldUpdates(correctedData, inspectionDate, approvedRoofFields),
+      p_corrected_data: toStoredExtraction(correctedData),
+      p_approved_roof_fields: approvedRoofFields
+    });
+
+    if (error || !data) {
+      // Put the PDF back in staging, or the duplicate check would block the next attempt
+      const { error: restoreError } = await returnRoofFileToStaging(attachedFile, review.staged_path);
+      if (restoreError) {
+        console.error('Error returning report to staging:', restoreError);
+      }
+      throw new Error(error?.message ?? 'Failed to commit the review');
+    }
+
+    const committed = data as { inspection_id: string; report_id: string };
+    return {
+      inspectionId: committed.inspection_id,
+      reportId: committed.report_id,
+      fileUrl: attachedFile.file_url,
+      propertyMatch: null,
+      extractedData: correctedData,
+      success: true
     };
+  }
+  
+  /**
+   * Write the inspection, its report and source text, then the approved roof fields
+   */
+  private static async recordInspection(
+    roofId: string,
+    extractedData: ExtractedPDFData,
+    file: { name: string; size: number | null; url: string },
+    approvedRoofFields: RoofUpdateField[]
+  ): Promise<StoredInspectionResult> {
+    // 1. Parse inspection date
+    const inspectionDate = this.parseInspectionDate(extractedData.reportDate);
     
-    // Update roof specifications if extracted from PDF
-    if (extractedData.roofArea > 0) {
-      updateData.roof_area = extractedData.roofArea;
-      updateData.roof_area_unit = 'sq ft';
-    }
+    // 2. Create inspection record
+    const inspectionData: InspectionInsert = this.inspectionRecord(roofId, extractedData, file.name);
+
+    const { data: inspection, error: inspectionError } = await supabase
+      .from('inspections')
+      .insert(inspectionData)
+      .select()
+      .single();
     
-    if (extractedData.roofSystem) {
-      updateData.roof_system = extractedData.roofSystem;
+    if (inspectionError || !inspection) {
+      throw new Error(`Failed to create inspection record: ${inspectionError?.message}`);
     }
+
+    // A half-written inspection would fail the next attempt's duplicate check; its report
+    // and source text are deleted with it
+    const discardInspection = () => supabase.from('inspections').delete().eq('id', inspection.id);
     
-    if (extractedData.systemDescription) {
-      updateData.roof_system_description = extractedData.systemDescription;
-    }
+    // 3. Create inspection report with extracted findings
+    const reportData: InspectionReportInsert = this.inspectionReportRecord(inspection.id, extractedData, file.url);
+
+    const { data: report, error: reportError } = await supabase
+      .from('inspection_reports')
+      .insert(reportData)
+      .select()
+      .single();
     
-    if (extractedData.manufacturer) {
-      updateData.manufacturer = extractedData.manufacturer;
+    if (reportError || !report) {
+      await discardInspection();
+      throw new Error(`Failed to create inspection report: ${reportError?.message}`);
     }
     
-    if (extractedData.installingContractor) {
-      updateData.installing_contractor = extractedData.installingContractor;
+    // 4. Keep the report text so it can be re-parsed without the PDF
+    const sourceDocument: SourceDocumentInsert = {
+      inspection_id: inspection.id,
+      ...this.sourceDocumentRecord(extractedData, file)
+    };
+
+    const { error: sourceError } = await supabase
+      .from('inspection_source_documents')
+      .insert(sourceDocument);
+
+    if (sourceError) {
+      await discardInspection();
+      throw new Error(`Failed to store report text: ${sourceError.message}`);
     }
     
-    if (extractedData.repairingContractor) {
-      updateData.repair_contractor = extractedData.repairingContractor;
-    }
+    // 5. Update the roof fields that were approved
+    await this.updateRoofInformation(roofId, extractedData, inspectionDate, approvedRoofFields);
     
-    if (extractedData.drainageSystem) {
-      updateData.drainage_system = extractedData.drainageSystem;
-    }
+    console.log('Successfully stored historical inspection:', inspection.id);
     
-    if (extractedData.flashingDetail) {
-      updateData.flashing_detail = extractedData.flashingDetail;
+    return {
+      inspectionId: inspection.id,
+      reportId: report.id,
+      fileUrl: file.url,
+      propertyMatch: null,
+      extractedData,
+      success: true
+    };
+  }
+  
+  /**
+   * Parse an inspection's stored report text again with the current parser and apply the
+   * result to the inspection and its report. Roof fields are left alone; they were
+   * approved when the report was stored.
+   */
+  static async reparseInspection(inspectionId: string): Promise<ExtractedPDFData> {
+    const { data: document, error } = await supabase
+      .from('inspection_source_documents')
+      .select('file_name, raw_text, page_count')
+      .eq('inspection_id', inspectionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
     }
-    
-    if (extractedData.perimeterDetail) {
-      updateData.perimeter_detail = extractedData.perimeterDetail;
+    if (!document) {
+      throw new Error('No stored report text for this inspection; upload the PDF again to re-parse it');
     }
-    
-    if (extractedData.propertyManager) {
-      updateData.property_manager_name = extractedData.propertyManager;
+
+    const extractedData = RealPDFParser.parseText(document.raw_text, document.file_name, document.page_count);
+
+    const { error: inspectionError } = await supabase
+      .from('inspections')
+      .update({
+        inspection_type: this.normalizeInspectionType(extractedData.reportType, extractedData.inspectionTypeClassification),
+        completed_date: this.parseInspectionDate(extractedData.reportDate)
+      })
+      .eq('id', inspectionId);
+
+    if (inspectionError) {
+      throw new Error(inspectionError.message);
     }
-    
-    if (extractedData.propertyManagerPhone) {
-      updateData.property_manager_phone = extractedData.propertyManagerPhone;
+
+    const { findings, recommendations, estimated_cost, priority_level } =
+      this.inspectionReportRecord(inspectionId, extractedData, '');
+    const { error: reportError } = await supabase
+      .from('inspection_reports')
+      .update({ findings, recommendations, estimated_cost, priority_level })
+      .eq('inspection_id', inspectionId);
+
+    if (reportError) {
+      throw new Error(reportError.message);
     }
-    
-    if (extractedData.market) {
-      updateData.market = extractedData.market;
+
+    // Stamped last, so a failure above leaves the report outdated and it is tried again
+    const { error: updateError } = await supabase
+      .from('inspection_source_documents')
+      .update({
+        extracted_data: toStoredExtraction(extractedData),
+        template_id: extractedData.template.id,
+        field_confidence: extractedData.fieldConfidence as Json,
+        parser_version: PDF_PARSER_VERSION,
+        parsed_at: new Date().toISOString()
+      })
+      .eq('inspection_id', inspectionId);
+
+    if (updateError) {
+      throw new Error(updateError.message);
     }
-    
-    await supabase
-      .from('roofs')
-      .update(updateData)
-      .eq('id', roofId);
-    
-    console.log('Updated roof information with extracted data');
+
+    return extractedData;
   }
-  
+
   /**
-   * Parse inspection date from various formats
+   * How many stored reports were last parsed by an older parser version
    */
-  private static parseInspectionDate(dateString: string): string {
-    if (!dateString) return new Date().toISOString().split('T')[0];
-    
-    try {
-      // Try to parse various date formats
-      let date: Date;
-      
-      // Format: "MARCH 14, 2025"
-      if (dateString.match(/[A-Z]+ \d{1,2},? \d{4}/i)) {
-        date = new Date(dateString);
-      }
-      // Format: "03/14/2025" or "3-14-2025"
-      else if (dateString.match(/\d{1,2}[-\/]\d{1,2}[-\/]\d{4}/)) {
-        date = new Date(dateString);
-      }
-      // Format: "2025-03-14"
-      else if (dateString.match(/\d{4}-\d{1,2}-\d{1,2}/)) {
-        date = new Date(dateString);
-      }
-      else {
-        date = new Date(dateString);
-      }
-      
-      // Validate date
-      if (isNaN(date.getTime())) {
-        console.warn('Invalid date format:', dateString);
-        return new Date().toISOString().split('T')[0];
-      }
-      
-      return date.toISOString().split('T')[0];
-      
-    } catch (error) {
-      console.warn('Error parsing date:', dateString, error);
-      return new Date().toISOString().split('T')[0];
+  static async getOutdatedReportCount(): Promise<number> {
+    const { count, error } = await supabase
+      .from('inspection_source_documents')
+      .select('id', { count: 'exact', head: true })
+      .neq('parser_version', PDF_PARSER_VERSION);
+
+    if (error) {
+      console.error('Error counting outdated reports:', error);
+      return 0;
     }
+
+    return count || 0;
   }
-  
+
   /**
-   * Normalize inspection type from PDF using classification results
+   * Re-parse every stored report last parsed by an older parser version
    */
-  private static normalizeInspectionType(
-    reportType: string, 
-    classification?: ExtractedPDFData['inspectionTypeClassification']
-  ): string {
-    // Use classification if available and confident
-    if (classification && classification.confidence > 0.3) {
-      switch (classification.primaryType) {
-        case 'storm':
-          return 'storm_damage';
-        case 'annual':
-          return 'annual';
-        case 'due_diligence':
-          return 'pre_purchase'; // Map to existing database type
-        case 'survey':
-          return 'routine'; // Map survey to routine inspection
-        default:
-          // Fall through to legacy logic
-          break;
+  static async reparseOutdatedInspections(): Promise<{ reparsed: number; failed: number }> {
+    const { data: documents, error } = await supabase
+      .from('inspection_source_documents')
+      .select('inspection_id')
+      .neq('parser_version', PDF_PARSER_VERSION);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    let reparsed = 0;
+    let failed = 0;
+    for (const document of documents || []) {
+      try {
+        await this.reparseInspection(document.inspection_id);
+        reparsed++;
+      } catch (reparseError) {
+        console.error('Error re-parsing inspection:', document.inspection_id, reparseError);
+        failed++;
       }
     }
-    
-    // Legacy fallback logic
-    const type = reportType.toLowerCase();
-    
-    if (type.includes('storm') || type.includes('damage')) return 'storm_damage';
-    if (type.includes('annual')) return 'annual';
-    if (type.includes('quarterly')) return 'quarterly';
-    if (type.includes('monthly')) return 'monthly';
-    if (type.includes('emergency')) return 'emergency';
-    if (type.includes('routine')) return 'routine';
-    
-    return 'annual'; // Default
+
+    return { reparsed, failed };
   }
-  
+
   /**
-   * Determine priority level from extracted data
+   * What a report would change on a roof. Empty roof fields are filled in; a different
+   * existing value is an overwrite that has to be approved. The last inspection date only
+   * ever moves forward.
    */
-  private static determinePriorityLevel(extractedData: ExtractedPDFData): string {
-    const reportType = extractedData.reportType.toLowerCase();
-    
-    if (reportType.includes('storm') || reportType.includes('emergency')) {
-      return 'high';
-    }
-    
-    if (reportType.includes('damage')) {
-      return 'medium';
-    }
-    
-    return 'low';
+  static async proposeRoofUpdates(roofId: string, extractedData: ExtractedPDFData): Promise<RoofFieldChange[]> {
+    return this.diffRoofFields(await this.loadRoofFields(roofId), extractedData);
   }
-  
+
   /**
-   * Generate findings text from extracted data
+   * Current values of the roof fields a report can change
    */
-  private static generateFindings(extractedData: ExtractedPDFData): string {
-    const findings: string[] = [];
-    
-    findings.push(`INSPECTION DETAILS:`);
-    findings.push(`• Report Type: ${extractedData.reportType}`);
-    if (extractedData.inspectionTypeClassification && extractedData.inspectionTypeClassification.primaryType !== 'unknown') {
-      findings.push(`• Inspection Classification: ${extractedData.inspectionTypeClassification.primaryType} (${Math.round(extractedData.inspectionTypeClassification.confidence * 100)}% confidence)`);
-    }
-    findings.push(`• Report Date: ${extractedData.reportDate}`);
-    findings.push(`• Inspection Company: ${extractedData.inspectionCompany}`);
-    findings.push(`• Property: ${extractedData.propertyName}`);
-    
-    if (extractedData.address) {
-      findings.push(`• Address: ${extractedData.address}`);
-    }
-    
-    findings.push('');
-    findings.push(`ROOF SPECIFICATIONS:`);
-    
-    if (extractedData.roofArea > 0) {
-      findings.push(`• Roof Area: ${extractedData.roofArea.toLocaleString()} sq ft`);
-    }
-    
-    if (extractedData.roofSystem) {
-      findings.push(`• Roof System: ${extractedData.roofSystem}`);
-    }
-    
-    if (extractedData.systemDescription) {
-      findings.push(`• System Description: ${extractedData.systemDescription}`);
-    }
-    
-    if (extractedData.manufacturer) {
-      findings.push(`• Manufacturer: ${extractedData.manufacturer}`);
-    }
-    
-    if (extractedData.drainageSystem) {
-      findings.push(`• Drainage System: ${extractedData.drainageSystem}`);
-    }
-    
-    if (extractedData.flashingDetail) {
-      findings.push(`• Flashing Detail: ${extractedData.flashingDetail}`);
-    }
-    
-    if (extractedData.perimeterDetail) {
-      findings.push(`• Perimeter Detail: ${extractedData.perimeterDetail}`);
-    }
-    
-    if (extractedData.warranty) {
-      findings.push(`• Warranty Status: ${extractedData.warranty}`);
-    }
-    
-    if (extractedData.warrantyExpiration) {
-      findings.push(`• Warranty Expiration: ${extractedData.warrantyExpiration}`);
-    }
-    
-    findings.push('');
-    findings.push(`CONTRACTOR INFORMATION:`);
-    
-    if (extractedData.installingContractor) {
-      findings.push(`• Installing Contractor: ${extractedData.installingContractor}`);
-    }
-    
-    if (extractedData.repairingContractor) {
-      findings.push(`• Repairing Contractor: ${extractedData.repairingContractor}`);
-    }
-    
-    if (extractedData.client) {
-      findings.push(`• Client: ${extractedData.client}`);
-    }
-    
-    if (extractedData.propertyManager) {
-      findings.push(`• Property Manager: ${extractedData.propertyManager}`);
-      
-      if (extractedData.propertyManagerPhone) {
-        findings.push(`• PM Phone: ${extractedData.propertyManagerPhone}`);
-      }
+  static async loadRoofFields(roofId: string): Promise<Record<string, string | number | null>> {
+    const { data: roof, error } = await supabase
+      .from('roofs')
+      .select(`last_inspection_date, ${ROOF_FIELD_SOURCES.map(source => source.field).join(', ')}`)
+      .eq('id', roofId)
+      .single();
+
+    if (error || !roof) {
+      throw new Error(`Failed to load property: ${error?.message}`);
     }
-    
-    return findings.join('\n');
+
+    return roof as unknown as Record<string, string | number | null>;
   }
-  
+
   /**
-   * Generate recommendations from extracted data
+   * The source document row that keeps a report's text for re-parsing
    */
-  private static generateRecommendations(extractedData: ExtractedPDFData): string {
-    const recommendations: string[] = [];
-    
-    recommendations.push('RECOMMENDATIONS:');
-    recommendations.push('• Review complete PDF report for detailed findings and photos');
-    
-    // Use classification for more accurate recommendations
-    const inspectionType = extractedData.inspectionTypeClassification?.primaryType || 'unknown';
-    
-    if (inspectionType === 'storm' || extractedData.reportType.toLowerCase().includes('storm')) {
-      recommendations.push('• Assess storm damage thoroughly and prioritize critical repairs');
-      recommendations.push('• Document all damage with photos for insurance claims if applicable');
-      recommendations.push('• Consider emergency repairs for any active leaks or safety hazards');
-    }
-    
-    if (inspectionType === 'due_diligence') {
-      recommendations.push('• Review findings carefully for property acquisition decision');
-      recommendations.push('• Obtain cost estimates for all identified repairs');
-      recommendations.push('• Consider warranty implications for upcoming transaction');
-    }
-    
-    if (inspectionType === 'survey') {
-      recommendations.push('• Document current roof condition for baseline comparison');
-      recommendations.push('• Plan maintenance schedule based on survey findings');
-      recommendations.push('• Budget for identified future repair needs');
-    }
-    
-    if (extractedData.installingContractor) {
-      recommendations.push(`• Contact installing contractor for warranty information: ${extractedData.installingContractor}`);
-    }
-    
-    if (extractedData.repairingContractor) {
-      recommendations.push(`• Contact repairing contractor for maintenance: ${extractedData.repairingContractor}`);
-    }
+  private static sourceDocumentRecord(
+    extractedData: ExtractedPDFData,
+    file: { name: string; size: number | null }
+  ): Omit<SourceDocumentInsert, 'inspection_id'> {
+    return {
+      file_name: file.name,
+      file_size: file.size,
+      raw_text: extractedData.extractedText,
+      page_count: extractedData.pageCount,
+      parser_version: PDF_PARSER_VERSION,
+      template_id: extractedData.template.id,
+      field_confidence: extractedData.fieldConfidence as Json,
+      extracted_data: toStoredExtraction(extractedData)
+    };
+  }
+
+  /**
+   * Update the approved roof fields with extracted data from PDF
+   */
+  private static async updateRoofInformation(
+    roofId: string,
+    extractedData: ExtractedPDFData,
+    inspectionDate: string,
+    approvedFields: RoofUpdateField[]
+  ): Promise<void> {
+    const updateData: RoofUpdate = this.roofFieldUpdates(extractedData, inspectionDate, approvedFields);
     
-    if (extractedData.warranty && extractedData.warranty.toLowerCase() !== 'no') {
-      recommendations.push('• Verify warranty coverage for any identified issues');
+    if (Object.keys(updateData).length === 0) {
+      return;
     }
     
-    recommendations.push('• Schedule follow-up inspection as needed based on findings');
-    recommendations.push('• Update maintenance records with inspection findings');
+    const { error } = await supabase
+      .from('roofs')
+      .update({ ...updateData, updated_at: new Date().toISOString() })
+      .eq('id', roofId);
     
-    if (extractedData.roofArea > 0) {
-      recommendations.push(`• Confirm roof area measurement: ${extractedData.roofArea.toLocaleString()} sq ft`);
+    if (error) {
+      // The inspection is already recorded; a failed roof update shouldn't undo that
+      console.error('Error updating roof information:', error);
+      return;
     }
     
-    return recommendations.join('\n');
+    console.log('Updated roof information with extracted data:', Object.keys(updateData));
   }
-
+  
   /**
    * Get historical inspection data for Inspector Intelligence
    */
@@ -641,9 +634,14 @@ export class HistoricalInspectionService {
         return null;
       }
 
+      // Tracked deficiencies take precedence over findings parsed from report text
+      const trackedDeficiencies = await DeficiencyService.getDeficienciesForRoof(roofId, true);
+
       // Analyze patterns in historical data
-      const focusAreas = this.analyzeFocusAreas(historicalData);
-      const patternInsights = this.analyzePatterns(historicalData);
+      const focusAreas = trackedDeficiencies.length > 0
+        ? this.analyzeTrackedFocusAreas(trackedDeficiencies)
+        : this.analyzeFocusAreas(historicalData);
+      const patternInsights = this.analyzePatterns(historicalData, trackedDeficiencies);
       const costTrends = this.analyzeCostTrends(historicalData);
 
       return {
@@ -717,10 +715,27 @@ export class HistoricalInspectionService {
       }));
   }
 
+  /**
+   * Focus areas from deficiencies tracked across inspections
+   */
+  private static analyzeTrackedFocusAreas(deficiencies: TrackedDeficiency[]) {
+    return deficiencies
+      .filter(d => d.status !== 'resolved')
+      .sort((a, b) => b.observation_count - a.observation_count)
+      .map(d => ({
+        location: d.location,
+        severity: d.severity as 'high' | 'medium' | 'low',
+        issueType: d.category,
+        recurrenceCount: d.observation_count,
+        lastReported: d.last_observed_date || d.first_observed_date || '',
+        estimatedCost: Math.round(Number(d.estimated_cost) || 0)
+      }));
+  }
+
   /**
    * Analyze patterns and trends in historical data
    */
-  private static analyzePatterns(inspections: any[]) {
+  private static analyzePatterns(inspections: any[], trackedDeficiencies: TrackedDeficiency[] = []) {
     const patterns = [];
 
     // Pattern 1: Seasonal issues
@@ -736,7 +751,9 @@ export class HistoricalInspectionService {
     }
 
     // Pattern 3: Recurring issue types
-    const issueTypeAnalysis = this.analyzeIssueTypes(inspections);
+    const issueTypeAnalysis = trackedDeficiencies.length > 0
+      ? this.analyzeTrackedRecurrence(trackedDeficiencies)
+      : this.analyzeIssueTypes(inspections);
     patterns.push(...issueTypeAnalysis);
 
     return patterns.slice(0, 5); // Return top 5 patterns
@@ -835,6 +852,31 @@ export class HistoricalInspectionService {
       }));
   }
 
+  private static analyzeTrackedRecurrence(deficiencies: TrackedDeficiency[]) {
+    const recurring = deficiencies
+      .filter(d => d.observation_count >= 2)
+      .sort((a, b) => b.observation_count - a.observation_count)
+      .map(d => ({
+        insight: d.status === 'resolved'
+          ? `${d.category} at ${d.location} was flagged ${d.observation_count} times before being resolved`
+          : `${d.category} at ${d.location} has been flagged ${d.observation_count} inspections running`,
+        probability: Math.min(95, 50 + d.observation_count * 15),
+        basedOnCount: d.observation_count
+      }));
+
+    // Escalated issues: severity has worsened since first reported
+    const escalated = deficiencies.filter(d => d.status === 'escalated');
+    if (escalated.length > 0) {
+      recurring.push({
+        insight: `${escalated.length} deficienc${escalated.length === 1 ? 'y has' : 'ies have'} worsened since first reported`,
+        probability: 90,
+        basedOnCount: escalated.length
+      });
+    }
+
+    return recurring;
+  }
+
   private static analyzeCostTrends(inspections: any[]) {
     const costs = inspections
       .map(i => ({
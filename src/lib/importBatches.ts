@@ -0,0 +1,111 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type ImportBatch = Database['public']['Tables']['import_batches']['Row'];
+
+export interface RollbackSummary {
+  fields_restored: number;
+  roofs_deleted: number;
+  roofs_kept: number;
+  records_deleted: number;
+  conflicts: Array<{ roof_id?: string; client_id?: string; client_contact_id?: string; field?: string; reason: string }>;
+}
+
+export interface FieldProvenance {
+  field: string;
+  batchId: string;
+  fileName: string;
+  importedAt: string;
+  changeType: 'insert' | 'update';
+  previousValue: unknown;
+  value: unknown;
+}
+
+const BATCH_STATUS_LABELS: Record<string, string> = {
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  rolled_back: 'Rolled back'
+};
+
+export const batchStatusLabel = (status: string) => BATCH_STATUS_LABELS[status] || status;
+
+export class ImportBatchService {
+  static async getRecentBatches(limit = 10): Promise<ImportBatch[]> {
+    try {
+      const { data, error } = await supabase
+        .from('import_batches')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching import batches:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Which import last wrote each field of a roof. Rolled-back writes don't count.
+   */
+  static async getRoofProvenance(roofId: string): Promise<Record<string, FieldProvenance>> {
+    try {
+      const { data, error } = await supabase
+        .from('import_batch_changes')
+        .select('field_name, change_type, old_value, new_value, created_at, batch_id, import_batches(file_name)')
+        .eq('roof_id', roofId)
+        .eq('entity_type', 'roof')
+        .eq('rolled_back', false)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      const provenance: Record<string, FieldProvenance> = {};
+      for (const change of data || []) {
+        // Newest first, so the first write seen for a field is the current one
+        if (!change.field_name || provenance[change.field_name]) continue;
+        provenance[change.field_name] = {
+          field: change.field_name,
+          batchId: change.batch_id,
+          fileName: change.import_batches?.file_name || 'Excel import',
+          importedAt: change.created_at,
+          changeType: change.change_type as FieldProvenance['changeType'],
+          previousValue: change.old_value,
+          value: change.new_value
+        };
+      }
+
+      return provenance;
+    } catch (error) {
+      console.error('Error fetching roof provenance:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Restore everything a batch changed. Fields edited after the import are kept and
+   * listed as conflicts in the summary.
+   */
+  static async rollbackBatch(batchId: string): Promise<ImportBatch> {
+    const { data, error } = await supabase.rpc('rollback_import_batch', {
+      p_batch_id: batchId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static rollbackSummary(batch: ImportBatch): RollbackSummary | null {
+    return (batch.rollback_summary as unknown as RollbackSummary) || null;
+  }
+}
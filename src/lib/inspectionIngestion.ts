@@ -0,0 +1,234 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type IngestionJob = Database['public']['Tables']['inspection_ingestion_jobs']['Row'];
+export type IngestionItem = Database['public']['Tables']['inspection_ingestion_items']['Row'];
+export type IngestionJobStatus = 'uploading' | 'expanding' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
+export type IngestionItemStatus = 'pending' | 'processing' | 'stored' | 'review' | 'duplicate' | 'failed';
+
+const INGESTION_FUNCTION = 'ingest-inspection-archive';
+
+// A processing job with no finished item for this long has lost its workers. Matches the
+// item timeout in ingest-inspection-archive, so resuming reclaims the items they held.
+const STALLED_AFTER_MS = 7 * 60 * 1000;
+
+// Files uploaded at once from a multi-file batch
+const UPLOAD_CONCURRENCY = 3;
+
+export const ACTIVE_JOB_STATUSES: IngestionJobStatus[] = ['uploading', 'expanding', 'processing'];
+
+/**
+ * Path a selected file is recorded under: its path in the chosen folder when a folder was
+ * picked, so folder names can suggest the property
+ */
+export function sourcePathOf(file: File): string {
+  return file.webkitRelativePath || file.name;
+}
+
+export function isJobStalled(job: IngestionJob, now: number = Date.now()): boolean {
+  if (job.status !== 'processing') return false;
+  const lastActivity = new Date(job.last_activity_at || job.updated_at).getTime();
+  return now - lastActivity > STALLED_AFTER_MS;
+}
+
+export function jobProgress(job: IngestionJob): number {
+  if (job.total_files === 0) return 0;
+  const done = job.stored_count + job.review_count + job.duplicate_count + job.failed_count;
+  return Math.round((done / job.total_files) * 100);
+}
+
+export class InspectionIngestionService {
+  static async createJob(name: string, sourceType: 'archive' | 'files'): Promise<IngestionJob> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('inspection_ingestion_jobs')
+      .insert({ name, source_type: sourceType, created_by: user?.id })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Upload a ZIP of reports; the server unpacks and processes it
+   */
+  static async submitArchive(job: IngestionJob, archive: File): Promise<void> {
+    const archivePath = `pending-review/ingestion/${job.id}/archive.zip`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('roof-files')
+      .upload(archivePath, archive, { upsert: true });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload archive: ${uploadError.message}`);
+    }
+
+    const { error } = await supabase
+      .from('inspection_ingestion_jobs')
+      .update({ archive_path: archivePath })
+      .eq('id', job.id);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await this.invoke({ action: 'expand', jobId: job.id });
+  }
+
+  /**
+   * Upload selected PDFs as items of a job, then start processing. Files the job already
+   * has are skipped, so selecting the same files again resumes an interrupted upload.
+   */
+  static async submitFiles(
+    job: IngestionJob,
+    files: File[],
+    onProgress?: (uploaded: number, total: number) => void
+  ): Promise<{ uploaded: number; alreadyUploaded: number }> {
+    const { data: existing, error: existingError } = await supabase
+      .from('inspection_ingestion_items')
+      .select('source_path')
+      .eq('job_id', job.id);
+
+    if (existingError) {
+      throw new Error(existingError.message);
+    }
+
+    const known = new Set((existing || []).map(item => item.source_path));
+    const pdfs = files.filter(file => /\.pdf$/i.test(file.name));
+    const queue = pdfs.filter(file => !known.has(sourcePathOf(file)));
+    const total = queue.length;
+    let uploaded = 0;
+
+    const uploadNext = async (): Promise<void> => {
+      const file = queue.shift();
+      if (!file) return;
+
+      const storagePath = `pending-review/ingestion/${job.id}/${crypto.randomUUID()}.pdf`;
+      const { error: uploadError } = await supabase.storage.from('roof-files').upload(storagePath, file);
+      if (uploadError) {
+        throw new Error(`Failed to upload ${file.name}: ${uploadError.message}`);
+      }
+
+      const { error } = await supabase
+        .from('inspection_ingestion_items')
+        .insert({
+          job_id: job.id,
+          source_path: sourcePathOf(file),
+          file_name: file.name,
+          file_size: file.size,
+          storage_path: storagePath
+        });
+      if (error) {
+        throw new Error(`Failed to record ${file.name}: ${error.message}`);
+      }
+
+      uploaded++;
+      onProgress?.(uploaded, total);
+      return uploadNext();
+    };
+
+    await Promise.all(Array.from({ length: UPLOAD_CONCURRENCY }, uploadNext));
+
+    const { error: skippedError } = await supabase
+      .from('inspection_ingestion_jobs')
+      .update({ skipped_count: files.length - pdfs.length })
+      .eq('id', job.id);
+
+    if (skippedError) {
+      console.error('Error recording skipped files:', skippedError);
+    }
+
+    await supabase.rpc('refresh_ingestion_job', { p_job_id: job.id });
+    await this.start(job.id);
+
+    return { uploaded, alreadyUploaded: pdfs.length - total };
+  }
+
+  /**
+   * Start or resume processing; with retryFailed, failed items are tried again
+   */
+  static async start(jobId: string, options: { retryFailed?: boolean; workers?: number } = {}): Promise<void> {
+    await this.invoke({ action: 'start', jobId, ...options });
+  }
+
+  static async setStatus(jobId: string, status: Extract<IngestionJobStatus, 'paused' | 'cancelled'>): Promise<void> {
+    const { error } = await supabase
+      .from('inspection_ingestion_jobs')
+      .update({ status })
+      .eq('id', jobId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  static async getJobs(limit = 20): Promise<IngestionJob[]> {
+    try {
+      const { data, error } = await supabase
+        .from('inspection_ingestion_jobs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching ingestion jobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * A job's items with the given outcome. 'unmatched' is review items no property was
+   * found for.
+   */
+  static async getItems(
+    jobId: string,
+    filter: IngestionItemStatus | 'unmatched',
+    page = 0,
+    pageSize = 50
+  ): Promise<{ items: IngestionItem[]; total: number }> {
+    try {
+      let query = supabase
+        .from('inspection_ingestion_items')
+        .select('*', { count: 'exact' })
+        .eq('job_id', jobId)
+        .order('source_path')
+        .range(page * pageSize, page * pageSize + pageSize - 1);
+
+      query = filter === 'unmatched'
+        ? query.eq('status', 'review').is('roof_id', null)
+        : query.eq('status', filter);
+
+      const { data, count, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      return { items: data || [], total: count || 0 };
+    } catch (error) {
+      console.error('Error fetching ingestion items:', error);
+      return { items: [], total: 0 };
+    }
+  }
+
+  private static async invoke(body: { action: 'expand' | 'start'; jobId: string; retryFailed?: boolean; workers?: number }): Promise<void> {
+    const { data, error } = await supabase.functions.invoke(INGESTION_FUNCTION, { body });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import { supabase } from '@/integrations/supabase/client';
+import { uploadRoofFile, deleteRoofFile } from '@/lib/fileStorage';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface FieldInspectionPhoto {
+  id: string;
+  file: File;
+  type: 'overview' | 'deficiency';
+  location?: string;
+}
+
+export interface FieldInspectionDeficiency {
+  id: string;
+  category: string;
+  location: string;
+  description: string;
+  budgetAmount: number;
+  photos: FieldInspectionPhoto[];
+  severity: 'low' | 'medium' | 'high';
+  status: 'identified' | 'documented' | 'resolved';
+  // Set when this is a follow-up on a deficiency tracked from an earlier inspection,
+  // with the version of it the inspector saw
+  trackedDeficiencyId?: string;
+  trackedVersion?: number;
+  observationType?: 'new' | 'reobserved' | 'escalated' | 'resolved';
+}
+
+export interface FieldInspectionCapitalExpense {
+  id: string;
+  description: string;
+  year: number;
+  estimatedCost: number;
+  scopeOfWork: string;
+  completed: boolean;
+}
+
+export interface FieldInspectionData {
+  propertyId: string;
+  propertyName: string;
+  startTime: Date | null;
+  endTime: Date;
+  deficiencies: FieldInspectionDeficiency[];
+  overviewPhotos: FieldInspectionPhoto[];
+  capitalExpenses: FieldInspectionCapitalExpense[];
+  inspectionNotes: string;
+  roofSquareFootageConfirmed: boolean | null;
+  summary: {
+    totalDeficiencies: number;
+    highSeverityCount: number;
+    totalCapitalExpenses: number;
+    overviewPhotoCount: number;
+  };
+}
+
+export interface SaveInspectionOptions {
+  // Idempotency key for replays from the offline queue
+  syncKey?: string;
+}
+
+export interface SavedInspectionResult {
+  success: boolean;
+  inspectionId?: string;
+  uploadedPhotoCount: number;
+  // Follow-ups not applied because the deficiency changed after it was loaded
+  staleFollowUpCount?: number;
+  error?: string;
+  // The failure looks like a network or temporary server problem, so retrying may succeed
+  transient?: boolean;
+}
+
+// SQLSTATE classes worth retrying: connection (08), transaction rollback such as
+// serialization failures and deadlocks (40), insufficient resources (53) and
+// operator intervention such as statement timeouts (57)
+const TRANSIENT_SQLSTATE = /^(08|40|53|57)/;
+
+class InspectionSaveError extends Error {
+  constructor(message: string, readonly transient: boolean) {
+    super(message);
+  }
+}
+
+/**
+ * Whether a Supabase error is worth retrying. Failed requests never reach
+ * Postgres, so they surface without a SQLSTATE code or with a 5xx status.
+ */
+const isTransientError = (error: { code?: string; status?: number; statusCode?: string | number; message?: string } | null | undefined): boolean => {
+  if (!error) return false;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error.code && TRANSIENT_SQLSTATE.test(error.code)) return true;
+
+  const status = Number(error.status ?? error.statusCode);
+  if (status >= 500 || status === 408 || status === 429) return true;
+
+  return !error.code && /fetch|network|timeout|timed out/i.test(error.message ?? '');
+};
+
+interface UploadedPhoto {
+  fileId: string;
+  storagePath: string;
+}
+
+export class InspectionPersistenceService {
+  /**
+   * Persist a completed field inspection: upload every photo to the roof-files
+   * bucket, then write the inspection, its deficiencies and capital expenses and
+   * the roof's inspection dates through the complete_field_inspection RPC.
+   * With a sync key, every write is idempotent so the call can be safely retried.
+   */
+  static async saveCompletedInspection(
+    data: FieldInspectionData,
+    options: SaveInspectionOptions = {}
+  ): Promise<SavedInspectionResult> {
+    const uploaded: UploadedPhoto[] = [];
+    const { syncKey } = options;
+
+    try {
+      // 1. Upload photos first so the RPC can reference their roof_files ids
+      const overviewPhotoIds = await this.uploadPhotos(
+        data.propertyId,
+        data.overviewPhotos,
+        uploaded,
+        syncKey && `${syncKey}_overview`
+      );
+
+      const deficiencies = [];
+      for (const [index, deficiency] of data.deficiencies.entries()) {
+        const photoIds = await this.uploadPhotos(
+          data.propertyId,
+          deficiency.photos,
+          uploaded,
+          syncKey && `${syncKey}_deficiency${index}`
+        );
+        deficiencies.push({
+          deficiency_id: deficiency.trackedDeficiencyId ?? null,
+          observation_type: deficiency.observationType ?? 'new',
+          category: deficiency.category,
+          location: deficiency.location,
+          description: deficiency.description,
+          severity: deficiency.severity,
+          status: deficiency.status,
+          budget_amount: deficiency.budgetAmount,
+          photo_file_ids: photoIds,
+          based_on_version: deficiency.trackedVersion ?? null
+        });
+      }
+
+      // 2. Write everything else in a single database transaction
+      const payload = {
+        started_at: data.startTime?.toISOString() ?? null,
+        ended_at: data.endTime.toISOString(),
+        notes: data.inspectionNotes,
+        roof_square_footage_confirmed: data.roofSquareFootageConfirmed,
+        overview_photo_file_ids: overviewPhotoIds,
+        summary: data.summary,
+        sync_key: syncKey ?? null,
+        deficiencies,
+        capital_expenses: data.capitalExpenses.map(expense => ({
+          description: expense.description,
+          expense_year: expense.year,
+          estimated_cost: expense.estimatedCost,
+          scope_of_work: expense.scopeOfWork,
+          completed: expense.completed
+        }))
+      };
+
+      const { data: inspectionId, error } = await supabase.rpc('complete_field_inspection', {
+        p_roof_id: data.propertyId,
+        p_inspection: payload as unknown as Json
+      });
+
+      if (error || !inspectionId) {
+        throw new InspectionSaveError(
+          `Failed to save inspection: ${error?.message ?? 'no inspection id returned'}`,
+          isTransientError(error)
+        );
+      }
+
+      const { count: staleFollowUpCount } = await supabase
+        .from('inspection_deficiencies')
+        .select('id', { count: 'exact', head: true })
+        .eq('inspection_id', inspectionId)
+        .eq('follow_up_applied', false);
+
+      return {
+        success: true,
+        inspectionId,
+        uploadedPhotoCount: uploaded.length,
+        staleFollowUpCount: staleFollowUpCount ?? 0
+      };
+    } catch (error) {
+      console.error('Error saving field inspection:', error);
+
+      // The transaction never committed, so don't leave orphaned photos behind.
+      // Keyed uploads are kept: the retry overwrites them in place.
+      if (!syncKey) {
+        await this.removeUploadedPhotos(uploaded);
+      }
+
+      return {
+        success: false,
+        uploadedPhotoCount: 0,
+        error: error instanceof Error ? error.message : 'Unknown error saving inspection',
+        transient: error instanceof InspectionSaveError ? error.transient : isTransientError(error as Error)
+      };
+    }
+  }
+
+  /**
+   * Upload photos one at a time; uploadRoofFile names objects by timestamp,
+   * so parallel uploads for the same roof could collide.
+   */
+  private static async uploadPhotos(
+    roofId: string,
+    photos: FieldInspectionPhoto[],
+    uploaded: UploadedPhoto[],
+    syncKeyPrefix?: string
+  ): Promise<string[]> {
+    const fileIds: string[] = [];
+
+    for (const [index, photo] of photos.entries()) {
+      const { data, error } = await uploadRoofFile(roofId, photo.file, {
+        file_type: 'Photo',
+        is_public: false,
+        sync_key: syncKeyPrefix ? `${syncKeyPrefix}_photo${index}` : undefined
+      });
+
+      if (error || !data) {
+        throw new InspectionSaveError(
+          `Failed to upload photo ${photo.file.name}: ${error?.message ?? 'unknown error'}`,
+          isTransientError(error)
+        );
+      }
+
+      uploaded.push({ fileId: data.id, storagePath: data.storage_path });
+      fileIds.push(data.id);
+    }
+
+    return fileIds;
+  }
+
+  private static async removeUploadedPhotos(uploaded: UploadedPhoto[]): Promise<void> {
+    for (const photo of uploaded) {
+      const { error } = await deleteRoofFile(photo.fileId, photo.storagePath);
+      if (error) {
+        console.error('Failed to clean up uploaded photo:', photo.storagePath, error);
+      }
+    }
+  }
+}
@@ -374,6 +374,10 @@ export class InspectorIntelligenceService {
             inspection_reports (
               priority_level
             )
+          ),
+          deficiencies (
+            status,
+            observation_count
           )
         `)
         .eq('id', propertyId)
@@ -392,6 +396,11 @@ export class InspectorIntelligenceService {
         .filter((i: any) => i.inspection_reports?.[0]?.priority_level === 'high')
         .length;
 
+      // Most times any still-open deficiency has been flagged before
+      const recurringIssues = (property.deficiencies || [])
+        .filter(d => d.status !== 'resolved')
+        .reduce((max, d) => Math.max(max, d.observation_count - 1), 0);
+
       return {
         id: property.id,
         name: property.property_name,
@@ -399,6 +408,7 @@ export class InspectorIntelligenceService {
         squareFootage: property.roof_area || 0,
         lastInspectionDate: property.last_inspection_date,
         criticalIssues,
+        recurringIssues,
         status: this.determinePropertyStatus(property, criticalIssues)
       };
 
@@ -35,7 +35,6 @@ export interface PropertyGroup {
     property_manager?: string;
     risk_score?: number;
     seasonal_preferences?: string[];
-    optimization_score?: number;
   };
   created_at: string;
   updated_at: string;
@@ -69,6 +68,87 @@ export interface RouteOptimization {
   optimization_score: number;
 }
 
+export interface RouteLocation {
+  lat: number;
+  lng: number;
+  label?: string;
+}
+
+export interface RoutePlanningOptions {
+  startDate: string; // YYYY-MM-DD
+  homeBase: RouteLocation;
+  shiftStart?: string; // HH:mm
+  shiftMinutes?: number;
+  averageSpeedMph?: number;
+  allowOvernight?: boolean;
+  // Book a hotel instead of driving home when the last stop is farther than this
+  overnightThresholdMiles?: number;
+  workingDays?: number[]; // 0 = Sunday
+  improvementTimeBudgetMs?: number; // per day
+}
+
+export interface PlannedStop {
+  property: Property;
+  arrival: string; // HH:mm
+  departure: string; // HH:mm
+  travel_minutes: number;
+  distance_miles: number;
+  inspection_minutes: number;
+}
+
+export interface DailyRoute {
+  day_number: number;
+  route_date: string;
+  start_location: RouteLocation;
+  end_location: RouteLocation;
+  overnight_stay: boolean;
+  stops: PlannedStop[];
+  total_distance: number; // miles, including the drive home
+  estimated_travel_time: number; // driving minutes, including the drive home
+  inspection_minutes: number;
+  shift_minutes: number; // minutes used
+  exceeds_shift: boolean;
+  optimization_score: number;
+  metrics: RouteQualityMetrics;
+}
+
+export interface MultiDayRoutePlan {
+  days: DailyRoute[];
+  unplanned: Property[]; // missing coordinates
+  total_distance: number;
+  overnight_stays: number;
+  naive_distance: number; // before 2-opt / Or-opt, comparable to the sum of optimized_distance
+  improvement_percent: number;
+}
+
+// Route quality: distance of the naive (nearest-neighbour) order against the
+// order after local search. improvement_percent is stored as optimization_score.
+export interface RouteQualityMetrics {
+  naive_distance: number; // miles
+  optimized_distance: number; // miles
+  improvement_percent: number;
+  two_opt_moves: number;
+  or_opt_moves: number;
+  elapsed_ms: number;
+  budget_exhausted: boolean;
+}
+
+const DEFAULT_ROUTE_PLANNING = {
+  shiftStart: '07:30',
+  shiftMinutes: 600,
+  averageSpeedMph: 45,
+  allowOvernight: true,
+  overnightThresholdMiles: 75,
+  workingDays: [1, 2, 3, 4, 5]
+};
+
+// Inspection time: a base walk-through plus time proportional to roof area
+const BASE_INSPECTION_MINUTES = 30;
+const MINUTES_PER_10K_SQ_FT = 10;
+const MAX_INSPECTION_MINUTES = 300;
+
+const DEFAULT_IMPROVEMENT_BUDGET_MS = 250;
+
 export class IntelligentGroupingService {
   
   /**
@@ -301,34 +381,6 @@ export class IntelligentGroupingService {
         group.metadata.average_distance = distances.reduce((sum, d) => sum + d, 0) / distances.length;
       }
     }
-
-    // Calculate optimization score
-    group.metadata.optimization_score = this.calculateOptimizationScore(group);
-  }
-
-  /**
-   * Calculate optimization score for a group
-   */
-  private static calculateOptimizationScore(group: PropertyGroup): number {
-    let score = 100;
-
-    // Penalize for large groups
-    if (group.properties.length > 10) score -= (group.properties.length - 10) * 5;
-
-    // Bonus for same property manager
-    if (group.group_type === 'property_manager') score += 20;
-
-    // Penalize for large geographic spread
-    if (group.metadata.average_distance && group.metadata.average_distance > 25) {
-      score -= Math.min(30, (group.metadata.average_distance - 25) * 2);
-    }
-
-    // Bonus for high-risk properties grouped together
-    if (group.group_type === 'risk_based' && group.metadata.risk_score && group.metadata.risk_score > 70) {
-      score += 15;
-    }
-
-    return Math.max(0, Math.min(100, score));
   }
 
   /**
@@ -382,61 +434,409 @@ export class IntelligentGroupingService {
   }
 
   /**
-   * Optimize inspector routes
+   * Optimize inspector routes: nearest-neighbour construction followed by a
+   * 2-opt / Or-opt improvement pass. Properties without coordinates cannot be
+   * placed and are returned separately.
    */
   static async optimizeInspectorRoute(
     properties: Property[],
     startLat: number,
-    startLng: number
-  ): Promise<{ optimizedOrder: Property[]; totalDistance: number; estimatedTime: number }> {
-    if (properties.length === 0) {
-      return { optimizedOrder: [], totalDistance: 0, estimatedTime: 0 };
-    }
+    startLng: number,
+    timeBudgetMs = DEFAULT_IMPROVEMENT_BUDGET_MS
+  ): Promise<{
+    optimizedOrder: Property[];
+    totalDistance: number;
+    estimatedTime: number;
+    // The same estimate for the nearest-neighbour order, before improvement
+    naiveEstimatedTime: number;
+    missingCoordinates: Property[];
+    metrics: RouteQualityMetrics;
+  }> {
+    const start: RouteLocation = { lat: startLat, lng: startLng };
+    const located = properties.filter(p => p.latitude != null && p.longitude != null);
+    const missingCoordinates = properties.filter(p => p.latitude == null || p.longitude == null);
+
+    const { order, metrics } = this.improveRoute(start, this.nearestNeighbourOrder(start, located), { timeBudgetMs });
+
+    // Estimate time from average driving speed plus area-scaled inspection time
+    const inspectionMinutes = order.reduce((sum, property) => sum + this.estimateInspectionMinutes(property), 0);
+    const drivingMinutes = (miles: number) => (miles / DEFAULT_ROUTE_PLANNING.averageSpeedMph) * 60;
+
+    return {
+      optimizedOrder: order,
+      totalDistance: metrics.optimized_distance,
+      estimatedTime: drivingMinutes(metrics.optimized_distance) + inspectionMinutes,
+      naiveEstimatedTime: drivingMinutes(metrics.naive_distance) + inspectionMinutes,
+      missingCoordinates,
+      metrics
+    };
+  }
 
-    // Simple nearest-neighbor algorithm for route optimization
+  /**
+   * Visit order built by repeatedly driving to the closest unvisited property.
+   * All properties must have coordinates.
+   */
+  static nearestNeighbourOrder(start: RouteLocation, properties: Property[]): Property[] {
     const unvisited = [...properties];
-    const optimizedOrder: Property[] = [];
-    let currentLat = startLat;
-    let currentLng = startLng;
-    let totalDistance = 0;
+    const order: Property[] = [];
+    let current = start;
 
     while (unvisited.length > 0) {
       let nearestIndex = 0;
       let nearestDistance = Infinity;
 
-      // Find nearest unvisited property
       unvisited.forEach((property, index) => {
-        if (property.latitude && property.longitude) {
-          const distance = this.calculateDistance(
-            currentLat,
-            currentLng,
-            property.latitude,
-            property.longitude
-          );
-          if (distance < nearestDistance) {
-            nearestDistance = distance;
-            nearestIndex = index;
-          }
+        const distance = this.calculateDistance(current.lat, current.lng, property.latitude!, property.longitude!);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearestIndex = index;
         }
       });
 
       const nearest = unvisited.splice(nearestIndex, 1)[0];
-      optimizedOrder.push(nearest);
-      
-      if (nearest.latitude && nearest.longitude) {
-        totalDistance += nearestDistance;
-        currentLat = nearest.latitude;
-        currentLng = nearest.longitude;
+      order.push(nearest);
+      current = { lat: nearest.latitude!, lng: nearest.longitude! };
+    }
+
+    return order;
+  }
+
+  /**
+   * Improve a visit order with 2-opt (reverse a segment) and Or-opt (move a run
+   * of up to three stops) until no move shortens the route or the time budget
+   * runs out. The route starts at `start` and, when `end` is given, finishes
+   * there; otherwise it ends at the last stop. The given order is the naive
+   * baseline for the returned metrics. All properties must have coordinates.
+   */
+  static improveRoute(
+    start: RouteLocation,
+    stops: Property[],
+    options: { end?: RouteLocation; timeBudgetMs?: number } = {}
+  ): { order: Property[]; metrics: RouteQualityMetrics } {
+    const startedAt = Date.now();
+    const deadline = startedAt + (options.timeBudgetMs ?? DEFAULT_IMPROVEMENT_BUDGET_MS);
+
+    // Node 0 is the start, 1..n the stops and n + 1 the fixed end, if any
+    const points: RouteLocation[] = [
+      start,
+      ...stops.map(p => ({ lat: p.latitude!, lng: p.longitude! })),
+      ...(options.end ? [options.end] : [])
+    ];
+    const matrix = points.map(a => points.map(b => this.calculateDistance(a.lat, a.lng, b.lat, b.lng)));
+    const path = points.map((_, index) => index);
+    const fixedEnd = !!options.end;
+
+    const naiveDistance = this.pathDistance(path, matrix);
+    const result = this.localSearch(path, matrix, fixedEnd, deadline);
+    const optimizedDistance = this.pathDistance(path, matrix);
+
+    const order = path.slice(1, fixedEnd ? -1 : undefined).map(index => stops[index - 1]);
+    const improvement = naiveDistance > 0 ? ((naiveDistance - optimizedDistance) / naiveDistance) * 100 : 0;
+
+    return {
+      order,
+      metrics: {
+        naive_distance: Math.round(naiveDistance * 10) / 10,
+        optimized_distance: Math.round(optimizedDistance * 10) / 10,
+        improvement_percent: Math.round(improvement * 100) / 100,
+        two_opt_moves: result.twoOptMoves,
+        or_opt_moves: result.orOptMoves,
+        elapsed_ms: Date.now() - startedAt,
+        budget_exhausted: result.budgetExhausted
       }
+    };
+  }
+
+  private static pathDistance(path: number[], matrix: number[][]): number {
+    let total = 0;
+    for (let i = 1; i < path.length; i++) {
+      total += matrix[path[i - 1]][path[i]];
     }
+    return total;
+  }
+
+  /**
+   * First-improvement local search over `path`, modified in place. The first
+   * node never moves, nor does the last one when `fixedEnd` is set.
+   */
+  private static localSearch(
+    path: number[],
+    matrix: number[][],
+    fixedEnd: boolean,
+    deadline: number
+  ): { twoOptMoves: number; orOptMoves: number; budgetExhausted: boolean } {
+    const EPSILON = 1e-9;
+    const d = (a: number, b: number) => matrix[path[a]][path[b]];
+    const lastMovable = fixedEnd ? path.length - 2 : path.length - 1;
+    let twoOptMoves = 0;
+    let orOptMoves = 0;
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+
+      // 2-opt: reverse path[i + 1..j]
+      for (let i = 0; i < lastMovable - 1 && !improved; i++) {
+        if (Date.now() > deadline) return { twoOptMoves, orOptMoves, budgetExhausted: true };
+
+        for (let j = i + 2; j <= lastMovable; j++) {
+          const hasNext = j + 1 < path.length;
+          const delta = d(i, j) - d(i, i + 1) + (hasNext ? d(i + 1, j + 1) - d(j, j + 1) : 0);
+
+          if (delta < -EPSILON) {
+            const segment = path.slice(i + 1, j + 1).reverse();
+            path.splice(i + 1, segment.length, ...segment);
+            twoOptMoves++;
+            improved = true;
+            break;
+          }
+        }
+      }
+      if (improved) continue;
+
+      // Or-opt: move path[i..i + length - 1], optionally reversed, between path[k] and path[k + 1]
+      for (let length = 1; length <= 3 && !improved; length++) {
+        for (let i = 1; i + length - 1 <= lastMovable && !improved; i++) {
+          if (Date.now() > deadline) return { twoOptMoves, orOptMoves, budgetExhausted: true };
+
+          const first = i;
+          const last = i + length - 1;
+          const hasNext = last + 1 < path.length;
+          const removalGain = d(first - 1, first) + (hasNext ? d(last, last + 1) - d(first - 1, last + 1) : 0);
+
+          for (let k = 0; k <= lastMovable && !improved; k++) {
+            if (k >= first - 1 && k <= last) continue;
+
+            const hasAfter = k + 1 < path.length;
+            const forward = d(k, first) + (hasAfter ? d(last, k + 1) - d(k, k + 1) : 0);
+            const reversed = d(k, last) + (hasAfter ? d(first, k + 1) - d(k, k + 1) : 0);
+            const insertionCost = Math.min(forward, reversed);
+
+            if (insertionCost < removalGain - EPSILON) {
+              const segment = path.slice(first, last + 1);
+              if (reversed < forward) segment.reverse();
+
+              path.splice(first, length);
+              const insertAt = k < first ? k + 1 : k + 1 - length;
+              path.splice(insertAt, 0, ...segment);
+              orOptMoves++;
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+
+    return { twoOptMoves, orOptMoves, budgetExhausted: false };
+  }
+
+  /**
+   * Estimated on-site inspection time, scaled by roof area
+   */
+  static estimateInspectionMinutes(property: Property): number {
+    const area = property.roof_area || 0;
+    const minutes = BASE_INSPECTION_MINUTES + (area / 10000) * MINUTES_PER_10K_SQ_FT;
+    return Math.round(Math.min(MAX_INSPECTION_MINUTES, minutes));
+  }
+
+  /**
+   * Split properties into daily routes that fit the inspector's shift. Each day is
+   * filled nearest-first from the day's starting point; a stop is only added if the
+   * drive there, the inspection and the drive home still fit. The day's order is
+   * then shortened with 2-opt / Or-opt. When overnight stays are allowed, a day
+   * ending far from home ends at a hotel near the last stop and the next day
+   * starts there instead of the home base.
+   */
+  static planMultiDayRoutes(properties: Property[], options: RoutePlanningOptions): MultiDayRoutePlan {
+    const config = { ...DEFAULT_ROUTE_PLANNING, ...options };
+    const home = config.homeBase;
+    const shiftStart = this.parseClockMinutes(config.shiftStart);
+    const travelMinutes = (miles: number) => Math.round((miles / config.averageSpeedMph) * 60);
+    const distanceBetween = (from: RouteLocation, property: Property) =>
+      this.calculateDistance(from.lat, from.lng, property.latitude!, property.longitude!);
+    const locationOf = (property: Property): RouteLocation =>
+      ({ lat: property.latitude!, lng: property.longitude!, label: property.property_name });
+
+    const remaining = properties.filter(p => p.latitude != null && p.longitude != null);
+    const unplanned = properties.filter(p => p.latitude == null || p.longitude == null);
+    const days: DailyRoute[] = [];
+    let origin: RouteLocation = home;
+    let routeDate = this.nextWorkingDate(config.startDate, config.workingDays, false);
+
+    while (remaining.length > 0) {
+      const selected: Property[] = [];
+      let position = origin;
+      let usedMinutes = 0;
+
+      while (remaining.length > 0 && usedMinutes <= config.shiftMinutes) {
+        const candidates = remaining
+          .map((property, index) => ({ property, index, miles: distanceBetween(position, property) }))
+          .sort((a, b) => a.miles - b.miles);
+
+        const next = candidates.find(({ property, miles }) => {
+          const legEnd = usedMinutes + travelMinutes(miles) + this.estimateInspectionMinutes(property);
+          const homeMiles = distanceBetween(home, property);
+          const staysOver = config.allowOvernight && homeMiles > config.overnightThresholdMiles;
+          return legEnd + (staysOver ? 0 : travelMinutes(homeMiles)) <= config.shiftMinutes;
+        }) ?? (selected.length === 0 ? candidates[0] : undefined);
+
+        if (!next) break;
+
+        remaining.splice(next.index, 1);
+        selected.push(next.property);
+        usedMinutes += travelMinutes(next.miles) + this.estimateInspectionMinutes(next.property);
+        position = locationOf(next.property);
+      }
+
+      const lastStop = selected[selected.length - 1];
+      const overnight = config.allowOvernight && remaining.length > 0 &&
+        distanceBetween(home, lastStop) > config.overnightThresholdMiles;
+
+      // The hotel is chosen next to the last stop, so an overnight day keeps that stop last
+      const { order, metrics } = overnight
+        ? this.improveRoute(origin, selected.slice(0, -1), {
+            end: locationOf(lastStop),
+            timeBudgetMs: config.improvementTimeBudgetMs
+          })
+        : this.improveRoute(origin, selected, { end: home, timeBudgetMs: config.improvementTimeBudgetMs });
+      const ordered = overnight ? [...order, lastStop] : order;
+
+      const stops: PlannedStop[] = [];
+      let clock = 0;
+      let driveMinutes = 0;
+      let distance = 0;
+      let inspectionMinutes = 0;
+      position = origin;
+
+      ordered.forEach(property => {
+        const miles = distanceBetween(position, property);
+        const legMinutes = travelMinutes(miles);
+        const onSite = this.estimateInspectionMinutes(property);
+
+        stops.push({
+          property,
+          arrival: this.formatClock(shiftStart + clock + legMinutes),
+          departure: this.formatClock(shiftStart + clock + legMinutes + onSite),
+          travel_minutes: legMinutes,
+          distance_miles: Math.round(miles * 10) / 10,
+          inspection_minutes: onSite
+        });
+
+        clock += legMinutes + onSite;
+        driveMinutes += legMinutes;
+        distance += miles;
+        inspectionMinutes += onSite;
+        position = locationOf(property);
+      });
+
+      let endLocation: RouteLocation = home;
 
-    // Estimate time (assume 30 mph average + 45 minutes per inspection)
-    const estimatedTime = (totalDistance / 30) * 60 + (optimizedOrder.length * 45);
+      if (overnight) {
+        endLocation = { ...position, label: `Hotel near ${lastStop.city}, ${lastStop.state}` };
+      } else {
+        const homeMiles = distanceBetween(home, ordered[ordered.length - 1]);
+        distance += homeMiles;
+        driveMinutes += travelMinutes(homeMiles);
+        clock += travelMinutes(homeMiles);
+      }
+
+      days.push({
+        day_number: days.length + 1,
+        route_date: routeDate,
+        start_location: origin,
+        end_location: endLocation,
+        overnight_stay: overnight,
+        stops,
+        total_distance: Math.round(distance * 10) / 10,
+        estimated_travel_time: driveMinutes,
+        inspection_minutes: inspectionMinutes,
+        shift_minutes: clock,
+        exceeds_shift: clock > config.shiftMinutes,
+        optimization_score: metrics.improvement_percent,
+        metrics
+      });
+
+      origin = endLocation;
+      routeDate = this.nextWorkingDate(routeDate, config.workingDays, true);
+    }
+
+    const naiveDistance = days.reduce((sum, day) => sum + day.metrics.naive_distance, 0);
+    const optimizedDistance = days.reduce((sum, day) => sum + day.metrics.optimized_distance, 0);
 
     return {
-      optimizedOrder,
-      totalDistance,
-      estimatedTime
+      days,
+      unplanned,
+      total_distance: Math.round(days.reduce((sum, day) => sum + day.total_distance, 0) * 10) / 10,
+      overnight_stays: days.filter(day => day.overnight_stay).length,
+      naive_distance: Math.round(naiveDistance * 10) / 10,
+      improvement_percent: naiveDistance > 0
+        ? Math.round(((naiveDistance - optimizedDistance) / naiveDistance) * 10000) / 100
+        : 0
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Store a plan as one inspector_routes row per day, replacing any routes the
+   * inspector already has on those dates in the same transaction. Returns the plan id.
+   */
+  static async saveRoutePlan(
+    plan: MultiDayRoutePlan,
+    inspectorId: string,
+    campaignId?: string
+  ): Promise<string> {
+    const { data, error } = await supabase.rpc('save_inspector_route_plan', {
+      p_inspector_id: inspectorId,
+      p_campaign_id: campaignId,
+      p_days: plan.days.map(day => ({
+        route_date: day.route_date,
+        day_number: day.day_number,
+        property_sequence: day.stops.map(stop => stop.property.id),
+        stop_schedule: day.stops.map(stop => ({
+          property_id: stop.property.id,
+          arrival: stop.arrival,
+          departure: stop.departure,
+          travel_minutes: stop.travel_minutes,
+          distance_miles: stop.distance_miles,
+          inspection_minutes: stop.inspection_minutes
+        })),
+        start_location: { ...day.start_location },
+        end_location: { ...day.end_location },
+        overnight_stay: day.overnight_stay,
+        estimated_travel_time: day.estimated_travel_time,
+        total_distance: day.total_distance,
+        optimization_score: day.optimization_score,
+        inspection_minutes: day.inspection_minutes,
+        shift_minutes: day.shift_minutes
+      }))
+    });
+
+    if (error) throw error;
+
+    return data;
+  }
+
+  private static parseClockMinutes(clock: string): number {
+    const [hours, minutes] = clock.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+  }
+
+  private static formatClock(totalMinutes: number): string {
+    const hours = Math.floor(totalMinutes / 60) % 24;
+    const minutes = Math.round(totalMinutes % 60);
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  }
+
+  /**
+   * The first working day on or after (or strictly after) the given YYYY-MM-DD date
+   */
+  private static nextWorkingDate(date: string, workingDays: number[], exclusive: boolean): string {
+    const day = new Date(`${date}T12:00:00Z`);
+    if (exclusive) day.setUTCDate(day.getUTCDate() + 1);
+    if (workingDays.length === 0) return day.toISOString().slice(0, 10);
+
+    while (!workingDays.includes(day.getUTCDay())) {
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+    return day.toISOString().slice(0, 10);
+  }
+}
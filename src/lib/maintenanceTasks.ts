@@ -0,0 +1,268 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { format } from 'date-fns';
+import type { WorkOrder } from '@/lib/workOrders';
+
+export type MaintenancePlan = Database['public']['Tables']['maintenance_plans']['Row'];
+export type MaintenancePlanInput = Database['public']['Tables']['maintenance_plans']['Insert'];
+
+export type MaintenanceTask = Database['public']['Tables']['maintenance_tasks']['Row'] & {
+  roof: { property_name: string } | null;
+  vendor: { company_name: string } | null;
+};
+
+export type MaintenanceTaskStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+export type MaintenancePriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface NewMaintenanceTask {
+  roofId: string;
+  title: string;
+  description?: string;
+  maintenanceType: string;
+  scheduledDate: Date;
+  priority: MaintenancePriority;
+  vendorId?: string | null;
+  estimatedCost?: number | null;
+}
+
+export const MAINTENANCE_TASK_STATUS_LABELS: Record<MaintenanceTaskStatus, string> = {
+  scheduled: 'Scheduled',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+export const MAINTENANCE_TYPES = [
+  'Inspection',
+  'Preventative',
+  'Drain Cleaning',
+  'Gutter Cleaning',
+  'Repair',
+  'Other'
+];
+
+export const MAINTENANCE_PRIORITIES: MaintenancePriority[] = ['low', 'medium', 'high', 'urgent'];
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+/**
+ * How often a plan recurs, e.g. "Every April and October" or "Every 6 months"
+ */
+export function describeRecurrence(plan: Pick<MaintenancePlan, 'recurrence_months' | 'interval_months' | 'day_of_month'>): string {
+  if (plan.recurrence_months.length > 0) {
+    const months = [...plan.recurrence_months].sort((a, b) => a - b).map(month => MONTH_NAMES[month - 1]);
+    const list = months.length > 1
+      ? `${months.slice(0, -1).join(', ')} and ${months[months.length - 1]}`
+      : months[0];
+    return plan.day_of_month > 1 ? `Every ${list} (day ${plan.day_of_month})` : `Every ${list}`;
+  }
+  return plan.interval_months === 1 ? 'Every month' : `Every ${plan.interval_months} months`;
+}
+
+const TASK_SELECT = '*, roof:roofs(property_name), vendor:vendors(company_name)';
+
+export class MaintenanceTaskService {
+  static async getPlans(): Promise<MaintenancePlan[]> {
+    try {
+      const { data, error } = await supabase
+        .from('maintenance_plans')
+        .select('*')
+        .order('title');
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching maintenance plans:', error);
+      return [];
+    }
+  }
+
+  static async savePlan(plan: MaintenancePlanInput): Promise<MaintenancePlan> {
+    if (plan.id) {
+      const { id, ...updates } = plan;
+      const { data, error } = await supabase
+        .from('maintenance_plans')
+        .update(updates)
+        .eq('id', id)
+        .select('*')
+        .single();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from('maintenance_plans')
+      .insert({ ...plan, created_by: user?.id })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Pausing a plan stops new occurrences; ones already generated stay on the schedule
+   */
+  static async setPlanActive(planId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('maintenance_plans')
+      .update({ is_active: isActive })
+      .eq('id', planId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Create any missing upcoming occurrences of active plans, no further ahead than each
+   * plan's horizon. Returns how many were created.
+   */
+  static async generateOccurrences(through?: Date): Promise<number> {
+    const { data, error } = await supabase.rpc('generate_maintenance_tasks', {
+      p_through: through ? format(through, 'yyyy-MM-dd') : undefined
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async getTasks(options: { statuses?: MaintenanceTaskStatus[]; from?: Date; to?: Date } = {}): Promise<MaintenanceTask[]> {
+    try {
+      let query = supabase
+        .from('maintenance_tasks')
+        .select(TASK_SELECT)
+        .order('scheduled_date');
+
+      if (options.statuses) {
+        query = query.in('status', options.statuses);
+      }
+      if (options.from) {
+        query = query.gte('scheduled_date', format(options.from, 'yyyy-MM-dd'));
+      }
+      if (options.to) {
+        query = query.lte('scheduled_date', format(options.to, 'yyyy-MM-dd'));
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching maintenance tasks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Schedule a one-off task outside any plan
+   */
+  static async createTask(task: NewMaintenanceTask): Promise<MaintenanceTask> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('maintenance_tasks')
+      .insert({
+        roof_id: task.roofId,
+        title: task.title,
+        description: task.description || null,
+        maintenance_type: task.maintenanceType,
+        scheduled_date: format(task.scheduledDate, 'yyyy-MM-dd'),
+        priority: task.priority,
+        vendor_id: task.vendorId || null,
+        estimated_cost: task.estimatedCost ?? null,
+        created_by: user?.id
+      })
+      .select(TASK_SELECT)
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async assignVendor(taskId: string, vendorId: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('maintenance_tasks')
+      .update({ vendor_id: vendorId })
+      .eq('id', taskId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  static async completeTask(
+    taskId: string,
+    completion: { completedDate: Date; actualCost: number | null; notes?: string }
+  ): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await supabase
+      .from('maintenance_tasks')
+      .update({
+        status: 'completed',
+        completed_date: format(completion.completedDate, 'yyyy-MM-dd'),
+        actual_cost: completion.actualCost,
+        completion_notes: completion.notes || null,
+        completed_by: user?.id
+      })
+      .eq('id', taskId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Cancelled rather than deleted, so a plan doesn't generate the occurrence again
+   */
+  static async cancelTask(taskId: string): Promise<void> {
+    const { error } = await supabase
+      .from('maintenance_tasks')
+      .update({ status: 'cancelled' })
+      .eq('id', taskId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Open a work order for the task so it can be dispatched; the task completes when the
+   * work order does
+   */
+  static async convertToWorkOrder(taskId: string): Promise<WorkOrder> {
+    const { data, error } = await supabase.rpc('convert_maintenance_task_to_work_order', {
+      p_task_id: taskId
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+}
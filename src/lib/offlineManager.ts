@@ -4,14 +4,18 @@
  */
 
 import { inspectorEventBus, INSPECTOR_EVENTS } from './eventBus';
+import { OfflineSyncService, SyncConflict, SyncConflictError } from './offlineSync';
 
 export interface OfflineData {
   id: string;
-  type: 'inspection' | 'photo' | 'deficiency' | 'voice_note';
+  type: 'inspection' | 'photo' | 'deficiency' | 'voice_note' | 'record_edit';
   data: any;
   timestamp: number;
   synced: boolean;
   retryCount: number;
+  lastError?: string;
+  // Set when the server copy changed underneath a record edit; sync waits for the user
+  conflict?: SyncConflict;
 }
 
 export interface OfflineManagerConfig {
@@ -168,9 +172,9 @@ class OfflineManager {
   /**
    * Store data for offline use
    */
-  async storeOfflineData(type: OfflineData['type'], data: any): Promise<string> {
+  async storeOfflineData(type: OfflineData['type'], data: any, id?: string): Promise<string> {
     const offlineItem: OfflineData = {
-      id: this.generateId(),
+      id: id ?? this.createItemId(),
       type,
       data,
       timestamp: Date.now(),
@@ -231,26 +235,48 @@ class OfflineManager {
     });
 
     try {
+      // Oldest first, so parent inspections sync before items that reference them
       const unsyncedItems = Array.from(this.offlineData.values())
-        .filter(item => !item.synced && item.retryCount < this.config.maxRetries);
+        .filter(item => !item.synced && !item.conflict && item.retryCount < this.config.maxRetries)
+        .sort((a, b) => a.timestamp - b.timestamp);
 
       for (const item of unsyncedItems) {
         try {
           await this.syncItem(item);
         } catch (error) {
+          if (error instanceof SyncConflictError) {
+            // Not a failure: hold the item until the user merges the two versions
+            item.conflict = error.conflict;
+            item.lastError = error.message;
+            await this.updateOfflineItem(item);
+
+            inspectorEventBus.emit(INSPECTOR_EVENTS.DATA_SYNC_CONFLICT, {
+              itemId: item.id,
+              type: item.type,
+              conflict: error.conflict
+            });
+            continue;
+          }
+
           console.error(`Failed to sync item ${item.id}:`, error);
           
-          // Increment retry count
+          // Increment retry count and keep the reason for the UI
           item.retryCount++;
+          item.lastError = error instanceof Error ? error.message : String(error);
           await this.updateOfflineItem(item);
 
-          if (item.retryCount >= this.config.maxRetries) {
+          const willRetry = item.retryCount < this.config.maxRetries;
+          if (!willRetry) {
             console.error(`Max retries reached for item ${item.id}`);
-            inspectorEventBus.emit(INSPECTOR_EVENTS.DATA_SYNC_FAILED, {
-              itemId: item.id,
-              error: error.message
-            });
           }
+
+          inspectorEventBus.emit(INSPECTOR_EVENTS.DATA_SYNC_FAILED, {
+            itemId: item.id,
+            type: item.type,
+            error: item.lastError,
+            retryCount: item.retryCount,
+            willRetry
+          });
         }
       }
 
@@ -268,22 +294,12 @@ class OfflineManager {
   }
 
   private async syncItem(item: OfflineData): Promise<void> {
-    const endpoint = this.getEndpointForType(item.type);
-    
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(item.data)
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
+    // The item id doubles as the idempotency key for every write
+    await OfflineSyncService.syncItem(item);
 
     // Mark as synced
     item.synced = true;
+    item.lastError = undefined;
     await this.updateOfflineItem(item);
 
     console.log(`Synced item ${item.id} successfully`);
@@ -300,18 +316,127 @@ class OfflineManager {
     }
   }
 
-  private getEndpointForType(type: OfflineData['type']): string {
-    const endpoints = {
-      inspection: '/api/inspections',
-      photo: '/api/photos',
-      deficiency: '/api/deficiencies',
-      voice_note: '/api/voice-notes'
-    };
+  /**
+   * Items waiting on the user to resolve a conflict with the server copy
+   */
+  getConflicts(): OfflineData[] {
+    return Array.from(this.offlineData.values()).filter(item => !item.synced && item.conflict);
+  }
 
-    return endpoints[type] || '/api/data';
+  /**
+   * Resolve a conflicted record edit with the values the user picked per field.
+   * Fields resolved to the server value are dropped from the edit; the rest are
+   * re-based onto the server version and synced.
+   */
+  async resolveConflict(id: string, resolvedValues: Record<string, unknown>): Promise<void> {
+    const item = this.offlineData.get(id);
+    if (!item || !item.conflict) return;
+
+    const { conflict } = item;
+    const changes = { ...item.data.changes };
+    const baseValues = { ...item.data.baseValues };
+
+    for (const field of conflict.fields) {
+      baseValues[field.field] = field.serverValue;
+      if (JSON.stringify(resolvedValues[field.field]) === JSON.stringify(field.serverValue)) {
+        delete changes[field.field];
+      } else {
+        changes[field.field] = resolvedValues[field.field];
+      }
+    }
+
+    item.data = { ...item.data, changes, baseValues, baseVersion: conflict.serverVersion };
+    item.conflict = undefined;
+    item.lastError = undefined;
+    item.retryCount = 0;
+
+    // Keeping the server copy for every field leaves nothing to write
+    if (Object.keys(changes).length === 0) {
+      item.synced = true;
+    }
+
+    await this.updateOfflineItem(item);
+
+    inspectorEventBus.emit(INSPECTOR_EVENTS.DATA_SYNC_CONFLICT_RESOLVED, {
+      itemId: item.id,
+      keptServerCopy: item.synced
+    });
+
+    if (!item.synced && this.isOnline) {
+      this.syncOfflineData();
+    }
   }
 
-  private generateId(): string {
+  /**
+   * Items that exhausted their retries, with the last failure reason
+   */
+  getFailedItems(): OfflineData[] {
+    return Array.from(this.offlineData.values())
+      .filter(item => !item.synced && item.retryCount >= this.config.maxRetries);
+  }
+
+  /**
+   * Reset a failed item so the next sync pass tries it again
+   */
+  async retryItem(id: string): Promise<void> {
+    const item = this.offlineData.get(id);
+    if (!item || item.synced) return;
+
+    item.retryCount = 0;
+    await this.updateOfflineItem(item);
+
+    if (this.isOnline) {
+      this.syncOfflineData();
+    }
+  }
+
+  /**
+   * Cache read-only data (e.g. inspection briefings) for offline viewing.
+   * Cached entries are never synced to the server.
+   */
+  async cacheResponse(key: string, data: unknown): Promise<void> {
+    try {
+      const db = await this.initializeDB();
+      const transaction = db.transaction(['cachedResponses'], 'readwrite');
+      const store = transaction.objectStore('cachedResponses');
+      store.put({ url: key, data, timestamp: Date.now() });
+    } catch (error) {
+      console.error('Failed to cache response:', error);
+    }
+  }
+
+  /**
+   * Read cached data if it is still within the cache duration
+   */
+  async getCachedResponse<T = unknown>(key: string): Promise<T | null> {
+    try {
+      const db = await this.initializeDB();
+      const transaction = db.transaction(['cachedResponses'], 'readonly');
+      const store = transaction.objectStore('cachedResponses');
+      const request = store.get(key);
+
+      return await new Promise((resolve) => {
+        request.onsuccess = () => {
+          const entry = request.result;
+          if (!entry || Date.now() - entry.timestamp > this.config.cacheDuration) {
+            resolve(null);
+          } else {
+            resolve(entry.data as T);
+          }
+        };
+        request.onerror = () => resolve(null);
+      });
+    } catch (error) {
+      console.error('Failed to read cached response:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create a queue item id up front, so a save attempted online can use the
+   * same sync key as the queued copy that replays it
+   */
+  createItemId(): string {
     return `offline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
@@ -348,6 +473,7 @@ class OfflineManager {
       isOnline: this.isOnline,
       queuedItems: this.offlineData.size,
       unsyncedItems: this.getUnsyncedCount(),
+      conflictedItems: this.getConflicts().length,
       syncInProgress: this.syncInProgress
     };
   }
@@ -0,0 +1,376 @@
+/**
+ * Offline Sync Service
+ * Writes queued OfflineManager items to Supabase tables and storage.
+ * Every write is keyed by the offline item id so replays never duplicate data.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { uploadRoofFile } from '@/lib/fileStorage';
+import {
+  InspectionPersistenceService,
+  FieldInspectionData,
+  FieldInspectionDeficiency
+} from './inspectionPersistenceService';
+import type { OfflineData } from './offlineManager';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface OfflineInspectionPayload {
+  inspection: FieldInspectionData;
+}
+
+export interface OfflinePhotoPayload {
+  photo: {
+    id: string;
+    blob: Blob;
+    metadata: Record<string, unknown>;
+  };
+  context?: {
+    inspectionId?: string;
+    propertyId?: string;
+    buildingArea?: string;
+  };
+}
+
+export interface OfflineDeficiencyPayload {
+  propertyId: string;
+  // Either a server inspection id or the offline item id of a queued inspection
+  inspectionId?: string;
+  inspectionSyncKey?: string;
+  deficiency: FieldInspectionDeficiency;
+}
+
+export interface OfflineVoiceNotePayload {
+  propertyId: string;
+  inspectionId?: string;
+  inspectionSyncKey?: string;
+  transcript?: string;
+  audio?: Blob;
+  recordedAt: number;
+}
+
+export type VersionedTable = 'roofs' | 'deficiencies';
+
+export interface OfflineRecordEditPayload {
+  table: VersionedTable;
+  recordId: string;
+  label: string;
+  // Server version and values the edit was based on (null when captured without a server copy)
+  baseVersion: number | null;
+  baseValues: Record<string, unknown>;
+  changes: Record<string, unknown>;
+}
+
+export interface SyncConflictField {
+  field: string;
+  baseValue: unknown;
+  localValue: unknown;
+  serverValue: unknown;
+}
+
+export interface SyncConflict {
+  table: VersionedTable;
+  recordId: string;
+  label: string;
+  serverVersion: number;
+  fields: SyncConflictField[];
+  detectedAt: number;
+}
+
+export class SyncConflictError extends Error {
+  conflict: SyncConflict;
+
+  constructor(conflict: SyncConflict) {
+    super(`${conflict.label} was changed by someone else (${conflict.fields.map(f => f.field).join(', ')})`);
+    this.name = 'SyncConflictError';
+    this.conflict = conflict;
+  }
+}
+
+export class OfflineSyncService {
+  /**
+   * Sync a single queued item. Throws with a readable reason on failure.
+   */
+  static async syncItem(item: OfflineData): Promise<void> {
+    switch (item.type) {
+      case 'inspection':
+        return this.syncInspection(item.id, item.data as OfflineInspectionPayload);
+      case 'photo':
+        return this.syncPhoto(item.id, item.data as OfflinePhotoPayload);
+      case 'deficiency':
+        return this.syncDeficiency(item.id, item.data as OfflineDeficiencyPayload);
+      case 'voice_note':
+        return this.syncVoiceNote(item.id, item.data as OfflineVoiceNotePayload);
+      case 'record_edit':
+        return this.syncRecordEdit(item.data as OfflineRecordEditPayload);
+      default:
+        throw new Error(`Unsupported offline item type: ${item.type}`);
+    }
+  }
+
+  private static async syncInspection(syncKey: string, payload: OfflineInspectionPayload): Promise<void> {
+    if (!payload?.inspection?.propertyId) {
+      throw new Error('Queued inspection is missing its property');
+    }
+
+    const result = await InspectionPersistenceService.saveCompletedInspection(payload.inspection, { syncKey });
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save inspection');
+    }
+  }
+
+  private static async syncPhoto(syncKey: string, payload: OfflinePhotoPayload): Promise<void> {
+    const roofId = payload?.context?.propertyId;
+    if (!roofId) {
+      throw new Error('Queued photo has no property to attach to');
+    }
+
+    const blob = payload.photo.blob;
+    const extension = blob.type.split('/')[1] || 'jpg';
+    const file = new File([blob], `${payload.photo.id}.${extension}`, { type: blob.type });
+
+    const { error } = await uploadRoofFile(roofId, file, {
+      file_type: 'Photo',
+      is_public: false,
+      sync_key: syncKey,
+      metadata: {
+        ...payload.photo.metadata,
+        buildingArea: payload.context?.buildingArea
+      } as Json
+    });
+
+    if (error) {
+      throw new Error(`Photo upload failed: ${error.message || error}`);
+    }
+  }
+
+  private static async syncDeficiency(syncKey: string, payload: OfflineDeficiencyPayload): Promise<void> {
+    const inspectionId = await this.resolveInspectionId(payload);
+    const { deficiency } = payload;
+
+    const photoIds: string[] = [];
+    for (const [index, photo] of deficiency.photos.entries()) {
+      const { data, error } = await uploadRoofFile(payload.propertyId, photo.file, {
+        file_type: 'Photo',
+        is_public: false,
+        sync_key: `${syncKey}_photo${index}`
+      });
+
+      if (error || !data) {
+        throw new Error(`Deficiency photo upload failed: ${error?.message || 'unknown error'}`);
+      }
+      photoIds.push(data.id);
+    }
+
+    const { error } = await supabase
+      .from('inspection_deficiencies')
+      .upsert({
+        inspection_id: inspectionId,
+        roof_id: payload.propertyId,
+        deficiency_id: deficiency.trackedDeficiencyId ?? null,
+        observation_type: deficiency.observationType ?? 'new',
+        category: deficiency.category,
+        location: deficiency.location,
+        description: deficiency.description,
+        severity: deficiency.severity,
+        status: deficiency.status,
+        budget_amount: deficiency.budgetAmount,
+        photo_file_ids: photoIds,
+        based_on_version: deficiency.trackedVersion ?? null,
+        sync_key: syncKey
+      }, { onConflict: 'sync_key', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to save deficiency: ${error.message}`);
+    }
+  }
+
+  private static async syncVoiceNote(syncKey: string, payload: OfflineVoiceNotePayload): Promise<void> {
+    if (!payload?.propertyId) {
+      throw new Error('Queued voice note has no property to attach to');
+    }
+    if (!payload.transcript && !payload.audio) {
+      throw new Error('Queued voice note has neither audio nor a transcript');
+    }
+
+    const inspectionId = (payload.inspectionId || payload.inspectionSyncKey)
+      ? await this.resolveInspectionId(payload)
+      : null;
+
+    let audioFileId: string | null = null;
+    if (payload.audio) {
+      const extension = payload.audio.type.split('/')[1] || 'webm';
+      const file = new File([payload.audio], `voice-note-${payload.recordedAt}.${extension}`, {
+        type: payload.audio.type
+      });
+
+      const { data, error } = await uploadRoofFile(payload.propertyId, file, {
+        file_type: 'Voice Note',
+        is_public: false,
+        sync_key: `${syncKey}_audio`
+      });
+
+      if (error || !data) {
+        throw new Error(`Voice note upload failed: ${error?.message || 'unknown error'}`);
+      }
+      audioFileId = data.id;
+    }
+
+    const { error } = await supabase
+      .from('inspection_voice_notes')
+      .upsert({
+        roof_id: payload.propertyId,
+        inspection_id: inspectionId,
+        transcript: payload.transcript ?? null,
+        audio_file_id: audioFileId,
+        recorded_at: new Date(payload.recordedAt).toISOString(),
+        sync_key: syncKey
+      }, { onConflict: 'sync_key', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to save voice note: ${error.message}`);
+    }
+  }
+
+  /**
+   * Build a record edit payload from the server copy the inspector is looking at
+   */
+  static createRecordEdit(
+    table: VersionedTable,
+    record: { id: string; version?: number | null } & Record<string, unknown>,
+    changes: Record<string, unknown>,
+    label: string
+  ): OfflineRecordEditPayload {
+    const baseValues: Record<string, unknown> = {};
+    for (const field of Object.keys(changes)) {
+      baseValues[field] = record[field] ?? null;
+    }
+
+    return {
+      table,
+      recordId: record.id,
+      label,
+      baseVersion: record.version ?? null,
+      baseValues,
+      changes
+    };
+  }
+
+  /**
+   * Apply an edit only if the record is still at the version it was based on.
+   * When the server moved on, changes to untouched fields merge automatically;
+   * a field both sides changed raises a SyncConflictError for the user to resolve.
+   */
+  private static async syncRecordEdit(payload: OfflineRecordEditPayload): Promise<void> {
+    if (Object.keys(payload.changes).length === 0) {
+      return;
+    }
+
+    if (payload.baseVersion !== null) {
+      const { data, error } = await supabase
+        .from(payload.table)
+        .update(payload.changes)
+        .eq('id', payload.recordId)
+        .eq('version', payload.baseVersion)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to update ${payload.label}: ${error.message}`);
+      }
+      if (data && data.length > 0) {
+        return;
+      }
+    }
+
+    // Version moved on (or was never known): compare field by field
+    const { data: current, error: fetchError } = await supabase
+      .from(payload.table)
+      .select('*')
+      .eq('id', payload.recordId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to load ${payload.label}: ${fetchError.message}`);
+    }
+    if (!current) {
+      throw new Error(`${payload.label} no longer exists`);
+    }
+
+    const serverValues = current as unknown as Record<string, unknown>;
+    const conflictingFields: SyncConflictField[] = Object.keys(payload.changes)
+      .filter(field => {
+        const serverValue = serverValues[field] ?? null;
+        const localValue = payload.changes[field] ?? null;
+        // Both sides ended up with the same value: nothing to resolve
+        if (this.valuesEqual(serverValue, localValue)) return false;
+        return payload.baseVersion === null || !this.valuesEqual(serverValue, payload.baseValues[field] ?? null);
+      })
+      .map(field => ({
+        field,
+        baseValue: payload.baseValues[field] ?? null,
+        localValue: payload.changes[field] ?? null,
+        serverValue: serverValues[field] ?? null
+      }));
+
+    if (conflictingFields.length > 0) {
+      throw new SyncConflictError({
+        table: payload.table,
+        recordId: payload.recordId,
+        label: payload.label,
+        serverVersion: current.version,
+        fields: conflictingFields,
+        detectedAt: Date.now()
+      });
+    }
+
+    // Only unrelated fields changed on the server: rebase onto its version and retry
+    return this.syncRecordEdit({
+      ...payload,
+      baseVersion: current.version,
+      baseValues: Object.fromEntries(Object.keys(payload.changes).map(field => [field, serverValues[field] ?? null]))
+    });
+  }
+
+  private static valuesEqual(a: unknown, b: unknown): boolean {
+    if (a === null || b === null) {
+      return a === b;
+    }
+    // Numeric columns come back from PostgREST as numbers or strings
+    if (typeof a === 'number' || typeof b === 'number') {
+      return Number(a) === Number(b);
+    }
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  /**
+   * Find the server inspection for an item that references one, including
+   * inspections that were themselves captured offline.
+   */
+  private static async resolveInspectionId(
+    payload: { inspectionId?: string; inspectionSyncKey?: string }
+  ): Promise<string> {
+    if (payload.inspectionId) {
+      return payload.inspectionId;
+    }
+
+    if (!payload.inspectionSyncKey) {
+      throw new Error('Queued item does not reference an inspection');
+    }
+
+    const { data, error } = await supabase
+      .from('inspections')
+      .select('id')
+      .eq('sync_key', payload.inspectionSyncKey)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up inspection: ${error.message}`);
+    }
+    if (!data) {
+      // The parent inspection is still queued; a later sync pass will pick this up
+      throw new Error('Parent inspection has not been synced yet');
+    }
+
+    return data.id;
+  }
+}
@@ -1,5 +1,5 @@
 // PDF Parser for Historical Inspection Reports
-// This is a foundation that can be enhanced with real PDF parsing libraries
+import { extractPDFText } from './pdfTextExtractor';
 
 interface ExtractedInspectionData {
   inspectionDate: string;
@@ -55,85 +55,10 @@ const COST_PATTERNS = [
 
 export class PDFInspectionParser {
   
-  // Main parsing function - in production would use pdf-parse or similar
+  // Main parsing function
   static async extractInspectionData(file: File): Promise<ExtractedInspectionData> {
-    try {
-      // For demo purposes, we'll simulate PDF parsing with mock data
-      // In production, replace with actual PDF text extraction
-      const mockText = await this.simulatePDFExtraction(file);
-      
-      return this.parseInspectionText(mockText, file.name);
-    } catch (error) {
-      console.error('Error parsing PDF:', error);
-      throw new Error('Failed to parse PDF inspection report');
-    }
-  }
-
-  // Simulate PDF text extraction (replace with real PDF parser)
-  private static async simulatePDFExtraction(file: File): Promise<string> {
-    await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate processing time
-    
-    // Mock inspection report text based on filename
-    const propertyName = this.extractPropertyName(file.name);
-    
-    return `
-INSPECTION REPORT
-Property: ${propertyName}
-Date: October 15, 2024
-Inspector: John Smith, Certified Roof Inspector
-
-EXECUTIVE SUMMARY:
-Overall roof condition is fair with several areas requiring attention.
-Immediate repairs needed for northwest corner leak.
-
-FINDINGS:
-1. Active leak observed in northwest corner near HVAC unit
-   - Water staining visible on interior ceiling
-   - Estimated repair cost: $8,500
-   - Priority: HIGH - Immediate attention required
-
-2. Sealant deterioration around HVAC penetrations
-   - Multiple units showing aging sealant
-   - Estimated cost: $3,200
-   - Priority: MEDIUM - Address within 6 months
-
-3. Ponding water in drainage areas
-   - Standing water observed after recent rainfall
-   - May lead to membrane degradation
-   - Estimated cost: $5,800
-   - Priority: MEDIUM
-
-4. Minor membrane wear along parapet walls
-   - Normal aging, monitor for progression
-   - Estimated cost: $2,100
-   - Priority: LOW
-
-RECOMMENDATIONS:
-- Immediate repair of northwest corner leak
-- Schedule HVAC sealant replacement within 6 months
-- Improve drainage in ponding areas
-- Continue annual inspection schedule
-- Monitor parapet wall conditions
-
-TOTAL ESTIMATED COSTS: $19,600
-
-WEATHER CONDITIONS: Clear, 65°F, No precipitation
-
-PHOTOS TAKEN:
-- Northwest corner leak (3 photos)
-- HVAC penetrations (5 photos)
-- Drainage areas (4 photos)
-- Overall roof condition (8 photos)
-    `;
-  }
-
-  // Extract property name from filename
-  private static extractPropertyName(filename: string): string {
-    return filename
-      .replace(/\.pdf$/i, '')
-      .replace(/\s*-\s*(inspection|report|2024|2023).*$/i, '')
-      .replace(/[_-]/g, ' ')
-      .trim();
+    const { text } = await extractPDFText(file);
+    return this.parseInspectionText(text, file.name);
   }
 
   // Parse the extracted text to structured data
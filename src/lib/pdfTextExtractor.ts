@@ -0,0 +1,67 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { layoutPageText, PAGE_SEPARATOR, type PositionedText } from '../../supabase/functions/_shared/pdfTextLayout.ts';
+
+// The worker has to be the same pdf.js version as the API, so it's bundled rather than fetched
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Layout is shared with the ingest-inspection-archive edge function
+export * from '../../supabase/functions/_shared/pdfTextLayout.ts';
+
+export interface PDFPageText {
+  pageNumber: number;
+  text: string;
+}
+
+export interface PDFTextExtraction {
+  // Pages separated by a form feed line, each page one line per visual line
+  text: string;
+  pages: PDFPageText[];
+  pageCount: number;
+}
+
+export class PDFExtractionError extends Error {
+  fileName: string;
+
+  constructor(fileName: string, reason: string) {
+    super(`Could not read text from ${fileName}: ${reason}`);
+    this.name = 'PDFExtractionError';
+    this.fileName = fileName;
+  }
+}
+
+/**
+ * Text layer of every page of a PDF. Scanned reports without a text layer are an
+ * error rather than an empty result, so they can be routed for manual entry.
+ */
+export async function extractPDFText(file: File): Promise<PDFTextExtraction> {
+  let pdf: Awaited<ReturnType<typeof pdfjsLib.getDocument>['promise']>;
+  try {
+    pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+  } catch (error) {
+    throw new PDFExtractionError(file.name, error instanceof Error ? error.message : 'not a readable PDF');
+  }
+
+  try {
+    const pages: PDFPageText[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items.filter((item): item is typeof item & PositionedText => 'str' in item);
+      pages.push({ pageNumber, text: layoutPageText(items) });
+      page.cleanup();
+    }
+
+    if (pages.every(page => page.text.trim() === '')) {
+      throw new PDFExtractionError(file.name, 'the PDF has no text layer (scanned images need OCR)');
+    }
+
+    return {
+      text: pages.map(page => page.text).join(PAGE_SEPARATOR),
+      pages,
+      pageCount: pdf.numPages
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,137 @@
+import { parsePMReply, type ExtractedContact } from '../../supabase/functions/process-pm-response/parser.ts';
+
+// Property manager replies with what process-pm-response should pull out of them. Add a
+// fixture whenever a real reply is misread: a missed gate code, a quoted date, a lost contact.
+export interface PMReplyParserFixture {
+  name: string;
+  body: string;
+  sender?: string;
+  receivedAt: string;
+  expected: {
+    preferredDates: string[];
+    gateCodes: string[];
+    contacts: ExtractedContact[];
+    callBeforeArrival: { leadTime?: string; phone?: string } | null;
+    accessRestrictions: number;
+    hasAvailability: boolean;
+  };
+}
+
+export const PM_REPLY_PARSER_FIXTURES: PMReplyParserFixture[] = [
+  {
+    name: 'Dates, gate code and call-ahead above a quoted request',
+    receivedAt: '2025-08-04T15:00:00Z',
+    body: [
+      'Hi,',
+      '',
+      'Tuesday 8/12 or Aug 14th works for us. The gate code is 4821.',
+      'Please call 30 minutes before arriving at 214-555-0134.',
+      '',
+      'Thanks,',
+      'Jane Doe',
+      'Property Manager',
+      'jane.doe@acme.com',
+      '',
+      'On Mon, Aug 4, 2025 at 9:00 AM Roof Team <team@roofs.example> wrote:',
+      '> Could we inspect on 8/20? Gate code 1111?'
+    ].join('\n'),
+    expected: {
+      preferredDates: ['2025-08-12', '2025-08-14'],
+      gateCodes: ['4821'],
+      contacts: [{ name: 'Jane Doe', email: 'jane.doe@acme.com', title: 'Property Manager' }],
+      callBeforeArrival: { leadTime: '30 minutes', phone: '(214) 555-0134' },
+      accessRestrictions: 0,
+      hasAvailability: true
+    }
+  },
+  {
+    name: 'Relative days and roof access instructions',
+    receivedAt: '2025-08-06T12:00:00Z',
+    body: [
+      'Next Tuesday works for us, or tomorrow morning if that is easier.',
+      'Roof access is through the hatch in the janitor closet; you will need to sign in at security.'
+    ].join('\n'),
+    expected: {
+      preferredDates: ['2025-08-19', '2025-08-07'],
+      gateCodes: [],
+      contacts: [],
+      callBeforeArrival: null,
+      accessRestrictions: 1,
+      hasAvailability: true
+    }
+  },
+  {
+    name: 'Signature block with an extension and the sender header',
+    receivedAt: '2025-08-04T15:00:00Z',
+    sender: '"Maria Lopez" <MLopez@Harbor.example>',
+    body: [
+      'Hello,',
+      '',
+      'We are available any day next week.',
+      '',
+      'Best regards,',
+      'Maria Lopez',
+      'Facility Manager',
+      'Office: (312) 555-0199 ext 204',
+      'Cell 312.555.0144'
+    ].join('\n'),
+    expected: {
+      preferredDates: [],
+      gateCodes: [],
+      contacts: [{ name: 'Maria Lopez', phone: '(312) 555-0199 x204', email: 'mlopez@harbor.example', title: 'Facility Manager' }],
+      callBeforeArrival: null,
+      accessRestrictions: 0,
+      hasAvailability: true
+    }
+  },
+  {
+    name: 'Nothing taken from a forwarded original',
+    receivedAt: '2025-08-04T15:00:00Z',
+    body: [
+      'Sounds good.',
+      '',
+      '-----Original Message-----',
+      'From: Roof Team',
+      'Gate code 9999, please come 9/1 and call ahead.'
+    ].join('\n'),
+    expected: {
+      preferredDates: [],
+      gateCodes: [],
+      contacts: [],
+      callBeforeArrival: null,
+      accessRestrictions: 0,
+      hasAvailability: false
+    }
+  }
+];
+
+const contactKey = (contact: ExtractedContact) =>
+  JSON.stringify({ name: contact.name, phone: contact.phone, email: contact.email, title: contact.title });
+
+/**
+ * Parse every fixture reply and list where the result differs from what's expected
+ */
+export function checkPMReplyParserFixtures(fixtures: PMReplyParserFixture[] = PM_REPLY_PARSER_FIXTURES): Array<{ fixture: string; problems: string[] }> {
+  return fixtures.map(fixture => {
+    const parsed = parsePMReply(fixture.body, { sender: fixture.sender, receivedAt: fixture.receivedAt });
+    const problems: string[] = [];
+    const expect = (label: string, actual: unknown, expected: unknown) => {
+      if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        problems.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      }
+    };
+
+    expect('preferred dates', parsed.preferredDates, fixture.expected.preferredDates);
+    expect('gate codes', parsed.gateCodes, fixture.expected.gateCodes);
+    expect('contacts', (parsed.contacts || []).map(contactKey), fixture.expected.contacts.map(contactKey));
+    expect(
+      'call before arrival',
+      parsed.callBeforeArrival ? { leadTime: parsed.callBeforeArrival.leadTime, phone: parsed.callBeforeArrival.phone } : null,
+      fixture.expected.callBeforeArrival
+    );
+    expect('access restrictions', parsed.accessRestrictions?.length ?? 0, fixture.expected.accessRestrictions);
+    expect('availability', !!parsed.availability, fixture.expected.hasAvailability);
+
+    return { fixture: fixture.name, problems };
+  }).filter(result => result.problems.length > 0);
+}
@@ -0,0 +1,86 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  findDuplicateGroups,
+  MATCH_THRESHOLDS,
+  type DuplicateGroup,
+  type MatchableProperty,
+  type MatchReason
+} from "../../supabase/functions/_shared/propertyMatching.ts";
+
+// The matcher itself is shared with the import-roofs edge function
+export * from "../../supabase/functions/_shared/propertyMatching.ts";
+
+export type RoofMerge = Database['public']['Tables']['roof_merges']['Row'];
+
+type Roof = Database['public']['Tables']['roofs']['Row'];
+
+export interface DuplicateRoofGroup extends DuplicateGroup {
+  roofs: Roof[];
+}
+
+export const MATCH_REASON_LABELS: Record<MatchReason, string> = {
+  property_code: 'property code',
+  address: 'address',
+  geo: 'location',
+  name: 'name'
+};
+
+// Fields shown side by side when merging, in display order
+export const MERGE_FIELDS: Array<{ field: keyof Roof; label: string }> = [
+  { field: 'property_name', label: 'Property Name' },
+  { field: 'property_code', label: 'Property Code' },
+  { field: 'address', label: 'Address' },
+  { field: 'city', label: 'City' },
+  { field: 'state', label: 'State' },
+  { field: 'zip', label: 'ZIP' },
+  { field: 'customer', label: 'Customer' },
+  { field: 'client_id', label: 'Client' },
+  { field: 'roof_area', label: 'Roof Area' },
+  { field: 'roof_type', label: 'Roof Type' },
+  { field: 'install_year', label: 'Install Year' },
+  { field: 'manufacturer', label: 'Manufacturer' },
+  { field: 'property_manager_name', label: 'Property Manager' },
+  { field: 'property_manager_email', label: 'PM Email' },
+  { field: 'site_contact', label: 'Site Contact' },
+  { field: 'latitude', label: 'Latitude' },
+  { field: 'longitude', label: 'Longitude' }
+];
+
+export class PropertyMatchingService {
+  /**
+   * Possible duplicates among the given roofs, each group with its roof records
+   */
+  static findDuplicateRoofs(roofs: Roof[], threshold = MATCH_THRESHOLDS.possible): DuplicateRoofGroup[] {
+    const byId = new Map(roofs.map(roof => [roof.id, roof]));
+    return findDuplicateGroups(roofs as Array<Roof & MatchableProperty>, threshold).map(group => ({
+      ...group,
+      roofs: group.ids.map(id => byId.get(id)!).filter(Boolean)
+    }));
+  }
+
+  /**
+   * Merge one roof into another. Inspections, files, work orders, campaign rows and
+   * contact assignments move to the kept roof; the merged roof is soft-deleted.
+   * `fieldValues` are the values chosen for the kept roof where the two differ.
+   */
+  static async mergeRoofs(
+    keepId: string,
+    mergeId: string,
+    fieldValues: Partial<Roof> = {},
+    matchScore?: number
+  ): Promise<RoofMerge> {
+    const { data, error } = await supabase.rpc('merge_roofs', {
+      p_keep_id: keepId,
+      p_merge_id: mergeId,
+      p_field_values: fieldValues as Database['public']['Functions']['merge_roofs']['Args']['p_field_values'],
+      p_match_score: matchScore
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,57 @@
+import { scorePropertyMatch, MATCH_THRESHOLDS, type MatchableProperty } from '../../supabase/functions/_shared/propertyMatching.ts';
+
+// Pairs of roofs with the verdict the duplicate matcher should reach. Add a fixture
+// whenever a real import merges two properties it shouldn't have, or misses a duplicate.
+export interface PropertyMatchingFixture {
+  name: string;
+  a: MatchableProperty;
+  b: MatchableProperty;
+  duplicate: boolean;
+}
+
+export const PROPERTY_MATCHING_FIXTURES: PropertyMatchingFixture[] = [
+  {
+    name: 'Same property with abbreviations and a name typo',
+    a: { property_name: 'Northpoint Distribution Center', address: '100 North Main Street, Suite 200', zip: '75201' },
+    b: { property_name: 'Northpoint Distribuiton Center', address: '100 N Main St Ste 200', zip: '75201-1234' },
+    duplicate: true
+  },
+  {
+    name: 'Shared property code',
+    a: { property_name: 'DFW 12', property_code: 'DFW-012', address: '4500 Airport Pkwy' },
+    b: { property_name: 'Dallas Airport Logistics', property_code: 'dfw012', address: '4500 Airport Parkway' },
+    duplicate: true
+  },
+  {
+    name: 'Sibling buildings at one street address',
+    a: { property_name: 'Commerce Park Building 4', address: '1200 Commerce Street', zip: '75207' },
+    b: { property_name: 'Commerce Park Building 5', address: '1200 Commerce St', zip: '75207' },
+    duplicate: false
+  },
+  {
+    name: 'Sibling buildings on the same site coordinates',
+    a: { property_name: 'Gateway Dock A', address: '800 Gateway Blvd', zip: '30336', latitude: 33.7601, longitude: -84.5412 },
+    b: { property_name: 'Gateway Dock B', address: '800 Gateway Boulevard', zip: '30336', latitude: 33.7603, longitude: -84.5409 },
+    duplicate: false
+  },
+  {
+    name: 'Different suites at one street number',
+    a: { property_name: 'Riverside Plaza', address: '55 River Rd Suite 100', zip: '10001' },
+    b: { property_name: 'Riverside Plaza', address: '55 River Road #300', zip: '10001' },
+    duplicate: false
+  }
+];
+
+/**
+ * Score every fixture pair and list those the matcher gets wrong
+ */
+export function checkPropertyMatchingFixtures(fixtures: PropertyMatchingFixture[] = PROPERTY_MATCHING_FIXTURES): Array<{ fixture: string; problems: string[] }> {
+  return fixtures.map(fixture => {
+    const { score } = scorePropertyMatch(fixture.a, fixture.b);
+    const duplicate = score >= MATCH_THRESHOLDS.duplicate;
+    const problems = duplicate === fixture.duplicate
+      ? []
+      : [`expected ${fixture.duplicate ? 'a duplicate' : 'distinct properties'}, scored ${score}`];
+    return { fixture: fixture.name, problems };
+  }).filter(result => result.problems.length > 0);
+}
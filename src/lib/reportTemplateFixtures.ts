@@ -0,0 +1,236 @@
+// Imports the shared parser directly, not the pdf.js wrappers, so the checks also run in Node
+import { ReportTextParser, type ExtractedPDFData } from '../../supabase/functions/_shared/reportParser.ts';
+import { PAGE_SEPARATOR } from '../../supabase/functions/_shared/pdfTextLayout.ts';
+import { GENERIC_TEMPLATE_ID } from '../../supabase/functions/_shared/reportTemplates.ts';
+
+// Sample report text per template, as the text extractor lays it out: one line per visual
+// line, column gaps kept as runs of spaces, pages separated by PAGE_SEPARATOR. Add a
+// fixture whenever a template changes or a new vendor format turns up.
+export interface ReportTemplateFixture {
+  name: string;
+  templateId: string;
+  text: string;
+  expected: {
+    fields: Partial<Pick<ExtractedPDFData,
+      'propertyName' | 'address' | 'client' | 'reportDate' | 'inspector' | 'inspectionCompany' | 'roofArea' | 'roofSystem'>>;
+    inspectionType: ExtractedPDFData['inspectionTypeClassification']['primaryType'];
+    roofSections: number;
+    deficiencies: number;
+    deficiencyCost: number;
+    photoCaptions: number;
+  };
+}
+
+const page = (...pages: string[]) => pages.map(text => text.trim()).join(PAGE_SEPARATOR);
+
+export const REPORT_TEMPLATE_FIXTURES: ReportTemplateFixture[] = [
+  {
+    name: 'Roof Controller annual inspection',
+    templateId: 'roof_controller',
+    text: page(`
+ROOF CONTROLLER
+ANNUAL INSPECTION REPORT
+
+Property: Dallas Corporate Center 2
+Address: 1234 Commerce Drive, Dallas, TX 75201
+Client: Prologis          Market: Dallas
+Inspection Date: March 14, 2024
+Inspector: Mike Alvarez
+Property Manager: Jane Smith      Phone: 214-555-0134
+
+ROOF SPECIFICATIONS
+Roof Area: 245,000 sq ft
+Roof System: TPO
+System Description: 60 mil mechanically attached TPO over 2.5" polyiso on metal deck
+Estimated LTTR Value: R-14.4
+Perimeter Detail: Parapet walls with metal coping
+Flashing Detail: Membrane flashed curbs with termination bar
+Drainage System: Internal drains with overflow scuppers
+Manufacturer: Carlisle
+Warranty: 20 Year NDL
+Warranty Expiration: 06/15/2036
+Installing Contractor: Acme Roofing
+Repairing Contractor: Lone Star Roof Services
+`, `
+ROOF SECTIONS
+Section A     120,000 sq ft     TPO
+Section B     125,000 sq ft     TPO
+
+DEFICIENCIES
+1. Section A - Open seam at northeast corner      Priority: High      Est. Cost: $1,250
+2. Section B - Ponding water at drain 4 with debris      Priority: Medium      Est. Cost: $3,400
+around the strainer
+3. Section B - Loose pitch pan fill at conduit      Priority: Low      Est. Cost: $375.50
+
+PHOTO LOG
+Photo 1: Open seam at northeast corner, Section A
+Photo 2: Ponding water at drain 4, Section B
+Photo 3: Pitch pan at conduit
+`),
+    expected: {
+      fields: {
+        propertyName: 'Dallas Corporate Center 2',
+        address: '1234 Commerce Drive, Dallas, TX 75201',
+        client: 'Prologis',
+        reportDate: 'March 14, 2024',
+        inspector: 'Mike Alvarez',
+        inspectionCompany: 'Roof Controller',
+        roofArea: 245000,
+        roofSystem: 'TPO'
+      },
+      inspectionType: 'annual',
+      roofSections: 2,
+      deficiencies: 3,
+      deficiencyCost: 5025.5,
+      photoCaptions: 3
+    }
+  },
+  {
+    name: 'Roof Controller storm damage inspection',
+    templateId: 'roof_controller',
+    text: page(`
+RoofController
+STORM DAMAGE INSPECTION REPORT
+
+Property: DFW Corporate Center 7
+Address: 8800 Esters Blvd, Irving, TX 75063
+Client: CBRE
+Inspection Date: 05/02/2024
+Inspector: Dana Whitfield
+
+ROOF SPECIFICATIONS
+Roof Area: 96,500 sq ft
+Roof System: Modified Bitumen
+
+DEFICIENCIES
+1. Section A - Hail fractures in cap sheet across field      Priority: High      Est. Cost: $18,900
+2. Section A - Displaced coping at west parapet      Priority: High      Est. Cost: $2,150
+
+PHOTO LOG
+Photo 1: Hail fractures in cap sheet, Section A
+`),
+    expected: {
+      fields: {
+        propertyName: 'DFW Corporate Center 7',
+        reportDate: '05/02/2024',
+        inspector: 'Dana Whitfield',
+        roofArea: 96500,
+        roofSystem: 'Modified Bitumen'
+      },
+      inspectionType: 'storm',
+      roofSections: 0,
+      deficiencies: 2,
+      deficiencyCost: 21050,
+      photoCaptions: 1
+    }
+  },
+  {
+    name: 'SRC roof condition assessment',
+    templateId: 'src_assessment',
+    text: page(`
+Southern Roof Consultants (SRC)
+ROOF CONDITION ASSESSMENT
+
+Prepared for: CBRE
+Site: DFW Commerce Center
+Site Address: 4500 Freeport Pkwy, Irving, TX 75063
+Date of Site Visit: February 12, 2025
+Field Observer: R. Thompson
+
+ROOF AREA 1 - MAIN WAREHOUSE (210,000 SF)
+The roof composition consists of a mechanically attached, 45 mil TPO single ply membrane, over
+mechanically attached, 1.25" polyisocyanurate insulation, on a metal deck. The roof system was
+installed in 2017 and is under warranty until 2032.
+
+ROOF AREA 2 - OFFICE (18,500 SF)
+The roof composition consists of a fully adhered 60 mil EPDM membrane over tapered insulation.
+`, `
+OBSERVATIONS AND RECOMMENDED REPAIRS
+Ref    Roof Area    Observation    Priority    Budget
+1.1    Area 1    Split in membrane at HVAC curb    Immediate    $850
+1.2    Area 1    Expansion joints not installed in gutter troughs    Near Term    $6,200
+2.1    Area 2    Shrinkage at parapet base flashing, pulling away    Long Term    $4,100
+from the wall
+Total    $11,150
+
+PHOTOGRAPHS
+Photograph 1 - Split in membrane at HVAC curb (Roof Area 1)
+Photograph 2 - Gutter trough without expansion joint (Roof Area 1)
+Photograph 3 - Parapet base flashing (Roof Area 2)
+Photograph 4 - Overall view of office roof
+`),
+    expected: {
+      fields: {
+        propertyName: 'DFW Commerce Center',
+        address: '4500 Freeport Pkwy, Irving, TX 75063',
+        client: 'CBRE',
+        reportDate: 'February 12, 2025',
+        inspector: 'R. Thompson',
+        inspectionCompany: 'Southern Roof Consultants',
+        roofArea: 228500,
+        roofSystem: 'TPO'
+      },
+      inspectionType: 'survey',
+      roofSections: 2,
+      deficiencies: 3,
+      deficiencyCost: 11150,
+      photoCaptions: 4
+    }
+  },
+  {
+    name: 'Unrecognised format falls back to the generic parser',
+    templateId: GENERIC_TEMPLATE_ID,
+    text: page(`
+ANNUAL INSPECTION REPORT
+Property: Logistics Center 12
+Inspection Date: April 3, 2024
+Inspected by: Sam Ortega
+Roof Area: 150,000 sq ft
+Roof System: EPDM
+
+Photo 1: General view of roof field
+Photo 2: Drain at column line C
+`),
+    expected: {
+      fields: {
+        propertyName: 'Logistics Center 12',
+        reportDate: 'April 3, 2024',
+        inspector: 'Sam Ortega',
+        roofArea: 150000,
+        roofSystem: 'EPDM'
+      },
+      inspectionType: 'annual',
+      roofSections: 0,
+      deficiencies: 0,
+      deficiencyCost: 0,
+      photoCaptions: 2
+    }
+  }
+];
+
+/**
+ * Parse every fixture and list where the result differs from what's expected
+ */
+export function checkReportTemplateFixtures(fixtures: ReportTemplateFixture[] = REPORT_TEMPLATE_FIXTURES): Array<{ fixture: string; problems: string[] }> {
+  return fixtures.map(fixture => {
+    const parsed = ReportTextParser.parseText(fixture.text, `${fixture.name}.pdf`, fixture.text.split(PAGE_SEPARATOR).length);
+    const problems: string[] = [];
+    const expect = (label: string, actual: unknown, expected: unknown) => {
+      if (actual !== expected) {
+        problems.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      }
+    };
+
+    expect('template', parsed.template.id, fixture.templateId);
+    for (const [field, value] of Object.entries(fixture.expected.fields)) {
+      expect(field, parsed[field as keyof typeof fixture.expected.fields], value);
+    }
+    expect('inspection type', parsed.inspectionTypeClassification.primaryType, fixture.expected.inspectionType);
+    expect('roof sections', parsed.roofSections.length, fixture.expected.roofSections);
+    expect('deficiencies', parsed.deficiencies.length, fixture.expected.deficiencies);
+    expect('deficiency cost', parsed.deficiencies.reduce((total, item) => total + (item.estimatedCost || 0), 0), fixture.expected.deficiencyCost);
+    expect('photo captions', parsed.photoCaptions.length, fixture.expected.photoCaptions);
+
+    return { fixture: fixture.name, problems };
+  }).filter(result => result.problems.length > 0);
+}
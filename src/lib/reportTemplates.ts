@@ -0,0 +1,2 @@
+// Templates are shared with the ingest-inspection-archive edge function
+export * from '../../supabase/functions/_shared/reportTemplates.ts';
@@ -0,0 +1,324 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { MatchReason } from './propertyMatching';
+
+type TemplateRow = Database['public']['Tables']['import_mapping_templates']['Row'];
+
+// Mirrors supabase/functions/import-roofs/mapping.ts, which applies the mapping
+export type ImportFieldType = 'text' | 'number' | 'integer' | 'boolean' | 'date';
+
+export type ImportTransform =
+  | 'auto'
+  | 'text'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'date'
+  | 'year'
+  | 'convert_area'
+  | 'lookup';
+
+export interface TransformOptions {
+  date_format?: 'MDY' | 'DMY' | 'YMD';
+  from_unit?: 'sq_ft' | 'sq_m' | 'squares';
+  lookup?: Record<string, string>;
+  lookup_passthrough?: boolean;
+}
+
+export interface ColumnMapping {
+  source: string;
+  target: string;
+  transform?: ImportTransform;
+  options?: TransformOptions;
+}
+
+export interface ImportMappingTemplate extends Omit<TemplateRow, 'mappings'> {
+  mappings: ColumnMapping[];
+}
+
+// Mirrors the plan built by import-roofs in preview mode
+export type PlannedImportAction = 'insert' | 'update' | 'unchanged' | 'error';
+
+export interface ImportFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PlannedImportRow {
+  row: number;
+  action: PlannedImportAction;
+  roofId?: string;
+  match?: { score: number; reasons: MatchReason[] };
+  values: Record<string, unknown>;
+  changes: ImportFieldChange[];
+  client?: { id?: string; name: string; create: boolean; before?: string | null };
+  propertyManager?: { contactId: string; name: string; email?: string };
+  createSiteContact?: boolean;
+  warnings: Array<{ column: string; error: string }>;
+  error?: string;
+}
+
+export interface ImportPlanPreview {
+  rows: PlannedImportRow[];
+  clientsToCreate: string[];
+  summary: Record<PlannedImportAction, number> & { propertyManagerAssignments: number };
+  unmappedColumns: string[];
+  rejectedMappings: string[];
+}
+
+// Pseudo-fields for deselecting a row's client or property manager assignment
+export const CLIENT_ASSIGNMENT_FIELD = '__client';
+export const PM_ASSIGNMENT_FIELD = '__pm';
+
+export interface RoofImportField {
+  field: string;
+  label: string;
+  type: ImportFieldType;
+  group: 'Property' | 'Location' | 'Contacts' | 'Roof' | 'Warranty' | 'Budget';
+  required?: boolean;
+  // Other header spellings seen in client spreadsheets
+  aliases?: string[];
+}
+
+export const ROOF_IMPORT_FIELDS: RoofImportField[] = [
+  { field: 'property_name', label: 'Property Name', type: 'text', group: 'Property', required: true, aliases: ['Property', 'Building Name', 'Site Name', 'Building'] },
+  { field: 'property_code', label: 'Property Code', type: 'text', group: 'Property', aliases: ['Porperty Code', 'Property ID', 'Site Code', 'Building ID', 'Prop Code'] },
+  { field: 'customer', label: 'Customer', type: 'text', group: 'Property', aliases: ['Client', 'Owner', 'Company'] },
+  { field: 'region', label: 'Region', type: 'text', group: 'Property' },
+  { field: 'market', label: 'Market', type: 'text', group: 'Property', aliases: ['Submarket'] },
+  { field: 'roof_group', label: 'Roof Group', type: 'text', group: 'Property', aliases: ['Portfolio'] },
+  { field: 'customer_sensitivity', label: 'Customer Sensitivity', type: 'text', group: 'Property' },
+  { field: 'notes', label: 'Notes', type: 'text', group: 'Property', aliases: ['Comments', 'Remarks'] },
+  { field: 'address', label: 'Address', type: 'text', group: 'Location', required: true, aliases: ['Street', 'Street Address', 'Address 1', 'Address Line 1', 'Property Address'] },
+  { field: 'city', label: 'City', type: 'text', group: 'Location' },
+  { field: 'state', label: 'State', type: 'text', group: 'Location', aliases: ['ST', 'Province'] },
+  { field: 'zip', label: 'Zip', type: 'text', group: 'Location', aliases: ['Zip Code', 'Postal Code', 'ZIP', 'Postcode'] },
+  { field: 'latitude', label: 'Latitude', type: 'number', group: 'Location', aliases: ['Lat'] },
+  { field: 'longitude', label: 'Longitude', type: 'number', group: 'Location', aliases: ['Lng', 'Long', 'Lon'] },
+  { field: 'site_contact', label: 'Site Contact', type: 'text', group: 'Contacts', aliases: ['Site Contact Name', 'Onsite Contact'] },
+  { field: 'site_contact_office_phone', label: 'Site Contact Office Phone', type: 'text', group: 'Contacts', aliases: ['Site Contact Phone'] },
+  { field: 'site_contact_mobile_phone', label: 'Site Contact Mobile Phone', type: 'text', group: 'Contacts', aliases: ['Site Contact Cell'] },
+  { field: 'site_contact_email', label: 'Site Contact Email', type: 'text', group: 'Contacts' },
+  { field: 'property_manager_name', label: 'Property Manager Name', type: 'text', group: 'Contacts', aliases: ['Property Manager', 'PM', 'PM Name', 'Manager'] },
+  { field: 'property_manager_email', label: 'Property Manager Email', type: 'text', group: 'Contacts', aliases: ['PM Email'] },
+  { field: 'property_manager_phone', label: 'Property Manager Phone', type: 'text', group: 'Contacts', aliases: ['PM Phone'] },
+  { field: 'property_manager_mobile', label: 'Property Manager Mobile', type: 'text', group: 'Contacts', aliases: ['PM Mobile', 'PM Cell'] },
+  { field: 'asset_manager_name', label: 'Asset Manager Name', type: 'text', group: 'Contacts', aliases: ['Asset Manager'] },
+  { field: 'asset_manager_email', label: 'Asset Manager Email', type: 'text', group: 'Contacts' },
+  { field: 'asset_manager_phone', label: 'Asset Manager Phone', type: 'text', group: 'Contacts' },
+  { field: 'roof_section', label: 'Roof Section', type: 'text', group: 'Roof', aliases: ['Section'] },
+  { field: 'roof_area', label: 'Roof Area (sq ft)', type: 'number', group: 'Roof', aliases: ['Roof Area', 'Roof SF', 'Roof Sq Ft', 'Square Feet', 'SF', 'Area'] },
+  { field: 'roof_area_unit', label: 'Roof Area Unit', type: 'text', group: 'Roof' },
+  { field: 'roof_type', label: 'Roof Type', type: 'text', group: 'Roof' },
+  { field: 'roof_system', label: 'Roof System', type: 'text', group: 'Roof', aliases: ['Membrane', 'System'] },
+  { field: 'roof_system_description', label: 'Roof System Description', type: 'text', group: 'Roof' },
+  { field: 'roof_category', label: 'Roof Category', type: 'text', group: 'Roof' },
+  { field: 'roof_access', label: 'Roof Access', type: 'text', group: 'Roof' },
+  { field: 'roof_access_requirements', label: 'Roof Access Requirements', type: 'text', group: 'Roof' },
+  { field: 'roof_access_safety_concern', label: 'Roof Access Safety Concern', type: 'text', group: 'Roof' },
+  { field: 'roof_access_location', label: 'Roof Access Location', type: 'text', group: 'Roof' },
+  { field: 'manufacturer', label: 'Manufacturer', type: 'text', group: 'Roof' },
+  { field: 'installing_contractor', label: 'Installing Contractor', type: 'text', group: 'Roof', aliases: ['Installer'] },
+  { field: 'repair_contractor', label: 'Repair Contractor', type: 'text', group: 'Roof' },
+  { field: 'install_date', label: 'Install Date', type: 'date', group: 'Roof', aliases: ['Installation Date'] },
+  { field: 'install_year', label: 'Install Year', type: 'integer', group: 'Roof', aliases: ['Year Installed', 'Roof Age Year'] },
+  { field: 'last_inspection_date', label: 'Last Inspection Date', type: 'date', group: 'Roof', aliases: ['Last Inspection', 'Last Inspected'] },
+  { field: 'total_leaks_12mo', label: 'Total Leaks 12 mo', type: 'text', group: 'Roof' },
+  { field: 'total_leak_expense_12mo', label: 'Total Leak Expense 12mo', type: 'text', group: 'Roof' },
+  { field: 'manufacturer_has_warranty', label: 'Manufacturer Has Warranty', type: 'boolean', group: 'Warranty' },
+  { field: 'manufacturer_warranty_term', label: 'Manufacturer Warranty Term', type: 'text', group: 'Warranty' },
+  { field: 'manufacturer_warranty_number', label: 'Manufacturer Warranty Number', type: 'text', group: 'Warranty' },
+  { field: 'manufacturer_warranty_expiration', label: 'Manufacturer Warranty Expiration', type: 'date', group: 'Warranty', aliases: ['Warranty Expiration', 'Warranty Exp'] },
+  { field: 'installer_has_warranty', label: 'Installer Has Warranty', type: 'boolean', group: 'Warranty' },
+  { field: 'installer_warranty_term', label: 'Installer Warranty Term', type: 'text', group: 'Warranty' },
+  { field: 'installer_warranty_number', label: 'Installer Warranty Number', type: 'text', group: 'Warranty' },
+  { field: 'installer_warranty_expiration', label: 'Installer Warranty Expiration', type: 'date', group: 'Warranty' },
+  { field: 'capital_budget_year', label: 'Capital Budget Year', type: 'integer', group: 'Budget' },
+  { field: 'capital_budget_estimated', label: 'Capital Budget Estimated', type: 'number', group: 'Budget' },
+  { field: 'capital_budget_actual', label: 'Capital Budget Actual', type: 'text', group: 'Budget' },
+  { field: 'capital_budget_completed', label: 'Capital Budget Completed', type: 'text', group: 'Budget' },
+  { field: 'capital_budget_category', label: 'Capital Budget Category', type: 'text', group: 'Budget' },
+  { field: 'capital_budget_scope_of_work', label: 'Capital Budget Scope Of Work', type: 'text', group: 'Budget', aliases: ['Capital Budget ScopeOfWork'] },
+  { field: 'preventative_budget_year', label: 'Preventative Budget Year', type: 'integer', group: 'Budget' },
+  { field: 'preventative_budget_estimated', label: 'Preventative Budget Estimated', type: 'number', group: 'Budget' },
+  { field: 'preventative_budget_actual', label: 'Preventative Budget Actual', type: 'text', group: 'Budget' },
+  { field: 'preventative_budget_completed', label: 'Preventative Budget Completed', type: 'text', group: 'Budget' },
+  { field: 'preventative_budget_category', label: 'Preventative Budget Category', type: 'text', group: 'Budget' },
+  { field: 'preventative_budget_scope_of_work', label: 'Preventative Budget Scope Of Work', type: 'text', group: 'Budget' }
+];
+
+export const IMPORT_TRANSFORM_LABELS: Record<ImportTransform, string> = {
+  auto: 'Automatic',
+  text: 'Text',
+  number: 'Number',
+  integer: 'Whole number',
+  boolean: 'Yes / No',
+  date: 'Date',
+  year: 'Year from date',
+  convert_area: 'Convert area to sq ft',
+  lookup: 'Value lookup'
+};
+
+// Templates must cover at least this share of their columns to be applied automatically
+const TEMPLATE_MATCH_THRESHOLD = 0.8;
+
+const normalizeHeader = (header: string) => String(header || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Identifies a header row regardless of spacing, case and punctuation
+ */
+export function headerSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).join('|');
+}
+
+/**
+ * Best-guess mapping for a header row, matched on field names, labels and known aliases
+ */
+export function suggestMappings(headers: string[]): ColumnMapping[] {
+  const lookup = new Map<string, string>();
+  ROOF_IMPORT_FIELDS.forEach(({ field, label, aliases }) => {
+    [field, label, ...(aliases || [])].forEach(name => {
+      const key = normalizeHeader(name);
+      if (!lookup.has(key)) lookup.set(key, field);
+    });
+  });
+
+  const used = new Set<string>();
+  return headers.flatMap(header => {
+    const target = lookup.get(normalizeHeader(header));
+    if (!header || !target || used.has(target)) return [];
+    used.add(target);
+    return [{ source: header, target, transform: 'auto' as const }];
+  });
+}
+
+/**
+ * The rows to commit after review: deselected rows are dropped, deselected fields
+ * removed, and updates left with nothing to write are skipped
+ */
+export function buildReviewedPlan(
+  preview: ImportPlanPreview,
+  excludedRows: Set<number>,
+  excludedFields: Record<number, string[]>
+): PlannedImportRow[] {
+  return preview.rows
+    .filter(row => (row.action === 'insert' || row.action === 'update') && !excludedRows.has(row.row))
+    .flatMap(row => {
+      const excluded = new Set(excludedFields[row.row] || []);
+      const reviewed: PlannedImportRow = {
+        ...row,
+        changes: row.changes.filter(change => !excluded.has(change.field)),
+        values: Object.fromEntries(Object.entries(row.values).filter(([field]) => !excluded.has(field))),
+        client: excluded.has(CLIENT_ASSIGNMENT_FIELD) ? undefined : row.client,
+        propertyManager: excluded.has(PM_ASSIGNMENT_FIELD) ? undefined : row.propertyManager
+      };
+
+      if (row.action === 'update' && reviewed.changes.length === 0 && !reviewed.client && !reviewed.propertyManager) {
+        return [];
+      }
+      return [reviewed];
+    });
+}
+
+export class RoofImportMappingService {
+  static async getTemplates(): Promise<ImportMappingTemplate[]> {
+    try {
+      const { data, error } = await supabase
+        .from('import_mapping_templates')
+        .select('*')
+        .order('last_used_at', { ascending: false, nullsFirst: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []).map(template => ({
+        ...template,
+        mappings: (template.mappings as unknown as ColumnMapping[]) || []
+      }));
+    } catch (error) {
+      console.error('Error fetching import mapping templates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The template that best fits an upload's headers. The selected client's
+   * templates win over other clients' when both fit.
+   */
+  static findMatchingTemplate(
+    templates: ImportMappingTemplate[],
+    headers: string[],
+    clientId?: string
+  ): ImportMappingTemplate | null {
+    const available = new Set(headers.map(normalizeHeader));
+
+    const scored = templates
+      .filter(template => !clientId || !template.client_id || template.client_id === clientId)
+      .map(template => {
+        const sources = template.mappings.map(mapping => normalizeHeader(mapping.source));
+        const coverage = sources.length > 0 ? sources.filter(source => available.has(source)).length / sources.length : 0;
+        return { template, coverage, ownClient: !!clientId && template.client_id === clientId };
+      })
+      .filter(({ coverage }) => coverage >= TEMPLATE_MATCH_THRESHOLD)
+      .sort((a, b) => Number(b.ownClient) - Number(a.ownClient) || b.coverage - a.coverage);
+
+    return scored[0]?.template ?? null;
+  }
+
+  /**
+   * Re-target a template's mappings at the actual headers, which may differ in case or spacing
+   */
+  static applyTemplate(template: ImportMappingTemplate, headers: string[]): ColumnMapping[] {
+    const byKey = new Map(headers.map(header => [normalizeHeader(header), header]));
+    return template.mappings.flatMap(mapping => {
+      const source = byKey.get(normalizeHeader(mapping.source));
+      return source ? [{ ...mapping, source }] : [];
+    });
+  }
+
+  static async saveTemplate(template: {
+    id?: string;
+    name: string;
+    clientId?: string | null;
+    sheetName?: string;
+    headerRow: number;
+    headers: string[];
+    mappings: ColumnMapping[];
+  }): Promise<ImportMappingTemplate> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const values = {
+      name: template.name,
+      client_id: template.clientId || null,
+      sheet_name: template.sheetName || null,
+      header_row: template.headerRow,
+      source_headers: template.headers.filter(Boolean),
+      mappings: template.mappings as unknown as Database['public']['Tables']['import_mapping_templates']['Insert']['mappings'],
+      last_used_at: new Date().toISOString()
+    };
+
+    const query = template.id
+      ? supabase.from('import_mapping_templates').update(values).eq('id', template.id)
+      : supabase.from('import_mapping_templates').insert({ ...values, created_by: user?.id });
+
+    const { data, error } = await query.select('*').single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return { ...data, mappings: (data.mappings as unknown as ColumnMapping[]) || [] };
+  }
+
+  static async markUsed(templateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('import_mapping_templates')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', templateId);
+
+    if (error) {
+      console.error('Error updating template usage:', error);
+    }
+  }
+}
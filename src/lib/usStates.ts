@@ -0,0 +1,2 @@
+// State and ZIP helpers are shared with the edge functions
+export * from "../../supabase/functions/_shared/usStates.ts";
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { findDuplicateGroups, MATCH_THRESHOLDS } from './propertyMatching';
+import { resolveRules, runDataQualityRules, type DataQualityFix, type ResolvedRule } from './dataQualityRules';
 
 // Property/Roof validation schema
 export const PropertyValidationSchema = z.object({
@@ -106,9 +108,21 @@ export interface DataQualityIssue {
   severity: 'low' | 'medium' | 'high';
   message: string;
   suggested_fix?: string;
+  record_ids?: string[];
+  rule_id?: string;
+  // Present when the suggested fix can be applied automatically
+  fix?: DataQualityFix;
 }
 
-export function assessDataQuality(data: any[], schema: z.ZodSchema): DataQualityScore {
+export interface DataQualityOptions {
+  // Rules with their stored settings; the defaults are used when omitted
+  rules?: ResolvedRule[];
+  clientDomains?: Map<string, Set<string>>;
+}
+
+const SEVERITY_ORDER: Record<DataQualityIssue['severity'], number> = { high: 0, medium: 1, low: 2 };
+
+export function assessDataQuality(data: any[], schema: z.ZodSchema, options: DataQualityOptions = {}): DataQualityScore {
   const issues: DataQualityIssue[] = [];
   let completenessScore = 0;
   let accuracyScore = 0;
@@ -119,8 +133,12 @@ export function assessDataQuality(data: any[], schema: z.ZodSchema): DataQuality
   let totalCompleteness = 0;
   let validRecords = 0;
 
+  // Rules run first so schema errors they already cover aren't reported twice
+  const ruleIssues = runDataQualityRules(data, options.rules || resolveRules(), options.clientDomains);
+  const covered = new Set(ruleIssues.map(issue => `${issue.record_ids?.[0]}:${issue.field}`));
+
   // Check each record
-  data.forEach((record, index) => {
+  data.forEach((record) => {
     const result = schema.safeParse(record);
     
     if (result.success) {
@@ -138,12 +156,16 @@ export function assessDataQuality(data: any[], schema: z.ZodSchema): DataQuality
       // Add validation errors as issues
       if ('error' in result && result.error?.issues) {
         result.error.issues.forEach((error: any) => {
+          const field = error.path?.join('.') || 'unknown';
+          if (covered.has(`${record.id}:${field}`)) return;
           issues.push({
-            field: error.path?.join('.') || 'unknown',
+            field,
             type: 'invalid',
             severity: 'high',
             message: error.message || 'Validation error',
-            suggested_fix: `Fix ${error.path?.join('.') || 'field'} validation error`
+            suggested_fix: `Fix ${field} validation error`,
+            record_ids: record.id ? [record.id] : undefined,
+            rule_id: 'schema'
           });
         });
       }
@@ -153,19 +175,28 @@ export function assessDataQuality(data: any[], schema: z.ZodSchema): DataQuality
   completenessScore = data.length > 0 ? Math.round((totalCompleteness / data.length) * 100) : 0;
   accuracyScore = data.length > 0 ? Math.round((validRecords / data.length) * 100) : 0;
   
-  // Check for duplicates (basic implementation)
-  const duplicates = findDuplicates(data);
-  duplicates.forEach(dup => {
+  // Check for duplicates with the shared property matcher
+  const records = data.map((record, index) => ({ ...record, id: record.id ?? String(index) }));
+  const byId = new Map(records.map(record => [record.id, record]));
+  findDuplicateGroups(records).forEach(group => {
     issues.push({
       field: 'property_name',
       type: 'duplicate',
-      severity: 'medium',
-      message: `Potential duplicate: ${dup.value}`,
-      suggested_fix: 'Review and merge duplicate records'
+      severity: group.score >= MATCH_THRESHOLDS.duplicate ? 'high' : 'medium',
+      message: `Potential duplicate: ${group.ids.map(id => byId.get(id)?.property_name || id).join(' / ')} (${Math.round(group.score * 100)}% match)`,
+      suggested_fix: 'Review and merge duplicate records',
+      record_ids: group.ids,
+      rule_id: 'duplicate'
     });
   });
 
-  consistencyScore = Math.max(0, 100 - (issues.filter(i => i.type === 'inconsistent').length * 10));
+  issues.push(...ruleIssues);
+
+  // Share of records without any inconsistency
+  const inconsistentRecords = new Set(
+    issues.filter(i => i.type === 'inconsistent').flatMap(i => i.record_ids || [])
+  );
+  consistencyScore = data.length > 0 ? Math.round(((data.length - inconsistentRecords.size) / data.length) * 100) : 100;
   
   const overall = Math.round((completenessScore + accuracyScore + consistencyScore) / 3);
 
@@ -174,23 +205,10 @@ export function assessDataQuality(data: any[], schema: z.ZodSchema): DataQuality
     completeness: completenessScore,
     accuracy: accuracyScore,
     consistency: consistencyScore,
-    issues: issues.slice(0, 20) // Limit to top 20 issues
+    issues: issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
   };
 }
 
-function findDuplicates(data: any[]): Array<{ value: string; count: number }> {
-  const counts: { [key: string]: number } = {};
-  
-  data.forEach(record => {
-    const key = `${record.property_name || ''}-${record.address || ''}`.toLowerCase();
-    counts[key] = (counts[key] || 0) + 1;
-  });
-
-  return Object.entries(counts)
-    .filter(([, count]) => count > 1)
-    .map(([value, count]) => ({ value, count }));
-}
-
 // Export types
 export type PropertyData = z.infer<typeof PropertyValidationSchema>;
 export type ClientData = z.infer<typeof ClientValidationSchema>;
@@ -0,0 +1,369 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { uploadRoofFile } from './fileStorage';
+import { DeficiencyService, type TrackedDeficiency } from './deficiencyService';
+import type { Warranty } from './warrantyRegistry';
+
+export type WarrantyClaim = Database['public']['Tables']['warranty_claims']['Row'];
+export type WarrantyClaimEvent = Database['public']['Tables']['warranty_claim_events']['Row'];
+type WarrantyClaimDocumentRow = Database['public']['Tables']['warranty_claim_documents']['Row'];
+type RoofFile = Database['public']['Tables']['roof_files']['Row'];
+
+export type WarrantyClaimStatus = 'submitted' | 'under_review' | 'approved' | 'denied' | 'completed';
+export type ClaimDocumentType = 'claim_form' | 'correspondence' | 'estimate' | 'invoice' | 'inspection_report' | 'photo' | 'other';
+
+export interface WarrantyClaimDocument extends WarrantyClaimDocumentRow {
+  file: RoofFile | null;
+}
+
+export interface NewWarrantyClaim {
+  issueType: string;
+  description?: string;
+  claimAmount: number;
+  deficiencyIds?: string[];
+  photoFileIds?: string[];
+}
+
+export interface ManufacturerPerformance {
+  manufacturer: string;
+  totalWarranties: number;
+  totalClaims: number;
+  openClaims: number;
+  decidedClaims: number;
+  claimApprovalRate: number;
+  avgClaimTime: number | null; // days from submission to decision
+  totalClaimValue: number;
+  approvedClaimValue: number;
+  // Null until the manufacturer has decided at least one claim
+  performanceScore: number | null;
+}
+
+export interface ClaimSummary {
+  openClaims: number;
+  approvalRate: number | null;
+  avgClaimTime: number | null;
+  recoveredAmount: number;
+}
+
+export const CLAIM_STATUS_TRANSITIONS: Record<WarrantyClaimStatus, WarrantyClaimStatus[]> = {
+  submitted: ['under_review'],
+  under_review: ['approved', 'denied'],
+  approved: ['completed'],
+  denied: ['completed'],
+  completed: []
+};
+
+export const CLAIM_ISSUE_TYPES = [
+  'Material Defect',
+  'Installation Defect',
+  'Premature Failure',
+  'Leak',
+  'Weather Damage'
+];
+
+export const CLAIM_DOCUMENT_TYPE_LABELS: Record<ClaimDocumentType, string> = {
+  claim_form: 'Claim form',
+  correspondence: 'Correspondence',
+  estimate: 'Estimate',
+  invoice: 'Invoice',
+  inspection_report: 'Inspection report',
+  photo: 'Photo',
+  other: 'Other'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const claimStatusLabel = (status: string) => status.replace('_', ' ').toUpperCase();
+
+const decisionDays = (claim: WarrantyClaim) =>
+  (new Date(claim.decided_at!).getTime() - new Date(claim.submitted_at).getTime()) / DAY_MS;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Scorecards for each manufacturer from their warranties on file and their claim history.
+ * The score weighs approval rate (40%), share of claimed value paid (30%) and decision
+ * speed (30%).
+ */
+export function computeManufacturerPerformance(warranties: Warranty[], claims: WarrantyClaim[]): ManufacturerPerformance[] {
+  const stats = new Map<string, { warranties: number; claims: WarrantyClaim[] }>();
+  const statsFor = (manufacturer: string) => {
+    if (!stats.has(manufacturer)) stats.set(manufacturer, { warranties: 0, claims: [] });
+    return stats.get(manufacturer)!;
+  };
+
+  warranties.forEach(warranty => {
+    if (warranty.warranty_type === 'manufacturer' && warranty.provider && warranty.status === 'active') {
+      statsFor(warranty.provider).warranties++;
+    }
+  });
+  claims.forEach(claim => {
+    if (claim.warranty_type === 'manufacturer' && claim.warrantor) {
+      statsFor(claim.warrantor).claims.push(claim);
+    }
+  });
+
+  const performance: ManufacturerPerformance[] = [];
+  stats.forEach(({ warranties, claims }, manufacturer) => {
+    const decided = claims.filter(claim => claim.decision && claim.decided_at);
+    const approved = decided.filter(claim => claim.decision === 'approved');
+    const totalClaimValue = decided.reduce((sum, claim) => sum + claim.claim_amount, 0);
+    const approvedClaimValue = approved.reduce((sum, claim) => sum + (claim.approved_amount ?? 0), 0);
+    const claimApprovalRate = decided.length > 0 ? (approved.length / decided.length) * 100 : 0;
+    const avgClaimTime = average(decided.map(decisionDays));
+
+    let performanceScore: number | null = null;
+    if (decided.length > 0) {
+      const payoutRate = totalClaimValue > 0 ? Math.min(100, (approvedClaimValue / totalClaimValue) * 100) : claimApprovalRate;
+      const timeScore = Math.max(0, 100 - (avgClaimTime ?? 0));
+      performanceScore = Math.round(claimApprovalRate * 0.4 + payoutRate * 0.3 + timeScore * 0.3);
+    }
+
+    performance.push({
+      manufacturer,
+      totalWarranties: warranties,
+      totalClaims: claims.length,
+      openClaims: claims.length - decided.length,
+      decidedClaims: decided.length,
+      claimApprovalRate,
+      avgClaimTime: avgClaimTime === null ? null : Math.round(avgClaimTime),
+      totalClaimValue,
+      approvedClaimValue,
+      performanceScore
+    });
+  });
+
+  return performance.sort((a, b) =>
+    (b.performanceScore ?? -1) - (a.performanceScore ?? -1) || b.totalWarranties - a.totalWarranties
+  );
+}
+
+export function summarizeClaims(claims: WarrantyClaim[]): ClaimSummary {
+  const decided = claims.filter(claim => claim.decision && claim.decided_at);
+  const avgClaimTime = average(decided.map(decisionDays));
+
+  return {
+    openClaims: claims.length - decided.length,
+    approvalRate: decided.length > 0
+      ? (decided.filter(claim => claim.decision === 'approved').length / decided.length) * 100
+      : null,
+    avgClaimTime: avgClaimTime === null ? null : Math.round(avgClaimTime),
+    recoveredAmount: decided.reduce((sum, claim) => sum + (claim.approved_amount ?? 0), 0)
+  };
+}
+
+export class WarrantyClaimService {
+  static async getClaims(roofId?: string): Promise<WarrantyClaim[]> {
+    try {
+      let query = supabase
+        .from('warranty_claims')
+        .select('*')
+        .order('submitted_at', { ascending: false });
+
+      if (roofId) {
+        query = query.eq('roof_id', roofId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching warranty claims:', error);
+      return [];
+    }
+  }
+
+  /**
+   * File a claim against a registry warranty. Its issuer, number and provider are copied
+   * onto the claim as they are now.
+   */
+  static async createClaim(warranty: Warranty, claim: NewWarrantyClaim): Promise<WarrantyClaim> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('warranty_claims')
+      .insert({
+        roof_id: warranty.roof_id,
+        warranty_id: warranty.id,
+        warranty_type: warranty.warranty_type,
+        warranty_number: warranty.warranty_number,
+        warrantor: warranty.provider,
+        issue_type: claim.issueType,
+        description: claim.description || null,
+        claim_amount: claim.claimAmount,
+        deficiency_ids: claim.deficiencyIds || [],
+        photo_file_ids: claim.photoFileIds || [],
+        submitted_by: user?.id
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const { error: eventError } = await supabase
+      .from('warranty_claim_events')
+      .insert({ claim_id: data.id, to_status: 'submitted', amount: claim.claimAmount, actor: user?.id });
+
+    if (eventError) {
+      console.error('Error recording claim submission:', eventError);
+    }
+
+    return data;
+  }
+
+  /**
+   * Move a claim to its next status. Approving needs the approved amount; notes on a denial
+   * are kept as the denial reason.
+   */
+  static async advance(
+    claimId: string,
+    status: WarrantyClaimStatus,
+    options: { approvedAmount?: number; notes?: string } = {}
+  ): Promise<WarrantyClaim> {
+    const { data, error } = await supabase.rpc('advance_warranty_claim', {
+      p_claim_id: claimId,
+      p_status: status,
+      p_approved_amount: options.approvedAmount,
+      p_notes: options.notes
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async updateClaim(
+    claimId: string,
+    updates: Pick<Database['public']['Tables']['warranty_claims']['Update'], 'description' | 'warrantor_reference' | 'deficiency_ids' | 'photo_file_ids'>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('warranty_claims')
+      .update(updates)
+      .eq('id', claimId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  static async getEvents(claimId: string): Promise<WarrantyClaimEvent[]> {
+    try {
+      const { data, error } = await supabase
+        .from('warranty_claim_events')
+        .select('*')
+        .eq('claim_id', claimId)
+        .order('created_at');
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching warranty claim history:', error);
+      return [];
+    }
+  }
+
+  static async getDocuments(claimId: string): Promise<WarrantyClaimDocument[]> {
+    try {
+      const { data, error } = await supabase
+        .from('warranty_claim_documents')
+        .select('*, file:roof_files(*)')
+        .eq('claim_id', claimId)
+        .order('created_at');
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching warranty claim documents:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Store a document with the roof's files and attach it to the claim
+   */
+  static async attachDocument(
+    claim: WarrantyClaim,
+    file: File,
+    documentType: ClaimDocumentType,
+    notes?: string
+  ): Promise<void> {
+    const { data: roofFile, error: uploadError } = await uploadRoofFile(claim.roof_id, file, {
+      file_type: 'warranty_claim',
+      is_public: false,
+      metadata: { warranty_claim_id: claim.id, claim_number: claim.claim_number }
+    });
+
+    if (uploadError || !roofFile) {
+      throw new Error(uploadError instanceof Error ? uploadError.message : 'Failed to upload document');
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('warranty_claim_documents')
+      .insert({
+        claim_id: claim.id,
+        file_id: roofFile.id,
+        document_type: documentType,
+        notes: notes || null,
+        uploaded_by: user?.id
+      });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Detach a document from a claim. The file stays with the roof's files.
+   */
+  static async detachDocument(documentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('warranty_claim_documents')
+      .delete()
+      .eq('id', documentId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Deficiencies and photos on a roof that can be cited as evidence for a claim
+   */
+  static async getEvidenceOptions(roofId: string): Promise<{ deficiencies: TrackedDeficiency[]; photos: RoofFile[] }> {
+    const deficiencies = await DeficiencyService.getDeficienciesForRoof(roofId, true);
+
+    try {
+      const { data, error } = await supabase
+        .from('roof_files')
+        .select('*')
+        .eq('roof_id', roofId)
+        .like('mime_type', 'image/%')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return { deficiencies, photos: data || [] };
+    } catch (error) {
+      console.error('Error fetching roof photos:', error);
+      return { deficiencies, photos: [] };
+    }
+  }
+}
@@ -0,0 +1,436 @@
+import { supabase } from '@/integrations/supabase/client';
+import { addDays, addMonths, differenceInDays, format, parseISO } from 'date-fns';
+import {
+  WarrantyRegistryService,
+  WARRANTY_ISSUER_LABELS,
+  COVERAGE_TYPE_LABELS,
+  DOCUMENT_FILE_TYPES,
+  REQUIREMENT_EVIDENCE_LABELS,
+  isWarrantyInForce,
+  parseMaintenanceRequirements,
+  type CoverageType,
+  type MaintenanceRequirement,
+  type RequirementEvidence,
+  type Warranty,
+  type WarrantyIssuer,
+  type WarrantyTransfer
+} from './warrantyRegistry';
+import { COMPLETED_WORK_ORDER_STATUSES } from './workOrders';
+
+export type RequirementStatus = 'met' | 'due_soon' | 'overdue' | 'missed';
+export type ComplianceStatus = 'compliant' | 'at_risk' | 'non_compliant' | 'not_tracked';
+
+/**
+ * Something that happened on a roof that can satisfy a warranty requirement: a completed
+ * inspection, work order or maintenance task, or a document on file
+ */
+export interface ComplianceEvidence {
+  id: string;
+  roofId: string;
+  kind: RequirementEvidence;
+  // Maintenance type of the work, or file category of the document; null when unknown
+  recordType: string | null;
+  date: Date;
+  description: string;
+  performedBy: string | null;
+  url: string | null;
+}
+
+export interface MissedPeriod {
+  from: Date;
+  // Null while the requirement is still outstanding
+  to: Date | null;
+}
+
+export interface RequirementCompliance {
+  requirement: MaintenanceRequirement;
+  status: RequirementStatus;
+  lastEvidenceDate: Date | null;
+  nextDueDate: Date;
+  daysUntilDue: number;
+  missedPeriods: MissedPeriod[];
+  evidence: ComplianceEvidence[];
+}
+
+export interface WarrantyCompliance {
+  warranty: Warranty;
+  propertyName: string;
+  status: ComplianceStatus;
+  requirements: RequirementCompliance[];
+}
+
+export const COMPLIANCE_STATUS_LABELS: Record<ComplianceStatus, string> = {
+  compliant: 'Compliant',
+  at_risk: 'At risk',
+  non_compliant: 'Non-compliant',
+  not_tracked: 'No requirements'
+};
+
+export const REQUIREMENT_STATUS_LABELS: Record<RequirementStatus, string> = {
+  met: 'Met',
+  due_soon: 'Due soon',
+  overdue: 'Overdue',
+  missed: 'Missed'
+};
+
+// Days past a due date before the obligation counts as missed rather than overdue
+const GRACE_DAYS = 30;
+// Days before a due date to start flagging it
+const DUE_SOON_DAYS = 60;
+
+const satisfies = (requirement: MaintenanceRequirement, item: ComplianceEvidence) =>
+  item.kind === requirement.evidence && (!requirement.record_type || item.recordType === requirement.record_type);
+
+/**
+ * Check one requirement against the dated evidence of its kind and record type, so a leak
+ * repair doesn't count as the drain cleaning. Each piece of evidence
+ * restarts the interval; a gap longer than the interval plus grace is a missed period.
+ * The interval is counted from the warranty's start date, or from the first evidence when
+ * the start date isn't known.
+ */
+export function evaluateRequirement(
+  requirement: MaintenanceRequirement,
+  startDate: Date | null,
+  evidence: ComplianceEvidence[],
+  now: Date = new Date()
+): RequirementCompliance {
+  const relevant = evidence
+    .filter(item => satisfies(requirement, item))
+    .filter(item => item.date <= now && (!startDate || item.date >= startDate))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Nothing to count from: the requirement is due now
+  if (!startDate && relevant.length === 0) {
+    return {
+      requirement,
+      status: 'overdue',
+      lastEvidenceDate: null,
+      nextDueDate: now,
+      daysUntilDue: 0,
+      missedPeriods: [],
+      evidence: []
+    };
+  }
+
+  const missedPeriods: MissedPeriod[] = [];
+  let cursor = startDate || relevant[0].date;
+
+  relevant.forEach(item => {
+    const deadline = addDays(addMonths(cursor, requirement.interval_months), GRACE_DAYS);
+    if (item.date > deadline) {
+      missedPeriods.push({ from: cursor, to: item.date });
+    }
+    cursor = item.date;
+  });
+
+  const nextDueDate = addMonths(cursor, requirement.interval_months);
+  const daysUntilDue = differenceInDays(nextDueDate, now);
+  if (daysUntilDue < -GRACE_DAYS) {
+    missedPeriods.push({ from: cursor, to: null });
+  }
+
+  let status: RequirementStatus = 'met';
+  if (missedPeriods.length > 0) {
+    status = 'missed';
+  } else if (daysUntilDue < 0) {
+    status = 'overdue';
+  } else if (daysUntilDue <= DUE_SOON_DAYS) {
+    status = 'due_soon';
+  }
+
+  return {
+    requirement,
+    status,
+    lastEvidenceDate: relevant.length > 0 ? relevant[relevant.length - 1].date : null,
+    nextDueDate,
+    daysUntilDue,
+    missedPeriods,
+    evidence: relevant
+  };
+}
+
+export function evaluateWarrantyCompliance(
+  warranty: Warranty,
+  propertyName: string,
+  evidence: ComplianceEvidence[],
+  now: Date = new Date()
+): WarrantyCompliance {
+  const startDate = warranty.start_date ? parseISO(warranty.start_date) : null;
+  const requirements = parseMaintenanceRequirements(warranty.maintenance_requirements)
+    .map(requirement => evaluateRequirement(requirement, startDate, evidence, now));
+
+  let status: ComplianceStatus = 'compliant';
+  if (requirements.length === 0) {
+    status = 'not_tracked';
+  } else if (requirements.some(item => item.status === 'missed')) {
+    status = 'non_compliant';
+  } else if (requirements.some(item => item.status === 'overdue' || item.status === 'due_soon')) {
+    status = 'at_risk';
+  }
+
+  return { warranty, propertyName, status, requirements };
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDate = (date: Date | string | null) =>
+  date ? format(typeof date === 'string' ? parseISO(date) : date, 'MMM dd, yyyy') : '—';
+
+/**
+ * A self-contained, printable HTML document with the warranty, how each requirement has
+ * been met and the dated evidence behind it, for submitting with a manufacturer claim
+ */
+export function buildCompliancePacket(
+  compliance: WarrantyCompliance,
+  transfers: WarrantyTransfer[],
+  generatedAt: Date = new Date()
+): string {
+  const { warranty } = compliance;
+  const cell = (value: string | number | null) => `<td>${escapeHtml(value === null ? '—' : String(value))}</td>`;
+  const row = (label: string, value: string | number | null) => `<tr><th>${escapeHtml(label)}</th>${cell(value)}</tr>`;
+
+  const details = [
+    row('Property', compliance.propertyName),
+    row('Issuer', WARRANTY_ISSUER_LABELS[warranty.warranty_type as WarrantyIssuer]),
+    row('Provider', warranty.provider),
+    row('Warranty number', warranty.warranty_number),
+    row('Coverage', COVERAGE_TYPE_LABELS[warranty.coverage_type as CoverageType]),
+    row('Term', warranty.term_years ? `${warranty.term_years} years` : warranty.term_description),
+    row('Start date', formatDate(warranty.start_date)),
+    row('Expiration date', formatDate(warranty.expiration_date)),
+    row('Scope', warranty.section_scope || 'Whole section'),
+    row('Covered area (sq ft)', warranty.covered_area_sqft),
+    row('Current holder', warranty.current_holder),
+    row('Compliance status', COMPLIANCE_STATUS_LABELS[compliance.status])
+  ].join('');
+
+  const requirementRows = compliance.requirements.map(item => `<tr>
+      ${cell(item.requirement.requirement)}
+      ${cell(`Every ${item.requirement.interval_months} months`)}
+      ${cell([REQUIREMENT_EVIDENCE_LABELS[item.requirement.evidence], item.requirement.record_type].filter(Boolean).join(': '))}
+      ${cell(formatDate(item.lastEvidenceDate))}
+      ${cell(formatDate(item.nextDueDate))}
+      ${cell(REQUIREMENT_STATUS_LABELS[item.status])}
+      ${cell(item.missedPeriods.map(period => `${formatDate(period.from)} – ${period.to ? formatDate(period.to) : 'present'}`).join('; ') || null)}
+    </tr>`).join('');
+
+  const evidenceById = new Map<string, ComplianceEvidence>();
+  compliance.requirements.forEach(item => item.evidence.forEach(evidence => evidenceById.set(evidence.id, evidence)));
+  const evidenceRows = [...evidenceById.values()]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(item => `<tr>
+      ${cell(formatDate(item.date))}
+      ${cell([REQUIREMENT_EVIDENCE_LABELS[item.kind], item.recordType].filter(Boolean).join(': '))}
+      ${cell(item.description)}
+      ${cell(item.performedBy)}
+      <td>${item.url ? `<a href="${escapeHtml(item.url)}">View</a>` : '—'}</td>
+    </tr>`).join('');
+
+  const transferRows = transfers.map(transfer => `<tr>
+      ${cell(formatDate(transfer.transferred_on))}
+      ${cell(transfer.from_holder)}
+      ${cell(transfer.to_holder)}
+      ${cell(transfer.approved_by_issuer ? 'Yes' : 'No')}
+    </tr>`).join('');
+
+  const exclusions = warranty.exclusions.length > 0
+    ? `<h2>Exclusions</h2><ul>${warranty.exclusions.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : '';
+
+  const empty = (columns: number, text: string) => `<tr><td colspan="${columns}">${text}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Warranty Compliance Packet - ${escapeHtml(compliance.propertyName)}</title>
+<style>
+  body { font-family: Arial, sans-serif; font-size: 12px; color: #111; margin: 32px; }
+  h1 { font-size: 20px; margin-bottom: 4px; }
+  h2 { font-size: 15px; margin-top: 24px; border-bottom: 1px solid #ccc; padding-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; margin-top: 8px; }
+  th, td { border: 1px solid #ddd; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .meta { color: #555; }
+</style>
+</head>
+<body>
+<h1>Warranty Compliance Packet</h1>
+<p class="meta">${escapeHtml(compliance.propertyName)} · Generated ${escapeHtml(format(generatedAt, 'MMM dd, yyyy HH:mm'))}</p>
+<h2>Warranty</h2>
+<table>${details}</table>
+${exclusions}
+<h2>Maintenance Requirements</h2>
+<table>
+  <tr><th>Requirement</th><th>Interval</th><th>Evidence</th><th>Last completed</th><th>Next due</th><th>Status</th><th>Missed periods</th></tr>
+  ${requirementRows || empty(7, 'No maintenance requirements are recorded for this warranty.')}
+</table>
+<h2>Evidence Log</h2>
+<table>
+  <tr><th>Date</th><th>Type</th><th>Description</th><th>Performed by</th><th>Record</th></tr>
+  ${evidenceRows || empty(5, 'No qualifying inspections, maintenance or documents on file.')}
+</table>
+<h2>Transfer History</h2>
+<table>
+  <tr><th>Date</th><th>From</th><th>To</th><th>Issuer approved</th></tr>
+  ${transferRows || empty(4, 'No transfers recorded.')}
+</table>
+</body>
+</html>`;
+}
+
+export class WarrantyComplianceService {
+  /**
+   * Completed inspections, work orders and maintenance tasks, and documents on file for the
+   * given roofs. Work orders take the maintenance type of the task they were dispatched
+   * for; other work orders, such as repairs, have none.
+   */
+  static async getEvidence(roofIds: string[]): Promise<ComplianceEvidence[]> {
+    if (roofIds.length === 0) return [];
+
+    try {
+      const [inspections, workOrders, tasks, files] = await Promise.all([
+        supabase
+          .from('inspections')
+          .select('id, roof_id, completed_date, inspection_type, users!inspector_id(first_name, last_name), inspection_reports(report_url)')
+          .in('roof_id', roofIds)
+          .eq('status', 'completed')
+          .not('completed_date', 'is', null),
+        supabase
+          .from('work_orders')
+          .select('id, roof_id, completed_date, title, vendors!vendor_id(company_name), maintenance_tasks(maintenance_type)')
+          .in('roof_id', roofIds)
+          .in('status', COMPLETED_WORK_ORDER_STATUSES)
+          .not('completed_date', 'is', null),
+        // Tasks dispatched as work orders are already covered by the work order
+        supabase
+          .from('maintenance_tasks')
+          .select('id, roof_id, completed_date, title, maintenance_type, vendors!vendor_id(company_name)')
+          .in('roof_id', roofIds)
+          .eq('status', 'completed')
+          .is('work_order_id', null)
+          .not('completed_date', 'is', null),
+        supabase
+          .from('roof_files')
+          .select('id, roof_id, created_at, file_name, file_type, file_url')
+          .in('roof_id', roofIds)
+          .in('file_type', DOCUMENT_FILE_TYPES)
+      ]);
+
+      if (inspections.error) throw inspections.error;
+      if (workOrders.error) throw workOrders.error;
+      if (tasks.error) throw tasks.error;
+      if (files.error) throw files.error;
+
+      const evidence: ComplianceEvidence[] = [];
+
+      (inspections.data || []).forEach(inspection => {
+        const inspector = inspection.users
+          ? `${inspection.users.first_name || ''} ${inspection.users.last_name || ''}`.trim()
+          : '';
+        evidence.push({
+          id: inspection.id,
+          roofId: inspection.roof_id as string,
+          kind: 'inspection',
+          recordType: inspection.inspection_type,
+          date: parseISO(inspection.completed_date as string),
+          description: inspection.inspection_type ? `${inspection.inspection_type} inspection` : 'Inspection',
+          performedBy: inspector || null,
+          url: inspection.inspection_reports.find(report => report.report_url)?.report_url || null
+        });
+      });
+
+      (workOrders.data || []).forEach(order => {
+        evidence.push({
+          id: order.id,
+          roofId: order.roof_id as string,
+          kind: 'maintenance',
+          recordType: order.maintenance_tasks[0]?.maintenance_type || null,
+          date: parseISO(order.completed_date as string),
+          description: order.title,
+          performedBy: order.vendors?.company_name || null,
+          url: null
+        });
+      });
+
+      (tasks.data || []).forEach(task => {
+        evidence.push({
+          id: task.id,
+          roofId: task.roof_id,
+          kind: 'maintenance',
+          recordType: task.maintenance_type,
+          date: parseISO(task.completed_date as string),
+          description: task.title,
+          performedBy: task.vendors?.company_name || null,
+          url: null
+        });
+      });
+
+      (files.data || []).forEach(file => {
+        if (!file.created_at) return;
+        evidence.push({
+          id: file.id,
+          roofId: file.roof_id as string,
+          kind: 'documentation',
+          recordType: file.file_type,
+          date: parseISO(file.created_at),
+          description: file.file_name,
+          performedBy: null,
+          url: file.file_url
+        });
+      });
+
+      return evidence;
+    } catch (error) {
+      console.error('Error fetching compliance evidence:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Compliance of every in-force warranty, worst first
+   */
+  static async evaluate(warranties: Warranty[], propertyNames: Map<string, string>): Promise<WarrantyCompliance[]> {
+    const inForce = warranties.filter(warranty => isWarrantyInForce(warranty) && propertyNames.has(warranty.roof_id));
+    const trackedRoofIds = [...new Set(
+      inForce
+        .filter(warranty => parseMaintenanceRequirements(warranty.maintenance_requirements).length > 0)
+        .map(warranty => warranty.roof_id)
+    )];
+    const evidence = await this.getEvidence(trackedRoofIds);
+
+    const rank: Record<ComplianceStatus, number> = { non_compliant: 0, at_risk: 1, compliant: 2, not_tracked: 3 };
+    return inForce
+      .map(warranty => evaluateWarrantyCompliance(
+        warranty,
+        propertyNames.get(warranty.roof_id) as string,
+        evidence.filter(item => item.roofId === warranty.roof_id)
+      ))
+      .sort((a, b) => rank[a.status] - rank[b.status]);
+  }
+
+  /**
+   * Build the evidence packet for a warranty and download it
+   */
+  static async downloadPacket(warranty: Warranty, propertyName: string): Promise<void> {
+    const [evidence, transfers] = await Promise.all([
+      this.getEvidence([warranty.roof_id]),
+      WarrantyRegistryService.getTransfers(warranty.id)
+    ]);
+    const compliance = evaluateWarrantyCompliance(warranty, propertyName, evidence);
+    const packet = buildCompliancePacket(compliance, transfers);
+
+    const blob = new Blob([packet], { type: 'text/html' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `warranty-compliance-${propertyName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${format(new Date(), 'yyyy-MM-dd')}.html`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  }
+}
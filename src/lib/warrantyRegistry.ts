@@ -0,0 +1,288 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { differenceInDays, parseISO } from 'date-fns';
+import { MAINTENANCE_TYPES } from './maintenanceTasks';
+
+export type Warranty = Database['public']['Tables']['warranties']['Row'];
+export type WarrantyInput = Database['public']['Tables']['warranties']['Insert'];
+export type WarrantyTransfer = Database['public']['Tables']['warranty_transfers']['Row'];
+
+export type WarrantyIssuer = 'manufacturer' | 'installer' | 'other';
+export type CoverageType = 'ndl' | 'system' | 'material' | 'workmanship' | 'labor_and_material' | 'unspecified';
+export type WarrantyStatus = 'active' | 'void' | 'superseded';
+export type RequirementEvidence = 'inspection' | 'maintenance' | 'documentation';
+
+/**
+ * Upkeep a warranty requires to stay valid, e.g. an inspection by a certified contractor
+ * every 12 months
+ */
+export interface MaintenanceRequirement {
+  requirement: string;
+  interval_months: number;
+  evidence: RequirementEvidence;
+  // The maintenance type (maintenance) or file category (documentation) that counts
+  record_type?: string;
+}
+
+export interface WarrantyAlert {
+  id: string;
+  warranty: Warranty;
+  propertyId: string;
+  propertyName: string;
+  expirationDate: Date;
+  daysRemaining: number;
+  renewalRecommended: boolean;
+  // Null when no renewal cost is on file
+  estimatedRenewalCost: number | null;
+  riskScore: number;
+}
+
+export const WARRANTY_ISSUER_LABELS: Record<WarrantyIssuer, string> = {
+  manufacturer: 'Manufacturer',
+  installer: 'Installer',
+  other: 'Other'
+};
+
+export const COVERAGE_TYPE_LABELS: Record<CoverageType, string> = {
+  ndl: 'NDL',
+  system: 'System',
+  material: 'Material only',
+  workmanship: 'Workmanship',
+  labor_and_material: 'Labor & material',
+  unspecified: 'Unspecified'
+};
+
+export const REQUIREMENT_EVIDENCE_LABELS: Record<RequirementEvidence, string> = {
+  inspection: 'Inspection',
+  maintenance: 'Maintenance work',
+  documentation: 'Documentation'
+};
+
+// File categories users file records under; photos, voice notes, claim attachments and
+// imported reports aren't evidence of upkeep
+export const DOCUMENT_FILE_TYPES = ['Warranty', 'Inspection Report', 'Roof Plan', 'Other'];
+
+export const REQUIREMENT_RECORD_TYPES: Partial<Record<RequirementEvidence, string[]>> = {
+  maintenance: MAINTENANCE_TYPES,
+  documentation: DOCUMENT_FILE_TYPES
+};
+
+// Also assumed for requirements saved before record types were chosen
+export const DEFAULT_RECORD_TYPES: Partial<Record<RequirementEvidence, string>> = {
+  maintenance: 'Preventative',
+  documentation: 'Warranty'
+};
+
+// Share of the alert window left when renewal should be started
+const RENEWAL_WINDOW_SHARE = 1 / 3;
+
+export function parseMaintenanceRequirements(value: Json): MaintenanceRequirement[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    const { requirement, interval_months, evidence, record_type } = item as Record<string, Json>;
+    if (typeof requirement !== 'string' || typeof interval_months !== 'number') return [];
+    const kind = (evidence as RequirementEvidence) || 'inspection';
+    return [{
+      requirement,
+      interval_months,
+      evidence: kind,
+      record_type: kind === 'inspection' ? undefined : (typeof record_type === 'string' && record_type) || DEFAULT_RECORD_TYPES[kind]
+    }];
+  });
+}
+
+export function warrantyLabel(warranty: Warranty): string {
+  const parts = [
+    warranty.provider || WARRANTY_ISSUER_LABELS[warranty.warranty_type as WarrantyIssuer],
+    warranty.coverage_type !== 'unspecified' ? COVERAGE_TYPE_LABELS[warranty.coverage_type as CoverageType] : null,
+    warranty.section_scope
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+export function isWarrantyInForce(warranty: Warranty, now: Date = new Date()): boolean {
+  if (warranty.status !== 'active') return false;
+  return !warranty.expiration_date || parseISO(warranty.expiration_date) >= now;
+}
+
+/**
+ * Alerts for active warranties inside their own alert window before expiration
+ */
+export function buildWarrantyAlerts(
+  warranties: Warranty[],
+  propertyNames: Map<string, string>,
+  now: Date = new Date()
+): WarrantyAlert[] {
+  const alerts: WarrantyAlert[] = [];
+
+  warranties.forEach(warranty => {
+    if (warranty.status !== 'active' || !warranty.expiration_date) return;
+
+    const expirationDate = parseISO(warranty.expiration_date);
+    const daysRemaining = differenceInDays(expirationDate, now);
+    if (daysRemaining < 0 || daysRemaining > warranty.alert_lead_days) return;
+
+    const leadDays = Math.max(1, warranty.alert_lead_days);
+    alerts.push({
+      id: warranty.id,
+      warranty,
+      propertyId: warranty.roof_id,
+      propertyName: propertyNames.get(warranty.roof_id) || 'Unknown property',
+      expirationDate,
+      daysRemaining,
+      renewalRecommended: warranty.renewable && daysRemaining <= leadDays * RENEWAL_WINDOW_SHARE,
+      estimatedRenewalCost: warranty.renewal_cost,
+      riskScore: Math.round(100 * (1 - daysRemaining / leadDays))
+    });
+  });
+
+  return alerts.sort((a, b) => a.daysRemaining - b.daysRemaining);
+}
+
+export class WarrantyRegistryService {
+  static async getWarranties(roofId?: string): Promise<Warranty[]> {
+    try {
+      let query = supabase
+        .from('warranties')
+        .select('*')
+        .order('expiration_date', { ascending: true, nullsFirst: false });
+
+      if (roofId) {
+        query = query.eq('roof_id', roofId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching warranties:', error);
+      return [];
+    }
+  }
+
+  static async getWarranty(warrantyId: string): Promise<Warranty | null> {
+    try {
+      const { data, error } = await supabase
+        .from('warranties')
+        .select('*')
+        .eq('id', warrantyId)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error fetching warranty:', error);
+      return null;
+    }
+  }
+
+  static async saveWarranty(warranty: WarrantyInput): Promise<Warranty> {
+    if (warranty.id) {
+      const { id, ...updates } = warranty;
+      const { data, error } = await supabase
+        .from('warranties')
+        .update(updates)
+        .eq('id', id)
+        .select('*')
+        .single();
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from('warranties')
+      .insert({ ...warranty, created_by: user?.id })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    // A re-cover's warranty replaces the one it supersedes
+    if (data.supersedes_warranty_id) {
+      await this.setStatus(data.supersedes_warranty_id, 'superseded');
+    }
+
+    return data;
+  }
+
+  static async setStatus(warrantyId: string, status: WarrantyStatus): Promise<void> {
+    const { error } = await supabase
+      .from('warranties')
+      .update({ status })
+      .eq('id', warrantyId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  static async getTransfers(warrantyId: string): Promise<WarrantyTransfer[]> {
+    try {
+      const { data, error } = await supabase
+        .from('warranty_transfers')
+        .select('*')
+        .eq('warranty_id', warrantyId)
+        .order('transferred_on');
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching warranty transfers:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a change of holder and make the new holder the warranty's current one
+   */
+  static async recordTransfer(
+    warranty: Warranty,
+    transfer: { transferredOn: string; toHolder: string; transferFee?: number; approvedByIssuer?: boolean; notes?: string }
+  ): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await supabase
+      .from('warranty_transfers')
+      .insert({
+        warranty_id: warranty.id,
+        transferred_on: transfer.transferredOn,
+        from_holder: warranty.current_holder,
+        to_holder: transfer.toHolder,
+        transfer_fee: transfer.transferFee ?? null,
+        approved_by_issuer: transfer.approvedByIssuer ?? false,
+        notes: transfer.notes || null,
+        recorded_by: user?.id
+      });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const { error: holderError } = await supabase
+      .from('warranties')
+      .update({ current_holder: transfer.toHolder })
+      .eq('id', warranty.id);
+
+    if (holderError) {
+      throw new Error(holderError.message);
+    }
+  }
+}
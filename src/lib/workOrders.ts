@@ -0,0 +1,354 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { format } from 'date-fns';
+
+export type WorkOrder = Database['public']['Tables']['work_orders']['Row'];
+export type WorkOrderEvent = Database['public']['Tables']['work_order_events']['Row'];
+export type WorkOrderInvoiceLine = Database['public']['Tables']['work_order_invoice_lines']['Row'];
+
+export type WorkOrderBid = Database['public']['Tables']['work_order_bids']['Row'] & {
+  vendor: { company_name: string } | null;
+};
+
+export type WorkOrderInvoice = Database['public']['Tables']['work_order_invoices']['Row'] & {
+  lines: WorkOrderInvoiceLine[];
+};
+
+export type WorkOrderStatus =
+  | 'draft'
+  | 'bid_requested'
+  | 'bids_received'
+  | 'approved'
+  | 'scheduled'
+  | 'in_progress'
+  | 'completed'
+  | 'invoiced'
+  | 'paid'
+  | 'cancelled';
+
+export type BidStatus = 'requested' | 'received' | 'declined' | 'accepted' | 'rejected';
+export type InvoiceLineCategory = 'labor' | 'materials' | 'equipment' | 'change_order' | 'other';
+
+export interface NewWorkOrder {
+  roofId: string;
+  title: string;
+  description?: string;
+  priority: string;
+  estimatedCost?: number | null;
+  scheduledStart?: Date | null;
+}
+
+export interface NewInvoiceLine {
+  description: string;
+  category: InvoiceLineCategory;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface WorkOrderReconciliation {
+  approved: number | null;
+  invoiced: number;
+  // Invoiced minus approved; null until there's both an approval and an invoice
+  variance: number | null;
+  variancePct: number | null;
+  flagged: boolean;
+}
+
+export const WORK_ORDER_STATUS_LABELS: Record<WorkOrderStatus, string> = {
+  draft: 'Draft',
+  bid_requested: 'Bids Requested',
+  bids_received: 'Bids Received',
+  approved: 'Approved',
+  scheduled: 'Scheduled',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  invoiced: 'Invoiced',
+  paid: 'Paid',
+  cancelled: 'Cancelled'
+};
+
+export const BID_STATUS_LABELS: Record<BidStatus, string> = {
+  requested: 'Requested',
+  received: 'Received',
+  declined: 'Declined',
+  accepted: 'Accepted',
+  rejected: 'Rejected'
+};
+
+export const INVOICE_LINE_CATEGORY_LABELS: Record<InvoiceLineCategory, string> = {
+  labor: 'Labor',
+  materials: 'Materials',
+  equipment: 'Equipment',
+  change_order: 'Change Order',
+  other: 'Other'
+};
+
+// Not yet finished, invoiced or cancelled
+export const OPEN_WORK_ORDER_STATUSES: WorkOrderStatus[] = [
+  'draft', 'bid_requested', 'bids_received', 'approved', 'scheduled', 'in_progress'
+];
+
+// The work is done, whether or not it has been billed
+export const COMPLETED_WORK_ORDER_STATUSES: WorkOrderStatus[] = ['completed', 'invoiced', 'paid'];
+
+// Statuses where the approved amount is a spending commitment
+export const COMMITTED_WORK_ORDER_STATUSES: WorkOrderStatus[] = [
+  'approved', 'scheduled', 'in_progress', 'completed', 'invoiced', 'paid'
+];
+
+// Invoices within this fraction of the approved amount aren't flagged
+export const INVOICE_VARIANCE_TOLERANCE = 0.05;
+
+/**
+ * Compare what was invoiced against the approved bid. An invoiced order with no approved
+ * amount is always flagged.
+ */
+export function reconcileWorkOrder(order: Pick<WorkOrder, 'status' | 'approved_amount' | 'actual_cost'>): WorkOrderReconciliation {
+  const invoiced = order.status === 'invoiced' || order.status === 'paid' ? order.actual_cost || 0 : 0;
+  const approved = order.approved_amount;
+
+  if (invoiced === 0 || approved === null) {
+    return { approved, invoiced, variance: null, variancePct: null, flagged: invoiced > 0 };
+  }
+
+  const variance = invoiced - approved;
+  const variancePct = approved > 0 ? variance / approved : null;
+  const flagged = variancePct === null ? variance !== 0 : Math.abs(variancePct) > INVOICE_VARIANCE_TOLERANCE;
+  return { approved, invoiced, variance, variancePct, flagged };
+}
+
+/**
+ * Invoice totals by line category across all of an order's invoices
+ */
+export function invoiceTotalsByCategory(invoices: WorkOrderInvoice[]): Record<InvoiceLineCategory, number> {
+  const totals: Record<InvoiceLineCategory, number> = { labor: 0, materials: 0, equipment: 0, change_order: 0, other: 0 };
+  invoices.forEach(invoice => {
+    invoice.lines.forEach(line => {
+      totals[line.category as InvoiceLineCategory] += line.amount || 0;
+    });
+  });
+  return totals;
+}
+
+const BID_SELECT = '*, vendor:vendors(company_name)';
+
+export class WorkOrderService {
+  static async createWorkOrder(order: NewWorkOrder): Promise<WorkOrder> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('work_orders')
+      .insert({
+        roof_id: order.roofId,
+        title: order.title,
+        description: order.description || null,
+        priority: order.priority,
+        estimated_cost: order.estimatedCost ?? null,
+        scheduled_start: order.scheduledStart ? format(order.scheduledStart, 'yyyy-MM-dd') : null,
+        status: 'draft',
+        created_by: user?.id
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async setSchedule(workOrderId: string, scheduledStart: Date | null, scheduledEnd: Date | null): Promise<void> {
+    const { error } = await supabase
+      .from('work_orders')
+      .update({
+        scheduled_start: scheduledStart ? format(scheduledStart, 'yyyy-MM-dd') : null,
+        scheduled_end: scheduledEnd ? format(scheduledEnd, 'yyyy-MM-dd') : null
+      })
+      .eq('id', workOrderId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Move an order along the steps that need no extra data: schedule, start, complete,
+   * mark paid or cancel
+   */
+  static async advance(workOrderId: string, status: WorkOrderStatus, notes?: string): Promise<WorkOrder> {
+    const { data, error } = await supabase.rpc('advance_work_order', {
+      p_work_order_id: workOrderId,
+      p_status: status,
+      p_notes: notes || undefined
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async getBids(workOrderId: string): Promise<WorkOrderBid[]> {
+    try {
+      const { data, error } = await supabase
+        .from('work_order_bids')
+        .select(BID_SELECT)
+        .eq('work_order_id', workOrderId)
+        .order('requested_at');
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching work order bids:', error);
+      return [];
+    }
+  }
+
+  static async requestBids(workOrderId: string, vendorIds: string[], dueDate?: Date | null): Promise<WorkOrder> {
+    const { data, error } = await supabase.rpc('request_work_order_bids', {
+      p_work_order_id: workOrderId,
+      p_vendor_ids: vendorIds,
+      p_bid_due_date: dueDate ? format(dueDate, 'yyyy-MM-dd') : undefined
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Record a vendor's quote. Without an amount the vendor is recorded as having declined.
+   */
+  static async recordBid(
+    workOrderId: string,
+    vendorId: string,
+    bid: { amount: number | null; scopeNotes?: string; validUntil?: Date | null }
+  ): Promise<void> {
+    const { error } = await supabase.rpc('record_work_order_bid', {
+      p_work_order_id: workOrderId,
+      p_vendor_id: vendorId,
+      p_amount: bid.amount ?? undefined,
+      p_scope_notes: bid.scopeNotes || undefined,
+      p_valid_until: bid.validUntil ? format(bid.validUntil, 'yyyy-MM-dd') : undefined
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Award the work to the bid's vendor at the bid amount. Fails when the amount is over the
+   * client's approval threshold and the user isn't a super admin.
+   */
+  static async approveBid(bidId: string, notes?: string): Promise<WorkOrder> {
+    const { data, error } = await supabase.rpc('approve_work_order_bid', {
+      p_bid_id: bidId,
+      p_notes: notes || undefined
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async getInvoices(workOrderId: string): Promise<WorkOrderInvoice[]> {
+    try {
+      const { data, error } = await supabase
+        .from('work_order_invoices')
+        .select('*, lines:work_order_invoice_lines(*)')
+        .eq('work_order_id', workOrderId)
+        .order('invoice_date');
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching work order invoices:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a vendor invoice; the order's actual cost becomes the total of its invoices
+   */
+  static async recordInvoice(
+    workOrderId: string,
+    invoice: { invoiceNumber: string; invoiceDate: Date; lines: NewInvoiceLine[]; notes?: string }
+  ): Promise<void> {
+    const { error } = await supabase.rpc('record_work_order_invoice', {
+      p_work_order_id: workOrderId,
+      p_invoice_number: invoice.invoiceNumber,
+      p_invoice_date: format(invoice.invoiceDate, 'yyyy-MM-dd'),
+      p_lines: invoice.lines.map(line => ({ ...line })),
+      p_notes: invoice.notes || undefined
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  static async getEvents(workOrderId: string): Promise<WorkOrderEvent[]> {
+    try {
+      const { data, error } = await supabase
+        .from('work_order_events')
+        .select('*')
+        .eq('work_order_id', workOrderId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching work order history:', error);
+      return [];
+    }
+  }
+
+  static async getApprovalThreshold(clientId: string): Promise<number | null> {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select('work_order_approval_threshold')
+        .eq('id', clientId)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return data.work_order_approval_threshold;
+    } catch (error) {
+      console.error('Error fetching approval threshold:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Bids above the threshold need a super admin to approve; null lets managers approve any amount
+   */
+  static async setApprovalThreshold(clientId: string, threshold: number | null): Promise<void> {
+    const { error } = await supabase
+      .from('clients')
+      .update({ work_order_approval_threshold: threshold })
+      .eq('id', clientId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
@@ -25,7 +25,8 @@ import { BuildingDetailsDialog } from "@/components/inspector/BuildingDetailsDia
 import { useInspectorKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
 import { useInspectorEventListener, useInspectionState, usePropertySelection } from "@/hooks/useInspectorEvents";
 import { KeyboardShortcutsHelp } from "@/components/ui/keyboard-shortcuts-help";
-import { offlineManager } from "@/lib/offlineManager";
+import { offlineManager, OfflineData } from "@/lib/offlineManager";
+import { SyncConflictDialog } from "@/components/inspection/SyncConflictDialog";
 import { VirtualizedPropertyList } from "@/components/ui/virtualized-property-list";
 import { QuickActions } from "@/components/ui/quick-actions";
 
@@ -68,6 +69,14 @@ interface InspectionBriefing {
   }>;
 }
 
+const FAILED_ITEM_LABELS: Record<OfflineData['type'], string> = {
+  inspection: 'Inspection',
+  photo: 'Photo',
+  deficiency: 'Deficiency',
+  voice_note: 'Voice note',
+  record_edit: 'Record edit'
+};
+
 const InspectorInterface = () => {
   
   // Accessibility features
@@ -90,6 +99,9 @@ const InspectorInterface = () => {
   const [showBuildingDetails, setShowBuildingDetails] = useState(false);
   const [selectedBuildingId, setSelectedBuildingId] = useState<string | null>(null);
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
+  const [syncConflicts, setSyncConflicts] = useState<OfflineData[]>([]);
+  const [failedSyncItems, setFailedSyncItems] = useState<OfflineData[]>([]);
+  const [activeConflict, setActiveConflict] = useState<OfflineData | null>(null);
   
   // Initialize keyboard shortcuts and event handling
   const { setContext, shortcuts } = useInspectorKeyboardShortcuts();
@@ -123,6 +135,43 @@ const InspectorInterface = () => {
     console.log('Tab changed via keyboard:', event.payload.tab);
   }, []));
   
+  // Offline edits that collided with office changes wait here for the inspector
+  const refreshSyncConflicts = useCallback(() => {
+    setSyncConflicts(offlineManager.getConflicts());
+  }, []);
+
+  useEffect(() => {
+    refreshSyncConflicts();
+  }, [refreshSyncConflicts]);
+
+  useInspectorEventListener('data.sync_conflict', refreshSyncConflicts);
+  useInspectorEventListener('data.sync_conflict_resolved', refreshSyncConflicts);
+
+  // Queued items that used up their automatic retries stay here until retried by hand
+  const refreshFailedSyncItems = useCallback(() => {
+    setFailedSyncItems(offlineManager.getFailedItems());
+  }, []);
+
+  useEffect(() => {
+    refreshFailedSyncItems();
+  }, [refreshFailedSyncItems]);
+
+  useInspectorEventListener('data.sync_failed', refreshFailedSyncItems);
+  useInspectorEventListener('data.sync_completed', refreshFailedSyncItems);
+
+  const handleRetryFailedItem = useCallback(async (itemId: string) => {
+    await offlineManager.retryItem(itemId);
+    refreshFailedSyncItems();
+  }, [refreshFailedSyncItems]);
+
+  const handleResolveConflict = useCallback(async (itemId: string, resolvedValues: Record<string, unknown>) => {
+    await offlineManager.resolveConflict(itemId, resolvedValues);
+    toast({
+      title: "Conflict Resolved",
+      description: "Your merged values will sync to the server",
+    });
+  }, [toast]);
+
   useInspectorEventListener('inspection.start_requested', useCallback(() => {
     if (selectedProperty && briefing) {
       handleStartInspection(selectedProperty, briefing.property.name);
@@ -234,15 +283,15 @@ const InspectorInterface = () => {
       );
       
       setAvailableProperties(propertiesWithSummary);
+      await offlineManager.cacheResponse('inspector:properties', propertiesWithSummary);
     } catch (error) {
       console.error('Error loading properties:', error);
       
       // Try to load from offline cache
       try {
-        const offlineData = offlineManager.getOfflineData('inspection');
-        if (offlineData.length > 0) {
+        const cachedProperties = await offlineManager.getCachedResponse<typeof availableProperties>('inspector:properties');
+        if (cachedProperties && cachedProperties.length > 0) {
           // Use cached data
-          const cachedProperties = offlineData.map(item => item.data.property).filter(Boolean);
           setAvailableProperties(cachedProperties);
           toast({
             title: "Offline Mode",
@@ -277,12 +326,24 @@ const InspectorInterface = () => {
       if (briefingData) {
         setBriefing(briefingData);
         // Cache for offline use
-        await offlineManager.storeOfflineData('inspection', { briefing: briefingData, propertyId });
+        await offlineManager.cacheResponse(`inspector:briefing:${propertyId}`, briefingData);
       } else {
         throw new Error('Failed to generate briefing');
       }
     } catch (error) {
       console.error('Error loading briefing:', error);
+
+      const cachedBriefing = await offlineManager.getCachedResponse<InspectionBriefing>(`inspector:briefing:${propertyId}`);
+      if (cachedBriefing) {
+        setBriefing(cachedBriefing);
+        toast({
+          title: "Offline Mode",
+          description: "Loaded cached inspection briefing",
+          variant: "default"
+        });
+        return;
+      }
+
       toast({
         title: "Error",
         description: "Failed to load inspection briefing",
@@ -387,6 +448,47 @@ const InspectorInterface = () => {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto p-4">
+        {syncConflicts.length > 0 && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Offline edits need review</AlertTitle>
+            <AlertDescription>
+              <div className="flex flex-col gap-2 mt-1">
+                {syncConflicts.map(item => (
+                  <div key={item.id} className="flex items-center justify-between gap-2">
+                    <span>{item.conflict?.label}: changed in the office while you were offline</span>
+                    <Button size="sm" variant="outline" onClick={() => setActiveConflict(item)}>
+                      Review
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {failedSyncItems.length > 0 && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Offline data failed to sync</AlertTitle>
+            <AlertDescription>
+              <div className="flex flex-col gap-2 mt-1">
+                {failedSyncItems.map(item => (
+                  <div key={item.id} className="flex items-center justify-between gap-2">
+                    <span>
+                      {FAILED_ITEM_LABELS[item.type]} from {new Date(item.timestamp).toLocaleString()}
+                      {item.lastError ? `: ${item.lastError}` : ''}
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => handleRetryFailedItem(item.id)}>
+                      Retry
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {!selectedProperty ? (
           // Property Selection
           <Card>
@@ -713,6 +815,14 @@ const InspectorInterface = () => {
         onOpenChange={setShowKeyboardHelp}
         shortcuts={shortcuts}
       />
+
+      {/* Offline Sync Conflict Merge */}
+      <SyncConflictDialog
+        open={!!activeConflict}
+        onOpenChange={(open) => !open && setActiveConflict(null)}
+        item={activeConflict}
+        onResolve={handleResolveConflict}
+      />
     </div>
   );
 };
@@ -10,6 +10,7 @@ import { NotificationCenter } from "@/components/ui/notification-center";
 import { useAuth } from "@/contexts/AuthContext";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { OPEN_WORK_ORDER_STATUSES } from "@/lib/workOrders";
 import { 
   Bell, 
   Settings, 
@@ -81,11 +82,11 @@ export function UnifiedDashboard() {
           .select('*', { count: 'exact', head: true })
           .in('status', ['scheduled', 'in_progress']);
 
-        // Load pending work orders
+        // Load open work orders
         const { count: workOrdersCount } = await supabase
           .from('work_orders')
           .select('*', { count: 'exact', head: true })
-          .eq('status', 'pending');
+          .in('status', OPEN_WORK_ORDER_STATUSES);
 
         // Load campaign progress
         const { data: campaigns } = await supabase
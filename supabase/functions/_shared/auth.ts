@@ -0,0 +1,47 @@
+/**
+ * Caller checks for edge functions that run with the service role key. People are
+ * identified from their own JWT and must be a manager or super admin; the service role
+ * key itself only comes from functions that call themselves to continue a job.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface AuthFailure {
+  status: number;
+  error: string;
+}
+
+const bearerToken = (req: Request) => req.headers.get('Authorization')?.replace('Bearer ', '');
+
+// A call this function made to itself, with the service role key
+export function isServiceRoleCall(req: Request): boolean {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceKey && bearerToken(req) === serviceKey;
+}
+
+export async function authorizeManager(
+  supabase: SupabaseClient,
+  req: Request,
+  options: { action: string }
+): Promise<AuthFailure | null> {
+  const token = bearerToken(req);
+  if (!token) {
+    return { status: 401, error: 'Missing authorization header' };
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+  if (userError || !user) {
+    return { status: 401, error: 'Invalid or expired session' };
+  }
+
+  const [{ data: isManager }, { data: isSuperAdmin }] = await Promise.all([
+    supabase.rpc('has_role', { _user_id: user.id, _role: 'manager' }),
+    supabase.rpc('has_role', { _user_id: user.id, _role: 'super_admin' }),
+  ]);
+
+  if (!isManager && !isSuperAdmin) {
+    return { status: 403, error: `Only managers can ${options.action}` };
+  }
+
+  return null;
+}
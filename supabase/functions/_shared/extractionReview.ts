@@ -0,0 +1,57 @@
+/**
+ * When a parsed report needs a person before it's stored. Shared by the app's review
+ * queue (src/lib/extractionReviews.ts) and the ingest-inspection-archive function.
+ */
+
+import type { ExtractedPDFData } from './reportParser.ts';
+import type { PropertyMatch } from './reportPropertyMatcher.ts';
+import { EXTRACTION_FIELD_LABELS, LOW_CONFIDENCE_THRESHOLD, type ExtractionField } from './reportTemplates.ts';
+
+export type ReviewReason = 'low_confidence' | 'property_match' | 'roof_overwrite';
+
+export const REVIEW_REASON_LABELS: Record<ReviewReason, string> = {
+  low_confidence: 'Low-confidence fields',
+  property_match: 'Property match unconfirmed',
+  roof_overwrite: 'Would overwrite roof data'
+};
+
+// Property matches below this are confirmed by a person rather than trusted
+export const PROPERTY_MATCH_THRESHOLD = 0.8;
+
+// An inspection can't be recorded without these, so missing ones need a person too
+const REQUIRED_FIELDS: ExtractionField[] = ['propertyName', 'reportDate', 'inspectionType'];
+
+/**
+ * Fields parsed below the confidence threshold, plus required fields that weren't found
+ */
+export function lowConfidenceFields(extractedData: ExtractedPDFData): ExtractionField[] {
+  const confidence = extractedData.fieldConfidence || {};
+  const fields = (Object.keys(EXTRACTION_FIELD_LABELS) as ExtractionField[])
+    .filter(field => confidence[field] !== undefined && (confidence[field] ?? 0) < LOW_CONFIDENCE_THRESHOLD);
+  const missing = REQUIRED_FIELDS.filter(field => confidence[field] === undefined);
+
+  return [...fields, ...missing.filter(field => !fields.includes(field))];
+}
+
+/**
+ * Why an extraction needs a person before it's stored; empty when it can go straight in
+ */
+export function getReviewReasons(
+  extractedData: ExtractedPDFData,
+  propertyMatch: PropertyMatch | null,
+  overwritesRoofData: boolean
+): ReviewReason[] {
+  const reasons: ReviewReason[] = [];
+
+  if (lowConfidenceFields(extractedData).length > 0) {
+    reasons.push('low_confidence');
+  }
+  if (!propertyMatch || propertyMatch.confidence < PROPERTY_MATCH_THRESHOLD) {
+    reasons.push('property_match');
+  }
+  if (overwritesRoofData) {
+    reasons.push('roof_overwrite');
+  }
+
+  return reasons;
+}
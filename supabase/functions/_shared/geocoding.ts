@@ -0,0 +1,269 @@
+/**
+ * Geocoding shared by the geocode-roofs function and the app (src/lib/geocoding.ts
+ * re-exports it).
+ *
+ * Providers are tried in order until one answers. The local provider needs no
+ * network: it places an address by interpolating between portfolio roofs already
+ * located on the same street, and otherwise falls back to the ZIP centroid from the
+ * reference dataset (geo_zip_centroids) or from the portfolio's own located roofs.
+ */
+
+import { normalizeAddress, normalizeName, normalizeZip } from './propertyMatching.ts';
+import { normalizeStateCode } from './usStates.ts';
+
+// Best first
+export type GeocodePrecision = 'rooftop' | 'street' | 'zip_centroid' | 'city';
+
+export const GEOCODE_PRECISIONS: GeocodePrecision[] = ['rooftop', 'street', 'zip_centroid', 'city'];
+
+export interface GeocodeQuery {
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+}
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  precision: GeocodePrecision;
+  provider: string;
+  // Where the provider placed the address, for comparing against the stored city/state
+  matchedCity?: string | null;
+  matchedState?: string | null;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
+
+export interface ZipCentroid {
+  zip: string;
+  latitude: number;
+  longitude: number;
+  city?: string | null;
+  state?: string | null;
+}
+
+// A roof whose coordinates are trusted enough to place its neighbours
+export interface LocatedAddress {
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+interface StreetPoint {
+  number: number;
+  latitude: number;
+  longitude: number;
+}
+
+// Interpolating further than this many house numbers past the last known point is a guess
+const MAX_EXTRAPOLATION = 200;
+
+// Three- and four-digit ZIPs are five-digit ones that lost their leading zeros
+export const geocodeZip = (zip?: string | null) => {
+  const normalized = normalizeZip(zip);
+  return normalized.length >= 3 && normalized.length < 5 ? normalized.padStart(5, '0') : normalized;
+};
+
+/**
+ * "100 n main st" -> { number: 100, street: "n main st" }
+ */
+export function splitHouseNumber(address?: string | null): { number: number | null; street: string } {
+  const { street } = normalizeAddress(address);
+  const match = street.match(/^(\d+)[a-z]?\s+(.+)$/);
+  return match ? { number: Number(match[1]), street: match[2] } : { number: null, street };
+}
+
+const mostCommon = (values: Array<string | null | undefined>) => {
+  const counts = new Map<string, number>();
+  values.forEach(value => value && counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+};
+
+const interpolate = (a: StreetPoint, b: StreetPoint, number: number) => {
+  const t = (number - a.number) / (b.number - a.number);
+  return {
+    latitude: a.latitude + (b.latitude - a.latitude) * t,
+    longitude: a.longitude + (b.longitude - a.longitude) * t
+  };
+};
+
+export class LocalGeocodingProvider implements GeocodingProvider {
+  name = 'local';
+  private streets = new Map<string, StreetPoint[]>();
+  private zips = new Map<string, ZipCentroid>();
+
+  /**
+   * `reference` centroids win over ones derived from `located` roofs, which only fill
+   * ZIPs the reference dataset doesn't have.
+   */
+  constructor(reference: ZipCentroid[], located: LocatedAddress[] = []) {
+    const byZip = new Map<string, LocatedAddress[]>();
+
+    for (const roof of located) {
+      const zip = geocodeZip(roof.zip);
+      if (!zip) continue;
+      if (!byZip.has(zip)) byZip.set(zip, []);
+      byZip.get(zip)!.push(roof);
+
+      const { number, street } = splitHouseNumber(roof.address);
+      if (number === null || !street) continue;
+      const key = `${zip}|${street}`;
+      if (!this.streets.has(key)) this.streets.set(key, []);
+      this.streets.get(key)!.push({ number, latitude: roof.latitude, longitude: roof.longitude });
+    }
+
+    this.streets.forEach(points => points.sort((a, b) => a.number - b.number));
+
+    byZip.forEach((roofs, zip) => {
+      this.zips.set(zip, {
+        zip,
+        latitude: roofs.reduce((sum, r) => sum + r.latitude, 0) / roofs.length,
+        longitude: roofs.reduce((sum, r) => sum + r.longitude, 0) / roofs.length,
+        city: mostCommon(roofs.map(r => r.city?.trim())),
+        state: mostCommon(roofs.map(r => normalizeStateCode(r.state)))
+      });
+    });
+
+    reference.forEach(centroid => this.zips.set(geocodeZip(centroid.zip), centroid));
+  }
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const zip = geocodeZip(query.zip);
+    if (!zip) return null;
+    const centroid = this.zips.get(zip);
+    const matched = { matchedCity: centroid?.city ?? null, matchedState: centroid?.state ?? null };
+
+    const onStreet = this.locateOnStreet(zip, query.address);
+    if (onStreet) {
+      return { ...onStreet, provider: this.name, ...matched };
+    }
+
+    if (centroid) {
+      return {
+        latitude: centroid.latitude,
+        longitude: centroid.longitude,
+        precision: 'zip_centroid',
+        provider: this.name,
+        ...matched
+      };
+    }
+
+    return null;
+  }
+
+  private locateOnStreet(zip: string, address?: string | null) {
+    const { number, street } = splitHouseNumber(address);
+    const points = number === null ? undefined : this.streets.get(`${zip}|${street}`);
+    if (number === null || !points) return null;
+
+    const same = points.find(p => p.number === number);
+    if (same) {
+      return { latitude: same.latitude, longitude: same.longitude, precision: 'rooftop' as const };
+    }
+
+    // Distinct house numbers along the street, one point each
+    const distinct = points.filter((p, i) => i === 0 || p.number !== points[i - 1].number);
+    if (distinct.length < 2) {
+      const only = distinct[0];
+      return Math.abs(only.number - number) <= MAX_EXTRAPOLATION / 2
+        ? { latitude: only.latitude, longitude: only.longitude, precision: 'street' as const }
+        : null;
+    }
+
+    let before = distinct[0];
+    let after = distinct[1];
+    for (let i = 1; i < distinct.length; i++) {
+      before = distinct[i - 1];
+      after = distinct[i];
+      if (distinct[i].number > number) break;
+    }
+
+    const outside = number < distinct[0].number
+      ? distinct[0].number - number
+      : number - distinct[distinct.length - 1].number;
+    if (outside > MAX_EXTRAPOLATION) return null;
+
+    return { ...interpolate(before, after, number), precision: 'street' as const };
+  }
+}
+
+/**
+ * US Census Bureau one-line address geocoder (address-range interpolation). Needs
+ * network access; no key.
+ */
+export class CensusGeocodingProvider implements GeocodingProvider {
+  name = 'census';
+
+  constructor(private fetchImpl: typeof fetch = fetch) {}
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    if (!query.address) return null;
+
+    const oneLine = [query.address, query.city, query.state, geocodeZip(query.zip)].filter(Boolean).join(', ');
+    const url = 'https://geocoding.geo.census.gov/geocoder/locations/onelineaddress' +
+      `?address=${encodeURIComponent(oneLine)}&benchmark=Public_AR_Current&format=json`;
+
+    const response = await this.fetchImpl(url);
+    if (!response.ok) {
+      throw new Error(`Census geocoder returned ${response.status}`);
+    }
+
+    const body = await response.json();
+    const match = body?.result?.addressMatches?.[0];
+    if (!match?.coordinates) return null;
+
+    return {
+      latitude: Number(match.coordinates.y),
+      longitude: Number(match.coordinates.x),
+      precision: 'street',
+      provider: this.name,
+      matchedCity: match.addressComponents?.city ?? null,
+      matchedState: match.addressComponents?.state ?? null
+    };
+  }
+}
+
+/**
+ * The first provider's answer. A provider that fails (network down, rate limited) is
+ * skipped so the next one can answer.
+ */
+export async function geocodeWithProviders(
+  providers: GeocodingProvider[],
+  query: GeocodeQuery
+): Promise<GeocodeResult | null> {
+  for (const provider of providers) {
+    try {
+      const result = await provider.geocode(query);
+      if (result) return result;
+    } catch (error) {
+      console.warn(`Geocoding provider ${provider.name} failed:`, error);
+    }
+  }
+  return null;
+}
+
+/**
+ * Why the result disagrees with the stored city/state, or null when it doesn't
+ */
+export function locationMismatch(query: GeocodeQuery, result: GeocodeResult): string | null {
+  const storedState = normalizeStateCode(query.state);
+  const matchedState = normalizeStateCode(result.matchedState);
+  if (storedState && matchedState && storedState !== matchedState) {
+    return `Geocoded to ${result.matchedCity ? `${result.matchedCity}, ` : ''}${matchedState}; stored state is ${storedState}`;
+  }
+
+  const storedCity = normalizeName(query.city);
+  const matchedCity = normalizeName(result.matchedCity);
+  if (storedCity && matchedCity && !storedCity.includes(matchedCity) && !matchedCity.includes(storedCity)) {
+    return `Geocoded to ${result.matchedCity}${matchedState ? `, ${matchedState}` : ''}; stored city is ${query.city}`;
+  }
+
+  return null;
+}
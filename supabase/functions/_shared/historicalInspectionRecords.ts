@@ -0,0 +1,384 @@
+import type { ExtractedPDFData } from './reportParser.ts';
+
+// Roof columns a historical report can fill in, and where each value comes from
+export const ROOF_FIELD_SOURCES = [
+  { field: 'roof_area', label: 'Roof area', value: (d: ExtractedPDFData) => (d.roofArea > 0 ? d.roofArea : null) },
+  { field: 'roof_system', label: 'Roof system', value: (d: ExtractedPDFData) => d.roofSystem || null },
+  { field: 'roof_system_description', label: 'System description', value: (d: ExtractedPDFData) => d.systemDescription || null },
+  { field: 'manufacturer', label: 'Manufacturer', value: (d: ExtractedPDFData) => d.manufacturer || null },
+  { field: 'installing_contractor', label: 'Installing contractor', value: (d: ExtractedPDFData) => d.installingContractor || null },
+  { field: 'repair_contractor', label: 'Repair contractor', value: (d: ExtractedPDFData) => d.repairingContractor || null },
+  { field: 'drainage_system', label: 'Drainage system', value: (d: ExtractedPDFData) => d.drainageSystem || null },
+  { field: 'flashing_detail', label: 'Flashing detail', value: (d: ExtractedPDFData) => d.flashingDetail || null },
+  { field: 'perimeter_detail', label: 'Perimeter detail', value: (d: ExtractedPDFData) => d.perimeterDetail || null },
+  { field: 'property_manager_name', label: 'Property manager', value: (d: ExtractedPDFData) => d.propertyManager || null },
+  { field: 'property_manager_phone', label: 'PM phone', value: (d: ExtractedPDFData) => d.propertyManagerPhone || null },
+  { field: 'market', label: 'Market', value: (d: ExtractedPDFData) => d.market || null }
+] as const;
+
+export type RoofUpdateField = typeof ROOF_FIELD_SOURCES[number]['field'] | 'last_inspection_date';
+
+export interface RoofFieldChange {
+  field: RoofUpdateField;
+  label: string;
+  current: string | number | null;
+  proposed: string | number;
+  // True when the roof already has a different value that this would replace
+  overwrite: boolean;
+}
+
+/**
+ * Turns a parsed historical report into inspection, report and roof rows. Shared by the
+ * app's HistoricalInspectionService (src/lib/historicalInspectionService.ts) and the
+ * ingest-inspection-archive function, so both store reports the same way.
+ */
+export class HistoricalInspectionRecords {
+  /**
+   * The inspection row for a historical report
+   */
+  static inspectionRecord(roofId: string, extractedData: ExtractedPDFData, fileName: string) {
+    return {
+      roof_id: roofId,
+      inspection_type: this.normalizeInspectionType(extractedData.reportType, extractedData.inspectionTypeClassification),
+      completed_date: this.parseInspectionDate(extractedData.reportDate),
+      status: 'completed',
+      notes: `Historical inspection imported from PDF: ${fileName}\nInspection Company: ${extractedData.inspectionCompany}\nInspection Type: ${extractedData.inspectionTypeClassification.primaryType} (${Math.round(extractedData.inspectionTypeClassification.confidence * 100)}% confidence)`,
+      weather_conditions: null
+    };
+  }
+
+  /**
+   * The report row with findings and recommendations written out from the extraction
+   */
+  static inspectionReportRecord(inspectionId: string, extractedData: ExtractedPDFData, reportUrl: string) {
+    return {
+      inspection_id: inspectionId,
+      findings: this.generateFindings(extractedData),
+      recommendations: this.generateRecommendations(extractedData),
+      estimated_cost: this.totalDeficiencyCost(extractedData),
+      priority_level: this.determinePriorityLevel(extractedData),
+      status: 'completed',
+      report_url: reportUrl
+    };
+  }
+
+  /**
+   * Roof column values for the approved fields
+   */
+  static roofFieldUpdates(
+    extractedData: ExtractedPDFData,
+    inspectionDate: string,
+    approvedFields: RoofUpdateField[]
+  ): Record<string, string | number> {
+    const updateData: Record<string, string | number> = {};
+    
+    for (const source of ROOF_FIELD_SOURCES) {
+      const value = source.value(extractedData);
+      if (value === null || !approvedFields.includes(source.field)) continue;
+      
+      updateData[source.field] = value;
+      if (source.field === 'roof_area') {
+        updateData.roof_area_unit = 'sq ft';
+      }
+    }
+    
+    if (approvedFields.includes('last_inspection_date')) {
+      updateData.last_inspection_date = inspectionDate;
+    }
+    
+    return updateData;
+  }
+
+  /**
+   * Changes a report would make to a roof with these current values
+   */
+  static diffRoofFields(roof: Record<string, string | number | null>, extractedData: ExtractedPDFData): RoofFieldChange[] {
+    const changes: RoofFieldChange[] = [];
+    const isEmpty = (value: unknown) => value === null || value === undefined || value === '' || value === 0;
+
+    for (const source of ROOF_FIELD_SOURCES) {
+      const proposed = source.value(extractedData);
+      const current = roof[source.field] ?? null;
+      if (proposed === null || String(current ?? '').trim() === String(proposed).trim()) continue;
+
+      changes.push({ field: source.field, label: source.label, current, proposed, overwrite: !isEmpty(current) });
+    }
+
+    if (extractedData.reportDate) {
+      const inspectionDate = this.parseInspectionDate(extractedData.reportDate);
+      const current = roof.last_inspection_date ? String(roof.last_inspection_date) : null;
+      if (!current || inspectionDate > current) {
+        changes.push({ field: 'last_inspection_date', label: 'Last inspection date', current, proposed: inspectionDate, overwrite: false });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Parse inspection date from various formats
+   */
+  static parseInspectionDate(dateString: string): string {
+    if (!dateString) return new Date().toISOString().split('T')[0];
+    
+    try {
+      // Try to parse various date formats
+      let date: Date;
+      
+      // Format: "MARCH 14, 2025"
+      if (dateString.match(/[A-Z]+ \d{1,2},? \d{4}/i)) {
+        date = new Date(dateString);
+      }
+      // Format: "03/14/2025" or "3-14-2025"
+      else if (dateString.match(/\d{1,2}[-/]\d{1,2}[-/]\d{4}/)) {
+        date = new Date(dateString);
+      }
+      // Format: "2025-03-14"
+      else if (dateString.match(/\d{4}-\d{1,2}-\d{1,2}/)) {
+        date = new Date(dateString);
+      }
+      else {
+        date = new Date(dateString);
+      }
+      
+      // Validate date
+      if (isNaN(date.getTime())) {
+        console.warn('Invalid date format:', dateString);
+        return new Date().toISOString().split('T')[0];
+      }
+      
+      return date.toISOString().split('T')[0];
+      
+    } catch (error) {
+      console.warn('Error parsing date:', dateString, error);
+      return new Date().toISOString().split('T')[0];
+    }
+  }
+  
+  /**
+   * Normalize inspection type from PDF using classification results
+   */
+  static normalizeInspectionType(
+    reportType: string, 
+    classification?: ExtractedPDFData['inspectionTypeClassification']
+  ): string {
+    // Use classification if available and confident
+    if (classification && classification.confidence > 0.3) {
+      switch (classification.primaryType) {
+        case 'storm':
+          return 'storm_damage';
+        case 'annual':
+          return 'annual';
+        case 'due_diligence':
+          return 'pre_purchase'; // Map to existing database type
+        case 'survey':
+          return 'routine'; // Map survey to routine inspection
+        default:
+          // Fall through to legacy logic
+          break;
+      }
+    }
+    
+    // Legacy fallback logic
+    const type = reportType.toLowerCase();
+    
+    if (type.includes('storm') || type.includes('damage')) return 'storm_damage';
+    if (type.includes('annual')) return 'annual';
+    if (type.includes('quarterly')) return 'quarterly';
+    if (type.includes('monthly')) return 'monthly';
+    if (type.includes('emergency')) return 'emergency';
+    if (type.includes('routine')) return 'routine';
+    
+    return 'annual'; // Default
+  }
+  
+  /**
+   * Determine priority level from extracted data
+   */
+  private static determinePriorityLevel(extractedData: ExtractedPDFData): string {
+    const reportType = extractedData.reportType.toLowerCase();
+    const deficiencies = extractedData.deficiencies || [];
+    
+    if (reportType.includes('storm') || reportType.includes('emergency') || deficiencies.some(d => d.severity === 'high')) {
+      return 'high';
+    }
+    
+    if (reportType.includes('damage') || deficiencies.some(d => d.severity === 'medium')) {
+      return 'medium';
+    }
+    
+    return 'low';
+  }
+  
+  /**
+   * Generate findings text from extracted data
+   */
+  private static generateFindings(extractedData: ExtractedPDFData): string {
+    const findings: string[] = [];
+    
+    findings.push(`INSPECTION DETAILS:`);
+    findings.push(`• Report Type: ${extractedData.reportType}`);
+    if (extractedData.inspectionTypeClassification && extractedData.inspectionTypeClassification.primaryType !== 'unknown') {
+      findings.push(`• Inspection Classification: ${extractedData.inspectionTypeClassification.primaryType} (${Math.round(extractedData.inspectionTypeClassification.confidence * 100)}% confidence)`);
+    }
+    findings.push(`• Report Date: ${extractedData.reportDate}`);
+    findings.push(`• Inspection Company: ${extractedData.inspectionCompany}`);
+    if (extractedData.inspector) {
+      findings.push(`• Inspector: ${extractedData.inspector}`);
+    }
+    findings.push(`• Property: ${extractedData.propertyName}`);
+    
+    if (extractedData.address) {
+      findings.push(`• Address: ${extractedData.address}`);
+    }
+    
+    findings.push('');
+    findings.push(`ROOF SPECIFICATIONS:`);
+    
+    if (extractedData.roofArea > 0) {
+      findings.push(`• Roof Area: ${extractedData.roofArea.toLocaleString()} sq ft`);
+    }
+    
+    if (extractedData.roofSystem) {
+      findings.push(`• Roof System: ${extractedData.roofSystem}`);
+    }
+    
+    if (extractedData.systemDescription) {
+      findings.push(`• System Description: ${extractedData.systemDescription}`);
+    }
+    
+    if (extractedData.manufacturer) {
+      findings.push(`• Manufacturer: ${extractedData.manufacturer}`);
+    }
+    
+    if (extractedData.drainageSystem) {
+      findings.push(`• Drainage System: ${extractedData.drainageSystem}`);
+    }
+    
+    if (extractedData.flashingDetail) {
+      findings.push(`• Flashing Detail: ${extractedData.flashingDetail}`);
+    }
+    
+    if (extractedData.perimeterDetail) {
+      findings.push(`• Perimeter Detail: ${extractedData.perimeterDetail}`);
+    }
+    
+    if (extractedData.warranty) {
+      findings.push(`• Warranty Status: ${extractedData.warranty}`);
+    }
+    
+    if (extractedData.warrantyExpiration) {
+      findings.push(`• Warranty Expiration: ${extractedData.warrantyExpiration}`);
+    }
+    
+    findings.push('');
+    findings.push(`CONTRACTOR INFORMATION:`);
+    
+    if (extractedData.installingContractor) {
+      findings.push(`• Installing Contractor: ${extractedData.installingContractor}`);
+    }
+    
+    if (extractedData.repairingContractor) {
+      findings.push(`• Repairing Contractor: ${extractedData.repairingContractor}`);
+    }
+    
+    if (extractedData.client) {
+      findings.push(`• Client: ${extractedData.client}`);
+    }
+    
+    if (extractedData.propertyManager) {
+      findings.push(`• Property Manager: ${extractedData.propertyManager}`);
+      
+      if (extractedData.propertyManagerPhone) {
+        findings.push(`• PM Phone: ${extractedData.propertyManagerPhone}`);
+      }
+    }
+    
+    if (extractedData.roofSections?.length > 0) {
+      findings.push('');
+      findings.push(`ROOF SECTIONS:`);
+      for (const section of extractedData.roofSections) {
+        const details = [section.area ? `${section.area.toLocaleString()} sq ft` : '', section.system || ''].filter(Boolean);
+        findings.push(`• ${section.name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+      }
+    }
+    
+    if (extractedData.deficiencies?.length > 0) {
+      findings.push('');
+      findings.push(`DEFICIENCIES:`);
+      for (const deficiency of extractedData.deficiencies) {
+        const cost = deficiency.estimatedCost !== undefined ? ` - $${deficiency.estimatedCost.toLocaleString()}` : '';
+        findings.push(`• [${deficiency.severity.toUpperCase()}] ${deficiency.section ? `${deficiency.section}: ` : ''}${deficiency.description}${cost}`);
+      }
+    }
+    
+    if (extractedData.photoCaptions?.length > 0) {
+      findings.push('');
+      findings.push(`PHOTOS:`);
+      for (const photo of extractedData.photoCaptions) {
+        findings.push(`• Photo ${photo.number}: ${photo.caption}`);
+      }
+    }
+    
+    return findings.join('\n');
+  }
+  
+  /**
+   * Sum of the repair costs listed against the report's deficiencies
+   */
+  private static totalDeficiencyCost(extractedData: ExtractedPDFData): number {
+    return (extractedData.deficiencies || []).reduce((total, deficiency) => total + (deficiency.estimatedCost || 0), 0);
+  }
+  
+  /**
+   * Generate recommendations from extracted data
+   */
+  private static generateRecommendations(extractedData: ExtractedPDFData): string {
+    const recommendations: string[] = [];
+    
+    recommendations.push('RECOMMENDATIONS:');
+    recommendations.push('• Review complete PDF report for detailed findings and photos');
+    
+    // Use classification for more accurate recommendations
+    const inspectionType = extractedData.inspectionTypeClassification?.primaryType || 'unknown';
+    
+    if (inspectionType === 'storm' || extractedData.reportType.toLowerCase().includes('storm')) {
+      recommendations.push('• Assess storm damage thoroughly and prioritize critical repairs');
+      recommendations.push('• Document all damage with photos for insurance claims if applicable');
+      recommendations.push('• Consider emergency repairs for any active leaks or safety hazards');
+    }
+    
+    if (inspectionType === 'due_diligence') {
+      recommendations.push('• Review findings carefully for property acquisition decision');
+      recommendations.push('• Obtain cost estimates for all identified repairs');
+      recommendations.push('• Consider warranty implications for upcoming transaction');
+    }
+    
+    if (inspectionType === 'survey') {
+      recommendations.push('• Document current roof condition for baseline comparison');
+      recommendations.push('• Plan maintenance schedule based on survey findings');
+      recommendations.push('• Budget for identified future repair needs');
+    }
+    
+    if (extractedData.installingContractor) {
+      recommendations.push(`• Contact installing contractor for warranty information: ${extractedData.installingContractor}`);
+    }
+    
+    if (extractedData.repairingContractor) {
+      recommendations.push(`• Contact repairing contractor for maintenance: ${extractedData.repairingContractor}`);
+    }
+    
+    if (extractedData.warranty && extractedData.warranty.toLowerCase() !== 'no') {
+      recommendations.push('• Verify warranty coverage for any identified issues');
+    }
+    
+    recommendations.push('• Schedule follow-up inspection as needed based on findings');
+    recommendations.push('• Update maintenance records with inspection findings');
+    
+    if (extractedData.roofArea > 0) {
+      recommendations.push(`• Confirm roof area measurement: ${extractedData.roofArea.toLocaleString()} sq ft`);
+    }
+    
+    return recommendations.join('\n');
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * PostgREST caps every response (1000 rows by default), so a select meant to cover a
+ * whole table silently stops short. Load such tables a page at a time instead.
+ */
+
+const PAGE_SIZE = 1000;
+
+interface PageResult<T> {
+  data: T[] | null;
+  error: { message: string } | null;
+}
+
+/**
+ * `page` runs the select for one range of rows. Give the query a stable order (the
+ * primary key will do) or rows can be skipped or repeated between pages.
+ */
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
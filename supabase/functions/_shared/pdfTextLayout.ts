@@ -0,0 +1,93 @@
+/**
+ * Page layout of extracted PDF text, shared by the app's pdf.js extractor
+ * (src/lib/pdfTextExtractor.ts) and the ingest-inspection-archive function. Pure
+ * functions only, so it runs in both Deno and the browser.
+ */
+
+// Separates pages in extracted text; page N starts after the (N-1)th separator
+export const PAGE_SEPARATOR = '\n\f\n';
+
+// The parts of a pdf.js text item the layout needs
+export interface PositionedText {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+interface Line {
+  y: number;
+  height: number;
+  items: PositionedText[];
+}
+
+// Gaps wider than this many characters are column breaks and keep extra spacing
+const COLUMN_GAP_CHARS = 2.5;
+const MAX_COLUMN_SPACES = 8;
+
+/**
+ * Rebuild a page's visual lines from positioned text runs. pdf.js returns runs in
+ * content-stream order, which often interleaves columns and splits words; grouping by
+ * baseline and sorting by x restores the lines a reader sees, so "Label: value" pairs
+ * stay on one line.
+ */
+export function layoutPageText(items: PositionedText[]): string {
+  const runs = items
+    .filter(item => item.str && item.str.trim() !== '')
+    .map(item => ({ ...item, height: item.height || Math.abs(item.transform[3]) || 10 }))
+    // PDF y grows upwards: top of the page first, then left to right
+    .sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+
+  const lines: Line[] = [];
+  for (const run of runs) {
+    const y = run.transform[5];
+    const line = lines.find(l => Math.abs(l.y - y) <= Math.max(2, Math.min(l.height, run.height) * 0.5));
+    if (line) {
+      line.items.push(run);
+      line.height = Math.max(line.height, run.height);
+    } else {
+      lines.push({ y, height: run.height, items: [run] });
+    }
+  }
+
+  lines.sort((a, b) => b.y - a.y);
+
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    // A tall gap above the line is a paragraph or section break
+    if (index > 0 && lines[index - 1].y - line.y > line.height * 2.2) {
+      output.push('');
+    }
+
+    const sorted = line.items.sort((a, b) => a.transform[4] - b.transform[4]);
+    let text = '';
+    let end = 0;
+    let charWidth = 0;
+
+    sorted.forEach((run, i) => {
+      const x = run.transform[4];
+      if (i > 0) {
+        const gap = x - end;
+        if (charWidth > 0 && gap > charWidth * COLUMN_GAP_CHARS) {
+          text += ' '.repeat(Math.min(MAX_COLUMN_SPACES, Math.max(2, Math.round(gap / charWidth))));
+        } else if (gap > charWidth * 0.2 && !/\s$/.test(text) && !/^\s/.test(run.str)) {
+          text += ' ';
+        }
+      }
+      text += run.str;
+      end = x + run.width;
+      charWidth = run.str.length > 0 ? run.width / run.str.length : charWidth;
+    });
+
+    output.push(text.replace(/\s+$/, ''));
+  });
+
+  return output.join('\n');
+}
+
+/**
+ * Split stored text back into pages
+ */
+export function splitPages(text: string): string[] {
+  return text.split(PAGE_SEPARATOR);
+}
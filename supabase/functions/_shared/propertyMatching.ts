@@ -0,0 +1,365 @@
+/**
+ * Duplicate-property matching shared by the import-roofs function and the app
+ * (src/lib/propertyMatching.ts re-exports it). Pure functions only, so it runs in
+ * both Deno and the browser.
+ *
+ * A pair is scored on three signals: the normalized street address (suite and street
+ * abbreviations, ZIP+4), distance between coordinates when both have them, and fuzzy
+ * similarity of the property names. A shared property code is always a match.
+ */
+
+export interface MatchableProperty {
+  id?: string;
+  property_name?: string | null;
+  property_code?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export type MatchReason = 'property_code' | 'address' | 'geo' | 'name';
+
+export interface PropertyMatchScore {
+  score: number;
+  reasons: MatchReason[];
+  addressScore: number;
+  nameScore: number;
+  distanceMeters: number | null;
+}
+
+export interface PropertyMatchResult<T extends MatchableProperty> {
+  property: T;
+  match: PropertyMatchScore;
+}
+
+export interface DuplicatePair {
+  a: string;
+  b: string;
+  match: PropertyMatchScore;
+}
+
+export interface DuplicateGroup {
+  ids: string[];
+  pairs: DuplicatePair[];
+  score: number;
+}
+
+export const MATCH_THRESHOLDS = {
+  // Treated as the same property (import updates it, data quality reports a duplicate)
+  duplicate: 0.8,
+  // Worth a human look
+  possible: 0.65
+};
+
+// Score ceiling when the addresses name different buildings or suites
+const CONFLICT_CEILING = 0.6;
+
+// Within this distance two roofs are on the same site
+const SAME_SITE_METERS = 75;
+const NEARBY_METERS = 250;
+const GEO_CELL_DEGREES = 0.005;
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', av: 'ave', road: 'rd', drive: 'dr', boulevard: 'blvd',
+  lane: 'ln', court: 'ct', parkway: 'pkwy', pky: 'pkwy', highway: 'hwy', place: 'pl',
+  circle: 'cir', terrace: 'ter', trail: 'trl', square: 'sq', expressway: 'expy',
+  freeway: 'fwy', turnpike: 'tpke', center: 'ctr', centre: 'ctr', point: 'pt',
+  crossing: 'xing', mount: 'mt', fort: 'ft', saint: 'st', suite: 'ste', building: 'bldg',
+  north: 'n', south: 's', east: 'e', west: 'w',
+  northeast: 'ne', northwest: 'nw', southeast: 'se', southwest: 'sw'
+};
+
+const UNIT_DESIGNATORS = new Set(['ste', 'unit', 'apt', 'bldg', 'fl', 'floor', 'rm', 'room', 'dock', 'door']);
+
+const NAME_STOP_WORDS = new Set(['the', 'at', 'of', 'and', 'inc', 'llc', 'lp', 'co', 'corp', 'company']);
+
+const tokens = (value: string) =>
+  String(value)
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/#/g, ' unit ')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+/**
+ * Split an address into its street part and its unit (suite, building, #...),
+ * with street types and directions abbreviated: "100 North Main Street, Suite 200"
+ * becomes { street: "100 n main st", unit: "200" }.
+ */
+export function normalizeAddress(address?: string | null): { street: string; unit: string } {
+  if (!address) return { street: '', unit: '' };
+
+  const words = tokens(address).map(word => STREET_ABBREVIATIONS[word] || word);
+  const unitStart = words.findIndex(word => UNIT_DESIGNATORS.has(word));
+  if (unitStart === -1) return { street: words.join(' '), unit: '' };
+
+  return {
+    street: words.slice(0, unitStart).join(' '),
+    unit: words.slice(unitStart + 1).filter(word => !UNIT_DESIGNATORS.has(word)).join(' ')
+  };
+}
+
+// ZIP+4 and ZIP compare on the first five digits
+export function normalizeZip(zip?: string | null): string {
+  const digits = String(zip ?? '').replace(/\D/g, '');
+  return digits.length >= 5 ? digits.slice(0, 5) : digits;
+}
+
+export function normalizeName(name?: string | null): string {
+  return tokens(name ?? '').filter(word => !NAME_STOP_WORDS.has(word)).join(' ');
+}
+
+export function normalizeCode(code?: string | null): string {
+  return String(code ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical strings, 0 for nothing in common
+export function stringSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return (longest - levenshteinDistance(a, b)) / longest;
+}
+
+/**
+ * Name similarity that tolerates typos and reordered words: the better of edit
+ * distance and word overlap. "Dallas Distribution Ctr 5" and "DC 5 Dallas Distribution"
+ * score high on overlap even though their edit distance is large.
+ */
+export function nameSimilarity(a?: string | null, b?: string | null): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const shared = [...leftWords].filter(word => rightWords.has(word)).length;
+  const overlap = shared / Math.max(leftWords.size, rightWords.size);
+  const score = Math.max(stringSimilarity(left, right), overlap);
+
+  return namesSiblings(a, b) ? Math.min(score, 0.5) : score;
+}
+
+// "Building 4" and "Building 5", or "Dock A" and "Dock B", are siblings rather than typos
+function namesSiblings(a?: string | null, b?: string | null): boolean {
+  const identifiers = (name?: string | null) =>
+    [...new Set(normalizeName(name).split(' '))].filter(word => /^\d+$/.test(word) || word.length === 1).sort().join(' ');
+  const leftIds = identifiers(a);
+  const rightIds = identifiers(b);
+  return !!leftIds && !!rightIds && leftIds !== rightIds;
+}
+
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371000;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
+
+const hasCoordinates = (p: MatchableProperty) =>
+  typeof p.latitude === 'number' && typeof p.longitude === 'number' &&
+  Number.isFinite(p.latitude) && Number.isFinite(p.longitude) && !(p.latitude === 0 && p.longitude === 0);
+
+function addressSimilarity(a: MatchableProperty, b: MatchableProperty): { score: number; conflict: boolean } {
+  const left = normalizeAddress(a.address);
+  const right = normalizeAddress(b.address);
+  if (!left.street || !right.street) return { score: 0, conflict: false };
+
+  let score = left.street === right.street ? 1 : stringSimilarity(left.street, right.street);
+
+  // Different house numbers, or different suites at one number, are separate properties
+  const leftNumber = left.street.match(/^\d+/)?.[0];
+  const rightNumber = right.street.match(/^\d+/)?.[0];
+  const conflict = (!!leftNumber && !!rightNumber && leftNumber !== rightNumber) ||
+    (!!left.unit && !!right.unit && left.unit !== right.unit);
+  if (conflict) score = Math.min(score, 0.5);
+
+  const leftZip = normalizeZip(a.zip);
+  const rightZip = normalizeZip(b.zip);
+  if (leftZip && rightZip) {
+    if (leftZip !== rightZip) score *= 0.5;
+  } else if (a.city && b.city && normalizeName(a.city) !== normalizeName(b.city)) {
+    score *= 0.5;
+  }
+
+  return { score, conflict };
+}
+
+export function scorePropertyMatch(a: MatchableProperty, b: MatchableProperty): PropertyMatchScore {
+  const codeA = normalizeCode(a.property_code);
+  const codeB = normalizeCode(b.property_code);
+  const nameScore = nameSimilarity(a.property_name, b.property_name);
+  const { score: addressScore, conflict } = addressSimilarity(a, b);
+  const distance = hasCoordinates(a) && hasCoordinates(b)
+    ? distanceMeters(a.latitude!, a.longitude!, b.latitude!, b.longitude!)
+    : null;
+
+  if (codeA && codeA === codeB) {
+    return { score: 1, reasons: ['property_code'], addressScore, nameScore, distanceMeters: distance };
+  }
+
+  const geoScore = distance === null ? 0
+    : distance <= SAME_SITE_METERS ? 1
+    : distance <= NEARBY_METERS ? 0.8
+    : 0;
+
+  // Location carries most of the weight; the name confirms it
+  const location = Math.max(addressScore, geoScore);
+  let score = location * 0.6 + nameScore * 0.4;
+
+  // Coordinates far apart rule out a match whatever the text says
+  if (distance !== null && distance > 2000) score = Math.min(score, 0.5);
+  // Neighbouring buildings share a site but not an address or building number
+  if (conflict || namesSiblings(a.property_name, b.property_name)) score = Math.min(score, CONFLICT_CEILING);
+  // Different property codes on both sides mean the owner sees two properties
+  if (codeA && codeB) score = Math.min(score, 0.6);
+
+  const reasons: MatchReason[] = [];
+  if (addressScore >= 0.9) reasons.push('address');
+  if (geoScore >= 0.8) reasons.push('geo');
+  if (nameScore >= 0.8) reasons.push('name');
+
+  return { score: Math.round(score * 1000) / 1000, reasons, addressScore, nameScore, distanceMeters: distance };
+}
+
+// Keys that put plausible duplicates in the same bucket so not every pair is scored
+function blockingKeys(p: MatchableProperty): string[] {
+  const keys: string[] = [];
+  const code = normalizeCode(p.property_code);
+  if (code) keys.push(`code:${code}`);
+
+  const { street } = normalizeAddress(p.address);
+  const [houseNumber, ...rest] = street.split(' ');
+  const zip = normalizeZip(p.zip);
+  if (/^\d+$/.test(houseNumber || '')) keys.push(`num:${houseNumber}:${zip || rest[0] || ''}`);
+
+  const name = normalizeName(p.property_name);
+  if (name) keys.push(`name:${zip}:${name.split(' ').sort((x, y) => y.length - x.length)[0]}`);
+
+  if (hasCoordinates(p)) {
+    const cellLat = Math.floor(p.latitude! / GEO_CELL_DEGREES);
+    const cellLng = Math.floor(p.longitude! / GEO_CELL_DEGREES);
+    // Neighbouring cells too, so two roofs either side of a cell edge still meet
+    for (let dLat = -1; dLat <= 1; dLat++) {
+      for (let dLng = -1; dLng <= 1; dLng++) {
+        keys.push(`geo:${cellLat + dLat}:${cellLng + dLng}`);
+      }
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * An index over a set of properties for repeated lookups (an import checks every
+ * row against every existing roof).
+ */
+export class PropertyMatchIndex<T extends MatchableProperty> {
+  private buckets = new Map<string, T[]>();
+
+  constructor(properties: T[] = []) {
+    properties.forEach(property => this.add(property));
+  }
+
+  add(property: T) {
+    for (const key of blockingKeys(property)) {
+      // Geo keys fan out to neighbouring cells; only the home cell stores the property
+      if (key.startsWith('geo:') && key !== this.homeCell(property)) continue;
+      const bucket = this.buckets.get(key);
+      if (bucket) bucket.push(property);
+      else this.buckets.set(key, [property]);
+    }
+  }
+
+  candidates(property: MatchableProperty): T[] {
+    const seen = new Set<T>();
+    for (const key of blockingKeys(property)) {
+      this.buckets.get(key)?.forEach(candidate => seen.add(candidate));
+    }
+    return [...seen];
+  }
+
+  findBestMatch(property: MatchableProperty, threshold = MATCH_THRESHOLDS.duplicate): PropertyMatchResult<T> | null {
+    let best: PropertyMatchResult<T> | null = null;
+    for (const candidate of this.candidates(property)) {
+      if (property.id && candidate.id === property.id) continue;
+      const match = scorePropertyMatch(property, candidate);
+      if (match.score >= threshold && (!best || match.score > best.match.score)) {
+        best = { property: candidate, match };
+      }
+    }
+    return best;
+  }
+
+  private homeCell(property: MatchableProperty) {
+    return `geo:${Math.floor(property.latitude! / GEO_CELL_DEGREES)}:${Math.floor(property.longitude! / GEO_CELL_DEGREES)}`;
+  }
+}
+
+/**
+ * Group properties that look like the same building. Pairs scoring at or above the
+ * threshold are linked and linked properties form one group.
+ */
+export function findDuplicateGroups<T extends MatchableProperty & { id: string }>(
+  properties: T[],
+  threshold = MATCH_THRESHOLDS.possible
+): DuplicateGroup[] {
+  const index = new PropertyMatchIndex(properties);
+  const parent = new Map(properties.map(p => [p.id, p.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const pairs: DuplicatePair[] = [];
+  for (const property of properties) {
+    for (const candidate of index.candidates(property)) {
+      // Each pair once
+      if (candidate.id <= property.id) continue;
+      const match = scorePropertyMatch(property, candidate);
+      if (match.score < threshold) continue;
+      pairs.push({ a: property.id, b: candidate.id, match });
+      parent.set(find(candidate.id), find(property.id));
+    }
+  }
+
+  const groups = new Map<string, DuplicateGroup>();
+  for (const pair of pairs) {
+    const root = find(pair.a);
+    const group = groups.get(root) || { ids: [], pairs: [], score: 0 };
+    group.pairs.push(pair);
+    group.score = Math.max(group.score, pair.match.score);
+    for (const id of [pair.a, pair.b]) {
+      if (!group.ids.includes(id)) group.ids.push(id);
+    }
+    groups.set(root, group);
+  }
+
+  return [...groups.values()].sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,410 @@
+import {
+  detectReportTemplate,
+  GENERIC_TEMPLATE_ID,
+  type FieldConfidence,
+  type ReportDeficiency,
+  type ReportPhotoCaption,
+  type ReportRoofSection
+} from './reportTemplates.ts';
+
+// Stored with each parse; bump when the parsing rules change so old parses can be redone
+export const PDF_PARSER_VERSION = '3';
+
+// Confidence of generic matches: a "Label: value" line, a bare keyword, the file name,
+// or a default used because nothing was found
+const LABEL_MATCH = 0.7;
+const KEYWORD_MATCH = 0.4;
+const FILENAME_MATCH = 0.3;
+const DEFAULT_VALUE = 0.1;
+
+type ParsedFields = Omit<ExtractedPDFData, 'inspectionTypeClassification' | 'template' | 'fieldConfidence' | 'extractedText' | 'pageCount'>;
+
+export interface ExtractedPDFData {
+  // Property Information
+  propertyName: string;
+  address: string;
+  client: string;
+  propertyManager: string;
+  propertyManagerPhone: string;
+  market: string;
+  
+  // Report Information
+  reportType: string;
+  reportDate: string;
+  inspectionCompany: string;
+  inspector: string;
+  
+  // Advanced Inspection Classification
+  inspectionTypeClassification: {
+    primaryType: 'annual' | 'storm' | 'due_diligence' | 'survey' | 'unknown';
+    confidence: number;
+    indicators: string[];
+  };
+  
+  // Roof Specifications
+  roofArea: number;
+  roofSystem: string;
+  systemDescription: string;
+  estimatedLTTRValue: string;
+  perimeterDetail: string;
+  flashingDetail: string;
+  drainageSystem: string;
+  manufacturer: string;
+  warranty: string;
+  warrantyExpiration: string;
+  installingContractor: string;
+  repairingContractor: string;
+  
+  // Report structure; the generic parser only finds photo captions
+  roofSections: ReportRoofSection[];
+  deficiencies: ReportDeficiency[];
+  photoCaptions: ReportPhotoCaption[];
+  
+  // The report template that parsed the text, and 0-1 confidence per extracted field
+  template: { id: string; name: string; score: number };
+  fieldConfidence: FieldConfidence;
+  
+  // Additional Data
+  extractedText: string;
+  pageCount: number;
+}
+
+/**
+ * Reads inspection reports from their extracted text. Shared by the app's RealPDFParser
+ * (src/lib/realPdfParser.ts), which adds pdf.js extraction, and the
+ * ingest-inspection-archive function; pure, so it runs in both Deno and the browser.
+ */
+export class ReportTextParser {
+  /**
+   * Parse text already extracted from a report, e.g. stored text being re-parsed. A
+   * report in a known vendor format is read by its template; the generic parser fills in
+   * whatever the template doesn't cover.
+   */
+  static parseText(text: string, fileName: string, pageCount: number): ExtractedPDFData {
+    const generic = this.parseStructuredData(text, fileName);
+    const fields: ParsedFields = { ...generic.fields };
+    const fieldConfidence: FieldConfidence = { ...generic.confidence };
+
+    const match = detectReportTemplate(text);
+    const extraction = match?.template.extract(text);
+    if (extraction) {
+      const { inspectionType: _inspectionType, ...templateFields } = extraction.fields;
+      Object.assign(fields, templateFields);
+      Object.assign(fieldConfidence, extraction.confidence);
+    }
+
+    const inspectionTypeClassification: ExtractedPDFData['inspectionTypeClassification'] =
+      match && extraction?.fields.inspectionType
+        ? {
+            primaryType: extraction.fields.inspectionType,
+            confidence: extraction.confidence.inspectionType ?? 0,
+            indicators: [`${match.template.name} titled "${fields.reportType}"`]
+          }
+        : this.classifyInspectionType(text, fields.reportType);
+
+    if (inspectionTypeClassification.primaryType !== 'unknown') {
+      fieldConfidence.inspectionType = inspectionTypeClassification.confidence;
+    }
+
+    return {
+      ...fields,
+      inspectionTypeClassification,
+      template: match
+        ? { id: match.template.id, name: match.template.name, score: match.score }
+        : { id: GENERIC_TEMPLATE_ID, name: 'Generic parser', score: 0 },
+      fieldConfidence,
+      extractedText: text,
+      pageCount
+    };
+  }
+
+  /**
+   * First pattern that matches, with that pattern's confidence. A capture group is the
+   * value when the pattern has one.
+   */
+  private static firstMatch(text: string, patterns: Array<[RegExp, number]>): { value: string; confidence: number } {
+    for (const [pattern, confidence] of patterns) {
+      const match = text.match(pattern);
+      const value = match ? (match[1] ?? match[0]).trim() : '';
+      if (value) {
+        return { value, confidence };
+      }
+    }
+    return { value: '', confidence: 0 };
+  }
+  
+  /**
+   * Parse structured data from extracted PDF text with generic patterns
+   */
+  private static parseStructuredData(text: string, filename: string): { fields: ParsedFields; confidence: FieldConfidence } {
+    const confidence: FieldConfidence = {};
+    
+    const find = (field: keyof FieldConfidence, patterns: Array<[RegExp, number]>, fallback = '', fallbackConfidence = DEFAULT_VALUE) => {
+      const result = this.firstMatch(text, patterns);
+      if (result.value) {
+        confidence[field] = result.confidence;
+        return result.value;
+      }
+      if (fallback) {
+        confidence[field] = fallbackConfidence;
+      }
+      return fallback;
+    };
+    
+    // Property Name - a labelled name, or patterns like "Dallas Corporate Center 2"
+    const propertyName = find('propertyName', [
+      [/Property:\s*([^\n]+)/i, LABEL_MATCH],
+      [/Building:\s*([^\n]+)/i, LABEL_MATCH],
+      [/(?:Dallas Corporate Center|DFW Corporate Center|Commerce Center|Distribution Center|Logistics Center|Corporate Center|Data Center)[ \t\d]*/i, KEYWORD_MATCH]
+    ], this.extractPropertyFromFilename(filename), FILENAME_MATCH);
+    
+    // Address - look for street addresses
+    const address = find('address', [
+      [/\d+\s+[A-Za-z\s]+(?:Drive|Dr|Street|St|Avenue|Ave|Boulevard|Blvd|Road|Rd|Lane|Ln|Center|Ctr|Circle|Cir|Plaza|Way)\s*,?\s*[A-Za-z\s]+,?\s*[A-Z]{2}\s+\d{5}/i, LABEL_MATCH]
+    ]);
+    
+    // Client - look for client patterns
+    const client = find('client', [
+      [/Client\s*:\s*([^\n]+)/i, LABEL_MATCH],
+      [/Property Owner\s*:?\s*([^\n]+)/i, LABEL_MATCH],
+      [/(Prologis|CBRE|Cushman|JLL|Colliers)/i, KEYWORD_MATCH]
+    ]);
+    
+    // Property Manager
+    const propertyManager = find('propertyManager', [
+      [/Property Manager\s*:?\s*([^\n]+)/i, LABEL_MATCH],
+      [/\bPM\s*:\s*([^\n]+)/i, LABEL_MATCH]
+    ]);
+    
+    // Property Manager Phone
+    const propertyManagerPhone = find('propertyManagerPhone', [
+      [/(?:Phone|Office|Tel)\s*:?\s*(\d{3}[-.]?\d{3}[-.]?\d{4})/i, LABEL_MATCH]
+    ]);
+    
+    // Market
+    const market = find('market', [
+      [/Market\s*:\s*([^\n]+)/i, LABEL_MATCH],
+      [/(Dallas|Houston|Austin|San Antonio|Fort Worth|Atlanta|Phoenix|Denver|Chicago|New York)/i, KEYWORD_MATCH]
+    ]);
+    
+    // Report Type
+    const reportType = find('reportType', [
+      [/(?:STORM DAMAGE|ANNUAL|QUARTERLY|MONTHLY|EMERGENCY|ROUTINE)\s+(?:DAMAGE\s+)?INSPECTION\s+REPORT/i, LABEL_MATCH],
+      [/Report Type\s*:?\s*([^\n]+)/i, LABEL_MATCH]
+    ], 'INSPECTION REPORT');
+    
+    // Report Date
+    const reportDate = find('reportDate', [
+      [/(?:Inspection Date|Date of Inspection)\s*:\s*([^\n]+)/i, LABEL_MATCH],
+      [/(?:JANUARY|FEBRUARY|MARCH|APRIL|MAY|JUNE|JULY|AUGUST|SEPTEMBER|OCTOBER|NOVEMBER|DECEMBER)\s+\d{1,2},?\s+\d{4}/i, KEYWORD_MATCH],
+      [/\d{1,2}[-/]\d{1,2}[-/]\d{4}/i, KEYWORD_MATCH],
+      [/Date\s*:?\s*([^\n]+)/i, KEYWORD_MATCH]
+    ]);
+    
+    // Inspection Company
+    const inspectionCompany = find('inspectionCompany', [
+      [/(?:Inspection Company|Consultant)\s*:\s*([^\n]+)/i, LABEL_MATCH],
+      [/ROOF CONTROLLER|RoofController|Roof Controller/i, KEYWORD_MATCH]
+    ], 'ROOF CONTROLLER');
+    
+    // Inspector
+    const inspector = find('inspector', [
+      [/(?:Inspector|Inspected by)\s*:\s*([^\n,]+)/i, LABEL_MATCH]
+    ]);
+    
+    // Roof Area - look for square footage
+    const roofAreaStr = find('roofArea', [
+      [/Roof Area\s*:?\s*(\d+(?:,\d+)*)/i, LABEL_MATCH],
+      [/(\d{1,3}(?:,\d{3})*)\s*(?:sq\s*)?ft[²2]?/i, KEYWORD_MATCH]
+    ]);
+    const roofArea = parseInt(roofAreaStr.replace(/,/g, '')) || 0;
+    if (!roofArea) delete confidence.roofArea;
+    
+    // Roof System
+    const roofSystem = find('roofSystem', [
+      [/Roof System\s*:?\s*([^\n]+)/i, LABEL_MATCH],
+      [/(BUR|TPO|EPDM|Modified Bitumen|PVC|Metal|Shingle|Tile)/i, KEYWORD_MATCH]
+    ]);
+    
+    // System Description
+    const systemDescription = find('systemDescription', [
+      [/System Description\s*:?\s*([^\n]+)/i, LABEL_MATCH],
+      [/(\d+-Ply\s+[^\n]+)/i, KEYWORD_MATCH]
+    ]);
+    
+    // Labelled specification lines
+    const labelled = (field: keyof FieldConfidence, pattern: RegExp) => find(field, [[pattern, LABEL_MATCH]]);
+    const estimatedLTTRValue = labelled('estimatedLTTRValue', /(?:Estimated\s+)?LTTR[^:\n]*:?\s*([^\n]+)/i);
+    const perimeterDetail = labelled('perimeterDetail', /Perimeter Detail\s*:?\s*([^\n]+)/i);
+    const flashingDetail = labelled('flashingDetail', /Flashing Detail\s*:?\s*([^\n]+)/i);
+    const drainageSystem = labelled('drainageSystem', /Drainage System\s*:?\s*([^\n]+)/i);
+    const manufacturer = find('manufacturer', [
+      [/Manufacturer\s*:?\s*([^\n]+)/i, LABEL_MATCH],
+      [/(Johns Manville|GAF|Firestone|Carlisle|Sika|Tremco)/i, KEYWORD_MATCH]
+    ]);
+    const warranty = labelled('warranty', /Warranty\s*:\s*([^\n]+)/i);
+    const warrantyExpiration = labelled('warrantyExpiration', /(?:Warranty\s+)?Expiration\s*:?\s*([^\n]+)/i);
+    const installingContractor = labelled('installingContractor', /Installing Contractor\s*:?\s*([^\n]+)/i);
+    const repairingContractor = labelled('repairingContractor', /Repairing Contractor\s*:?\s*([^\n]+)/i);
+    
+    // Photo captions like "Photo 3: Ponding at drain"
+    const photoCaptions = Array.from(text.matchAll(/^\s*Photo(?:graph)?\s*#?\s*(\d+)\s*[:.\-–]\s*(.+)$/gim))
+      .map(match => ({ number: parseInt(match[1], 10), caption: match[2].trim() }));
+    if (photoCaptions.length > 0) confidence.photoCaptions = KEYWORD_MATCH;
+    
+    return {
+      fields: {
+        propertyName,
+        address,
+        client,
+        propertyManager,
+        propertyManagerPhone,
+        market,
+        reportType,
+        reportDate,
+        inspectionCompany,
+        inspector,
+        roofArea,
+        roofSystem,
+        systemDescription,
+        estimatedLTTRValue,
+        perimeterDetail,
+        flashingDetail,
+        drainageSystem,
+        manufacturer,
+        warranty,
+        warrantyExpiration,
+        installingContractor,
+        repairingContractor,
+        roofSections: [],
+        deficiencies: [],
+        photoCaptions
+      },
+      confidence
+    };
+  }
+  
+  /**
+   * Extract property name from filename as fallback
+   */
+  private static extractPropertyFromFilename(filename: string): string {
+    // Remove file extension
+    let cleanName = filename.replace(/\.[^/.]+$/, '');
+    
+    // Remove common report suffixes
+    cleanName = cleanName.replace(/_?(STORM_DAMAGE|ANNUAL|QUARTERLY|MONTHLY)_Report.*$/i, '');
+    cleanName = cleanName.replace(/_?\d{4}-\d{2}-\d{2}_\d{4}$/i, '');
+    
+    // Replace underscores with spaces
+    cleanName = cleanName.replace(/_/g, ' ');
+    
+    // Clean up multiple spaces
+    cleanName = cleanName.replace(/\s+/g, ' ').trim();
+    
+    return cleanName;
+  }
+  
+  /**
+   * Classify inspection type based on content analysis
+   */
+  private static classifyInspectionType(text: string, reportType: string): ExtractedPDFData['inspectionTypeClassification'] {
+    const lowerText = text.toLowerCase();
+    const lowerReportType = reportType.toLowerCase();
+    const indicators: string[] = [];
+    
+    // Define patterns for each inspection type
+    const typePatterns = {
+      storm: {
+        keywords: ['storm', 'hurricane', 'hail', 'wind damage', 'storm damage', 'weather event', 'catastrophic', 'emergency'],
+        weight: 3
+      },
+      annual: {
+        keywords: ['annual', 'yearly', 'routine', 'scheduled', 'preventive', 'maintenance', 'regular'],
+        weight: 2
+      },
+      due_diligence: {
+        keywords: ['due diligence', 'acquisition', 'purchase', 'transaction', 'assessment', 'property condition', 'pca', 'buyer'],
+        weight: 3
+      },
+      survey: {
+        keywords: ['survey', 'condition survey', 'roof survey', 'assessment survey', 'comprehensive survey', 'detailed survey'],
+        weight: 2
+      }
+    };
+    
+    // Score each type
+    const scores: Record<string, number> = {
+      storm: 0,
+      annual: 0,
+      due_diligence: 0,
+      survey: 0
+    };
+    
+    // Check patterns in both report type and full text
+    for (const [type, pattern] of Object.entries(typePatterns)) {
+      for (const keyword of pattern.keywords) {
+        // Check in report type (higher weight)
+        if (lowerReportType.includes(keyword)) {
+          scores[type] += pattern.weight * 2;
+          indicators.push(`Report type contains "${keyword}"`);
+        }
+        // Check in full text
+        if (lowerText.includes(keyword)) {
+          scores[type] += pattern.weight;
+          const count = (lowerText.match(new RegExp(keyword, 'g')) || []).length;
+          if (count > 1) {
+            scores[type] += pattern.weight * (count - 1) * 0.5;
+            indicators.push(`Found "${keyword}" ${count} times in document`);
+          }
+        }
+      }
+    }
+    
+    // Additional context-based scoring
+    if (lowerText.includes('damage assessment') || lowerText.includes('storm event')) {
+      scores.storm += 5;
+      indicators.push('Contains damage assessment or storm event references');
+    }
+    
+    if (lowerText.match(/\d{4}\s*annual\s*inspection/i)) {
+      scores.annual += 5;
+      indicators.push('Contains year + annual inspection pattern');
+    }
+    
+    if (lowerText.includes('property acquisition') || lowerText.includes('real estate transaction')) {
+      scores.due_diligence += 5;
+      indicators.push('Contains acquisition or transaction references');
+    }
+    
+    if (lowerText.includes('roof condition survey') || lowerText.includes('comprehensive roof survey')) {
+      scores.survey += 5;
+      indicators.push('Contains roof survey terminology');
+    }
+    
+    // Find the type with highest score
+    let bestType: ExtractedPDFData['inspectionTypeClassification']['primaryType'] = 'unknown';
+    let bestScore = 0;
+    
+    for (const [type, score] of Object.entries(scores)) {
+      if (score > bestScore) {
+        bestScore = score;
+        bestType = type as ExtractedPDFData['inspectionTypeClassification']['primaryType'];
+      }
+    }
+    
+    // Calculate confidence (0-1 scale)
+    const maxPossibleScore = 30; // Approximate maximum score
+    const confidence = Math.min(1, bestScore / maxPossibleScore);
+    
+    // If confidence is too low, mark as unknown
+    if (confidence < 0.2 || bestScore === 0) {
+      bestType = 'unknown';
+    }
+    
+    return {
+      primaryType: bestType,
+      confidence: bestScore > 0 ? confidence : 0,
+      indicators: indicators.slice(0, 5) // Keep top 5 indicators
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,314 @@
+import { nameSimilarity, normalizeAddress, normalizeName } from './propertyMatching.ts';
+
+export interface PropertyMatch {
+  id: string;
+  property_name: string;
+  address: string;
+  city: string;
+  state: string;
+  confidence: number;
+  // folder: matched on the archive folder a bulk-ingested report was filed under
+  matchType: 'exact' | 'fuzzy' | 'address' | 'partial' | 'manual' | 'folder';
+}
+
+// The roof columns matching needs
+export interface MatchableRoof {
+  id: string;
+  property_name: string;
+  address: string;
+  city: string;
+  state: string;
+}
+
+/**
+ * Matches a report's property name and address to a roof. Shared by the app's
+ * PropertyMatcher (src/lib/propertyMatcher.ts), which loads the roofs, and the
+ * ingest-inspection-archive function.
+ */
+export class ReportPropertyMatcher {
+  /**
+   * Best match among the given roofs, trying strategies from most to least certain
+   */
+  static matchProperty(
+    extractedPropertyName: string,
+    extractedAddress: string,
+    properties: MatchableRoof[]
+  ): PropertyMatch | null {
+    // Try different matching strategies in order of confidence
+    let bestMatch: PropertyMatch | null = null;
+    
+    // 1. Exact name match (highest confidence)
+    bestMatch = this.findExactMatch(extractedPropertyName, properties);
+    if (bestMatch) {
+      console.log('Found exact match:', bestMatch.property_name);
+      return bestMatch;
+    }
+    
+    // 2. Address match (if address provided)
+    if (extractedAddress) {
+      bestMatch = this.findAddressMatch(extractedAddress, properties);
+      if (bestMatch) {
+        console.log('Found address match:', bestMatch.property_name);
+        return bestMatch;
+      }
+    }
+    
+    // 3. Fuzzy name match (medium confidence)
+    bestMatch = this.findFuzzyMatch(extractedPropertyName, properties);
+    if (bestMatch) {
+      console.log('Found fuzzy match:', bestMatch.property_name, 'confidence:', bestMatch.confidence);
+      return bestMatch;
+    }
+    
+    // 4. Partial name match (lower confidence)
+    bestMatch = this.findPartialMatch(extractedPropertyName, properties);
+    if (bestMatch) {
+      console.log('Found partial match:', bestMatch.property_name, 'confidence:', bestMatch.confidence);
+      return bestMatch;
+    }
+    
+    // 5. Keyword-based matching (very low confidence but catches more cases)
+    bestMatch = this.findKeywordMatch(extractedPropertyName, properties);
+    if (bestMatch) {
+      console.log('Found keyword match:', bestMatch.property_name, 'confidence:', bestMatch.confidence);
+      return bestMatch;
+    }
+    
+    console.log('No matches found for property:', extractedPropertyName);
+    return null;
+  }
+  
+  /**
+   * Find exact property name match
+   */
+  private static findExactMatch(
+    extractedName: string, 
+    properties: MatchableRoof[]
+  ): PropertyMatch | null {
+    const normalizedExtracted = normalizeName(extractedName);
+    if (!normalizedExtracted) return null;
+    
+    for (const property of properties) {
+      if (normalizedExtracted === normalizeName(property.property_name)) {
+        return {
+          id: property.id,
+          property_name: property.property_name,
+          address: property.address,
+          city: property.city,
+          state: property.state,
+          confidence: 1.0,
+          matchType: 'exact'
+        };
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Find address-based match
+   */
+  private static findAddressMatch(
+    extractedAddress: string,
+    properties: MatchableRoof[]
+  ): PropertyMatch | null {
+    const normalizedExtracted = normalizeAddress(extractedAddress).street;
+    if (!normalizedExtracted) return null;
+    
+    for (const property of properties) {
+      const normalizedAddress = normalizeAddress(property.address).street;
+      if (!normalizedAddress) continue;
+      
+      // Check if addresses match or if property address is contained in extracted address
+      if (normalizedExtracted.includes(normalizedAddress) || 
+          normalizedAddress.includes(normalizedExtracted)) {
+        return {
+          id: property.id,
+          property_name: property.property_name,
+          address: property.address,
+          city: property.city,
+          state: property.state,
+          confidence: 0.9,
+          matchType: 'address'
+        };
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Find fuzzy property name match using similarity scoring
+   */
+  private static findFuzzyMatch(
+    extractedName: string,
+    properties: MatchableRoof[],
+    minConfidence: number = 0.5  // Lowered from 0.7 to 0.5 for better matches
+  ): PropertyMatch | null {
+    let bestMatch: PropertyMatch | null = null;
+    let bestScore = 0;
+    
+    for (const property of properties) {
+      const similarity = nameSimilarity(extractedName, property.property_name);
+      
+      if (similarity > bestScore && similarity >= minConfidence) {
+        bestScore = similarity;
+        bestMatch = {
+          id: property.id,
+          property_name: property.property_name,
+          address: property.address,
+          city: property.city,
+          state: property.state,
+          confidence: similarity,
+          matchType: 'fuzzy'
+        };
+      }
+    }
+    
+    return bestMatch;
+  }
+  
+  /**
+   * Find partial match (property name contains extracted name or vice versa)
+   */
+  private static findPartialMatch(
+    extractedName: string,
+    properties: MatchableRoof[],
+    minConfidence: number = 0.4  // Lowered from 0.6 to 0.4 for better matches
+  ): PropertyMatch | null {
+    const normalizedExtracted = this.normalizeString(extractedName);
+    const extractedWords = normalizedExtracted.split(' ').filter(word => word.length > 2);
+    
+    let bestMatch: PropertyMatch | null = null;
+    let bestScore = 0;
+    
+    for (const property of properties) {
+      const normalizedProperty = this.normalizeString(property.property_name);
+      const propertyWords = normalizedProperty.split(' ').filter(word => word.length > 2);
+      
+      // Count matching words
+      let matchingWords = 0;
+      for (const extractedWord of extractedWords) {
+        for (const propertyWord of propertyWords) {
+          if (extractedWord === propertyWord || 
+              extractedWord.includes(propertyWord) || 
+              propertyWord.includes(extractedWord)) {
+            matchingWords++;
+            break;
+          }
+        }
+      }
+      
+      // Calculate confidence based on word overlap
+      const confidence = matchingWords / Math.max(extractedWords.length, propertyWords.length);
+      
+      if (confidence > bestScore && confidence >= minConfidence) {
+        bestScore = confidence;
+        bestMatch = {
+          id: property.id,
+          property_name: property.property_name,
+          address: property.address,
+          city: property.city,
+          state: property.state,
+          confidence,
+          matchType: 'partial'
+        };
+      }
+    }
+    
+    return bestMatch;
+  }
+  
+  /**
+   * Normalize string for comparison
+   */
+  private static normalizeString(str: string): string {
+    return str
+      .toLowerCase()
+      .replace(/[^\w\s]/g, '') // Remove punctuation
+      .replace(/\s+/g, ' ')    // Normalize spaces
+      .trim();
+  }
+  
+  /**
+   * Find keyword-based match (lowest confidence, catches edge cases)
+   */
+  private static findKeywordMatch(
+    extractedName: string,
+    properties: MatchableRoof[],
+    minConfidence: number = 0.3
+  ): PropertyMatch | null {
+    const normalizedExtracted = this.normalizeString(extractedName);
+    const extractedKeywords = normalizedExtracted
+      .split(' ')
+      .filter(word => word.length > 3) // Only meaningful words
+      .slice(0, 3); // Take first 3 keywords
+    
+    if (extractedKeywords.length === 0) return null;
+    
+    let bestMatch: PropertyMatch | null = null;
+    let bestScore = 0;
+    
+    for (const property of properties) {
+      const normalizedProperty = this.normalizeString(property.property_name);
+      
+      // Count how many keywords are found in property name
+      let keywordMatches = 0;
+      for (const keyword of extractedKeywords) {
+        if (normalizedProperty.includes(keyword)) {
+          keywordMatches++;
+        }
+      }
+      
+      const confidence = keywordMatches / extractedKeywords.length;
+      
+      if (confidence > bestScore && confidence >= minConfidence) {
+        bestScore = confidence;
+        bestMatch = {
+          id: property.id,
+          property_name: property.property_name,
+          address: property.address,
+          city: property.city,
+          state: property.state,
+          confidence,
+          matchType: 'partial'
+        };
+      }
+    }
+    
+    return bestMatch;
+  }
+  
+  /**
+   * Roofs whose names resemble the extracted one, closest first, for manual selection
+   */
+  static rankProperties(
+    extractedPropertyName: string,
+    properties: MatchableRoof[],
+    limit: number = 5
+  ): PropertyMatch[] {
+    const matches: PropertyMatch[] = [];
+    
+    // Score all properties
+    for (const property of properties) {
+      const similarity = nameSimilarity(extractedPropertyName, property.property_name);
+      
+      if (similarity > 0.3) { // Lower threshold for potential matches
+        matches.push({
+          id: property.id,
+          property_name: property.property_name,
+          address: property.address,
+          city: property.city,
+          state: property.state,
+          confidence: similarity,
+          matchType: similarity > 0.8 ? 'fuzzy' : 'partial'
+        });
+      }
+    }
+    
+    // Sort by confidence and return top matches
+    return matches
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,374 @@
+import type { ExtractedPDFData } from './reportParser.ts';
+
+export type InspectionTypeCode = ExtractedPDFData['inspectionTypeClassification']['primaryType'];
+export type DeficiencySeverity = 'high' | 'medium' | 'low';
+
+export interface ReportRoofSection {
+  name: string;
+  area?: number;
+  system?: string;
+}
+
+export interface ReportDeficiency {
+  section?: string;
+  description: string;
+  severity: DeficiencySeverity;
+  estimatedCost?: number;
+}
+
+export interface ReportPhotoCaption {
+  number: number;
+  caption: string;
+  section?: string;
+}
+
+// Extracted fields whose confidence is tracked, in display order
+export const EXTRACTION_FIELD_LABELS = {
+  propertyName: 'Property',
+  address: 'Address',
+  client: 'Client',
+  reportType: 'Report type',
+  inspectionType: 'Inspection type',
+  reportDate: 'Inspection date',
+  inspectionCompany: 'Inspection company',
+  inspector: 'Inspector',
+  roofArea: 'Roof area',
+  roofSystem: 'Roof system',
+  systemDescription: 'System description',
+  roofSections: 'Roof sections',
+  deficiencies: 'Deficiencies',
+  photoCaptions: 'Photo captions',
+  propertyManager: 'Property manager',
+  propertyManagerPhone: 'PM phone',
+  market: 'Market',
+  estimatedLTTRValue: 'LTTR value',
+  perimeterDetail: 'Perimeter detail',
+  flashingDetail: 'Flashing detail',
+  drainageSystem: 'Drainage system',
+  manufacturer: 'Manufacturer',
+  warranty: 'Warranty',
+  warrantyExpiration: 'Warranty expiration',
+  installingContractor: 'Installing contractor',
+  repairingContractor: 'Repairing contractor'
+} as const;
+
+export type ExtractionField = keyof typeof EXTRACTION_FIELD_LABELS;
+
+// 0-1 per field; a field that wasn't found has no entry
+export type FieldConfidence = Partial<Record<ExtractionField, number>>;
+
+export type TemplateFields = Partial<Pick<ExtractedPDFData, Exclude<ExtractionField, 'inspectionType'>>> & {
+  inspectionType?: InspectionTypeCode;
+};
+
+export interface TemplateExtraction {
+  fields: TemplateFields;
+  confidence: FieldConfidence;
+}
+
+export interface ReportTemplate {
+  id: string;
+  vendor: string;
+  name: string;
+  // Header text, vendor names and section titles that identify the format. Logos are
+  // images and never reach the text layer, so the printed vendor name stands in for them.
+  signatures: Array<{ pattern: RegExp; weight: number }>;
+  // Share of the total signature weight a report has to match to use this template
+  minScore: number;
+  extract: (text: string) => TemplateExtraction;
+}
+
+export interface TemplateMatch {
+  template: ReportTemplate;
+  score: number;
+  matched: string[];
+}
+
+export const GENERIC_TEMPLATE_ID = 'generic';
+
+// Fields below this confidence should be checked by a person before they're relied on
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+// Confidence of a value read from its labelled place in a recognised layout
+const LABELLED = 0.95;
+// Confidence of a value derived from a recognised layout, e.g. summed or inferred
+const DERIVED = 0.75;
+
+/**
+ * Value after "Label:" at the start of a line or column, stopping at the next column gap
+ */
+export function labelledValue(text: string, label: string): string {
+  const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  const match = text.match(new RegExp(`(?:^[ \\t]*|[ \\t]{2,})${escaped}[ \\t]*:[ \\t]*(.+?)(?:[ \\t]{2,}.*)?$`, 'im'));
+  return match ? match[1].trim() : '';
+}
+
+/**
+ * Lines between a heading line and the first of the following headings
+ */
+function sectionLines(text: string, heading: RegExp, nextHeadings: RegExp[]): string[] {
+  const lines = text.split('\n');
+  const start = lines.findIndex(line => heading.test(line.trim()));
+  if (start === -1) return [];
+
+  const body: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (nextHeadings.some(next => next.test(line.trim()))) break;
+    if (line.trim() !== '\f') body.push(line);
+  }
+  return body;
+}
+
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value.replace(/[$,]/g, ''));
+  return isNaN(amount) ? undefined : amount;
+};
+
+const parseArea = (value: string) => parseInt(value.replace(/,/g, ''), 10) || 0;
+
+const ROOF_SYSTEM_PATTERN = /\b(TPO|EPDM|PVC|Modified Bitumen|BUR|Built-Up|Metal|Spray Foam|Shingle)\b/i;
+
+function severityFrom(priority: string): DeficiencySeverity {
+  const value = priority.toLowerCase();
+  if (/high|immediate|urgent|critical/.test(value)) return 'high';
+  if (/medium|moderate|near/.test(value)) return 'medium';
+  return 'low';
+}
+
+function collector() {
+  const fields: TemplateFields = {};
+  const confidence: FieldConfidence = {};
+
+  const set = <K extends ExtractionField>(field: K, value: TemplateFields[K] | undefined, score: number) => {
+    if (value === undefined || value === '' || value === 0 || (Array.isArray(value) && value.length === 0)) return;
+    fields[field] = value;
+    confidence[field] = score;
+  };
+
+  return { fields, confidence, set };
+}
+
+/**
+ * Deficiency rows, joining wrapped description lines onto the row above
+ */
+function parseDeficiencyRows(
+  lines: string[],
+  row: RegExp,
+  toDeficiency: (match: RegExpMatchArray) => ReportDeficiency
+): ReportDeficiency[] {
+  const deficiencies: ReportDeficiency[] = [];
+  let headerPassed = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const match = trimmed.match(row);
+    if (match) {
+      deficiencies.push(toDeficiency(match));
+      headerPassed = true;
+    } else if (headerPassed && !/^\S+\s*:/.test(trimmed) && deficiencies.length > 0) {
+      const last = deficiencies[deficiencies.length - 1];
+      last.description = `${last.description} ${trimmed}`;
+    }
+  }
+
+  return deficiencies;
+}
+
+const ROOF_CONTROLLER_TYPES: Array<[RegExp, InspectionTypeCode]> = [
+  [/storm/i, 'storm'],
+  [/annual/i, 'annual'],
+  [/due diligence/i, 'due_diligence'],
+  [/survey/i, 'survey']
+];
+
+const roofControllerTemplate: ReportTemplate = {
+  id: 'roof_controller',
+  vendor: 'Roof Controller',
+  name: 'Roof Controller inspection report',
+  signatures: [
+    { pattern: /\bROOF\s*CONTROLLER\b/i, weight: 3 },
+    { pattern: /^\s*ROOF SPECIFICATIONS\s*$/m, weight: 1 },
+    { pattern: /^\s*DEFICIENCIES\s*$/m, weight: 1 },
+    { pattern: /^\s*PHOTO LOG\s*$/m, weight: 1 },
+    { pattern: /Estimated LTTR Value/i, weight: 1 }
+  ],
+  minScore: 0.5,
+  extract(text) {
+    const { fields, confidence, set } = collector();
+
+    const title = text.match(/^\s*((?:STORM DAMAGE|ANNUAL|QUARTERLY|DUE DILIGENCE|ROOF CONDITION SURVEY)\s+(?:INSPECTION\s+)?REPORT)\s*$/im);
+    if (title) {
+      set('reportType', title[1].trim(), LABELLED);
+      set('inspectionType', ROOF_CONTROLLER_TYPES.find(([pattern]) => pattern.test(title[1]))?.[1], LABELLED);
+    }
+
+    set('inspectionCompany', 'Roof Controller', LABELLED);
+    set('propertyName', labelledValue(text, 'Property'), LABELLED);
+    set('address', labelledValue(text, 'Address'), LABELLED);
+    set('client', labelledValue(text, 'Client'), LABELLED);
+    set('reportDate', labelledValue(text, 'Inspection Date'), LABELLED);
+    set('inspector', labelledValue(text, 'Inspector'), LABELLED);
+    set('propertyManager', labelledValue(text, 'Property Manager'), LABELLED);
+    set('propertyManagerPhone', labelledValue(text, 'Phone'), LABELLED);
+    set('market', labelledValue(text, 'Market'), LABELLED);
+    set('roofArea', parseArea(labelledValue(text, 'Roof Area')), LABELLED);
+    set('roofSystem', labelledValue(text, 'Roof System'), LABELLED);
+    set('systemDescription', labelledValue(text, 'System Description'), LABELLED);
+    set('estimatedLTTRValue', labelledValue(text, 'Estimated LTTR Value'), LABELLED);
+    set('perimeterDetail', labelledValue(text, 'Perimeter Detail'), LABELLED);
+    set('flashingDetail', labelledValue(text, 'Flashing Detail'), LABELLED);
+    set('drainageSystem', labelledValue(text, 'Drainage System'), LABELLED);
+    set('manufacturer', labelledValue(text, 'Manufacturer'), LABELLED);
+    set('warranty', labelledValue(text, 'Warranty'), LABELLED);
+    set('warrantyExpiration', labelledValue(text, 'Warranty Expiration'), LABELLED);
+    set('installingContractor', labelledValue(text, 'Installing Contractor'), LABELLED);
+    set('repairingContractor', labelledValue(text, 'Repairing Contractor'), LABELLED);
+
+    const headings = [/^ROOF SECTIONS$/i, /^DEFICIENCIES$/i, /^PHOTO LOG$/i, /^ROOF SPECIFICATIONS$/i];
+
+    const sections = sectionLines(text, /^ROOF SECTIONS$/i, headings)
+      .map(line => line.trim().match(/^(Section\s+\S+)\s{2,}([\d,]+)\s*(?:sq\s*ft|SF)\s{2,}(.+)$/i))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => ({ name: match[1], area: parseArea(match[2]), system: match[3].trim() }));
+    set('roofSections', sections, LABELLED);
+
+    const deficiencies = parseDeficiencyRows(
+      sectionLines(text, /^DEFICIENCIES$/i, headings),
+      /^\d+\.\s+(Section\s+\S+)\s+-\s+(.+?)\s+Priority:\s*(\w+)\s+Est\.?\s*Cost:\s*(\$[\d,]+(?:\.\d{2})?)$/i,
+      match => ({
+        section: match[1],
+        description: match[2].trim(),
+        severity: severityFrom(match[3]),
+        estimatedCost: parseAmount(match[4])
+      })
+    );
+    set('deficiencies', deficiencies, LABELLED);
+
+    const photos = sectionLines(text, /^PHOTO LOG$/i, headings)
+      .map(line => line.trim().match(/^Photo\s+(\d+)\s*:\s*(.+)$/i))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => ({
+        number: parseInt(match[1], 10),
+        caption: match[2].trim(),
+        section: match[2].match(/\bSection\s+[A-Z0-9]+\b/i)?.[0]
+      }));
+    set('photoCaptions', photos, LABELLED);
+
+    return { fields, confidence };
+  }
+};
+
+const SRC_TYPES: Array<[RegExp, InspectionTypeCode]> = [
+  [/storm/i, 'storm'],
+  [/due diligence/i, 'due_diligence'],
+  [/condition assessment/i, 'survey']
+];
+
+const srcTemplate: ReportTemplate = {
+  id: 'src_assessment',
+  vendor: 'Southern Roof Consultants',
+  name: 'SRC roof assessment',
+  signatures: [
+    { pattern: /Southern Roof Consultants/i, weight: 3 },
+    { pattern: /\bSRC\b/, weight: 1 },
+    { pattern: /^\s*(?:ROOF CONDITION|STORM DAMAGE|DUE DILIGENCE ROOF) ASSESSMENT\s*$/m, weight: 1 },
+    { pattern: /^\s*OBSERVATIONS AND RECOMMENDED REPAIRS\s*$/m, weight: 2 },
+    { pattern: /^\s*PHOTOGRAPHS\s*$/m, weight: 1 }
+  ],
+  minScore: 0.4,
+  extract(text) {
+    const { fields, confidence, set } = collector();
+
+    const title = text.match(/^\s*((?:ROOF CONDITION|STORM DAMAGE|DUE DILIGENCE ROOF) ASSESSMENT)\s*$/m);
+    if (title) {
+      set('reportType', title[1].trim(), LABELLED);
+      set('inspectionType', SRC_TYPES.find(([pattern]) => pattern.test(title[1]))?.[1], LABELLED);
+    }
+
+    set('inspectionCompany', 'Southern Roof Consultants', LABELLED);
+    set('client', labelledValue(text, 'Prepared for'), LABELLED);
+    set('propertyName', labelledValue(text, 'Site'), LABELLED);
+    set('address', labelledValue(text, 'Site Address'), LABELLED);
+    set('reportDate', labelledValue(text, 'Date of Site Visit'), LABELLED);
+    set('inspector', labelledValue(text, 'Field Observer'), LABELLED);
+
+    // Each roof area is a heading followed by a narrative description
+    const lines = text.split('\n').map(line => line.trim());
+    const sections: ReportRoofSection[] = [];
+    const narratives: string[] = [];
+    lines.forEach((line, index) => {
+      const heading = line.match(/^ROOF AREA (\d+)\s*[-–]\s*(.+?)\s*\(([\d,]+)\s*SF\)$/i);
+      if (!heading) return;
+
+      const narrative: string[] = [];
+      for (const next of lines.slice(index + 1)) {
+        // A blank line or the next all-caps heading ends the narrative
+        if (next === '' || (/^[A-Z0-9 &()-]+$/.test(next) && /[A-Z]{4}/.test(next))) break;
+        narrative.push(next);
+      }
+      const description = narrative.join(' ');
+      narratives.push(description);
+
+      sections.push({
+        name: `Roof Area ${heading[1]} - ${heading[2]}`,
+        area: parseArea(heading[3]),
+        system: description.match(ROOF_SYSTEM_PATTERN)?.[0]
+      });
+    });
+
+    set('roofSections', sections, LABELLED);
+    set('roofArea', sections.reduce((total, section) => total + (section.area || 0), 0), DERIVED);
+    set('roofSystem', sections.find(section => section.system)?.system, DERIVED);
+    set('systemDescription', narratives[0]?.match(/The roof composition consists of .+?\.(?=\s|$)/i)?.[0], DERIVED);
+
+    const sectionName = (area: string) => sections.find(section => section.name.startsWith(`Roof Area ${area} `))?.name || `Roof Area ${area}`;
+
+    const deficiencies = parseDeficiencyRows(
+      sectionLines(text, /^OBSERVATIONS AND RECOMMENDED REPAIRS$/i, [/^PHOTOGRAPHS$/i, /^LIMITATIONS$/i])
+        .filter(line => !/^\s*Ref\s{2,}/i.test(line) && !/^\s*Total\b/i.test(line)),
+      /^\d+\.\d+\s+Area\s+(\d+)\s{2,}(.+?)\s{2,}(Immediate|Near Term|Long Term)\s{2,}(\$[\d,]+(?:\.\d{2})?)$/i,
+      match => ({
+        section: sectionName(match[1]),
+        description: match[2].trim(),
+        severity: severityFrom(match[3]),
+        estimatedCost: parseAmount(match[4])
+      })
+    );
+    set('deficiencies', deficiencies, LABELLED);
+
+    const photos = sectionLines(text, /^PHOTOGRAPHS$/i, [/^LIMITATIONS$/i])
+      .map(line => line.trim().match(/^Photograph\s+(\d+)\s*[-–:]\s*(.+?)(?:\s*\(Roof Area (\d+)\))?$/i))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => ({
+        number: parseInt(match[1], 10),
+        caption: match[2].trim(),
+        section: match[3] ? sectionName(match[3]) : undefined
+      }));
+    set('photoCaptions', photos, LABELLED);
+
+    return { fields, confidence };
+  }
+};
+
+export const REPORT_TEMPLATES: ReportTemplate[] = [roofControllerTemplate, srcTemplate];
+
+/**
+ * The known report format a report's text best matches, or null to use the generic parser
+ */
+export function detectReportTemplate(text: string, templates: ReportTemplate[] = REPORT_TEMPLATES): TemplateMatch | null {
+  let best: TemplateMatch | null = null;
+
+  for (const template of templates) {
+    const totalWeight = template.signatures.reduce((total, signature) => total + signature.weight, 0);
+    const matched = template.signatures.filter(signature => signature.pattern.test(text));
+    const score = matched.reduce((total, signature) => total + signature.weight, 0) / totalWeight;
+
+    if (score >= template.minScore && (!best || score > best.score)) {
+      best = { template, score, matched: matched.map(signature => signature.pattern.source) };
+    }
+  }
+
+  return best;
+}
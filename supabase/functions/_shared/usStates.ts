@@ -0,0 +1,63 @@
+/**
+ * US state codes and ZIP prefixes, shared by the edge functions and the app
+ * (src/lib/usStates.ts re-exports it).
+ */
+
+export const US_STATE_NAMES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California',
+  CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida',
+  GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana',
+  IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine',
+  MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi',
+  MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', PR: 'Puerto Rico',
+  RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas',
+  UT: 'Utah', VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia',
+  WI: 'Wisconsin', WY: 'Wyoming'
+};
+
+// USPS three-digit ZIP prefixes per state, as inclusive ranges
+const ZIP_PREFIX_RANGES: Record<string, Array<[number, number]>> = {
+  AL: [[350, 369]], AK: [[995, 999]], AZ: [[850, 865]], AR: [[716, 729]],
+  CA: [[900, 961]], CO: [[800, 816]], CT: [[60, 69]], DE: [[197, 199]],
+  DC: [[200, 205], [569, 569]], FL: [[320, 349]], GA: [[300, 319], [398, 399]], HI: [[967, 968]],
+  ID: [[832, 838]], IL: [[600, 629]], IN: [[460, 479]], IA: [[500, 528]],
+  KS: [[660, 679]], KY: [[400, 427]], LA: [[700, 714]], ME: [[39, 49]],
+  MD: [[206, 219]], MA: [[10, 27], [55, 55]], MI: [[480, 499]], MN: [[550, 567]],
+  MS: [[386, 397]], MO: [[630, 658]], MT: [[590, 599]], NE: [[680, 693]],
+  NV: [[889, 898]], NH: [[30, 38]], NJ: [[70, 89]], NM: [[870, 884]],
+  NY: [[5, 5], [63, 63], [100, 149]], NC: [[270, 289]], ND: [[580, 588]], OH: [[430, 459]],
+  OK: [[730, 749]], OR: [[970, 979]], PA: [[150, 196]], PR: [[6, 9]],
+  RI: [[28, 29]], SC: [[290, 299]], SD: [[570, 577]], TN: [[370, 385]],
+  TX: [[750, 799], [885, 885]], UT: [[840, 847]], VT: [[50, 59]], VA: [[201, 201], [220, 246]],
+  WA: [[980, 994]], WV: [[247, 268]], WI: [[530, 549]], WY: [[820, 831]]
+};
+
+const STATE_BY_NAME: Record<string, string> = Object.fromEntries(
+  Object.entries(US_STATE_NAMES).map(([code, name]) => [name.toLowerCase(), code])
+);
+
+/**
+ * Two-letter state code for a code or full state name in any case, or null
+ */
+export function normalizeStateCode(value: string | null | undefined): string | null {
+  const trimmed = (value || '').trim().replace(/\.$/, '');
+  if (!trimmed) return null;
+  const upper = trimmed.toUpperCase();
+  if (US_STATE_NAMES[upper]) return upper;
+  return STATE_BY_NAME[trimmed.toLowerCase().replace(/\s+/g, ' ')] || null;
+}
+
+/**
+ * The state a ZIP code belongs to, from its three-digit prefix
+ */
+export function stateForZip(zip: string | null | undefined): string | null {
+  const digits = (zip || '').trim().match(/^(\d{3,5})(?:-\d{4})?$/)?.[1];
+  if (!digits) return null;
+  const prefix = Number(digits.padStart(5, '0').slice(0, 3));
+  for (const [state, ranges] of Object.entries(ZIP_PREFIX_RANGES)) {
+    if (ranges.some(([from, to]) => prefix >= from && prefix <= to)) return state;
+  }
+  return null;
+}
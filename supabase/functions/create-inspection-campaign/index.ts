@@ -17,10 +17,16 @@ interface CampaignRequest {
     pmEmail: string;
     estimatedCompletion: string;
     properties: Array<{id: string; name: string}>;
-    gmail: {
+    // Legacy n8n/Gmail shape; other workflow engines send `outreach` instead
+    gmail?: {
       draftId: string;
       threadId: string;
     };
+    outreach?: {
+      provider: string;
+      messageId: string;
+      threadId?: string;
+    };
     execution: {
       executionId: string;
       processingTimeMs: number;
@@ -45,6 +51,13 @@ serve(async (req) => {
 
     console.log('Creating inspection campaign:', { campaignId, campaignData });
 
+    const outreach = campaignData.outreach ?? {
+      provider: 'gmail',
+      messageId: campaignData.gmail?.draftId ?? '',
+      threadId: campaignData.gmail?.threadId
+    };
+    const isGmailDraft = outreach.provider === 'gmail';
+
     // Create the main campaign record
     const { data: campaign, error: campaignError } = await supabase
       .from('inspection_campaigns')
@@ -60,11 +73,14 @@ serve(async (req) => {
             campaignId: campaignId,
             propertyManager: campaignData.propertyManager,
             pmEmail: campaignData.pmEmail,
-            gmailDraftId: campaignData.gmail.draftId,
-            gmailThreadId: campaignData.gmail.threadId,
+            gmailDraftId: isGmailDraft ? outreach.messageId : null,
+            gmailThreadId: isGmailDraft ? outreach.threadId : null,
+            outreachProvider: outreach.provider,
+            outreachMessageId: outreach.messageId,
+            outreachThreadId: outreach.threadId ?? null,
             processingTimeMs: campaignData.execution.processingTimeMs,
             createdViaAutomation: true,
-            gmailIntegration: true
+            gmailIntegration: isGmailDraft
           },
           created_by: userId === 'system' ? null : userId,
           status: 'active'
@@ -88,7 +104,7 @@ serve(async (req) => {
         status: 'pending',
         automation_data: {
           propertyName: prop.name,
-          automationSource: 'n8n_workflow'
+          automationSource: isGmailDraft ? 'n8n_workflow' : `${outreach.provider}_workflow`
         }
       }));
 
@@ -104,18 +120,18 @@ serve(async (req) => {
       }
     }
 
-    // Create communication record for the email draft
-    const { error: commError } = await supabase
+    // Create communication record for the outreach email (a Gmail draft, or already sent)
+    const { error: commError } = outreach.provider === 'none' ? { error: null } : await supabase
       .from('campaign_communications')
       .insert([
         {
           campaign_id: campaign.id,
-          communication_type: 'email_draft',
+          communication_type: isGmailDraft ? 'email_draft' : 'email_sent',
           direction: 'outbound',
           subject: `Inspection Campaign: ${campaignData.name}`,
           to_email: campaignData.pmEmail,
-          gmail_message_id: campaignData.gmail.draftId,
-          gmail_thread_id: campaignData.gmail.threadId,
+          gmail_message_id: outreach.messageId,
+          gmail_thread_id: outreach.threadId ?? null,
           sent_at: new Date().toISOString()
         }
       ]);
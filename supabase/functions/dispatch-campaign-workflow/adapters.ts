@@ -0,0 +1,335 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export type WorkflowEngine = 'n8n' | 'signed_webhook' | 'smtp' | 'stub';
+
+export interface WorkflowEngineConfig {
+  webhook_url?: string;
+  from_email?: string;
+  reply_to?: string;
+}
+
+export interface CampaignWorkflowData {
+  campaign_id: string;
+  campaign_name: string;
+  client_id?: string;
+  client_name: string;
+  property_manager_email: string;
+  region: string;
+  market: string;
+  inspector_id?: string;
+  inspector_name?: string;
+  inspector_email?: string;
+  properties: Array<{
+    roof_id: string;
+    property_name: string;
+    address: string;
+    inspector_id?: string;
+    inspector_email?: string;
+  }>;
+}
+
+export interface WorkflowDispatchPayload {
+  batch_id: string;
+  batch_mode: boolean;
+  campaigns: CampaignWorkflowData[];
+}
+
+export interface OutreachReference {
+  messageId: string;
+  threadId?: string;
+}
+
+export interface AdapterResponse {
+  status: number | null;
+  body: unknown;
+  // Message references per campaign, for engines that send the outreach themselves
+  outreach?: Record<string, OutreachReference>;
+}
+
+export interface WorkflowEngineAdapter {
+  engine: WorkflowEngine;
+  // Whether the engine creates inspection_campaigns rows itself (n8n calls back into create-inspection-campaign)
+  recordsCampaigns: boolean;
+  dispatch(payload: WorkflowDispatchPayload, signal: AbortSignal): Promise<AdapterResponse>;
+}
+
+export class WorkflowDispatchError extends Error {
+  status: number | null;
+  body: unknown;
+  // Campaigns whose outreach went out before the failure; they must not be sent again
+  delivered: Record<string, OutreachReference>;
+
+  constructor(
+    message: string,
+    status: number | null = null,
+    body: unknown = null,
+    delivered: Record<string, OutreachReference> = {}
+  ) {
+    super(message);
+    this.name = 'WorkflowDispatchError';
+    this.status = status;
+    this.body = body;
+    this.delivered = delivered;
+  }
+}
+
+/**
+ * A client's webhook URL is requested from inside our network, so it must be HTTPS on a
+ * host listed in WORKFLOW_WEBHOOK_ALLOWED_HOSTS (comma separated; "*.example.com" also
+ * allows its subdomains). Anything else could point the request at internal services.
+ */
+const allowedWebhookUrl = (raw: string): string => {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new WorkflowDispatchError('The configured webhook URL is not a valid URL');
+  }
+
+  if (url.protocol !== 'https:' || url.username || url.password) {
+    throw new WorkflowDispatchError('Webhook URLs must use https without credentials');
+  }
+
+  const host = url.hostname.toLowerCase();
+  const allowed = (Deno.env.get('WORKFLOW_WEBHOOK_ALLOWED_HOSTS') ?? '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+  const isAllowed = allowed.some(entry => entry.startsWith('*.') ? host.endsWith(entry.slice(1)) : host === entry);
+  if (!isAllowed) {
+    throw new WorkflowDispatchError(`Webhook host ${host} is not in WORKFLOW_WEBHOOK_ALLOWED_HOSTS`);
+  }
+
+  return url.toString();
+};
+
+const postJson = async (
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  signal: AbortSignal
+): Promise<AdapterResponse> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal,
+    // A redirect could lead anywhere, past the host allowlist
+    redirect: 'manual'
+  });
+
+  const responseText = await response.text();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(responseText);
+  } catch {
+    parsed = { message: responseText };
+  }
+
+  if (!response.ok) {
+    throw new WorkflowDispatchError(
+      `Webhook request failed: ${response.status} ${response.statusText} - ${responseText}`,
+      response.status,
+      parsed
+    );
+  }
+
+  return { status: response.status, body: parsed };
+};
+
+// n8n expects the single-campaign payload flat and the batch payload with a default inspector
+const toWebhookBody = (payload: WorkflowDispatchPayload) => {
+  if (!payload.batch_mode && payload.campaigns.length === 1) {
+    return { batch_id: payload.batch_id, ...payload.campaigns[0] };
+  }
+
+  const first = payload.campaigns[0];
+  return {
+    ...payload,
+    default_inspector: first ? {
+      inspector_id: first.inspector_id,
+      inspector_name: first.inspector_name,
+      inspector_email: first.inspector_email
+    } : null
+  };
+};
+
+const n8nAdapter = (config: WorkflowEngineConfig): WorkflowEngineAdapter => ({
+  engine: 'n8n',
+  recordsCampaigns: true,
+  async dispatch(payload, signal) {
+    const sharedUrl = Deno.env.get('N8N_CAMPAIGN_WEBHOOK_URL');
+    const url = config.webhook_url ? allowedWebhookUrl(config.webhook_url) : sharedUrl;
+    if (!url) {
+      throw new WorkflowDispatchError('N8N_CAMPAIGN_WEBHOOK_URL is not configured');
+    }
+
+    // The secret authenticates us to the shared workflow only; a client's own URL never gets it
+    const secret = url === sharedUrl ? Deno.env.get('N8N_WEBHOOK_SECRET') : undefined;
+    return postJson(
+      url,
+      JSON.stringify(toWebhookBody(payload)),
+      secret ? { 'Authorization': `Bearer ${secret}` } : {},
+      signal
+    );
+  }
+});
+
+const hmacSha256Hex = async (secret: string, message: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Any HTTPS endpoint. Receivers verify X-Roofmind-Signature, an HMAC-SHA256 of
+ * "<timestamp>.<body>" using the shared WORKFLOW_WEBHOOK_SIGNING_SECRET.
+ */
+const signedWebhookAdapter = (config: WorkflowEngineConfig): WorkflowEngineAdapter => ({
+  engine: 'signed_webhook',
+  recordsCampaigns: false,
+  async dispatch(payload, signal) {
+    if (!config.webhook_url) {
+      throw new WorkflowDispatchError('No webhook URL configured for this client');
+    }
+    const url = allowedWebhookUrl(config.webhook_url);
+
+    const secret = Deno.env.get('WORKFLOW_WEBHOOK_SIGNING_SECRET');
+    if (!secret) {
+      throw new WorkflowDispatchError('WORKFLOW_WEBHOOK_SIGNING_SECRET is not configured');
+    }
+
+    const body = JSON.stringify(toWebhookBody(payload));
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = await hmacSha256Hex(secret, `${timestamp}.${body}`);
+
+    const response = await postJson(url, body, {
+      'X-Roofmind-Timestamp': timestamp,
+      'X-Roofmind-Signature': `sha256=${signature}`
+    }, signal);
+
+    return {
+      ...response,
+      outreach: Object.fromEntries(payload.campaigns.map(c => [c.campaign_id, { messageId: `${payload.batch_id}:${c.campaign_id}` }]))
+    };
+  }
+});
+
+const buildOutreachEmail = (campaign: CampaignWorkflowData) => {
+  const propertyLines = campaign.properties
+    .map(p => `- ${p.property_name} (${p.address})`)
+    .join('\n');
+
+  return [
+    `Hello,`,
+    ``,
+    `We are scheduling annual roof inspections for ${campaign.client_name} in ${campaign.market}.`,
+    `The following ${campaign.properties.length === 1 ? 'property is' : 'properties are'} included:`,
+    ``,
+    propertyLines,
+    ``,
+    ...(campaign.inspector_name ? [`Your inspector will be ${campaign.inspector_name}.`] : []),
+    `Please reply with dates that work for a site visit, any gate or access codes, and whether`,
+    `the inspector should call ahead before arriving.`,
+    ``,
+    `Thank you.`
+  ].join('\n');
+};
+
+/**
+ * Sends the property manager outreach directly, one email per campaign.
+ */
+const smtpAdapter = (config: WorkflowEngineConfig): WorkflowEngineAdapter => ({
+  engine: 'smtp',
+  recordsCampaigns: false,
+  async dispatch(payload) {
+    const hostname = Deno.env.get('SMTP_HOSTNAME');
+    const from = config.from_email || Deno.env.get('SMTP_FROM');
+    if (!hostname || !from) {
+      throw new WorkflowDispatchError('SMTP_HOSTNAME and a sender address must be configured');
+    }
+
+    const client = new SMTPClient({
+      connection: {
+        hostname,
+        port: Number(Deno.env.get('SMTP_PORT') ?? 465),
+        tls: true,
+        auth: {
+          username: Deno.env.get('SMTP_USERNAME') ?? '',
+          password: Deno.env.get('SMTP_PASSWORD') ?? ''
+        }
+      }
+    });
+
+    const outreach: Record<string, OutreachReference> = {};
+    const domain = from.split('@')[1] || 'roofmind.local';
+
+    try {
+      for (const campaign of payload.campaigns) {
+        const messageId = `<${campaign.campaign_id}.${payload.batch_id}@${domain}>`;
+
+        await client.send({
+          from,
+          to: campaign.property_manager_email,
+          replyTo: config.reply_to || from,
+          subject: `Inspection Campaign: ${campaign.campaign_name}`,
+          content: buildOutreachEmail(campaign),
+          headers: { 'Message-ID': messageId }
+        });
+
+        outreach[campaign.campaign_id] = { messageId, threadId: messageId };
+      }
+    } catch (error) {
+      throw new WorkflowDispatchError(
+        `SMTP send failed: ${error.message}`,
+        null,
+        { sent: Object.keys(outreach) },
+        outreach
+      );
+    } finally {
+      await client.close();
+    }
+
+    return { status: 250, body: { sent: Object.keys(outreach).length }, outreach };
+  }
+});
+
+/**
+ * Sends nothing. The payload is kept in workflow_dispatch_attempts.request_payload
+ * so campaign flows can be exercised end to end without an external service.
+ */
+const stubAdapter = (): WorkflowEngineAdapter => ({
+  engine: 'stub',
+  recordsCampaigns: false,
+  async dispatch(payload) {
+    return {
+      status: 200,
+      body: { success: true, stub: true, received: payload.campaigns.length },
+      outreach: Object.fromEntries(payload.campaigns.map(c => [c.campaign_id, {
+        messageId: `stub-${payload.batch_id}-${c.campaign_id}`,
+        threadId: `stub-thread-${c.campaign_id}`
+      }]))
+    };
+  }
+});
+
+export function getWorkflowAdapter(engine: WorkflowEngine, config: WorkflowEngineConfig = {}): WorkflowEngineAdapter {
+  switch (engine) {
+    case 'signed_webhook':
+      return signedWebhookAdapter(config);
+    case 'smtp':
+      return smtpAdapter(config);
+    case 'stub':
+      return stubAdapter();
+    case 'n8n':
+    default:
+      return n8nAdapter(config);
+  }
+}
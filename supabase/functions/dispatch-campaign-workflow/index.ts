@@ -0,0 +1,459 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.52.0";
+import {
+  getWorkflowAdapter,
+  WorkflowDispatchError,
+  type CampaignWorkflowData,
+  type WorkflowEngine,
+  type WorkflowEngineAdapter,
+  type WorkflowEngineConfig,
+  type OutreachReference
+} from "./adapters.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_RETRIES = 3;
+const RETRY_DELAY = 2000;
+const REQUEST_TIMEOUT = 60000;
+// Work one invocation takes on, kept well under the edge function time limit. Retries
+// that don't fit are queued for a later invocation.
+const INVOCATION_BUDGET = 110000;
+// Don't start an attempt with less time than this left
+const MIN_ATTEMPT_TIME = 10000;
+// A queued retry claimed by an invocation that was killed can be claimed again after this
+const RETRY_CLAIM_TIMEOUT_SECONDS = 180;
+
+const retryDelay = (attempt: number) => RETRY_DELAY * Math.pow(2, attempt - 1);
+
+interface DispatchRequest {
+  campaigns: CampaignWorkflowData[];
+  // Send campaigns to the engine as one batch payload, or one request per campaign
+  batchMode?: boolean;
+}
+
+interface DispatchResult {
+  campaign_id: string;
+  engine: WorkflowEngine;
+  success: boolean;
+  // Out of time for retries; a later invocation sends it
+  queued?: boolean;
+  attempts: number;
+  response?: unknown;
+  error?: string;
+}
+
+interface QueuedRetry {
+  id: string;
+  batch_id: string;
+  client_id: string | null;
+  requested_by: string | null;
+  batch_mode: boolean;
+  campaigns: CampaignWorkflowData[];
+  attempts: number;
+  last_error: string | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const isValidEmail = (email: string | undefined) =>
+  !!email && email.includes('@') && email.includes('.');
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const deadline = Date.now() + INVOCATION_BUDGET;
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Identify the caller from their own JWT; the service role client is only used server-side
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Missing authorization header' }, 401);
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user) {
+      return jsonResponse({ success: false, error: 'Invalid or expired session' }, 401);
+    }
+
+    const [{ data: isManager }, { data: isSuperAdmin }] = await Promise.all([
+      supabase.rpc('has_role', { _user_id: user.id, _role: 'manager' }),
+      supabase.rpc('has_role', { _user_id: user.id, _role: 'super_admin' }),
+    ]);
+
+    if (!isManager && !isSuperAdmin) {
+      return jsonResponse({ success: false, error: 'Only managers can start inspection campaigns' }, 403);
+    }
+
+    const { campaigns, batchMode = true }: DispatchRequest = await req.json();
+
+    if (!Array.isArray(campaigns) || campaigns.length === 0) {
+      return jsonResponse({ success: false, error: 'No campaigns provided' }, 400);
+    }
+
+    const invalid = campaigns.filter(c => !isValidEmail(c.property_manager_email));
+    if (invalid.length > 0) {
+      return jsonResponse({
+        success: false,
+        error: `Invalid property manager email: ${invalid.map(c => c.property_manager_email || '(missing)').join(', ')}`
+      }, 400);
+    }
+
+    // Each client picks the engine its outreach goes through
+    const clientIds = [...new Set(campaigns.map(c => c.client_id).filter((id): id is string => !!id))];
+    const { data: clients, error: clientsError } = clientIds.length > 0
+      ? await supabase.from('clients').select('id, workflow_engine, workflow_engine_config').in('id', clientIds)
+      : { data: [], error: null };
+
+    if (clientsError) {
+      throw clientsError;
+    }
+
+    const adapterFor = (client?: { workflow_engine: string; workflow_engine_config: unknown } | null) =>
+      getWorkflowAdapter(
+        (client?.workflow_engine ?? 'n8n') as WorkflowEngine,
+        (client?.workflow_engine_config ?? {}) as WorkflowEngineConfig
+      );
+
+    const groups = new Map<string, { clientId: string | null; adapter: WorkflowEngineAdapter; campaigns: CampaignWorkflowData[] }>();
+    for (const campaign of campaigns) {
+      const client = clients?.find(c => c.id === campaign.client_id);
+      const key = client?.id ?? 'default';
+
+      if (!groups.has(key)) {
+        groups.set(key, { clientId: client?.id ?? null, adapter: adapterFor(client), campaigns: [] });
+      }
+      groups.get(key)!.campaigns.push(campaign);
+    }
+
+    const batchId = `BATCH-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
+
+    console.log('Dispatching campaign workflow:', {
+      batchId,
+      requestedBy: user.id,
+      campaignCount: campaigns.length,
+      engines: [...groups.values()].map(g => g.adapter.engine),
+      batchMode
+    });
+
+    // Dispatch through the client's adapter with retries, logging every attempt. A retry
+    // only carries the campaigns that have not been delivered yet. When the invocation's
+    // time budget can't fit the next attempt, the rest is left to a queued retry.
+    const dispatch = async (
+      adapter: WorkflowEngineAdapter,
+      clientId: string | null,
+      group: CampaignWorkflowData[],
+      asBatch: boolean,
+      { batchId, requestedBy, attemptsMade = 0, lastError: previousError }: {
+        batchId: string;
+        requestedBy: string | null;
+        attemptsMade?: number;
+        lastError?: string;
+      }
+    ) => {
+      const delivered: Record<string, OutreachReference | undefined> = {};
+      let remaining = group;
+      let lastError = previousError ?? 'Unknown error occurred';
+      let response: unknown;
+      let attempts = attemptsMade;
+      let retryAt: Date | null = null;
+
+      for (let attempt = attemptsMade + 1; attempt <= MAX_RETRIES && remaining.length > 0; attempt++) {
+        const timeLeft = deadline - Date.now();
+        if (timeLeft < MIN_ATTEMPT_TIME) {
+          retryAt = new Date();
+          break;
+        }
+
+        attempts = attempt;
+        const payload = { batch_id: batchId, batch_mode: asBatch, campaigns: remaining };
+        const startedAt = Date.now();
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), Math.min(REQUEST_TIMEOUT, timeLeft));
+
+        const attemptRecord = {
+          batch_id: batchId,
+          campaign_ids: remaining.map(c => c.campaign_id),
+          client_id: clientId,
+          requested_by: requestedBy,
+          engine: adapter.engine,
+          attempt_number: attempt,
+          request_payload: payload
+        };
+
+        try {
+          const outcome = await adapter.dispatch(payload, controller.signal);
+
+          await supabase.from('workflow_dispatch_attempts').insert({
+            ...attemptRecord,
+            status: 'success',
+            response_status: outcome.status,
+            response_body: outcome.body,
+            duration_ms: Date.now() - startedAt
+          });
+
+          for (const campaign of remaining) {
+            delivered[campaign.campaign_id] = outcome.outreach?.[campaign.campaign_id];
+          }
+          remaining = [];
+          response = outcome.body;
+        } catch (error) {
+          lastError = error.name === 'AbortError'
+            ? 'Request timeout - workflow engine took too long to respond'
+            : error.message;
+
+          console.error(`Workflow dispatch attempt ${attempt}/${MAX_RETRIES} via ${adapter.engine} failed:`, lastError);
+
+          await supabase.from('workflow_dispatch_attempts').insert({
+            ...attemptRecord,
+            status: 'failed',
+            response_status: error instanceof WorkflowDispatchError ? error.status : null,
+            response_body: error instanceof WorkflowDispatchError ? error.body : null,
+            error_message: lastError,
+            duration_ms: Date.now() - startedAt
+          });
+
+          // Engines that send per campaign report what went out before the failure
+          if (error instanceof WorkflowDispatchError) {
+            Object.assign(delivered, error.delivered);
+            remaining = remaining.filter(c => !(c.campaign_id in error.delivered));
+          }
+
+          if (attempt < MAX_RETRIES && remaining.length > 0) {
+            const delay = retryDelay(attempt);
+            if (Date.now() + delay + MIN_ATTEMPT_TIME > deadline) {
+              retryAt = new Date(Date.now() + delay);
+              break;
+            }
+            await new Promise(resolve => setTimeout(resolve, delay));
+          }
+        } finally {
+          clearTimeout(timeoutId);
+        }
+      }
+
+      return {
+        delivered,
+        attempts,
+        response,
+        remaining,
+        // Set when attempts are left that this invocation had no time for
+        retryAt: remaining.length > 0 ? retryAt : null,
+        error: remaining.length > 0 ? lastError : undefined
+      };
+    };
+
+    const queueRetry = async (
+      retry: Omit<QueuedRetry, 'id' | 'last_error'>,
+      lastError: string,
+      retryAt: Date
+    ) => {
+      const { error } = await supabase.from('workflow_dispatch_retries').insert({
+        ...retry,
+        last_error: lastError,
+        next_attempt_at: retryAt.toISOString()
+      });
+
+      if (error) {
+        throw new Error(`Could not queue the dispatch retry: ${error.message}`);
+      }
+    };
+
+    // Only n8n calls back into create-inspection-campaign; record the rest here. A queued
+    // retry that runs out of attempts records its campaigns with no outreach ('none'),
+    // as the app does when a dispatch fails outright.
+    const recordCampaign = async (
+      campaign: CampaignWorkflowData,
+      engine: WorkflowEngine | 'none',
+      { batchId, requestedBy, outreach }: { batchId: string; requestedBy: string | null; outreach?: OutreachReference }
+    ) => {
+      const { error } = await supabase.functions.invoke('create-inspection-campaign', {
+        body: {
+          campaignId: campaign.campaign_id,
+          campaignData: {
+            name: campaign.campaign_name,
+            market: campaign.market,
+            region: campaign.region,
+            propertyManager: campaign.property_manager_email.split('@')[0],
+            propertyCount: campaign.properties.length,
+            pmEmail: campaign.property_manager_email,
+            estimatedCompletion: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+            properties: campaign.properties.map(p => ({ id: p.roof_id, name: p.property_name })),
+            outreach: {
+              provider: engine,
+              messageId: outreach?.messageId ?? `${batchId}:${campaign.campaign_id}`,
+              threadId: outreach?.threadId
+            },
+            execution: {
+              executionId: batchId,
+              processingTimeMs: 0
+            }
+          },
+          userId: requestedBy ?? 'system'
+        }
+      });
+
+      if (error) {
+        throw new Error(engine === 'none'
+          ? `The campaign could not be recorded: ${error.message}`
+          : `Outreach sent but the campaign could not be recorded: ${error.message}`);
+      }
+    };
+
+    const results: DispatchResult[] = [];
+
+    for (const { clientId, adapter, campaigns: group } of groups.values()) {
+      const batches = batchMode ? [group] : group.map(c => [c]);
+
+      for (const batch of batches) {
+        const { delivered, attempts, response, remaining, retryAt, error } =
+          await dispatch(adapter, clientId, batch, batchMode, { batchId, requestedBy: user.id });
+
+        let queued = false;
+        if (retryAt) {
+          try {
+            await queueRetry({
+              batch_id: batchId,
+              client_id: clientId,
+              requested_by: user.id,
+              batch_mode: batchMode,
+              campaigns: remaining,
+              attempts
+            }, error!, retryAt);
+            queued = true;
+          } catch (queueError) {
+            console.error('Workflow dispatch retry could not be queued:', queueError instanceof Error ? queueError.message : queueError);
+          }
+        }
+
+        for (const campaign of batch) {
+          const sent = campaign.campaign_id in delivered;
+          const result: DispatchResult = {
+            campaign_id: campaign.campaign_id,
+            engine: adapter.engine,
+            success: sent,
+            queued: !sent && queued ? true : undefined,
+            attempts,
+            response,
+            error: sent ? undefined : queued ? `${error} - queued to retry later` : error
+          };
+
+          if (sent && !adapter.recordsCampaigns) {
+            try {
+              await recordCampaign(campaign, adapter.engine, {
+                batchId,
+                requestedBy: user.id,
+                outreach: delivered[campaign.campaign_id]
+              });
+            } catch (recordError) {
+              result.success = false;
+              result.error = recordError.message;
+            }
+          }
+
+          results.push(result);
+        }
+      }
+    }
+
+    // Spend what is left of the budget on retries queued by earlier invocations
+    const runQueuedRetry = async (retry: QueuedRetry) => {
+      const { data: client } = retry.client_id
+        ? await supabase.from('clients').select('workflow_engine, workflow_engine_config').eq('id', retry.client_id).maybeSingle()
+        : { data: null };
+      const adapter = adapterFor(client);
+      const context = { batchId: retry.batch_id, requestedBy: retry.requested_by };
+
+      const { delivered, attempts, remaining, retryAt, error } = await dispatch(
+        adapter, retry.client_id, retry.campaigns, retry.batch_mode,
+        { ...context, attemptsMade: retry.attempts, lastError: retry.last_error ?? undefined }
+      );
+
+      const recordErrors: string[] = [];
+      const record = async (campaign: CampaignWorkflowData, engine: WorkflowEngine | 'none', outreach?: OutreachReference) => {
+        try {
+          await recordCampaign(campaign, engine, { ...context, outreach });
+        } catch (recordError) {
+          recordErrors.push(`${campaign.campaign_id}: ${recordError instanceof Error ? recordError.message : recordError}`);
+        }
+      };
+
+      if (!adapter.recordsCampaigns) {
+        for (const campaign of retry.campaigns.filter(c => c.campaign_id in delivered)) {
+          await record(campaign, adapter.engine, delivered[campaign.campaign_id]);
+        }
+      }
+
+      // Out of attempts: record the campaigns without outreach so they aren't lost
+      if (remaining.length > 0 && !retryAt) {
+        for (const campaign of remaining) {
+          await record(campaign, 'none');
+        }
+      }
+
+      const { error: updateError } = await supabase.from('workflow_dispatch_retries').update({
+        status: remaining.length === 0 ? 'delivered' : retryAt ? 'pending' : 'failed',
+        campaigns: remaining.length > 0 ? remaining : retry.campaigns,
+        attempts,
+        last_error: [error, ...recordErrors].filter(Boolean).join('; ') || null,
+        next_attempt_at: (retryAt ?? new Date()).toISOString(),
+        claimed_at: null,
+        updated_at: new Date().toISOString()
+      }).eq('id', retry.id);
+
+      if (updateError) {
+        console.error(`Queued dispatch retry ${retry.id} could not be updated:`, updateError.message);
+      }
+    };
+
+    let retriesRun = 0;
+    while (deadline - Date.now() >= MIN_ATTEMPT_TIME) {
+      const { data: claimed, error: claimError } = await supabase.rpc('claim_workflow_dispatch_retry', {
+        p_timeout_seconds: RETRY_CLAIM_TIMEOUT_SECONDS
+      });
+
+      if (claimError) {
+        console.error('Queued dispatch retries could not be claimed:', claimError.message);
+        break;
+      }
+      if (!claimed || claimed.length === 0) break;
+
+      await runQueuedRetry(claimed[0] as unknown as QueuedRetry);
+      retriesRun++;
+    }
+
+    const failedCount = results.filter(r => !r.success && !r.queued).length;
+    const queuedCount = results.filter(r => r.queued).length;
+    const sentCount = results.length - failedCount - queuedCount;
+
+    if (retriesRun > 0) {
+      console.log(`Ran ${retriesRun} queued dispatch retries after batch ${batchId}`);
+    }
+
+    return jsonResponse({
+      success: failedCount === 0 && queuedCount === 0,
+      batch_id: batchId,
+      results,
+      message: `${sentCount} of ${results.length} campaigns dispatched` +
+        (queuedCount > 0 ? `, ${queuedCount} queued to retry` : '')
+    });
+
+  } catch (error) {
+    console.error('Error in dispatch-campaign-workflow function:', error);
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+});
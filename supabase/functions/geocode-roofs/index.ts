@@ -0,0 +1,164 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  type GeocodePrecision,
+  type GeocodingProvider,
+  CensusGeocodingProvider,
+  LocalGeocodingProvider,
+  geocodeWithProviders,
+  geocodeZip,
+  locationMismatch
+} from '../_shared/geocoding.ts'
+import { authorizeManager } from '../_shared/auth.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface GeocodeRequest {
+  // Roofs per call; the app calls again until nothing remains
+  batchSize?: number;
+  // Tried in order. 'local' works offline; 'census' calls the Census Bureau geocoder.
+  providers?: Array<'local' | 'census'>;
+  // Retry roofs a previous backfill couldn't place. The first call of a run sets the
+  // cutoff from the server clock and returns it as retryBefore; later calls send it back.
+  retryUnresolved?: boolean;
+  retryBefore?: string;
+}
+
+const MAX_BATCH_SIZE = 200;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  });
+
+// Centroid-placed roofs don't help place their neighbours
+const TRUSTED_PRECISIONS: Array<GeocodePrecision | null> = [null, 'rooftop', 'street'];
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const denied = await authorizeManager(supabase, req, { action: 'geocode roofs' });
+    if (denied) {
+      return jsonResponse({ error: denied.error }, denied.status);
+    }
+
+    const { batchSize = 100, providers = ['local'], retryUnresolved, retryBefore } = await req.json() as GeocodeRequest;
+
+    if (retryBefore && isNaN(Date.parse(retryBefore))) {
+      return jsonResponse({ error: 'retryBefore must be a timestamp' }, 400);
+    }
+    const cutoff = retryBefore
+      ? new Date(retryBefore).toISOString()
+      : retryUnresolved ? new Date().toISOString() : undefined;
+
+    const pending = () => {
+      const query = supabase
+        .from('roofs')
+        .select('id, address, city, state, zip', { count: 'exact' })
+        .eq('is_deleted', false)
+        .or('latitude.is.null,longitude.is.null');
+      return cutoff
+        ? query.or(`geocoded_at.is.null,geocoded_at.lt.${cutoff}`)
+        : query.is('geocoded_at', null);
+    };
+
+    const { data: roofs, error } = await pending().limit(Math.min(batchSize, MAX_BATCH_SIZE));
+    if (error) throw error;
+
+    if (!roofs || roofs.length === 0) {
+      return jsonResponse({ processed: 0, geocoded: 0, unresolved: 0, flagged: 0, failed: 0, remaining: 0, byPrecision: {}, retryBefore: cutoff });
+    }
+
+    // Reference centroids and already-located roofs, only for the ZIPs in this batch
+    const zips = Array.from(new Set(roofs.map(roof => geocodeZip(roof.zip)).filter(Boolean)));
+    const rawZips = Array.from(new Set([...zips, ...roofs.map(roof => roof.zip).filter(Boolean)]));
+
+    const [{ data: centroids, error: centroidError }, { data: located, error: locatedError }] = await Promise.all([
+      supabase.from('geo_zip_centroids').select('zip, latitude, longitude, city, state').in('zip', zips),
+      supabase
+        .from('roofs')
+        .select('address, city, state, zip, latitude, longitude, geocode_precision')
+        .eq('is_deleted', false)
+        .in('zip', rawZips)
+        .not('latitude', 'is', null)
+        .not('longitude', 'is', null)
+    ]);
+    if (centroidError) throw centroidError;
+    if (locatedError) throw locatedError;
+
+    const chain: GeocodingProvider[] = providers.map(name =>
+      name === 'census'
+        ? new CensusGeocodingProvider()
+        : new LocalGeocodingProvider(
+            centroids || [],
+            (located || []).filter(roof => TRUSTED_PRECISIONS.includes(roof.geocode_precision as GeocodePrecision | null))
+          )
+    );
+
+    const now = new Date().toISOString();
+    let geocoded = 0;
+    let flagged = 0;
+    let failed = 0;
+    const byPrecision: Record<string, number> = {};
+
+    for (const roof of roofs) {
+      const result = await geocodeWithProviders(chain, roof);
+
+      const update = result
+        ? {
+            latitude: result.latitude,
+            longitude: result.longitude,
+            geocode_precision: result.precision,
+            geocode_source: result.provider,
+            geocode_mismatch: locationMismatch(roof, result),
+            geocoded_at: now
+          }
+        : { geocoded_at: now };
+
+      const { error: updateError } = await supabase.from('roofs').update(update).eq('id', roof.id);
+      if (updateError) {
+        console.error(`Failed to save coordinates for roof ${roof.id}:`, updateError);
+        failed++;
+        // Still mark the attempt, or the next call of this run would fetch the roof again
+        await supabase.from('roofs').update({ geocoded_at: now }).eq('id', roof.id);
+        continue;
+      }
+
+      if (result) {
+        geocoded++;
+        byPrecision[result.precision] = (byPrecision[result.precision] || 0) + 1;
+        if ('geocode_mismatch' in update && update.geocode_mismatch) flagged++;
+      }
+    }
+
+    const { count: remaining } = await pending().limit(0);
+
+    console.log(`Geocoded ${geocoded} of ${roofs.length} roofs (${flagged} flagged, ${failed} not saved), ${remaining ?? 0} remaining`);
+
+    return jsonResponse({
+      processed: roofs.length,
+      geocoded,
+      unresolved: roofs.length - geocoded - failed,
+      flagged,
+      failed,
+      remaining: remaining ?? 0,
+      byPrecision,
+      retryBefore: cutoff
+    });
+
+  } catch (error) {
+    console.error('Geocoding error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 400);
+  }
+});
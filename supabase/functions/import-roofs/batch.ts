@@ -0,0 +1,142 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { ColumnMapping } from './mapping.ts'
+
+/**
+ * Import batches: one record per upload plus every write it made, so a roof field can
+ * show which file set it and `rollback_import_batch` can restore the prior values.
+ */
+
+export type BatchEntityType = 'roof' | 'client' | 'client_contact' | 'property_contact_assignment';
+
+export interface BatchChange {
+  entity_type: BatchEntityType;
+  entity_id: string;
+  roof_id?: string;
+  change_type: 'insert' | 'update';
+  field_name?: string;
+  old_value?: unknown;
+  new_value?: unknown;
+  row_number?: number;
+}
+
+export interface BatchSource {
+  fileName?: string;
+  sheetName?: string;
+  headerRow?: number;
+  clientId?: string;
+  templateId?: string;
+  mappings: ColumnMapping[];
+  rowCount: number;
+  uploadedBy?: string;
+}
+
+export interface BatchCounts {
+  success: number;
+  updated: number;
+  unchanged: number;
+  errors: unknown[];
+  clientsCreated: number;
+}
+
+// An edge function is stopped well before this, so a batch still running after it never finished
+const STALE_BATCH_MS = 15 * 60 * 1000;
+
+/**
+ * Only one batch runs at a time (a unique index allows a single 'running' batch), so two
+ * commits of the same plan can't both insert its new roofs: the second is refused while
+ * the first runs, and once retried it matches them as existing roofs.
+ */
+export async function createImportBatch(supabase: SupabaseClient, source: BatchSource): Promise<string> {
+  await supabase
+    .from('import_batches')
+    .update({ status: 'failed', completed_at: new Date().toISOString() })
+    .eq('status', 'running')
+    .lt('created_at', new Date(Date.now() - STALE_BATCH_MS).toISOString());
+
+  const { data, error } = await supabase
+    .from('import_batches')
+    .insert({
+      file_name: source.fileName || 'Excel import',
+      sheet_name: source.sheetName,
+      header_row: source.headerRow ?? 1,
+      client_id: source.clientId,
+      mapping_template_id: source.templateId,
+      mappings: source.mappings,
+      row_count: source.rowCount,
+      uploaded_by: source.uploadedBy
+    })
+    .select('id')
+    .single();
+
+  if (error?.code === '23505') throw new Error('Another import is running; try again when it has finished');
+  if (error) throw new Error(`Failed to record import batch: ${error.message}`);
+  return data.id;
+}
+
+export async function finishImportBatch(
+  supabase: SupabaseClient,
+  batchId: string,
+  counts: BatchCounts | null
+) {
+  const { error } = await supabase
+    .from('import_batches')
+    .update(counts
+      ? {
+          status: 'completed',
+          inserted_count: counts.success,
+          updated_count: counts.updated,
+          unchanged_count: counts.unchanged,
+          error_count: counts.errors.length,
+          clients_created: counts.clientsCreated,
+          completed_at: new Date().toISOString()
+        }
+      : { status: 'failed', completed_at: new Date().toISOString() })
+    .eq('id', batchId);
+
+  if (error) console.error('Error finishing import batch:', error);
+}
+
+/**
+ * Writes change rows as soon as each write is made, so a batch that fails or times out
+ * halfway still has every change it made on record and can be rolled back.
+ */
+export class ChangeRecorder {
+  constructor(private supabase: SupabaseClient, private batchId: string) {}
+
+  async record(changes: BatchChange[]) {
+    if (changes.length === 0) return;
+
+    const rows = changes.map(change => ({
+      ...change,
+      batch_id: this.batchId,
+      old_value: change.old_value ?? null,
+      new_value: change.new_value ?? null
+    }));
+
+    const { error } = await this.supabase.from('import_batch_changes').insert(rows);
+    if (error) throw new Error(`Failed to record import changes: ${error.message}`);
+  }
+}
+
+// The fields whose stored value actually changed, as the database holds them
+export function fieldChanges(
+  roofId: string,
+  row: number,
+  fields: string[],
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>
+): BatchChange[] {
+  return fields
+    .filter(field => !before || JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .filter(field => before || (after[field] !== null && after[field] !== undefined))
+    .map(field => ({
+      entity_type: 'roof',
+      entity_id: roofId,
+      roof_id: roofId,
+      change_type: before ? 'update' : 'insert',
+      field_name: field,
+      old_value: before ? before[field] ?? null : null,
+      new_value: after[field] ?? null,
+      row_number: row
+    }));
+}
@@ -0,0 +1,354 @@
+/**
+ * Applies a column mapping (spreadsheet column → roofs field, plus a transform)
+ * to imported rows. Uploads without a mapping fall back to the legacy header names.
+ */
+
+export type CellValue = string | number | boolean | Date | null | undefined;
+
+// A spreadsheet row converted to roofs fields
+export type MappedRoof = Record<string, string | number | boolean>;
+
+export type FieldType = 'text' | 'number' | 'integer' | 'boolean' | 'date';
+
+export type ImportTransform =
+  | 'auto'
+  | 'text'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'date'
+  | 'year'
+  | 'convert_area'
+  | 'lookup';
+
+export interface TransformOptions {
+  // date: how to read ambiguous numeric dates like 03/04/2025
+  date_format?: 'MDY' | 'DMY' | 'YMD';
+  // convert_area: unit the column is in, converted to square feet
+  from_unit?: 'sq_ft' | 'sq_m' | 'squares';
+  // lookup: source value (case-insensitive) → stored value
+  lookup?: Record<string, string>;
+  // lookup: keep values missing from the table instead of dropping them
+  lookup_passthrough?: boolean;
+}
+
+export interface ColumnMapping {
+  source: string;
+  target: string;
+  transform?: ImportTransform;
+  options?: TransformOptions;
+}
+
+export interface MappingWarning {
+  column: string;
+  error: string;
+}
+
+export const ROOF_IMPORT_FIELD_TYPES: Record<string, FieldType> = {
+  customer: 'text',
+  region: 'text',
+  market: 'text',
+  roof_group: 'text',
+  property_code: 'text',
+  property_name: 'text',
+  roof_section: 'text',
+  address: 'text',
+  city: 'text',
+  state: 'text',
+  zip: 'text',
+  latitude: 'number',
+  longitude: 'number',
+  site_contact: 'text',
+  site_contact_office_phone: 'text',
+  site_contact_mobile_phone: 'text',
+  site_contact_email: 'text',
+  customer_sensitivity: 'text',
+  roof_access: 'text',
+  roof_access_requirements: 'text',
+  roof_access_safety_concern: 'text',
+  roof_access_location: 'text',
+  roof_area: 'number',
+  roof_area_unit: 'text',
+  roof_type: 'text',
+  roof_system: 'text',
+  roof_system_description: 'text',
+  roof_category: 'text',
+  manufacturer: 'text',
+  installing_contractor: 'text',
+  repair_contractor: 'text',
+  install_date: 'date',
+  install_year: 'integer',
+  manufacturer_has_warranty: 'boolean',
+  manufacturer_warranty_term: 'text',
+  manufacturer_warranty_number: 'text',
+  manufacturer_warranty_expiration: 'date',
+  installer_has_warranty: 'boolean',
+  installer_warranty_term: 'text',
+  installer_warranty_number: 'text',
+  installer_warranty_expiration: 'date',
+  capital_budget_year: 'integer',
+  capital_budget_estimated: 'number',
+  capital_budget_actual: 'text',
+  capital_budget_completed: 'text',
+  capital_budget_category: 'text',
+  capital_budget_scope_of_work: 'text',
+  preventative_budget_year: 'integer',
+  preventative_budget_estimated: 'number',
+  preventative_budget_actual: 'text',
+  preventative_budget_completed: 'text',
+  preventative_budget_category: 'text',
+  preventative_budget_scope_of_work: 'text',
+  total_leaks_12mo: 'text',
+  total_leak_expense_12mo: 'text',
+  last_inspection_date: 'date',
+  property_manager_name: 'text',
+  property_manager_email: 'text',
+  property_manager_phone: 'text',
+  property_manager_mobile: 'text',
+  asset_manager_name: 'text',
+  asset_manager_email: 'text',
+  asset_manager_phone: 'text',
+  notes: 'text'
+};
+
+// Header names of the original roof list template, used when no mapping is sent
+const LEGACY_HEADER_MAPPING: Record<string, string> = {
+  'Customer': 'customer',
+  'Region': 'region',
+  'Market': 'market',
+  'Roof Group': 'roof_group',
+  'Porperty Code': 'property_code', // Note: keeping the typo from original schema
+  'Property Code': 'property_code',
+  'Property Name': 'property_name',
+  'Roof Section': 'roof_section',
+  'Address': 'address',
+  'City': 'city',
+  'State': 'state',
+  'Zip': 'zip',
+  'Site Contact': 'site_contact',
+  'Site Contact Office Phone': 'site_contact_office_phone',
+  'Site Contact Mobile Phone': 'site_contact_mobile_phone',
+  'Site Contact Email': 'site_contact_email',
+  'Customer Sensitivity': 'customer_sensitivity',
+  'Roof Access': 'roof_access',
+  'Roof Access Requirements': 'roof_access_requirements',
+  'Roof Access Safety Concern': 'roof_access_safety_concern',
+  'Roof Access Location': 'roof_access_location',
+  'Roof Area': 'roof_area',
+  'Roof Area Unit': 'roof_area_unit',
+  'Roof System': 'roof_system',
+  'Roof System Description': 'roof_system_description',
+  'Roof Category': 'roof_category',
+  'Manufacturer': 'manufacturer',
+  'Installing Contractor': 'installing_contractor',
+  'Repair Contractor': 'repair_contractor',
+  'Manufacturer Has Warranty': 'manufacturer_has_warranty',
+  'Manufacturer Warranty Term': 'manufacturer_warranty_term',
+  'Manufacturer Warranty Number': 'manufacturer_warranty_number',
+  'Manufacturer Warranty Expiration': 'manufacturer_warranty_expiration',
+  'Installer Has Warranty': 'installer_has_warranty',
+  'Installer Warranty Term': 'installer_warranty_term',
+  'Installer Warranty Number': 'installer_warranty_number',
+  'Installer Warranty Expiration': 'installer_warranty_expiration',
+  'Install Year': 'install_year',
+  'Capital Budget Year': 'capital_budget_year',
+  'Capital Budget Estimated': 'capital_budget_estimated',
+  'Capital Budget Actual': 'capital_budget_actual',
+  'Capital Budget Completed': 'capital_budget_completed',
+  'Capital Budget Category': 'capital_budget_category',
+  'Capital Budget ScopeOfWork': 'capital_budget_scope_of_work',
+  'Preventative Budget Year': 'preventative_budget_year',
+  'Preventative Budget Estimated': 'preventative_budget_estimated',
+  'Preventative Budget Actual': 'preventative_budget_actual',
+  'Preventative Budget Completed': 'preventative_budget_completed',
+  'Preventative Budget Category': 'preventative_budget_category',
+  'Preventative Budget Scope Of Work': 'preventative_budget_scope_of_work',
+  'Total Leaks 12 mo': 'total_leaks_12mo',
+  'Total Leak Expense 12mo': 'total_leak_expense_12mo',
+  'Property Manager': 'property_manager_name',
+  'Property Manager Name': 'property_manager_name',
+  'Property Manager Email': 'property_manager_email',
+  'Property Manager Phone': 'property_manager_phone',
+  'Asset Manager': 'asset_manager_name',
+  'Asset Manager Name': 'asset_manager_name',
+  'Asset Manager Email': 'asset_manager_email',
+  'Asset Manager Phone': 'asset_manager_phone'
+};
+
+const SQ_FT_PER_UNIT: Record<NonNullable<TransformOptions['from_unit']>, number> = {
+  sq_ft: 1,
+  sq_m: 10.7639,
+  squares: 100 // roofing square
+};
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+export function legacyColumnMappings(headers: string[]): ColumnMapping[] {
+  return headers
+    .filter(header => header && LEGACY_HEADER_MAPPING[header])
+    .map(header => ({ source: header, target: LEGACY_HEADER_MAPPING[header], transform: 'auto' as const }));
+}
+
+/**
+ * Drop mappings that point at unknown fields or missing columns
+ */
+export function validateMappings(headers: string[], mappings: ColumnMapping[]): { valid: ColumnMapping[]; rejected: string[] } {
+  const valid: ColumnMapping[] = [];
+  const rejected: string[] = [];
+
+  mappings.forEach(mapping => {
+    if (!mapping.target || !(mapping.target in ROOF_IMPORT_FIELD_TYPES)) {
+      rejected.push(`${mapping.source} → ${mapping.target}: unknown field`);
+    } else if (!headers.includes(mapping.source)) {
+      rejected.push(`${mapping.source}: column not found in sheet`);
+    } else {
+      valid.push(mapping);
+    }
+  });
+
+  return { valid, rejected };
+}
+
+export function mapExcelRowToRoof(
+  headers: string[],
+  row: CellValue[],
+  mappings: ColumnMapping[]
+): { data: MappedRoof; warnings: MappingWarning[] } {
+  const data: MappedRoof = {};
+  const warnings: MappingWarning[] = [];
+
+  mappings.forEach(mapping => {
+    const value = row[headers.indexOf(mapping.source)];
+    if (isBlank(value)) return;
+
+    try {
+      const converted = applyTransform(value, mapping);
+      // Several columns may feed one field; the first non-empty value wins
+      if (converted !== null && converted !== undefined && data[mapping.target] === undefined) {
+        data[mapping.target] = converted;
+      }
+    } catch (error) {
+      warnings.push({
+        column: mapping.source,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Set default roof type if not provided
+  if (!data.roof_type && data.roof_system) {
+    data.roof_type = data.roof_system;
+  }
+
+  // Set default status
+  if (!data.status) {
+    data.status = 'active';
+  }
+
+  return { data, warnings };
+}
+
+export function applyTransform(value: CellValue, mapping: ColumnMapping): string | number | boolean | null {
+  const fieldType = ROOF_IMPORT_FIELD_TYPES[mapping.target];
+  const transform = !mapping.transform || mapping.transform === 'auto' ? fieldType : mapping.transform;
+  const options = mapping.options || {};
+
+  switch (transform) {
+    case 'number':
+      return parseNumber(value);
+    case 'integer':
+      return Math.round(parseNumber(value));
+    case 'boolean':
+      return parseBoolean(value);
+    case 'date':
+      return parseDate(value, options.date_format);
+    case 'year':
+      return typeof value === 'number' && value < 3000 ? value : Number(parseDate(value, options.date_format).slice(0, 4));
+    case 'convert_area':
+      return Math.round(parseNumber(value) * SQ_FT_PER_UNIT[options.from_unit || 'sq_ft']);
+    case 'lookup':
+      return lookupValue(value, options);
+    default:
+      return value instanceof Date ? value.toISOString().split('T')[0] : String(value).trim();
+  }
+}
+
+function isBlank(value: CellValue): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+function parseNumber(value: CellValue): number {
+  if (typeof value === 'number') return value;
+
+  // Accept "$12,500.00", "45,000 sf", "1,000 m2", "(1,200)"
+  const text = String(value).trim();
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  const match = text.replace(/,/g, '').match(/\d*\.?\d+/);
+
+  if (!match) {
+    throw new Error(`"${value}" is not a number`);
+  }
+  const parsed = parseFloat(match[0]);
+  return negative ? -parsed : parsed;
+}
+
+function parseBoolean(value: CellValue): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+
+  const text = String(value).trim().toLowerCase();
+  if (['yes', 'y', 'true', 't', '1', 'x'].includes(text)) return true;
+  if (['no', 'n', 'false', 'f', '0', 'none'].includes(text)) return false;
+  throw new Error(`"${value}" is not yes/no`);
+}
+
+function parseDate(value: CellValue, format: TransformOptions['date_format'] = 'MDY'): string {
+  if (value instanceof Date) {
+    return value.toISOString().split('T')[0];
+  }
+
+  if (typeof value === 'number') {
+    return new Date(EXCEL_EPOCH_MS + Math.round(value) * 86400000).toISOString().split('T')[0];
+  }
+
+  const text = String(value).trim();
+
+  // ISO date or timestamp (the dialog sends Excel dates as ISO strings)
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]), value);
+  }
+
+  const parts = text.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/);
+  if (parts) {
+    const [a, b, c] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+    if (format === 'YMD') return toIsoDate(a, b, c, value);
+    const year = c < 100 ? 2000 + c : c;
+    return format === 'DMY' ? toIsoDate(year, b, a, value) : toIsoDate(year, a, b, value);
+  }
+
+  const parsed = new Date(text);
+  if (!isNaN(parsed.getTime())) {
+    return parsed.toISOString().split('T')[0];
+  }
+
+  throw new Error(`"${value}" is not a date`);
+}
+
+function toIsoDate(year: number, month: number, day: number, original: CellValue): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || month > 12 || date.getUTCDate() !== day) {
+    throw new Error(`"${original}" is not a valid date`);
+  }
+  return date.toISOString().split('T')[0];
+}
+
+function lookupValue(value: CellValue, options: TransformOptions): string | null {
+  const key = String(value).trim().toLowerCase();
+  const match = Object.entries(options.lookup || {}).find(([from]) => from.trim().toLowerCase() === key);
+
+  if (match) return match[1];
+  if (options.lookup_passthrough) return String(value).trim();
+  throw new Error(`"${value}" has no lookup value`);
+}
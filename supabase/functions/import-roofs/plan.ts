@@ -0,0 +1,645 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  type CellValue,
+  type ColumnMapping,
+  type MappingWarning,
+  mapExcelRowToRoof
+} from './mapping.ts'
+import { type ChangeRecorder, fieldChanges } from './batch.ts'
+import { type MatchReason, MATCH_THRESHOLDS, PropertyMatchIndex } from '../_shared/propertyMatching.ts'
+import { fetchAllPages } from '../_shared/paging.ts'
+
+/**
+ * An import is built as a plan first (what each row would do against the current
+ * roofs) and then executed. A preview returns the plan without writing; a commit
+ * executes a plan the user has reviewed and trimmed.
+ */
+
+// Untyped database rows, as the edge functions have no generated types
+type DbRow = Record<string, unknown>;
+
+interface RoofRow extends DbRow {
+  id: string;
+  client_id: string | null;
+  status: string | null;
+  is_deleted?: boolean | null;
+}
+
+interface ContactRow {
+  id: string;
+  first_name: string;
+  last_name: string | null;
+  email: string | null;
+}
+
+export type PlannedAction = 'insert' | 'update' | 'unchanged' | 'error';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PlannedClient {
+  id?: string;
+  name: string;
+  create: boolean;
+  before?: string | null; // the roof's current client, for updates
+}
+
+export interface PlannedPropertyManager {
+  contactId: string;
+  name: string;
+  email?: string;
+}
+
+export interface PlannedRow {
+  row: number;
+  action: PlannedAction;
+  roofId?: string;
+  // How the row was matched to an existing roof
+  match?: { score: number; reasons: MatchReason[] };
+  // insert: every mapped value; update: only the changed fields
+  values: DbRow;
+  changes: FieldChange[];
+  client?: PlannedClient;
+  propertyManager?: PlannedPropertyManager;
+  createSiteContact?: boolean;
+  warnings: MappingWarning[];
+  error?: string;
+}
+
+export interface ImportPlan {
+  rows: PlannedRow[];
+  clientsToCreate: string[];
+  summary: {
+    insert: number;
+    update: number;
+    unchanged: number;
+    error: number;
+    propertyManagerAssignments: number;
+  };
+}
+
+export interface ImportResult {
+  success: number;
+  updated: number;
+  unchanged: number;
+  errors: Array<{ row: number; error: string }>;
+  warnings: Array<{ row: number; column: string; error: string }>;
+  unmappedColumns: string[];
+  clientsCreated: number;
+  propertyManagerAssignments: number;
+  batchId?: string;
+}
+
+interface PlanInput {
+  headers: string[];
+  rows: CellValue[][];
+  mappings: ColumnMapping[];
+  clientId?: string;
+  headerRow?: number;
+}
+
+// Fields the import may write besides the mapped ones
+const DERIVED_FIELDS = ['status', 'roof_type', 'property_manager_name', 'property_manager_email'];
+
+const ID_CHUNK_SIZE = 200;
+
+export async function buildImportPlan(supabase: SupabaseClient, input: PlanInput): Promise<ImportPlan> {
+  const { headers, rows, mappings, clientId, headerRow } = input;
+
+  // Rows from a known client skip the customer-name lookup
+  let fixedClient: { id: string; company_name: string } | null = null;
+  if (clientId) {
+    const { data: client, error: clientLookupError } = await supabase
+      .from('clients')
+      .select('id, company_name')
+      .eq('id', clientId)
+      .single();
+
+    if (clientLookupError) throw new Error(`Client not found: ${clientLookupError.message}`);
+    fixedClient = client;
+  }
+
+  // Create maps to track existing data
+  const clientMap = new Map<string, string>();
+  const clientNames = new Map<string, string>();
+  const propertyManagerMap = new Map<string, ContactRow>();
+
+  // Get existing clients
+  const existingClients = await fetchAllPages<{ id: string; company_name: string }>((from, to) => supabase
+    .from('clients')
+    .select('id, company_name')
+    .order('id')
+    .range(from, to));
+
+  existingClients.forEach(client => {
+    clientMap.set(client.company_name.toLowerCase(), client.id);
+    clientNames.set(client.id, client.company_name);
+  });
+
+  // Get existing property managers from client_contacts
+  const propertyManagers = await fetchAllPages<ContactRow>((from, to) => supabase
+    .from('client_contacts')
+    .select('id, first_name, last_name, email, client_id')
+    .eq('role', 'property_manager')
+    .order('id')
+    .range(from, to));
+
+  propertyManagers.forEach(pm => {
+    const fullName = `${pm.first_name} ${pm.last_name}`.toLowerCase();
+    const firstName = pm.first_name.toLowerCase();
+    propertyManagerMap.set(fullName, pm);
+    propertyManagerMap.set(firstName, pm); // Also match by first name only
+    if (pm.email) {
+      propertyManagerMap.set(pm.email.toLowerCase(), pm);
+    }
+  });
+
+  // Rows are matched to roofs with the shared duplicate matcher, and to earlier rows
+  // of the same file to catch a property listed twice
+  const existingIndex = new PropertyMatchIndex<RoofRow>(await fetchActiveRoofs(supabase));
+  const fileIndex = new PropertyMatchIndex<DbRow>();
+
+  const plannedRows: PlannedRow[] = [];
+  const clientsToCreate = new Set<string>();
+
+  rows.forEach((row, i) => {
+    const rowNumber = i + (headerRow ?? 1) + 1; // Excel is 1-indexed and data starts below the header
+    const { data: roofData, warnings } = mapExcelRowToRoof(headers, row, mappings);
+    const planned: PlannedRow = { row: rowNumber, action: 'error', values: {}, changes: [], warnings };
+    plannedRows.push(planned);
+
+    if (!roofData.property_name || !roofData.address) {
+      planned.error = 'Missing required fields: Property Name or Address';
+      return;
+    }
+
+    // Check if property already exists
+    const sameInFile = fileIndex.findBestMatch(roofData, MATCH_THRESHOLDS.duplicate);
+    if (sameInFile) {
+      planned.error = `Same property as row ${sameInFile.property.row}`;
+      return;
+    }
+    fileIndex.add({ ...roofData, row: rowNumber });
+
+    const existingMatch = existingIndex.findBestMatch(roofData, MATCH_THRESHOLDS.duplicate);
+    const existingProperty = existingMatch?.property ?? null;
+    if (existingMatch) {
+      planned.match = { score: existingMatch.match.score, reasons: existingMatch.match.reasons };
+    }
+
+    // Handle client lookup; new clients are created when the plan is executed
+    if (fixedClient) {
+      planned.client = { id: fixedClient.id, name: fixedClient.company_name, create: false };
+      roofData.customer = roofData.customer || fixedClient.company_name;
+    } else if (roofData.customer) {
+      const customerName = String(roofData.customer);
+      const existingId = clientMap.get(customerName.toLowerCase());
+      planned.client = { id: existingId, name: customerName, create: !existingId };
+      if (!existingId) clientsToCreate.add(customerName);
+    }
+
+    // Enhanced property manager matching
+    let propertyManagerInfo: ContactRow | undefined;
+    const pmFields = ['property_manager_name', 'site_contact'];
+
+    for (const field of pmFields) {
+      if (roofData[field]) {
+        const pmName = String(roofData[field]).toLowerCase().trim();
+        // Try exact match first
+        if (propertyManagerMap.has(pmName)) {
+          propertyManagerInfo = propertyManagerMap.get(pmName);
+          break;
+        }
+        // Try partial matches
+        for (const [key, pm] of propertyManagerMap.entries()) {
+          if (key.includes(pmName) || pmName.includes(key)) {
+            propertyManagerInfo = pm;
+            break;
+          }
+        }
+        if (propertyManagerInfo) break;
+      }
+    }
+
+    // Set property manager fields if found
+    if (propertyManagerInfo) {
+      roofData.property_manager_name = `${propertyManagerInfo.first_name} ${propertyManagerInfo.last_name}`;
+      if (propertyManagerInfo.email) roofData.property_manager_email = propertyManagerInfo.email;
+      planned.propertyManager = {
+        contactId: propertyManagerInfo.id,
+        name: roofData.property_manager_name,
+        email: propertyManagerInfo.email ?? undefined
+      };
+    }
+
+    if (existingProperty) {
+      planned.roofId = existingProperty.id;
+
+      // Blank cells never overwrite existing data
+      planned.changes = Object.entries(roofData)
+        .filter(([field, value]) => value !== null && value !== undefined && value !== '' &&
+          !(field === 'status' && existingProperty.status) &&
+          !valuesEqual(existingProperty[field], value))
+        .map(([field, value]) => ({ field, before: existingProperty[field] ?? null, after: value }));
+      planned.values = Object.fromEntries(planned.changes.map(change => [change.field, change.after]));
+
+      if (planned.client) {
+        planned.client.before = existingProperty.client_id ? clientNames.get(existingProperty.client_id) ?? null : null;
+        if (planned.client.id && planned.client.id === existingProperty.client_id) {
+          delete planned.client;
+        }
+      }
+
+      planned.action = planned.changes.length > 0 || planned.client ? 'update' : 'unchanged';
+    } else {
+      planned.action = 'insert';
+      planned.values = roofData;
+      planned.changes = Object.entries(roofData).map(([field, value]) => ({ field, before: null, after: value }));
+      // Create site contact if available and no property manager was matched
+      planned.createSiteContact = !!roofData.site_contact && !propertyManagerInfo;
+    }
+  });
+
+  return {
+    rows: plannedRows,
+    clientsToCreate: [...clientsToCreate],
+    summary: {
+      insert: plannedRows.filter(r => r.action === 'insert').length,
+      update: plannedRows.filter(r => r.action === 'update').length,
+      unchanged: plannedRows.filter(r => r.action === 'unchanged').length,
+      error: plannedRows.filter(r => r.action === 'error').length,
+      propertyManagerAssignments: plannedRows.filter(r => r.propertyManager && r.action !== 'error').length
+    }
+  };
+}
+
+/**
+ * Execute the insert/update rows of a plan. The plan may come back from the browser,
+ * so it is checked against the database first: inserts are matched against the
+ * current roofs again, so a plan committed twice can't duplicate them, and every
+ * roof, client and contact id it names must exist. With `verifyUnchanged`, an update
+ * is also refused when the roof no longer holds the `before` values (client included)
+ * shown in the preview. Every write is passed to the recorder so the batch can be
+ * traced and rolled back.
+ */
+export async function executeImportPlan(
+  supabase: SupabaseClient,
+  rows: PlannedRow[],
+  allowedFields: Set<string>,
+  verifyUnchanged: boolean,
+  recorder?: ChangeRecorder
+): Promise<Omit<ImportResult, 'warnings' | 'unmappedColumns'>> {
+  const result = {
+    success: 0,
+    updated: 0,
+    unchanged: rows.filter(r => r.action === 'unchanged').length,
+    errors: rows.filter(r => r.action === 'error').map(r => ({ row: r.row, error: r.error || 'Invalid row' })),
+    clientsCreated: 0,
+    propertyManagerAssignments: 0
+  };
+
+  const actionable = rows.filter(r => r.action === 'insert' || r.action === 'update');
+  const currentRoofs = await fetchByIds<RoofRow>(
+    supabase,
+    'roofs',
+    '*',
+    actionable.filter(r => r.action === 'update' && r.roofId).map(r => r.roofId!)
+  );
+  const knownClients = await fetchByIds<{ id: string; company_name: string }>(
+    supabase,
+    'clients',
+    'id, company_name',
+    [
+      ...actionable.flatMap(r => r.client?.id ? [r.client.id] : []),
+      ...[...currentRoofs.values()].flatMap(roof => roof.client_id ? [roof.client_id] : [])
+    ]
+  );
+  const knownContacts = await fetchByIds<{ id: string }>(
+    supabase,
+    'client_contacts',
+    'id',
+    actionable.flatMap(r => r.propertyManager ? [r.propertyManager.contactId] : [])
+  );
+  // Roofs written by an earlier commit of the same plan are in here, so its inserts match them
+  const existingIndex = actionable.some(r => r.action === 'insert')
+    ? new PropertyMatchIndex<RoofRow>(await fetchActiveRoofs(supabase))
+    : null;
+  const createdClients = new Map<string, string>();
+
+  for (const planned of actionable) {
+    try {
+      const unknownField = Object.keys(planned.values).find(field => !allowedFields.has(field));
+      if (unknownField) {
+        result.errors.push({ row: planned.row, error: `Field ${unknownField} cannot be imported` });
+        continue;
+      }
+
+      if (planned.action === 'update') {
+        const current = planned.roofId ? currentRoofs.get(planned.roofId) : undefined;
+        if (!current || current.is_deleted) {
+          result.errors.push({ row: planned.row, error: 'No matching property to update' });
+          continue;
+        }
+
+        if (verifyUnchanged) {
+          const currentClient = current.client_id ? knownClients.get(current.client_id)?.company_name ?? null : null;
+          const stale = planned.changes.some(change =>
+            change.field in planned.values && !valuesEqual(current[change.field], change.before)) ||
+            (planned.client && !valuesEqual(currentClient, planned.client.before ?? null));
+          if (stale) {
+            result.errors.push({ row: planned.row, error: 'Property changed since the preview; preview again to update it' });
+            continue;
+          }
+        }
+      } else {
+        const duplicate = existingIndex?.findBestMatch(planned.values, MATCH_THRESHOLDS.duplicate);
+        if (duplicate) {
+          result.errors.push({
+            row: planned.row,
+            error: `Property already exists as ${duplicate.property.property_name ?? 'another property'}; preview again to update it`
+          });
+          continue;
+        }
+      }
+
+      if (planned.client?.id && !knownClients.has(planned.client.id)) {
+        result.errors.push({ row: planned.row, error: 'Client not found' });
+        continue;
+      }
+
+      if (planned.propertyManager && !knownContacts.has(planned.propertyManager.contactId)) {
+        result.errors.push({ row: planned.row, error: 'Property manager contact not found' });
+        continue;
+      }
+
+      // Handle client creation/lookup
+      const roofData = { ...planned.values };
+      if (planned.client) {
+        let clientId = planned.client.id ?? createdClients.get(planned.client.name.toLowerCase());
+
+        if (!clientId) {
+          const { data: newClient, error: clientError } = await supabase
+            .from('clients')
+            .insert({
+              company_name: planned.client.name,
+              contact_name: roofData.site_contact,
+              phone: roofData.site_contact_office_phone || roofData.site_contact_mobile_phone,
+              email: roofData.site_contact_email,
+              address: roofData.address,
+              city: roofData.city,
+              state: roofData.state,
+              zip: roofData.zip
+            })
+            .select('id')
+            .single();
+
+          if (clientError) {
+            console.error('Error creating client:', clientError);
+            result.errors.push({
+              row: planned.row,
+              error: `Failed to create client: ${clientError.message}`
+            });
+            continue;
+          }
+
+          createdClients.set(planned.client.name.toLowerCase(), newClient.id);
+          clientId = newClient.id;
+          result.clientsCreated++;
+          await recorder?.record([{ entity_type: 'client', entity_id: newClient.id, change_type: 'insert', row_number: planned.row }]);
+        }
+
+        roofData.client_id = clientId;
+      }
+
+      if (planned.action === 'update') {
+        // UPDATE existing property
+        const roofId = planned.roofId!;
+        console.log(`Updating existing property: row ${planned.row}`);
+
+        const { data: updatedRoof, error: updateError } = await supabase
+          .from('roofs')
+          .update(roofData)
+          .eq('id', roofId)
+          .select('*')
+          .single();
+
+        if (updateError) {
+          console.error('Error updating roof:', updateError);
+          result.errors.push({
+            row: planned.row,
+            error: `Failed to update roof: ${updateError.message}`
+          });
+          continue;
+        }
+
+        result.updated++;
+        await recorder?.record(fieldChanges(
+          roofId,
+          planned.row,
+          Object.keys(roofData),
+          currentRoofs.get(roofId) ?? {},
+          updatedRoof
+        ));
+
+        // Handle property manager assignment
+        if (planned.propertyManager) {
+          const assignmentId = await handlePropertyManagerAssignment(supabase, roofId, planned.propertyManager.contactId);
+          result.propertyManagerAssignments++;
+          if (assignmentId) await recorder?.record([assignmentChange(assignmentId, roofId, planned.row)]);
+        }
+      } else {
+        // INSERT new property
+        console.log(`Creating new property: ${roofData.property_name}`);
+
+        const { data: newRoof, error: roofError } = await supabase
+          .from('roofs')
+          .insert(roofData)
+          .select('*')
+          .single();
+
+        if (roofError) {
+          console.error('Error inserting roof:', roofError);
+          result.errors.push({
+            row: planned.row,
+            error: `Failed to insert roof: ${roofError.message}`
+          });
+          continue;
+        }
+
+        result.success++;
+        existingIndex?.add(newRoof);
+        await recorder?.record(fieldChanges(newRoof.id, planned.row, Object.keys(roofData), null, newRoof));
+
+        // Handle property manager assignment
+        if (planned.propertyManager && newRoof) {
+          const assignmentId = await handlePropertyManagerAssignment(supabase, newRoof.id, planned.propertyManager.contactId);
+          result.propertyManagerAssignments++;
+          if (assignmentId) await recorder?.record([assignmentChange(assignmentId, newRoof.id, planned.row)]);
+        }
+
+        // Create site contact if available and no property manager was matched
+        if (planned.createSiteContact && roofData.client_id) {
+          const contactId = await createSiteContact(supabase, String(roofData.client_id), roofData);
+          if (contactId) {
+            await recorder?.record([{
+              entity_type: 'client_contact',
+              entity_id: contactId,
+              roof_id: newRoof.id,
+              change_type: 'insert',
+              row_number: planned.row
+            }]);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Error processing row ${planned.row}:`, error);
+      result.errors.push({
+        row: planned.row,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  return result;
+}
+
+const assignmentChange = (assignmentId: string, roofId: string, row: number) => ({
+  entity_type: 'property_contact_assignment' as const,
+  entity_id: assignmentId,
+  roof_id: roofId,
+  change_type: 'insert' as const,
+  row_number: row
+});
+
+export function importableFields(mappableFields: string[]): Set<string> {
+  return new Set([...mappableFields, ...DERIVED_FIELDS]);
+}
+
+// Every roof that hasn't been deleted, to match rows against
+async function fetchActiveRoofs(supabase: SupabaseClient): Promise<RoofRow[]> {
+  try {
+    return await fetchAllPages<RoofRow>((from, to) => supabase
+      .from('roofs')
+      .select('*')
+      .or('is_deleted.is.null,is_deleted.eq.false')
+      .order('id')
+      .range(from, to));
+  } catch (error) {
+    throw new Error(`Failed to load properties: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+async function fetchByIds<T extends { id: string }>(
+  supabase: SupabaseClient,
+  table: string,
+  columns: string,
+  ids: string[]
+): Promise<Map<string, T>> {
+  const rows = new Map<string, T>();
+  const unique = [...new Set(ids)];
+
+  for (let i = 0; i < unique.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .in('id', unique.slice(i, i + ID_CHUNK_SIZE));
+
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+    ((data || []) as unknown as T[]).forEach(row => rows.set(row.id, row));
+  }
+
+  return rows;
+}
+
+// Compare a stored value with an imported one: numbers numerically, dates by day, text trimmed
+function valuesEqual(stored: unknown, incoming: unknown): boolean {
+  if ((stored === null || stored === undefined || stored === '') && (incoming === null || incoming === undefined || incoming === '')) {
+    return true;
+  }
+  if (stored === null || stored === undefined || incoming === null || incoming === undefined) {
+    return false;
+  }
+  if (typeof incoming === 'number' || typeof stored === 'number') {
+    return Number(stored) === Number(incoming);
+  }
+  if (typeof incoming === 'boolean' || typeof stored === 'boolean') {
+    return String(stored) === String(incoming);
+  }
+
+  const a = String(stored).trim();
+  const b = String(incoming).trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(a) && /^\d{4}-\d{2}-\d{2}$/.test(b)) {
+    return a.slice(0, 10) === b;
+  }
+  return a === b;
+}
+
+// Returns the id of a newly created assignment, or null when one already existed
+async function handlePropertyManagerAssignment(supabase: SupabaseClient, roofId: string, contactId: string): Promise<string | null> {
+  try {
+    // Check if assignment already exists
+    const { data: existing } = await supabase
+      .from('property_contact_assignments')
+      .select('id')
+      .eq('roof_id', roofId)
+      .eq('contact_id', contactId)
+      .eq('assignment_type', 'property_manager')
+      .single();
+
+    if (!existing) {
+      // Create new assignment
+      const { data: created } = await supabase
+        .from('property_contact_assignments')
+        .insert({
+          roof_id: roofId,
+          contact_id: contactId,
+          assignment_type: 'property_manager',
+          is_active: true
+        })
+        .select('id')
+        .single();
+      return created?.id ?? null;
+    }
+  } catch (error) {
+    console.error('Error handling property manager assignment:', error);
+  }
+  return null;
+}
+
+async function createSiteContact(supabase: SupabaseClient, clientId: string, roofData: DbRow): Promise<string | null> {
+  try {
+    if (roofData.site_contact) {
+      const siteContact = String(roofData.site_contact);
+      const nameParts = siteContact.split(' ');
+      const firstName = nameParts[0] || siteContact;
+      const lastName = nameParts.slice(1).join(' ') || '';
+
+      const { data: contact, error: contactError } = await supabase
+        .from('client_contacts')
+        .insert({
+          client_id: clientId,
+          first_name: firstName,
+          last_name: lastName,
+          email: roofData.site_contact_email,
+          office_phone: roofData.site_contact_office_phone,
+          mobile_phone: roofData.site_contact_mobile_phone,
+          role: 'site_contact',
+          is_primary: true,
+          is_active: true
+        })
+        .select('id')
+        .single();
+
+      if (contactError) {
+        console.error('Error creating contact:', contactError);
+      }
+      return contact?.id ?? null;
+    }
+  } catch (error) {
+    console.error('Error creating site contact:', error);
+  }
+  return null;
+}
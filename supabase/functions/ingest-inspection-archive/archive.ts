@@ -0,0 +1,85 @@
+import { Unzip, UnzipInflate } from 'https://esm.sh/fflate@0.8.2'
+
+/**
+ * Streaming ZIP expansion. Archives of legacy reports run to gigabytes, so entries are
+ * inflated one at a time as the download streams in and handed off as soon as each is
+ * complete, instead of loading the archive into memory.
+ */
+
+export interface ArchiveExpansion {
+  files: number;
+  // Entries that weren't PDFs, plus OS metadata like __MACOSX
+  skipped: number;
+}
+
+// Uploads allowed in flight before reading more of the archive
+const MAX_PENDING_FILES = 4;
+
+export function isReportEntry(path: string): boolean {
+  const name = path.split('/').pop() || '';
+  return /\.pdf$/i.test(name) && !name.startsWith('.') && !path.startsWith('__MACOSX/');
+}
+
+export async function expandArchive(
+  archive: ReadableStream<Uint8Array>,
+  onFile: (path: string, data: Uint8Array) => Promise<void>
+): Promise<ArchiveExpansion> {
+  const result: ArchiveExpansion = { files: 0, skipped: 0 };
+  const pending: Promise<void>[] = [];
+  let failure: unknown = null;
+
+  const unzipper = new Unzip();
+  unzipper.register(UnzipInflate);
+  unzipper.onfile = (entry) => {
+    if (entry.name.endsWith('/')) return;
+    if (!isReportEntry(entry.name)) {
+      result.skipped++;
+      return;
+    }
+
+    const chunks: Uint8Array[] = [];
+    entry.ondata = (error, chunk, final) => {
+      if (error) {
+        failure = error;
+        return;
+      }
+      chunks.push(chunk);
+      if (final) {
+        result.files++;
+        pending.push(onFile(entry.name, concat(chunks)).catch(uploadError => { failure = uploadError; }));
+      }
+    };
+    entry.start();
+  };
+
+  const reader = archive.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    unzipper.push(value ?? new Uint8Array(0), done);
+
+    if (pending.length >= MAX_PENDING_FILES) {
+      await Promise.all(pending.splice(0));
+    }
+    if (failure) {
+      await reader.cancel();
+      throw failure;
+    }
+    if (done) break;
+  }
+
+  await Promise.all(pending);
+  if (failure) throw failure;
+
+  return result;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const data = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
@@ -0,0 +1,261 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authorizeManager, isServiceRoleCall } from '../_shared/auth.ts'
+import { fetchAllPages } from '../_shared/paging.ts'
+import type { MatchableRoof } from '../_shared/reportPropertyMatcher.ts'
+import { expandArchive } from './archive.ts'
+import { ingestItem, type IngestionItem } from './ingest.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Supabase's edge runtime keeps the worker alive for promises passed here after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+interface IngestionRequest {
+  // expand: unpack an uploaded ZIP into items, then start processing
+  // start: (re)start processing with `workers` parallel workers
+  // process: one worker's next batch; workers call this on themselves until the job is done.
+  // Only the function itself may call it, with the run the worker belongs to.
+  action: 'expand' | 'start' | 'process';
+  jobId: string;
+  runId?: string;
+  workers?: number;
+  // start: put failed items back in the queue
+  retryFailed?: boolean;
+}
+
+const BUCKET = 'roof-files';
+const MAX_WORKERS = 6;
+// Items per worker call; kept small so each call stays inside the function time limit
+const BATCH_SIZE = 3;
+// An item still processing after this outlived the invocation that claimed it (edge
+// functions stop at 400 seconds), so the next claim takes it back
+const ITEM_TIMEOUT_SECONDS = 7 * 60;
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+});
+
+const stagingPath = (jobId: string) => `pending-review/ingestion/${jobId}/${crypto.randomUUID()}.pdf`;
+
+/**
+ * Hand a worker call to this function again, so the batch runs in its own invocation
+ */
+async function dispatchWorker(jobId: string, runId: string): Promise<void> {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/ingest-inspection-archive`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ action: 'process', jobId, runId })
+  });
+  if (!response.ok) {
+    console.error(`Failed to dispatch ingestion worker for job ${jobId}: ${response.status}`);
+  }
+  await response.body?.cancel();
+}
+
+/**
+ * Start a new run of workers; workers still going from an earlier run stop after their batch
+ */
+async function startWorkers(supabase: SupabaseClient, jobId: string, workers: number): Promise<void> {
+  const runId = crypto.randomUUID();
+  const { error } = await supabase
+    .from('inspection_ingestion_jobs')
+    .update({ status: 'processing', worker_run_id: runId, error: null, completed_at: null, last_activity_at: new Date().toISOString() })
+    .eq('id', jobId);
+  if (error) throw new Error(`Failed to start ingestion job: ${error.message}`);
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(workers, MAX_WORKERS)) }, () => dispatchWorker(jobId, runId)));
+}
+
+async function expandJobArchive(supabase: SupabaseClient, jobId: string, workers: number): Promise<void> {
+  const { data: job, error } = await supabase
+    .from('inspection_ingestion_jobs')
+    .select('archive_path')
+    .eq('id', jobId)
+    .single();
+  if (error || !job?.archive_path) throw new Error('The job has no uploaded archive');
+
+  // A resumed expansion skips entries it already unpacked
+  const { data: existing } = await supabase
+    .from('inspection_ingestion_items')
+    .select('source_path')
+    .eq('job_id', jobId);
+  const unpacked = new Set((existing || []).map((item: { source_path: string }) => item.source_path));
+
+  const { data: signed, error: signError } = await supabase.storage.from(BUCKET).createSignedUrl(job.archive_path, 3600);
+  if (signError || !signed) throw new Error(`Failed to read the archive: ${signError?.message}`);
+  const download = await fetch(signed.signedUrl);
+  if (!download.ok || !download.body) throw new Error(`Failed to download the archive: ${download.status}`);
+
+  const expansion = await expandArchive(download.body, async (path, data) => {
+    if (unpacked.has(path)) return;
+
+    const storagePath = stagingPath(jobId);
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(storagePath, data, { contentType: 'application/pdf' });
+    if (uploadError) throw new Error(`Failed to unpack ${path}: ${uploadError.message}`);
+
+    const { error: itemError } = await supabase
+      .from('inspection_ingestion_items')
+      .upsert({
+        job_id: jobId,
+        source_path: path,
+        file_name: path.split('/').pop(),
+        file_size: data.length,
+        storage_path: storagePath
+      }, { onConflict: 'job_id,source_path', ignoreDuplicates: true });
+    if (itemError) throw new Error(`Failed to record ${path}: ${itemError.message}`);
+  });
+
+  console.log(`Expanded archive for job ${jobId}: ${expansion.files} reports, ${expansion.skipped} other files skipped`);
+
+  await supabase.from('inspection_ingestion_jobs').update({ skipped_count: expansion.skipped }).eq('id', jobId);
+  await supabase.storage.from(BUCKET).remove([job.archive_path]);
+  await supabase.rpc('refresh_ingestion_job', { p_job_id: jobId });
+  await startWorkers(supabase, jobId, workers);
+}
+
+/**
+ * Claim and process one batch, then hand off to a fresh invocation while work remains
+ */
+async function runWorker(supabase: SupabaseClient, jobId: string, runId: string): Promise<void> {
+  const { data: job } = await supabase
+    .from('inspection_ingestion_jobs')
+    .select('status, created_by, worker_run_id')
+    .eq('id', jobId)
+    .single();
+  // Paused and cancelled jobs stop here; their claimed items are picked up on restart.
+  // So do workers from an earlier run once the job has been started again.
+  if (job?.status !== 'processing' || job.worker_run_id !== runId) return;
+
+  const { data: items, error } = await supabase.rpc('claim_ingestion_items', {
+    p_job_id: jobId,
+    p_limit: BATCH_SIZE,
+    p_timeout_seconds: ITEM_TIMEOUT_SECONDS
+  });
+  if (error) throw new Error(`Failed to claim ingestion items: ${error.message}`);
+
+  if (items && items.length > 0) {
+    const roofs = await fetchAllPages<MatchableRoof>((from, to) => supabase
+      .from('roofs')
+      .select('id, property_name, address, city, state')
+      .eq('is_deleted', false)
+      .order('id')
+      .range(from, to))
+      .catch((roofError: Error) => {
+        throw new Error(`Failed to load properties: ${roofError.message}`);
+      });
+
+    await Promise.all((items as IngestionItem[]).map(async (item) => {
+      let outcome;
+      try {
+        outcome = await ingestItem(supabase, item, roofs, job.created_by);
+      } catch (itemError) {
+        outcome = { status: 'failed', message: itemError instanceof Error ? itemError.message : 'Unknown error' };
+      }
+
+      if (outcome.status === 'duplicate') {
+        await supabase.storage.from(BUCKET).remove([item.storage_path]);
+      }
+
+      const { error: updateError } = await supabase
+        .from('inspection_ingestion_items')
+        .update({ ...outcome, finished_at: new Date().toISOString() })
+        .eq('id', item.id);
+      if (updateError) console.error(`Failed to record outcome for ${item.source_path}:`, updateError);
+    }));
+  }
+
+  await supabase.rpc('refresh_ingestion_job', { p_job_id: jobId });
+
+  if (items && items.length > 0) {
+    await dispatchWorker(jobId, runId);
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { action, jobId, runId, workers = 3, retryFailed = false } = await req.json() as IngestionRequest;
+
+    // Worker calls come from this function; everything else needs a manager
+    if (action === 'process') {
+      if (!isServiceRoleCall(req)) {
+        return json({ error: 'Workers are started with the start action' }, 403);
+      }
+    } else {
+      const denied = await authorizeManager(supabase, req, { action: 'run inspection ingestion' });
+      if (denied) {
+        return json({ error: denied.error }, denied.status);
+      }
+    }
+
+    if (!jobId) throw new Error('jobId is required');
+
+    if (action === 'process') {
+      if (!runId) throw new Error('runId is required');
+      EdgeRuntime.waitUntil(runWorker(supabase, jobId, runId).catch(async (error) => {
+        console.error(`Ingestion worker for job ${jobId} failed:`, error);
+        await supabase
+          .from('inspection_ingestion_jobs')
+          .update({ error: error instanceof Error ? error.message : 'Worker failed' })
+          .eq('id', jobId);
+      }));
+      return json({ accepted: true }, 202);
+    }
+
+    if (action === 'expand') {
+      const { error } = await supabase
+        .from('inspection_ingestion_jobs')
+        .update({ status: 'expanding', error: null })
+        .eq('id', jobId);
+      if (error) throw error;
+
+      EdgeRuntime.waitUntil(expandJobArchive(supabase, jobId, workers).catch(async (expandError) => {
+        console.error(`Expanding archive for job ${jobId} failed:`, expandError);
+        await supabase
+          .from('inspection_ingestion_jobs')
+          .update({ status: 'failed', error: expandError instanceof Error ? expandError.message : 'Archive expansion failed' })
+          .eq('id', jobId);
+      }));
+      return json({ accepted: true }, 202);
+    }
+
+    if (action === 'start') {
+      if (retryFailed) {
+        const { error } = await supabase
+          .from('inspection_ingestion_items')
+          .update({ status: 'pending', attempts: 0, message: null, finished_at: null })
+          .eq('job_id', jobId)
+          .eq('status', 'failed');
+        if (error) throw error;
+        await supabase.rpc('refresh_ingestion_job', { p_job_id: jobId });
+      }
+
+      await startWorkers(supabase, jobId, workers);
+      console.log(`Started ${workers} ingestion workers for job ${jobId}`);
+      return json({ started: true });
+    }
+
+    throw new Error(`Unknown action: ${action}`);
+
+  } catch (error) {
+    console.error('Ingestion error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400);
+  }
+});
@@ -0,0 +1,308 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getDocumentProxy } from 'https://esm.sh/unpdf@0.12.1'
+import { layoutPageText, PAGE_SEPARATOR, type PositionedText } from '../_shared/pdfTextLayout.ts'
+import { ReportTextParser, PDF_PARSER_VERSION, type ExtractedPDFData } from '../_shared/reportParser.ts'
+import { ReportPropertyMatcher, type MatchableRoof, type PropertyMatch } from '../_shared/reportPropertyMatcher.ts'
+import { getReviewReasons, lowConfidenceFields } from '../_shared/extractionReview.ts'
+import { HistoricalInspectionRecords, ROOF_FIELD_SOURCES, type RoofFieldChange } from '../_shared/historicalInspectionRecords.ts'
+
+/**
+ * One archive item through the same steps as HistoricalInspectionService.processPDFFile:
+ * extract, match, check for duplicates, then store it or hold it for review.
+ */
+
+export interface IngestionItem {
+  id: string;
+  job_id: string;
+  source_path: string;
+  file_name: string;
+  file_size: number | null;
+  storage_path: string;
+}
+
+export interface ItemOutcome {
+  status: 'stored' | 'review' | 'duplicate' | 'failed';
+  property_hint: string | null;
+  file_hash?: string;
+  roof_id?: string;
+  match_confidence?: number;
+  inspection_id?: string;
+  review_id?: string;
+  message?: string;
+}
+
+const BUCKET = 'roof-files';
+
+// Folder names that say what a file is rather than which property it belongs to
+const GENERIC_FOLDERS = /^(reports?|inspections?|inspection reports?|archives?|pdfs?|scans?|files?|documents?|docs|misc|old|legacy|historical|annual|storm|roof ?reports?|\d{4}|\d{4}[-_ ]\d{2}([-_ ]\d{2})?|q[1-4]( \d{4})?)$/i;
+
+/**
+ * Property name suggested by the folders a report was filed under: the deepest folder
+ * that isn't a year or a generic name like "Reports"
+ */
+export function propertyHintFromPath(path: string): string | null {
+  const folders = path.split('/').slice(0, -1)
+    .map(folder => folder.replace(/[_]+/g, ' ').replace(/\s+/g, ' ').trim())
+    .filter(folder => folder && !GENERIC_FOLDERS.test(folder));
+
+  return folders.length > 0 ? folders[folders.length - 1] : null;
+}
+
+/**
+ * The report's property matched on its own text and on its folder. When both agree the
+ * match is as strong as the better of the two; otherwise the stronger one wins and
+ * anything below the review threshold goes to a person.
+ */
+export function matchReportProperty(
+  extractedData: ExtractedPDFData,
+  propertyHint: string | null,
+  roofs: MatchableRoof[]
+): PropertyMatch | null {
+  const byReport = ReportPropertyMatcher.matchProperty(extractedData.propertyName, extractedData.address, roofs);
+  const byFolder = propertyHint ? ReportPropertyMatcher.matchProperty(propertyHint, '', roofs) : null;
+
+  if (byFolder && byReport && byFolder.id === byReport.id) {
+    return { ...byReport, confidence: Math.max(byReport.confidence, byFolder.confidence) };
+  }
+  if (byFolder && (!byReport || byFolder.confidence > byReport.confidence)) {
+    return { ...byFolder, matchType: 'folder' };
+  }
+  return byReport;
+}
+
+async function extractReportText(data: Uint8Array): Promise<{ text: string; pageCount: number }> {
+  const pdf = await getDocumentProxy(data);
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(layoutPageText(content.items.filter((item: object): item is PositionedText => 'str' in item)));
+      page.cleanup();
+    }
+
+    if (pages.every(page => page.trim() === '')) {
+      throw new Error('The PDF has no text layer (scanned images need OCR)');
+    }
+
+    return { text: pages.join(PAGE_SEPARATOR), pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+async function sha256(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Same checks as HistoricalInspectionService.checkForDuplicateUpload: the file name or
+ * size already on the roof, or a completed inspection of the same date and type
+ */
+export async function checkForDuplicateUpload(
+  supabase: SupabaseClient,
+  roofId: string,
+  fileName: string,
+  fileSize: number,
+  reportDate: string,
+  inspectionType: string
+): Promise<string | null> {
+  const { data: byName } = await supabase
+    .from('roof_files')
+    .select('file_name, created_at')
+    .eq('roof_id', roofId)
+    .eq('file_name', fileName)
+    .eq('file_type', 'inspection_report')
+    .limit(1);
+  if (byName && byName.length > 0) {
+    return `${fileName} was already uploaded for this property on ${new Date(byName[0].created_at).toLocaleDateString()}`;
+  }
+
+  const { data: bySize } = await supabase
+    .from('roof_files')
+    .select('file_name')
+    .eq('roof_id', roofId)
+    .eq('file_size', fileSize)
+    .eq('file_type', 'inspection_report')
+    .limit(1);
+  if (bySize && bySize.length > 0) {
+    return `Same size as ${bySize[0].file_name}, already uploaded for this property`;
+  }
+
+  let query = supabase
+    .from('inspections')
+    .select('id')
+    .eq('roof_id', roofId)
+    .eq('completed_date', reportDate)
+    .eq('status', 'completed');
+  if (inspectionType !== 'unknown') {
+    query = query.eq('inspection_type', inspectionType);
+  }
+  const { data: byDate } = await query.limit(1);
+  if (byDate && byDate.length > 0) {
+    return `An inspection dated ${reportDate} is already recorded for this property`;
+  }
+
+  return null;
+}
+
+export async function ingestItem(
+  supabase: SupabaseClient,
+  item: IngestionItem,
+  roofs: MatchableRoof[],
+  uploadedBy: string | null
+): Promise<ItemOutcome> {
+  const propertyHint = propertyHintFromPath(item.source_path);
+
+  const { data: blob, error: downloadError } = await supabase.storage.from(BUCKET).download(item.storage_path);
+  if (downloadError || !blob) {
+    return { status: 'failed', property_hint: propertyHint, message: `Could not read the uploaded file: ${downloadError?.message}` };
+  }
+  const data = new Uint8Array(await blob.arrayBuffer());
+  const fileHash = await sha256(data);
+  const fileSize = item.file_size ?? data.length;
+
+  // The same file twice in one archive is stored once
+  const { data: copies } = await supabase
+    .from('inspection_ingestion_items')
+    .select('source_path')
+    .eq('job_id', item.job_id)
+    .eq('file_hash', fileHash)
+    .neq('id', item.id)
+    .in('status', ['stored', 'review'])
+    .limit(1);
+  if (copies && copies.length > 0) {
+    return { status: 'duplicate', property_hint: propertyHint, file_hash: fileHash, message: `Same file as ${copies[0].source_path}` };
+  }
+
+  let extractedData: ExtractedPDFData;
+  try {
+    const { text, pageCount } = await extractReportText(data);
+    extractedData = ReportTextParser.parseText(text, item.file_name, pageCount);
+  } catch (error) {
+    return { status: 'failed', property_hint: propertyHint, file_hash: fileHash, message: error instanceof Error ? error.message : 'Not a readable PDF' };
+  }
+
+  const match = matchReportProperty(extractedData, propertyHint, roofs);
+  const outcome = { property_hint: propertyHint, file_hash: fileHash, roof_id: match?.id, match_confidence: match?.confidence };
+
+  const inspectionDate = HistoricalInspectionRecords.parseInspectionDate(extractedData.reportDate);
+  let roofChanges: RoofFieldChange[] = [];
+  if (match) {
+    const duplicate = await checkForDuplicateUpload(
+      supabase,
+      match.id,
+      item.file_name,
+      fileSize,
+      inspectionDate,
+      HistoricalInspectionRecords.normalizeInspectionType(extractedData.reportType, extractedData.inspectionTypeClassification)
+    );
+    if (duplicate) {
+      return { ...outcome, status: 'duplicate', message: duplicate };
+    }
+
+    const { data: roof, error: roofError } = await supabase
+      .from('roofs')
+      .select(`last_inspection_date, ${ROOF_FIELD_SOURCES.map(source => source.field).join(', ')}`)
+      .eq('id', match.id)
+      .single();
+    if (roofError || !roof) {
+      return { ...outcome, status: 'failed', message: `Failed to load property: ${roofError?.message}` };
+    }
+    roofChanges = HistoricalInspectionRecords.diffRoofFields(roof, extractedData);
+  }
+
+  const { extractedText: _extractedText, ...storedExtraction } = extractedData;
+  const reviewReasons = getReviewReasons(extractedData, match, roofChanges.some(change => change.overwrite));
+
+  if (reviewReasons.length > 0) {
+    // The uploaded file is already staged where the review queue keeps its PDFs
+    const { data: review, error: reviewError } = await supabase
+      .from('inspection_extraction_reviews')
+      .insert({
+        file_name: item.file_name,
+        file_size: fileSize,
+        staged_path: item.storage_path,
+        raw_text: extractedData.extractedText,
+        page_count: extractedData.pageCount,
+        parser_version: PDF_PARSER_VERSION,
+        template_id: extractedData.template.id,
+        extracted_data: storedExtraction,
+        field_confidence: extractedData.fieldConfidence,
+        review_reasons: reviewReasons,
+        low_confidence_fields: lowConfidenceFields(extractedData),
+        suggested_roof_id: match?.id ?? null,
+        suggested_match_confidence: match?.confidence ?? null,
+        uploaded_by: uploadedBy
+      })
+      .select('id')
+      .single();
+    if (reviewError) {
+      return { ...outcome, status: 'failed', message: `Failed to queue for review: ${reviewError.message}` };
+    }
+    return { ...outcome, status: 'review', review_id: review.id, message: reviewReasons.join(', ') };
+  }
+
+  const roofId = match!.id;
+
+  // Move the staged PDF under the roof, as attachStagedRoofFile does in the app
+  const roofPath = `${roofId}/${Date.now()}-${item.id.slice(0, 8)}.pdf`;
+  const { error: moveError } = await supabase.storage.from(BUCKET).move(item.storage_path, roofPath);
+  if (moveError) {
+    return { ...outcome, status: 'failed', message: `Failed to attach PDF to the property: ${moveError.message}` };
+  }
+  const fileUrl = supabase.storage.from(BUCKET).getPublicUrl(roofPath).data.publicUrl;
+
+  const { error: fileError } = await supabase.from('roof_files').insert({
+    roof_id: roofId,
+    file_name: item.file_name,
+    file_type: 'inspection_report',
+    file_size: fileSize,
+    file_url: fileUrl,
+    storage_path: roofPath,
+    mime_type: 'application/pdf',
+    is_public: true,
+    metadata: { ingestion_job_id: item.job_id, source_path: item.source_path }
+  });
+  if (fileError) throw new Error(`Failed to record PDF file: ${fileError.message}`);
+
+  const { data: inspection, error: inspectionError } = await supabase
+    .from('inspections')
+    .insert(HistoricalInspectionRecords.inspectionRecord(roofId, extractedData, item.file_name))
+    .select('id')
+    .single();
+  if (inspectionError || !inspection) throw new Error(`Failed to create inspection record: ${inspectionError?.message}`);
+
+  const { error: reportError } = await supabase
+    .from('inspection_reports')
+    .insert(HistoricalInspectionRecords.inspectionReportRecord(inspection.id, extractedData, fileUrl));
+  if (reportError) throw new Error(`Failed to create inspection report: ${reportError.message}`);
+
+  const { error: sourceError } = await supabase.from('inspection_source_documents').insert({
+    inspection_id: inspection.id,
+    file_name: item.file_name,
+    file_size: fileSize,
+    raw_text: extractedData.extractedText,
+    page_count: extractedData.pageCount,
+    parser_version: PDF_PARSER_VERSION,
+    template_id: extractedData.template.id,
+    field_confidence: extractedData.fieldConfidence,
+    extracted_data: storedExtraction
+  });
+  if (sourceError) throw new Error(`Failed to store report text: ${sourceError.message}`);
+
+  // Anything that would overwrite went to review above, so every change here fills a blank
+  const roofUpdate = HistoricalInspectionRecords.roofFieldUpdates(extractedData, inspectionDate, roofChanges.map(change => change.field));
+  if (Object.keys(roofUpdate).length > 0) {
+    const { error: roofUpdateError } = await supabase
+      .from('roofs')
+      .update({ ...roofUpdate, updated_at: new Date().toISOString() })
+      .eq('id', roofId);
+    if (roofUpdateError) {
+      console.error(`Failed to update roof ${roofId} from ${item.source_path}:`, roofUpdateError);
+    }
+  }
+
+  return { ...outcome, status: 'stored', inspection_id: inspection.id };
+}
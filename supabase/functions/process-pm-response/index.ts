@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.52.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.52.0";
+import { parsePMReply, normalizePhone, type ExtractedData, type ExtractedContact } from "./parser.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -21,18 +22,99 @@ interface PMResponseRequest {
     notes: string;
     schedulingInfo?: string;
   };
-  extractedData?: {
-    preferredDates?: string[];
-    availability?: string;
-    contacts?: Array<{
-      name: string;
-      phone?: string;
-      email?: string;
-    }>;
-    specialRequirements?: string;
-  };
+  // Pre-extracted fields win over what the parser finds in the reply
+  extractedData?: ExtractedData;
 }
 
+/**
+ * Access details as lines for roofs.roof_access_requirements
+ */
+const buildAccessLines = (data: ExtractedData): string[] => [
+  ...(data.gateCodes ?? []).map(code => `Gate code: ${code}`),
+  ...(data.callBeforeArrival
+    ? [`Call before arrival${data.callBeforeArrival.leadTime ? ` (${data.callBeforeArrival.leadTime} ahead)` : ''}${data.callBeforeArrival.phone ? `: ${data.callBeforeArrival.phone}` : ''}`]
+    : []),
+  ...(data.accessRestrictions ?? [])
+];
+
+/**
+ * Append new access lines to the roof without repeating what is already recorded
+ */
+const mergeAccessRequirements = (existing: string | null, lines: string[]): string | null => {
+  const current = (existing ?? '').split('\n').map(l => l.trim()).filter(Boolean);
+  const additions = lines.filter(line => !current.some(c => c.toLowerCase() === line.toLowerCase()));
+  if (additions.length === 0) return null;
+  return [...current, ...additions].join('\n');
+};
+
+const splitName = (name: string) => {
+  const parts = name.trim().split(/\s+/);
+  return { first_name: parts[0], last_name: parts.slice(1).join(' ') || parts[0] };
+};
+
+/**
+ * Find or create the client contact for someone named in the reply, filling in missing phone/email
+ */
+const upsertClientContact = async (
+  supabase: SupabaseClient,
+  clientId: string,
+  contact: ExtractedContact,
+  isSender: boolean
+): Promise<string | null> => {
+  const { data: existingContacts, error } = await supabase
+    .from('client_contacts')
+    .select('id, first_name, last_name, email, office_phone, mobile_phone, title')
+    .eq('client_id', clientId)
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('Error loading client contacts:', error);
+    return null;
+  }
+
+  const { first_name, last_name } = splitName(contact.name);
+  const phone = contact.phone ? normalizePhone(contact.phone) : null;
+
+  const match = (existingContacts ?? []).find(c =>
+    (contact.email && c.email?.toLowerCase() === contact.email) ||
+    (phone && [c.office_phone, c.mobile_phone].some(p => p && normalizePhone(p) === phone)) ||
+    (c.first_name.toLowerCase() === first_name.toLowerCase() && c.last_name.toLowerCase() === last_name.toLowerCase())
+  );
+
+  if (match) {
+    const updates: Record<string, string> = {};
+    if (contact.email && !match.email) updates.email = contact.email;
+    if (phone && !match.office_phone && !match.mobile_phone) updates.office_phone = phone;
+    if (contact.title && !match.title) updates.title = contact.title;
+
+    if (Object.keys(updates).length > 0) {
+      await supabase.from('client_contacts').update(updates).eq('id', match.id);
+    }
+    return match.id;
+  }
+
+  const { data: created, error: insertError } = await supabase
+    .from('client_contacts')
+    .insert({
+      client_id: clientId,
+      first_name,
+      last_name,
+      email: contact.email ?? null,
+      office_phone: phone,
+      title: contact.title ?? null,
+      role: isSender ? 'property_manager' : 'contact',
+      notes: 'Added from property manager email reply'
+    })
+    .select('id')
+    .single();
+
+  if (insertError) {
+    console.error('Error creating client contact:', insertError);
+    return null;
+  }
+  return created.id;
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -45,7 +127,7 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { campaignId, gmailData, manualResponse, extractedData }: PMResponseRequest = await req.json();
+    const { campaignId, gmailData, manualResponse, extractedData: providedData }: PMResponseRequest = await req.json();
 
     console.log('Processing PM response for campaign:', campaignId);
 
@@ -61,6 +143,21 @@ serve(async (req) => {
       throw campaignError;
     }
 
+    // Parse the reply itself; anything the caller already extracted takes precedence
+    const content = gmailData?.body || manualResponse?.notes || '';
+    const parsedData = content
+      ? parsePMReply(content, { sender: gmailData?.from, receivedAt: gmailData?.receivedAt })
+      : {};
+    const extractedData: ExtractedData = { ...parsedData };
+    for (const [key, value] of Object.entries(providedData ?? {})) {
+      if (value !== undefined && value !== null) {
+        (extractedData as Record<string, unknown>)[key] = value;
+      }
+    }
+    if (manualResponse?.schedulingInfo && !extractedData.availability) {
+      extractedData.availability = manualResponse.schedulingInfo;
+    }
+
     // Create communication record
     let commData: any = {
       campaign_id: campaignId,
@@ -106,7 +203,7 @@ serve(async (req) => {
           ...(campaign.campaign_metadata || {}),
           lastResponseReceived: new Date().toISOString(),
           responseProcessed: true,
-          extractedData: extractedData || {}
+          extractedData
         }
       })
       .eq('id', campaignId);
@@ -127,7 +224,9 @@ serve(async (req) => {
           automation_data: {
             preferredDates: extractedData.preferredDates,
             availability: extractedData.availability,
-            specialRequirements: extractedData.specialRequirements
+            specialRequirements: extractedData.specialRequirements,
+            gateCodes: extractedData.gateCodes,
+            callBeforeArrival: extractedData.callBeforeArrival
           }
         })
         .eq('campaign_id', campaignId);
@@ -137,24 +236,80 @@ serve(async (req) => {
       }
     }
 
-    // Analyze response content for scheduling automation
-    let analysis = {
-      hasSchedulingInfo: false,
-      dates: [] as string[],
-      contacts: [] as any[],
-      sentiment: 'neutral'
-    };
+    // Write contacts and access details onto the campaign's roofs
+    const { data: campaignRoofs, error: roofsError } = await supabase
+      .from('campaign_properties')
+      .select('roof_id, roofs(id, client_id, property_name, roof_access_requirements)')
+      .eq('campaign_id', campaignId);
+
+    if (roofsError) {
+      console.error('Error loading campaign roofs:', roofsError);
+    }
+
+    const allRoofs = (campaignRoofs ?? [])
+      .map(cp => cp.roofs as { id: string; client_id: string | null; property_name: string; roof_access_requirements: string | null } | null)
+      .filter((roof): roof is NonNullable<typeof roof> => !!roof);
 
-    if (gmailData?.body || manualResponse?.notes) {
-      const content = gmailData?.body || manualResponse?.notes || '';
-      
-      // Simple date extraction (can be enhanced with NLP)
-      const dateMatches = content.match(/\b\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4}\b/g);
-      if (dateMatches) {
-        analysis.dates = dateMatches;
-        analysis.hasSchedulingInfo = true;
+    // A reply that names specific properties only applies to those
+    const mentionedRoofs = allRoofs.filter(roof =>
+      roof.property_name && content.toLowerCase().includes(roof.property_name.toLowerCase())
+    );
+    const targetRoofs = mentionedRoofs.length > 0 ? mentionedRoofs : allRoofs;
+
+    const accessLines = buildAccessLines(extractedData);
+    const updatedRoofIds: string[] = [];
+    const contactIds = new Set<string>();
+    const senderEmail = gmailData?.from?.match(/<([^>]+)>/)?.[1]?.toLowerCase() ?? gmailData?.from?.toLowerCase();
+
+    for (const roof of targetRoofs) {
+      const merged = mergeAccessRequirements(roof.roof_access_requirements, accessLines);
+      if (merged !== null) {
+        const { error: roofUpdateError } = await supabase
+          .from('roofs')
+          .update({ roof_access_requirements: merged })
+          .eq('id', roof.id);
+
+        if (roofUpdateError) {
+          console.error(`Error updating access requirements for roof ${roof.id}:`, roofUpdateError);
+        } else {
+          updatedRoofIds.push(roof.id);
+        }
       }
 
+      if (!roof.client_id) continue;
+
+      for (const contact of extractedData.contacts ?? []) {
+        const contactId = await upsertClientContact(supabase, roof.client_id, contact, !!senderEmail && contact.email === senderEmail);
+        if (!contactId) continue;
+        contactIds.add(contactId);
+
+        const { error: assignmentError } = await supabase
+          .from('property_contact_assignments')
+          .upsert({
+            roof_id: roof.id,
+            contact_id: contactId,
+            assignment_type: 'site_contact',
+            is_active: true,
+            notes: contact.title ?? null
+          }, { onConflict: 'roof_id,contact_id,assignment_type' });
+
+        if (assignmentError) {
+          console.error('Error assigning contact to roof:', assignmentError);
+        }
+      }
+    }
+
+    // Analyze response content for scheduling automation
+    const analysis = {
+      hasSchedulingInfo: (extractedData.preferredDates?.length ?? 0) > 0,
+      dates: extractedData.preferredDates ?? [],
+      contacts: extractedData.contacts ?? [],
+      sentiment: 'neutral',
+      roofsUpdated: updatedRoofIds.length,
+      contactsLinked: contactIds.size
+    };
+
+    if (content) {
       // Simple sentiment analysis
       if (content.toLowerCase().includes('yes') || content.toLowerCase().includes('available')) {
         analysis.sentiment = 'positive';
@@ -173,6 +328,7 @@ serve(async (req) => {
           status: 'responses_received'
         },
         analysis,
+        extractedData,
         message: 'Property manager response processed successfully'
       }),
       {
@@ -0,0 +1,305 @@
+/**
+ * Pulls scheduling and site access details out of a property manager's reply.
+ * Heuristic by design: anything not recognised is left for the coordinator.
+ */
+
+export interface ExtractedContact {
+  name: string;
+  phone?: string;
+  email?: string;
+  title?: string;
+}
+
+export interface CallBeforeArrival {
+  required: boolean;
+  leadTime?: string;
+  phone?: string;
+  instruction: string;
+}
+
+export interface ExtractedData {
+  preferredDates?: string[];
+  availability?: string;
+  contacts?: ExtractedContact[];
+  specialRequirements?: string;
+  gateCodes?: string[];
+  accessRestrictions?: string[];
+  callBeforeArrival?: CallBeforeArrival;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2, apr: 3, april: 3,
+  may: 4, jun: 5, june: 5, jul: 6, july: 6, aug: 7, august: 7, sep: 8, sept: 8,
+  september: 8, oct: 9, october: 9, nov: 10, november: 10, dec: 11, december: 11
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?(\d{3})\)?[\s.-]?(\d{3})[\s.-]?(\d{4})(?:\s*(?:x|ext\.?|extension)\s*(\d{1,5}))?/gi;
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const NAME_PATTERN = /\b([A-Z][a-z]+(?:[-'][A-Z][a-z]+)?(?:\s+[A-Z]\.)?\s+[A-Z][a-z]+(?:[-'][A-Z][a-z]+)?)\b/g;
+
+// Capitalised pairs that show up next to phone numbers but aren't people
+const NOT_NAME_WORDS = new Set([
+  'best', 'regards', 'thanks', 'thank', 'sincerely', 'cheers', 'kind', 'warm', 'hi', 'hello', 'dear',
+  'please', 'call', 'text', 'contact', 'office', 'mobile', 'cell', 'phone', 'fax', 'main', 'direct',
+  'property', 'management', 'manager', 'site', 'building', 'facility', 'maintenance', 'security',
+  'gate', 'code', 'roof', 'access', 'north', 'south', 'east', 'west', 'suite', 'street', 'avenue'
+]);
+
+const TITLE_PATTERN = /\b(site|building|property|facility|maintenance|regional|assistant)\s+(manager|engineer|supervisor|superintendent|director|coordinator)\b/i;
+
+// Last plausible person name in the text
+const findName = (text: string): string | undefined => {
+  const names = Array.from(text.matchAll(NAME_PATTERN))
+    .map(match => match[1])
+    .filter(name => !name.split(/\s+/).some(word => NOT_NAME_WORDS.has(word.toLowerCase().replace(/\.$/, ''))));
+  return names[names.length - 1];
+};
+
+const ACCESS_KEYWORDS = [
+  'ladder', 'roof hatch', 'hatch', 'escort', 'badge', 'sign in', 'check in', 'check-in', 'security',
+  'key', 'lockbox', 'lock box', 'loading dock', 'freight elevator', 'parking', 'permit', 'tenant',
+  'no access', 'not accessible', 'restricted', 'business hours', 'after hours', 'weekends',
+  'hard hat', 'safety', 'harness', 'fall protection', 'insurance', 'coi'
+];
+
+const AVAILABILITY_KEYWORDS = ['available', 'availability', 'works for', 'work for', 'prefer', 'any day', 'mornings', 'afternoons', 'open'];
+
+const toIsoDate = (date: Date) => date.toISOString().split('T')[0];
+
+// Strip quoted history and signatures' legal boilerplate so old threads aren't re-parsed
+export function stripQuotedReply(body: string): string {
+  const lines = body.replace(/\r\n/g, '\n').split('\n');
+  const cutoff = lines.findIndex(line =>
+    /^\s*>/.test(line) ||
+    /^On .+wrote:\s*$/.test(line.trim()) ||
+    /^-{2,}\s*Original Message\s*-{2,}/i.test(line.trim()) ||
+    /^From:\s.+/.test(line.trim())
+  );
+  return (cutoff === -1 ? lines : lines.slice(0, cutoff)).join('\n').trim();
+}
+
+const splitSentences = (text: string) =>
+  text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+
+export function normalizePhone(raw: string): string | null {
+  PHONE_PATTERN.lastIndex = 0;
+  const match = PHONE_PATTERN.exec(raw);
+  if (!match) return null;
+  const base = `(${match[1]}) ${match[2]}-${match[3]}`;
+  return match[4] ? `${base} x${match[4]}` : base;
+}
+
+const findPhones = (text: string) => {
+  const phones: Array<{ phone: string; index: number }> = [];
+  PHONE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = PHONE_PATTERN.exec(text)) !== null) {
+    const base = `(${match[1]}) ${match[2]}-${match[3]}`;
+    phones.push({ phone: match[4] ? `${base} x${match[4]}` : base, index: match.index });
+  }
+  return phones;
+};
+
+/**
+ * Resolve a year-less month/day to the next occurrence on or after the reference date
+ */
+const resolveDate = (month: number, day: number, year: number | null, reference: Date): Date | null => {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+
+  if (year !== null) {
+    const fullYear = year < 100 ? 2000 + year : year;
+    const date = new Date(Date.UTC(fullYear, month, day));
+    return date.getUTCMonth() === month ? date : null;
+  }
+
+  let date = new Date(Date.UTC(reference.getUTCFullYear(), month, day));
+  if (date.getUTCMonth() !== month) return null;
+  if (date < new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), reference.getUTCDate()))) {
+    date = new Date(Date.UTC(reference.getUTCFullYear() + 1, month, day));
+  }
+  return date;
+};
+
+export function extractDates(text: string, reference: Date = new Date()): string[] {
+  const dates = new Map<number, string>();
+  const add = (date: Date | null, index: number) => {
+    if (date && !Array.from(dates.values()).includes(toIsoDate(date))) {
+      dates.set(index, toIsoDate(date));
+    }
+  };
+
+  // 8/12, 8/12/25, 08-12-2025
+  for (const match of text.matchAll(/\b(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2,4}))?\b/g)) {
+    add(resolveDate(Number(match[1]) - 1, Number(match[2]), match[3] ? Number(match[3]) : null, reference), match.index ?? 0);
+  }
+
+  // August 12, Aug 12th, Aug. 12 2025
+  const monthFirst = new RegExp(`\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'gi');
+  for (const match of text.matchAll(monthFirst)) {
+    add(resolveDate(MONTHS[match[1].toLowerCase()], Number(match[2]), match[3] ? Number(match[3]) : null, reference), match.index ?? 0);
+  }
+
+  // 12 August, 12th of August
+  const dayFirst = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})\\b(?:,?\\s+(\\d{4}))?`, 'gi');
+  for (const match of text.matchAll(dayFirst)) {
+    add(resolveDate(MONTHS[match[2].toLowerCase()], Number(match[1]), match[3] ? Number(match[3]) : null, reference), match.index ?? 0);
+  }
+
+  // tomorrow, (next) Tuesday, unless the weekday just qualifies an explicit date ("Tuesday 8/12")
+  const relative = new RegExp(`\\b(tomorrow|(?:next\\s+|this\\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday))\\b(?!,?\\s+(?:\\d|(?:${MONTH_PATTERN})\\b))`, 'gi');
+  for (const match of text.matchAll(relative)) {
+    const date = new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), reference.getUTCDate()));
+    if (match[1].toLowerCase() === 'tomorrow') {
+      date.setUTCDate(date.getUTCDate() + 1);
+    } else {
+      const target = WEEKDAYS.indexOf(match[2].toLowerCase());
+      let offset = (target - date.getUTCDay() + 7) % 7 || 7;
+      if (/^next\s/i.test(match[1]) && offset < 7) offset += 7;
+      date.setUTCDate(date.getUTCDate() + offset);
+    }
+    add(date, match.index ?? 0);
+  }
+
+  // Keep the order the PM wrote them in
+  return Array.from(dates.entries()).sort((a, b) => a[0] - b[0]).map(([, iso]) => iso);
+}
+
+export function extractGateCodes(text: string): string[] {
+  const codes = new Set<string>();
+  const pattern = /\b(?:gate|door|entry|access|keypad|lock\s?box|padlock|alarm)\s*(?:code|combo|combination|pin)?\s*(?:is|:|=|-|#)?\s*([#*]?\d{3,8}[#*]?)\b/gi;
+  for (const match of text.matchAll(pattern)) {
+    codes.add(match[1]);
+  }
+  // "code 4321" / "code is 4321" without a qualifier
+  for (const match of text.matchAll(/\bcode\s*(?:is|:|=|#)?\s*([#*]?\d{3,8}[#*]?)\b/gi)) {
+    codes.add(match[1]);
+  }
+  return Array.from(codes);
+}
+
+export function extractCallBeforeArrival(text: string): CallBeforeArrival | undefined {
+  for (const sentence of splitSentences(text)) {
+    const asksForCall =
+      /\b(call|text|phone|contact|notify|ring)\b.{0,60}\b(before|prior to|ahead of|when|upon|once)\b.{0,40}\b(arriv|coming|come|visit|on[\s-]?site|get(?:ting)? there|head(?:ing)? over|en route|show(?:ing)? up)/i.test(sentence) ||
+      /\bcall\s+(?:ahead|first)\b/i.test(sentence) ||
+      /\b(\d+\s*(?:minutes?|mins?|hours?|hrs?)|a day|24 hours)\s+(?:notice|heads[\s-]?up)\b/i.test(sentence);
+
+    if (!asksForCall) continue;
+
+    const leadTime = sentence.match(/\b(\d+\s*(?:minutes?|mins?|hours?|hrs?)|an? (?:hour|day)|24 hours|the day before)\b/i)?.[1];
+    const phone = findPhones(sentence)[0]?.phone;
+
+    return {
+      required: true,
+      leadTime,
+      phone,
+      instruction: sentence
+    };
+  }
+  return undefined;
+}
+
+export function extractAccessRestrictions(text: string): string[] {
+  return splitSentences(text).filter(sentence => {
+    const lower = sentence.toLowerCase();
+    return ACCESS_KEYWORDS.some(keyword => new RegExp(`\\b${keyword}\\b`).test(lower));
+  });
+}
+
+export function extractContacts(text: string, sender?: string): ExtractedContact[] {
+  const contacts: ExtractedContact[] = [];
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+
+  const upsert = (contact: ExtractedContact) => {
+    const existing = contacts.find(c =>
+      (contact.email && c.email === contact.email) ||
+      (contact.phone && c.phone === contact.phone) ||
+      c.name.toLowerCase() === contact.name.toLowerCase()
+    );
+    if (existing) {
+      existing.phone = existing.phone || contact.phone;
+      existing.email = existing.email || contact.email;
+      existing.title = existing.title || contact.title;
+    } else {
+      contacts.push(contact);
+    }
+  };
+
+  lines.forEach((line, index) => {
+    const phones = findPhones(line);
+    const emails = line.match(EMAIL_PATTERN) || [];
+    if (phones.length === 0 && emails.length === 0) return;
+
+    // Name on the same line ("contact Jane Doe at ...") or the line above (signature blocks)
+    const beforeDetail = line.slice(0, Math.min(
+      phones[0]?.index ?? line.length,
+      emails[0] ? line.indexOf(emails[0]) : line.length
+    ));
+    // Signature blocks put the name a few short lines above the phone/email lines
+    const previousLines = lines.slice(Math.max(0, index - 3), index).reverse().filter(l => l.length <= 60);
+    const name = findName(beforeDetail) || previousLines.map(findName).find(Boolean);
+
+    if (!name) return;
+
+    const title = line.match(TITLE_PATTERN)?.[0] || previousLines.map(l => l.match(TITLE_PATTERN)?.[0]).find(Boolean);
+
+    upsert({
+      name,
+      phone: phones[0]?.phone,
+      email: emails[0]?.toLowerCase(),
+      title
+    });
+  });
+
+  // "John Smith <john@example.com>" in the From header
+  const senderMatch = sender?.match(/^\s*"?([^"<]+?)"?\s*<([^>]+)>/);
+  const senderName = senderMatch ? findName(senderMatch[1]) : undefined;
+  if (senderMatch && senderName) {
+    upsert({ name: senderName, email: senderMatch[2].trim().toLowerCase() });
+  }
+
+  return contacts;
+}
+
+export function extractAvailability(text: string): string | undefined {
+  const sentences = splitSentences(text).filter(sentence => {
+    const lower = sentence.toLowerCase();
+    return AVAILABILITY_KEYWORDS.some(keyword => lower.includes(keyword));
+  });
+  return sentences.length > 0 ? sentences.join(' ') : undefined;
+}
+
+/**
+ * Parse a raw reply into the extractedData shape process-pm-response stores
+ */
+export function parsePMReply(body: string, options: { sender?: string; receivedAt?: string } = {}): ExtractedData {
+  const text = stripQuotedReply(body);
+  const reference = options.receivedAt ? new Date(options.receivedAt) : new Date();
+
+  const accessRestrictions = extractAccessRestrictions(text);
+  const callBeforeArrival = extractCallBeforeArrival(text);
+  const gateCodes = extractGateCodes(text);
+
+  const specialRequirements = [
+    ...gateCodes.map(code => `Gate code: ${code}`),
+    ...(callBeforeArrival ? [callBeforeArrival.instruction] : []),
+    ...accessRestrictions.filter(r => r !== callBeforeArrival?.instruction)
+  ];
+
+  return {
+    preferredDates: extractDates(text, Number.isNaN(reference.getTime()) ? new Date() : reference),
+    availability: extractAvailability(text),
+    contacts: extractContacts(text, options.sender),
+    specialRequirements: specialRequirements.length > 0 ? specialRequirements.join('\n') : undefined,
+    gateCodes,
+    accessRestrictions,
+    callBeforeArrival
+  };
+}
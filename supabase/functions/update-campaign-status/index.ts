@@ -11,9 +11,17 @@ interface StatusUpdateRequest {
   status?: string;
   propertyUpdates?: Array<{
     propertyId: string;
-    status: string;
+    status?: string;
     inspectionDate?: string;
     notes?: string;
+    // Structured appointment change; applied through apply_campaign_schedule_event
+    scheduleEvent?: {
+      type: 'proposed' | 'confirmed' | 'declined' | 'reschedule_requested' | 'skipped';
+      slotStart?: string;
+      slotEnd?: string;
+      actor?: string;
+      notes?: string;
+    };
   }>;
   metadata?: Record<string, any>;
   userId: string;
@@ -71,6 +79,40 @@ serve(async (req) => {
     let updatedProperties = [];
     if (propertyUpdates && propertyUpdates.length > 0) {
       for (const propUpdate of propertyUpdates) {
+        if (propUpdate.scheduleEvent) {
+          const { data: campaignProperty, error: lookupError } = await supabase
+            .from('campaign_properties')
+            .select('id')
+            .eq('campaign_id', campaignId)
+            .eq('roof_id', propUpdate.propertyId)
+            .single();
+
+          if (lookupError || !campaignProperty) {
+            console.error('Campaign property not found for schedule event:', propUpdate.propertyId, lookupError);
+            continue;
+          }
+
+          const { data: scheduled, error: scheduleError } = await supabase.rpc('apply_campaign_schedule_event', {
+            p_campaign_property_id: campaignProperty.id,
+            p_event_type: propUpdate.scheduleEvent.type,
+            p_slot_start: propUpdate.scheduleEvent.slotStart ?? null,
+            p_slot_end: propUpdate.scheduleEvent.slotEnd ?? null,
+            p_actor: propUpdate.scheduleEvent.actor ?? null,
+            p_notes: propUpdate.scheduleEvent.notes ?? propUpdate.notes ?? null
+          });
+
+          if (scheduleError) {
+            console.error('Error applying schedule event:', scheduleError);
+          } else {
+            updatedProperties.push(scheduled);
+          }
+          continue;
+        }
+
+        if (!propUpdate.status) {
+          continue;
+        }
+
         const propertyData: any = {
           status: propUpdate.status,
           updated_at: new Date().toISOString()
@@ -104,7 +146,7 @@ serve(async (req) => {
     // Calculate campaign progress
     const { data: progressData } = await supabase
       .from('campaign_properties')
-      .select('status')
+      .select('status, confirmation_status')
       .eq('campaign_id', campaignId);
 
     let progressStats = {
@@ -112,22 +154,33 @@ serve(async (req) => {
       pending: 0,
       scheduled: 0,
       completed: 0,
-      cancelled: 0
+      cancelled: 0,
+      confirmed: 0,
+      awaitingConfirmation: 0
     };
 
     if (progressData) {
       progressStats.total = progressData.length;
       progressData.forEach(prop => {
         progressStats[prop.status as keyof typeof progressStats]++;
+        if (prop.confirmation_status === 'confirmed') progressStats.confirmed++;
+        if (prop.confirmation_status === 'proposed') progressStats.awaitingConfirmation++;
       });
     }
 
-    console.log('Campaign status updated successfully:', campaign);
+    // Scheduling changes can advance the campaign status through a trigger
+    const { data: refreshedCampaign } = await supabase
+      .from('inspection_campaigns')
+      .select()
+      .eq('id', campaignId)
+      .single();
+
+    console.log('Campaign status updated successfully:', refreshedCampaign ?? campaign);
 
     return new Response(
       JSON.stringify({
         success: true,
-        campaign,
+        campaign: refreshedCampaign ?? campaign,
         updatedProperties,
         progress: progressStats,
         message: 'Campaign status updated successfully'
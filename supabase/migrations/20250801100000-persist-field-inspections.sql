@@ -0,0 +1,171 @@
+-- Persist completed field inspections captured in ActiveInspectionInterface
+
+-- Extra inspection columns captured in the field
+ALTER TABLE public.inspections ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.inspections ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.inspections ADD COLUMN IF NOT EXISTS roof_square_footage_confirmed BOOLEAN;
+ALTER TABLE public.inspections ADD COLUMN IF NOT EXISTS overview_photo_file_ids UUID[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.inspections ADD COLUMN IF NOT EXISTS summary JSONB NOT NULL DEFAULT '{}';
+
+-- Deficiencies observed during a single inspection
+CREATE TABLE public.inspection_deficiencies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inspection_id UUID NOT NULL REFERENCES public.inspections(id) ON DELETE CASCADE,
+  roof_id UUID NOT NULL REFERENCES public.roofs(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  location TEXT NOT NULL,
+  description TEXT,
+  severity TEXT NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high')),
+  status TEXT NOT NULL DEFAULT 'identified' CHECK (status IN ('identified', 'documented', 'resolved')),
+  budget_amount NUMERIC NOT NULL DEFAULT 0,
+  photo_file_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Capital expenses recommended during a single inspection
+CREATE TABLE public.inspection_capital_expenses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inspection_id UUID NOT NULL REFERENCES public.inspections(id) ON DELETE CASCADE,
+  roof_id UUID NOT NULL REFERENCES public.roofs(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  expense_year INTEGER NOT NULL,
+  estimated_cost NUMERIC NOT NULL DEFAULT 0,
+  scope_of_work TEXT,
+  completed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.inspection_deficiencies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inspection_capital_expenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can access inspection deficiencies" ON public.inspection_deficiencies FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Authenticated users can access inspection capital expenses" ON public.inspection_capital_expenses FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_inspection_deficiencies_inspection_id ON public.inspection_deficiencies(inspection_id);
+CREATE INDEX idx_inspection_deficiencies_roof_id ON public.inspection_deficiencies(roof_id);
+CREATE INDEX idx_inspection_capital_expenses_inspection_id ON public.inspection_capital_expenses(inspection_id);
+CREATE INDEX idx_inspection_capital_expenses_roof_id ON public.inspection_capital_expenses(roof_id);
+
+CREATE TRIGGER update_inspection_deficiencies_updated_at
+  BEFORE UPDATE ON public.inspection_deficiencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_inspection_capital_expenses_updated_at
+  BEFORE UPDATE ON public.inspection_capital_expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Write a completed field inspection and its child records in one transaction.
+-- Photos are uploaded to the roof-files bucket beforehand and referenced by roof_files id.
+CREATE OR REPLACE FUNCTION public.complete_field_inspection(
+  p_roof_id UUID,
+  p_inspection JSONB
+) RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_inspection_id UUID;
+  v_inspector_id UUID;
+  v_completed_date DATE;
+  v_deficiency JSONB;
+  v_expense JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.roofs WHERE id = p_roof_id) THEN
+    RAISE EXCEPTION 'Roof % not found', p_roof_id;
+  END IF;
+
+  SELECT id INTO v_inspector_id
+  FROM public.users
+  WHERE auth_user_id = auth.uid()
+  LIMIT 1;
+
+  v_completed_date := COALESCE((p_inspection->>'ended_at')::TIMESTAMP WITH TIME ZONE, now())::DATE;
+
+  INSERT INTO public.inspections (
+    roof_id,
+    inspector_id,
+    completed_date,
+    status,
+    inspection_type,
+    notes,
+    started_at,
+    ended_at,
+    roof_square_footage_confirmed,
+    overview_photo_file_ids,
+    summary
+  ) VALUES (
+    p_roof_id,
+    v_inspector_id,
+    v_completed_date,
+    'completed',
+    COALESCE(p_inspection->>'inspection_type', 'annual'),
+    NULLIF(p_inspection->>'notes', ''),
+    (p_inspection->>'started_at')::TIMESTAMP WITH TIME ZONE,
+    (p_inspection->>'ended_at')::TIMESTAMP WITH TIME ZONE,
+    (p_inspection->>'roof_square_footage_confirmed')::BOOLEAN,
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_inspection->'overview_photo_file_ids'))::UUID[], '{}'),
+    COALESCE(p_inspection->'summary', '{}'::JSONB)
+  )
+  RETURNING id INTO v_inspection_id;
+
+  FOR v_deficiency IN SELECT * FROM jsonb_array_elements(COALESCE(p_inspection->'deficiencies', '[]'::JSONB))
+  LOOP
+    INSERT INTO public.inspection_deficiencies (
+      inspection_id,
+      roof_id,
+      category,
+      location,
+      description,
+      severity,
+      status,
+      budget_amount,
+      photo_file_ids
+    ) VALUES (
+      v_inspection_id,
+      p_roof_id,
+      v_deficiency->>'category',
+      v_deficiency->>'location',
+      v_deficiency->>'description',
+      COALESCE(v_deficiency->>'severity', 'medium'),
+      COALESCE(v_deficiency->>'status', 'identified'),
+      COALESCE((v_deficiency->>'budget_amount')::NUMERIC, 0),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(v_deficiency->'photo_file_ids'))::UUID[], '{}')
+    );
+  END LOOP;
+
+  FOR v_expense IN SELECT * FROM jsonb_array_elements(COALESCE(p_inspection->'capital_expenses', '[]'::JSONB))
+  LOOP
+    INSERT INTO public.inspection_capital_expenses (
+      inspection_id,
+      roof_id,
+      description,
+      expense_year,
+      estimated_cost,
+      scope_of_work,
+      completed
+    ) VALUES (
+      v_inspection_id,
+      p_roof_id,
+      v_expense->>'description',
+      (v_expense->>'expense_year')::INTEGER,
+      COALESCE((v_expense->>'estimated_cost')::NUMERIC, 0),
+      v_expense->>'scope_of_work',
+      COALESCE((v_expense->>'completed')::BOOLEAN, false)
+    );
+  END LOOP;
+
+  -- Annual inspection cadence
+  UPDATE public.roofs
+  SET
+    last_inspection_date = v_completed_date,
+    next_inspection_due = v_completed_date + INTERVAL '1 year',
+    updated_at = now()
+  WHERE id = p_roof_id;
+
+  RETURN v_inspection_id;
+END;
+$$;
@@ -0,0 +1,288 @@
+-- Track deficiencies across inspections so recurring issues can be followed over time
+
+CREATE TABLE public.deficiencies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  roof_id UUID NOT NULL REFERENCES public.roofs(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  location TEXT NOT NULL,
+  description TEXT,
+  severity TEXT NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'escalated', 'resolved')),
+  estimated_cost NUMERIC NOT NULL DEFAULT 0,
+  observation_count INTEGER NOT NULL DEFAULT 1,
+  first_observed_inspection_id UUID REFERENCES public.inspections(id) ON DELETE SET NULL,
+  first_observed_date DATE,
+  last_observed_inspection_id UUID REFERENCES public.inspections(id) ON DELETE SET NULL,
+  last_observed_date DATE,
+  resolved_inspection_id UUID REFERENCES public.inspections(id) ON DELETE SET NULL,
+  resolved_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Each inspection_deficiencies row is now one observation of a tracked deficiency
+ALTER TABLE public.inspection_deficiencies ADD COLUMN IF NOT EXISTS deficiency_id UUID REFERENCES public.deficiencies(id) ON DELETE SET NULL;
+ALTER TABLE public.inspection_deficiencies ADD COLUMN IF NOT EXISTS observation_type TEXT NOT NULL DEFAULT 'new'
+  CHECK (observation_type IN ('new', 'reobserved', 'escalated', 'resolved'));
+
+ALTER TABLE public.deficiencies ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can access deficiencies" ON public.deficiencies FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_deficiencies_roof_id ON public.deficiencies(roof_id);
+CREATE INDEX idx_deficiencies_status ON public.deficiencies(status);
+CREATE INDEX idx_inspection_deficiencies_deficiency_id ON public.inspection_deficiencies(deficiency_id);
+
+CREATE TRIGGER update_deficiencies_updated_at
+  BEFORE UPDATE ON public.deficiencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.deficiency_severity_rank(p_severity TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_severity WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END;
+$$;
+
+-- Create or advance the tracked deficiency for every new observation
+CREATE OR REPLACE FUNCTION public.track_deficiency_observation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_observed_date DATE;
+BEGIN
+  SELECT COALESCE(completed_date, now()::DATE) INTO v_observed_date
+  FROM public.inspections
+  WHERE id = NEW.inspection_id;
+
+  IF NEW.deficiency_id IS NULL THEN
+    INSERT INTO public.deficiencies (
+      roof_id,
+      category,
+      location,
+      description,
+      severity,
+      status,
+      estimated_cost,
+      first_observed_inspection_id,
+      first_observed_date,
+      last_observed_inspection_id,
+      last_observed_date,
+      resolved_inspection_id,
+      resolved_date
+    ) VALUES (
+      NEW.roof_id,
+      NEW.category,
+      NEW.location,
+      NEW.description,
+      NEW.severity,
+      CASE WHEN NEW.status = 'resolved' THEN 'resolved' ELSE 'open' END,
+      NEW.budget_amount,
+      NEW.inspection_id,
+      v_observed_date,
+      NEW.inspection_id,
+      v_observed_date,
+      CASE WHEN NEW.status = 'resolved' THEN NEW.inspection_id END,
+      CASE WHEN NEW.status = 'resolved' THEN v_observed_date END
+    )
+    RETURNING id INTO NEW.deficiency_id;
+
+    NEW.observation_type := 'new';
+    RETURN NEW;
+  END IF;
+
+  IF NEW.observation_type = 'resolved' THEN
+    UPDATE public.deficiencies
+    SET
+      status = 'resolved',
+      resolved_inspection_id = NEW.inspection_id,
+      resolved_date = v_observed_date
+    WHERE id = NEW.deficiency_id;
+
+    NEW.status := 'resolved';
+    RETURN NEW;
+  END IF;
+
+  -- Re-observed or escalated: the issue is still present, so reopen it if it was closed
+  UPDATE public.deficiencies
+  SET
+    observation_count = observation_count + 1,
+    last_observed_inspection_id = NEW.inspection_id,
+    last_observed_date = v_observed_date,
+    description = COALESCE(NULLIF(NEW.description, ''), description),
+    estimated_cost = CASE WHEN NEW.budget_amount > 0 THEN NEW.budget_amount ELSE estimated_cost END,
+    severity = CASE
+      WHEN public.deficiency_severity_rank(NEW.severity) > public.deficiency_severity_rank(severity) THEN NEW.severity
+      ELSE severity
+    END,
+    status = CASE
+      WHEN NEW.observation_type = 'escalated' OR status = 'escalated' THEN 'escalated'
+      ELSE 'open'
+    END,
+    resolved_inspection_id = NULL,
+    resolved_date = NULL
+  WHERE id = NEW.deficiency_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_inspection_deficiency_observation
+  BEFORE INSERT ON public.inspection_deficiencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_deficiency_observation();
+
+-- Backfill tracked deficiencies for observations recorded before this migration
+DO $$
+DECLARE
+  v_observation RECORD;
+  v_deficiency_id UUID;
+BEGIN
+  FOR v_observation IN
+    SELECT d.*, COALESCE(i.completed_date, d.created_at::DATE) AS observed_date
+    FROM public.inspection_deficiencies d
+    JOIN public.inspections i ON i.id = d.inspection_id
+    WHERE d.deficiency_id IS NULL
+  LOOP
+    INSERT INTO public.deficiencies (
+      roof_id, category, location, description, severity, status, estimated_cost,
+      first_observed_inspection_id, first_observed_date,
+      last_observed_inspection_id, last_observed_date
+    ) VALUES (
+      v_observation.roof_id, v_observation.category, v_observation.location, v_observation.description,
+      v_observation.severity, CASE WHEN v_observation.status = 'resolved' THEN 'resolved' ELSE 'open' END,
+      v_observation.budget_amount,
+      v_observation.inspection_id, v_observation.observed_date,
+      v_observation.inspection_id, v_observation.observed_date
+    )
+    RETURNING id INTO v_deficiency_id;
+
+    UPDATE public.inspection_deficiencies SET deficiency_id = v_deficiency_id WHERE id = v_observation.id;
+  END LOOP;
+END;
+$$;
+
+-- Accept follow-up observations of previously tracked deficiencies
+CREATE OR REPLACE FUNCTION public.complete_field_inspection(
+  p_roof_id UUID,
+  p_inspection JSONB
+) RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_inspection_id UUID;
+  v_inspector_id UUID;
+  v_completed_date DATE;
+  v_deficiency JSONB;
+  v_expense JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.roofs WHERE id = p_roof_id) THEN
+    RAISE EXCEPTION 'Roof % not found', p_roof_id;
+  END IF;
+
+  SELECT id INTO v_inspector_id
+  FROM public.users
+  WHERE auth_user_id = auth.uid()
+  LIMIT 1;
+
+  v_completed_date := COALESCE((p_inspection->>'ended_at')::TIMESTAMP WITH TIME ZONE, now())::DATE;
+
+  INSERT INTO public.inspections (
+    roof_id,
+    inspector_id,
+    completed_date,
+    status,
+    inspection_type,
+    notes,
+    started_at,
+    ended_at,
+    roof_square_footage_confirmed,
+    overview_photo_file_ids,
+    summary
+  ) VALUES (
+    p_roof_id,
+    v_inspector_id,
+    v_completed_date,
+    'completed',
+    COALESCE(p_inspection->>'inspection_type', 'annual'),
+    NULLIF(p_inspection->>'notes', ''),
+    (p_inspection->>'started_at')::TIMESTAMP WITH TIME ZONE,
+    (p_inspection->>'ended_at')::TIMESTAMP WITH TIME ZONE,
+    (p_inspection->>'roof_square_footage_confirmed')::BOOLEAN,
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_inspection->'overview_photo_file_ids'))::UUID[], '{}'),
+    COALESCE(p_inspection->'summary', '{}'::JSONB)
+  )
+  RETURNING id INTO v_inspection_id;
+
+  FOR v_deficiency IN SELECT * FROM jsonb_array_elements(COALESCE(p_inspection->'deficiencies', '[]'::JSONB))
+  LOOP
+    IF (v_deficiency->>'deficiency_id') IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.deficiencies
+      WHERE id = (v_deficiency->>'deficiency_id')::UUID AND roof_id = p_roof_id
+    ) THEN
+      RAISE EXCEPTION 'Deficiency % does not belong to roof %', v_deficiency->>'deficiency_id', p_roof_id;
+    END IF;
+
+    INSERT INTO public.inspection_deficiencies (
+      inspection_id,
+      roof_id,
+      deficiency_id,
+      observation_type,
+      category,
+      location,
+      description,
+      severity,
+      status,
+      budget_amount,
+      photo_file_ids
+    ) VALUES (
+      v_inspection_id,
+      p_roof_id,
+      (v_deficiency->>'deficiency_id')::UUID,
+      COALESCE(v_deficiency->>'observation_type', 'new'),
+      v_deficiency->>'category',
+      v_deficiency->>'location',
+      v_deficiency->>'description',
+      COALESCE(v_deficiency->>'severity', 'medium'),
+      COALESCE(v_deficiency->>'status', 'identified'),
+      COALESCE((v_deficiency->>'budget_amount')::NUMERIC, 0),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(v_deficiency->'photo_file_ids'))::UUID[], '{}')
+    );
+  END LOOP;
+
+  FOR v_expense IN SELECT * FROM jsonb_array_elements(COALESCE(p_inspection->'capital_expenses', '[]'::JSONB))
+  LOOP
+    INSERT INTO public.inspection_capital_expenses (
+      inspection_id,
+      roof_id,
+      description,
+      expense_year,
+      estimated_cost,
+      scope_of_work,
+      completed
+    ) VALUES (
+      v_inspection_id,
+      p_roof_id,
+      v_expense->>'description',
+      (v_expense->>'expense_year')::INTEGER,
+      COALESCE((v_expense->>'estimated_cost')::NUMERIC, 0),
+      v_expense->>'scope_of_work',
+      COALESCE((v_expense->>'completed')::BOOLEAN, false)
+    );
+  END LOOP;
+
+  -- Annual inspection cadence
+  UPDATE public.roofs
+  SET
+    last_inspection_date = v_completed_date,
+    next_inspection_due = v_completed_date + INTERVAL '1 year',
+    updated_at = now()
+  WHERE id = p_roof_id;
+
+  RETURN v_inspection_id;
+END;
+$$;
@@ -0,0 +1,169 @@
+-- Idempotency keys for records written by the inspector offline sync queue.
+-- The key is the OfflineManager item id, so a retried item never creates a second row.
+
+ALTER TABLE public.inspections ADD COLUMN IF NOT EXISTS sync_key TEXT UNIQUE;
+ALTER TABLE public.inspection_deficiencies ADD COLUMN IF NOT EXISTS sync_key TEXT UNIQUE;
+ALTER TABLE public.roof_files ADD COLUMN IF NOT EXISTS sync_key TEXT UNIQUE;
+ALTER TABLE public.roof_files ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}';
+
+-- Voice notes recorded in the field
+CREATE TABLE public.inspection_voice_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  roof_id UUID NOT NULL REFERENCES public.roofs(id) ON DELETE CASCADE,
+  inspection_id UUID REFERENCES public.inspections(id) ON DELETE SET NULL,
+  transcript TEXT,
+  audio_file_id UUID REFERENCES public.roof_files(id) ON DELETE SET NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sync_key TEXT UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.inspection_voice_notes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can access inspection voice notes" ON public.inspection_voice_notes FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_inspection_voice_notes_roof_id ON public.inspection_voice_notes(roof_id);
+CREATE INDEX idx_inspection_voice_notes_inspection_id ON public.inspection_voice_notes(inspection_id);
+
+CREATE TRIGGER update_inspection_voice_notes_updated_at
+  BEFORE UPDATE ON public.inspection_voice_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO file_categories (name, description, icon, color) VALUES
+('Voice Note', 'Audio notes recorded during inspections', 'file', 'gray')
+ON CONFLICT DO NOTHING;
+
+-- Return the existing inspection when the same sync_key is replayed
+CREATE OR REPLACE FUNCTION public.complete_field_inspection(
+  p_roof_id UUID,
+  p_inspection JSONB
+) RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_inspection_id UUID;
+  v_inspector_id UUID;
+  v_completed_date DATE;
+  v_sync_key TEXT;
+  v_deficiency JSONB;
+  v_expense JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.roofs WHERE id = p_roof_id) THEN
+    RAISE EXCEPTION 'Roof % not found', p_roof_id;
+  END IF;
+
+  v_sync_key := NULLIF(p_inspection->>'sync_key', '');
+
+  IF v_sync_key IS NOT NULL THEN
+    SELECT id INTO v_inspection_id FROM public.inspections WHERE sync_key = v_sync_key;
+    IF v_inspection_id IS NOT NULL THEN
+      RETURN v_inspection_id;
+    END IF;
+  END IF;
+
+  SELECT id INTO v_inspector_id
+  FROM public.users
+  WHERE auth_user_id = auth.uid()
+  LIMIT 1;
+
+  v_completed_date := COALESCE((p_inspection->>'ended_at')::TIMESTAMP WITH TIME ZONE, now())::DATE;
+
+  INSERT INTO public.inspections (
+    roof_id,
+    inspector_id,
+    completed_date,
+    status,
+    inspection_type,
+    notes,
+    started_at,
+    ended_at,
+    roof_square_footage_confirmed,
+    overview_photo_file_ids,
+    summary,
+    sync_key
+  ) VALUES (
+    p_roof_id,
+    v_inspector_id,
+    v_completed_date,
+    'completed',
+    COALESCE(p_inspection->>'inspection_type', 'annual'),
+    NULLIF(p_inspection->>'notes', ''),
+    (p_inspection->>'started_at')::TIMESTAMP WITH TIME ZONE,
+    (p_inspection->>'ended_at')::TIMESTAMP WITH TIME ZONE,
+    (p_inspection->>'roof_square_footage_confirmed')::BOOLEAN,
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_inspection->'overview_photo_file_ids'))::UUID[], '{}'),
+    COALESCE(p_inspection->'summary', '{}'::JSONB),
+    v_sync_key
+  )
+  RETURNING id INTO v_inspection_id;
+
+  FOR v_deficiency IN SELECT * FROM jsonb_array_elements(COALESCE(p_inspection->'deficiencies', '[]'::JSONB))
+  LOOP
+    IF (v_deficiency->>'deficiency_id') IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.deficiencies
+      WHERE id = (v_deficiency->>'deficiency_id')::UUID AND roof_id = p_roof_id
+    ) THEN
+      RAISE EXCEPTION 'Deficiency % does not belong to roof %', v_deficiency->>'deficiency_id', p_roof_id;
+    END IF;
+
+    INSERT INTO public.inspection_deficiencies (
+      inspection_id,
+      roof_id,
+      deficiency_id,
+      observation_type,
+      category,
+      location,
+      description,
+      severity,
+      status,
+      budget_amount,
+      photo_file_ids
+    ) VALUES (
+      v_inspection_id,
+      p_roof_id,
+      (v_deficiency->>'deficiency_id')::UUID,
+      COALESCE(v_deficiency->>'observation_type', 'new'),
+      v_deficiency->>'category',
+      v_deficiency->>'location',
+      v_deficiency->>'description',
+      COALESCE(v_deficiency->>'severity', 'medium'),
+      COALESCE(v_deficiency->>'status', 'identified'),
+      COALESCE((v_deficiency->>'budget_amount')::NUMERIC, 0),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(v_deficiency->'photo_file_ids'))::UUID[], '{}')
+    );
+  END LOOP;
+
+  FOR v_expense IN SELECT * FROM jsonb_array_elements(COALESCE(p_inspection->'capital_expenses', '[]'::JSONB))
+  LOOP
+    INSERT INTO public.inspection_capital_expenses (
+      inspection_id,
+      roof_id,
+      description,
+      expense_year,
+      estimated_cost,
+      scope_of_work,
+      completed
+    ) VALUES (
+      v_inspection_id,
+      p_roof_id,
+      v_expense->>'description',
+      (v_expense->>'expense_year')::INTEGER,
+      COALESCE((v_expense->>'estimated_cost')::NUMERIC, 0),
+      v_expense->>'scope_of_work',
+      COALESCE((v_expense->>'completed')::BOOLEAN, false)
+    );
+  END LOOP;
+
+  -- Annual inspection cadence
+  UPDATE public.roofs
+  SET
+    last_inspection_date = v_completed_date,
+    next_inspection_due = v_completed_date + INTERVAL '1 year',
+    updated_at = now()
+  WHERE id = p_roof_id;
+
+  RETURN v_inspection_id;
+END;
+$$;
@@ -0,0 +1,26 @@
+-- Version stamps for records that inspectors can edit offline.
+-- Offline edits carry the version they were based on so sync can detect
+-- office changes made in the meantime instead of overwriting them.
+
+ALTER TABLE public.roofs ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.deficiencies ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION public.increment_row_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER increment_roofs_version
+  BEFORE UPDATE ON public.roofs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.increment_row_version();
+
+CREATE TRIGGER increment_deficiencies_version
+  BEFORE UPDATE ON public.deficiencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.increment_row_version();
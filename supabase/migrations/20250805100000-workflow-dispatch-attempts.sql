@@ -0,0 +1,25 @@
+-- Log of every call the dispatch-campaign-workflow edge function makes to the workflow engine.
+-- Written with the service role only; managers can read it to audit and troubleshoot dispatches.
+
+CREATE TABLE public.workflow_dispatch_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id TEXT NOT NULL,
+  campaign_ids TEXT[] NOT NULL DEFAULT '{}',
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  engine TEXT NOT NULL DEFAULT 'n8n',
+  attempt_number INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed')),
+  response_status INTEGER,
+  response_body JSONB,
+  error_message TEXT,
+  duration_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.workflow_dispatch_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view workflow dispatch attempts" ON public.workflow_dispatch_attempts
+FOR SELECT USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_workflow_dispatch_attempts_batch_id ON public.workflow_dispatch_attempts(batch_id);
+CREATE INDEX idx_workflow_dispatch_attempts_created_at ON public.workflow_dispatch_attempts(created_at DESC);
@@ -0,0 +1,14 @@
+-- Per-client choice of how campaign outreach is sent.
+-- workflow_engine_config holds non-secret settings only (webhook URL, sender address);
+-- secrets stay in edge function environment variables.
+
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS workflow_engine TEXT NOT NULL DEFAULT 'n8n'
+    CHECK (workflow_engine IN ('n8n', 'signed_webhook', 'smtp', 'stub')),
+  ADD COLUMN IF NOT EXISTS workflow_engine_config JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.workflow_dispatch_attempts
+  ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS request_payload JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_dispatch_attempts_client_id ON public.workflow_dispatch_attempts(client_id);
@@ -0,0 +1,262 @@
+-- Structured appointments for campaign properties: proposed slot, PM confirmation,
+-- confirmed window and a history of every scheduling change.
+
+ALTER TABLE public.campaign_properties
+  ADD COLUMN IF NOT EXISTS confirmation_status TEXT NOT NULL DEFAULT 'unscheduled'
+    CHECK (confirmation_status IN ('unscheduled', 'proposed', 'confirmed', 'declined', 'reschedule_requested')),
+  ADD COLUMN IF NOT EXISTS proposed_start TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS proposed_end TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS confirmed_start TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS confirmed_end TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS confirmed_by TEXT,
+  ADD COLUMN IF NOT EXISTS reschedule_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE public.campaign_property_schedule_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_property_id UUID NOT NULL REFERENCES public.campaign_properties(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('proposed', 'confirmed', 'declined', 'reschedule_requested', 'skipped')),
+  slot_start TIMESTAMP WITH TIME ZONE,
+  slot_end TIMESTAMP WITH TIME ZONE,
+  previous_start TIMESTAMP WITH TIME ZONE,
+  previous_end TIMESTAMP WITH TIME ZONE,
+  actor TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.campaign_property_schedule_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins and managers can access campaign schedule events"
+ON public.campaign_property_schedule_events
+FOR ALL
+USING (has_role(auth.uid(), 'super_admin'::app_role) OR has_role(auth.uid(), 'manager'::app_role));
+
+CREATE POLICY "Inspectors can view schedule events for their campaign properties"
+ON public.campaign_property_schedule_events
+FOR SELECT
+USING (
+  has_role(auth.uid(), 'inspector'::app_role) AND
+  campaign_property_id IN (SELECT id FROM public.campaign_properties WHERE inspector_id = auth.uid())
+);
+
+CREATE INDEX idx_campaign_property_schedule_events_property
+  ON public.campaign_property_schedule_events(campaign_property_id, created_at);
+CREATE INDEX idx_campaign_properties_confirmation_status ON public.campaign_properties(confirmation_status);
+
+-- Campaign statuses used by the PM response flow and scheduling
+ALTER TABLE public.inspection_campaigns DROP CONSTRAINT IF EXISTS inspection_campaigns_status_check;
+ALTER TABLE public.inspection_campaigns ADD CONSTRAINT inspection_campaigns_status_check
+  CHECK (status IN ('initiated', 'processing', 'emails_sent', 'responses_received', 'scheduled', 'in_progress', 'completed', 'failed', 'cancelled'));
+
+-- Apply one scheduling step to a campaign property and record it in the history
+CREATE OR REPLACE FUNCTION public.apply_campaign_schedule_event(
+  p_campaign_property_id UUID,
+  p_event_type TEXT,
+  p_slot_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_slot_end TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_actor TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS public.campaign_properties
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_property public.campaign_properties;
+  v_previous_start TIMESTAMP WITH TIME ZONE;
+  v_previous_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_property FROM public.campaign_properties WHERE id = p_campaign_property_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign property % not found', p_campaign_property_id;
+  END IF;
+
+  IF v_property.status IN ('completed', 'skipped') THEN
+    RAISE EXCEPTION 'Campaign property % is already %', p_campaign_property_id, v_property.status;
+  END IF;
+
+  IF p_slot_start IS NOT NULL AND p_slot_end IS NOT NULL AND p_slot_end <= p_slot_start THEN
+    RAISE EXCEPTION 'Slot end must be after slot start';
+  END IF;
+
+  v_previous_start := COALESCE(v_property.confirmed_start, v_property.proposed_start);
+  v_previous_end := COALESCE(v_property.confirmed_end, v_property.proposed_end);
+
+  CASE p_event_type
+    WHEN 'proposed' THEN
+      IF p_slot_start IS NULL THEN
+        RAISE EXCEPTION 'A proposed slot needs a start time';
+      END IF;
+
+      UPDATE public.campaign_properties SET
+        confirmation_status = 'proposed',
+        proposed_start = p_slot_start,
+        proposed_end = p_slot_end,
+        -- Proposing over a confirmed window is a reschedule
+        reschedule_count = reschedule_count + CASE WHEN v_property.confirmed_start IS NOT NULL THEN 1 ELSE 0 END,
+        confirmed_start = NULL,
+        confirmed_end = NULL,
+        confirmed_at = NULL,
+        confirmed_by = NULL,
+        status = 'pending',
+        scheduled_date = NULL,
+        updated_at = now()
+      WHERE id = p_campaign_property_id;
+
+    WHEN 'confirmed' THEN
+      IF COALESCE(p_slot_start, v_property.proposed_start) IS NULL THEN
+        RAISE EXCEPTION 'Nothing to confirm: no slot given and none proposed';
+      END IF;
+
+      UPDATE public.campaign_properties SET
+        confirmation_status = 'confirmed',
+        confirmed_start = COALESCE(p_slot_start, proposed_start),
+        confirmed_end = COALESCE(p_slot_end, CASE WHEN p_slot_start IS NULL THEN proposed_end END),
+        confirmed_at = now(),
+        confirmed_by = p_actor,
+        status = 'scheduled',
+        scheduled_date = COALESCE(p_slot_start, proposed_start)::DATE,
+        updated_at = now()
+      WHERE id = p_campaign_property_id;
+
+    WHEN 'declined' THEN
+      UPDATE public.campaign_properties SET
+        confirmation_status = 'declined',
+        proposed_start = NULL,
+        proposed_end = NULL,
+        updated_at = now()
+      WHERE id = p_campaign_property_id;
+
+    WHEN 'reschedule_requested' THEN
+      UPDATE public.campaign_properties SET
+        confirmation_status = 'reschedule_requested',
+        reschedule_count = reschedule_count + CASE WHEN v_property.confirmed_start IS NOT NULL THEN 1 ELSE 0 END,
+        confirmed_start = NULL,
+        confirmed_end = NULL,
+        confirmed_at = NULL,
+        confirmed_by = NULL,
+        status = 'pending',
+        scheduled_date = NULL,
+        updated_at = now()
+      WHERE id = p_campaign_property_id;
+
+    WHEN 'skipped' THEN
+      UPDATE public.campaign_properties SET
+        status = 'skipped',
+        updated_at = now()
+      WHERE id = p_campaign_property_id;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown schedule event type %', p_event_type;
+  END CASE;
+
+  INSERT INTO public.campaign_property_schedule_events (
+    campaign_property_id,
+    event_type,
+    slot_start,
+    slot_end,
+    previous_start,
+    previous_end,
+    actor,
+    notes,
+    created_by
+  ) VALUES (
+    p_campaign_property_id,
+    p_event_type,
+    CASE WHEN p_event_type = 'confirmed' THEN COALESCE(p_slot_start, v_property.proposed_start) ELSE p_slot_start END,
+    CASE WHEN p_event_type = 'confirmed' AND p_slot_start IS NULL THEN v_property.proposed_end ELSE p_slot_end END,
+    v_previous_start,
+    v_previous_end,
+    p_actor,
+    p_notes,
+    auth.uid()
+  );
+
+  SELECT * INTO v_property FROM public.campaign_properties WHERE id = p_campaign_property_id;
+  RETURN v_property;
+END;
+$$;
+
+-- Move the campaign to 'scheduled' once every property is confirmed, scheduled or skipped,
+-- and back to 'responses_received' if a reschedule reopens one
+CREATE OR REPLACE FUNCTION public.advance_campaign_scheduling_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_open_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_open_count
+  FROM public.campaign_properties
+  WHERE campaign_id = NEW.campaign_id
+    AND confirmation_status <> 'confirmed'
+    AND status NOT IN ('scheduled', 'skipped', 'completed', 'failed');
+
+  IF v_open_count = 0 THEN
+    UPDATE public.inspection_campaigns
+    SET status = 'scheduled', updated_at = now()
+    WHERE id = NEW.campaign_id
+      AND status IN ('initiated', 'processing', 'emails_sent', 'responses_received');
+  ELSE
+    UPDATE public.inspection_campaigns
+    SET status = 'responses_received', updated_at = now()
+    WHERE id = NEW.campaign_id
+      AND status = 'scheduled';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER advance_campaign_scheduling_status_trigger
+  AFTER UPDATE OF status, confirmation_status ON public.campaign_properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.advance_campaign_scheduling_status();
+
+-- Scheduled properties are no longer 'pending', so only auto-complete a campaign
+-- once every property has actually finished
+CREATE OR REPLACE FUNCTION public.update_campaign_progress()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' OR TG_OP = 'INSERT' THEN
+    UPDATE public.inspection_campaigns
+    SET
+      completed_properties = (
+        SELECT COUNT(*)
+        FROM public.campaign_properties
+        WHERE campaign_id = NEW.campaign_id AND status = 'completed'
+      ),
+      failed_properties = (
+        SELECT COUNT(*)
+        FROM public.campaign_properties
+        WHERE campaign_id = NEW.campaign_id AND status = 'failed'
+      ),
+      progress_percentage = (
+        SELECT ROUND(
+          (COUNT(*) FILTER (WHERE status IN ('completed', 'failed'))::DECIMAL / COUNT(*)) * 100, 2
+        )
+        FROM public.campaign_properties
+        WHERE campaign_id = NEW.campaign_id
+      ),
+      updated_at = NOW()
+    WHERE id = NEW.campaign_id;
+
+    UPDATE public.inspection_campaigns
+    SET
+      status = 'completed',
+      completed_at = NOW(),
+      actual_completion = NOW()
+    WHERE id = NEW.campaign_id
+      AND status NOT IN ('completed', 'cancelled', 'failed')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.campaign_properties
+        WHERE campaign_id = NEW.campaign_id AND status NOT IN ('completed', 'failed', 'skipped')
+      );
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,18 @@
+-- Multi-day route plans: each planned day is one inspector_routes row, grouped by plan_id.
+-- property_sequence keeps the ordered property ids; stop_schedule holds arrival and
+-- inspection times for each stop.
+
+ALTER TABLE public.inspector_routes
+  ADD COLUMN IF NOT EXISTS plan_id UUID,
+  ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES public.inspection_campaigns(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS day_number INTEGER,
+  ADD COLUMN IF NOT EXISTS start_location JSONB,
+  ADD COLUMN IF NOT EXISTS end_location JSONB,
+  ADD COLUMN IF NOT EXISTS overnight_stay BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS shift_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS inspection_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS stop_schedule JSONB NOT NULL DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS idx_inspector_routes_inspector_date ON public.inspector_routes(inspector_id, route_date);
+CREATE INDEX IF NOT EXISTS idx_inspector_routes_plan ON public.inspector_routes(plan_id);
+CREATE INDEX IF NOT EXISTS idx_inspector_routes_campaign ON public.inspector_routes(campaign_id);
@@ -0,0 +1,32 @@
+-- Saved column mappings for the Excel roof import, one or more per client.
+-- A template is picked automatically when an upload's headers match its columns.
+
+CREATE TABLE public.import_mapping_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sheet_name TEXT,
+  header_row INTEGER NOT NULL DEFAULT 1 CHECK (header_row >= 1),
+  source_headers TEXT[] NOT NULL DEFAULT '{}',
+  -- [{ source, target, transform, options }]
+  mappings JSONB NOT NULL DEFAULT '[]',
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.import_mapping_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view import mapping templates" ON public.import_mapping_templates
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage import mapping templates" ON public.import_mapping_templates
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_import_mapping_templates_client ON public.import_mapping_templates(client_id);
+
+CREATE TRIGGER update_import_mapping_templates_updated_at
+  BEFORE UPDATE ON public.import_mapping_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,109 @@
+-- Data quality rules run in the app; this stores how each rule is configured and a log
+-- of every suggested fix that was applied to a roof.
+
+CREATE TABLE public.data_quality_rule_settings (
+  rule_id TEXT NOT NULL PRIMARY KEY,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high')),
+  -- Rule-specific thresholds, e.g. { min_area: 500, max_area: 2000000 }
+  params JSONB NOT NULL DEFAULT '{}',
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.data_quality_fixes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  roof_id UUID NOT NULL REFERENCES public.roofs(id) ON DELETE CASCADE,
+  rule_id TEXT NOT NULL,
+  field_name TEXT NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  applied_by UUID REFERENCES auth.users(id),
+  applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.data_quality_rule_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.data_quality_fixes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view data quality rule settings" ON public.data_quality_rule_settings
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage data quality rule settings" ON public.data_quality_rule_settings
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Users can view data quality fixes" ON public.data_quality_fixes
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage data quality fixes" ON public.data_quality_fixes
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_data_quality_fixes_roof ON public.data_quality_fixes(roof_id, applied_at DESC);
+CREATE INDEX idx_data_quality_fixes_applied_at ON public.data_quality_fixes(applied_at DESC);
+
+CREATE TRIGGER update_data_quality_rule_settings_updated_at
+  BEFORE UPDATE ON public.data_quality_rule_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Apply suggested fixes: [{ roof_id, rule_id, field, old_value, new_value }]. A fix is
+-- only written while the field still holds the value the rule saw; anything edited
+-- since is skipped and reported back.
+CREATE OR REPLACE FUNCTION public.apply_data_quality_fixes(p_fixes JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_fix JSONB;
+  v_field TEXT;
+  v_rows INTEGER;
+  v_applied INTEGER := 0;
+  v_skipped JSONB := '[]';
+BEGIN
+  IF NOT (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only managers can apply data quality fixes';
+  END IF;
+
+  FOR v_fix IN SELECT * FROM jsonb_array_elements(p_fixes) LOOP
+    v_field := v_fix ->> 'field';
+
+    IF v_field IS NULL OR v_field IN ('id', 'created_at', 'updated_at', 'is_deleted', 'version')
+      OR NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'roofs' AND column_name = v_field
+      ) THEN
+      RAISE EXCEPTION 'Field % cannot be fixed', v_field;
+    END IF;
+
+    EXECUTE format(
+      'UPDATE public.roofs r SET %1$I = (jsonb_populate_record(NULL::public.roofs, $1)).%1$I, updated_at = now()
+       WHERE r.id = $2 AND COALESCE(to_jsonb(r.%1$I), ''null''::jsonb) = COALESCE($3, ''null''::jsonb)',
+      v_field
+    ) USING jsonb_build_object(v_field, v_fix -> 'new_value'), (v_fix ->> 'roof_id')::UUID, v_fix -> 'old_value';
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+    IF v_rows > 0 THEN
+      INSERT INTO public.data_quality_fixes (roof_id, rule_id, field_name, old_value, new_value, applied_by)
+      VALUES (
+        (v_fix ->> 'roof_id')::UUID,
+        v_fix ->> 'rule_id',
+        v_field,
+        v_fix -> 'old_value',
+        v_fix -> 'new_value',
+        auth.uid()
+      );
+      v_applied := v_applied + 1;
+    ELSE
+      v_skipped := v_skipped || jsonb_build_object(
+        'roof_id', v_fix ->> 'roof_id',
+        'field', v_field,
+        'reason', 'changed since the check ran'
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('applied', v_applied, 'skipped', v_skipped);
+END;
+$$;
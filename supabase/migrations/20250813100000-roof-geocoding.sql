@@ -0,0 +1,67 @@
+-- Coordinates backfill: how each roof was located, and the ZIP centroid reference data
+-- the offline geocoder falls back to.
+
+ALTER TABLE public.roofs
+  ADD COLUMN geocode_precision TEXT
+    CHECK (geocode_precision IN ('rooftop', 'street', 'zip_centroid', 'city')),
+  ADD COLUMN geocode_source TEXT,
+  -- Set on every attempt, so unresolved roofs aren't retried in the same backfill
+  ADD COLUMN geocoded_at TIMESTAMP WITH TIME ZONE,
+  -- Why the geocoded location disagrees with the stored city/state, if it does
+  ADD COLUMN geocode_mismatch TEXT;
+
+CREATE INDEX idx_roofs_missing_coordinates ON public.roofs(geocoded_at)
+  WHERE latitude IS NULL OR longitude IS NULL;
+
+-- ZIP centroids from the Census Bureau ZCTA gazetteer with the USPS city name, seeded by
+-- a later migration. To refresh from a newer gazetteer:
+--   \copy public.geo_zip_centroids (zip, latitude, longitude, city, state) FROM 'zip_centroids.csv' CSV HEADER
+CREATE TABLE public.geo_zip_centroids (
+  zip TEXT NOT NULL PRIMARY KEY CHECK (zip ~ '^\d{5}$'),
+  latitude NUMERIC NOT NULL,
+  longitude NUMERIC NOT NULL,
+  city TEXT,
+  state TEXT,
+  source TEXT NOT NULL DEFAULT 'census_zcta',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.geo_zip_centroids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view ZIP centroids" ON public.geo_zip_centroids
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage ZIP centroids" ON public.geo_zip_centroids
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+-- A geocoded location is stale once the address changes; clear it so the next backfill
+-- places the roof again. Coordinates entered by hand are left alone.
+CREATE OR REPLACE FUNCTION public.clear_stale_roof_geocode()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.geocode_precision IS NOT NULL
+    AND NEW.latitude IS NOT DISTINCT FROM OLD.latitude
+    AND NEW.longitude IS NOT DISTINCT FROM OLD.longitude
+    AND (NEW.address IS DISTINCT FROM OLD.address
+      OR NEW.city IS DISTINCT FROM OLD.city
+      OR NEW.state IS DISTINCT FROM OLD.state
+      OR NEW.zip IS DISTINCT FROM OLD.zip) THEN
+    NEW.latitude := NULL;
+    NEW.longitude := NULL;
+    NEW.geocode_precision := NULL;
+    NEW.geocode_source := NULL;
+    NEW.geocode_mismatch := NULL;
+    NEW.geocoded_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_stale_roof_geocode
+  BEFORE UPDATE ON public.roofs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_stale_roof_geocode();
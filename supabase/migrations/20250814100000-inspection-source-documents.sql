@@ -0,0 +1,33 @@
+-- The text layer of each uploaded inspection report, kept with its inspection so the
+-- report can be parsed again with newer rules without uploading the PDF again.
+
+CREATE TABLE public.inspection_source_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inspection_id UUID NOT NULL UNIQUE REFERENCES public.inspections(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_size BIGINT,
+  -- Pages are separated by a line holding a single form feed
+  raw_text TEXT NOT NULL,
+  page_count INTEGER NOT NULL,
+  -- The parser that produced extracted_data, so stale parses can be found
+  parser_version TEXT NOT NULL,
+  extracted_data JSONB NOT NULL DEFAULT '{}',
+  parsed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.inspection_source_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view inspection source documents" ON public.inspection_source_documents
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can modify inspection source documents" ON public.inspection_source_documents
+FOR ALL USING (auth.uid() IS NOT NULL);
+
+CREATE INDEX idx_inspection_source_documents_parser ON public.inspection_source_documents(parser_version);
+
+CREATE TRIGGER update_inspection_source_documents_updated_at
+  BEFORE UPDATE ON public.inspection_source_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,8 @@
+-- Which vendor report template parsed each stored report, and how sure the parser was of
+-- each extracted field (0-1, keyed by field name; fields that weren't found are absent).
+
+ALTER TABLE public.inspection_source_documents
+  ADD COLUMN template_id TEXT NOT NULL DEFAULT 'generic',
+  ADD COLUMN field_confidence JSONB NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_inspection_source_documents_template ON public.inspection_source_documents(template_id);
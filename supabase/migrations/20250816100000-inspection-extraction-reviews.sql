@@ -0,0 +1,54 @@
+-- Historical PDF extractions held for an admin to check before anything is written to
+-- inspections or roofs: fields parsed with low confidence, an unsure property match, or
+-- values that would overwrite what a roof already has.
+
+CREATE TABLE public.inspection_extraction_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  file_size BIGINT,
+  -- The uploaded PDF, kept in roof-files under pending-review/ until the review commits it
+  staged_path TEXT NOT NULL,
+  raw_text TEXT NOT NULL,
+  page_count INTEGER NOT NULL,
+  parser_version TEXT NOT NULL,
+  template_id TEXT NOT NULL DEFAULT 'generic',
+  extracted_data JSONB NOT NULL,
+  field_confidence JSONB NOT NULL DEFAULT '{}',
+  -- Why the extraction was held: low_confidence, property_match, roof_overwrite
+  review_reasons TEXT[] NOT NULL DEFAULT '{}',
+  low_confidence_fields TEXT[] NOT NULL DEFAULT '{}',
+  suggested_roof_id UUID REFERENCES public.roofs(id) ON DELETE SET NULL,
+  suggested_match_confidence NUMERIC,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'committed', 'rejected')),
+  -- Set when committed: the confirmed property, the extraction as corrected and the roof
+  -- fields the reviewer allowed it to change
+  roof_id UUID REFERENCES public.roofs(id) ON DELETE SET NULL,
+  inspection_id UUID REFERENCES public.inspections(id) ON DELETE SET NULL,
+  corrected_data JSONB,
+  approved_roof_fields TEXT[] NOT NULL DEFAULT '{}',
+  rejection_reason TEXT,
+  uploaded_by UUID REFERENCES auth.users(id),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.inspection_extraction_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view inspection extraction reviews" ON public.inspection_extraction_reviews
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can queue inspection extraction reviews" ON public.inspection_extraction_reviews
+FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage inspection extraction reviews" ON public.inspection_extraction_reviews
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_inspection_extraction_reviews_status ON public.inspection_extraction_reviews(status, created_at);
+
+CREATE TRIGGER update_inspection_extraction_reviews_updated_at
+  BEFORE UPDATE ON public.inspection_extraction_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,162 @@
+-- Bulk ingestion of historical inspection archives. A job is one ZIP or one batch of
+-- selected files; each PDF in it is an item the ingest-inspection-archive function
+-- parses, matches and stores (or sends to the extraction review queue). Progress lives
+-- here so a job carries on after the page that started it is closed.
+
+CREATE TABLE public.inspection_ingestion_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('archive', 'files')),
+  -- The uploaded ZIP in roof-files, for archive jobs
+  archive_path TEXT,
+  status TEXT NOT NULL DEFAULT 'uploading'
+    CHECK (status IN ('uploading', 'expanding', 'processing', 'paused', 'completed', 'failed', 'cancelled')),
+  total_files INTEGER NOT NULL DEFAULT 0,
+  stored_count INTEGER NOT NULL DEFAULT 0,
+  review_count INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  -- Entries in the archive that weren't PDFs
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  -- Last time a worker finished an item; a processing job gone quiet has lost its workers
+  last_activity_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.inspection_ingestion_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.inspection_ingestion_jobs(id) ON DELETE CASCADE,
+  -- Path inside the archive or the selected folder; unique so a resumed upload skips
+  -- files it already has
+  source_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size BIGINT,
+  -- The PDF in roof-files under pending-review/, moved to the roof once stored
+  storage_path TEXT NOT NULL,
+  -- Property name taken from the folder the file was in
+  property_hint TEXT,
+  file_hash TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'stored', 'review', 'duplicate', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  roof_id UUID REFERENCES public.roofs(id) ON DELETE SET NULL,
+  match_confidence NUMERIC,
+  inspection_id UUID REFERENCES public.inspections(id) ON DELETE SET NULL,
+  review_id UUID REFERENCES public.inspection_extraction_reviews(id) ON DELETE SET NULL,
+  -- What made the item a duplicate or a failure
+  message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, source_path)
+);
+
+ALTER TABLE public.inspection_ingestion_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inspection_ingestion_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view inspection ingestion jobs" ON public.inspection_ingestion_jobs
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage inspection ingestion jobs" ON public.inspection_ingestion_jobs
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Users can view inspection ingestion items" ON public.inspection_ingestion_items
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage inspection ingestion items" ON public.inspection_ingestion_items
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_inspection_ingestion_jobs_created ON public.inspection_ingestion_jobs(created_at DESC);
+CREATE INDEX idx_inspection_ingestion_items_job_status ON public.inspection_ingestion_items(job_id, status);
+CREATE INDEX idx_inspection_ingestion_items_hash ON public.inspection_ingestion_items(job_id, file_hash);
+
+CREATE TRIGGER update_inspection_ingestion_jobs_updated_at
+  BEFORE UPDATE ON public.inspection_ingestion_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_inspection_ingestion_items_updated_at
+  BEFORE UPDATE ON public.inspection_ingestion_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hand the next pending items of a job to a worker. SKIP LOCKED lets several workers
+-- claim from the same job at once without taking the same item. Items a worker claimed
+-- and never finished are picked up again after ten minutes, up to three attempts.
+CREATE OR REPLACE FUNCTION public.claim_ingestion_items(
+  p_job_id UUID,
+  p_limit INTEGER DEFAULT 5
+) RETURNS SETOF public.inspection_ingestion_items
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.inspection_ingestion_items
+  SET status = 'failed',
+      message = 'Gave up after ' || attempts || ' attempts',
+      finished_at = now()
+  WHERE job_id = p_job_id
+    AND status = 'processing'
+    AND started_at < now() - interval '10 minutes'
+    AND attempts >= 3;
+
+  RETURN QUERY
+  UPDATE public.inspection_ingestion_items AS item
+  SET status = 'processing',
+      attempts = item.attempts + 1,
+      started_at = now()
+  WHERE item.id IN (
+    SELECT id FROM public.inspection_ingestion_items
+    WHERE job_id = p_job_id
+      AND (status = 'pending' OR (status = 'processing' AND started_at < now() - interval '10 minutes'))
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING item.*;
+END;
+$$;
+
+-- Recount a job's items and complete it once nothing is left to process
+CREATE OR REPLACE FUNCTION public.refresh_ingestion_job(p_job_id UUID)
+RETURNS public.inspection_ingestion_jobs
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_job public.inspection_ingestion_jobs;
+  v_open INTEGER;
+BEGIN
+  SELECT count(*) FILTER (WHERE status IN ('pending', 'processing')) INTO v_open
+  FROM public.inspection_ingestion_items
+  WHERE job_id = p_job_id;
+
+  UPDATE public.inspection_ingestion_jobs AS job
+  SET total_files = counts.total,
+      stored_count = counts.stored,
+      review_count = counts.review,
+      duplicate_count = counts.duplicate,
+      failed_count = counts.failed,
+      last_activity_at = now(),
+      status = CASE WHEN job.status = 'processing' AND v_open = 0 THEN 'completed' ELSE job.status END,
+      completed_at = CASE WHEN job.status = 'processing' AND v_open = 0 THEN now() ELSE job.completed_at END
+  FROM (
+    SELECT count(*)::INTEGER AS total,
+           (count(*) FILTER (WHERE status = 'stored'))::INTEGER AS stored,
+           (count(*) FILTER (WHERE status = 'review'))::INTEGER AS review,
+           (count(*) FILTER (WHERE status = 'duplicate'))::INTEGER AS duplicate,
+           (count(*) FILTER (WHERE status = 'failed'))::INTEGER AS failed
+    FROM public.inspection_ingestion_items
+    WHERE job_id = p_job_id
+  ) AS counts
+  WHERE job.id = p_job_id
+  RETURNING job.* INTO v_job;
+
+  RETURN v_job;
+END;
+$$;
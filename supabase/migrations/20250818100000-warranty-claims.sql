@@ -0,0 +1,157 @@
+-- Warranty claims filed against a roof's manufacturer or installer warranty. The
+-- warranty number and warrantor are copied from the roof when the claim is filed so the
+-- claim still reads correctly after the roof's warranty fields change. Claims move
+-- submitted -> under_review -> approved | denied -> completed through
+-- advance_warranty_claim, which records each step in warranty_claim_events.
+
+CREATE SEQUENCE public.warranty_claim_number_seq;
+
+CREATE TABLE public.warranty_claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_number TEXT NOT NULL UNIQUE
+    DEFAULT ('WC-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('public.warranty_claim_number_seq')::TEXT, 4, '0')),
+  roof_id UUID NOT NULL REFERENCES public.roofs(id) ON DELETE CASCADE,
+  warranty_type TEXT NOT NULL CHECK (warranty_type IN ('manufacturer', 'installer')),
+  warranty_number TEXT,
+  -- Manufacturer or installing contractor the claim is filed with
+  warrantor TEXT,
+  issue_type TEXT NOT NULL,
+  description TEXT,
+  claim_amount NUMERIC NOT NULL DEFAULT 0 CHECK (claim_amount >= 0),
+  approved_amount NUMERIC CHECK (approved_amount >= 0),
+  status TEXT NOT NULL DEFAULT 'submitted'
+    CHECK (status IN ('submitted', 'under_review', 'approved', 'denied', 'completed')),
+  -- approved or denied; kept once the claim is completed
+  decision TEXT CHECK (decision IN ('approved', 'denied')),
+  denial_reason TEXT,
+  -- The warrantor's own reference for the claim
+  warrantor_reference TEXT,
+  -- Evidence: tracked deficiencies and photos (roof_files) the claim is about
+  deficiency_ids UUID[] NOT NULL DEFAULT '{}',
+  photo_file_ids UUID[] NOT NULL DEFAULT '{}',
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  review_started_at TIMESTAMP WITH TIME ZONE,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  submitted_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.warranty_claim_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.warranty_claims(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES public.roof_files(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL DEFAULT 'other'
+    CHECK (document_type IN ('claim_form', 'correspondence', 'estimate', 'invoice', 'inspection_report', 'photo', 'other')),
+  notes TEXT,
+  uploaded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (claim_id, file_id)
+);
+
+CREATE TABLE public.warranty_claim_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.warranty_claims(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  amount NUMERIC,
+  notes TEXT,
+  actor UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.warranty_claims ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.warranty_claim_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.warranty_claim_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view warranty claims" ON public.warranty_claims
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage warranty claims" ON public.warranty_claims
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Users can view warranty claim documents" ON public.warranty_claim_documents
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage warranty claim documents" ON public.warranty_claim_documents
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Users can view warranty claim events" ON public.warranty_claim_events
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage warranty claim events" ON public.warranty_claim_events
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_warranty_claims_roof ON public.warranty_claims(roof_id);
+CREATE INDEX idx_warranty_claims_status ON public.warranty_claims(status, submitted_at DESC);
+CREATE INDEX idx_warranty_claims_warrantor ON public.warranty_claims(warranty_type, warrantor);
+CREATE INDEX idx_warranty_claim_documents_claim ON public.warranty_claim_documents(claim_id);
+CREATE INDEX idx_warranty_claim_events_claim ON public.warranty_claim_events(claim_id, created_at);
+
+CREATE TRIGGER update_warranty_claims_updated_at
+  BEFORE UPDATE ON public.warranty_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_warranty_claim_documents_updated_at
+  BEFORE UPDATE ON public.warranty_claim_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move a claim one step along its lifecycle and record it in the history
+CREATE OR REPLACE FUNCTION public.advance_warranty_claim(
+  p_claim_id UUID,
+  p_status TEXT,
+  p_approved_amount NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS public.warranty_claims
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_claim public.warranty_claims;
+  v_previous_status TEXT;
+BEGIN
+  SELECT * INTO v_claim FROM public.warranty_claims WHERE id = p_claim_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Warranty claim % not found', p_claim_id;
+  END IF;
+
+  IF NOT (
+    (v_claim.status = 'submitted' AND p_status = 'under_review') OR
+    (v_claim.status = 'under_review' AND p_status IN ('approved', 'denied')) OR
+    (v_claim.status IN ('approved', 'denied') AND p_status = 'completed')
+  ) THEN
+    RAISE EXCEPTION 'A % claim cannot be moved to %', v_claim.status, p_status;
+  END IF;
+
+  IF p_status = 'approved' AND p_approved_amount IS NULL THEN
+    RAISE EXCEPTION 'An approved claim needs an approved amount';
+  END IF;
+
+  v_previous_status := v_claim.status;
+
+  UPDATE public.warranty_claims SET
+    status = p_status,
+    review_started_at = CASE WHEN p_status = 'under_review' THEN now() ELSE review_started_at END,
+    decided_at = CASE WHEN p_status IN ('approved', 'denied') THEN now() ELSE decided_at END,
+    completed_at = CASE WHEN p_status = 'completed' THEN now() ELSE completed_at END,
+    decision = CASE WHEN p_status IN ('approved', 'denied') THEN p_status ELSE decision END,
+    approved_amount = CASE
+      WHEN p_status = 'approved' THEN p_approved_amount
+      WHEN p_status = 'denied' THEN 0
+      ELSE approved_amount
+    END,
+    denial_reason = CASE WHEN p_status = 'denied' THEN p_notes ELSE denial_reason END
+  WHERE id = p_claim_id
+  RETURNING * INTO v_claim;
+
+  INSERT INTO public.warranty_claim_events (claim_id, from_status, to_status, amount, notes, actor)
+  VALUES (p_claim_id, v_previous_status, p_status, p_approved_amount, p_notes, auth.uid());
+
+  RETURN v_claim;
+END;
+$$;
@@ -0,0 +1,218 @@
+-- Warranty registry. A roof can carry any number of warranties: a re-cover, an NDL
+-- warranty on one section and a workmanship warranty on another. Each records what it
+-- covers, for how long, what it excludes, the upkeep it requires to stay valid and who
+-- it has been transferred to.
+--
+-- The flat manufacturer_warranty_*, installer_warranty_* and warranty_expiration columns
+-- on roofs are still written by imports and edited on the roof, so they are copied into
+-- the registry (one warranty per column group, keyed by source_column) on every change.
+
+CREATE TABLE public.warranties (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  roof_id UUID NOT NULL REFERENCES public.roofs(id) ON DELETE CASCADE,
+  -- Who issued it
+  warranty_type TEXT NOT NULL CHECK (warranty_type IN ('manufacturer', 'installer', 'other')),
+  coverage_type TEXT NOT NULL DEFAULT 'unspecified'
+    CHECK (coverage_type IN ('ndl', 'system', 'material', 'workmanship', 'labor_and_material', 'unspecified')),
+  provider TEXT,
+  warranty_number TEXT,
+  term_years INTEGER CHECK (term_years > 0),
+  -- The term as written on the certificate or in the source data
+  term_description TEXT,
+  start_date DATE,
+  expiration_date DATE,
+  -- Part of the roof covered when it isn't the whole section, e.g. 'Area B re-cover'
+  section_scope TEXT,
+  covered_area_sqft NUMERIC,
+  exclusions TEXT[] NOT NULL DEFAULT '{}',
+  -- Upkeep the warranty requires: [{ "requirement": "...", "interval_months": 12, "evidence": "inspection" }]
+  maintenance_requirements JSONB NOT NULL DEFAULT '[]',
+  renewable BOOLEAN NOT NULL DEFAULT false,
+  renewal_cost NUMERIC,
+  -- Days before expiration to start alerting
+  alert_lead_days INTEGER NOT NULL DEFAULT 90 CHECK (alert_lead_days >= 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'void', 'superseded')),
+  -- The warranty this one replaced, e.g. the original roof's after a re-cover
+  supersedes_warranty_id UUID REFERENCES public.warranties(id) ON DELETE SET NULL,
+  current_holder TEXT,
+  -- roofs column group the warranty was copied from: manufacturer, installer or legacy
+  source_column TEXT CHECK (source_column IN ('manufacturer', 'installer', 'legacy')),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.warranty_transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  warranty_id UUID NOT NULL REFERENCES public.warranties(id) ON DELETE CASCADE,
+  transferred_on DATE NOT NULL,
+  from_holder TEXT,
+  to_holder TEXT NOT NULL,
+  transfer_fee NUMERIC,
+  -- Whether the issuer has acknowledged the transfer
+  approved_by_issuer BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  recorded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.warranties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.warranty_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view warranties" ON public.warranties
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage warranties" ON public.warranties
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Users can view warranty transfers" ON public.warranty_transfers
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage warranty transfers" ON public.warranty_transfers
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_warranties_roof ON public.warranties(roof_id);
+CREATE INDEX idx_warranties_expiration ON public.warranties(expiration_date) WHERE status = 'active';
+CREATE UNIQUE INDEX idx_warranties_roof_source_column ON public.warranties(roof_id, source_column)
+  WHERE source_column IS NOT NULL;
+CREATE INDEX idx_warranty_transfers_warranty ON public.warranty_transfers(warranty_id, transferred_on);
+
+CREATE TRIGGER update_warranties_updated_at
+  BEFORE UPDATE ON public.warranties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_warranty_transfers_updated_at
+  BEFORE UPDATE ON public.warranty_transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Claims are filed against a registry warranty; warranty_type and warrantor stay as the
+-- snapshot taken when the claim was filed
+ALTER TABLE public.warranty_claims
+  ADD COLUMN warranty_id UUID REFERENCES public.warranties(id) ON DELETE SET NULL;
+
+ALTER TABLE public.warranty_claims DROP CONSTRAINT IF EXISTS warranty_claims_warranty_type_check;
+ALTER TABLE public.warranty_claims ADD CONSTRAINT warranty_claims_warranty_type_check
+  CHECK (warranty_type IN ('manufacturer', 'installer', 'other'));
+
+CREATE INDEX idx_warranty_claims_warranty ON public.warranty_claims(warranty_id);
+
+-- Whole years in a free-text term such as '20 Year NDL' or '240 months'
+CREATE OR REPLACE FUNCTION public.warranty_term_years(p_term TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(
+    CASE
+      WHEN p_term ~* 'month' THEN substring(p_term FROM '(\d+)')::INTEGER / 12
+      ELSE substring(p_term FROM '(\d+)')::INTEGER
+    END,
+    0
+  )
+$$;
+
+-- Copy a roof's flat warranty columns into the registry. Only the fields the columns
+-- hold are overwritten, so coverage, scope and requirements added in the registry stay.
+-- Runs as definer so anyone allowed to edit a roof keeps its registry in step.
+CREATE OR REPLACE FUNCTION public.sync_roof_column_warranties(p_roof public.roofs)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_roof.manufacturer_has_warranty
+     OR p_roof.manufacturer_warranty_number IS NOT NULL
+     OR p_roof.manufacturer_warranty_expiration IS NOT NULL THEN
+    INSERT INTO public.warranties (
+      roof_id, warranty_type, provider, warranty_number, term_description, term_years,
+      expiration_date, start_date, source_column
+    ) VALUES (
+      p_roof.id, 'manufacturer', p_roof.manufacturer, p_roof.manufacturer_warranty_number,
+      p_roof.manufacturer_warranty_term,
+      public.warranty_term_years(p_roof.manufacturer_warranty_term),
+      p_roof.manufacturer_warranty_expiration,
+      (p_roof.manufacturer_warranty_expiration
+        - make_interval(years => public.warranty_term_years(p_roof.manufacturer_warranty_term)))::DATE,
+      'manufacturer'
+    )
+    ON CONFLICT (roof_id, source_column) WHERE source_column IS NOT NULL DO UPDATE SET
+      provider = EXCLUDED.provider,
+      warranty_number = EXCLUDED.warranty_number,
+      term_description = EXCLUDED.term_description,
+      term_years = EXCLUDED.term_years,
+      expiration_date = EXCLUDED.expiration_date,
+      start_date = COALESCE(EXCLUDED.start_date, warranties.start_date);
+  END IF;
+
+  IF p_roof.installer_has_warranty
+     OR p_roof.installer_warranty_number IS NOT NULL
+     OR p_roof.installer_warranty_expiration IS NOT NULL THEN
+    INSERT INTO public.warranties (
+      roof_id, warranty_type, coverage_type, provider, warranty_number, term_description, term_years,
+      expiration_date, start_date, source_column
+    ) VALUES (
+      p_roof.id, 'installer', 'workmanship', p_roof.installing_contractor, p_roof.installer_warranty_number,
+      p_roof.installer_warranty_term,
+      public.warranty_term_years(p_roof.installer_warranty_term),
+      p_roof.installer_warranty_expiration,
+      (p_roof.installer_warranty_expiration
+        - make_interval(years => public.warranty_term_years(p_roof.installer_warranty_term)))::DATE,
+      'installer'
+    )
+    ON CONFLICT (roof_id, source_column) WHERE source_column IS NOT NULL DO UPDATE SET
+      provider = EXCLUDED.provider,
+      warranty_number = EXCLUDED.warranty_number,
+      term_description = EXCLUDED.term_description,
+      term_years = EXCLUDED.term_years,
+      expiration_date = EXCLUDED.expiration_date,
+      start_date = COALESCE(EXCLUDED.start_date, warranties.start_date);
+  END IF;
+
+  -- warranty_expiration predates the manufacturer/installer columns; it only becomes a
+  -- warranty of its own when it doesn't repeat one of their dates
+  IF p_roof.warranty_expiration IS NOT NULL
+     AND p_roof.warranty_expiration IS DISTINCT FROM p_roof.manufacturer_warranty_expiration
+     AND p_roof.warranty_expiration IS DISTINCT FROM p_roof.installer_warranty_expiration THEN
+    INSERT INTO public.warranties (roof_id, warranty_type, expiration_date, source_column, notes)
+    VALUES (p_roof.id, 'other', p_roof.warranty_expiration, 'legacy', 'Issuer not recorded')
+    ON CONFLICT (roof_id, source_column) WHERE source_column IS NOT NULL DO UPDATE SET
+      expiration_date = EXCLUDED.expiration_date;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_roof_column_warranties_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.sync_roof_column_warranties(NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_roof_column_warranties
+  AFTER INSERT OR UPDATE OF
+    manufacturer, manufacturer_has_warranty, manufacturer_warranty_number, manufacturer_warranty_term,
+    manufacturer_warranty_expiration, installing_contractor, installer_has_warranty,
+    installer_warranty_number, installer_warranty_term, installer_warranty_expiration, warranty_expiration
+  ON public.roofs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_roof_column_warranties_trigger();
+
+-- Backfill from existing roofs
+SELECT public.sync_roof_column_warranties(roofs) FROM public.roofs WHERE NOT COALESCE(is_deleted, false);
+
+-- Link existing claims to the warranty they were filed under
+UPDATE public.warranty_claims AS claim
+SET warranty_id = warranty.id
+FROM public.warranties AS warranty
+WHERE warranty.roof_id = claim.roof_id
+  AND warranty.source_column = claim.warranty_type
+  AND claim.warranty_id IS NULL;
@@ -0,0 +1,234 @@
+-- Maintenance plans and tasks. A plan is a recurring obligation for one roof or every
+-- roof in a roof group, e.g. drain cleaning every April and October. Upcoming occurrences
+-- are generated from active plans as maintenance_tasks; one-off tasks have no plan. A task
+-- that needs a contractor dispatched is converted into a work order, and completing that
+-- work order completes the task.
+
+CREATE TABLE public.maintenance_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  maintenance_type TEXT NOT NULL DEFAULT 'Preventative',
+  -- Exactly one of a single roof or a roof group (roofs.roof_group)
+  roof_id UUID REFERENCES public.roofs(id) ON DELETE CASCADE,
+  roof_group TEXT,
+  -- Months of the year the task falls in, e.g. {4,10}; when empty, interval_months
+  -- counted from start_date is used instead
+  recurrence_months INTEGER[] NOT NULL DEFAULT '{}'
+    CHECK (recurrence_months <@ ARRAY[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]),
+  interval_months INTEGER CHECK (interval_months > 0),
+  day_of_month INTEGER NOT NULL DEFAULT 1 CHECK (day_of_month BETWEEN 1 AND 28),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  -- How far ahead occurrences are generated
+  horizon_days INTEGER NOT NULL DEFAULT 90 CHECK (horizon_days > 0),
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  estimated_cost NUMERIC,
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((roof_id IS NULL) <> (roof_group IS NULL)),
+  CHECK (cardinality(recurrence_months) > 0 OR interval_months IS NOT NULL),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE public.maintenance_tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  plan_id UUID REFERENCES public.maintenance_plans(id) ON DELETE SET NULL,
+  roof_id UUID NOT NULL REFERENCES public.roofs(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  maintenance_type TEXT NOT NULL DEFAULT 'Preventative',
+  scheduled_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'in_progress', 'completed', 'cancelled')),
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  estimated_cost NUMERIC,
+  actual_cost NUMERIC,
+  completed_date DATE,
+  completion_notes TEXT,
+  work_order_id UUID REFERENCES public.work_orders(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id),
+  completed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- One occurrence per plan, roof and date, so generation can be re-run safely and a
+  -- cancelled occurrence isn't generated again
+  UNIQUE (plan_id, roof_id, scheduled_date)
+);
+
+ALTER TABLE public.maintenance_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.maintenance_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view maintenance plans" ON public.maintenance_plans
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage maintenance plans" ON public.maintenance_plans
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Users can view maintenance tasks" ON public.maintenance_tasks
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage maintenance tasks" ON public.maintenance_tasks
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_maintenance_plans_roof ON public.maintenance_plans(roof_id);
+CREATE INDEX idx_maintenance_plans_roof_group ON public.maintenance_plans(roof_group);
+CREATE INDEX idx_maintenance_tasks_schedule ON public.maintenance_tasks(status, scheduled_date);
+CREATE INDEX idx_maintenance_tasks_roof ON public.maintenance_tasks(roof_id);
+CREATE INDEX idx_maintenance_tasks_work_order ON public.maintenance_tasks(work_order_id);
+
+CREATE TRIGGER update_maintenance_plans_updated_at
+  BEFORE UPDATE ON public.maintenance_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_maintenance_tasks_updated_at
+  BEFORE UPDATE ON public.maintenance_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Dates a plan falls on between two dates, inclusive
+CREATE OR REPLACE FUNCTION public.maintenance_plan_dates(
+  p_plan public.maintenance_plans,
+  p_from DATE,
+  p_through DATE
+) RETURNS SETOF DATE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT occurrence
+  FROM (
+    SELECT CASE
+      WHEN cardinality(p_plan.recurrence_months) > 0 THEN
+        (date_trunc('month', p_plan.start_date) + make_interval(months => n))::DATE + (p_plan.day_of_month - 1)
+      ELSE
+        (p_plan.start_date + make_interval(months => n * p_plan.interval_months))::DATE
+    END AS occurrence
+    FROM generate_series(
+      0,
+      (
+        (extract(year FROM p_through) - extract(year FROM p_plan.start_date)) * 12
+        + extract(month FROM p_through) - extract(month FROM p_plan.start_date)
+      )::INTEGER
+    ) AS n
+  ) AS dates
+  WHERE occurrence BETWEEN GREATEST(p_from, p_plan.start_date) AND LEAST(p_through, COALESCE(p_plan.end_date, p_through))
+    AND (
+      cardinality(p_plan.recurrence_months) = 0
+      OR extract(month FROM occurrence)::INTEGER = ANY (p_plan.recurrence_months)
+    )
+$$;
+
+-- Create the upcoming occurrences of every active plan, up to each plan's horizon (or
+-- p_through when given). Runs as definer so anyone viewing the schedule keeps it filled
+-- in; it only adds occurrences the plans already define.
+CREATE OR REPLACE FUNCTION public.generate_maintenance_tasks(p_through DATE DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.maintenance_plans;
+  v_created INTEGER := 0;
+  v_inserted INTEGER;
+BEGIN
+  FOR v_plan IN SELECT * FROM public.maintenance_plans WHERE is_active LOOP
+    INSERT INTO public.maintenance_tasks (
+      plan_id, roof_id, title, description, maintenance_type, scheduled_date, priority,
+      vendor_id, estimated_cost
+    )
+    SELECT
+      v_plan.id, roof.id, v_plan.title, v_plan.description, v_plan.maintenance_type, occurrence,
+      v_plan.priority, v_plan.vendor_id, v_plan.estimated_cost
+    FROM public.roofs AS roof
+    CROSS JOIN public.maintenance_plan_dates(
+      v_plan,
+      CURRENT_DATE,
+      COALESCE(p_through, CURRENT_DATE + v_plan.horizon_days)
+    ) AS occurrence
+    WHERE NOT COALESCE(roof.is_deleted, false)
+      AND (roof.id = v_plan.roof_id OR roof.roof_group = v_plan.roof_group)
+    ON CONFLICT (plan_id, roof_id, scheduled_date) DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+    v_created := v_created + v_inserted;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+-- Dispatch a task: open a work order for it and mark the task in progress
+CREATE OR REPLACE FUNCTION public.convert_maintenance_task_to_work_order(p_task_id UUID)
+RETURNS public.work_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.maintenance_tasks;
+  v_work_order public.work_orders;
+BEGIN
+  SELECT * INTO v_task FROM public.maintenance_tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maintenance task % not found', p_task_id;
+  END IF;
+
+  IF v_task.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'A % task cannot be dispatched', v_task.status;
+  END IF;
+
+  IF v_task.work_order_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Task already has a work order';
+  END IF;
+
+  INSERT INTO public.work_orders (
+    title, description, roof_id, vendor_id, estimated_cost, priority, status,
+    scheduled_start, created_by
+  ) VALUES (
+    v_task.title, v_task.description, v_task.roof_id, v_task.vendor_id, v_task.estimated_cost,
+    v_task.priority, 'pending', v_task.scheduled_date, auth.uid()
+  )
+  RETURNING * INTO v_work_order;
+
+  UPDATE public.maintenance_tasks SET
+    work_order_id = v_work_order.id,
+    status = 'in_progress'
+  WHERE id = p_task_id;
+
+  RETURN v_work_order;
+END;
+$$;
+
+-- Completing a work order completes the maintenance tasks dispatched through it. Work
+-- orders are closed out by field staff who can't edit tasks, hence definer.
+CREATE OR REPLACE FUNCTION public.complete_work_order_maintenance_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    UPDATE public.maintenance_tasks SET
+      status = 'completed',
+      completed_date = COALESCE(NEW.completed_date::DATE, CURRENT_DATE),
+      actual_cost = COALESCE(NEW.actual_cost, actual_cost),
+      completed_by = auth.uid()
+    WHERE work_order_id = NEW.id
+      AND status <> 'completed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER complete_work_order_maintenance_tasks
+  AFTER UPDATE OF status ON public.work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.complete_work_order_maintenance_tasks();
@@ -0,0 +1,488 @@
+-- Work order lifecycle. A work order moves draft -> bid_requested -> bids_received ->
+-- approved -> scheduled -> in_progress -> completed -> invoiced -> paid, or is cancelled
+-- before it is invoiced. Vendors quote through work_order_bids; approving a bid commits
+-- its amount, and bids above the client's approval threshold need a super admin.
+-- Invoices are recorded line by line and their total becomes the order's actual cost, so
+-- it can be reconciled against the approved amount.
+
+-- Bid amounts above this need super admin approval; null lets managers approve any amount
+ALTER TABLE public.clients ADD COLUMN work_order_approval_threshold NUMERIC
+  CHECK (work_order_approval_threshold >= 0);
+
+-- Map the free-text statuses onto the lifecycle
+UPDATE public.work_orders SET status = CASE
+  WHEN status = 'in-progress' THEN 'in_progress'
+  -- A contractor was assigned without bidding
+  WHEN status = 'assigned' THEN 'approved'
+  WHEN status IN ('completed', 'cancelled', 'scheduled', 'in_progress') THEN status
+  ELSE 'draft'
+END;
+
+ALTER TABLE public.work_orders
+  ALTER COLUMN status SET DEFAULT 'draft',
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT work_orders_status_check CHECK (status IN (
+    'draft', 'bid_requested', 'bids_received', 'approved', 'scheduled', 'in_progress',
+    'completed', 'invoiced', 'paid', 'cancelled'
+  )),
+  ADD COLUMN bid_due_date DATE,
+  ADD COLUMN approved_amount NUMERIC,
+  ADD COLUMN approved_by UUID REFERENCES auth.users(id),
+  ADD COLUMN approved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN invoiced_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN paid_at TIMESTAMP WITH TIME ZONE;
+
+-- Orders already past approval were committed at their estimate
+UPDATE public.work_orders SET approved_amount = estimated_cost
+WHERE status IN ('approved', 'scheduled', 'in_progress', 'completed');
+
+CREATE TABLE public.work_order_bids (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  work_order_id UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  vendor_id UUID NOT NULL REFERENCES public.vendors(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'received', 'declined', 'accepted', 'rejected')),
+  amount NUMERIC CHECK (amount >= 0),
+  scope_notes TEXT,
+  valid_until DATE,
+  -- The vendor's quote document
+  file_id UUID REFERENCES public.roof_files(id) ON DELETE SET NULL,
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  received_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (work_order_id, vendor_id),
+  CHECK (status IN ('requested', 'declined') OR amount IS NOT NULL)
+);
+
+ALTER TABLE public.work_orders
+  ADD COLUMN approved_bid_id UUID REFERENCES public.work_order_bids(id) ON DELETE SET NULL;
+
+CREATE TABLE public.work_order_invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  work_order_id UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  invoice_number TEXT NOT NULL,
+  invoice_date DATE NOT NULL,
+  -- Sum of the invoice's lines, kept by record_work_order_invoice
+  total NUMERIC NOT NULL DEFAULT 0,
+  file_id UUID REFERENCES public.roof_files(id) ON DELETE SET NULL,
+  notes TEXT,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (work_order_id, invoice_number)
+);
+
+CREATE TABLE public.work_order_invoice_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.work_order_invoices(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  -- change_order marks work outside the approved bid's scope
+  category TEXT NOT NULL DEFAULT 'labor'
+    CHECK (category IN ('labor', 'materials', 'equipment', 'change_order', 'other')),
+  quantity NUMERIC NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price NUMERIC NOT NULL,
+  amount NUMERIC GENERATED ALWAYS AS (quantity * unit_price) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.work_order_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  work_order_id UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  amount NUMERIC,
+  notes TEXT,
+  actor UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.work_order_bids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.work_order_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.work_order_invoice_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.work_order_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view work order bids" ON public.work_order_bids
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage work order bids" ON public.work_order_bids
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Users can view work order invoices" ON public.work_order_invoices
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage work order invoices" ON public.work_order_invoices
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Users can view work order invoice lines" ON public.work_order_invoice_lines
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage work order invoice lines" ON public.work_order_invoice_lines
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE POLICY "Users can view work order events" ON public.work_order_events
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage work order events" ON public.work_order_events
+FOR ALL USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_work_orders_status ON public.work_orders(status);
+CREATE INDEX idx_work_order_bids_work_order ON public.work_order_bids(work_order_id);
+CREATE INDEX idx_work_order_invoices_work_order ON public.work_order_invoices(work_order_id);
+CREATE INDEX idx_work_order_invoice_lines_invoice ON public.work_order_invoice_lines(invoice_id);
+CREATE INDEX idx_work_order_events_work_order ON public.work_order_events(work_order_id, created_at);
+
+CREATE TRIGGER update_work_order_bids_updated_at
+  BEFORE UPDATE ON public.work_order_bids
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_work_order_invoices_updated_at
+  BEFORE UPDATE ON public.work_order_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_work_order_invoice_lines_updated_at
+  BEFORE UPDATE ON public.work_order_invoice_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Moves that need nothing but the move itself. Bids, approval and invoicing go through
+-- their own functions below.
+CREATE OR REPLACE FUNCTION public.advance_work_order(
+  p_work_order_id UUID,
+  p_status TEXT,
+  p_notes TEXT DEFAULT NULL
+) RETURNS public.work_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.work_orders;
+  v_previous_status TEXT;
+BEGIN
+  SELECT * INTO v_order FROM public.work_orders WHERE id = p_work_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work order % not found', p_work_order_id;
+  END IF;
+
+  IF NOT (
+    (v_order.status = 'approved' AND p_status = 'scheduled') OR
+    (v_order.status = 'scheduled' AND p_status = 'in_progress') OR
+    (v_order.status = 'in_progress' AND p_status = 'completed') OR
+    (v_order.status = 'invoiced' AND p_status = 'paid') OR
+    (v_order.status NOT IN ('invoiced', 'paid', 'cancelled') AND p_status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'A % work order cannot be moved to %', v_order.status, p_status;
+  END IF;
+
+  IF p_status = 'scheduled' AND v_order.scheduled_start IS NULL THEN
+    RAISE EXCEPTION 'Set a scheduled start before scheduling the work order';
+  END IF;
+
+  v_previous_status := v_order.status;
+
+  UPDATE public.work_orders SET
+    status = p_status,
+    completed_date = CASE WHEN p_status = 'completed' THEN CURRENT_DATE ELSE completed_date END,
+    paid_at = CASE WHEN p_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = p_work_order_id
+  RETURNING * INTO v_order;
+
+  IF p_status = 'paid' THEN
+    UPDATE public.work_order_invoices SET paid_at = now()
+    WHERE work_order_id = p_work_order_id AND paid_at IS NULL;
+  END IF;
+
+  INSERT INTO public.work_order_events (work_order_id, from_status, to_status, notes, actor)
+  VALUES (p_work_order_id, v_previous_status, p_status, p_notes, auth.uid());
+
+  RETURN v_order;
+END;
+$$;
+
+-- Invite vendors to quote. Vendors already invited keep their bid.
+CREATE OR REPLACE FUNCTION public.request_work_order_bids(
+  p_work_order_id UUID,
+  p_vendor_ids UUID[],
+  p_bid_due_date DATE DEFAULT NULL
+) RETURNS public.work_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.work_orders;
+  v_previous_status TEXT;
+BEGIN
+  SELECT * INTO v_order FROM public.work_orders WHERE id = p_work_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work order % not found', p_work_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('draft', 'bid_requested', 'bids_received') THEN
+    RAISE EXCEPTION 'Bids cannot be requested for a % work order', v_order.status;
+  END IF;
+
+  IF cardinality(p_vendor_ids) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one vendor to request bids from';
+  END IF;
+
+  INSERT INTO public.work_order_bids (work_order_id, vendor_id, created_by)
+  SELECT p_work_order_id, vendor_id, auth.uid()
+  FROM unnest(p_vendor_ids) AS vendor_id
+  ON CONFLICT (work_order_id, vendor_id) DO NOTHING;
+
+  v_previous_status := v_order.status;
+
+  UPDATE public.work_orders SET
+    status = CASE WHEN status = 'draft' THEN 'bid_requested' ELSE status END,
+    bid_due_date = COALESCE(p_bid_due_date, bid_due_date)
+  WHERE id = p_work_order_id
+  RETURNING * INTO v_order;
+
+  IF v_previous_status = 'draft' THEN
+    INSERT INTO public.work_order_events (work_order_id, from_status, to_status, notes, actor)
+    VALUES (p_work_order_id, v_previous_status, 'bid_requested', cardinality(p_vendor_ids) || ' vendors invited', auth.uid());
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Record a vendor's quote, or that they declined when no amount is given. The first quote
+-- moves the order to bids_received.
+CREATE OR REPLACE FUNCTION public.record_work_order_bid(
+  p_work_order_id UUID,
+  p_vendor_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_scope_notes TEXT DEFAULT NULL,
+  p_valid_until DATE DEFAULT NULL,
+  p_file_id UUID DEFAULT NULL
+) RETURNS public.work_order_bids
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.work_orders;
+  v_bid public.work_order_bids;
+  v_status TEXT := CASE WHEN p_amount IS NULL THEN 'declined' ELSE 'received' END;
+BEGIN
+  SELECT * INTO v_order FROM public.work_orders WHERE id = p_work_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work order % not found', p_work_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('draft', 'bid_requested', 'bids_received') THEN
+    RAISE EXCEPTION 'Bids cannot be recorded for a % work order', v_order.status;
+  END IF;
+
+  INSERT INTO public.work_order_bids (
+    work_order_id, vendor_id, status, amount, scope_notes, valid_until, file_id, received_at, created_by
+  ) VALUES (
+    p_work_order_id, p_vendor_id, v_status, p_amount, p_scope_notes, p_valid_until, p_file_id, now(), auth.uid()
+  )
+  ON CONFLICT (work_order_id, vendor_id) DO UPDATE SET
+    status = EXCLUDED.status,
+    amount = EXCLUDED.amount,
+    scope_notes = EXCLUDED.scope_notes,
+    valid_until = EXCLUDED.valid_until,
+    file_id = COALESCE(EXCLUDED.file_id, work_order_bids.file_id),
+    received_at = EXCLUDED.received_at
+  RETURNING * INTO v_bid;
+
+  IF v_status = 'received' AND v_order.status <> 'bids_received' THEN
+    UPDATE public.work_orders SET status = 'bids_received' WHERE id = p_work_order_id;
+
+    INSERT INTO public.work_order_events (work_order_id, from_status, to_status, amount, actor)
+    VALUES (p_work_order_id, v_order.status, 'bids_received', p_amount, auth.uid());
+  END IF;
+
+  RETURN v_bid;
+END;
+$$;
+
+-- Accept a bid: the vendor gets the work at the bid amount and the other bids are
+-- rejected. Amounts above the client's threshold need a super admin.
+CREATE OR REPLACE FUNCTION public.approve_work_order_bid(
+  p_bid_id UUID,
+  p_notes TEXT DEFAULT NULL
+) RETURNS public.work_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_bid public.work_order_bids;
+  v_order public.work_orders;
+  v_threshold NUMERIC;
+BEGIN
+  SELECT * INTO v_bid FROM public.work_order_bids WHERE id = p_bid_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid % not found', p_bid_id;
+  END IF;
+
+  SELECT * INTO v_order FROM public.work_orders WHERE id = v_bid.work_order_id FOR UPDATE;
+
+  IF v_order.status <> 'bids_received' THEN
+    RAISE EXCEPTION 'Bids can only be approved on a work order with bids received, not %', v_order.status;
+  END IF;
+
+  IF v_bid.status <> 'received' THEN
+    RAISE EXCEPTION 'Only a received bid can be approved';
+  END IF;
+
+  SELECT client.work_order_approval_threshold INTO v_threshold
+  FROM public.roofs AS roof
+  JOIN public.clients AS client ON client.id = roof.client_id
+  WHERE roof.id = v_order.roof_id;
+
+  IF v_threshold IS NOT NULL
+     AND v_bid.amount > v_threshold
+     AND NOT has_role(auth.uid(), 'super_admin'::app_role) THEN
+    RAISE EXCEPTION 'Bids over % for this client need super admin approval', v_threshold;
+  END IF;
+
+  UPDATE public.work_order_bids SET status = 'accepted' WHERE id = p_bid_id;
+  UPDATE public.work_order_bids SET status = 'rejected'
+  WHERE work_order_id = v_order.id AND id <> p_bid_id AND status = 'received';
+
+  UPDATE public.work_orders SET
+    status = 'approved',
+    vendor_id = v_bid.vendor_id,
+    approved_bid_id = v_bid.id,
+    approved_amount = v_bid.amount,
+    approved_by = auth.uid(),
+    approved_at = now()
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.work_order_events (work_order_id, from_status, to_status, amount, notes, actor)
+  VALUES (v_order.id, 'bids_received', 'approved', v_bid.amount, p_notes, auth.uid());
+
+  RETURN v_order;
+END;
+$$;
+
+-- Record a vendor invoice with its lines: [{ "description", "category", "quantity", "unit_price" }].
+-- The order's actual cost becomes the total of all its invoices.
+CREATE OR REPLACE FUNCTION public.record_work_order_invoice(
+  p_work_order_id UUID,
+  p_invoice_number TEXT,
+  p_invoice_date DATE,
+  p_lines JSONB,
+  p_notes TEXT DEFAULT NULL,
+  p_file_id UUID DEFAULT NULL
+) RETURNS public.work_order_invoices
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.work_orders;
+  v_invoice public.work_order_invoices;
+  v_actual_cost NUMERIC;
+BEGIN
+  SELECT * INTO v_order FROM public.work_orders WHERE id = p_work_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work order % not found', p_work_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('completed', 'invoiced') THEN
+    RAISE EXCEPTION 'Invoices can only be recorded once the work is completed';
+  END IF;
+
+  IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  INSERT INTO public.work_order_invoices (
+    work_order_id, vendor_id, invoice_number, invoice_date, notes, file_id, created_by
+  ) VALUES (
+    p_work_order_id, v_order.vendor_id, p_invoice_number, p_invoice_date, p_notes, p_file_id, auth.uid()
+  )
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO public.work_order_invoice_lines (invoice_id, description, category, quantity, unit_price)
+  SELECT
+    v_invoice.id,
+    line->>'description',
+    COALESCE(line->>'category', 'labor'),
+    COALESCE((line->>'quantity')::NUMERIC, 1),
+    (line->>'unit_price')::NUMERIC
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  UPDATE public.work_order_invoices
+  SET total = (SELECT COALESCE(SUM(amount), 0) FROM public.work_order_invoice_lines WHERE invoice_id = v_invoice.id)
+  WHERE id = v_invoice.id
+  RETURNING * INTO v_invoice;
+
+  SELECT SUM(total) INTO v_actual_cost FROM public.work_order_invoices WHERE work_order_id = p_work_order_id;
+
+  UPDATE public.work_orders SET
+    status = 'invoiced',
+    actual_cost = v_actual_cost,
+    invoiced_at = COALESCE(invoiced_at, now())
+  WHERE id = p_work_order_id;
+
+  -- Maintenance tasks dispatched through this order carry its real cost
+  UPDATE public.maintenance_tasks SET actual_cost = v_actual_cost
+  WHERE work_order_id = p_work_order_id;
+
+  INSERT INTO public.work_order_events (work_order_id, from_status, to_status, amount, notes, actor)
+  VALUES (p_work_order_id, v_order.status, 'invoiced', v_invoice.total, 'Invoice ' || p_invoice_number, auth.uid());
+
+  RETURN v_invoice;
+END;
+$$;
+
+-- Dispatched maintenance tasks now start their work order as a draft
+CREATE OR REPLACE FUNCTION public.convert_maintenance_task_to_work_order(p_task_id UUID)
+RETURNS public.work_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.maintenance_tasks;
+  v_work_order public.work_orders;
+BEGIN
+  SELECT * INTO v_task FROM public.maintenance_tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maintenance task % not found', p_task_id;
+  END IF;
+
+  IF v_task.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'A % task cannot be dispatched', v_task.status;
+  END IF;
+
+  IF v_task.work_order_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Task already has a work order';
+  END IF;
+
+  INSERT INTO public.work_orders (
+    title, description, roof_id, vendor_id, estimated_cost, priority, status,
+    scheduled_start, created_by
+  ) VALUES (
+    v_task.title, v_task.description, v_task.roof_id, v_task.vendor_id, v_task.estimated_cost,
+    v_task.priority, 'draft', v_task.scheduled_date, auth.uid()
+  )
+  RETURNING * INTO v_work_order;
+
+  INSERT INTO public.work_order_events (work_order_id, to_status, notes, actor)
+  VALUES (v_work_order.id, 'draft', 'Dispatched from maintenance task', auth.uid());
+
+  UPDATE public.maintenance_tasks SET
+    work_order_id = v_work_order.id,
+    status = 'in_progress'
+  WHERE id = p_task_id;
+
+  RETURN v_work_order;
+END;
+$$;
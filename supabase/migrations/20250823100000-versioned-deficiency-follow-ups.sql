@@ -0,0 +1,82 @@
+-- Inspector follow-ups on tracked deficiencies are version-checked like roof edits.
+-- The observation trigger stops writing status, severity, description and cost for
+-- follow-ups; the inspector's changes to those come through the offline record edit queue.
+CREATE OR REPLACE FUNCTION public.track_deficiency_observation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_observed_date DATE;
+BEGIN
+  -- A replayed offline observation is dropped by ON CONFLICT (sync_key) after this trigger
+  -- has already run, so don't count it again or open a second tracked deficiency
+  IF NEW.sync_key IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.inspection_deficiencies WHERE sync_key = NEW.sync_key
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(completed_date, now()::DATE) INTO v_observed_date
+  FROM public.inspections
+  WHERE id = NEW.inspection_id;
+
+  IF NEW.deficiency_id IS NULL THEN
+    INSERT INTO public.deficiencies (
+      roof_id,
+      category,
+      location,
+      description,
+      severity,
+      status,
+      estimated_cost,
+      first_observed_inspection_id,
+      first_observed_date,
+      last_observed_inspection_id,
+      last_observed_date,
+      resolved_inspection_id,
+      resolved_date
+    ) VALUES (
+      NEW.roof_id,
+      NEW.category,
+      NEW.location,
+      NEW.description,
+      NEW.severity,
+      CASE WHEN NEW.status = 'resolved' THEN 'resolved' ELSE 'open' END,
+      NEW.budget_amount,
+      NEW.inspection_id,
+      v_observed_date,
+      NEW.inspection_id,
+      v_observed_date,
+      CASE WHEN NEW.status = 'resolved' THEN NEW.inspection_id END,
+      CASE WHEN NEW.status = 'resolved' THEN v_observed_date END
+    )
+    RETURNING id INTO NEW.deficiency_id;
+
+    NEW.observation_type := 'new';
+    RETURN NEW;
+  END IF;
+
+  -- Follow-ups on a tracked deficiency only record that it was observed. Changes to its
+  -- status and severity arrive as versioned record edits from the inspector, so an office
+  -- change made while the inspector was offline raises a sync conflict instead of being
+  -- overwritten here.
+  IF NEW.observation_type = 'resolved' THEN
+    UPDATE public.deficiencies
+    SET resolved_inspection_id = NEW.inspection_id
+    WHERE id = NEW.deficiency_id;
+
+    NEW.status := 'resolved';
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.deficiencies
+  SET
+    observation_count = observation_count + 1,
+    last_observed_inspection_id = NEW.inspection_id,
+    last_observed_date = v_observed_date
+  WHERE id = NEW.deficiency_id;
+
+  RETURN NEW;
+END;
+$$;
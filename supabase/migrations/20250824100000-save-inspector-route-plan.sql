@@ -0,0 +1,65 @@
+-- Save a multi-day route plan in one transaction: the inspector's existing routes on the
+-- planned dates are replaced by one row per day. Runs as the caller, so the
+-- "Managers can manage routes" policy still applies.
+CREATE OR REPLACE FUNCTION public.save_inspector_route_plan(
+  p_inspector_id UUID,
+  p_days JSONB,
+  p_campaign_id UUID DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_plan_id UUID := gen_random_uuid();
+  v_day JSONB;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_days, '[]'::JSONB)) = 0 THEN
+    RAISE EXCEPTION 'Route plan has no days';
+  END IF;
+
+  DELETE FROM public.inspector_routes
+  WHERE inspector_id = p_inspector_id
+    AND route_date IN (
+      SELECT (day->>'route_date')::DATE FROM jsonb_array_elements(p_days) AS day
+    );
+
+  FOR v_day IN SELECT * FROM jsonb_array_elements(p_days)
+  LOOP
+    INSERT INTO public.inspector_routes (
+      plan_id,
+      inspector_id,
+      campaign_id,
+      route_date,
+      day_number,
+      property_sequence,
+      stop_schedule,
+      start_location,
+      end_location,
+      overnight_stay,
+      estimated_travel_time,
+      total_distance,
+      optimization_score,
+      inspection_minutes,
+      shift_minutes
+    ) VALUES (
+      v_plan_id,
+      p_inspector_id,
+      p_campaign_id,
+      (v_day->>'route_date')::DATE,
+      (v_day->>'day_number')::INTEGER,
+      COALESCE(v_day->'property_sequence', '[]'::JSONB),
+      COALESCE(v_day->'stop_schedule', '[]'::JSONB),
+      v_day->'start_location',
+      v_day->'end_location',
+      COALESCE((v_day->>'overnight_stay')::BOOLEAN, false),
+      ROUND((v_day->>'estimated_travel_time')::NUMERIC)::INTEGER,
+      (v_day->>'total_distance')::NUMERIC,
+      (v_day->>'optimization_score')::NUMERIC,
+      ROUND((v_day->>'inspection_minutes')::NUMERIC)::INTEGER,
+      ROUND((v_day->>'shift_minutes')::NUMERIC)::INTEGER
+    );
+  END LOOP;
+
+  RETURN v_plan_id;
+END;
+$$;
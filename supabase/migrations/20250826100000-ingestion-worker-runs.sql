@@ -0,0 +1,5 @@
+-- Ingestion workers carry the run they were started for. Starting a job again begins a
+-- new run, and workers from the old one stop after their current batch, so a job never
+-- has more than its workers' worth of chains however often it's started.
+ALTER TABLE public.inspection_ingestion_jobs
+  ADD COLUMN worker_run_id UUID;
@@ -0,0 +1,168 @@
+-- merge_roofs predates the warranty registry and maintenance plans, so a merged roof's
+-- warranties, claims, plans and tasks stayed on the soft-deleted roof. They now move to
+-- the kept roof with everything else. Rows that would break the warranties
+-- (roof_id, source_column) and maintenance_tasks (plan_id, roof_id, scheduled_date)
+-- unique keys are collapsed into the kept roof's row first.
+CREATE OR REPLACE FUNCTION public.merge_roofs(
+  p_keep_id UUID,
+  p_merge_id UUID,
+  p_field_values JSONB DEFAULT '{}',
+  p_match_score NUMERIC DEFAULT NULL
+) RETURNS public.roof_merges
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_keep public.roofs;
+  v_merge public.roofs;
+  v_keep_json JSONB;
+  v_merge_json JSONB;
+  v_field TEXT;
+  v_value JSONB;
+  v_overwritten JSONB := '{}';
+  v_moved JSONB := '{}';
+  v_rows INTEGER;
+  v_table TEXT;
+  v_warranty RECORD;
+  v_task RECORD;
+  v_result public.roof_merges;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only managers can merge properties';
+  END IF;
+
+  IF p_keep_id = p_merge_id THEN
+    RAISE EXCEPTION 'A property cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_keep FROM public.roofs WHERE id = p_keep_id FOR UPDATE;
+  IF NOT FOUND OR COALESCE(v_keep.is_deleted, false) THEN
+    RAISE EXCEPTION 'Property % not found', p_keep_id;
+  END IF;
+
+  SELECT * INTO v_merge FROM public.roofs WHERE id = p_merge_id FOR UPDATE;
+  IF NOT FOUND OR COALESCE(v_merge.is_deleted, false) THEN
+    RAISE EXCEPTION 'Property % not found', p_merge_id;
+  END IF;
+
+  v_keep_json := to_jsonb(v_keep);
+  v_merge_json := to_jsonb(v_merge);
+
+  -- Fill the kept roof's blanks from the merged roof, then apply the chosen values
+  FOR v_field, v_value IN
+    SELECT key, value FROM jsonb_each(v_merge_json)
+    WHERE key NOT IN ('id', 'created_at', 'updated_at', 'is_deleted', 'version')
+      AND value <> 'null'::jsonb
+      AND (v_keep_json -> key IS NULL OR v_keep_json -> key = 'null'::jsonb OR v_keep_json ->> key = '')
+      AND NOT p_field_values ? key
+  LOOP
+    p_field_values := p_field_values || jsonb_build_object(v_field, v_value);
+  END LOOP;
+
+  FOR v_field, v_value IN SELECT key, value FROM jsonb_each(p_field_values) LOOP
+    IF v_field IN ('id', 'created_at', 'updated_at', 'is_deleted', 'version') OR NOT v_keep_json ? v_field THEN
+      RAISE EXCEPTION 'Field % cannot be merged', v_field;
+    END IF;
+
+    IF v_keep_json -> v_field IS DISTINCT FROM v_value THEN
+      v_overwritten := v_overwritten || jsonb_build_object(v_field, v_keep_json -> v_field);
+      EXECUTE format(
+        'UPDATE public.roofs SET %1$I = (jsonb_populate_record(NULL::public.roofs, $1)).%1$I WHERE id = $2',
+        v_field
+      ) USING jsonb_build_object(v_field, v_value), p_keep_id;
+    END IF;
+  END LOOP;
+
+  -- Rows that would collide with one the kept roof already has are dropped first
+  DELETE FROM public.campaign_properties cp
+  WHERE cp.roof_id = p_merge_id
+    AND EXISTS (SELECT 1 FROM public.campaign_properties k WHERE k.roof_id = p_keep_id AND k.campaign_id = cp.campaign_id);
+
+  DELETE FROM public.property_contact_assignments pca
+  WHERE pca.roof_id = p_merge_id
+    AND EXISTS (
+      SELECT 1 FROM public.property_contact_assignments k
+      WHERE k.roof_id = p_keep_id AND k.contact_id = pca.contact_id AND k.assignment_type = pca.assignment_type
+    );
+
+  -- A registry warranty copied from the same roofs column group as one the kept roof
+  -- already has is the same warranty: its claims and transfers move to the kept roof's
+  -- copy and it is dropped
+  FOR v_warranty IN
+    SELECT merged.id AS merged_id, kept.id AS kept_id
+    FROM public.warranties merged
+    JOIN public.warranties kept
+      ON kept.roof_id = p_keep_id AND kept.source_column = merged.source_column
+    WHERE merged.roof_id = p_merge_id
+  LOOP
+    UPDATE public.warranty_claims SET warranty_id = v_warranty.kept_id WHERE warranty_id = v_warranty.merged_id;
+    UPDATE public.warranty_transfers SET warranty_id = v_warranty.kept_id WHERE warranty_id = v_warranty.merged_id;
+    UPDATE public.warranties SET supersedes_warranty_id = v_warranty.kept_id
+    WHERE supersedes_warranty_id = v_warranty.merged_id AND id <> v_warranty.kept_id;
+    DELETE FROM public.warranties WHERE id = v_warranty.merged_id;
+  END LOOP;
+
+  -- Both roofs in a roof group plan get the same occurrences. The one nobody has started
+  -- is dropped; when both have been worked on the merge has to wait.
+  FOR v_task IN
+    SELECT merged.id AS merged_id, kept.id AS kept_id,
+      merged.status = 'scheduled' AND merged.work_order_id IS NULL AS merged_untouched,
+      kept.status = 'scheduled' AND kept.work_order_id IS NULL AS kept_untouched,
+      merged.scheduled_date
+    FROM public.maintenance_tasks merged
+    JOIN public.maintenance_tasks kept
+      ON kept.roof_id = p_keep_id AND kept.plan_id = merged.plan_id AND kept.scheduled_date = merged.scheduled_date
+    WHERE merged.roof_id = p_merge_id
+  LOOP
+    IF v_task.merged_untouched THEN
+      DELETE FROM public.maintenance_tasks WHERE id = v_task.merged_id;
+    ELSIF v_task.kept_untouched THEN
+      DELETE FROM public.maintenance_tasks WHERE id = v_task.kept_id;
+    ELSE
+      RAISE EXCEPTION 'Both properties have maintenance under way for %; finish or cancel one before merging',
+        v_task.scheduled_date;
+    END IF;
+  END LOOP;
+
+  FOREACH v_table IN ARRAY ARRAY[
+    'inspections', 'roof_files', 'work_orders', 'campaign_properties', 'deficiencies',
+    'inspection_deficiencies', 'inspection_capital_expenses', 'inspection_voice_notes',
+    'property_contact_assignments', 'import_batch_changes', 'warranties', 'warranty_claims',
+    'maintenance_plans', 'maintenance_tasks'
+  ] LOOP
+    EXECUTE format('UPDATE public.%I SET roof_id = $1 WHERE roof_id = $2', v_table) USING p_keep_id, p_merge_id;
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    IF v_rows > 0 THEN
+      v_moved := v_moved || jsonb_build_object(v_table, v_rows);
+    END IF;
+  END LOOP;
+
+  -- Keep the most recent inspection date across both
+  UPDATE public.roofs SET
+    last_inspection_date = GREATEST(v_keep.last_inspection_date, v_merge.last_inspection_date),
+    updated_at = now()
+  WHERE id = p_keep_id;
+
+  UPDATE public.roofs SET is_deleted = true, updated_at = now() WHERE id = p_merge_id;
+
+  INSERT INTO public.roof_merges (
+    kept_roof_id,
+    merged_roof_id,
+    merged_snapshot,
+    overwritten_values,
+    moved_counts,
+    match_score,
+    merged_by
+  ) VALUES (
+    p_keep_id,
+    p_merge_id,
+    v_merge_json,
+    v_overwritten,
+    v_moved,
+    p_match_score,
+    auth.uid()
+  ) RETURNING * INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
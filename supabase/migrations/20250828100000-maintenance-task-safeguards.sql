@@ -0,0 +1,71 @@
+-- generate_maintenance_tasks runs as definer, so a caller could pass a far-off p_through
+-- and fill the schedule with years of occurrences. Each plan now stops at its own
+-- horizon, and signed-out callers can't run it at all.
+CREATE OR REPLACE FUNCTION public.generate_maintenance_tasks(p_through DATE DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.maintenance_plans;
+  v_created INTEGER := 0;
+  v_inserted INTEGER;
+BEGIN
+  FOR v_plan IN SELECT * FROM public.maintenance_plans WHERE is_active LOOP
+    INSERT INTO public.maintenance_tasks (
+      plan_id, roof_id, title, description, maintenance_type, scheduled_date, priority,
+      vendor_id, estimated_cost
+    )
+    SELECT
+      v_plan.id, roof.id, v_plan.title, v_plan.description, v_plan.maintenance_type, occurrence,
+      v_plan.priority, v_plan.vendor_id, v_plan.estimated_cost
+    FROM public.roofs AS roof
+    CROSS JOIN public.maintenance_plan_dates(
+      v_plan,
+      CURRENT_DATE,
+      LEAST(COALESCE(p_through, CURRENT_DATE + v_plan.horizon_days), CURRENT_DATE + v_plan.horizon_days)
+    ) AS occurrence
+    WHERE NOT COALESCE(roof.is_deleted, false)
+      AND (roof.id = v_plan.roof_id OR roof.roof_group = v_plan.roof_group)
+    ON CONFLICT (plan_id, roof_id, scheduled_date) DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+    v_created := v_created + v_inserted;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_maintenance_tasks(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_maintenance_tasks(DATE) TO authenticated;
+
+-- Cancelling a work order puts the tasks dispatched through it back on the schedule, so
+-- they can be dispatched again or completed directly
+CREATE OR REPLACE FUNCTION public.complete_work_order_maintenance_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    UPDATE public.maintenance_tasks SET
+      status = 'completed',
+      completed_date = COALESCE(NEW.completed_date::DATE, CURRENT_DATE),
+      actual_cost = COALESCE(NEW.actual_cost, actual_cost),
+      completed_by = auth.uid()
+    WHERE work_order_id = NEW.id
+      AND status <> 'completed';
+  ELSIF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE public.maintenance_tasks SET
+      work_order_id = NULL,
+      status = 'scheduled'
+    WHERE work_order_id = NEW.id
+      AND status <> 'completed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
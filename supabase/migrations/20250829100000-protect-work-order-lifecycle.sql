@@ -0,0 +1,334 @@
+-- The lifecycle columns of work_orders were only checked inside the work order
+-- functions, while the table policy still let any signed-in user update them directly,
+-- skipping the transition checks and the approval threshold. A trigger now rejects
+-- direct changes to them; the functions mark their transaction so their own updates
+-- pass. Inserts must start as a draft with nothing approved or billed.
+
+CREATE OR REPLACE FUNCTION public.protect_work_order_lifecycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.work_order_rpc', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft'
+       OR NEW.approved_amount IS NOT NULL OR NEW.approved_by IS NOT NULL OR NEW.approved_at IS NOT NULL
+       OR NEW.approved_bid_id IS NOT NULL OR NEW.actual_cost IS NOT NULL
+       OR NEW.invoiced_at IS NOT NULL OR NEW.paid_at IS NOT NULL THEN
+      RAISE EXCEPTION 'New work orders start as drafts; approval and invoicing go through the work order actions';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.approved_amount IS DISTINCT FROM OLD.approved_amount
+     OR NEW.approved_by IS DISTINCT FROM OLD.approved_by
+     OR NEW.approved_at IS DISTINCT FROM OLD.approved_at
+     OR NEW.approved_bid_id IS DISTINCT FROM OLD.approved_bid_id
+     OR NEW.actual_cost IS DISTINCT FROM OLD.actual_cost
+     OR NEW.invoiced_at IS DISTINCT FROM OLD.invoiced_at
+     OR NEW.paid_at IS DISTINCT FROM OLD.paid_at THEN
+    RAISE EXCEPTION 'Work order status, approval and invoicing can only be changed through the work order actions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_work_order_lifecycle
+  BEFORE INSERT OR UPDATE ON public.work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_work_order_lifecycle();
+
+CREATE OR REPLACE FUNCTION public.advance_work_order(
+  p_work_order_id UUID,
+  p_status TEXT,
+  p_notes TEXT DEFAULT NULL
+) RETURNS public.work_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.work_orders;
+  v_previous_status TEXT;
+BEGIN
+  PERFORM set_config('app.work_order_rpc', 'on', true);
+
+  SELECT * INTO v_order FROM public.work_orders WHERE id = p_work_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work order % not found', p_work_order_id;
+  END IF;
+
+  IF NOT (
+    (v_order.status = 'approved' AND p_status = 'scheduled') OR
+    (v_order.status = 'scheduled' AND p_status = 'in_progress') OR
+    (v_order.status = 'in_progress' AND p_status = 'completed') OR
+    (v_order.status = 'invoiced' AND p_status = 'paid') OR
+    (v_order.status NOT IN ('invoiced', 'paid', 'cancelled') AND p_status = 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'A % work order cannot be moved to %', v_order.status, p_status;
+  END IF;
+
+  IF p_status = 'scheduled' AND v_order.scheduled_start IS NULL THEN
+    RAISE EXCEPTION 'Set a scheduled start before scheduling the work order';
+  END IF;
+
+  v_previous_status := v_order.status;
+
+  UPDATE public.work_orders SET
+    status = p_status,
+    completed_date = CASE WHEN p_status = 'completed' THEN CURRENT_DATE ELSE completed_date END,
+    paid_at = CASE WHEN p_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = p_work_order_id
+  RETURNING * INTO v_order;
+
+  IF p_status = 'paid' THEN
+    UPDATE public.work_order_invoices SET paid_at = now()
+    WHERE work_order_id = p_work_order_id AND paid_at IS NULL;
+  END IF;
+
+  INSERT INTO public.work_order_events (work_order_id, from_status, to_status, notes, actor)
+  VALUES (p_work_order_id, v_previous_status, p_status, p_notes, auth.uid());
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_work_order_bids(
+  p_work_order_id UUID,
+  p_vendor_ids UUID[],
+  p_bid_due_date DATE DEFAULT NULL
+) RETURNS public.work_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.work_orders;
+  v_previous_status TEXT;
+BEGIN
+  PERFORM set_config('app.work_order_rpc', 'on', true);
+
+  SELECT * INTO v_order FROM public.work_orders WHERE id = p_work_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work order % not found', p_work_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('draft', 'bid_requested', 'bids_received') THEN
+    RAISE EXCEPTION 'Bids cannot be requested for a % work order', v_order.status;
+  END IF;
+
+  IF cardinality(p_vendor_ids) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one vendor to request bids from';
+  END IF;
+
+  INSERT INTO public.work_order_bids (work_order_id, vendor_id, created_by)
+  SELECT p_work_order_id, vendor_id, auth.uid()
+  FROM unnest(p_vendor_ids) AS vendor_id
+  ON CONFLICT (work_order_id, vendor_id) DO NOTHING;
+
+  v_previous_status := v_order.status;
+
+  UPDATE public.work_orders SET
+    status = CASE WHEN status = 'draft' THEN 'bid_requested' ELSE status END,
+    bid_due_date = COALESCE(p_bid_due_date, bid_due_date)
+  WHERE id = p_work_order_id
+  RETURNING * INTO v_order;
+
+  IF v_previous_status = 'draft' THEN
+    INSERT INTO public.work_order_events (work_order_id, from_status, to_status, notes, actor)
+    VALUES (p_work_order_id, v_previous_status, 'bid_requested', cardinality(p_vendor_ids) || ' vendors invited', auth.uid());
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_work_order_bid(
+  p_work_order_id UUID,
+  p_vendor_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_scope_notes TEXT DEFAULT NULL,
+  p_valid_until DATE DEFAULT NULL,
+  p_file_id UUID DEFAULT NULL
+) RETURNS public.work_order_bids
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.work_orders;
+  v_bid public.work_order_bids;
+  v_status TEXT := CASE WHEN p_amount IS NULL THEN 'declined' ELSE 'received' END;
+BEGIN
+  PERFORM set_config('app.work_order_rpc', 'on', true);
+
+  SELECT * INTO v_order FROM public.work_orders WHERE id = p_work_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work order % not found', p_work_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('draft', 'bid_requested', 'bids_received') THEN
+    RAISE EXCEPTION 'Bids cannot be recorded for a % work order', v_order.status;
+  END IF;
+
+  INSERT INTO public.work_order_bids (
+    work_order_id, vendor_id, status, amount, scope_notes, valid_until, file_id, received_at, created_by
+  ) VALUES (
+    p_work_order_id, p_vendor_id, v_status, p_amount, p_scope_notes, p_valid_until, p_file_id, now(), auth.uid()
+  )
+  ON CONFLICT (work_order_id, vendor_id) DO UPDATE SET
+    status = EXCLUDED.status,
+    amount = EXCLUDED.amount,
+    scope_notes = EXCLUDED.scope_notes,
+    valid_until = EXCLUDED.valid_until,
+    file_id = COALESCE(EXCLUDED.file_id, work_order_bids.file_id),
+    received_at = EXCLUDED.received_at
+  RETURNING * INTO v_bid;
+
+  IF v_status = 'received' AND v_order.status <> 'bids_received' THEN
+    UPDATE public.work_orders SET status = 'bids_received' WHERE id = p_work_order_id;
+
+    INSERT INTO public.work_order_events (work_order_id, from_status, to_status, amount, actor)
+    VALUES (p_work_order_id, v_order.status, 'bids_received', p_amount, auth.uid());
+  END IF;
+
+  RETURN v_bid;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_work_order_bid(
+  p_bid_id UUID,
+  p_notes TEXT DEFAULT NULL
+) RETURNS public.work_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_bid public.work_order_bids;
+  v_order public.work_orders;
+  v_threshold NUMERIC;
+BEGIN
+  PERFORM set_config('app.work_order_rpc', 'on', true);
+
+  SELECT * INTO v_bid FROM public.work_order_bids WHERE id = p_bid_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid % not found', p_bid_id;
+  END IF;
+
+  SELECT * INTO v_order FROM public.work_orders WHERE id = v_bid.work_order_id FOR UPDATE;
+
+  IF v_order.status <> 'bids_received' THEN
+    RAISE EXCEPTION 'Bids can only be approved on a work order with bids received, not %', v_order.status;
+  END IF;
+
+  IF v_bid.status <> 'received' THEN
+    RAISE EXCEPTION 'Only a received bid can be approved';
+  END IF;
+
+  SELECT client.work_order_approval_threshold INTO v_threshold
+  FROM public.roofs AS roof
+  JOIN public.clients AS client ON client.id = roof.client_id
+  WHERE roof.id = v_order.roof_id;
+
+  IF v_threshold IS NOT NULL
+     AND v_bid.amount > v_threshold
+     AND NOT has_role(auth.uid(), 'super_admin'::app_role) THEN
+    RAISE EXCEPTION 'Bids over % for this client need super admin approval', v_threshold;
+  END IF;
+
+  UPDATE public.work_order_bids SET status = 'accepted' WHERE id = p_bid_id;
+  UPDATE public.work_order_bids SET status = 'rejected'
+  WHERE work_order_id = v_order.id AND id <> p_bid_id AND status = 'received';
+
+  UPDATE public.work_orders SET
+    status = 'approved',
+    vendor_id = v_bid.vendor_id,
+    approved_bid_id = v_bid.id,
+    approved_amount = v_bid.amount,
+    approved_by = auth.uid(),
+    approved_at = now()
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.work_order_events (work_order_id, from_status, to_status, amount, notes, actor)
+  VALUES (v_order.id, 'bids_received', 'approved', v_bid.amount, p_notes, auth.uid());
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_work_order_invoice(
+  p_work_order_id UUID,
+  p_invoice_number TEXT,
+  p_invoice_date DATE,
+  p_lines JSONB,
+  p_notes TEXT DEFAULT NULL,
+  p_file_id UUID DEFAULT NULL
+) RETURNS public.work_order_invoices
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.work_orders;
+  v_invoice public.work_order_invoices;
+  v_actual_cost NUMERIC;
+BEGIN
+  PERFORM set_config('app.work_order_rpc', 'on', true);
+
+  SELECT * INTO v_order FROM public.work_orders WHERE id = p_work_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work order % not found', p_work_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('completed', 'invoiced') THEN
+    RAISE EXCEPTION 'Invoices can only be recorded once the work is completed';
+  END IF;
+
+  IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  INSERT INTO public.work_order_invoices (
+    work_order_id, vendor_id, invoice_number, invoice_date, notes, file_id, created_by
+  ) VALUES (
+    p_work_order_id, v_order.vendor_id, p_invoice_number, p_invoice_date, p_notes, p_file_id, auth.uid()
+  )
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO public.work_order_invoice_lines (invoice_id, description, category, quantity, unit_price)
+  SELECT
+    v_invoice.id,
+    line->>'description',
+    COALESCE(line->>'category', 'labor'),
+    COALESCE((line->>'quantity')::NUMERIC, 1),
+    (line->>'unit_price')::NUMERIC
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  UPDATE public.work_order_invoices
+  SET total = (SELECT COALESCE(SUM(amount), 0) FROM public.work_order_invoice_lines WHERE invoice_id = v_invoice.id)
+  WHERE id = v_invoice.id
+  RETURNING * INTO v_invoice;
+
+  SELECT SUM(total) INTO v_actual_cost FROM public.work_order_invoices WHERE work_order_id = p_work_order_id;
+
+  UPDATE public.work_orders SET
+    status = 'invoiced',
+    actual_cost = v_actual_cost,
+    invoiced_at = COALESCE(invoiced_at, now())
+  WHERE id = p_work_order_id;
+
+  -- Maintenance tasks dispatched through this order carry its real cost
+  UPDATE public.maintenance_tasks SET actual_cost = v_actual_cost
+  WHERE work_order_id = p_work_order_id;
+
+  INSERT INTO public.work_order_events (work_order_id, from_status, to_status, amount, notes, actor)
+  VALUES (p_work_order_id, v_order.status, 'invoiced', v_invoice.total, 'Invoice ' || p_invoice_number, auth.uid());
+
+  RETURN v_invoice;
+END;
+$$;
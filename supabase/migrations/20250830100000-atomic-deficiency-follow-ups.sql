@@ -0,0 +1,255 @@
+-- Follow-ups on tracked deficiencies are applied whole by the observation trigger again:
+-- status, severity, resolved date and inspection change together, so a deficiency can't
+-- end up resolved without a date or closed by one inspection and reopened by another
+-- half-way. The version check moves into the trigger: each follow-up carries the
+-- deficiency version the inspector loaded, and one made against an older version is
+-- recorded as an observation without changing the deficiency.
+
+ALTER TABLE public.inspection_deficiencies
+  ADD COLUMN based_on_version INTEGER,
+  -- False when the follow-up was made against an outdated copy and wasn't applied
+  ADD COLUMN follow_up_applied BOOLEAN NOT NULL DEFAULT true;
+
+CREATE OR REPLACE FUNCTION public.complete_field_inspection(
+  p_roof_id UUID,
+  p_inspection JSONB
+) RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_inspection_id UUID;
+  v_inspector_id UUID;
+  v_completed_date DATE;
+  v_sync_key TEXT;
+  v_deficiency JSONB;
+  v_expense JSONB;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.roofs WHERE id = p_roof_id) THEN
+    RAISE EXCEPTION 'Roof % not found', p_roof_id;
+  END IF;
+
+  v_sync_key := NULLIF(p_inspection->>'sync_key', '');
+
+  IF v_sync_key IS NOT NULL THEN
+    SELECT id INTO v_inspection_id FROM public.inspections WHERE sync_key = v_sync_key;
+    IF v_inspection_id IS NOT NULL THEN
+      RETURN v_inspection_id;
+    END IF;
+  END IF;
+
+  SELECT id INTO v_inspector_id
+  FROM public.users
+  WHERE auth_user_id = auth.uid()
+  LIMIT 1;
+
+  v_completed_date := COALESCE((p_inspection->>'ended_at')::TIMESTAMP WITH TIME ZONE, now())::DATE;
+
+  INSERT INTO public.inspections (
+    roof_id,
+    inspector_id,
+    completed_date,
+    status,
+    inspection_type,
+    notes,
+    started_at,
+    ended_at,
+    roof_square_footage_confirmed,
+    overview_photo_file_ids,
+    summary,
+    sync_key
+  ) VALUES (
+    p_roof_id,
+    v_inspector_id,
+    v_completed_date,
+    'completed',
+    COALESCE(p_inspection->>'inspection_type', 'annual'),
+    NULLIF(p_inspection->>'notes', ''),
+    (p_inspection->>'started_at')::TIMESTAMP WITH TIME ZONE,
+    (p_inspection->>'ended_at')::TIMESTAMP WITH TIME ZONE,
+    (p_inspection->>'roof_square_footage_confirmed')::BOOLEAN,
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_inspection->'overview_photo_file_ids'))::UUID[], '{}'),
+    COALESCE(p_inspection->'summary', '{}'::JSONB),
+    v_sync_key
+  )
+  RETURNING id INTO v_inspection_id;
+
+  FOR v_deficiency IN SELECT * FROM jsonb_array_elements(COALESCE(p_inspection->'deficiencies', '[]'::JSONB))
+  LOOP
+    IF (v_deficiency->>'deficiency_id') IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.deficiencies
+      WHERE id = (v_deficiency->>'deficiency_id')::UUID AND roof_id = p_roof_id
+    ) THEN
+      RAISE EXCEPTION 'Deficiency % does not belong to roof %', v_deficiency->>'deficiency_id', p_roof_id;
+    END IF;
+
+    INSERT INTO public.inspection_deficiencies (
+      inspection_id,
+      roof_id,
+      deficiency_id,
+      observation_type,
+      category,
+      location,
+      description,
+      severity,
+      status,
+      budget_amount,
+      photo_file_ids,
+      based_on_version
+    ) VALUES (
+      v_inspection_id,
+      p_roof_id,
+      (v_deficiency->>'deficiency_id')::UUID,
+      COALESCE(v_deficiency->>'observation_type', 'new'),
+      v_deficiency->>'category',
+      v_deficiency->>'location',
+      v_deficiency->>'description',
+      COALESCE(v_deficiency->>'severity', 'medium'),
+      COALESCE(v_deficiency->>'status', 'identified'),
+      COALESCE((v_deficiency->>'budget_amount')::NUMERIC, 0),
+      COALESCE(ARRAY(SELECT jsonb_array_elements_text(v_deficiency->'photo_file_ids'))::UUID[], '{}'),
+      (v_deficiency->>'based_on_version')::INTEGER
+    );
+  END LOOP;
+
+  FOR v_expense IN SELECT * FROM jsonb_array_elements(COALESCE(p_inspection->'capital_expenses', '[]'::JSONB))
+  LOOP
+    INSERT INTO public.inspection_capital_expenses (
+      inspection_id,
+      roof_id,
+      description,
+      expense_year,
+      estimated_cost,
+      scope_of_work,
+      completed
+    ) VALUES (
+      v_inspection_id,
+      p_roof_id,
+      v_expense->>'description',
+      (v_expense->>'expense_year')::INTEGER,
+      COALESCE((v_expense->>'estimated_cost')::NUMERIC, 0),
+      v_expense->>'scope_of_work',
+      COALESCE((v_expense->>'completed')::BOOLEAN, false)
+    );
+  END LOOP;
+
+  -- Annual inspection cadence
+  UPDATE public.roofs
+  SET
+    last_inspection_date = v_completed_date,
+    next_inspection_due = v_completed_date + INTERVAL '1 year',
+    updated_at = now()
+  WHERE id = p_roof_id;
+
+  RETURN v_inspection_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.track_deficiency_observation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_observed_date DATE;
+BEGIN
+  -- A replayed offline observation is dropped by ON CONFLICT (sync_key) after this trigger
+  -- has already run, so don't count it again or open a second tracked deficiency
+  IF NEW.sync_key IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.inspection_deficiencies WHERE sync_key = NEW.sync_key
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(completed_date, now()::DATE) INTO v_observed_date
+  FROM public.inspections
+  WHERE id = NEW.inspection_id;
+
+  IF NEW.deficiency_id IS NULL THEN
+    INSERT INTO public.deficiencies (
+      roof_id,
+      category,
+      location,
+      description,
+      severity,
+      status,
+      estimated_cost,
+      first_observed_inspection_id,
+      first_observed_date,
+      last_observed_inspection_id,
+      last_observed_date,
+      resolved_inspection_id,
+      resolved_date
+    ) VALUES (
+      NEW.roof_id,
+      NEW.category,
+      NEW.location,
+      NEW.description,
+      NEW.severity,
+      CASE WHEN NEW.status = 'resolved' THEN 'resolved' ELSE 'open' END,
+      NEW.budget_amount,
+      NEW.inspection_id,
+      v_observed_date,
+      NEW.inspection_id,
+      v_observed_date,
+      CASE WHEN NEW.status = 'resolved' THEN NEW.inspection_id END,
+      CASE WHEN NEW.status = 'resolved' THEN v_observed_date END
+    )
+    RETURNING id INTO NEW.deficiency_id;
+
+    NEW.observation_type := 'new';
+    RETURN NEW;
+  END IF;
+
+  -- The deficiency changed after the inspector loaded it (an office edit, or another
+  -- inspection synced first). The observation still counts, but its follow-up isn't
+  -- applied over a state the inspector never saw.
+  IF NEW.based_on_version IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.deficiencies WHERE id = NEW.deficiency_id AND version <> NEW.based_on_version
+  ) THEN
+    UPDATE public.deficiencies
+    SET
+      observation_count = observation_count + 1,
+      last_observed_inspection_id = NEW.inspection_id,
+      last_observed_date = v_observed_date
+    WHERE id = NEW.deficiency_id;
+
+    NEW.follow_up_applied := false;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.observation_type = 'resolved' THEN
+    UPDATE public.deficiencies
+    SET
+      status = 'resolved',
+      resolved_inspection_id = NEW.inspection_id,
+      resolved_date = v_observed_date
+    WHERE id = NEW.deficiency_id;
+
+    NEW.status := 'resolved';
+    RETURN NEW;
+  END IF;
+
+  -- Re-observed or escalated: the issue is still present, so reopen it if it was closed
+  UPDATE public.deficiencies
+  SET
+    observation_count = observation_count + 1,
+    last_observed_inspection_id = NEW.inspection_id,
+    last_observed_date = v_observed_date,
+    description = COALESCE(NULLIF(NEW.description, ''), description),
+    estimated_cost = CASE WHEN NEW.budget_amount > 0 THEN NEW.budget_amount ELSE estimated_cost END,
+    severity = CASE
+      WHEN public.deficiency_severity_rank(NEW.severity) > public.deficiency_severity_rank(severity) THEN NEW.severity
+      ELSE severity
+    END,
+    status = CASE
+      WHEN NEW.observation_type = 'escalated' OR status = 'escalated' THEN 'escalated'
+      ELSE 'open'
+    END,
+    resolved_inspection_id = NULL,
+    resolved_date = NULL
+  WHERE id = NEW.deficiency_id;
+
+  RETURN NEW;
+END;
+$$;
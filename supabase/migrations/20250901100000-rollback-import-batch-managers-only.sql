@@ -0,0 +1,145 @@
+-- rollback_import_batch deletes roofs, clients and contacts and rewrites roof fields,
+-- but any signed-in user could call it. Only managers can now roll back an import.
+
+CREATE OR REPLACE FUNCTION public.rollback_import_batch(p_batch_id UUID)
+RETURNS public.import_batches
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches;
+  v_change public.import_batch_changes;
+  v_rows INTEGER;
+  v_fields_restored INTEGER := 0;
+  v_roofs_deleted INTEGER := 0;
+  v_roofs_kept INTEGER := 0;
+  v_records_deleted INTEGER := 0;
+  v_conflicts JSONB := '[]';
+BEGIN
+  IF NOT (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only managers can roll back imports';
+  END IF;
+
+  SELECT * INTO v_batch FROM public.import_batches WHERE id = p_batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+
+  IF v_batch.status NOT IN ('completed', 'failed') THEN
+    RAISE EXCEPTION 'Import batch % is %, only finished imports can be rolled back', p_batch_id, v_batch.status;
+  END IF;
+
+  -- Field updates first, newest first so repeated writes unwind in order
+  FOR v_change IN
+    SELECT * FROM public.import_batch_changes
+    WHERE batch_id = p_batch_id AND entity_type = 'roof' AND change_type = 'update' AND NOT rolled_back
+    ORDER BY created_at DESC
+  LOOP
+    EXECUTE format(
+      'UPDATE public.roofs r SET %1$I = (jsonb_populate_record(NULL::public.roofs, $1)).%1$I, updated_at = now()
+       WHERE r.id = $2 AND COALESCE(to_jsonb(r.%1$I), ''null''::jsonb) = COALESCE($3, ''null''::jsonb)',
+      v_change.field_name
+    ) USING jsonb_build_object(v_change.field_name, v_change.old_value), v_change.entity_id, v_change.new_value;
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+    IF v_rows > 0 THEN
+      v_fields_restored := v_fields_restored + 1;
+      UPDATE public.import_batch_changes SET rolled_back = true WHERE id = v_change.id;
+    ELSE
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'roof_id', v_change.entity_id,
+        'field', v_change.field_name,
+        'reason', 'changed since import'
+      );
+    END IF;
+  END LOOP;
+
+  -- PM assignments and site contacts the import created
+  FOR v_change IN
+    SELECT DISTINCT ON (entity_id) * FROM public.import_batch_changes
+    WHERE batch_id = p_batch_id AND entity_type IN ('property_contact_assignment', 'client_contact')
+      AND change_type = 'insert' AND NOT rolled_back
+  LOOP
+    IF v_change.entity_type = 'property_contact_assignment' THEN
+      DELETE FROM public.property_contact_assignments WHERE id = v_change.entity_id;
+    ELSE
+      BEGIN
+        DELETE FROM public.client_contacts WHERE id = v_change.entity_id;
+      EXCEPTION WHEN foreign_key_violation THEN
+        v_conflicts := v_conflicts || jsonb_build_object('client_contact_id', v_change.entity_id, 'reason', 'contact in use');
+        CONTINUE;
+      END;
+    END IF;
+
+    v_records_deleted := v_records_deleted + 1;
+    UPDATE public.import_batch_changes SET rolled_back = true
+    WHERE batch_id = p_batch_id AND entity_id = v_change.entity_id;
+  END LOOP;
+
+  -- Roofs the import created
+  FOR v_change IN
+    SELECT DISTINCT ON (entity_id) * FROM public.import_batch_changes
+    WHERE batch_id = p_batch_id AND entity_type = 'roof' AND change_type = 'insert' AND NOT rolled_back
+  LOOP
+    IF EXISTS (SELECT 1 FROM public.inspections WHERE roof_id = v_change.entity_id)
+      OR EXISTS (SELECT 1 FROM public.work_orders WHERE roof_id = v_change.entity_id)
+      OR EXISTS (SELECT 1 FROM public.roof_files WHERE roof_id = v_change.entity_id)
+      OR EXISTS (SELECT 1 FROM public.campaign_properties WHERE roof_id = v_change.entity_id)
+      -- Warranties mirrored from the roof's own columns came in with the import
+      OR EXISTS (SELECT 1 FROM public.warranties WHERE roof_id = v_change.entity_id AND source_column IS NULL)
+      OR EXISTS (SELECT 1 FROM public.warranty_claims WHERE roof_id = v_change.entity_id)
+      OR EXISTS (SELECT 1 FROM public.maintenance_plans WHERE roof_id = v_change.entity_id)
+      OR EXISTS (SELECT 1 FROM public.maintenance_tasks WHERE roof_id = v_change.entity_id) THEN
+      v_roofs_kept := v_roofs_kept + 1;
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'roof_id', v_change.entity_id,
+        'reason', 'property has inspections, work orders, files, campaigns, warranties or maintenance'
+      );
+      CONTINUE;
+    END IF;
+
+    -- Provenance rows for the roof go with it (roof_id cascades)
+    DELETE FROM public.roofs WHERE id = v_change.entity_id;
+    v_roofs_deleted := v_roofs_deleted + 1;
+  END LOOP;
+
+  -- Clients the import created, once no roof points at them
+  FOR v_change IN
+    SELECT * FROM public.import_batch_changes
+    WHERE batch_id = p_batch_id AND entity_type = 'client' AND change_type = 'insert' AND NOT rolled_back
+  LOOP
+    IF EXISTS (SELECT 1 FROM public.roofs WHERE client_id = v_change.entity_id) THEN
+      v_conflicts := v_conflicts || jsonb_build_object('client_id', v_change.entity_id, 'reason', 'client still has properties');
+      CONTINUE;
+    END IF;
+
+    BEGIN
+      DELETE FROM public.clients WHERE id = v_change.entity_id;
+    EXCEPTION WHEN foreign_key_violation THEN
+      v_conflicts := v_conflicts || jsonb_build_object('client_id', v_change.entity_id, 'reason', 'client in use');
+      CONTINUE;
+    END;
+
+    v_records_deleted := v_records_deleted + 1;
+    UPDATE public.import_batch_changes SET rolled_back = true WHERE id = v_change.id;
+  END LOOP;
+
+  UPDATE public.import_batches SET
+    status = 'rolled_back',
+    rolled_back_at = now(),
+    rolled_back_by = auth.uid(),
+    rollback_summary = jsonb_build_object(
+      'fields_restored', v_fields_restored,
+      'roofs_deleted', v_roofs_deleted,
+      'roofs_kept', v_roofs_kept,
+      'records_deleted', v_records_deleted,
+      'conflicts', v_conflicts
+    )
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$;
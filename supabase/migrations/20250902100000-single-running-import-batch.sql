@@ -0,0 +1,12 @@
+-- Two commits of the same reviewed import could run side by side, and each would insert
+-- the plan's new roofs before the other could see them. Only one import batch may now
+-- be running at a time, and a second import is refused until the first has finished.
+-- Batches left running by a function that was stopped are closed as failed first.
+
+UPDATE public.import_batches
+SET status = 'failed', completed_at = COALESCE(completed_at, now())
+WHERE status = 'running';
+
+CREATE UNIQUE INDEX idx_import_batches_single_running
+  ON public.import_batches ((true))
+  WHERE status = 'running';
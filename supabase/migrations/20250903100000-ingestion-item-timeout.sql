@@ -0,0 +1,41 @@
+-- Items left in 'processing' by a worker that died were only reclaimed after ten
+-- minutes, while the dashboard offers to resume a job after five. Resuming in between
+-- claimed nothing and the job stalled again. The worker now passes how long an item may
+-- run, tied to the edge function time limit, and the dashboard waits that long too.
+
+DROP FUNCTION IF EXISTS public.claim_ingestion_items(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.claim_ingestion_items(
+  p_job_id UUID,
+  p_limit INTEGER DEFAULT 5,
+  p_timeout_seconds INTEGER DEFAULT 600
+) RETURNS SETOF public.inspection_ingestion_items
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.inspection_ingestion_items
+  SET status = 'failed',
+      message = 'Gave up after ' || attempts || ' attempts',
+      finished_at = now()
+  WHERE job_id = p_job_id
+    AND status = 'processing'
+    AND started_at < now() - make_interval(secs => p_timeout_seconds)
+    AND attempts >= 3;
+
+  RETURN QUERY
+  UPDATE public.inspection_ingestion_items AS item
+  SET status = 'processing',
+      attempts = item.attempts + 1,
+      started_at = now()
+  WHERE item.id IN (
+    SELECT id FROM public.inspection_ingestion_items
+    WHERE job_id = p_job_id
+      AND (status = 'pending' OR (status = 'processing' AND started_at < now() - make_interval(secs => p_timeout_seconds)))
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING item.*;
+END;
+$$;
@@ -0,0 +1,97 @@
+-- A claim's status, decision and approved amount were only checked inside
+-- advance_warranty_claim, while the table policy let managers update them directly,
+-- skipping the transition checks and the event history. A trigger now rejects direct
+-- changes to them; advance_warranty_claim marks its transaction so its own update
+-- passes. New claims must start as submitted with no decision.
+
+CREATE OR REPLACE FUNCTION public.protect_warranty_claim_lifecycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.warranty_claim_rpc', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'submitted'
+       OR NEW.decision IS NOT NULL OR NEW.approved_amount IS NOT NULL OR NEW.denial_reason IS NOT NULL
+       OR NEW.review_started_at IS NOT NULL OR NEW.decided_at IS NOT NULL OR NEW.completed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'New warranty claims start as submitted; decisions go through the claim actions';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.decision IS DISTINCT FROM OLD.decision
+     OR NEW.approved_amount IS DISTINCT FROM OLD.approved_amount
+     OR NEW.denial_reason IS DISTINCT FROM OLD.denial_reason
+     OR NEW.review_started_at IS DISTINCT FROM OLD.review_started_at
+     OR NEW.decided_at IS DISTINCT FROM OLD.decided_at
+     OR NEW.completed_at IS DISTINCT FROM OLD.completed_at THEN
+    RAISE EXCEPTION 'Warranty claim status and decisions can only be changed through the claim actions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_warranty_claim_lifecycle
+  BEFORE INSERT OR UPDATE ON public.warranty_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_warranty_claim_lifecycle();
+
+CREATE OR REPLACE FUNCTION public.advance_warranty_claim(
+  p_claim_id UUID,
+  p_status TEXT,
+  p_approved_amount NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS public.warranty_claims
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_claim public.warranty_claims;
+  v_previous_status TEXT;
+BEGIN
+  PERFORM set_config('app.warranty_claim_rpc', 'on', true);
+
+  SELECT * INTO v_claim FROM public.warranty_claims WHERE id = p_claim_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Warranty claim % not found', p_claim_id;
+  END IF;
+
+  IF NOT (
+    (v_claim.status = 'submitted' AND p_status = 'under_review') OR
+    (v_claim.status = 'under_review' AND p_status IN ('approved', 'denied')) OR
+    (v_claim.status IN ('approved', 'denied') AND p_status = 'completed')
+  ) THEN
+    RAISE EXCEPTION 'A % claim cannot be moved to %', v_claim.status, p_status;
+  END IF;
+
+  IF p_status = 'approved' AND p_approved_amount IS NULL THEN
+    RAISE EXCEPTION 'An approved claim needs an approved amount';
+  END IF;
+
+  v_previous_status := v_claim.status;
+
+  UPDATE public.warranty_claims SET
+    status = p_status,
+    review_started_at = CASE WHEN p_status = 'under_review' THEN now() ELSE review_started_at END,
+    decided_at = CASE WHEN p_status IN ('approved', 'denied') THEN now() ELSE decided_at END,
+    completed_at = CASE WHEN p_status = 'completed' THEN now() ELSE completed_at END,
+    decision = CASE WHEN p_status IN ('approved', 'denied') THEN p_status ELSE decision END,
+    approved_amount = CASE
+      WHEN p_status = 'approved' THEN p_approved_amount
+      WHEN p_status = 'denied' THEN 0
+      ELSE approved_amount
+    END,
+    denial_reason = CASE WHEN p_status = 'denied' THEN p_notes ELSE denial_reason END
+  WHERE id = p_claim_id
+  RETURNING * INTO v_claim;
+
+  INSERT INTO public.warranty_claim_events (claim_id, from_status, to_status, amount, notes, actor)
+  VALUES (p_claim_id, v_previous_status, p_status, p_approved_amount, p_notes, auth.uid());
+
+  RETURN v_claim;
+END;
+$$;
@@ -0,0 +1,80 @@
+-- Committing a reviewed extraction claimed the review, then wrote the inspection, its
+-- report and source text and the approved roof fields one request at a time, putting
+-- the review back if a later step failed. A failure between steps could leave a claimed
+-- review with half its records. commit_extraction_review does it all in one transaction;
+-- the app attaches the staged PDF first and returns it to staging if the commit fails.
+
+CREATE OR REPLACE FUNCTION public.commit_extraction_review(
+  p_review_id UUID,
+  p_roof_id UUID,
+  -- Rows as built by HistoricalInspectionRecords; ids are filled in here
+  p_inspection JSONB,
+  p_report JSONB,
+  p_source_document JSONB,
+  -- Approved roof column values
+  p_roof_updates JSONB,
+  p_corrected_data JSONB,
+  p_approved_roof_fields TEXT[]
+) RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_review public.inspection_extraction_reviews;
+  v_inspection public.inspections;
+  v_report public.inspection_reports;
+  v_source public.inspection_source_documents;
+  v_field TEXT;
+BEGIN
+  SELECT * INTO v_review FROM public.inspection_extraction_reviews WHERE id = p_review_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Extraction review % not found', p_review_id;
+  END IF;
+
+  IF v_review.status <> 'pending' THEN
+    RAISE EXCEPTION 'This review was already committed or rejected';
+  END IF;
+
+  v_inspection := jsonb_populate_record(NULL::public.inspections, p_inspection);
+  INSERT INTO public.inspections (roof_id, inspection_type, completed_date, status, notes, weather_conditions)
+  VALUES (p_roof_id, v_inspection.inspection_type, v_inspection.completed_date, v_inspection.status,
+          v_inspection.notes, v_inspection.weather_conditions)
+  RETURNING * INTO v_inspection;
+
+  v_report := jsonb_populate_record(NULL::public.inspection_reports, p_report);
+  INSERT INTO public.inspection_reports (inspection_id, findings, recommendations, estimated_cost, priority_level, status, report_url)
+  VALUES (v_inspection.id, v_report.findings, v_report.recommendations, v_report.estimated_cost,
+          v_report.priority_level, v_report.status, v_report.report_url)
+  RETURNING * INTO v_report;
+
+  v_source := jsonb_populate_record(NULL::public.inspection_source_documents, p_source_document);
+  INSERT INTO public.inspection_source_documents (
+    inspection_id, file_name, file_size, raw_text, page_count, parser_version, template_id,
+    field_confidence, extracted_data
+  ) VALUES (
+    v_inspection.id, v_source.file_name, v_source.file_size, v_source.raw_text, v_source.page_count,
+    v_source.parser_version, v_source.template_id, v_source.field_confidence, v_source.extracted_data
+  );
+
+  FOR v_field IN SELECT jsonb_object_keys(COALESCE(p_roof_updates, '{}'))
+  LOOP
+    EXECUTE format(
+      'UPDATE public.roofs SET %1$I = (jsonb_populate_record(NULL::public.roofs, $1)).%1$I, updated_at = now() WHERE id = $2',
+      v_field
+    ) USING p_roof_updates, p_roof_id;
+  END LOOP;
+
+  UPDATE public.inspection_extraction_reviews SET
+    status = 'committed',
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    roof_id = p_roof_id,
+    inspection_id = v_inspection.id,
+    corrected_data = p_corrected_data,
+    approved_roof_fields = COALESCE(p_approved_roof_fields, '{}')
+  WHERE id = p_review_id;
+
+  RETURN jsonb_build_object('inspection_id', v_inspection.id, 'report_id', v_report.id);
+END;
+$$;
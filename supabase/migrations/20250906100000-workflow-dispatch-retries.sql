@@ -0,0 +1,59 @@
+-- dispatch-campaign-workflow retried inside a single invocation: three attempts with a
+-- 60 second timeout and backoff could outlast the edge function time limit, which killed
+-- the function mid-retry without telling anyone. It now works to one time budget per
+-- invocation and queues the retries that don't fit here; later invocations claim the
+-- due ones once their own campaigns are dispatched.
+
+CREATE TABLE public.workflow_dispatch_retries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id TEXT NOT NULL,
+  client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  batch_mode BOOLEAN NOT NULL DEFAULT true,
+  -- Campaigns not yet delivered, as sent to the workflow engine
+  campaigns JSONB NOT NULL,
+  -- Attempts made so far, including those of the original dispatch
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'delivered', 'failed')),
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.workflow_dispatch_retries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view workflow dispatch retries" ON public.workflow_dispatch_retries
+FOR SELECT USING (has_role(auth.uid(), 'manager'::app_role) OR has_role(auth.uid(), 'super_admin'::app_role));
+
+CREATE INDEX idx_workflow_dispatch_retries_due ON public.workflow_dispatch_retries(next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+
+-- Claim the next due retry. One left in 'processing' by an invocation that was killed is
+-- claimable again once p_timeout_seconds have passed.
+CREATE OR REPLACE FUNCTION public.claim_workflow_dispatch_retry(
+  p_timeout_seconds INTEGER DEFAULT 180
+) RETURNS SETOF public.workflow_dispatch_retries
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.workflow_dispatch_retries AS retry
+  SET status = 'processing',
+      claimed_at = now(),
+      updated_at = now()
+  WHERE retry.id IN (
+    SELECT id FROM public.workflow_dispatch_retries
+    WHERE next_attempt_at <= now()
+      AND (status = 'pending' OR (status = 'processing' AND claimed_at < now() - make_interval(secs => p_timeout_seconds)))
+    ORDER BY next_attempt_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING retry.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_workflow_dispatch_retry(INTEGER) FROM PUBLIC, anon, authenticated;